@@ -6,9 +6,19 @@
 
 import { createCliDatabase, CliDatabase } from '../database';
 import type { ScimaxDbCore, AgendaItem, HeadingRecord } from '../../database/scimaxDbCore';
-import { loadSettings, AgendaSettings } from '../settings';
+import { loadSettings, shouldExclude, AgendaSettings } from '../settings';
 import { vscodeLinkAt } from '../links';
+import { exportIcal, IcalSource } from '../../parser/orgIcal';
+import { isArchiveFile } from '../../parser/orgArchive';
+import {
+    collectCustomViews,
+    runCustomAgendaView,
+    CustomAgendaView,
+} from '../../parser/orgAgendaCustom';
+import type { AgendaItem as ParsedAgendaItem } from '../../parser/orgAgenda';
 import { format, addDays } from 'date-fns';
+import * as fs from 'fs';
+import * as path from 'path';
 
 interface CliConfig {
     dbPath: string;
@@ -27,6 +37,11 @@ function addDaysToToday(n: number): string {
     return format(addDays(new Date(), n), 'yyyy-MM-dd');
 }
 
+/** Whether a file is left out of agenda views: excluded, or an archive file */
+function isHiddenFile(filePath: string, settings: AgendaSettings): boolean {
+    return shouldExclude(filePath, settings.exclude) || (!settings.includeArchives && isArchiveFile(filePath));
+}
+
 /** Flatten an AgendaItem into a plain object suitable for JSON output */
 function agendaItemToJson(item: AgendaItem) {
     return {
@@ -51,6 +66,12 @@ export async function agendaCommand(config: CliConfig, args: ParsedArgs): Promis
     const db = await createCliDatabase(config.dbPath);
 
     try {
+        // --ics exports every agenda file instead of showing a view
+        if (args.flags.ics !== undefined) {
+            await exportAgendaIcal(db, settings.agenda, args.flags.ics);
+            return;
+        }
+
         switch (view) {
             case 'today':
                 await showTodayAgenda(db, settings.agenda, json);
@@ -64,9 +85,17 @@ export async function agendaCommand(config: CliConfig, args: ParsedArgs): Promis
             case 'overdue':
                 await showOverdue(db, settings.agenda, json);
                 break;
-            default:
+            default: {
+                const { views, errors } = await loadCustomViews(db, settings.agenda);
+                for (const error of errors) console.error(`Warning: ${error}`);
+                const custom = views.find(v => v.name === view);
+                if (custom) {
+                    await showCustomView(db, custom, settings.agenda, json);
+                    break;
+                }
                 console.log(`Unknown agenda view: ${view}`);
-                console.log('Available: today, week, todos, overdue');
+                console.log('Available: today, week, todos, overdue' + views.map(v => `, ${v.name}`).join(''));
+            }
         }
     } finally {
         await db.close();
@@ -314,3 +343,124 @@ async function showOverdue(db: ScimaxDbCore, settings: AgendaSettings, json: boo
         console.log();
     }
 }
+
+/**
+ * Custom views from settings and from indexed org files with
+ * `:AGENDA_VIEW:` headings, as in the extension.
+ */
+async function loadCustomViews(
+    db: ScimaxDbCore,
+    settings: AgendaSettings
+): Promise<{ views: CustomAgendaView[]; errors: string[] }> {
+    const files = new Set((await db.searchByProperty('AGENDA_VIEW')).map(h => h.file_path));
+    const orgSources: { filePath: string; content: string }[] = [];
+    for (const filePath of files) {
+        try {
+            orgSources.push({ filePath, content: fs.readFileSync(filePath, 'utf-8') });
+        } catch {
+            console.error(`Skipping unreadable file: ${filePath}`);
+        }
+    }
+    return collectCustomViews(settings.customViews, orgSources);
+}
+
+/** Flatten a custom-view item (parser AgendaItem) for JSON output */
+function customItemToJson(item: ParsedAgendaItem) {
+    return {
+        title: item.title,
+        todo_state: item.todoState || null,
+        type: item.agendaType,
+        date: (item.scheduled ?? item.deadline) ? format((item.scheduled ?? item.deadline)!, 'yyyy-MM-dd') : null,
+        days_until: item.daysUntil ?? null,
+        tags: item.tags,
+        priority: item.priority || null,
+        file_path: item.file,
+        line_number: item.line,
+    };
+}
+
+async function showCustomView(
+    db: ScimaxDbCore,
+    view: CustomAgendaView,
+    settings: AgendaSettings,
+    json: boolean
+): Promise<void> {
+    const headings = (await db.getAllOrgHeadings()).filter(h => !isHiddenFile(h.file_path, settings));
+    const result = runCustomAgendaView(view, headings, {
+        todoStates: settings.todoStates,
+        doneStates: settings.doneStates,
+    });
+
+    if (json) {
+        console.log(JSON.stringify({
+            view: view.name,
+            date: format(new Date(), 'yyyy-MM-dd'),
+            count: result.totalItems,
+            blocks: result.blocks.map(block => ({
+                title: block.title,
+                type: block.block.type,
+                count: block.totalItems,
+                groups: block.groups
+                    .filter(group => group.items.length > 0)
+                    .map(group => ({ label: group.label || null, items: group.items.map(customItemToJson) })),
+            })),
+        }, null, 2));
+        return;
+    }
+
+    console.log(`=== ${view.title ?? view.name} ===\n`);
+
+    let idx = 0;
+    for (const block of result.blocks) {
+        console.log(`${block.title} (${block.totalItems}):`);
+        if (block.totalItems === 0) console.log('  (none)');
+        for (const group of block.groups) {
+            if (group.items.length === 0) continue;
+            if (group.label) console.log(`  ${group.label}`);
+            for (const item of group.items) {
+                const marker = item.todoState || '   ';
+                const link = vscodeLinkAt(item.file, item.line);
+                console.log(`  ${String(idx + 1).padStart(2)}. ${marker.padEnd(8)} ${item.title}`);
+                console.log(`           ${link}`);
+                idx++;
+            }
+        }
+        console.log();
+    }
+}
+
+/**
+ * Write agenda items as iCalendar: to `target` if a path was given to
+ * --ics, otherwise to stdout (so `scimax agenda --ics > agenda.ics` works).
+ */
+async function exportAgendaIcal(
+    db: ScimaxDbCore,
+    settings: AgendaSettings,
+    target: string | boolean
+): Promise<void> {
+    const sources: IcalSource[] = [];
+    for (const file of await db.getFiles()) {
+        if (file.file_type !== 'org' || isHiddenFile(file.path, settings)) continue;
+        try {
+            sources.push({ filePath: file.path, content: fs.readFileSync(file.path, 'utf-8') });
+        } catch {
+            console.error(`Skipping unreadable file: ${file.path}`);
+        }
+    }
+
+    const outPath = typeof target === 'string' ? path.resolve(target) : undefined;
+    const ics = exportIcal(sources, {
+        calendarName: outPath ? path.basename(outPath, '.ics') : 'agenda',
+        includeDone: settings.showDone,
+        todoKeywords: [...settings.todoStates, ...settings.doneStates],
+        doneKeywords: settings.doneStates,
+    });
+
+    if (!outPath) {
+        process.stdout.write(ics);
+        return;
+    }
+    fs.writeFileSync(outPath, ics);
+    const count = (ics.match(/^BEGIN:V(?:EVENT|TODO)\r?$/gm) || []).length;
+    console.log(`Exported ${count} calendar entries from ${sources.length} files to ${outPath}`);
+}
@@ -120,6 +120,9 @@ async function showStats(config: CliConfig, args: ParsedArgs): Promise<void> {
             if (stats.by_type) {
                 console.log(`  Org files: ${stats.by_type.org}`);
                 console.log(`  Markdown files: ${stats.by_type.md}`);
+                console.log(`  Notebooks: ${stats.by_type.ipynb}`);
+                console.log(`  LaTeX files: ${stats.by_type.tex}`);
+                console.log(`  BibTeX files: ${stats.by_type.bib}`);
             }
         }
     } finally {
@@ -240,7 +243,10 @@ async function syncDatabase(config: CliConfig, args: ParsedArgs): Promise<void>
     const discovered: DiskFileSlim[] = [];
     const seenDisk = new Set<string>();
     for (const root of roots) {
-        const found = findOrgFiles(root, settings.db.exclude, { maxFileSizeMB: settings.db.maxFileSizeMB });
+        const found = findOrgFiles(root, settings.db.exclude, {
+            maxFileSizeMB: settings.db.maxFileSizeMB,
+            includeArchives: settings.db.includeArchives,
+        });
         for (const filePath of found) {
             if (seenDisk.has(filePath)) continue;
             seenDisk.add(filePath);
@@ -425,7 +431,10 @@ async function scanDirectory(config: CliConfig, args: ParsedArgs): Promise<void>
     for (const pattern of settings.db.exclude) console.log(`  ${pattern}`);
     console.log();
 
-    const orgFiles = findOrgFiles(scanDir, settings.db.exclude, { maxFileSizeMB: settings.db.maxFileSizeMB });
+    const orgFiles = findOrgFiles(scanDir, settings.db.exclude, {
+        maxFileSizeMB: settings.db.maxFileSizeMB,
+        includeArchives: settings.db.includeArchives,
+    });
     console.log(`Found ${orgFiles.length} org file(s) to index.`);
     console.log();
 
@@ -1,5 +1,5 @@
 /**
- * Export command - convert org files to HTML, PDF, LaTeX
+ * Export command - convert org files to HTML, PDF, LaTeX, Markdown, DOCX, ODT
  *
  * Uses the same settings as the VS Code extension for consistent behavior.
  */
@@ -7,9 +7,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parseOrgFast } from '../../parser/orgExportParser';
+import { embedJupyterCharts } from '../../jupyter/richOutput';
+import { writeTablePlots } from '../../parser/orgPlot';
 import { exportToHtml } from '../../parser/orgExportHtml';
 import { exportToLatex } from '../../parser/orgExportLatex';
 import { exportToBeamer, BeamerExportOptions } from '../../parser/orgExportBeamer';
+import { exportToMarkdown, MARKDOWN_FLAVORS, MarkdownFlavor } from '../../parser/orgExportMarkdown';
+import { exportToReveal, resolveRevealOptions, revealAssetPaths, RevealExportOptions } from '../../parser/orgExportReveal';
+import { exportToDocx, DocxEngine } from '../../parser/orgExportDocx';
+import { exportToOdt } from '../../parser/orgExportOdt';
+import { bundleRevealAssets, REVEAL_BUNDLE_DIR } from '../../export/revealAssets';
 import { parseBibTeX } from '../../references/bibtexParser';
 import { loadSettings, expandPath, ExportSettings, RefSettings } from '../settings';
 import { extractFirstLatexError } from './latexLog';
@@ -71,7 +78,7 @@ export async function exportCommand(config: CliConfig, args: ParsedArgs): Promis
     const inputFile = args.args[0];
 
     if (!inputFile && !args.flags['list-exporters']) {
-        console.error('Usage: scimax export <file.org> [--format html|latex|pdf|beamer|beamer-pdf] [--exporter <id>] [--output path] [--json]');
+        console.error('Usage: scimax export <file.org> [--format html|latex|pdf|beamer|beamer-pdf|revealjs|markdown|docx|odt] [--flavor gfm|hugo|myst] [--bundle] [--engine auto|native|pandoc] [--exporter <id>] [--output path] [--json]');
         console.error('       scimax export --list-exporters');
         process.exit(1);
     }
@@ -155,6 +162,11 @@ export async function exportCommand(config: CliConfig, args: ParsedArgs): Promis
 
     const doc = parseOrgFast(content);
 
+    // Write the file: images of #+PLOT: tables so the export can include them
+    for (const failure of writeTablePlots(content, path.dirname(inputPath)).failed) {
+        process.stderr.write(`Warning: could not write plot ${failure.file}: ${failure.reason}\n`);
+    }
+
     // Look for bibliography file (check settings first, then local files)
     let bibEntries;
     const bibFile = typeof args.flags.bib === 'string'
@@ -171,12 +183,13 @@ export async function exportCommand(config: CliConfig, args: ParsedArgs): Promis
     // CSL style
     const cslStyle = typeof args.flags.csl === 'string' ? args.flags.csl : 'apa';
 
-    let output: string;
+    let output: string | Buffer;
     let defaultExt: string;
 
     switch (format) {
         case 'html':
-            output = exportToHtml(doc, {
+            // Jupyter charts are drawn inline, from their saved specs
+            output = exportToHtml(parseOrgFast(embedJupyterCharts(content, path.dirname(inputPath))), {
                 bibEntries,
                 citationStyle: cslStyle,
                 bibliography: true,
@@ -237,12 +250,100 @@ export async function exportCommand(config: CliConfig, args: ParsedArgs): Promis
             break;
         }
 
+        case 'revealjs':
+        case 'reveal': {
+            const r = settings.export.revealjs;
+            const revealOptions: Partial<RevealExportOptions> = {
+                revealRoot: r.root || undefined,
+                theme: r.theme || undefined,
+                transition: r.transition || undefined,
+                bibEntries,
+                citationStyle: cslStyle,
+            };
+            if (args.flags.bundle === true || r.bundle) {
+                // Bundle next to the output so the relative reveal.js/ path resolves
+                const outDir = path.dirname(outputPath ? path.resolve(outputPath) : inputPath);
+                const resolved = resolveRevealOptions(doc, revealOptions);
+                let source = resolved.revealRoot;
+                if (source && !/^https?:\/\//.test(source)) {
+                    source = path.resolve(path.dirname(inputPath), expandPath(source));
+                }
+                const written = await bundleRevealAssets(revealAssetPaths(resolved), source, path.join(outDir, REVEAL_BUNDLE_DIR));
+                if (written.length > 0) {
+                    process.stderr.write(`Bundled ${written.length} reveal.js file(s) into ${path.join(outDir, REVEAL_BUNDLE_DIR)}\n`);
+                }
+                revealOptions.bundleDir = REVEAL_BUNDLE_DIR;
+            }
+            output = exportToReveal(doc, revealOptions);
+            defaultExt = '.html';
+            break;
+        }
+
+        case 'markdown':
+        case 'md': {
+            const flavor = (typeof args.flags.flavor === 'string'
+                ? args.flags.flavor
+                : settings.export.markdown.flavor).toLowerCase();
+            if (!MARKDOWN_FLAVORS.includes(flavor as MarkdownFlavor)) {
+                const error = `Unknown Markdown flavor: ${flavor}. Supported: ${MARKDOWN_FLAVORS.join(', ')}`;
+                if (json) {
+                    console.log(JSON.stringify({ success: false, error }));
+                } else {
+                    console.error(error);
+                }
+                process.exit(1);
+            }
+            output = exportToMarkdown(doc, {
+                flavor: flavor as MarkdownFlavor,
+                bibEntries,
+                citationStyle: cslStyle,
+            });
+            defaultExt = '.md';
+            break;
+        }
+
+        case 'docx':
+        case 'word': {
+            const engine = (typeof args.flags.engine === 'string'
+                ? args.flags.engine
+                : settings.export.docx.engine).toLowerCase();
+            if (!['auto', 'native', 'pandoc'].includes(engine)) {
+                const error = `Unknown DOCX engine: ${engine}. Supported: auto, native, pandoc`;
+                if (json) {
+                    console.log(JSON.stringify({ success: false, error }));
+                } else {
+                    console.error(error);
+                }
+                process.exit(1);
+            }
+            output = await exportToDocx(doc, {
+                engine: engine as DocxEngine,
+                referenceDoc: resolveReferenceDoc(args.flags['reference-doc'], settings.export.docx.referenceDoc, inputPath),
+                basePath: path.dirname(inputPath),
+                rawContent: content,
+                bibEntries,
+                citationStyle: cslStyle,
+            });
+            defaultExt = '.docx';
+            break;
+        }
+
+        case 'odt':
+            output = await exportToOdt(doc, {
+                referenceDoc: resolveReferenceDoc(args.flags['reference-doc'], settings.export.odt.referenceDoc, inputPath),
+                basePath: path.dirname(inputPath),
+                bibEntries,
+                citationStyle: cslStyle,
+            });
+            defaultExt = '.odt';
+            break;
+
         default:
             if (json) {
-                console.log(JSON.stringify({ success: false, error: `Unknown format: ${format}. Supported: html, latex, pdf, beamer, beamer-pdf` }));
+                console.log(JSON.stringify({ success: false, error: `Unknown format: ${format}. Supported: html, latex, pdf, beamer, beamer-pdf, revealjs, markdown, docx, odt` }));
             } else {
                 console.error(`Unknown format: ${format}`);
-                console.error('Supported formats: html, latex, pdf, beamer, beamer-pdf');
+                console.error('Supported formats: html, latex, pdf, beamer, beamer-pdf, revealjs, markdown, docx, odt');
             }
             process.exit(1);
     }
@@ -260,6 +361,15 @@ export async function exportCommand(config: CliConfig, args: ParsedArgs): Promis
     }
 }
 
+/**
+ * Reference document from --reference-doc or the setting, resolved against
+ * the org file's directory
+ */
+function resolveReferenceDoc(flag: string | boolean | undefined, setting: string, inputPath: string): string | undefined {
+    const value = typeof flag === 'string' ? flag : setting;
+    return value ? path.resolve(path.dirname(inputPath), expandPath(value)) : undefined;
+}
+
 /**
  * Look for .bib file - checks settings first, then same directory
  */
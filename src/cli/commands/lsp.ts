@@ -0,0 +1,100 @@
+/**
+ * LSP command - run the org language server over stdio
+ *
+ * Editors other than VS Code (Neovim, Helix, Emacs eglot, Sublime) start
+ * `scimax lsp --stdio` as a subprocess. stdout carries the protocol, so all
+ * logging goes to stderr once the server starts.
+ */
+
+import * as fs from 'fs';
+import { createCliDatabase } from '../database';
+import type { ScimaxDbCore } from '../../database/scimaxDbCore';
+import { loadSettings, expandPath } from '../settings';
+import { JsonRpcConnection } from '../../lsp/jsonRpc';
+import { OrgLanguageServer } from '../../lsp/orgLanguageServer';
+
+interface CliConfig {
+    dbPath: string;
+    rootDir: string;
+}
+
+interface ParsedArgs {
+    command: string;
+    subcommand?: string;
+    args: string[];
+    flags: Record<string, string | boolean>;
+}
+
+function printLspHelp(): void {
+    console.log(`
+scimax lsp - Org language server for editors other than VS Code
+
+USAGE:
+    scimax lsp --stdio       Speak the Language Server Protocol on stdin/stdout
+
+OPTIONS:
+    --no-db                  Do not open the scimax database
+
+FEATURES:
+    Document symbols, folding, completion for links, tags and properties,
+    hover, org-lint diagnostics, go-to-definition for id:, file: and
+    citation links, and workspace symbols from the scimax database.
+
+NOTES:
+    Workspace symbols and id: links outside open files need the database;
+    run 'scimax db sync' to build it. Saved files are reindexed.
+
+    Settings come from VS Code's settings.json (scimax.ref.bibliographyFiles,
+    scimax.org.lint.disabledCheckers); clients may override them with the
+    initializationOptions { bibliographyFiles, disabledCheckers }.
+`);
+}
+
+export async function lspCommand(config: CliConfig, args: ParsedArgs): Promise<void> {
+    if (args.subcommand === 'help' || args.flags.help === true) { printLspHelp(); return; }
+
+    if (args.flags.stdio !== true) {
+        console.error('Usage: scimax lsp --stdio');
+        process.exitCode = 1;
+        return;
+    }
+
+    // stdout belongs to the protocol from here on
+    console.log = console.error;
+    console.info = console.error;
+    console.warn = console.error;
+
+    let db: ScimaxDbCore | null = null;
+    if (args.flags['no-db'] !== true && fs.existsSync(config.dbPath)) {
+        try {
+            db = await createCliDatabase(config.dbPath);
+        } catch (error) {
+            console.error(`[lsp] Running without the database: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    const settings = loadSettings();
+    const connection = new JsonRpcConnection(process.stdin, process.stdout);
+    const server = new OrgLanguageServer(connection, {
+        db,
+        bibliographyFiles: settings.ref.bibliographyFiles.map(expandPath),
+        disabledCheckers: settings.org.lintDisabledCheckers,
+    });
+
+    await new Promise<void>(resolve => {
+        let stopped = false;
+        const stop = async (code: number) => {
+            if (stopped) return;
+            stopped = true;
+            server.dispose();
+            await db?.close();
+            process.exitCode = code;
+            resolve();
+            // stdin would otherwise keep the process alive
+            process.stdin.destroy();
+        };
+        server.onExit(code => void stop(code));
+        connection.onClose(() => void stop(0));
+        connection.listen();
+    });
+}
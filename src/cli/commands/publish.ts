@@ -6,6 +6,7 @@
  *   scimax publish <project>    # Publish specific project
  *   scimax publish --init       # Initialize publish configuration
  *   scimax publish --list       # List configured projects
+ *   scimax publish --serve      # Serve with live reload while editing
  */
 
 import * as fs from 'fs';
@@ -27,6 +28,7 @@ import {
     isPublishProject,
     mergeWithDefaults,
 } from '../../publishing/publishProject';
+import { PublishPreviewServer } from '../../publishing/publishServe';
 
 interface CliConfig {
     dbPath: string;
@@ -64,6 +66,12 @@ export async function publishCommand(config: CliConfig, args: ParsedArgs): Promi
         process.exit(1);
     }
 
+    // Handle --serve flag
+    if (args.flags.serve) {
+        await servePreview(workspaceRoot, args);
+        return;
+    }
+
     const json = args.flags.json === true;
 
     // Handle --list flag
@@ -169,8 +177,12 @@ export async function publishCommand(config: CliConfig, args: ParsedArgs): Promi
             const summary = results.map(r => ({
                 project: r.projectName,
                 success: r.errorCount === 0,
-                files_published: r.successCount,
+                files_published: r.builtCount,
+                files_unchanged: r.skippedCount,
                 files_total: r.totalFiles,
+                files_removed: r.removedFiles,
+                files_generated: r.generatedFiles,
+                rebuild_reasons: r.reasons,
                 errors: r.files.filter(f => !f.success).map(f => ({
                     file: f.sourcePath,
                     error: f.error,
@@ -181,7 +193,9 @@ export async function publishCommand(config: CliConfig, args: ParsedArgs): Promi
                 dry_run: !!options.dryRun,
                 projects: summary,
                 total_files: results.reduce((s, r) => s + r.totalFiles, 0),
-                total_published: results.reduce((s, r) => s + r.successCount, 0),
+                total_published: results.reduce((s, r) => s + r.builtCount, 0),
+                total_unchanged: results.reduce((s, r) => s + r.skippedCount, 0),
+                total_removed: results.reduce((s, r) => s + r.removedFiles.length, 0),
                 total_errors: results.reduce((s, r) => s + r.errorCount, 0),
             }, null, 2));
         } else {
@@ -198,6 +212,47 @@ export async function publishCommand(config: CliConfig, args: ParsedArgs): Promi
     }
 }
 
+/**
+ * Publish a project, serve it with live reload and republish on changes
+ * until interrupted
+ */
+async function servePreview(workspaceRoot: string, args: ParsedArgs): Promise<void> {
+    const port = typeof args.flags.port === 'string' ? parseInt(args.flags.port, 10) : 8000;
+    if (isNaN(port) || port < 0 || port > 65535) {
+        console.error(`Invalid port: ${args.flags.port}`);
+        process.exit(1);
+    }
+
+    const server = new PublishPreviewServer({
+        workspaceRoot,
+        // `--serve docs` parses as a flag value
+        projectName: args.args[0] ?? (typeof args.flags.serve === 'string' ? args.flags.serve : undefined),
+        port,
+        host: typeof args.flags.host === 'string' ? args.flags.host : undefined,
+        log: message => console.log(message),
+    });
+
+    try {
+        await server.start();
+    } catch (error) {
+        console.error('Preview server failed:', error instanceof Error ? error.message : error);
+        await server.stop();
+        process.exit(1);
+    }
+
+    console.log(`Watching ${server.sourceDirectory} (Ctrl+C to stop)`);
+
+    await new Promise<void>(resolve => {
+        const shutdown = () => {
+            process.off('SIGINT', shutdown);
+            process.off('SIGTERM', shutdown);
+            void server.stop().then(resolve);
+        };
+        process.on('SIGINT', shutdown);
+        process.on('SIGTERM', shutdown);
+    });
+}
+
 /**
  * List configured projects
  */
@@ -238,7 +293,23 @@ function printSummary(results: PublishProjectResult[], dryRun?: boolean): void {
 
     for (const result of results) {
         console.log(`${prefix}Project: ${result.projectName}`);
-        console.log(`  Files: ${result.successCount}/${result.totalFiles} published`);
+        console.log(`  Files: ${result.builtCount} published, ${result.skippedCount} unchanged (${result.totalFiles} total)`);
+
+        const reasons = Object.entries(result.reasons).map(([reason, count]) => `${count} ${reason}`);
+        if (reasons.length > 0) {
+            console.log(`  Rebuilt: ${reasons.join(', ')}`);
+        }
+
+        if (result.generatedFiles.length > 0) {
+            console.log(`  Generated: ${result.generatedFiles.length} blog page(s) and feed(s)`);
+        }
+
+        if (result.removedFiles.length > 0) {
+            console.log(`  Removed: ${result.removedFiles.length} stale output(s)`);
+            for (const file of result.removedFiles) {
+                console.log(`    - ${path.relative(process.cwd(), file)}`);
+            }
+        }
 
         if (result.errorCount > 0) {
             console.log(`  Errors: ${result.errorCount}`);
@@ -257,14 +328,14 @@ function printSummary(results: PublishProjectResult[], dryRun?: boolean): void {
     }
 
     // Overall summary
-    const totalFiles = results.reduce((sum, r) => sum + r.totalFiles, 0);
-    const totalSuccess = results.reduce((sum, r) => sum + r.successCount, 0);
+    const totalBuilt = results.reduce((sum, r) => sum + r.builtCount, 0);
+    const totalSkipped = results.reduce((sum, r) => sum + r.skippedCount, 0);
     const totalErrors = results.reduce((sum, r) => sum + r.errorCount, 0);
     const totalDuration = results.reduce((sum, r) => sum + r.duration, 0);
 
     if (results.length > 1) {
         console.log('─'.repeat(40));
-        console.log(`${prefix}Total: ${totalSuccess}/${totalFiles} files in ${totalDuration}ms`);
+        console.log(`${prefix}Total: ${totalBuilt} published, ${totalSkipped} unchanged in ${totalDuration}ms`);
 
         if (totalErrors > 0) {
             console.log(`  ${totalErrors} error(s)`);
@@ -353,8 +424,14 @@ ARGUMENTS:
 OPTIONS:
     --init              Initialize a new publishing configuration
     --list              List configured projects
-    --force             Force republish even if files are up to date
+    --force             Republish every file, ignoring the publish manifest
     --dry-run           Show what would be published without writing files
+    --serve             Publish, serve the output and republish on changes
+                        with live reload (one project, default or named)
+
+SERVE OPTIONS:
+    --port <n>          Port to listen on (default: 8000)
+    --host <host>       Host to listen on (default: 127.0.0.1)
 
 INIT OPTIONS:
     --name <name>       Project name (default: main)
@@ -374,6 +451,8 @@ EXAMPLES:
     scimax publish --init           # Initialize with defaults
     scimax publish --init --yaml    # Initialize with YAML config
     scimax publish --list           # List configured projects
+    scimax publish --serve          # Preview at http://127.0.0.1:8000/
+    scimax publish docs --serve --port 8080
 
 CONFIGURATION:
     Publishing configuration is read from:
@@ -392,5 +471,10 @@ CONFIGURATION:
       },
       "githubPages": true
     }
+
+SERVE MODE:
+    Changed .org, .md and .ipynb sources are republished on save, along
+    with files that #+INCLUDE them; open browser tabs reload. Editing
+    _toc.yml or the configuration republishes the whole project.
 `);
 }
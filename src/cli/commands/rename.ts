@@ -0,0 +1,232 @@
+/**
+ * Rename command - rename a CUSTOM_ID, ID, <<target>> or #+NAME and every reference to it
+ *
+ * Uses the same rename core as the editor's F2 rename: the files to visit come
+ * from the links index, and all renames are applied in memory before any file
+ * is written, so a batch either fails up front or writes every file once.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCliDatabase } from '../database';
+import type { ScimaxDbCore } from '../../database/scimaxDbCore';
+import {
+    applyRenameEdits,
+    findDefinitionsOf,
+    renameEditsForContent,
+    validateRenameName,
+    OrgRenameKind,
+    RENAME_KIND_LABELS,
+} from '../../parser/orgRename';
+
+interface CliConfig {
+    dbPath: string;
+    rootDir: string;
+}
+
+interface ParsedArgs {
+    command: string;
+    subcommand?: string;
+    args: string[];
+    flags: Record<string, string | boolean>;
+}
+
+const KINDS: OrgRenameKind[] = ['custom-id', 'id', 'target', 'name'];
+
+interface RenamePair {
+    oldName: string;
+    newName: string;
+}
+
+interface RenameResult {
+    kind: OrgRenameKind;
+    old_name: string;
+    new_name: string;
+    files: { file_path: string; lines: number[] }[];
+}
+
+function printRenameHelp(): void {
+    console.log(`
+scimax rename - Rename an org identifier and every reference to it
+
+USAGE:
+    scimax rename <file.org> <old> <new>     Rename one identifier defined in file.org
+    scimax rename <file.org> --map <file>    Rename many; each line of <file> is "old new"
+
+OPTIONS:
+    --kind <kind>    custom-id, id, target or name (otherwise found in file.org)
+    --dry-run        Show what would change without writing files
+    --json           Structured output
+
+NOTES:
+    Renames a heading's :CUSTOM_ID: or :ID:, a <<target>> or a #+NAME:, with
+    the links, ref: links, :DEPENDS: entries, #+CALL: lines and noweb
+    references pointing at it. Other files are found through the database,
+    so run 'scimax db sync' first if they changed outside the editor.
+
+    In a map file, blank lines and lines starting with # are ignored. All
+    renames are checked before any file is written.
+`);
+}
+
+/** Pairs from a map file: one "old new" per line */
+function readRenameMap(mapPath: string): RenamePair[] | string {
+    const pairs: RenamePair[] = [];
+    const lines = fs.readFileSync(mapPath, 'utf-8').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line || line.startsWith('#')) continue;
+        const parts = line.split(/\s+/);
+        if (parts.length !== 2) return `${mapPath}:${i + 1}: expected "old new"`;
+        pairs.push({ oldName: parts[0], newName: parts[1] });
+    }
+    return pairs;
+}
+
+/** The kind of `name` in the defining file, or why it cannot be renamed */
+function detectKind(content: string, name: string, requested?: OrgRenameKind): { kind: OrgRenameKind } | { error: string } {
+    const kinds = [...new Set(findDefinitionsOf(content, name, requested).map(def => def.kind))];
+    if (kinds.length === 1) return { kind: kinds[0] };
+    if (kinds.length === 0) {
+        return {
+            error: requested
+                ? `No ${RENAME_KIND_LABELS[requested]} "${name}" in the file`
+                : `No CUSTOM_ID, ID, <<target>> or #+NAME "${name}" in the file`,
+        };
+    }
+    return { error: `"${name}" is defined as ${kinds.map(k => RENAME_KIND_LABELS[k]).join(' and ')}; choose one with --kind` };
+}
+
+/**
+ * Rename each pair in turn over the in-memory `contents`, loading files as
+ * they become candidates. Returns an error message on the first failure.
+ */
+async function planRenames(
+    db: ScimaxDbCore,
+    definitionPath: string,
+    pairs: RenamePair[],
+    requested: OrgRenameKind | undefined,
+    contents: Map<string, string>
+): Promise<RenameResult[] | string> {
+    const load = (file: string): string | undefined => {
+        if (!contents.has(file)) {
+            if (!fs.existsSync(file)) return undefined;
+            contents.set(file, fs.readFileSync(file, 'utf-8'));
+        }
+        return contents.get(file);
+    };
+
+    const results: RenameResult[] = [];
+    for (const { oldName, newName } of pairs) {
+        const definition = load(definitionPath) ?? '';
+        const detected = detectKind(definition, oldName, requested);
+        if ('error' in detected) return detected.error;
+        const { kind } = detected;
+
+        const invalid = validateRenameName(kind, newName);
+        if (invalid) return invalid;
+        if (findDefinitionsOf(definition, newName, kind).length > 0) {
+            return `${RENAME_KIND_LABELS[kind]} "${newName}" already exists in ${path.basename(definitionPath)}`;
+        }
+        if (kind === 'id') {
+            const existing = await db.getHeadingById(newName);
+            if (existing) return `ID "${newName}" is already used in ${existing.file_path}`;
+        }
+
+        // Files edited by earlier renames may hold references the index has not seen yet
+        const files = new Set([definitionPath, ...contents.keys(), ...await db.getRenameCandidateFiles(kind, oldName)]);
+        const request = { kind, oldName, newName, definitionPath };
+        const result: RenameResult = { kind, old_name: oldName, new_name: newName, files: [] };
+        for (const file of files) {
+            const content = load(file);
+            if (content === undefined) continue;
+            const edits = renameEditsForContent(content, request, file);
+            if (edits.length === 0) continue;
+            contents.set(file, applyRenameEdits(content, edits));
+            result.files.push({ file_path: file, lines: [...new Set(edits.map(e => e.line + 1))] });
+        }
+        results.push(result);
+    }
+    return results;
+}
+
+export async function renameCommand(config: CliConfig, args: ParsedArgs): Promise<void> {
+    if (args.subcommand === 'help' || args.flags.help === true) { printRenameHelp(); return; }
+
+    const [file, oldName, newName] = args.args;
+    const mapFile = typeof args.flags.map === 'string' ? args.flags.map : undefined;
+    const json = args.flags.json === true;
+    const dryRun = args.flags['dry-run'] === true;
+
+    if (!file || (!mapFile && (!oldName || !newName))) {
+        console.error('Usage: scimax rename <file.org> <old> <new> [--kind k] [--dry-run] [--json]');
+        console.error('       scimax rename <file.org> --map <file> [--kind k] [--dry-run] [--json]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const definitionPath = path.resolve(file);
+    if (!fs.existsSync(definitionPath)) {
+        console.error(`File not found: ${definitionPath}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const kindFlag = args.flags.kind;
+    if (kindFlag !== undefined && !KINDS.includes(kindFlag as OrgRenameKind)) {
+        console.error(`Unknown --kind "${kindFlag}"; expected one of ${KINDS.join(', ')}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    let pairs: RenamePair[] = [{ oldName, newName }];
+    if (mapFile) {
+        if (!fs.existsSync(mapFile)) {
+            console.error(`Map file not found: ${mapFile}`);
+            process.exitCode = 1;
+            return;
+        }
+        const read = readRenameMap(mapFile);
+        if (typeof read === 'string') {
+            console.error(read);
+            process.exitCode = 1;
+            return;
+        }
+        pairs = read;
+    }
+
+    const db = await createCliDatabase(config.dbPath);
+    try {
+        const contents = new Map<string, string>();
+        const results = await planRenames(db, definitionPath, pairs, kindFlag as OrgRenameKind | undefined, contents);
+        if (typeof results === 'string') {
+            console.error(`Rename failed: ${results}`);
+            process.exitCode = 1;
+            return;
+        }
+
+        const changed = [...new Set(results.flatMap(r => r.files.map(f => f.file_path)))];
+        if (!dryRun) {
+            for (const changedFile of changed) {
+                fs.writeFileSync(changedFile, contents.get(changedFile) as string, 'utf-8');
+            }
+            for (const changedFile of changed) {
+                await db.indexFile(changedFile);
+            }
+        }
+
+        if (json) {
+            console.log(JSON.stringify({ dry_run: dryRun, renames: results, files_changed: changed }, null, 2));
+            return;
+        }
+        for (const r of results) {
+            console.log(`${RENAME_KIND_LABELS[r.kind]} "${r.old_name}" -> "${r.new_name}"`);
+            for (const f of r.files) {
+                console.log(`  ${f.file_path}: line${f.lines.length === 1 ? '' : 's'} ${f.lines.join(', ')}`);
+            }
+        }
+        console.log(`${dryRun ? 'Would change' : 'Changed'} ${changed.length} file${changed.length === 1 ? '' : 's'}.`);
+    } finally {
+        await db.close();
+    }
+}
@@ -30,7 +30,7 @@ export async function searchCommand(config: CliConfig, args: ParsedArgs): Promis
     if (!query) {
         console.error(`Usage:
   scimax search <query> [--semantic] [--limit N] [--json]
-  scimax search headings [query] [-t tag] [--todo STATE] [--limit N] [--json]`);
+  scimax search headings [query] [-t tag] [--todo STATE] [--match EXPR] [--limit N] [--json]`);
         process.exit(1);
     }
 
@@ -64,38 +64,73 @@ async function searchHeadingsCommand(config: CliConfig, args: ParsedArgs): Promi
     const query = args.args[1] || '';
     const tag = (args.flags.t || args.flags.tag) as string | undefined;
     const todoState = (args.flags.todo) as string | undefined;
+    const match = (args.flags.match || args.flags.m) as string | undefined;
     const limit = typeof args.flags.limit === 'string' ? parseInt(args.flags.limit, 10) : 50;
     const json = args.flags.json === true;
 
-    if (!query && !tag && !todoState) {
-        console.error(`Usage: scimax search headings [query] [-t tag] [--todo STATE] [--limit N] [--json]
+    if (!query && !tag && !todoState && !match) {
+        console.error(`Usage: scimax search headings [query] [-t tag] [--todo STATE] [--match EXPR] [--limit N] [--json]
 
 Examples:
   scimax search headings "proposal"           Search heading titles
   scimax search headings -t proposal           Find headings tagged :proposal:
   scimax search headings --todo TODO           Find all TODO headings
-  scimax search headings -t grant --todo NEXT  Combine filters`);
+  scimax search headings -t grant --todo NEXT  Combine filters
+  scimax search headings --match '+grant-draft+EFFORT<2:00'
+                                               Org tags/property match
+  scimax search headings --match='-done+DEADLINE<="<+1w>"'
+                                               Use --match= when EXPR starts with -`);
         process.exit(1);
     }
 
     const db = await createCliDatabase(config.dbPath);
 
     try {
-        const results = await db.searchHeadings(query, { tag, todoState, limit });
-        displayHeadings(results, { query, tag, todoState, json });
+        const results = match
+            ? await searchHeadingsByMatch(db, match, { query, tag, todoState, limit })
+            : await db.searchHeadings(query, { tag, todoState, limit });
+        displayHeadings(results, { query, tag, todoState, match, json });
+    } catch (error) {
+        // Match syntax errors are user errors: report them without a stack.
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
     } finally {
         await db.close();
     }
 }
 
+/**
+ * Run a tags/property match, narrowed by -t, --todo and the title query the
+ * same way plain heading search applies them.
+ */
+async function searchHeadingsByMatch(
+    db: ScimaxDbCore,
+    match: string,
+    opts: { query: string; tag?: string; todoState?: string; limit: number }
+): Promise<HeadingRecord[]> {
+    if (!opts.query && !opts.tag && !opts.todoState) {
+        return db.searchTagsMatch(match, { limit: opts.limit });
+    }
+    const needle = opts.query.toLowerCase();
+    const results = await db.searchTagsMatch(match, {
+        todoStates: opts.todoState ? [opts.todoState] : undefined,
+        limit: 5000,
+    });
+    return results
+        .filter(h => !needle || h.title.toLowerCase().includes(needle))
+        .filter(h => !opts.tag || `${h.tags}${h.inherited_tags}`.includes(`"${opts.tag}"`))
+        .slice(0, opts.limit);
+}
+
 function displayHeadings(results: HeadingRecord[], opts: {
-    query: string; tag?: string; todoState?: string; json: boolean;
+    query: string; tag?: string; todoState?: string; match?: string; json: boolean;
 }): void {
     if (opts.json) {
         console.log(JSON.stringify({
             query: opts.query || null,
             tag: opts.tag || null,
             todo_state: opts.todoState || null,
+            match: opts.match || null,
             count: results.length,
             results: results.map(r => ({
                 title: r.title,
@@ -115,6 +150,7 @@ function displayHeadings(results: HeadingRecord[], opts: {
     if (opts.query) { parts.push(`title matching "${opts.query}"`); }
     if (opts.tag) { parts.push(`tag :${opts.tag}:`); }
     if (opts.todoState) { parts.push(`state ${opts.todoState}`); }
+    if (opts.match) { parts.push(`match ${opts.match}`); }
     console.log(`Searching headings: ${parts.join(', ')}\n`);
 
     if (results.length === 0) {
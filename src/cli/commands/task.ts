@@ -19,6 +19,7 @@ import { createCliDatabase } from '../database';
 import type { ScimaxDbCore, HeadingRecord, DependencyRecord } from '../../database/scimaxDbCore';
 import { loadSettings } from '../settings';
 import { vscodeLinkAt } from '../links';
+import { buildRefileTargets, matchOutlinePath, refileOnDisk, RefileHeading } from '../../parser/orgRefile';
 
 interface CliConfig {
     dbPath: string;
@@ -578,6 +579,85 @@ async function taskAssign(db: ScimaxDbCore, file: string, id: string, who: strin
     console.log(`Assigned "${t.title}" to ${who}${t.assignee ? ` (was ${t.assignee})` : ''}.`);
 }
 
+function toRefileHeading(h: HeadingRecord): RefileHeading {
+    return { filePath: h.file_path, level: h.level, title: h.title, lineNumber: h.line_number, todoState: h.todo_state };
+}
+
+/**
+ * Resolve a refile target. `id:<id>` names a heading directly;
+ * `file.org/Parent/Child` (or `file.md/...`) walks the outline of an indexed
+ * file, and a bare `file.org` means its top level. The file part may be a path or just a
+ * basename, as long as it picks out one indexed file.
+ */
+async function resolveRefileTarget(db: ScimaxDbCore, spec: string): Promise<RefileHeading | string> {
+    if (/^id:/i.test(spec)) {
+        const h = await db.getHeadingById(spec.slice(3));
+        return h ? toRefileHeading(h) : `No heading with id "${spec.slice(3)}"`;
+    }
+
+    const ext = spec.match(/\.(org|md)(?=\/|$)/i);
+    if (!ext || ext.index === undefined) {
+        return `Target must be id:<id> or <file>.org[/Heading/Subheading] (or .md), got "${spec}"`;
+    }
+    const fileSpec = spec.slice(0, ext.index + ext[0].length);
+    const outline = spec.slice(fileSpec.length);
+
+    const files = fs.existsSync(fileSpec)
+        ? [fs.realpathSync(fileSpec)]
+        : (await db.getFiles()).map(f => f.path).filter(p => p === fileSpec || p.endsWith(path.sep + fileSpec));
+    if (files.length === 0) return `No indexed file matches "${fileSpec}"`;
+    if (files.length > 1) return `"${fileSpec}" is ambiguous:\n  ${files.join('\n  ')}`;
+
+    const file = files[0];
+    if (!outline || outline === '/') return { filePath: file, level: 0, title: path.basename(file), lineNumber: 0 };
+
+    const headings = await db.getRefileHeadings({ filePaths: [file] });
+    const target = matchOutlinePath(buildRefileTargets(headings.map(toRefileHeading)), file + outline);
+    return target ?? `No heading "${outline.slice(1)}" in ${file}`;
+}
+
+async function taskRefile(db: ScimaxDbCore, id: string, targetSpec: string, args: ParsedArgs, json: boolean): Promise<void> {
+    const source = await db.getHeadingById(id);
+    if (!source) {
+        console.error(`No task with id "${id}"`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const target = await resolveRefileTarget(db, targetSpec);
+    if (typeof target === 'string') {
+        console.error(target);
+        process.exitCode = 1;
+        return;
+    }
+
+    const keepOriginal = args.flags.copy === true;
+    try {
+        refileOnDisk(toRefileHeading(source), target, { keepOriginal });
+    } catch (error) {
+        console.error(`Refile failed: ${(error as Error).message}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    // Both files changed (or one, for a same-file move); keep the index current.
+    await db.indexFile(target.filePath);
+    if (source.file_path !== target.filePath) await db.indexFile(source.file_path);
+
+    const moved = await db.getHeadingById(id);
+    if (json) {
+        console.log(JSON.stringify({
+            id, title: source.title, copied: keepOriginal,
+            from: { file_path: source.file_path, line_number: source.line_number, level: source.level },
+            to: moved ? { file_path: moved.file_path, line_number: moved.line_number, level: moved.level } : null,
+        }, null, 2));
+        return;
+    }
+    const where = target.level === 0 ? path.basename(target.filePath) : `"${target.title}"`;
+    console.log(`${keepOriginal ? 'Copied' : 'Refiled'} "${source.title}" to ${where}`);
+    if (moved) console.log(`  ${vscodeLinkAt(moved.file_path, moved.line_number)}`);
+}
+
 // ============================================================
 // Entry
 // ============================================================
@@ -594,6 +674,7 @@ USAGE:
     scimax task path [file]              Critical path through remaining work
     scimax task done <id> [file]         Mark DONE (refuses if blocked; --force overrides)
     scimax task assign <id> <who> [file] Set :ASSIGNEE:
+    scimax task refile <id> <target>     Move a task's subtree under another heading
     scimax task files                    List files containing tasks
 
 OPTIONS:
@@ -601,12 +682,17 @@ OPTIONS:
     --local          Only consider files under the current directory
     --json           Structured output
     --force          Allow 'done' on a blocked task
+    --copy           With 'refile', copy the subtree instead of moving it
 
 NOTES:
     A task is a heading with an :ID: property. Blocking comes from :DEPENDS:
     and from :ORDERED: parents; both are honored. Writes update the org file
     and reindex it immediately.
 
+    A refile target is id:<id> or <file>.org/Heading/Subheading (a bare
+    <file>.org files at top level; .md files work the same way). The subtree is demoted or promoted to fit,
+    and both files are written together or not at all.
+
     File selection is global by default: the database spans every indexed file,
     so 'scimax task next' answers from any directory. Use --local to confine it
     to the current project, or name the file outright.
@@ -637,6 +723,19 @@ export async function taskCommand(config: CliConfig, args: ParsedArgs): Promise<
             return;
         }
 
+        // Refile addresses tasks by id anywhere in the index, and its target
+        // is often a .org path, so it bypasses project-file resolution.
+        if (sub === 'refile') {
+            const [id, targetSpec] = args.args.slice(1);
+            if (!id || !targetSpec) {
+                console.error('Usage: scimax task refile <id> <id:target | file.org/Heading>');
+                process.exitCode = 1;
+                return;
+            }
+            await taskRefile(db, id, targetSpec, args, json);
+            return;
+        }
+
         const file = await resolveFile(db, args);
         if (!file) {
             console.error(args.flags.local === true
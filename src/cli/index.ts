@@ -3,16 +3,18 @@
  * Scimax CLI - Command-line interface for org-mode operations
  *
  * Usage:
- *   scimax agenda [today|week|todos]
+ *   scimax agenda [today|week|todos|<custom view>] [--ics [file]]
  *   scimax search <query> [--semantic]
- *   scimax search headings [query] [-t tag] [--todo STATE]
- *   scimax export <file> [--format html|pdf|latex|beamer|beamer-pdf]
+ *   scimax search headings [query] [-t tag] [--todo STATE] [--match EXPR]
+ *   scimax export <file> [--format html|pdf|latex|beamer|beamer-pdf|revealjs|markdown|docx|odt]
  *   scimax cite [extract|check] <file>
  *   scimax db [sync|clear|stats|scan|check|remove|ignore]
  *   scimax journal [date]
  *   scimax project [query] [--add path] [--list]
- *   scimax task [next|list|who|show|path|done|assign|files]
- *   scimax publish [project] [--init|--list]
+ *   scimax task [next|list|who|show|path|done|assign|refile|files]
+ *   scimax rename <file> <old> <new> [--map file] [--dry-run]
+ *   scimax lsp --stdio
+ *   scimax publish [project] [--init|--list|--serve]
  */
 
 // Must be first: installs a 'vscode' module stub so CLI can load code that
@@ -34,6 +36,8 @@ import { skillCommand } from './commands/skill';
 import { journalCommand } from './commands/journal';
 import { projectCommand } from './commands/project';
 import { taskCommand } from './commands/task';
+import { renameCommand } from './commands/rename';
+import { lspCommand } from './commands/lsp';
 
 interface CliConfig {
     dbPath: string;
@@ -107,7 +111,11 @@ function parseArgs(args: string[]): { command: string; subcommand?: string; args
 
     for (let i = 0; i < args.length; i++) {
         const arg = args[i];
-        if (arg.startsWith('--')) {
+        if (arg.startsWith('--') && arg.includes('=')) {
+            // --key=value, for values that start with "-"
+            const eq = arg.indexOf('=');
+            flags[arg.slice(2, eq)] = arg.slice(eq + 1);
+        } else if (arg.startsWith('--')) {
             const key = arg.slice(2);
             const next = args[i + 1];
             if (next && !next.startsWith('-')) {
@@ -148,16 +156,19 @@ USAGE:
     scimax <command> [options]
 
 COMMANDS:
-    agenda [view]           Show agenda (today, week, todos, overdue)
+    agenda [view]           Show agenda (today, week, todos, overdue, or a custom view); --ics exports iCalendar
     search <query>          Full-text search across org files
-    search headings         Search headings by title, tag, or TODO state
+    search headings         Search headings by title, tag, TODO state, or tags/property match
     export <file>           Export org file to HTML, PDF, or LaTeX
     tangle <file>           Extract source blocks to their :tangle target files
     cite <subcommand>       Citation operations (extract, check, convert)
     db <subcommand>         Database operations (sync, clear, stats, scan, check, remove, ignore)
     journal [date]          Open journal entry (today, tomorrow, "next friday", etc.)
     project [query]         Fuzzy-select and open a known project in VS Code
-    task <subcommand>       Project tasks (next, list, who, show, path, done, assign)
+    task <subcommand>       Project tasks (next, list, who, show, path, done, assign, refile)
+    rename <file> <old> <new>
+                            Rename a CUSTOM_ID, ID, target or #+NAME and its references
+    lsp --stdio             Run the org language server for Neovim, Helix, Emacs and others
     publish [project]       Publish org project(s) to HTML
     skill <subcommand>      Manage the scimax Claude Code skill
     help                    Show this help message
@@ -165,13 +176,19 @@ COMMANDS:
 EXAMPLES:
     scimax agenda today
     scimax agenda todos --state NEXT
+    scimax agenda review
+    scimax agenda --ics agenda.ics
     scimax search "machine learning"
     scimax search "concepts" --semantic
     scimax search headings -t proposal
     scimax search headings --todo TODO -t grant
+    scimax search headings --match '+grant+PRIORITY="A"+EFFORT<2:00'
     scimax export paper.org --format html
     scimax export slides.org --format beamer
     scimax export slides.org --format beamer-pdf
+    scimax export slides.org --format revealjs --bundle
+    scimax export post.org --format markdown --flavor hugo
+    scimax export paper.org --format docx --engine native
     scimax export memo.org --exporter cmu-memo
     scimax export --list-exporters
     scimax tangle setup.org
@@ -196,8 +213,13 @@ EXAMPLES:
     scimax task path
     scimax task done synth
     scimax task assign xrd priya
+    scimax task refile xrd projects.org/Instruments
+    scimax rename paper.org fig-old fig-results
+    scimax rename paper.org --map renames.txt --dry-run
+    scimax lsp --stdio
     scimax publish
     scimax publish --init
+    scimax publish --serve --port 8080
     scimax skill install
     scimax skill update
 
@@ -205,10 +227,19 @@ OPTIONS:
     --help, -h              Show help for a command
     --db <path>             Override database path
     --json                  Output structured JSON (agenda, search, db stats, cite, export, publish)
-    --format <fmt>          Output format for export (html, pdf, latex, beamer, beamer-pdf)
+    --format <fmt>          Output format for export (html, pdf, latex, beamer, beamer-pdf, revealjs, markdown, docx, odt)
+    --flavor <name>         Markdown flavor for export (gfm, hugo, myst)
+    --bundle                Copy reveal.js assets next to revealjs export output
+    --engine <name>         DOCX writer for export (auto, native, pandoc)
+    --reference-doc <path>  .docx/.odt whose styles docx and odt export use
     --exporter <id>         Use a custom exporter (e.g., cmu-memo)
     --list-exporters        List available custom exporters
     --output <path>         Output file or directory
+    --kind <kind>           Identifier kind for rename (custom-id, id, target, name)
+    --map <file>            Batch rename: one "old new" pair per line
+    --dry-run               Show what rename (or db sync) would change without writing
+    --stdio                 Language server transport for lsp
+    --no-db                 Run lsp without the database
 `);
 }
 
@@ -252,6 +283,12 @@ async function main(): Promise<void> {
             case 'task':
                 await taskCommand(config, args);
                 break;
+            case 'rename':
+                await renameCommand(config, args);
+                break;
+            case 'lsp':
+                await lspCommand(config, args);
+                break;
             case 'project':
                 await projectCommand(config, args);
                 break;
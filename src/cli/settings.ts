@@ -9,6 +9,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { minimatch } from 'minimatch';
 import { withBaselineExcludes } from '../shared/ignorePatterns';
+import { isArchiveFile } from '../parser/orgArchive';
 
 /**
  * Database settings (scimax.db.*)
@@ -16,6 +17,8 @@ import { withBaselineExcludes } from '../shared/ignorePatterns';
 export interface DbSettings {
     include: string[];
     exclude: string[];
+    /** Index archive files (`*.org_archive`, `*_archive.org`) */
+    includeArchives: boolean;
     maxFileSizeMB: number;
     maxFileLines: number;
 }
@@ -29,12 +32,16 @@ export interface AgendaSettings {
     includeProjects: boolean;
     include: string[];
     exclude: string[];
+    /** Show entries from archive files */
+    includeArchives: boolean;
     defaultSpan: number;
     showDone: boolean;
     showHabits: boolean;
     requireTodoState: boolean;
     todoStates: string[];
     doneStates: string[];
+    /** Raw `scimax.agenda.customViews` entries, validated when used */
+    customViews: unknown[];
 }
 
 /**
@@ -66,6 +73,22 @@ export interface ExportSettings {
         embedImages: boolean;
         includeResults: boolean;
     };
+    markdown: {
+        flavor: string;
+    };
+    revealjs: {
+        root: string;
+        theme: string;
+        transition: string;
+        bundle: boolean;
+    };
+    docx: {
+        engine: string;
+        referenceDoc: string;
+    };
+    odt: {
+        referenceDoc: string;
+    };
     beamer: {
         theme: string;
         colorTheme: string;
@@ -103,6 +126,13 @@ export interface RefSettings {
     citationSyntax: string;
 }
 
+/**
+ * Org settings (scimax.org.*)
+ */
+export interface OrgSettings {
+    lintDisabledCheckers: string[];
+}
+
 /**
  * Embedding settings (scimax.db.* - embedding related)
  */
@@ -121,6 +151,7 @@ export interface ScimaxSettings {
     export: ExportSettings;
     journal: JournalSettings;
     ref: RefSettings;
+    org: OrgSettings;
     embedding: EmbeddingSettings;
 }
 
@@ -367,6 +398,7 @@ export function loadSettings(): ScimaxSettings {
             exclude: withBaselineExcludes(
                 getSetting<string[]>(settings, 'scimax.db.exclude', defaultDbExclude)
             ),
+            includeArchives: getSetting<boolean>(settings, 'scimax.db.includeArchives', false),
             maxFileSizeMB: getSetting<number>(settings, 'scimax.db.maxFileSizeMB', 10),
             maxFileLines: getSetting<number>(settings, 'scimax.db.maxFileLines', 5000),
         },
@@ -376,12 +408,14 @@ export function loadSettings(): ScimaxSettings {
             includeProjects: getSetting<boolean>(settings, 'scimax.agenda.includeProjects', true),
             include: getSetting<string[]>(settings, 'scimax.agenda.include', []),
             exclude: getSetting<string[]>(settings, 'scimax.agenda.exclude', defaultAgendaExclude),
+            includeArchives: getSetting<boolean>(settings, 'scimax.agenda.includeArchives', false),
             defaultSpan: getSetting<number>(settings, 'scimax.agenda.defaultSpan', 7),
             showDone: getSetting<boolean>(settings, 'scimax.agenda.showDone', false),
             showHabits: getSetting<boolean>(settings, 'scimax.agenda.showHabits', true),
             requireTodoState: getSetting<boolean>(settings, 'scimax.agenda.requireTodoState', true),
             todoStates: getSetting<string[]>(settings, 'scimax.agenda.todoStates', ['TODO', 'NEXT', 'WAITING']),
             doneStates: getSetting<string[]>(settings, 'scimax.agenda.doneStates', ['DONE', 'CANCELLED']),
+            customViews: getSetting<unknown[]>(settings, 'scimax.agenda.customViews', []),
         },
         export: {
             latex: {
@@ -409,6 +443,22 @@ export function loadSettings(): ScimaxSettings {
                 embedImages: getSetting<boolean>(settings, 'scimax.export.ipynb.embedImages', true),
                 includeResults: getSetting<boolean>(settings, 'scimax.export.ipynb.includeResults', true),
             },
+            markdown: {
+                flavor: getSetting<string>(settings, 'scimax.export.markdown.flavor', 'gfm'),
+            },
+            revealjs: {
+                root: getSetting<string>(settings, 'scimax.export.revealjs.root', ''),
+                theme: getSetting<string>(settings, 'scimax.export.revealjs.theme', 'black'),
+                transition: getSetting<string>(settings, 'scimax.export.revealjs.transition', 'slide'),
+                bundle: getSetting<boolean>(settings, 'scimax.export.revealjs.bundle', false),
+            },
+            docx: {
+                engine: getSetting<string>(settings, 'scimax.export.docx.engine', 'auto'),
+                referenceDoc: getSetting<string>(settings, 'scimax.export.docx.referenceDoc', ''),
+            },
+            odt: {
+                referenceDoc: getSetting<string>(settings, 'scimax.export.odt.referenceDoc', ''),
+            },
             beamer: {
                 theme: getSetting<string>(settings, 'scimax.export.beamer.theme', 'default'),
                 colorTheme: getSetting<string>(settings, 'scimax.export.beamer.colorTheme', ''),
@@ -440,6 +490,9 @@ export function loadSettings(): ScimaxSettings {
             notesDirectory: getSetting<string>(settings, 'scimax.ref.notesDirectory', ''),
             citationSyntax: getSetting<string>(settings, 'scimax.ref.citationSyntax', 'org-ref-v3'),
         },
+        org: {
+            lintDisabledCheckers: getSetting<string[]>(settings, 'scimax.org.lint.disabledCheckers', []),
+        },
         embedding: {
             provider: getSetting<'ollama' | 'none'>(settings, 'scimax.db.embeddingProvider', 'none'),
             ollamaUrl: getSetting<string>(settings, 'scimax.db.ollamaUrl', 'http://localhost:11434'),
@@ -455,7 +508,7 @@ export function loadSettings(): ScimaxSettings {
 export function findOrgFiles(
     dir: string,
     excludePatterns: string[],
-    options: { maxFileSizeMB?: number } = {}
+    options: { maxFileSizeMB?: number; includeArchives?: boolean } = {}
 ): string[] {
     const files: string[] = [];
     const maxBytes = (options.maxFileSizeMB || 10) * 1024 * 1024;
@@ -471,6 +524,9 @@ export function findOrgFiles(
                 if (shouldExclude(fullPath, excludePatterns)) {
                     continue;
                 }
+                if (!options.includeArchives && isArchiveFile(fullPath)) {
+                    continue;
+                }
 
                 if (entry.isDirectory()) {
                     // Skip hidden directories (except those explicitly included)
@@ -478,7 +534,7 @@ export function findOrgFiles(
                         continue;
                     }
                     scan(fullPath);
-                } else if (entry.isFile() && entry.name.endsWith('.org')) {
+                } else if (entry.isFile() && (entry.name.endsWith('.org') || entry.name.endsWith('.org_archive'))) {
                     // Check file size
                     try {
                         const stats = fs.statSync(fullPath);
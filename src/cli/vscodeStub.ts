@@ -36,6 +36,16 @@ const stubExports = {
         parse: (s: string) => ({ fsPath: s, path: s, scheme: 'file' }),
     },
     ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+    // Enough of Range and DiagnosticSeverity for org/orgLint, which the language server runs
+    Range: class {
+        start: { line: number; character: number };
+        end: { line: number; character: number };
+        constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+            this.start = { line: startLine, character: startCharacter };
+            this.end = { line: endLine, character: endCharacter };
+        }
+    },
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
     EventEmitter: class { event = () => ({ dispose() {} }); fire() {} dispose() {} },
     Disposable: class { dispose() {} static from() { return new (this as any)(); } },
 };
@@ -0,0 +1,47 @@
+/**
+ * Archive files stay out of the index unless scimax.db.includeArchives is
+ * set, in which case `.org_archive` files are picked up and parsed as org.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScimaxDbCore } from '../scimaxDbCore';
+
+describe('archive files (integration)', () => {
+    let dir: string;
+    let db: ScimaxDbCore;
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-archive-'));
+        fs.writeFileSync(path.join(dir, 'notes.org'), '* TODO Live task\n');
+        fs.writeFileSync(path.join(dir, 'notes.org_archive'), '* DONE Archived task\n');
+        fs.writeFileSync(path.join(dir, 'old_archive.org'), '* DONE Older archived task\n');
+        db = new ScimaxDbCore({ dbPath: path.join(dir, 'test.db') });
+        await db.initialize();
+    });
+
+    afterAll(async () => {
+        await db.close?.();
+        try {
+            fs.rmSync(dir, { recursive: true, force: true });
+        } catch {
+            // best-effort
+        }
+    });
+
+    it('skips archive files by default', async () => {
+        const files = await db.collectFilePaths(dir);
+        expect(files.map(f => path.basename(f))).toEqual(['notes.org']);
+    });
+
+    it('indexes them as org when included', async () => {
+        db.setIncludeArchives(true);
+        const files = (await db.collectFilePaths(dir)).sort();
+        expect(files.map(f => path.basename(f))).toEqual(['notes.org', 'notes.org_archive', 'old_archive.org']);
+
+        await db.indexFile(path.join(dir, 'notes.org_archive'));
+        const titles = (await db.getAllOrgHeadings()).map(h => h.title);
+        expect(titles).toEqual(['Archived task']);
+    });
+});
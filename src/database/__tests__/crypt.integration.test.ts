@@ -0,0 +1,67 @@
+/**
+ * End-to-end test that `:crypt:` subtrees stay out of the index: their
+ * headlines are searchable, but nothing in their bodies reaches full-text
+ * search, source blocks or nested headings, whether encrypted on disk or not.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScimaxDbCore } from '../scimaxDbCore';
+
+const CONTENT = [
+    '* Reviewer notes :crypt:',
+    ':PROPERTIES:',
+    ':ID: review',
+    ':END:',
+    'Reviewer two is plainly wrong about zebrafish.',
+    '#+BEGIN_SRC sh',
+    'export TOKEN=sesame',
+    '#+END_SRC',
+    '** Private followup',
+    '* Server :crypt:',
+    '-----BEGIN PGP MESSAGE-----',
+    '',
+    'jA0ECQMCquokka',
+    '-----END PGP MESSAGE-----',
+    '* Public plan',
+    'zebrafish husbandry schedule',
+].join('\n');
+
+describe('encrypted entries (integration)', () => {
+    let dir: string;
+    let db: ScimaxDbCore;
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-crypt-'));
+        const filePath = path.join(dir, 'notes.org');
+        fs.writeFileSync(filePath, CONTENT);
+        db = new ScimaxDbCore({ dbPath: path.join(dir, 'test.db') });
+        await db.initialize();
+        await db.indexFile(filePath);
+    });
+
+    afterAll(async () => {
+        await db.close?.();
+        try {
+            fs.rmSync(dir, { recursive: true, force: true });
+        } catch {
+            // best-effort
+        }
+    });
+
+    it('indexes headlines but not bodies', async () => {
+        const titles = (await db.getAllOrgHeadings()).map(h => h.title);
+        expect(titles).toEqual(['Reviewer notes', 'Server', 'Public plan']);
+        expect(await db.searchSourceBlocks()).toEqual([]);
+    });
+
+    it('keeps plaintext and ciphertext out of full-text search', async () => {
+        const hits = await db.searchFullText('zebrafish');
+        expect(hits).toHaveLength(1);
+        expect(hits[0].preview).not.toContain('Reviewer two');
+        expect(await db.searchFullText('sesame')).toEqual([]);
+        expect(await db.searchFullText('jA0ECQMCquokka')).toEqual([]);
+        expect(await db.searchFullText('Followup')).toEqual([]);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * End-to-end test for rename candidates: index real files and verify that
+ * getRenameCandidateFiles finds the files referring to a CUSTOM_ID, ID,
+ * target or name through id: links, :DEPENDS: and file-qualified links.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScimaxDbCore } from '../scimaxDbCore';
+
+describe('rename candidates (integration)', () => {
+    let dir: string;
+    let db: ScimaxDbCore;
+    let aPath: string;
+    let bPath: string;
+    let cPath: string;
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-rename-'));
+        aPath = path.join(dir, 'a.org');
+        bPath = path.join(dir, 'b.org');
+        cPath = path.join(dir, 'c.org');
+
+        fs.writeFileSync(aPath, [
+            '* Storage layer',
+            ':PROPERTIES:',
+            ':CUSTOM_ID: storage',
+            ':ID: 11111111-1111-1111',
+            ':END:',
+            'A <<Cache Policy>>.',
+        ].join('\n'));
+
+        fs.writeFileSync(bPath, [
+            '* Review',
+            'See [[file:a.org::#storage]] and [[file:a.org::cache policy]].',
+            'By id [[id:11111111-1111-1111]].',
+        ].join('\n'));
+
+        fs.writeFileSync(cPath, [
+            '* Follow-up',
+            ':PROPERTIES:',
+            ':ID: 22222222-2222-2222',
+            ':DEPENDS: id:11111111-1111-1111',
+            ':END:',
+            'Only [[#storage]], which is local to this file.',
+        ].join('\n'));
+
+        db = new ScimaxDbCore({ dbPath: path.join(dir, 'test.db') });
+        await db.initialize();
+        await db.indexFile(aPath);
+        await db.indexFile(bPath);
+        await db.indexFile(cPath);
+    });
+
+    afterAll(async () => {
+        await db.close?.();
+        try {
+            fs.rmSync(dir, { recursive: true, force: true });
+        } catch {
+            // Windows can hold the SQLite file briefly after close; best-effort.
+        }
+    });
+
+    it('finds files with file-qualified links to a CUSTOM_ID', async () => {
+        expect(await db.getRenameCandidateFiles('custom-id', 'storage')).toEqual([bPath]);
+    });
+
+    it('matches targets by normalized text', async () => {
+        expect(await db.getRenameCandidateFiles('target', 'Cache  Policy')).toEqual([bPath]);
+    });
+
+    it('finds id links, :DEPENDS: entries and the defining heading for an ID', async () => {
+        expect(await db.getRenameCandidateFiles('id', '11111111-1111-1111')).toEqual([aPath, bPath, cPath].sort());
+    });
+
+    it('returns nothing for an unknown name', async () => {
+        expect(await db.getRenameCandidateFiles('name', 'missing')).toEqual([]);
+    });
+
+    it('treats %, _ and quotes in names literally', async () => {
+        const dPath = path.join(dir, 'd.org');
+        const ePath = path.join(dir, 'e.org');
+        fs.writeFileSync(dPath, '* Intro\n:PROPERTIES:\n:ID: 50%"done"\n:END:\nSee [[file:a.org::#sec_intro]].\n');
+        fs.writeFileSync(ePath, '* Other\n:PROPERTIES:\n:ID: 50-done\n:END:\nSee [[file:a.org::#secXintro]] and [[id:50-done]].\n');
+        const other = new ScimaxDbCore({ dbPath: path.join(dir, 'escape.db') });
+        await other.initialize();
+        try {
+            await other.indexFile(dPath);
+            await other.indexFile(ePath);
+
+            expect(await other.getRenameCandidateFiles('custom-id', 'sec_intro')).toEqual([dPath]);
+            expect(await other.getRenameCandidateFiles('id', '50%"done"')).toEqual([dPath]);
+        } finally {
+            await other.close();
+        }
+    });
+
+    it('reindexes files whose file: links were stored without their search option', async () => {
+        const dbPath = path.join(dir, 'old.db');
+        const old = new ScimaxDbCore({ dbPath });
+        await old.initialize();
+        await old.indexFile(aPath);
+        await old.indexFile(bPath);
+        await old.getClient()!.execute('DELETE FROM schema_version WHERE version = 8');
+        await old.close();
+
+        const upgraded = new ScimaxDbCore({ dbPath });
+        await upgraded.initialize();
+        try {
+            expect(await upgraded.needsReindex(bPath)).toBe(true);
+            expect(await upgraded.needsReindex(aPath)).toBe(false);
+        } finally {
+            await upgraded.close();
+        }
+    });
+});
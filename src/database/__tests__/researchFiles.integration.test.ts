@@ -0,0 +1,192 @@
+/**
+ * End-to-end test for indexing Jupyter notebooks, LaTeX manuscripts and
+ * BibTeX bibliographies into the headings, source block, anchor, link and
+ * FTS tables.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScimaxDbCore } from '../scimaxDbCore';
+
+const NOTEBOOK = JSON.stringify({
+    metadata: { kernelspec: { name: 'python3', language: 'python' } },
+    cells: [
+        { cell_type: 'markdown', source: ['# Titration analysis\n', 'Fit the #kinetics data, see [docs](https://example.org).'] },
+        {
+            cell_type: 'code',
+            source: ['import numpy as np\n', 'print(np.mean([1, 2]))'],
+            outputs: [{ output_type: 'stream', name: 'stdout', text: ['1.5\n'] }]
+        },
+        { cell_type: 'markdown', source: '## Residuals' },
+        {
+            cell_type: 'code',
+            source: 'residuals.plot()',
+            outputs: [{ output_type: 'error', ename: 'NameError', evalue: "name 'residuals' is not defined" }]
+        },
+    ],
+});
+
+const MANUSCRIPT = [
+    '\\documentclass{article}',
+    '\\begin{document}',
+    '\\section{Introduction}',
+    '\\label{sec:intro}',
+    'Kinetics were measured before \\citep[p.~3]{smith2020, jones2019}.',
+    '% \\cite{commented2000}',
+    '\\subsection{Scope}',
+    'As in \\cite{smith2020}.',
+    '\\end{document}',
+].join('\n');
+
+const BIBLIOGRAPHY = [
+    '@article{smith2020,',
+    '  author = {Smith, Jane and Doe, John},',
+    '  title = {{Enzyme} kinetics in microfluidic reactors},',
+    '  journal = {Lab on a Chip},',
+    '  year = {2020},',
+    '  keywords = {kinetics, microfluidics}',
+    '}',
+    '',
+    '@book{jones2019,',
+    '  author = {Jones, Alan},',
+    '  title = {Reaction engineering},',
+    '  publisher = {Wiley},',
+    '  year = {2019}',
+    '}',
+].join('\n');
+
+describe('notebook, LaTeX and BibTeX indexing (integration)', () => {
+    let dir: string;
+    let db: ScimaxDbCore;
+    let notebookPath: string;
+    let texPath: string;
+    let bibPath: string;
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-research-'));
+        notebookPath = path.join(dir, 'analysis.ipynb');
+        texPath = path.join(dir, 'paper.tex');
+        bibPath = path.join(dir, 'refs.bib');
+        fs.writeFileSync(notebookPath, NOTEBOOK);
+        fs.writeFileSync(texPath, MANUSCRIPT);
+        fs.writeFileSync(bibPath, BIBLIOGRAPHY);
+        fs.writeFileSync(path.join(dir, 'notes.org'), '* Notes :kinetics:\n');
+
+        db = new ScimaxDbCore({ dbPath: path.join(dir, 'test.db'), extraFileTypes: ['ipynb', 'tex', 'bib'] });
+        await db.initialize();
+        for (const file of await db.collectFilePaths(dir)) {
+            await db.indexFile(file);
+        }
+    });
+
+    afterAll(async () => {
+        await db.close?.();
+        try {
+            fs.rmSync(dir, { recursive: true, force: true });
+        } catch {
+            // SQLite can keep the file locked briefly on Windows
+        }
+    });
+
+    it('collects the new file types and counts them in the stats', async () => {
+        const files = (await db.collectFilePaths(dir)).map(f => path.basename(f)).sort();
+        expect(files).toEqual(['analysis.ipynb', 'notes.org', 'paper.tex', 'refs.bib']);
+
+        const stats = await db.getStats();
+        expect(stats.files).toBe(4);
+        expect(stats.by_type).toEqual({ org: 1, md: 0, ipynb: 1, tex: 1, bib: 1 });
+    });
+
+    it('indexes notebook headings and code cells by cell index', async () => {
+        const headings = await db.getHeadingsInFile(notebookPath);
+        expect(headings.map(h => [h.level, h.title, h.cell_index])).toEqual([
+            [1, 'Titration analysis', 0],
+            [2, 'Residuals', 2],
+        ]);
+
+        const blocks = (await db.searchSourceBlocks('python')).filter(b => b.file_path === notebookPath);
+        expect(blocks.map(b => b.cell_index)).toEqual([1, 3]);
+        expect(blocks[0].outputs).toBeNull();
+
+        expect(await db.findByHashtag('kinetics')).toContain(notebookPath);
+        expect((await db.searchFullText('numpy')).map(r => r.file_path)).toEqual([notebookPath]);
+        expect(await db.searchFullText('NameError')).toEqual([]);
+    });
+
+    it('indexes notebook outputs when asked to', async () => {
+        db.setIndexNotebookOutputs(true);
+        try {
+            await db.indexFile(notebookPath);
+            const blocks = (await db.searchSourceBlocks('python')).filter(b => b.file_path === notebookPath);
+            expect(blocks.map(b => b.outputs)).toEqual(['1.5', "NameError: name 'residuals' is not defined"]);
+            expect((await db.searchFullText('NameError')).map(r => r.file_path)).toEqual([notebookPath]);
+        } finally {
+            db.setIndexNotebookOutputs(false);
+            await db.indexFile(notebookPath);
+        }
+    });
+
+    it('indexes LaTeX sections, labels and citations', async () => {
+        const headings = await db.getHeadingsInFile(texPath);
+        expect(headings.map(h => [h.level, h.title, h.line_number])).toEqual([
+            [1, 'Introduction', 3],
+            [2, 'Scope', 7],
+        ]);
+
+        const label = await db.resolveAnchor('sec:intro');
+        expect(label).toMatchObject({ file_path: texPath, line_number: 4, kind: 'label' });
+
+        expect(await db.getCitations('smith2020')).toEqual([
+            { file_path: texPath, line_number: 5, heading_title: 'Introduction' },
+            { file_path: texPath, line_number: 8, heading_title: 'Scope' },
+        ]);
+        expect(await db.getCitations('jones2019')).toHaveLength(1);
+        expect(await db.getCitations('commented2000')).toEqual([]);
+    });
+
+    it('indexes BibTeX entries as searchable records', async () => {
+        const headings = await db.getHeadingsInFile(bibPath);
+        expect(headings.map(h => [h.title, h.line_number])).toEqual([
+            ['Enzyme kinetics in microfluidic reactors', 1],
+            ['Reaction engineering', 9],
+        ]);
+        expect(JSON.parse(headings[0].tags)).toEqual(['kinetics', 'microfluidics']);
+        expect(JSON.parse(headings[0].properties)).toMatchObject({
+            CUSTOM_ID: 'smith2020', BIBTEX_TYPE: 'article', JOURNAL: 'Lab on a Chip', YEAR: '2020'
+        });
+
+        expect(await db.resolveAnchor('jones2019')).toMatchObject({ file_path: bibPath, line_number: 9, kind: 'bibentry' });
+
+        const hits = await db.searchFullText('Wiley');
+        expect(hits).toHaveLength(1);
+        expect(hits[0]).toMatchObject({ file_path: bibPath });
+        expect(hits[0].preview).toContain('jones2019');
+    });
+
+    it('finds sections and entries by heading search', async () => {
+        expect((await db.searchHeadings('Introduction')).map(h => h.file_path)).toEqual([texPath]);
+        expect((await db.searchHeadings('kinetics')).map(h => h.file_path)).toEqual([bibPath]);
+        expect(await db.searchHeadings('Introduction', { fileTypes: ['org', 'md'] })).toEqual([]);
+    });
+
+    it('keeps entries and sections out of tag, property and TODO queries', async () => {
+        expect((await db.searchTagsMatch('kinetics')).map(h => h.title)).toEqual(['Notes']);
+        expect((await db.searchHeadings('', { tag: 'kinetics' })).map(h => h.title)).toEqual(['Notes']);
+        expect(await db.searchByProperty('CUSTOM_ID', 'smith2020')).toEqual([]);
+    });
+
+    it('indexes only org and markdown unless other types are enabled', async () => {
+        const plain = new ScimaxDbCore({ dbPath: path.join(dir, 'plain.db') });
+        await plain.initialize();
+        try {
+            const files = (await plain.collectFilePaths(dir)).map(f => path.basename(f));
+            expect(files).toEqual(['notes.org']);
+
+            await plain.indexFile(bibPath);
+            expect(await plain.getHeadingsInFile(bibPath)).toEqual([]);
+        } finally {
+            await plain.close?.();
+        }
+    });
+});
@@ -32,7 +32,10 @@ import {
     storeOpenAlexApiKey,
     getOpenAlexApiKey,
     deleteOpenAlexApiKey,
-    hasOpenAlexApiKey
+    hasOpenAlexApiKey,
+    storeJupyterServerToken,
+    getJupyterServerToken,
+    deleteJupyterServerToken
 } from '../secretStorage';
 
 // Create mock extension context
@@ -120,6 +123,23 @@ describe('SecretStorage', () => {
         });
     });
 
+    describe('Jupyter server tokens', () => {
+        it('should keep one token per server URL', async () => {
+            const context = createMockContext();
+            initSecretStorage(context);
+
+            await storeJupyterServerToken('http://127.0.0.1:8888/', 'local-token');
+            await storeJupyterServerToken('https://hub.example.org/user/me/', 'hub-token');
+
+            expect(await getJupyterServerToken('http://127.0.0.1:8888/')).toBe('local-token');
+            expect(await getJupyterServerToken('https://hub.example.org/user/me/')).toBe('hub-token');
+
+            await deleteJupyterServerToken('http://127.0.0.1:8888/');
+            expect(await getJupyterServerToken('http://127.0.0.1:8888/')).toBeUndefined();
+            expect(await getJupyterServerToken('https://hub.example.org/user/me/')).toBe('hub-token');
+        });
+    });
+
     describe('hasOpenAlexApiKey', () => {
         it('should return true when key exists', async () => {
             const context = createMockContext();
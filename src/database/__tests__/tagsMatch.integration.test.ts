@@ -0,0 +1,144 @@
+/**
+ * End-to-end test for tags/property match queries: index a real file, run
+ * match expressions through the SQL compiler, and check every result agrees
+ * with the in-memory evaluator used by the agenda and dynamic blocks.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScimaxDbCore, HeadingRecord } from '../scimaxDbCore';
+import { parseTagsMatch, evaluateTagsMatch } from '../../parser/orgTagsMatch';
+
+const NOW = new Date(2024, 3, 15, 12, 0);
+
+const CONTENT = [
+    '* Grant proposal :grant:',
+    ':PROPERTIES:',
+    ':CATEGORY: funding',
+    ':END:',
+    '** NEXT [#A] Write aims :writing:',
+    'DEADLINE: <2024-04-18 Thu>',
+    ':PROPERTIES:',
+    ':EFFORT: 1:30',
+    ':OWNER: sam',
+    ':END:',
+    '** TODO [#C] Budget',
+    'SCHEDULED: <2024-04-25 Thu 09:00>',
+    ':PROPERTIES:',
+    ':Effort: 3:00',
+    ':END:',
+    '** DONE Letters of support',
+    'CLOSED: [2024-04-10 Wed 16:00]',
+    '* Personal :personal:',
+    '** TODO Dentist :@phone:',
+    'DEADLINE: <2024-04-12 Fri>',
+    ':PROPERTIES:',
+    ':EFFORT: 15',
+    ':OWNER: Sam',
+    ':END:',
+    '** Reading list',
+    ':PROPERTIES:',
+    ':PAGES: 320',
+    ':STARTED: [2024-03-01 Fri]',
+    ':END:',
+].join('\n');
+
+const EXPRESSIONS = [
+    '',
+    '+grant',
+    '+grant-writing',
+    'writing|@phone',
+    '+{^gr}',
+    '-{^@}+personal',
+    'PRIORITY="A"',
+    'TODO="NEXT"|TODO="TODO"',
+    'LEVEL=2&-personal',
+    'EFFORT<2:00',
+    'EFFORT>=3:00|EFFORT<20',
+    'EFFORT<>1:30',
+    'PAGES>300',
+    'PAGES<>300',
+    'OWNER={^[sS]am$}',
+    'OWNER<>"sam"',
+    'ITEM={Budget|aims}',
+    'CATEGORY="funding"',
+    'CATEGORY="plan"',
+    'DEADLINE<="<+1w>"',
+    'DEADLINE<"<today>"',
+    'SCHEDULED>"<2024-04-20>"',
+    'CLOSED>="<-1w>"',
+    'STARTED<"<today>"',
+    '+grant/NEXT|TODO',
+    '/-DONE',
+    '+grant-(DONE|TODO="NEXT")',
+];
+
+function inMemory(record: HeadingRecord): Parameters<typeof evaluateTagsMatch>[1] {
+    const properties = JSON.parse(record.properties || '{}');
+    return {
+        title: record.title,
+        tags: JSON.parse(record.tags),
+        inheritedTags: JSON.parse(record.inherited_tags),
+        todoState: record.todo_state ?? undefined,
+        priority: record.priority ?? undefined,
+        level: record.level,
+        category: path.basename(record.file_path).replace(/\.(org|md)$/, ''),
+        scheduled: record.scheduled ?? undefined,
+        deadline: record.deadline ?? undefined,
+        closed: record.closed ?? undefined,
+        properties,
+    };
+}
+
+describe('tags/property match queries (integration)', () => {
+    let dir: string;
+    let db: ScimaxDbCore;
+    let all: HeadingRecord[];
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-match-'));
+        const filePath = path.join(dir, 'plan.org');
+        fs.writeFileSync(filePath, CONTENT);
+        db = new ScimaxDbCore({ dbPath: path.join(dir, 'test.db') });
+        await db.initialize();
+        await db.indexFile(filePath);
+        all = await db.getAllOrgHeadings();
+    });
+
+    afterAll(async () => {
+        await db.close?.();
+        try {
+            fs.rmSync(dir, { recursive: true, force: true });
+        } catch {
+            // best-effort
+        }
+    });
+
+    it('finds headings by tags, properties and dates', async () => {
+        const titles = async (expression: string) =>
+            (await db.searchTagsMatch(expression, { now: NOW })).map(h => h.title);
+        expect(await titles('+grant-writing/-DONE')).toEqual(['Grant proposal', 'Budget']);
+        expect(await titles('+grant+PRIORITY="A"+TODO="NEXT"+EFFORT<2:00')).toEqual(['Write aims']);
+        expect(await titles('DEADLINE<"<today>"')).toEqual(['Dentist']);
+        expect(await titles('+{^@}|PAGES>300')).toEqual(['Dentist', 'Reading list']);
+    });
+
+    it('restricts results to the given TODO states', async () => {
+        const results = await db.searchTagsMatch('+grant', { todoStates: ['TODO', 'NEXT'] });
+        expect(results.map(h => h.title)).toEqual(['Write aims', 'Budget']);
+    });
+
+    it('agrees with the in-memory evaluator', async () => {
+        for (const expression of EXPRESSIONS) {
+            const node = parseTagsMatch(expression, { now: NOW });
+            const expected = all.filter(h => evaluateTagsMatch(node, inMemory(h))).map(h => h.title);
+            const actual = (await db.searchTagsMatch(expression, { now: NOW })).map(h => h.title);
+            expect({ expression, titles: actual }).toEqual({ expression, titles: expected });
+        }
+    });
+
+    it('rejects invalid expressions', async () => {
+        await expect(db.searchTagsMatch('+work+')).rejects.toThrow(/expected a tag or property/);
+    });
+});
@@ -1277,7 +1277,10 @@ export function registerDbCommands(
             }
 
             const fileTypes = stats.by_type
-                ? `(${stats.by_type.org} org, ${stats.by_type.md} md)`
+                ? `(${Object.entries(stats.by_type)
+                    .filter(([type, count]) => count > 0 || type === 'org' || type === 'md')
+                    .map(([type, count]) => `${count} ${type}`)
+                    .join(', ')})`
                 : '';
 
             vscode.window.showInformationMessage(
@@ -193,7 +193,8 @@ export class DatabaseViewProvider implements vscode.TreeDataProvider<DatabaseTre
         items.push(new DatabaseStatItem(
             'Files',
             `${this.stats.files} total`,
-            `Org: ${this.stats.by_type.org}, Markdown: ${this.stats.by_type.md}`,
+            `Org: ${this.stats.by_type.org}, Markdown: ${this.stats.by_type.md}, ` +
+            `Notebooks: ${this.stats.by_type.ipynb}, LaTeX: ${this.stats.by_type.tex}, BibTeX: ${this.stats.by_type.bib}`,
             'file'
         ));
 
@@ -204,6 +205,15 @@ export class DatabaseViewProvider implements vscode.TreeDataProvider<DatabaseTre
         if (this.stats.by_type.md > 0) {
             items.push(new DatabaseStatItem('  Markdown files', `${this.stats.by_type.md}`, undefined, 'markdown'));
         }
+        if (this.stats.by_type.ipynb > 0) {
+            items.push(new DatabaseStatItem('  Notebooks', `${this.stats.by_type.ipynb}`, undefined, 'notebook'));
+        }
+        if (this.stats.by_type.tex > 0) {
+            items.push(new DatabaseStatItem('  LaTeX files', `${this.stats.by_type.tex}`, undefined, 'file-text'));
+        }
+        if (this.stats.by_type.bib > 0) {
+            items.push(new DatabaseStatItem('  BibTeX files', `${this.stats.by_type.bib}`, undefined, 'library'));
+        }
 
         // Content statistics
         items.push(new DatabaseStatItem('Headings', `${this.stats.headings}`, undefined, 'list-tree'));
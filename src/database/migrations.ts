@@ -230,6 +230,28 @@ export const migrations: Migration[] = [
             `CREATE INDEX IF NOT EXISTS idx_dependencies_from ON dependencies(from_id)`,
             `CREATE INDEX IF NOT EXISTS idx_dependencies_file ON dependencies(file_id)`
         ]
+    },
+    {
+        version: 7,
+        description: 'Index Jupyter notebooks, LaTeX and BibTeX: notebook cell outputs and citation lookups',
+        up: [
+            // Notebook code cells keep their text outputs next to the code;
+            // notebook headings are looked up by cell, and LaTeX \cite links
+            // (link_type 'cite') by citation key.
+            `ALTER TABLE source_blocks ADD COLUMN outputs TEXT`,
+            `CREATE INDEX IF NOT EXISTS idx_headings_cell ON headings(file_id, cell_index)`,
+            `CREATE INDEX IF NOT EXISTS idx_links_type_target ON links(link_type, target)`
+        ]
+    },
+    {
+        version: 8,
+        description: 'Reindex files with file: links so raw_target keeps their ::search option',
+        up: [
+            // [[file:x.org::#id]] links used to be stored without the search
+            // option, which rename needs to find them; marking their files
+            // stale makes the next sync index them again.
+            `UPDATE files SET mtime = 0 WHERE id IN (SELECT DISTINCT file_id FROM links WHERE link_type = 'file')`
+        ]
     }
 ];
 
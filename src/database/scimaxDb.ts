@@ -28,15 +28,18 @@ export {
     AgendaItem,
     SearchScope,
     DbStats,
+    IndexedFileType,
+    INDEXED_FILE_EXTENSIONS,
     ProjectRecord,
     ScimaxDbCoreOptions,
     CoreEmbeddingService,
     ScimaxDbCore
 } from './scimaxDbCore';
 
-import { ScimaxDbCore, ScimaxDbCoreOptions } from './scimaxDbCore';
+import { ScimaxDbCore, ScimaxDbCoreOptions, IndexedFileType, INDEXED_FILE_EXTENSIONS } from './scimaxDbCore';
 
 import { withBaselineExcludes } from '../shared/ignorePatterns';
+import { redactCryptEntries } from '../parser/orgCrypt';
 /**
  * ScimaxDb - VS Code wrapper around ScimaxDbCore.
  *
@@ -87,10 +90,12 @@ export class ScimaxDb extends ScimaxDbCore {
             dbPath,
             onFileIndexed: async (filePath: string, fileId: number, fileType: string, mtime: number, db: Client) => {
                 // Run indexer adapters for knowledge graph extraction
-                if (indexerRegistry.getAdapters().length > 0) {
+                // Adapters read org/markdown text
+                if (indexerRegistry.getAdapters().length > 0 && (fileType === 'org' || fileType === 'md')) {
                     const indexContext: IndexContext = { filePath, fileId, fileType, mtime, db };
                     try {
-                        const content = await fs.promises.readFile(filePath, 'utf8');
+                        const raw = await fs.promises.readFile(filePath, 'utf8');
+                        const content = fileType === 'org' ? redactCryptEntries(raw) : raw;
                         const indexerResult = await indexerRegistry.runAdapters(
                             content,
                             undefined,
@@ -115,6 +120,9 @@ export class ScimaxDb extends ScimaxDbCore {
     public async initialize(): Promise<void> {
         // Apply VS Code config before core init
         this.setIgnorePatterns(this.loadIgnorePatterns());
+        this.setIncludeArchives(vscode.workspace.getConfiguration('scimax.db').get<boolean>('includeArchives', false));
+        this.setIndexNotebookOutputs(vscode.workspace.getConfiguration('scimax.db').get<boolean>('indexNotebookOutputs', false));
+        this.setExtraFileTypes(vscode.workspace.getConfiguration('scimax.db').get<IndexedFileType[]>('extraFileTypes', []));
         this.setResilienceConfig(this.loadResilienceConfig());
         this.setSizeLimits(this.loadSizeLimits());
 
@@ -159,7 +167,7 @@ export class ScimaxDb extends ScimaxDbCore {
     // ----------------------------------------------------------
 
     private setupFileWatcher(): void {
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{org,md}', false, false, false);
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{org,md,ipynb,tex,bib,org_archive}', false, false, false);
         this.fileWatcher.onDidCreate(uri => this.queueIndex(uri.fsPath));
         this.fileWatcher.onDidChange(uri => this.queueIndex(uri.fsPath));
         this.fileWatcher.onDidDelete(uri => this.removeFile(uri.fsPath));
@@ -168,7 +176,7 @@ export class ScimaxDb extends ScimaxDbCore {
         const saveHandler = vscode.workspace.onDidSaveTextDocument(doc => {
             const filePath = doc.uri.fsPath;
             const ext = path.extname(filePath).toLowerCase();
-            if (ext === '.org' || ext === '.md') {
+            if (INDEXED_FILE_EXTENSIONS.includes(ext) || ext === '.org_archive') {
                 this.queueIndex(filePath);
             }
         });
@@ -177,6 +185,7 @@ export class ScimaxDb extends ScimaxDbCore {
     }
 
     private queueIndex(filePath: string): void {
+        if (this.isExcludedArchive(filePath)) return;
         this.indexQueue.add(filePath);
         if (!this.isIndexing && !this.indexingScheduled) {
             this.indexingScheduled = true;
@@ -26,7 +26,14 @@ import {
     LegacyHeading,
 } from '../parser/orgParserAdapter';
 import { extractAnchors, normalizeAnchorText } from '../parser/orgAnchors';
+import { parseTagsMatch } from '../parser/orgTagsMatch';
+import { compileTagsMatchSql } from './tagsMatchSql';
+import { redactCryptEntries } from '../parser/orgCrypt';
 import { withBaselineExcludes } from '../shared/ignorePatterns';
+import { isArchiveFile } from '../parser/orgArchive';
+import { parseNotebook, getNotebookFullText, NotebookDocument } from '../parser/ipynbParser';
+import { parseLatexText, extractLatexCitations } from '../parser/latexOutline';
+import { parseBibTeX, BibEntry } from '../references/bibtexParser';
 // Migration data - inlined here to avoid importing migrations.ts which pulls in vscode via logger.
 // Keep in sync with src/database/migrations.ts.
 
@@ -196,6 +203,22 @@ const coreMigrations: CoreMigration[] = [
             `CREATE INDEX IF NOT EXISTS idx_dependencies_from ON dependencies(from_id)`,
             `CREATE INDEX IF NOT EXISTS idx_dependencies_file ON dependencies(file_id)`
         ]
+    },
+    {
+        version: 7,
+        description: 'Index Jupyter notebooks, LaTeX and BibTeX: notebook cell outputs and citation lookups',
+        up: [
+            `ALTER TABLE source_blocks ADD COLUMN outputs TEXT`,
+            `CREATE INDEX IF NOT EXISTS idx_headings_cell ON headings(file_id, cell_index)`,
+            `CREATE INDEX IF NOT EXISTS idx_links_type_target ON links(link_type, target)`
+        ]
+    },
+    {
+        version: 8,
+        description: 'Reindex files with file: links so raw_target keeps their ::search option',
+        up: [
+            `UPDATE files SET mtime = 0 WHERE id IN (SELECT DISTINCT file_id FROM links WHERE link_type = 'file')`
+        ]
     }
 ];
 
@@ -203,6 +226,13 @@ function coreGetLatestVersion(): number {
     return coreMigrations.length > 0 ? coreMigrations[coreMigrations.length - 1].version : 0;
 }
 
+/**
+ * Escape `%`, `_` and `\` for a LIKE pattern written with ESCAPE '\'
+ */
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+}
+
 /**
  * Read a heading property case-insensitively. Property drawer keys are stored
  * as written (e.g. `:ID:` vs `:id:`), so dependency code must not assume case.
@@ -239,10 +269,23 @@ export function parseDependsIds(value: string): string[] {
 // Type definitions (all exported for external use)
 // ============================================================
 
+/** File types the database indexes, stored in files.file_type */
+export type IndexedFileType = 'org' | 'md' | 'ipynb' | 'tex' | 'bib';
+
+/** Extensions of the files the database indexes (archives aside) */
+export const INDEXED_FILE_EXTENSIONS = ['.org', '.md', '.ipynb', '.tex', '.bib'];
+
+/**
+ * File types whose headings are outline entries with org semantics (tags,
+ * properties, TODO states). Notebook, LaTeX and BibTeX headings are only
+ * indexed for search and navigation.
+ */
+export const OUTLINE_FILE_TYPES: IndexedFileType[] = ['org', 'md'];
+
 export interface FileRecord {
     id: number;
     path: string;
-    file_type: string;  // 'org' | 'md'
+    file_type: string;  // IndexedFileType
     mtime: number;
     hash: string;
     size: number;
@@ -291,6 +334,8 @@ export interface SourceBlockRecord {
     line_number: number;
     headers: string;
     cell_index: number | null;
+    /** Text outputs of a notebook code cell, when scimax.db.indexNotebookOutputs is set */
+    outputs?: string | null;
 }
 
 export interface LinkRecord {
@@ -336,7 +381,7 @@ export interface DbStats {
     vector_search_supported: boolean;
     vector_search_error: string | null;
     last_indexed?: number;
-    by_type: { org: number; md: number };
+    by_type: Record<IndexedFileType, number>;
     database_size?: number;
 }
 
@@ -356,6 +401,12 @@ export interface ProjectRecord {
 export interface ScimaxDbCoreOptions {
     dbPath: string;
     ignorePatterns?: string[];
+    /** Index archive files (`*.org_archive`, `*_archive.org`); default false */
+    includeArchives?: boolean;
+    /** Index the text outputs of notebook code cells; default false */
+    indexNotebookOutputs?: boolean;
+    /** Types indexed besides org and markdown (ipynb, tex, bib); default none */
+    extraFileTypes?: IndexedFileType[];
     maxFileSizeMB?: number;       // default 10
     maxParseSizeKB?: number;      // default 500
     maxFileLines?: number;        // default 5000
@@ -546,6 +597,24 @@ async function runCoreMigrations(db: Client): Promise<{ applied: number; current
     return { applied: pending.length, currentVersion };
 }
 
+// ============================================================
+// BibTeX entry text
+// ============================================================
+
+/** A BibTeX field value without protective braces and extra whitespace */
+function cleanBibValue(value: string): string {
+    return value.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/** The searchable text of a BibTeX entry: key, people, title, venue, keywords, abstract, DOI */
+function bibEntrySearchText(entry: BibEntry): string {
+    return [
+        entry.key, entry.author, entry.fields.editor, entry.title, entry.year,
+        entry.journal ?? entry.booktitle ?? entry.fields.publisher,
+        entry.keywords, entry.abstract, entry.doi
+    ].filter((part): part is string => !!part).map(cleanBibValue).join('\n');
+}
+
 // ============================================================
 // ScimaxDbCore class
 // ============================================================
@@ -690,6 +759,18 @@ export class ScimaxDbCore {
         this.options.ignorePatterns = patterns;
     }
 
+    public setIncludeArchives(include: boolean): void {
+        this.options.includeArchives = include;
+    }
+
+    public setIndexNotebookOutputs(include: boolean): void {
+        this.options.indexNotebookOutputs = include;
+    }
+
+    public setExtraFileTypes(types: IndexedFileType[]): void {
+        this.options.extraFileTypes = types;
+    }
+
     public setResilienceConfig(config: { queryTimeoutMs?: number; maxRetryAttempts?: number }): void {
         if (config.queryTimeoutMs !== undefined) this.queryTimeoutMs = config.queryTimeoutMs;
         if (config.maxRetryAttempts !== undefined) this.maxRetryAttempts = config.maxRetryAttempts;
@@ -750,7 +831,38 @@ export class ScimaxDbCore {
     // Ignore patterns / file filtering
     // ----------------------------------------------------------
 
+    /**
+     * Whether a file is skipped for being an archive file. Archived entries
+     * stay out of search and the agenda unless scimax.db.includeArchives is set.
+     */
+    protected isExcludedArchive(filePath: string): boolean {
+        return !this.options.includeArchives && isArchiveFile(filePath);
+    }
+
+    /**
+     * Whether the walker picks up a file: org and markdown, notebooks, LaTeX
+     * and BibTeX when their types are enabled, and archive files when they
+     * are included
+     */
+    private isIndexableFile(filePath: string): boolean {
+        const name = filePath.toLowerCase();
+        if (name.endsWith('.org_archive')) return !!this.options.includeArchives;
+        return INDEXED_FILE_EXTENSIONS.includes(path.extname(name)) && this.indexesFileType(this.getFileType(name));
+    }
+
+    private indexesFileType(fileType: IndexedFileType): boolean {
+        return this.indexedFileTypes().includes(fileType);
+    }
+
+    /**
+     * Org and markdown plus the extra file types enabled in the settings
+     */
+    private indexedFileTypes(): IndexedFileType[] {
+        return [...OUTLINE_FILE_TYPES, ...(this.options.extraFileTypes ?? [])];
+    }
+
     private shouldIgnore(filePath: string): boolean {
+        if (this.isExcludedArchive(filePath)) return true;
         // The baseline is unconditional: a configured exclude list adds to it,
         // it never replaces it. See BASELINE_DB_EXCLUDE for why.
         const patterns = withBaselineExcludes(this.options.ignorePatterns);
@@ -791,8 +903,7 @@ export class ScimaxDbCore {
                     if (item.isDirectory() && !item.name.startsWith('.')) {
                         stack.push(fullPath);
                     } else if (item.isFile()) {
-                        const ext = path.extname(item.name).toLowerCase();
-                        if (ext === '.org' || ext === '.md') yield fullPath;
+                        if (this.isIndexableFile(fullPath)) yield fullPath;
                     }
                 }
                 directoriesProcessed++;
@@ -803,8 +914,7 @@ export class ScimaxDbCore {
                 if (error?.code === 'ENOTDIR') {
                     // Entry is a single file (e.g. added to scimax.db.include
                     // via "Add file to agenda"), not a directory.
-                    const ext = path.extname(dir).toLowerCase();
-                    if ((ext === '.org' || ext === '.md') && !this.shouldIgnore(dir)) {
+                    if (this.isIndexableFile(dir) && !this.shouldIgnore(dir)) {
                         yield dir;
                     }
                 } else if (error?.code !== 'EACCES' && error?.code !== 'ENOENT') {
@@ -867,12 +977,31 @@ export class ScimaxDbCore {
         return nonPrintable / sample.length > 0.1;
     }
 
-    private getFileType(filePath: string): 'org' | 'md' {
+    private getFileType(filePath: string): IndexedFileType {
         const ext = path.extname(filePath).toLowerCase();
         if (ext === '.md') return 'md';
+        if (ext === '.ipynb') return 'ipynb';
+        if (ext === '.tex') return 'tex';
+        if (ext === '.bib') return 'bib';
         return 'org';
     }
 
+    /**
+     * The text a file contributes to full-text search and embeddings.
+     * :crypt: subtrees stay opaque: their bodies never reach headings,
+     * source blocks, FTS or embeddings, encrypted or not. Notebooks
+     * contribute their cell text rather than their JSON.
+     */
+    private getSearchableText(fileType: IndexedFileType, content: string, notebook?: NotebookDocument): string {
+        if (fileType === 'org') return redactCryptEntries(content);
+        if (fileType === 'ipynb') {
+            return getNotebookFullText(notebook ?? parseNotebook(content), {
+                includeOutputs: this.options.indexNotebookOutputs
+            });
+        }
+        return content;
+    }
+
     // ----------------------------------------------------------
     // Index file
     // ----------------------------------------------------------
@@ -911,7 +1040,7 @@ export class ScimaxDbCore {
                 return;
             }
 
-            const knownTextExt = ['.org', '.md', '.txt'];
+            const knownTextExt = [...INDEXED_FILE_EXTENSIONS, '.txt', '.org_archive'];
             const ext = path.extname(filePath).toLowerCase();
             if (!knownTextExt.includes(ext) && this.isBinaryContent(content)) {
                 console.warn(`[ScimaxDbCore] Skipping binary file: ${filePath}`);
@@ -919,15 +1048,23 @@ export class ScimaxDbCore {
             }
 
             const fileType = this.getFileType(filePath);
+            if (!this.indexesFileType(fileType)) {
+                return;
+            }
             const hash = crypto.createHash('md5').update(content).digest('hex');
 
+            let notebook: NotebookDocument | null = fileType === 'ipynb' ? parseNotebook(content) : null;
+            let contentForDb: string | null = this.getSearchableText(fileType, content, notebook ?? undefined);
+
             let parsedDoc: LegacyDocument | null = null;
             if (fileType === 'org') {
-                parsedDoc = this.parser.parse(content);
+                parsedDoc = this.parser.parse(contentForDb);
             }
 
-            const hashtags = extractHashtags(content);
-            let contentForDb: string | null = content;
+            // In LaTeX and BibTeX a # is a macro parameter, not a hashtag
+            const hashtags = notebook
+                ? notebook.hashtags
+                : fileType === 'tex' || fileType === 'bib' ? [] : extractHashtags(contentForDb);
 
             await this.withWriteLock(async () => {
                 // Remove old data
@@ -960,6 +1097,13 @@ export class ScimaxDbCore {
                     parsedDoc = null;
                 } else if (fileType === 'md') {
                     await this.indexMarkdownDocument(fileId, filePath, contentForDb!);
+                } else if (fileType === 'ipynb' && notebook) {
+                    await this.indexNotebookDocument(fileId, filePath, notebook);
+                    notebook = null;
+                } else if (fileType === 'tex') {
+                    await this.indexLatexDocument(fileId, filePath, content);
+                } else if (fileType === 'bib') {
+                    await this.indexBibtexDocument(fileId, filePath, content);
                 }
 
                 // Index hashtags and FTS5
@@ -970,13 +1114,16 @@ export class ScimaxDbCore {
                         args: [tag.toLowerCase(), filePath]
                     });
                 }
-                const ftsContent = contentForDb!.length > 100000
-                    ? contentForDb!.slice(0, 100000) + '\n[content truncated for FTS]'
-                    : contentForDb!;
-                finalStatements.push({
-                    sql: 'INSERT INTO fts_content (file_path, title, content) VALUES (?, ?, ?)',
-                    args: [filePath, path.basename(filePath), ftsContent]
-                });
+                // BibTeX files are searched entry by entry (see indexBibtexDocument)
+                if (fileType !== 'bib') {
+                    const ftsContent = contentForDb!.length > 100000
+                        ? contentForDb!.slice(0, 100000) + '\n[content truncated for FTS]'
+                        : contentForDb!;
+                    finalStatements.push({
+                        sql: 'INSERT INTO fts_content (file_path, title, content) VALUES (?, ?, ?)',
+                        args: [filePath, path.basename(filePath), ftsContent]
+                    });
+                }
                 if (finalStatements.length > 0) {
                     await this.db!.batch(finalStatements);
                 }
@@ -1151,11 +1298,10 @@ export class ScimaxDbCore {
         fileId: number,
         filePath: string,
         content: string,
-        linePositions: number[]
+        linePositions: number[],
+        anchors: { text: string; kind: string; lineNumber: number; column: number }[] = extractAnchors(content)
     ): Promise<void> {
         if (!this.db) return;
-
-        const anchors = extractAnchors(content);
         if (anchors.length === 0) return;
 
         const headingsResult = await this.db.execute({
@@ -1269,6 +1415,31 @@ export class ScimaxDbCore {
         }));
     }
 
+    /**
+     * Where a citation key is cited: the \cite{} keys of indexed LaTeX files,
+     * stored as links of type 'cite' targeting the key. Each result names the
+     * citing file, line, and the section that contains the citation.
+     */
+    public async getCitations(
+        key: string
+    ): Promise<Array<{ file_path: string; line_number: number; heading_title: string | null }>> {
+        if (!this.db || !key) return [];
+
+        const result = await this.db.execute({
+            sql: `SELECT l.file_path, l.line_number, h.title AS heading_title
+                  FROM links l
+                  LEFT JOIN headings h ON l.heading_id = h.id
+                  WHERE l.link_type = 'cite' AND l.target = ?
+                  ORDER BY l.file_path, l.line_number`,
+            args: [key]
+        });
+        return result.rows.map(r => ({
+            file_path: r.file_path as string,
+            line_number: r.line_number as number,
+            heading_title: (r.heading_title as string) ?? null
+        }));
+    }
+
     /**
      * Object-level back-links to a heading: links that target it by CUSTOM_ID
      * ([[#id]]), ID ([[id:uuid]]), or fuzzy title ([[Title]] / [[*Title]]).
@@ -1319,10 +1490,55 @@ export class ScimaxDbCore {
         }));
     }
 
+    /**
+     * Files that may reference an identifier from another file, for rename.
+     * IDs are global: every file with an id: link to it, a :DEPENDS: on it,
+     * or the heading itself. CUSTOM_IDs, targets and names are only reachable
+     * across files through file-qualified links ([[file:a.org::#id]],
+     * [[a.org::target]]), matched here by their search option; callers check
+     * that the file part resolves to the defining file.
+     */
+    public async getRenameCandidateFiles(
+        kind: 'custom-id' | 'id' | 'target' | 'name',
+        name: string
+    ): Promise<string[]> {
+        if (!this.db || !name.trim()) return [];
+        const statements: { sql: string; args: string[] }[] = [];
+        if (kind === 'id') {
+            const id = name.trim().toLowerCase();
+            statements.push(
+                {
+                    sql: `SELECT DISTINCT file_path FROM links
+                          WHERE link_type = 'id' AND (lower(trim(raw_target)) = ? OR lower(trim(raw_target)) LIKE ? || '::%' ESCAPE '\\')`,
+                    args: [id, escapeLike(id)]
+                },
+                { sql: 'SELECT DISTINCT file_path FROM dependencies WHERE lower(to_id) = ?', args: [id] },
+                {
+                    sql: `SELECT DISTINCT file_path FROM headings WHERE properties LIKE ? ESCAPE '\\' OR properties LIKE ? ESCAPE '\\'`,
+                    args: ['ID', 'id'].map(key => `%${escapeLike(`"${key}":${JSON.stringify(name.trim())}`)}%`)
+                }
+            );
+        } else {
+            const key = kind === 'custom-id' ? '#' + name.trim().toLowerCase() : normalizeAnchorText(name);
+            statements.push({
+                sql: `SELECT DISTINCT file_path FROM links
+                      WHERE link_type IN ('internal', 'file', 'fuzzy') AND lower(trim(raw_target)) LIKE '%::' || ? ESCAPE '\\'`,
+                args: [escapeLike(key)]
+            });
+        }
+
+        const files = new Set<string>();
+        for (const statement of statements) {
+            const result = await this.db.execute(statement);
+            for (const row of result.rows) files.add(row.file_path as string);
+        }
+        return [...files].sort();
+    }
+
     private async indexLinks(
         fileId: number,
         filePath: string,
-        links: { type: string; target: string; description?: string; lineNumber: number }[]
+        links: { type: string; target: string; description?: string; lineNumber: number; searchOption?: string }[]
     ): Promise<void> {
         if (!this.db || links.length === 0) return;
 
@@ -1354,11 +1570,17 @@ export class ScimaxDbCore {
                 }
             }
 
+            // The parser splits [[file:notes.org::#id]] into path and search
+            // option; keep the option in raw_target so back-links and rename
+            // can find file-qualified references.
+            const rawTarget = link.type === 'file' && link.searchOption
+                ? `${link.target}::${link.searchOption}`
+                : link.target;
             linkStatements.push({
                 sql: `INSERT INTO links
                       (file_id, file_path, link_type, target, description, line_number, heading_id, raw_target)
                       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-                args: [fileId, filePath, link.type, resolvedTarget, link.description || null, link.lineNumber, headingId, link.target]
+                args: [fileId, filePath, link.type, resolvedTarget, link.description || null, link.lineNumber, headingId, rawTarget]
             });
         }
 
@@ -1442,6 +1664,186 @@ export class ScimaxDbCore {
         }
     }
 
+    /**
+     * Index a Jupyter notebook: markdown headings and code cells, located by
+     * cell index. Code cell outputs are stored with their blocks when
+     * indexNotebookOutputs is set.
+     */
+    private async indexNotebookDocument(
+        fileId: number,
+        filePath: string,
+        doc: NotebookDocument
+    ): Promise<void> {
+        if (!this.db) return;
+
+        const statements: { sql: string; args: (string | number | null)[] }[] = [];
+        for (const heading of doc.headings) {
+            statements.push({
+                sql: `INSERT INTO headings
+                      (file_id, file_path, level, title, line_number, begin_pos,
+                       todo_state, tags, inherited_tags, properties, cell_index)
+                      VALUES (?, ?, ?, ?, ?, 0, NULL, '[]', '[]', '{}', ?)`,
+                args: [fileId, filePath, heading.level, heading.title, heading.lineNumber, heading.cellIndex]
+            });
+        }
+
+        const includeOutputs = !!this.options.indexNotebookOutputs;
+        for (const block of doc.codeBlocks) {
+            statements.push({
+                sql: `INSERT INTO source_blocks
+                      (file_id, file_path, language, content, line_number, headers, cell_index, outputs)
+                      VALUES (?, ?, ?, ?, ?, '{}', ?, ?)`,
+                args: [
+                    fileId, filePath, block.language, block.content, block.lineNumber, block.cellIndex,
+                    includeOutputs ? block.outputs ?? null : null
+                ]
+            });
+        }
+
+        const BATCH_SIZE = 50;
+        for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+            await this.db.batch(statements.slice(i, i + BATCH_SIZE));
+        }
+
+        await this.indexLinks(fileId, filePath, doc.links);
+    }
+
+    /**
+     * Index a LaTeX file: sectioning commands as headings, \label{}s as
+     * anchors and \cite{} keys as links of type 'cite' targeting the key.
+     */
+    private async indexLatexDocument(
+        fileId: number,
+        filePath: string,
+        content: string
+    ): Promise<void> {
+        if (!this.db) return;
+
+        const lines = content.split('\n');
+        let charPos = 0;
+        const linePositions: number[] = [];
+        for (const line of lines) {
+            linePositions.push(charPos);
+            charPos += line.length + 1;
+        }
+
+        const { sections, labels } = parseLatexText(content);
+
+        // Levels count from the highest sectioning command used, so an
+        // article's \section is level 1 just like a book's \chapter
+        const topLevel = Math.min(...sections.map(section => section.level));
+        const statements: { sql: string; args: (string | number | null)[] }[] = sections.map(section => ({
+            sql: `INSERT INTO headings
+                  (file_id, file_path, level, title, line_number, begin_pos,
+                   todo_state, tags, inherited_tags, properties, cell_index)
+                  VALUES (?, ?, ?, ?, ?, ?, NULL, '[]', '[]', ?, NULL)`,
+            args: [
+                fileId, filePath, section.level - topLevel + 1, section.title, section.line + 1,
+                linePositions[section.line] || 0, JSON.stringify({ LATEX_SECTION: section.type })
+            ]
+        }));
+
+        const BATCH_SIZE = 50;
+        for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+            await this.db.batch(statements.slice(i, i + BATCH_SIZE));
+        }
+
+        await this.indexAnchors(fileId, filePath, content, linePositions, labels.map(label => ({
+            text: label.name,
+            kind: 'label',
+            lineNumber: label.line + 1,
+            column: Math.max(0, lines[label.line].indexOf(`\\label{${label.name}}`) + '\\label{'.length)
+        })));
+
+        await this.indexLinks(fileId, filePath, extractLatexCitations(content).map(citation => ({
+            type: 'cite',
+            target: citation.key,
+            lineNumber: citation.line + 1
+        })));
+    }
+
+    /**
+     * Index a BibTeX file: each entry becomes a heading titled by the entry's
+     * title, with its key as CUSTOM_ID and its fields as properties, an
+     * anchor of kind 'bibentry' on the key, and its own FTS row.
+     */
+    private async indexBibtexDocument(
+        fileId: number,
+        filePath: string,
+        content: string
+    ): Promise<void> {
+        if (!this.db) return;
+
+        const { entries } = parseBibTeX(content);
+        if (entries.length === 0) return;
+
+        // The parser does not keep positions; find each entry's @type{key,
+        const positions = new Map<string, { lineNumber: number; column: number; offset: number }>();
+        const entryPattern = /@\w+\s*[{(]\s*([^,\s]+)\s*,/g;
+        let lineNumber = 1;
+        let lineStart = 0;
+        let scanned = 0;
+        let match: RegExpExecArray | null;
+        while ((match = entryPattern.exec(content)) !== null) {
+            for (; scanned < match.index; scanned++) {
+                if (content[scanned] === '\n') {
+                    lineNumber++;
+                    lineStart = scanned + 1;
+                }
+            }
+            if (!positions.has(match[1])) {
+                positions.set(match[1], { lineNumber, column: match.index - lineStart, offset: match.index });
+            }
+        }
+
+        const statements: { sql: string; args: (string | number | null)[] }[] = [];
+        const anchors: { text: string; kind: string; lineNumber: number; column: number }[] = [];
+        for (const entry of entries) {
+            const position = positions.get(entry.key) ?? { lineNumber: 1, column: 0, offset: 0 };
+            const properties: Record<string, string> = { CUSTOM_ID: entry.key, BIBTEX_TYPE: entry.type };
+            for (const [field, value] of Object.entries(entry.fields)) {
+                properties[field.toUpperCase()] = cleanBibValue(value);
+            }
+            const tags = entry.keywords
+                ? cleanBibValue(entry.keywords).split(/[,;]/).map(tag => tag.trim()).filter(Boolean)
+                : [];
+
+            statements.push({
+                sql: `INSERT INTO headings
+                      (file_id, file_path, level, title, line_number, begin_pos,
+                       todo_state, tags, inherited_tags, properties, cell_index)
+                      VALUES (?, ?, 1, ?, ?, ?, NULL, ?, '[]', ?, NULL)`,
+                args: [
+                    fileId, filePath, entry.title ? cleanBibValue(entry.title) : entry.key,
+                    position.lineNumber, position.offset, JSON.stringify(tags), JSON.stringify(properties)
+                ]
+            });
+            statements.push({
+                sql: 'INSERT INTO fts_content (file_path, title, content) VALUES (?, ?, ?)',
+                args: [filePath, path.basename(filePath), bibEntrySearchText(entry)]
+            });
+            anchors.push({
+                text: entry.key,
+                kind: 'bibentry',
+                lineNumber: position.lineNumber,
+                column: position.column
+            });
+        }
+
+        const BATCH_SIZE = 50;
+        for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+            await this.db.batch(statements.slice(i, i + BATCH_SIZE));
+        }
+
+        const linePositions: number[] = [];
+        let charPos = 0;
+        for (const line of content.split('\n')) {
+            linePositions.push(charPos);
+            charPos += line.length + 1;
+        }
+        await this.indexAnchors(fileId, filePath, content, linePositions, anchors);
+    }
+
     // ----------------------------------------------------------
     // Embeddings / chunks
     // ----------------------------------------------------------
@@ -1514,7 +1916,7 @@ export class ScimaxDbCore {
                     if (!fs.existsSync(filePath)) continue;
                     const fileRecord = await this.getFileByPath(filePath);
                     if (!fileRecord) continue;
-                    const content = fs.readFileSync(filePath, 'utf8');
+                    const content = this.getSearchableText(this.getFileType(filePath), fs.readFileSync(filePath, 'utf8'));
                     await this.db.execute({ sql: 'DELETE FROM chunks WHERE file_path = ?', args: [filePath] });
                     await this.createChunks(fileRecord.id, filePath, content);
                 } catch (error) {
@@ -1803,6 +2205,16 @@ export class ScimaxDbCore {
         return { sql: '', args: [] };
     }
 
+    /**
+     * Restrict headings to files of the given types
+     */
+    private getFileTypeClause(fileTypes: IndexedFileType[], fileIdColumn: string = 'file_id'): { sql: string; args: any[] } {
+        return {
+            sql: ` AND ${fileIdColumn} IN (SELECT id FROM files WHERE file_type IN (${fileTypes.map(() => '?').join(', ')}))`,
+            args: [...fileTypes],
+        };
+    }
+
     // ----------------------------------------------------------
     // Search / query methods
     // ----------------------------------------------------------
@@ -1889,16 +2301,26 @@ export class ScimaxDbCore {
             .map(item => ({ ...item.result, score: item.rrf }));
     }
 
+    /**
+     * Headings whose title contains `query`, in every indexed file type
+     * unless `fileTypes` says otherwise. TODO state and tag filters only
+     * apply to org and markdown headings.
+     */
     public async searchHeadings(query: string, options?: {
         todoState?: string;
         tag?: string;
         limit?: number;
+        fileTypes?: IndexedFileType[];
     }): Promise<HeadingRecord[]> {
         if (!this.db) return [];
         const limit = options?.limit || 100;
         const scope = this.getScopeClause();
-        let sql = `SELECT * FROM headings WHERE 1=1${scope.sql}`;
-        const args: any[] = [...scope.args];
+        const fileTypes = options?.fileTypes ?? this.indexedFileTypes();
+        const types = this.getFileTypeClause(options?.todoState || options?.tag
+            ? fileTypes.filter(type => OUTLINE_FILE_TYPES.includes(type))
+            : fileTypes);
+        let sql = `SELECT * FROM headings WHERE 1=1${scope.sql}${types.sql}`;
+        const args: any[] = [...scope.args, ...types.args];
         if (query) { sql += ' AND title LIKE ?'; args.push(`%${query}%`); }
         if (options?.todoState) { sql += ' AND todo_state = ?'; args.push(options.todoState); }
         if (options?.tag) { sql += ' AND (tags LIKE ? OR inherited_tags LIKE ?)'; args.push(`%"${options.tag}"%`, `%"${options.tag}"%`); }
@@ -1922,13 +2344,88 @@ export class ScimaxDbCore {
         return result.rows as unknown as HeadingRecord[];
     }
 
+    /**
+     * Every heading of every indexed org file, in document order per file.
+     * Custom agenda views match their blocks against this in memory.
+     */
+    public async getAllOrgHeadings(): Promise<HeadingRecord[]> {
+        if (!this.db) return [];
+        const scope = this.getScopeClause('h.file_path');
+        const result = await this.db.execute({
+            sql: `SELECT h.* FROM headings h JOIN files f ON h.file_id = f.id
+                  WHERE f.file_type = 'org'${scope.sql}
+                  ORDER BY h.file_path, h.line_number`,
+            args: scope.args,
+        });
+        return result.rows as unknown as HeadingRecord[];
+    }
+
+    /**
+     * Candidate refile targets, in document order per file. Limiting by level
+     * is safe for outline paths: a heading's ancestors are always shallower,
+     * so every returned heading still has its full chain of parents.
+     */
+    public async getRefileHeadings(options?: {
+        filePaths?: string[];
+        maxLevel?: number;
+        fileType?: 'org' | 'md';
+    }): Promise<HeadingRecord[]> {
+        if (!this.db) return [];
+        if (options?.filePaths && options.filePaths.length === 0) return [];
+        let sql = 'SELECT h.* FROM headings h JOIN files f ON h.file_id = f.id WHERE 1=1';
+        const args: any[] = [];
+        if (options?.maxLevel) { sql += ' AND h.level <= ?'; args.push(options.maxLevel); }
+        if (options?.fileType) { sql += ' AND f.file_type = ?'; args.push(options.fileType); }
+        if (options?.filePaths) {
+            sql += ` AND h.file_path IN (${options.filePaths.map(() => '?').join(', ')})`;
+            args.push(...options.filePaths);
+        }
+        sql += ' ORDER BY h.file_path, h.line_number';
+        const result = await this.db.execute({ sql, args });
+        return result.rows as unknown as HeadingRecord[];
+    }
+
+    /**
+     * Org and markdown headings with a property, optionally starting with `value`
+     */
     public async searchByProperty(propertyName: string, value?: string): Promise<HeadingRecord[]> {
         if (!this.db) return [];
         const scope = this.getScopeClause();
-        const sql = `SELECT * FROM headings WHERE properties LIKE ?${scope.sql}`;
+        const types = this.getFileTypeClause(OUTLINE_FILE_TYPES);
+        const sql = `SELECT * FROM headings WHERE properties LIKE ?${scope.sql}${types.sql}`;
         const args: any[] = value
-            ? [`%"${propertyName}":"${value}%`, ...scope.args]
-            : [`%"${propertyName}"%`, ...scope.args];
+            ? [`%"${propertyName}":"${value}%`, ...scope.args, ...types.args]
+            : [`%"${propertyName}"%`, ...scope.args, ...types.args];
+        const result = await this.db.execute({ sql, args });
+        return result.rows as unknown as HeadingRecord[];
+    }
+
+    /**
+     * Org and markdown headings matching a tags/property match expression
+     * such as `+work-personal+PRIORITY="A"+EFFORT<2:00`, in document order
+     * per file.
+     * `todoStates` restricts results to those states, as org's TODO-only
+     * match does with the active keywords.
+     * @throws Error if the expression does not parse
+     */
+    public async searchTagsMatch(expression: string, options?: {
+        todoStates?: string[];
+        limit?: number;
+        now?: Date;
+    }): Promise<HeadingRecord[]> {
+        const where = compileTagsMatchSql(parseTagsMatch(expression, { now: options?.now }), 'h');
+        if (!this.db) return [];
+        const scope = this.getScopeClause('h.file_path');
+        const types = this.getFileTypeClause(OUTLINE_FILE_TYPES, 'h.file_id');
+        let sql = `SELECT h.* FROM headings h WHERE ${where.sql}${scope.sql}${types.sql}`;
+        const args: any[] = [...where.args, ...scope.args, ...types.args];
+        if (options?.todoStates) {
+            if (options.todoStates.length === 0) return [];
+            sql += ` AND h.todo_state IN (${options.todoStates.map(() => '?').join(', ')})`;
+            args.push(...options.todoStates);
+        }
+        sql += ' ORDER BY h.file_path, h.line_number LIMIT ?';
+        args.push(options?.limit || 500);
         const result = await this.db.execute({ sql, args });
         return result.rows as unknown as HeadingRecord[];
     }
@@ -2091,8 +2588,9 @@ export class ScimaxDbCore {
     public async getTodos(state?: string): Promise<HeadingRecord[]> {
         if (!this.db) return [];
         const scope = this.getScopeClause();
-        let sql = `SELECT * FROM headings WHERE todo_state IS NOT NULL${scope.sql}`;
-        const args: any[] = [...scope.args];
+        const types = this.getFileTypeClause(OUTLINE_FILE_TYPES);
+        let sql = `SELECT * FROM headings WHERE todo_state IS NOT NULL${scope.sql}${types.sql}`;
+        const args: any[] = [...scope.args, ...types.args];
         if (state) { sql += ' AND todo_state = ?'; args.push(state); }
         const result = await this.db.execute({ sql, args });
         return result.rows as unknown as HeadingRecord[];
@@ -2155,22 +2653,27 @@ export class ScimaxDbCore {
         if (!this.db) return {
             files: 0, headings: 0, blocks: 0, chunks: 0,
             has_embeddings: false, vector_search_supported: false,
-            vector_search_error: null, by_type: { org: 0, md: 0 }
+            vector_search_error: null, by_type: { org: 0, md: 0, ipynb: 0, tex: 0, bib: 0 }
         };
 
-        const [files, headings, blocks, chunks, embeddings, orgFiles, mdFiles] = await this.executeResilient(
+        const [files, headings, blocks, chunks, embeddings, fileTypes] = await this.executeResilient(
             () => Promise.all([
                 this.db!.execute('SELECT COUNT(*) as count FROM files'),
                 this.db!.execute('SELECT COUNT(*) as count FROM headings'),
                 this.db!.execute('SELECT COUNT(*) as count FROM source_blocks'),
                 this.db!.execute('SELECT COUNT(*) as count FROM chunks'),
                 this.db!.execute('SELECT COUNT(*) as count FROM chunks WHERE embedding IS NOT NULL'),
-                this.db!.execute("SELECT COUNT(*) as count FROM files WHERE file_type = 'org'"),
-                this.db!.execute("SELECT COUNT(*) as count FROM files WHERE file_type = 'md'")
+                this.db!.execute('SELECT file_type, COUNT(*) as count FROM files GROUP BY file_type')
             ]),
             'getStats'
         );
 
+        const byType: Record<IndexedFileType, number> = { org: 0, md: 0, ipynb: 0, tex: 0, bib: 0 };
+        for (const row of fileTypes.rows) {
+            const fileType = row.file_type as IndexedFileType;
+            if (fileType in byType) byType[fileType] = row.count as number;
+        }
+
         const lastFile = await this.queryResilient('SELECT MAX(indexed_at) as last FROM files', [], 'getStats:lastFile');
 
         let databaseSize: number | undefined;
@@ -2190,10 +2693,7 @@ export class ScimaxDbCore {
             vector_search_supported: this.vectorSearchSupported,
             vector_search_error: this.vectorSearchError,
             last_indexed: lastFile.rows[0].last as number | undefined,
-            by_type: {
-                org: orgFiles.rows[0].count as number,
-                md: mdFiles.rows[0].count as number
-            },
+            by_type: byType,
             database_size: databaseSize
         };
     }
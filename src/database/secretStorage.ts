@@ -13,6 +13,7 @@ import * as vscode from 'vscode';
 
 // Secret storage keys
 const OPENALEX_API_KEY = 'scimax.openalexApiKey';
+const JUPYTER_SERVER_TOKEN_PREFIX = 'scimax.jupyterServerToken:';
 
 let extensionContext: vscode.ExtensionContext | null = null;
 
@@ -68,3 +69,28 @@ export async function hasOpenAlexApiKey(): Promise<boolean> {
     return key !== undefined && key.length > 0;
 }
 
+// =============================================================================
+// Jupyter Server Token Functions
+// =============================================================================
+
+/**
+ * Store the API token of a Jupyter server. Tokens are kept per server URL.
+ */
+export async function storeJupyterServerToken(serverUrl: string, token: string): Promise<void> {
+    await getSecrets().store(JUPYTER_SERVER_TOKEN_PREFIX + serverUrl, token);
+}
+
+/**
+ * Retrieve the API token of a Jupyter server
+ * Returns undefined if not stored
+ */
+export async function getJupyterServerToken(serverUrl: string): Promise<string | undefined> {
+    return await getSecrets().get(JUPYTER_SERVER_TOKEN_PREFIX + serverUrl);
+}
+
+/**
+ * Delete the API token of a Jupyter server from secure storage
+ */
+export async function deleteJupyterServerToken(serverUrl: string): Promise<void> {
+    await getSecrets().delete(JUPYTER_SERVER_TOKEN_PREFIX + serverUrl);
+}
@@ -0,0 +1,127 @@
+/**
+ * Compile org tags/property match expressions to SQL over the `headings`
+ * table. The WHERE clause gives exactly the headings evaluateTagsMatch
+ * accepts, so the agenda, dynamic blocks and database searches agree.
+ *
+ * Columns used: tags and inherited_tags (JSON arrays), properties (JSON
+ * object), todo_state, priority, level, title, scheduled, deadline, closed
+ * and file_path. Regex matches use libSQL's built-in REGEXP operator.
+ */
+
+import type { MatchNode, MatchOperator, MatchValue } from '../parser/orgTagsMatch';
+
+export interface SqlFragment {
+    sql: string;
+    args: (string | number)[];
+}
+
+/**
+ * Compile a parsed match expression to a boolean SQL expression.
+ * @param alias - Table alias of `headings` in the surrounding query
+ */
+export function compileTagsMatchSql(node: MatchNode, alias = 'h'): SqlFragment {
+    const args: (string | number)[] = [];
+    const sql = compileNode(node, alias, args);
+    return { sql, args };
+}
+
+// Every fragment evaluates to 0 or 1, never NULL, so NOT (...) stays exact.
+function compileNode(node: MatchNode, h: string, args: (string | number)[]): string {
+    switch (node.kind) {
+        case 'all':
+            return '1';
+        case 'or':
+        case 'and':
+            return `(${node.terms.map(term => compileNode(term, h, args)).join(node.kind === 'or' ? ' OR ' : ' AND ')})`;
+        case 'not':
+            return `NOT ${compileNode(node.term, h, args)}`;
+        case 'tag':
+            args.push(node.tag, node.tag);
+            return `(EXISTS (SELECT 1 FROM json_each(${h}.tags) WHERE value = ?)`
+                + ` OR EXISTS (SELECT 1 FROM json_each(${h}.inherited_tags) WHERE value = ?))`;
+        case 'tagRegex':
+            args.push(node.pattern, node.pattern);
+            return `(EXISTS (SELECT 1 FROM json_each(${h}.tags) WHERE value REGEXP ?)`
+                + ` OR EXISTS (SELECT 1 FROM json_each(${h}.inherited_tags) WHERE value REGEXP ?))`;
+        case 'todo': {
+            const parts: string[] = [];
+            if (node.include.length > 0) {
+                parts.push(`COALESCE(${h}.todo_state IN (${node.include.map(() => '?').join(', ')}), 0)`);
+                args.push(...node.include);
+            }
+            if (node.exclude.length > 0) {
+                parts.push(`(${h}.todo_state IS NULL OR ${h}.todo_state NOT IN (${node.exclude.map(() => '?').join(', ')}))`);
+                args.push(...node.exclude);
+            }
+            return parts.length === 0 ? '1' : `(${parts.join(' AND ')})`;
+        }
+        case 'property':
+            return compileComparison(propertyExpr(node.name, h), node.op, node.value, args);
+    }
+}
+
+/**
+ * SQL text of a property as evaluateTagsMatch reads it (NULL when missing).
+ * Names are validated identifiers, so they are safe to inline.
+ */
+function propertyExpr(name: string, h: string): string {
+    switch (name) {
+        case 'TODO': return `${h}.todo_state`;
+        case 'PRIORITY': return `${h}.priority`;
+        case 'LEVEL': return `CAST(${h}.level AS TEXT)`;
+        case 'ITEM': return `${h}.title`;
+        case 'SCHEDULED': return `${h}.scheduled`;
+        case 'DEADLINE': return `${h}.deadline`;
+        case 'CLOSED': return `${h}.closed`;
+    }
+    const drawer = `(SELECT value FROM json_each(${h}.properties) WHERE upper(key) = '${name}' LIMIT 1)`;
+    if (name !== 'CATEGORY') return drawer;
+    // Default category: the file name without its .org/.md extension.
+    const base = `replace(${h}.file_path, rtrim(${h}.file_path, replace(${h}.file_path, '/', '')), '')`;
+    return `COALESCE(${drawer}, CASE WHEN ${base} GLOB '*.org' THEN substr(${base}, 1, length(${base}) - 4)`
+        + ` WHEN ${base} GLOB '*.md' THEN substr(${base}, 1, length(${base}) - 3) ELSE ${base} END)`;
+}
+
+/** Mirror of matchNumberValue: text that starts like a number */
+function numberValid(text: string): string {
+    return `(${text} GLOB '[0-9]*' OR ${text} GLOB '[-+.][0-9]*' OR ${text} GLOB '[-+].[0-9]*')`;
+}
+
+function compileComparison(expr: string, op: MatchOperator, value: MatchValue, args: (string | number)[]): string {
+    const text = `COALESCE(${expr}, '')`;
+    switch (value.type) {
+        case 'regex':
+            args.push(value.pattern);
+            return op === '<>' ? `NOT (${text} REGEXP ?)` : `(${text} REGEXP ?)`;
+        case 'string':
+            args.push(value.value);
+            return `(${text} ${op} ?)`;
+        case 'number': {
+            const trimmed = `ltrim(${text}, ' ')`;
+            return typed(numberValid(trimmed), `CAST(${trimmed} AS REAL)`, op, value.value, args);
+        }
+        case 'date': {
+            // Mirror of matchDateValue: the first ten characters after < or [.
+            const day = `substr(ltrim(${text}, '<['), 1, 10)`;
+            return typed(`(${day} GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]')`, day, op, value.value, args);
+        }
+        case 'duration': {
+            // Mirror of matchDurationValue: H:MM (1-3 hour digits) or minutes.
+            const t = `trim(${text})`;
+            const hm = `(${t} GLOB '[0-9]:[0-9][0-9]*' OR ${t} GLOB '[0-9][0-9]:[0-9][0-9]*'`
+                + ` OR ${t} GLOB '[0-9][0-9][0-9]:[0-9][0-9]*')`;
+            const colon = `instr(${t}, ':')`;
+            const minutes = `(CASE WHEN ${hm} THEN CAST(substr(${t}, 1, ${colon} - 1) AS INTEGER) * 60`
+                + ` + CAST(substr(${t}, ${colon} + 1, 2) AS INTEGER) ELSE CAST(${t} AS REAL) END)`;
+            return typed(`(${hm} OR ${numberValid(t)})`, minutes, op, value.minutes, args);
+        }
+    }
+}
+
+/** A typed comparison: an unreadable value only satisfies `<>` */
+function typed(valid: string, read: string, op: MatchOperator, expected: string | number, args: (string | number)[]): string {
+    args.push(expected);
+    return op === '<>'
+        ? `(NOT ${valid} OR ${read} <> ?)`
+        : `(${valid} AND ${read} ${op} ?)`;
+}
@@ -50,7 +50,7 @@ export interface DatabaseInfo {
         vectorSearchSupported: boolean;
         vectorSearchError: string | null;
         lastIndexed?: string;
-        byType: { org: number; md: number };
+        byType: { org: number; md: number; ipynb: number; tex: number; bib: number };
     };
     // Schema info
     schema?: {
@@ -902,7 +902,11 @@ export function formatReportAsMarkdown(info: DiagnosticInfo): string {
         lines.push('');
         lines.push('| Type | Count |');
         lines.push('|------|-------|');
-        lines.push(`| Files | ${info.database.stats.files} (${info.database.stats.byType.org} org, ${info.database.stats.byType.md} md) |`);
+        const byType = Object.entries(info.database.stats.byType)
+            .filter(([type, count]) => count > 0 || type === 'org' || type === 'md')
+            .map(([type, count]) => `${count} ${type}`)
+            .join(', ');
+        lines.push(`| Files | ${info.database.stats.files} (${byType}) |`);
         lines.push(`| Headings | ${info.database.stats.headings} |`);
         lines.push(`| Source Blocks | ${info.database.stats.blocks} |`);
         lines.push(`| Chunks | ${info.database.stats.chunks} |`);
@@ -0,0 +1,75 @@
+/**
+ * Tests for reveal.js asset bundling from a local reveal.js directory or a
+ * server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as http from 'http';
+import { bundleRevealAssets } from '../revealAssets';
+
+describe('bundleRevealAssets', () => {
+    let tmp: string;
+    let source: string;
+    let dest: string;
+
+    beforeEach(() => {
+        tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'reveal-assets-'));
+        source = path.join(tmp, 'reveal.js-src');
+        dest = path.join(tmp, 'out', 'reveal.js');
+        for (const file of ['dist/reveal.js', 'dist/theme/black.css', 'plugin/notes/notes.js']) {
+            fs.mkdirSync(path.dirname(path.join(source, file)), { recursive: true });
+            fs.writeFileSync(path.join(source, file), `/* ${file} */`);
+        }
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmp, { recursive: true, force: true });
+    });
+
+    it('copies the listed files and skips ones already bundled', async () => {
+        const files = ['dist/reveal.js', 'dist/theme/black.css'];
+        expect(await bundleRevealAssets(files, source, dest)).toEqual(files);
+        expect(fs.readFileSync(path.join(dest, 'dist', 'theme', 'black.css'), 'utf-8')).toBe('/* dist/theme/black.css */');
+        expect(fs.existsSync(path.join(dest, 'plugin'))).toBe(false);
+
+        expect(await bundleRevealAssets([...files, 'plugin/notes/notes.js'], source, dest))
+            .toEqual(['plugin/notes/notes.js']);
+    });
+
+    it('fails on files missing from the source', async () => {
+        await expect(bundleRevealAssets(['dist/reveal.css'], source, dest)).rejects.toThrow(/not found/);
+    });
+
+    it('downloads files from a server and leaves nothing behind when a download fails', async () => {
+        const server = http.createServer((req, res) => {
+            if (req.url === '/dist/reveal.js') {
+                res.end('/* reveal */');
+            } else if (req.url === '/dist/cut.js') {
+                res.writeHead(200, { 'Content-Length': '100' });
+                res.write('/* partial');
+                setTimeout(() => res.destroy(), 20);
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const url = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+
+        try {
+            expect(await bundleRevealAssets(['dist/reveal.js'], url, dest)).toEqual(['dist/reveal.js']);
+            expect(fs.readFileSync(path.join(dest, 'dist', 'reveal.js'), 'utf-8')).toBe('/* reveal */');
+
+            await expect(bundleRevealAssets(['dist/missing.js'], url, dest)).rejects.toThrow(/HTTP 404/);
+            expect(fs.existsSync(path.join(dest, 'dist', 'missing.js'))).toBe(false);
+
+            await expect(bundleRevealAssets(['dist/cut.js'], url, dest)).rejects.toThrow();
+            expect(fs.existsSync(path.join(dest, 'dist', 'cut.js'))).toBe(false);
+        } finally {
+            server.close();
+        }
+    });
+});
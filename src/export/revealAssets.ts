@@ -0,0 +1,101 @@
+/**
+ * reveal.js asset bundling
+ *
+ * Copies the reveal.js files a presentation loads (core, theme, plugins)
+ * into a `reveal.js/` directory next to the exported HTML, so the slides work
+ * without network access. Files come from a local reveal.js checkout or npm
+ * package when one is given, otherwise they are downloaded from the CDN.
+ * Files already present are left alone, so re-exporting is cheap.
+ *
+ * No VS Code dependencies: shared by the extension and the CLI.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { pipeline } from 'stream';
+import { DEFAULT_REVEAL_ROOT } from '../parser/orgExportReveal';
+
+/** Directory, relative to the exported HTML, that bundled assets go in */
+export const REVEAL_BUNDLE_DIR = 'reveal.js';
+
+/** How long a download may stall before it is abandoned */
+const DOWNLOAD_TIMEOUT = 30000;
+
+/**
+ * Download a URL to a file, following redirects. On any failure the partial
+ * file is removed, so the next export does not take it as already bundled.
+ */
+function downloadFile(url: string, dest: string, redirects = 5): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const fail = (err: Error) => {
+            fs.unlink(dest, () => reject(err));
+        };
+        const options = {
+            headers: { 'User-Agent': 'scimax-vscode' }
+        };
+        const transport = url.startsWith('http:') ? http : https;
+        const req = transport.get(url, options, (res) => {
+            if ((res.statusCode === 301 || res.statusCode === 302 || res.statusCode === 307 || res.statusCode === 308)
+                && res.headers.location) {
+                res.resume();
+                if (redirects <= 0) {
+                    reject(new Error(`Too many redirects for ${url}`));
+                    return;
+                }
+                const next = new URL(res.headers.location, url).toString();
+                downloadFile(next, dest, redirects - 1).then(resolve).catch(reject);
+                return;
+            }
+            if (res.statusCode !== 200) {
+                res.resume();
+                fail(new Error(`HTTP ${res.statusCode} for ${url}`));
+                return;
+            }
+            // pipeline also fails when the response ends early or errors
+            pipeline(res, fs.createWriteStream(dest), (err) => (err ? fail(err) : resolve()));
+        });
+        req.on('error', fail);
+        req.setTimeout(DOWNLOAD_TIMEOUT, () => {
+            req.destroy(new Error(`Timed out downloading ${url}`));
+        });
+    });
+}
+
+/**
+ * Copy or download reveal.js files into destDir.
+ *
+ * @param files Paths relative to the reveal.js root (see revealAssetPaths)
+ * @param source A local reveal.js directory, or a URL (defaults to the CDN)
+ * @param destDir Directory to create them in, usually `<output dir>/reveal.js`
+ * @returns The files that were copied or downloaded
+ */
+export async function bundleRevealAssets(
+    files: string[],
+    source: string | undefined,
+    destDir: string
+): Promise<string[]> {
+    const root = (source || DEFAULT_REVEAL_ROOT).replace(/\/+$/, '');
+    const remote = /^https?:\/\//.test(root);
+    const written: string[] = [];
+
+    for (const file of files) {
+        const dest = path.join(destDir, ...file.split('/'));
+        if (fs.existsSync(dest)) {
+            continue;
+        }
+        fs.mkdirSync(path.dirname(dest), { recursive: true });
+        if (remote) {
+            await downloadFile(`${root}/${file}`, dest);
+        } else {
+            const src = path.join(root, ...file.split('/'));
+            if (!fs.existsSync(src)) {
+                throw new Error(`reveal.js file not found: ${src}`);
+            }
+            fs.copyFileSync(src, dest);
+        }
+        written.push(file);
+    }
+    return written;
+}
@@ -54,6 +54,9 @@ import { registerMacLinkCommands } from './org/macLinks';
 import { registerScreenshotCommands } from './org/screenshotProvider';
 import { registerScimaxObCommands } from './org/scimaxOb';
 import { registerRefileCommands } from './org/refileProvider';
+import { registerCryptCommands } from './org/cryptProvider';
+import { registerColumnViewCommands } from './org/columnView';
+import { registerTablePlotCommands } from './org/tablePlotView';
 import { registerSpeedCommands } from './org/speedCommands';
 import { parseStartupOptions, applyStartupVisibility } from './org/speedCommands/visibility';
 import { registerImageOverlayCommands } from './org/imageOverlayProvider';
@@ -64,6 +67,7 @@ import { OrgLintProvider, registerOrgLintCommands } from './org/orgLintProvider'
 import { registerOrphanLinkDiagnostics } from './org/orphanLinkDiagnostics';
 import { registerNotesProvider } from './org/notesProvider';
 import { registerBacklinksProvider } from './org/backlinksProvider';
+import { registerOrgRenameProvider } from './org/renameProvider';
 import { registerDependencyCommands } from './org/dependencyCommands';
 import { registerDependencyProviders } from './org/dependencyProviders';
 import { registerDependencyDiagnostics } from './org/dependencyDiagnostics';
@@ -620,6 +624,15 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register Refile commands (move/copy subtrees to target headings)
     registerRefileCommands(context);
 
+    // Register org-crypt commands (encrypted :crypt: subtrees, re-encrypted on save)
+    registerCryptCommands(context);
+
+    // Register column view (editable grid of heading properties)
+    registerColumnViewCommands(context);
+
+    // Register table plots (#+PLOT: charts in a webview)
+    registerTablePlotCommands(context);
+
     // Register Speed Commands (single-key shortcuts at heading start)
     registerSpeedCommands(context);
 
@@ -662,6 +675,9 @@ export async function activate(context: vscode.ExtensionContext) {
     // Object-level back-links via Find All References + a "N references" CodeLens.
     registerBacklinksProvider(context);
 
+    // Workspace-wide rename (F2) of CUSTOM_IDs, IDs, targets and #+NAMEs with their references.
+    registerOrgRenameProvider(context);
+
     // TODO task dependencies (org-depend style): authoring commands, the
     // blocked/ready CodeLens, and the dependency tree view.
     registerDependencyCommands(context);
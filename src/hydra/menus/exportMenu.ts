@@ -93,6 +93,14 @@ export const exportMenu: HydraMenuDefinition = {
                     exit: 'submenu',
                     action: 'scimax.export.beamer',
                 },
+                {
+                    key: 'r',
+                    label: 'reveal.js slides',
+                    description: 'Export to reveal.js HTML slides',
+                    icon: 'preview',
+                    exit: 'submenu',
+                    action: 'scimax.export.revealjs',
+                },
                 {
                     key: 'm',
                     label: 'Markdown exports',
@@ -109,6 +117,14 @@ export const exportMenu: HydraMenuDefinition = {
                     exit: 'submenu',
                     action: 'scimax.export.docx',
                 },
+                {
+                    key: 'o',
+                    label: 'OpenDocument text',
+                    description: 'Export to LibreOffice Writer (.odt)',
+                    icon: 'file',
+                    exit: 'submenu',
+                    action: 'scimax.export.odt',
+                },
                 {
                     key: 'j',
                     label: 'Jupyter Notebook',
@@ -276,12 +292,54 @@ export const beamerExportMenu: HydraMenuDefinition = {
     ],
 };
 
+/**
+ * reveal.js export submenu
+ */
+export const revealExportMenu: HydraMenuDefinition = {
+    id: 'scimax.export.revealjs',
+    title: 'reveal.js Export',
+    hint: 'Assets load from scimax.export.revealjs.root unless bundled',
+    parent: 'scimax.export',
+    groups: [
+        {
+            items: [
+                {
+                    key: 'r',
+                    label: 'reveal.js slides',
+                    description: 'Export to .html presentation',
+                    icon: 'preview',
+                    exit: 'exit',
+                    action: 'scimax.org.exportRevealJs',
+                },
+                {
+                    key: 'o',
+                    label: 'reveal.js and open',
+                    description: 'Export and open in browser',
+                    icon: 'link-external',
+                    exit: 'exit',
+                    action: 'scimax.org.exportRevealJsOpen',
+                },
+                {
+                    key: 'l',
+                    label: 'Offline slides',
+                    description: 'Bundle reveal.js assets next to the .html',
+                    icon: 'package',
+                    exit: 'exit',
+                    action: 'scimax.org.exportRevealJs',
+                    args: [true],
+                },
+            ],
+        },
+    ],
+};
+
 /**
  * Markdown export submenu
  */
 export const markdownExportMenu: HydraMenuDefinition = {
     id: 'scimax.export.markdown',
     title: 'Markdown Export',
+    hint: 'Default flavor is set by scimax.export.markdown.flavor',
     parent: 'scimax.export',
     groups: [
         {
@@ -304,6 +362,38 @@ export const markdownExportMenu: HydraMenuDefinition = {
                 },
             ],
         },
+        {
+            title: 'Flavors',
+            items: [
+                {
+                    key: 'g',
+                    label: 'GitHub Markdown',
+                    description: 'GFM with pipe tables, task lists and alerts',
+                    icon: 'github',
+                    exit: 'exit',
+                    action: 'scimax.org.exportMarkdown',
+                    args: ['gfm'],
+                },
+                {
+                    key: 'h',
+                    label: 'Hugo',
+                    description: 'TOML front matter, figure shortcodes',
+                    icon: 'globe',
+                    exit: 'exit',
+                    action: 'scimax.org.exportMarkdown',
+                    args: ['hugo'],
+                },
+                {
+                    key: 's',
+                    label: 'MyST',
+                    description: 'Directives, roles and {cite} citations',
+                    icon: 'book',
+                    exit: 'exit',
+                    action: 'scimax.org.exportMarkdown',
+                    args: ['myst'],
+                },
+            ],
+        },
     ],
 };
 
@@ -337,6 +427,52 @@ export const docxExportMenu: HydraMenuDefinition = {
                 },
             ],
         },
+        {
+            title: 'Styles',
+            items: [
+                {
+                    key: 'r',
+                    label: 'Reference document',
+                    description: 'Save a reference.docx to restyle exports',
+                    icon: 'symbol-color',
+                    exit: 'exit',
+                    action: 'scimax.org.createReferenceDocx',
+                },
+            ],
+        },
+    ],
+};
+
+/**
+ * ODT export submenu
+ * Export to OpenDocument Text (.odt) format
+ */
+export const odtExportMenu: HydraMenuDefinition = {
+    id: 'scimax.export.odt',
+    title: 'OpenDocument Text Export',
+    hint: 'Export to LibreOffice Writer format',
+    parent: 'scimax.export',
+    groups: [
+        {
+            items: [
+                {
+                    key: 'o',
+                    label: 'ODT document',
+                    description: 'Export to .odt file',
+                    icon: 'file',
+                    exit: 'exit',
+                    action: 'scimax.org.exportOdt',
+                },
+                {
+                    key: 'O',
+                    label: 'ODT and open',
+                    description: 'Export and open in LibreOffice',
+                    icon: 'link-external',
+                    exit: 'exit',
+                    action: 'scimax.org.exportOdtOpen',
+                },
+            ],
+        },
     ],
 };
 
@@ -620,8 +756,10 @@ export const exportMenus: HydraMenuDefinition[] = [
     htmlExportMenu,
     latexExportMenu,
     beamerExportMenu,
+    revealExportMenu,
     markdownExportMenu,
     docxExportMenu,
+    odtExportMenu,
     jupyterExportMenu,
     clipboardExportMenu,
     ...mdExportMenus,
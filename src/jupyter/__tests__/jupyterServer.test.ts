@@ -0,0 +1,436 @@
+/**
+ * Tests for running kernels on a Jupyter server: the REST client, the
+ * WebSocket kernel connection and the kernel manager's server mode, against
+ * a small fake server
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    parseServerUrl,
+    JupyterServerClient,
+    JupyterServerError,
+} from '../jupyterServer';
+import { RemoteKernelConnection, decodeBinaryMessage, REPLY_TIMEOUT } from '../remoteKernelConnection';
+import { KernelManager } from '../kernelManager';
+import { selectKernelForLanguage } from '../kernelSpec';
+import type { KernelSpec } from '../types';
+
+const TOKEN = 'secret-token';
+
+const KERNELSPECS = {
+    default: 'python3',
+    kernelspecs: {
+        python3: {
+            name: 'python3',
+            resources: {},
+            spec: { argv: ['python', '-m', 'ipykernel_launcher'], display_name: 'Python 3 (ipykernel)', language: 'python' },
+        },
+        ir: {
+            name: 'ir',
+            resources: {},
+            spec: { argv: ['R'], display_name: 'R', language: 'R' },
+        },
+    },
+};
+
+interface FakeKernel {
+    id: string;
+    name: string;
+    executionCount: number;
+}
+
+/**
+ * Just enough of the Jupyter server API: kernel specs, kernels, sessions and
+ * a channels WebSocket whose kernel evaluates `print(...)` and integers
+ */
+class FakeJupyterServer {
+    kernels = new Map<string, FakeKernel>();
+    sessions = new Map<string, { id: string; name: string; path: string; type: string; kernel: FakeKernel }>();
+    requests: string[] = [];
+    sockets = new Set<WebSocket>();
+    private server = http.createServer((req, res) => this.handleHttp(req, res));
+    private wss = new WebSocketServer({ noServer: true });
+
+    get baseUrl(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`;
+    }
+
+    async start(): Promise<void> {
+        this.server.on('upgrade', (req, socket, head) => {
+            const match = req.url?.match(/^\/api\/kernels\/([^/]+)\/channels/);
+            const kernel = match && this.kernels.get(match[1]);
+            if (!kernel || req.headers.authorization !== `token ${TOKEN}`) {
+                socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+                return;
+            }
+            this.wss.handleUpgrade(req, socket, head, ws => {
+                this.sockets.add(ws);
+                ws.on('close', () => this.sockets.delete(ws));
+                ws.on('message', data => this.handleKernelMessage(ws, kernel, JSON.parse(data.toString())));
+            });
+        });
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    async stop(): Promise<void> {
+        for (const ws of this.sockets) ws.terminate();
+        this.wss.close();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+
+    private startKernel(name: string): FakeKernel {
+        const kernel = { id: uuidv4(), name, executionCount: 0 };
+        this.kernels.set(kernel.id, kernel);
+        return kernel;
+    }
+
+    private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            this.requests.push(`${req.method} ${req.url}`);
+            const send = (status: number, json?: unknown) => {
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(json === undefined ? '' : JSON.stringify(json));
+            };
+            if (req.headers.authorization !== `token ${TOKEN}`) {
+                send(403, { message: 'Forbidden' });
+                return;
+            }
+
+            const url = req.url ?? '';
+            let match: RegExpMatchArray | null;
+            if (req.method === 'GET' && url === '/api/kernelspecs') {
+                send(200, KERNELSPECS);
+            } else if (req.method === 'GET' && url === '/api/kernels') {
+                send(200, [...this.kernels.values()].map(({ id, name }) => ({ id, name, execution_state: 'idle' })));
+            } else if (req.method === 'POST' && url === '/api/kernels') {
+                const kernel = this.startKernel(JSON.parse(body).name);
+                send(201, { id: kernel.id, name: kernel.name });
+            } else if ((match = url.match(/^\/api\/kernels\/([^/]+)(\/\w+)?$/))) {
+                const kernel = this.kernels.get(match[1]);
+                if (!kernel) {
+                    send(404, { message: `Kernel does not exist: ${match[1]}` });
+                } else if (req.method === 'DELETE') {
+                    this.kernels.delete(kernel.id);
+                    send(204);
+                } else if (req.method === 'POST' && match[2] === '/restart') {
+                    kernel.executionCount = 0;
+                    send(200, { id: kernel.id, name: kernel.name });
+                } else if (req.method === 'POST' && match[2] === '/interrupt') {
+                    send(204);
+                } else {
+                    send(200, { id: kernel.id, name: kernel.name, execution_state: 'idle' });
+                }
+            } else if (req.method === 'GET' && url === '/api/sessions') {
+                send(200, [...this.sessions.values()].map(s => ({ ...s, kernel: { id: s.kernel.id, name: s.kernel.name } })));
+            } else if (req.method === 'POST' && url === '/api/sessions') {
+                const { name, path, type, kernel: { name: specName } } = JSON.parse(body);
+                if (!(specName in KERNELSPECS.kernelspecs)) {
+                    send(500, { message: `No such kernel named ${specName}` });
+                    return;
+                }
+                const kernel = this.startKernel(specName);
+                const session = { id: uuidv4(), name, path, type, kernel };
+                this.sessions.set(session.id, session);
+                send(201, { ...session, kernel: { id: kernel.id, name: kernel.name } });
+            } else if (req.method === 'DELETE' && (match = url.match(/^\/api\/sessions\/([^/]+)$/))) {
+                const session = this.sessions.get(match[1]);
+                if (session) {
+                    this.sessions.delete(session.id);
+                    this.kernels.delete(session.kernel.id);
+                }
+                send(session ? 204 : 404);
+            } else {
+                send(404, { message: 'Not found' });
+            }
+        });
+    }
+
+    private handleKernelMessage(ws: WebSocket, kernel: FakeKernel, message: any): void {
+        const reply = (channel: string, msgType: string, content: unknown) => {
+            ws.send(JSON.stringify({
+                channel,
+                header: { msg_id: uuidv4(), msg_type: msgType, session: 'kernel', username: 'kernel', date: '', version: '5.3' },
+                parent_header: message.header,
+                metadata: {},
+                content,
+                buffers: [],
+            }));
+        };
+
+        switch (message.header.msg_type) {
+            case 'execute_request': {
+                const code: string = message.content.code;
+                const count = ++kernel.executionCount;
+                reply('iopub', 'status', { execution_state: 'busy' });
+                const printed = code.match(/^print\((.*)\)$/);
+                if (printed) {
+                    reply('iopub', 'stream', { name: 'stdout', text: `${printed[1]}\n` });
+                } else if (/^\d+$/.test(code)) {
+                    reply('iopub', 'execute_result', { execution_count: count, data: { 'text/plain': code }, metadata: {} });
+                } else {
+                    reply('iopub', 'error', { ename: 'NameError', evalue: code, traceback: [] });
+                    reply('iopub', 'status', { execution_state: 'idle' });
+                    reply('shell', 'execute_reply', { status: 'error', execution_count: count, ename: 'NameError', evalue: code, traceback: [] });
+                    return;
+                }
+                reply('iopub', 'status', { execution_state: 'idle' });
+                reply('shell', 'execute_reply', { status: 'ok', execution_count: count });
+                break;
+            }
+            case 'complete_request':
+                reply('shell', 'complete_reply', {
+                    status: 'ok', matches: ['print'], cursor_start: 0, cursor_end: message.content.cursor_pos, metadata: {},
+                });
+                break;
+            case 'kernel_info_request':
+                reply('shell', 'kernel_info_reply', { status: 'ok', protocol_version: '5.3', implementation: 'fake' });
+                break;
+        }
+    }
+}
+
+describe('parseServerUrl', () => {
+    it('splits the token from URLs printed by jupyter server', () => {
+        expect(parseServerUrl('http://127.0.0.1:8888/lab?token=abc123')).toEqual({
+            baseUrl: 'http://127.0.0.1:8888/',
+            token: 'abc123',
+        });
+        expect(parseServerUrl(' https://hub.example.org/user/me/tree/notebooks ')).toEqual({
+            baseUrl: 'https://hub.example.org/user/me/',
+            token: undefined,
+        });
+        expect(parseServerUrl('http://localhost:8888').baseUrl).toBe('http://localhost:8888/');
+    });
+
+    it('refuses URLs that are not http(s)', () => {
+        expect(() => parseServerUrl('ftp://example.org/')).toThrow(/Not an http/);
+        expect(() => parseServerUrl('not a url')).toThrow();
+    });
+});
+
+describe('JupyterServerClient', () => {
+    it('builds channel URLs under the base path', () => {
+        const client = new JupyterServerClient({ baseUrl: 'https://hub.example.org/user/me', token: 't' });
+
+        expect(client.channelsUrl('k-1', 's-1')).toBe('wss://hub.example.org/user/me/api/kernels/k-1/channels?session_id=s-1');
+        expect(client.authHeaders()).toEqual({ Authorization: 'token t' });
+        expect(new JupyterServerClient({ baseUrl: 'http://h/' }).authHeaders()).toEqual({});
+    });
+});
+
+describe('decodeBinaryMessage', () => {
+    it('reads the message and its buffers', () => {
+        const json = Buffer.from(JSON.stringify({ channel: 'iopub', header: { msg_type: 'comm_msg' } }));
+        const extra = Buffer.from([1, 2, 3]);
+        const head = Buffer.alloc(12);
+        head.writeUInt32BE(2, 0);
+        head.writeUInt32BE(12, 4);
+        head.writeUInt32BE(12 + json.length, 8);
+
+        const message = decodeBinaryMessage(Buffer.concat([head, json, extra]));
+
+        expect(message?.channel).toBe('iopub');
+        expect(message?.buffers).toEqual([extra]);
+        expect(decodeBinaryMessage(Buffer.from([0, 0]))).toBeNull();
+    });
+});
+
+describe('selectKernelForLanguage', () => {
+    it('matches remote specs by language', () => {
+        const specs = new Map<string, KernelSpec>([
+            ['ir', { name: 'ir', displayName: 'R', language: 'R', resourceDir: '', argv: ['/missing/R'] }],
+            ['python3', { name: 'python3', displayName: 'Python 3', language: 'python', resourceDir: '', argv: [] }],
+        ]);
+
+        expect(selectKernelForLanguage(specs, 'r')?.name).toBe('ir');
+        expect(selectKernelForLanguage(specs, 'python')?.name).toBe('python3');
+        expect(selectKernelForLanguage(specs, 'julia')).toBeNull();
+    });
+});
+
+describe('Jupyter server', () => {
+    let server: FakeJupyterServer;
+    let client: JupyterServerClient;
+
+    beforeEach(async () => {
+        server = new FakeJupyterServer();
+        await server.start();
+        client = new JupyterServerClient({ baseUrl: server.baseUrl, token: TOKEN });
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    describe('REST API', () => {
+        it('lists kernel specs', async () => {
+            const specs = await client.listKernelSpecs();
+
+            expect([...specs.keys()]).toEqual(['python3', 'ir']);
+            expect(specs.get('python3')).toMatchObject({ displayName: 'Python 3 (ipykernel)', language: 'python' });
+        });
+
+        it('creates and deletes sessions', async () => {
+            const session = await client.createSession('analysis', 'analysis', 'python3');
+
+            expect((await client.listSessions()).map(s => s.name)).toEqual(['analysis']);
+            expect(await client.getKernel(session.kernel.id)).toMatchObject({ name: 'python3' });
+
+            await client.deleteSession(session.id);
+            expect(await client.getKernel(session.kernel.id)).toBeNull();
+        });
+
+        it('reports server errors with their status and message', async () => {
+            const anonymous = new JupyterServerClient({ baseUrl: server.baseUrl });
+
+            await expect(anonymous.listKernels()).rejects.toThrow(/403.*Forbidden/);
+            await expect(client.createSession('x', 'x', 'nope')).rejects.toBeInstanceOf(JupyterServerError);
+        });
+
+        it('reports unreachable servers', async () => {
+            const closed = new JupyterServerClient({ baseUrl: 'http://127.0.0.1:1/' });
+
+            await expect(closed.listKernels()).rejects.toThrow(/Cannot reach Jupyter server/);
+        });
+    });
+
+    describe('RemoteKernelConnection', () => {
+        it('executes code and collects IOPub output', async () => {
+            const kernel = await client.startKernel('python3');
+            const states: string[] = [];
+            const connection = new RemoteKernelConnection(client, kernel.id, { onStatus: state => states.push(state) });
+            await connection.connect();
+
+            const printed = await connection.execute('print(hello)');
+            const value = await connection.execute('42');
+            const failed = await connection.execute('undefined_name');
+
+            expect(printed.stdout).toBe('hello\n');
+            expect(value.result?.data['text/plain']).toBe('42');
+            expect(value.executionCount).toBe(2);
+            expect(failed.error?.ename).toBe('NameError');
+            expect(states).toContain('busy');
+            expect(connection.getState()).toBe('idle');
+
+            const completion = await connection.complete('pri', 3);
+            expect(completion.matches).toEqual(['print']);
+
+            await connection.disconnect();
+            expect(connection.isConnected()).toBe(false);
+        });
+
+        it('fails to connect without the token', async () => {
+            const kernel = await client.startKernel('python3');
+            const anonymous = new JupyterServerClient({ baseUrl: server.baseUrl });
+
+            await expect(new RemoteKernelConnection(anonymous, kernel.id).connect()).rejects.toThrow(/403/);
+        });
+
+        it('reports a lost connection', async () => {
+            const kernel = await client.startKernel('python3');
+            let closed = '';
+            const connection = new RemoteKernelConnection(client, kernel.id, { onClose: reason => { closed = reason; } });
+            await connection.connect();
+
+            for (const ws of server.sockets) ws.terminate();
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(closed).toMatch(/closed/);
+            expect(connection.isConnected()).toBe(false);
+            await expect(connection.execute('1')).rejects.toThrow(/Not connected/);
+        });
+
+        it('gives up on requests the kernel does not answer', async () => {
+            const kernel = await client.startKernel('python3');
+            const connection = new RemoteKernelConnection(client, kernel.id);
+            await connection.connect();
+
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            try {
+                // The fake kernel has no inspect_reply
+                const inspected = expect(connection.inspect('x', 1)).rejects.toThrow(/did not answer inspect_request/);
+                await vi.advanceTimersByTimeAsync(REPLY_TIMEOUT);
+                await inspected;
+            } finally {
+                vi.useRealTimers();
+                await connection.disconnect();
+            }
+        });
+    });
+
+    describe('KernelManager in server mode', () => {
+        let manager: KernelManager;
+
+        beforeEach(() => {
+            manager = new KernelManager();
+            manager.setServer({ baseUrl: server.baseUrl, token: TOKEN });
+        });
+
+        afterEach(async () => {
+            await manager.shutdownAll();
+        });
+
+        it('starts kernels in server sessions and shuts them down', async () => {
+            const output = await manager.executeOnSession('python-default', 'python', 'print(remote)');
+
+            expect(output.stdout).toBe('remote\n');
+            const kernelId = manager.getKernelForSession('python-default')!;
+            expect(manager.getKernelInfo(kernelId)).toMatchObject({ server: server.baseUrl, sessionId: 'python-default' });
+            expect([...server.sessions.values()].map(s => s.name)).toEqual(['python-default']);
+
+            await manager.stopKernel(kernelId);
+            expect(server.sessions.size).toBe(0);
+            expect(server.kernels.size).toBe(0);
+        });
+
+        it('restarts and interrupts through the REST API', async () => {
+            const kernelId = await manager.startKernel('python', 'work');
+            await manager.execute(kernelId, '1');
+
+            expect(await manager.restartKernel(kernelId)).toBe(kernelId);
+            await manager.interruptKernel(kernelId);
+
+            expect((await manager.execute(kernelId, '7')).executionCount).toBe(1);
+            expect(server.requests).toContain(`POST /api/kernels/${kernelId}/restart`);
+            expect(server.requests).toContain(`POST /api/kernels/${kernelId}/interrupt`);
+        });
+
+        it('attaches to running kernels and leaves them running', async () => {
+            const running = await client.startKernel('python3');
+
+            const kernelId = await manager.attachKernel(running.id, 'shared');
+            expect(kernelId).toBe(running.id);
+            expect((await manager.executeOnSession('shared', 'python', '5')).result?.data['text/plain']).toBe('5');
+
+            await manager.stopKernel(kernelId);
+            expect(manager.getKernelForSession('shared')).toBeUndefined();
+            expect(server.kernels.has(running.id)).toBe(true);
+        });
+
+        it('finds kernel specs on the server', async () => {
+            expect((await manager.findKernelSpec('r'))?.name).toBe('ir');
+            expect((await manager.getAvailableKernels()).map(spec => spec.name)).toEqual(['python3', 'ir']);
+            await expect(manager.startKernel('cobol', 'x')).rejects.toThrow(/No kernel found for: cobol on http/);
+        });
+
+        it('forgets kernels when the server drops the connection', async () => {
+            const kernelId = await manager.startKernel('python', 'fragile');
+            const stopped: string[] = [];
+            manager.on('kernelStopped', id => stopped.push(id));
+            manager.on('kernelError', () => { /* expected */ });
+
+            for (const ws of server.sockets) ws.terminate();
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            expect(stopped).toEqual([kernelId]);
+            expect(manager.getKernelInfo(kernelId)).toBeNull();
+            expect(manager.getKernelForSession('fragile')).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for kernel-backed assistance in Jupyter source blocks: locating
+ * blocks, cursor conversion, and rendering kernel replies
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    findJupyterBlockAt,
+    toKernelCursor,
+    fromKernelCursor,
+    kernelCompletions,
+    parseInspectText,
+    inspectMarkdown,
+    docstringMarkdown,
+    findCallAt,
+    signatureParameters,
+    activeParameterIndex,
+} from '../kernelAssist';
+import { getJupyterSessionName } from '../jupyterExecutor';
+
+const DOC = [
+    '* Analysis',
+    '#+BEGIN_SRC jupyter-python :session fit',
+    'import numpy as np',
+    'x = np.arange(10)',
+    '#+END_SRC',
+    '',
+    '#+BEGIN_SRC python',
+    'print(1)',
+    '#+END_SRC',
+].join('\n');
+
+// IPython's object inspector output, colors included
+const MEAN_INSPECTION = [
+    '\x1b[0;31mSignature:\x1b[0m \x1b[0mnp\x1b[0m\x1b[0;34m.\x1b[0m\x1b[0mmean\x1b[0m\x1b[0;34m(\x1b[0m\x1b[0ma\x1b[0m\x1b[0;34m,\x1b[0m \x1b[0maxis\x1b[0m\x1b[0;34m=\x1b[0m\x1b[0;32mNone\x1b[0m\x1b[0;34m)\x1b[0m',
+    '\x1b[0;31mDocstring:\x1b[0m',
+    'Compute the arithmetic mean along the specified axis.',
+    '',
+    'Parameters',
+    '----------',
+    'a : array_like',
+    '    Array containing numbers whose mean is desired.',
+    '',
+    'Examples',
+    '--------',
+    '>>> np.mean([1, 2])',
+    '1.5',
+    '\x1b[0;31mFile:\x1b[0m      ~/numpy/core/fromnumeric.py',
+    '\x1b[0;31mType:\x1b[0m      function',
+].join('\n');
+
+describe('findJupyterBlockAt', () => {
+    it('finds the jupyter block around a code line', () => {
+        expect(findJupyterBlockAt(DOC, 3)).toEqual({
+            language: 'jupyter-python',
+            parameters: ':session fit',
+            code: 'import numpy as np\nx = np.arange(10)',
+            codeStartLine: 2,
+        });
+    });
+
+    it('ignores delimiter lines, text and other languages', () => {
+        expect(findJupyterBlockAt(DOC, 1)).toBeNull();
+        expect(findJupyterBlockAt(DOC, 4)).toBeNull();
+        expect(findJupyterBlockAt(DOC, 5)).toBeNull();
+        expect(findJupyterBlockAt(DOC, 7)).toBeNull();
+    });
+
+    it('names the session the executor runs the block in', () => {
+        expect(getJupyterSessionName('jupyter-python', 'fit')).toBe('fit');
+        expect(getJupyterSessionName('jupyter-python')).toBe('python-default');
+        expect(getJupyterSessionName('jupyter-jl')).toBe('julia-default');
+    });
+});
+
+describe('kernel cursors', () => {
+    it('counts code points, as the messaging protocol does', () => {
+        const code = 'a = "😀"\nb = a.up';
+
+        expect(toKernelCursor(code, 1, 8)).toBe(16);
+        expect(fromKernelCursor(code, 16)).toEqual({ line: 1, character: 8 });
+        expect(fromKernelCursor(code, 6)).toEqual({ line: 0, character: 7 });
+    });
+});
+
+describe('kernelCompletions', () => {
+    it('uses typed matches when the kernel sends them', () => {
+        const completions = kernelCompletions({
+            status: 'ok',
+            matches: ['np.mean', 'np.median'],
+            cursor_start: 4,
+            cursor_end: 9,
+            metadata: {
+                _jupyter_types_experimental: [
+                    { text: 'np.mean', type: 'function', signature: '(a, axis=None)', start: 4, end: 9 },
+                    { text: 'np.median', type: '<unknown>', start: 4, end: 9 },
+                ],
+            },
+        });
+
+        expect(completions).toEqual([
+            { text: 'np.mean', type: 'function', signature: '(a, axis=None)', start: 4, end: 9 },
+            { text: 'np.median', type: undefined, signature: undefined, start: 4, end: 9 },
+        ]);
+    });
+
+    it('falls back to plain matches', () => {
+        expect(kernelCompletions({ status: 'ok', matches: ['abs'], cursor_start: 0, cursor_end: 2, metadata: {} }))
+            .toEqual([{ text: 'abs', start: 0, end: 2 }]);
+        expect(kernelCompletions({ status: 'error', matches: ['abs'], cursor_start: 0, cursor_end: 2, metadata: {} }))
+            .toEqual([]);
+    });
+});
+
+describe('inspection', () => {
+    it('splits IPython inspections into fields', () => {
+        const fields = parseInspectText(MEAN_INSPECTION);
+
+        expect(fields.get('Signature')).toBe('np.mean(a, axis=None)');
+        expect(fields.get('Type')).toBe('function');
+        expect(fields.get('Docstring')).toMatch(/^Compute the arithmetic mean/);
+        expect(fields.get('Docstring')).toMatch(/1\.5$/);
+    });
+
+    it('renders docstrings as markdown', () => {
+        expect(docstringMarkdown('Mean.\n\nParameters\n----------\na : array_like\n\n>>> mean([1, 2])\n1.5')).toBe(
+            'Mean.\n\n**Parameters**\na : array_like\n\n```python\n>>> mean([1, 2])\n1.5\n```'
+        );
+    });
+
+    it('renders the signature, type and docstring', () => {
+        const markdown = inspectMarkdown({ 'text/plain': MEAN_INSPECTION })!;
+
+        expect(markdown).toMatch(/^```python\nnp\.mean\(a, axis=None\)\n```\n\n\*function\*\n\nCompute/);
+        expect(markdown).toContain('**Examples**');
+        expect(inspectMarkdown({ 'text/markdown': '# mean' })).toBe('# mean');
+        expect(inspectMarkdown({ 'text/plain': 'x = 1' })).toBe('```text\nx = 1\n```');
+        expect(inspectMarkdown({})).toBeNull();
+    });
+});
+
+describe('signature help', () => {
+    it('finds the call and argument around the cursor', () => {
+        const code = 'y = np.mean(x, axis=';
+
+        expect(findCallAt(code, code.length)).toEqual({ calleeEnd: 11, activeParameter: 1, keyword: 'axis' });
+        expect(findCallAt('f(a, g(b), ', 11)).toEqual({ calleeEnd: 1, activeParameter: 2 });
+        expect(findCallAt('f(a, g(b', 8)).toEqual({ calleeEnd: 6, activeParameter: 0 });
+    });
+
+    it('skips strings, comments and literals', () => {
+        expect(findCallAt('f("a, b", ', 10)).toEqual({ calleeEnd: 1, activeParameter: 1 });
+        expect(findCallAt('f("a, (', 7)).toBeNull();
+        expect(findCallAt('x = (1, ', 8)).toBeNull();
+        expect(findCallAt('x = [f, ', 8)).toBeNull();
+        expect(findCallAt('if (a, ', 7)).toBeNull();
+        expect(findCallAt('f(a,  # call(\n b', 16)).toEqual({ calleeEnd: 1, activeParameter: 1 });
+    });
+
+    it('picks the parameter an argument fills', () => {
+        const signature = 'np.mean(a, axis=None, *, keepdims=<no value>, **kwargs)';
+        const params = signatureParameters(signature);
+
+        expect(params.map(([start, end]) => signature.slice(start, end)))
+            .toEqual(['a', 'axis=None', 'keepdims=<no value>', '**kwargs']);
+        expect(activeParameterIndex(signature, params, { calleeEnd: 7, activeParameter: 1 })).toBe(1);
+        expect(activeParameterIndex(signature, params, { calleeEnd: 7, activeParameter: 1, keyword: 'keepdims' })).toBe(2);
+        expect(activeParameterIndex(signature, params, { calleeEnd: 7, activeParameter: 1, keyword: 'dtype' })).toBe(3);
+
+        const varargs = 'print(*values, sep=" ,", end="\\n")';
+        const varParams = signatureParameters(varargs);
+        expect(varParams.map(([start, end]) => varargs.slice(start, end))).toEqual(['*values', 'sep=" ,"', 'end="\\n"']);
+        expect(activeParameterIndex(varargs, varParams, { calleeEnd: 5, activeParameter: 3 })).toBe(0);
+    });
+});
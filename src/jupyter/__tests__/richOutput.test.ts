@@ -0,0 +1,182 @@
+/**
+ * Tests for rendering Jupyter MIME bundles as org results
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    parseDisplayHeader,
+    selectMimeType,
+    renderMimeBundle,
+    latexToOrg,
+    markdownToOrg,
+    chartKindOfPath,
+    chartHtml,
+    embedJupyterCharts,
+    MAX_INLINE_HTML_LENGTH,
+} from '../richOutput';
+
+const PLOTLY_SPEC = { data: [{ x: [1, 2], y: [3, 4], type: 'scatter' }], layout: { title: 'a' } };
+
+describe('selectMimeType', () => {
+    const bundle = {
+        'text/plain': '<Figure>',
+        'text/html': '<div></div>',
+        'image/png': 'iVBORw0KGgo=',
+        'application/vnd.plotly.v1+json': PLOTLY_SPEC,
+    };
+
+    it('prefers charts, then images, then markup, then text', () => {
+        expect(selectMimeType(bundle)).toBe('application/vnd.plotly.v1+json');
+        expect(selectMimeType({ 'text/plain': 'x', 'text/latex': '$x$' })).toBe('text/latex');
+        expect(selectMimeType({ 'text/plain': 'x', 'text/html': null })).toBe('text/plain');
+    });
+
+    it('follows the :display header, by MIME type or short name', () => {
+        expect(selectMimeType(bundle, parseDisplayHeader('png plain')!)).toBe('image/png');
+        expect(selectMimeType(bundle, parseDisplayHeader('text/html')!)).toBe('text/html');
+        expect(selectMimeType(bundle, parseDisplayHeader('plotly')!)).toBe('application/vnd.plotly.v1+json');
+        expect(selectMimeType(bundle, parseDisplayHeader('latex')!)).toBeNull();
+    });
+
+    it('reads no order from an empty header', () => {
+        expect(parseDisplayHeader(undefined)).toBeNull();
+        expect(parseDisplayHeader('  ')).toBeNull();
+        expect(parseDisplayHeader('html, plain')).toEqual(['html', 'plain']);
+    });
+});
+
+describe('renderMimeBundle', () => {
+    it('saves charts as JSON specs, whether sent as objects or strings', () => {
+        expect(renderMimeBundle({ 'application/vnd.plotly.v1+json': PLOTLY_SPEC })).toEqual({
+            kind: 'file', extension: '.plotly.json', content: JSON.stringify(PLOTLY_SPEC),
+        });
+        expect(renderMimeBundle({ 'application/vnd.vegalite.v4+json': '{"mark":"bar"}' })).toEqual({
+            kind: 'file', extension: '.vl.json', content: '{"mark":"bar"}',
+        });
+    });
+
+    it('decodes images', () => {
+        const rendered = renderMimeBundle({ 'image/png': 'aGVsbG8=' });
+        expect(rendered?.kind).toBe('file');
+        expect(rendered?.kind === 'file' && rendered.content.toString()).toBe('hello');
+    });
+
+    it('puts HTML in an export block unless it is too long', () => {
+        expect(renderMimeBundle({ 'text/html': ['<b>', 'x</b>\n'] })).toEqual({
+            kind: 'org', text: '#+BEGIN_EXPORT html\n<b>x</b>\n#+END_EXPORT',
+        });
+        const long = `<p>${'x'.repeat(MAX_INLINE_HTML_LENGTH)}</p>`;
+        expect(renderMimeBundle({ 'text/html': long })).toEqual({ kind: 'file', extension: '.html', content: long });
+    });
+
+    it('returns null when nothing wanted is in the bundle', () => {
+        expect(renderMimeBundle({ 'text/plain': 'x' }, ['html'])).toBeNull();
+    });
+});
+
+describe('latexToOrg', () => {
+    it('writes display math as \\[...\\]', () => {
+        expect(latexToOrg('$$x^2$$')).toBe('\\[x^2\\]');
+        expect(latexToOrg('\\frac{1}{2}')).toBe('\\[\\frac{1}{2}\\]');
+    });
+
+    it('keeps delimited LaTeX', () => {
+        expect(latexToOrg('$x$')).toBe('$x$');
+        expect(latexToOrg('\\begin{align}a\\end{align}')).toBe('\\begin{align}a\\end{align}');
+    });
+});
+
+describe('markdownToOrg', () => {
+    it('converts inline markup and links', () => {
+        expect(markdownToOrg('**bold**, *it*, `code` and ~~gone~~')).toBe('*bold*, /it/, ~code~ and +gone+');
+        expect(markdownToOrg('see [docs](https://example.com/a_b_c) and ![](plot.png)'))
+            .toBe('see [[https://example.com/a_b_c][docs]] and [[plot.png]]');
+        expect(markdownToOrg('snake_case_name stays')).toBe('snake_case_name stays');
+    });
+
+    it('converts headings, lists, quotes and code blocks', () => {
+        const markdown = [
+            '## Result',
+            '* one',
+            '> quoted',
+            '```python',
+            'x = **y',
+            '```',
+        ].join('\n');
+
+        expect(markdownToOrg(markdown)).toBe([
+            '*Result*',
+            '- one',
+            '#+BEGIN_QUOTE',
+            'quoted',
+            '#+END_QUOTE',
+            '#+BEGIN_SRC python',
+            'x = **y',
+            '#+END_SRC',
+        ].join('\n'));
+    });
+
+    it('converts table separators', () => {
+        expect(markdownToOrg('| a | b |\n|---|:-:|\n| 1 | 2 |')).toBe('| a | b |\n|-\n| 1 | 2 |');
+    });
+});
+
+describe('chartKindOfPath', () => {
+    it('reads the kind from the file suffix', () => {
+        expect(chartKindOfPath('/x/out.plotly.json')).toBe('plotly');
+        expect(chartKindOfPath('a.VL.json')).toBe('vega-lite');
+        expect(chartKindOfPath('a.vg.json')).toBe('vega');
+        expect(chartKindOfPath('a.json')).toBeNull();
+    });
+});
+
+describe('chartHtml', () => {
+    it('keeps strings in the spec from closing the script', () => {
+        const html = chartHtml('plotly', { layout: { title: '</script><b>' } }, 'c1', []);
+
+        expect(html).not.toContain('</script><b>');
+        expect(html).toContain('\\u003c/script>');
+        expect(html).toContain('Plotly.newPlot("c1"');
+    });
+});
+
+describe('embedJupyterCharts', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rich-output-'));
+        fs.mkdirSync(path.join(dir, '.ob-jupyter'));
+        fs.writeFileSync(path.join(dir, '.ob-jupyter', 'a.plotly.json'), JSON.stringify(PLOTLY_SPEC));
+        fs.writeFileSync(path.join(dir, '.ob-jupyter', 'b.plotly.json'), JSON.stringify(PLOTLY_SPEC));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('replaces chart links with export blocks, loading libraries once', () => {
+        const content = [
+            '#+RESULTS:',
+            '[[file:./.ob-jupyter/a.plotly.json]]',
+            'text [[./.ob-jupyter/b.plotly.json]] inline',
+            '[[./.ob-jupyter/b.plotly.json]]',
+        ].join('\n');
+
+        const result = embedJupyterCharts(content, dir);
+
+        expect(result.match(/#\+BEGIN_EXPORT html/g)).toHaveLength(2);
+        expect(result.match(/plotly\.min\.js/g)).toHaveLength(1);
+        expect(result).toContain('id="org-jupyter-chart-1"');
+        expect(result).toContain('id="org-jupyter-chart-2"');
+        expect(result).toContain('text [[./.ob-jupyter/b.plotly.json]] inline');
+    });
+
+    it('leaves links to missing files alone', () => {
+        const content = '[[./.ob-jupyter/missing.vl.json]]';
+
+        expect(embedJupyterCharts(content, dir)).toBe(content);
+    });
+});
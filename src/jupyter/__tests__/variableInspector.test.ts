@@ -0,0 +1,99 @@
+/**
+ * Tests for kernel variable introspection: snippet generation and reading
+ * the results kernels print
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    INSPECTOR_MARKER,
+    inspectorLanguage,
+    isVariableName,
+    listVariablesCode,
+    variablePageCode,
+    parseInspectorOutput,
+    describeVariableSize,
+    variablePageToOrgTable,
+    type KernelVariable,
+    type VariablePage,
+} from '../variableInspector';
+
+const FRAME: KernelVariable = {
+    name: 'df',
+    type: 'DataFrame',
+    shape: [100, 3],
+    length: null,
+    repr: 'a b c 0 1 2 3 ...',
+    tabular: true,
+};
+
+describe('inspectorLanguage', () => {
+    it('maps kernel spec languages', () => {
+        expect(inspectorLanguage('python')).toBe('python');
+        expect(inspectorLanguage('julia')).toBe('julia');
+        expect(inspectorLanguage('R')).toBe('r');
+        expect(inspectorLanguage('javascript')).toBeNull();
+    });
+});
+
+describe('snippets', () => {
+    it('print their result behind the marker in every language', () => {
+        for (const language of ['python', 'julia', 'r'] as const) {
+            expect(listVariablesCode(language)).toContain(INSPECTOR_MARKER);
+            expect(variablePageCode(language, 'df', 50, 50)).toContain(INSPECTOR_MARKER);
+        }
+    });
+
+    it('look variables up by quoted name', () => {
+        expect(variablePageCode('python', 'df', 50, 25)).toContain('_scimax_variable_page("df", 50, 25)');
+        expect(variablePageCode('julia', 'x!', 0, 10)).toContain('getfield(Main, Symbol("x!"))');
+        expect(variablePageCode('r', 'my.data', 0, 10)).toContain('get("my.data", envir = globalenv())');
+    });
+
+    it('refuse names that are not identifiers', () => {
+        expect(isVariableName('données_2')).toBe(true);
+        expect(isVariableName('a"); rm(b')).toBe(false);
+        expect(isVariableName('$(run())')).toBe(false);
+        expect(() => variablePageCode('julia', 'x$y', 0, 10)).toThrow(/Not a variable name/);
+    });
+});
+
+describe('parseInspectorOutput', () => {
+    it('reads the marker line and ignores other output', () => {
+        const stdout = `Warning: something\n${INSPECTOR_MARKER}[{"name":"x","type":"int","shape":null,"length":null,"repr":"1","tabular":false}]\r\n`;
+
+        expect(parseInspectorOutput<KernelVariable[]>(stdout)).toEqual([
+            { name: 'x', type: 'int', shape: null, length: null, repr: '1', tabular: false },
+        ]);
+    });
+
+    it('returns null without a marker or with broken JSON', () => {
+        expect(parseInspectorOutput('hello\n')).toBeNull();
+        expect(parseInspectorOutput(`${INSPECTOR_MARKER}[{"name":`)).toBeNull();
+    });
+});
+
+describe('describeVariableSize', () => {
+    it('prefers shapes to lengths', () => {
+        expect(describeVariableSize(FRAME)).toBe('100 × 3');
+        expect(describeVariableSize({ ...FRAME, shape: null, length: 5 })).toBe('len 5');
+        expect(describeVariableSize({ ...FRAME, shape: [], length: null })).toBe('');
+    });
+});
+
+describe('variablePageToOrgTable', () => {
+    it('puts the column names in a header and pads short rows', () => {
+        const page: VariablePage = {
+            columns: ['', 'name', 'value'],
+            rows: [['0', 'a|b', '1.5'], ['1', 'c']],
+            total: 2,
+            offset: 0,
+        };
+
+        expect(variablePageToOrgTable(page)).toBe([
+            '|  | name | value |',
+            '|-',
+            '| 0 | a\\vert{}b | 1.5 |',
+            '| 1 | c |  |',
+        ].join('\n'));
+    });
+});
@@ -4,10 +4,13 @@
 
 import * as vscode from 'vscode';
 import { getKernelManager, disposeKernelManager } from './kernelManager';
-import { discoverKernelSpecsViaJupyter, findKernelForLanguage } from './kernelSpec';
-import { jupyterExecutor, shouldUseJupyter } from './jupyterExecutor';
+import { jupyterExecutor, shouldUseJupyter, getJupyterSessionName } from './jupyterExecutor';
 import { isZmqAvailable, getZmqLoadError } from './kernelConnection';
+import { parseServerUrl } from './jupyterServer';
+import { registerKernelLanguageFeatures } from './kernelLanguageFeatures';
+import { registerVariableExplorer } from './variableExplorer';
 import { executorRegistry } from '../parser/orgBabel';
+import { getJupyterServerToken, storeJupyterServerToken } from '../database/secretStorage';
 import type { KernelSpec, KernelState } from './types';
 
 // Track if ZeroMQ is available
@@ -18,6 +21,11 @@ let zmqAvailable = false;
  * Check ZeroMQ availability and show error if not available
  */
 async function checkZmqAvailability(): Promise<boolean> {
+    // Kernels on a Jupyter server are reached over WebSockets
+    if (getKernelManager().getServer()) {
+        return true;
+    }
+
     if (!zmqChecked) {
         zmqAvailable = await isZmqAvailable();
         zmqChecked = true;
@@ -72,7 +80,7 @@ let statusBarItem: vscode.StatusBarItem | null = null;
 /**
  * Create or update status bar item
  */
-function updateStatusBar(state: KernelState, language?: string): void {
+function updateStatusBar(state: KernelState, language?: string, server?: string): void {
     if (!statusBarItem) {
         statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Right,
@@ -87,7 +95,7 @@ function updateStatusBar(state: KernelState, language?: string): void {
         : '$(question)';
 
     statusBarItem.text = `${icon} Jupyter${language ? `: ${language}` : ''}`;
-    statusBarItem.tooltip = `Kernel state: ${state}`;
+    statusBarItem.tooltip = server ? `Kernel state: ${state}\nServer: ${server}` : `Kernel state: ${state}`;
     statusBarItem.command = 'scimax.jupyter.showKernels';
     statusBarItem.show();
 }
@@ -125,28 +133,37 @@ function getOutputChannel(): vscode.OutputChannel {
  * Show available kernels and allow selection
  */
 async function showAvailableKernels(): Promise<void> {
-    const specs = await discoverKernelSpecsViaJupyter();
+    const manager = getKernelManager();
+    const server = manager.getServer();
+    let specs: KernelSpec[];
+    try {
+        specs = await manager.getAvailableKernels();
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to list kernels: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
 
     const items: Array<vscode.QuickPickItem & { spec: KernelSpec }> = [];
-    for (const spec of specs.values()) {
+    for (const spec of specs) {
         items.push({
             label: spec.displayName,
             description: spec.language,
-            detail: spec.resourceDir,
+            detail: server ? server.baseUrl : spec.resourceDir,
             spec,
         });
     }
 
     if (items.length === 0) {
-        vscode.window.showWarningMessage(
-            'No Jupyter kernels found. Install kernels with: pip install ipykernel'
+        vscode.window.showWarningMessage(server
+            ? `No Jupyter kernels found on ${server.baseUrl}`
+            : 'No Jupyter kernels found. Install kernels with: pip install ipykernel'
         );
         return;
     }
 
     const selected = await vscode.window.showQuickPick(items, {
         placeHolder: 'Select a kernel to start',
-        title: 'Available Jupyter Kernels',
+        title: server ? `Jupyter Kernels on ${server.baseUrl}` : 'Available Jupyter Kernels',
     });
 
     if (selected) {
@@ -172,7 +189,7 @@ async function startKernelForSpec(spec: KernelSpec): Promise<void> {
     try {
         const kernelId = await manager.startKernel(spec.name);
         channel.appendLine(`Kernel started: ${kernelId}`);
-        updateStatusBar('idle', spec.language);
+        updateStatusBar('idle', spec.language, manager.getKernelInfo(kernelId)?.server);
         vscode.window.showInformationMessage(`Jupyter kernel started: ${spec.displayName}`);
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -320,11 +337,18 @@ function showKernelInfo(kernelId: string): void {
     channel.appendLine(`Name: ${info.spec.name}`);
     channel.appendLine(`Language: ${info.spec.language}`);
     channel.appendLine(`State: ${info.state}`);
-    channel.appendLine(`PID: ${info.pid || 'unknown'}`);
     channel.appendLine(`Session: ${info.sessionId}`);
-    channel.appendLine(`IP: ${info.connection.ip}`);
-    channel.appendLine(`Shell Port: ${info.connection.shell_port}`);
-    channel.appendLine(`IOPub Port: ${info.connection.iopub_port}`);
+    if (info.server) {
+        channel.appendLine(`Server: ${info.server}`);
+        channel.appendLine(`Kernel ID: ${kernelId}`);
+    } else {
+        channel.appendLine(`PID: ${info.pid || 'unknown'}`);
+    }
+    if (info.connection) {
+        channel.appendLine(`IP: ${info.connection.ip}`);
+        channel.appendLine(`Shell Port: ${info.connection.shell_port}`);
+        channel.appendLine(`IOPub Port: ${info.connection.iopub_port}`);
+    }
     channel.appendLine('='.repeat(60));
     channel.show();
 }
@@ -379,7 +403,7 @@ async function startKernelForCurrentFile(): Promise<void> {
     }
 
     // Find kernel for language
-    const spec = await findKernelForLanguage(language);
+    const spec = await getKernelManager().findKernelSpec(language);
     if (!spec) {
         vscode.window.showWarningMessage(`No Jupyter kernel found for: ${language}`);
         return;
@@ -392,10 +416,10 @@ async function startKernelForCurrentFile(): Promise<void> {
  * Change kernel for session
  */
 async function changeKernel(): Promise<void> {
-    const specs = await discoverKernelSpecsViaJupyter();
+    const specs = await getKernelManager().getAvailableKernels();
 
     const items: Array<vscode.QuickPickItem & { spec: KernelSpec }> = [];
-    for (const spec of specs.values()) {
+    for (const spec of specs) {
         items.push({
             label: spec.displayName,
             description: spec.language,
@@ -443,6 +467,166 @@ async function changeKernel(): Promise<void> {
     }
 }
 
+// =============================================================================
+// Jupyter Server
+// =============================================================================
+
+/**
+ * Point the kernel manager at the server in the `scimax.jupyter.serverUrl`
+ * setting, with its stored token, or at local kernels when the setting is empty
+ */
+async function applyServerSetting(): Promise<void> {
+    const manager = getKernelManager();
+    const serverUrl = vscode.workspace.getConfiguration('scimax.jupyter').get<string>('serverUrl', '').trim();
+
+    if (!serverUrl) {
+        manager.setServer(null);
+        return;
+    }
+
+    try {
+        const { baseUrl, token } = parseServerUrl(serverUrl);
+        manager.setServer({ baseUrl, token: token || await getJupyterServerToken(baseUrl) });
+    } catch (error) {
+        manager.setServer(null);
+        vscode.window.showErrorMessage(`Invalid scimax.jupyter.serverUrl: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Ask for a server URL and token, check them, and run new kernels there
+ */
+async function connectToServer(): Promise<void> {
+    const current = getKernelManager().getServer();
+    const input = await vscode.window.showInputBox({
+        title: 'Connect to Jupyter Server',
+        prompt: 'Server URL, e.g. the http://127.0.0.1:8888/?token=... URL printed by jupyter server',
+        value: current?.baseUrl ?? 'http://127.0.0.1:8888/',
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            try {
+                parseServerUrl(value);
+                return null;
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+            }
+        },
+    });
+    if (!input) return;
+
+    const { baseUrl, token: urlToken } = parseServerUrl(input);
+    let token = urlToken;
+    if (token === undefined) {
+        token = await vscode.window.showInputBox({
+            title: 'Connect to Jupyter Server',
+            prompt: `API token for ${baseUrl} (leave empty if the server needs none)`,
+            value: await getJupyterServerToken(baseUrl) ?? '',
+            password: true,
+            ignoreFocusOut: true,
+        });
+        if (token === undefined) return;
+    }
+
+    // Check the server answers before switching to it
+    const manager = getKernelManager();
+    const previous = vscode.workspace.getConfiguration('scimax.jupyter').get<string>('serverUrl', '');
+    manager.setServer({ baseUrl, token });
+    let specs: KernelSpec[];
+    try {
+        specs = await manager.getAvailableKernels();
+    } catch (error) {
+        await applyServerSetting();
+        vscode.window.showErrorMessage(`Could not connect to ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    // The token goes to secret storage, the URL (without token) to settings
+    await storeJupyterServerToken(baseUrl, token);
+    if (previous !== baseUrl) {
+        await vscode.workspace.getConfiguration('scimax.jupyter').update('serverUrl', baseUrl, vscode.ConfigurationTarget.Global);
+    }
+
+    vscode.window.showInformationMessage(
+        `Jupyter kernels now run on ${baseUrl} (${specs.length} kernel spec${specs.length === 1 ? '' : 's'})`
+    );
+}
+
+/**
+ * Run new kernels locally again
+ */
+async function useLocalKernels(): Promise<void> {
+    await vscode.workspace.getConfiguration('scimax.jupyter').update('serverUrl', '', vscode.ConfigurationTarget.Global);
+    getKernelManager().setServer(null);
+    vscode.window.showInformationMessage('Jupyter kernels now run locally. Kernels on the server keep running until shut down.');
+}
+
+/**
+ * Pick a kernel running on the server and attach a session to it
+ */
+async function attachToServerKernel(): Promise<void> {
+    const manager = getKernelManager();
+    const server = manager.getServer();
+    if (!server) {
+        const action = await vscode.window.showWarningMessage(
+            'Not connected to a Jupyter server',
+            'Connect to Server'
+        );
+        if (action) {
+            await connectToServer();
+        }
+        return;
+    }
+
+    let items: Array<vscode.QuickPickItem & { kernelId: string; kernelName: string }>;
+    try {
+        const [kernels, sessions] = await Promise.all([server.listKernels(), server.listSessions()]);
+        items = kernels.map(kernel => {
+            const session = sessions.find(s => s.kernel.id === kernel.id);
+            return {
+                label: session ? (session.name || session.path) : kernel.name,
+                description: `${kernel.name} (${kernel.execution_state ?? 'unknown'})`,
+                detail: session ? `${session.type}: ${session.path} · Kernel ID: ${kernel.id}` : `Kernel ID: ${kernel.id}`,
+                kernelId: kernel.id,
+                kernelName: kernel.name,
+            };
+        });
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to list kernels: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    if (items.length === 0) {
+        vscode.window.showInformationMessage(`No kernels running on ${server.baseUrl}`);
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select a kernel to attach to',
+        title: `Running Kernels on ${server.baseUrl}`,
+    });
+    if (!selected) return;
+
+    // Blocks without :session use <language>-default
+    const specs = await server.listKernelSpecs().catch(() => new Map<string, KernelSpec>());
+    const language = specs.get(selected.kernelName)?.language ?? 'python';
+    const sessionName = await vscode.window.showInputBox({
+        title: 'Attach to Jupyter Kernel',
+        prompt: 'Org session to run on this kernel (the :session header; blocks without one use <language>-default)',
+        value: getJupyterSessionName(language),
+        ignoreFocusOut: true,
+    });
+    if (!sessionName) return;
+
+    try {
+        const kernelId = await manager.attachKernel(selected.kernelId, sessionName);
+        const info = manager.getKernelInfo(kernelId);
+        updateStatusBar(info?.state ?? 'idle', info?.spec.language, info?.server);
+        vscode.window.showInformationMessage(`Session ${sessionName} attached to ${selected.label}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to attach to kernel: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 // =============================================================================
 // Registration
 // =============================================================================
@@ -462,14 +646,34 @@ export function registerJupyterCommands(context: vscode.ExtensionContext): void
     // Register Jupyter executor
     registerJupyterExecutor();
 
+    // Completion, hover and signature help from running kernels
+    registerKernelLanguageFeatures(context);
+
+    // Variables of the running kernels
+    registerVariableExplorer(context);
+
     // Set up kernel manager event handlers
     const manager = getKernelManager();
 
     manager.on('kernelStateChanged', (kernelId: string, state: KernelState) => {
         const info = manager.getKernelInfo(kernelId);
-        updateStatusBar(state, info?.spec.language);
+        updateStatusBar(state, info?.spec.language, info?.server);
+    });
+
+    manager.on('kernelError', (kernelId: string, error: Error) => {
+        getOutputChannel().appendLine(`Kernel ${kernelId}: ${error.message}`);
     });
 
+    // Kernels run on the configured Jupyter server, if any
+    applyServerSetting();
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('scimax.jupyter.serverUrl')) {
+                applyServerSetting();
+            }
+        })
+    );
+
     manager.on('kernelStopped', () => {
         const sessions = manager.getSessions();
         if (sessions.length === 0) {
@@ -524,6 +728,9 @@ export function registerJupyterCommands(context: vscode.ExtensionContext): void
             }
         }),
         vscode.commands.registerCommand('scimax.jupyter.shutdownAll', shutdownAllKernels),
+        vscode.commands.registerCommand('scimax.jupyter.connectServer', connectToServer),
+        vscode.commands.registerCommand('scimax.jupyter.useLocalKernels', useLocalKernels),
+        vscode.commands.registerCommand('scimax.jupyter.attachKernel', attachToServerKernel),
     );
 
     // Cleanup on deactivation
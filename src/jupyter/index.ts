@@ -1,11 +1,18 @@
 /**
  * Jupyter Kernel Support for Org-mode
- * Provides native ZMQ-based Jupyter kernel integration
+ * Provides native ZMQ-based Jupyter kernel integration, and kernels on
+ * Jupyter servers over the REST and WebSocket APIs
  */
 
 export * from './types';
 export * from './kernelSpec';
 export * from './kernelConnection';
+export * from './jupyterServer';
+export * from './remoteKernelConnection';
 export * from './kernelManager';
 export * from './jupyterExecutor';
+export * from './kernelAssist';
+export * from './kernelLanguageFeatures';
+export * from './variableInspector';
+export * from './variableExplorer';
 export * from './commands';
@@ -10,7 +10,7 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { getKernelManager } from './kernelManager';
-import { findKernelForLanguage } from './kernelSpec';
+import { renderMimeBundle, parseDisplayHeader, type RenderedOutput } from './richOutput';
 import type { ExecutionOutput, DisplayDataContent } from './types';
 import type { LanguageExecutor, ExecutionResult, ExecutionContext } from '../parser/orgBabel';
 
@@ -95,9 +95,29 @@ function getKernelLanguage(orgLanguage: string): string {
 }
 
 /**
- * Convert Jupyter output to Babel execution result
+ * Name of the kernel session a block runs in: its :session, or one default
+ * session per kernel language
  */
-function convertOutput(output: ExecutionOutput, context: ExecutionContext): ExecutionResult {
+export function getJupyterSessionName(orgLanguage: string, session?: string): string {
+    return session || `${getKernelLanguage(orgLanguage)}-default`;
+}
+
+/**
+ * A display rendered into the results: a saved file, org markup, or text
+ * to show with the printed output
+ */
+type DisplayOutput = { file: string } | { org: string } | { text: string };
+
+/**
+ * Convert Jupyter output to Babel execution result. `saved` holds the
+ * displays already rendered (and their files written) while the run was
+ * streaming.
+ */
+function convertOutput(
+    output: ExecutionOutput,
+    context: ExecutionContext,
+    saved: Map<DisplayDataContent, DisplayOutput | null> = new Map()
+): ExecutionResult {
     // Check for error
     if (output.error) {
         return {
@@ -111,35 +131,31 @@ function convertOutput(output: ExecutionOutput, context: ExecutionContext): Exec
 
     // Collect result text
     let resultText = output.stdout;
-
-    // Add execute result if present
-    if (output.result) {
-        const data = output.result.data;
-
-        // Prefer text/plain for inline results
-        if (data['text/plain']) {
+    const files: string[] = [];
+    const rich: string[] = [];
+
+    const add = (rendered: DisplayOutput | null) => {
+        if (!rendered) return;
+        if ('file' in rendered) {
+            files.push(rendered.file);
+        } else if ('org' in rendered) {
+            rich.push(rendered.org);
+        } else {
             if (resultText && !resultText.endsWith('\n')) {
                 resultText += '\n';
             }
-            resultText += data['text/plain'];
+            resultText += rendered.text;
         }
-    }
+    };
 
-    // Handle rich output (images, HTML, etc.)
-    const files: string[] = [];
+    // Displays (plots, HTML, ...) in the order they were shown
     for (const displayData of output.displayData) {
-        const file = saveDisplayData(displayData, context);
-        if (file) {
-            files.push(file);
-        }
+        add(saved.has(displayData) ? saved.get(displayData)! : renderDisplayData(displayData.data, context));
     }
 
-    // Also check result for images
+    // Then the value of the last expression, in its richest format
     if (output.result) {
-        const file = saveDisplayData(output.result, context);
-        if (file) {
-            files.push(file);
-        }
+        add(renderDisplayData(output.result.data, context));
     }
 
     return {
@@ -149,6 +165,7 @@ function convertOutput(output: ExecutionOutput, context: ExecutionContext): Exec
         executionTime: 0,
         resultType: files.length > 0 ? 'file' : 'output',
         files,
+        rich: rich.length > 0 ? rich : undefined,
     };
 }
 
@@ -176,61 +193,33 @@ function generateOutputFilename(extension: string): string {
 }
 
 /**
- * Save display data (images, etc.) to .ob-jupyter directory
- * Returns the relative path from the document directory
+ * Render a MIME bundle in the format the block's `:display` header (or the
+ * default order) prefers. Images, chart specs and long HTML are saved to the
+ * .ob-jupyter directory and returned as paths relative to the document
+ * directory.
  */
-function saveDisplayData(
-    displayData: DisplayDataContent | { data: Record<string, string> },
-    context: ExecutionContext
-): string | null {
-    const data = displayData.data;
-    const baseDir = context.cwd || process.cwd();
-    const outputDir = getJupyterOutputDir(baseDir);
-
-    // PNG image (most common for matplotlib, etc.)
-    if (data['image/png']) {
-        const filename = generateOutputFilename('.png');
-        const filepath = path.join(outputDir, filename);
-        const buffer = Buffer.from(data['image/png'], 'base64');
-        fs.writeFileSync(filepath, buffer);
-        return `.ob-jupyter/${filename}`;
+function renderDisplayData(bundle: Record<string, unknown>, context: ExecutionContext): DisplayOutput | null {
+    let rendered: RenderedOutput | null;
+    try {
+        rendered = renderMimeBundle(bundle, parseDisplayHeader(context.headers?.display) ?? undefined);
+    } catch {
+        // A malformed chart spec; fall back to its text form
+        rendered = renderMimeBundle(bundle, ['text/plain']);
     }
-
-    // SVG image
-    if (data['image/svg+xml']) {
-        const filename = generateOutputFilename('.svg');
-        const filepath = path.join(outputDir, filename);
-        fs.writeFileSync(filepath, data['image/svg+xml']);
-        return `.ob-jupyter/${filename}`;
-    }
-
-    // JPEG image
-    if (data['image/jpeg']) {
-        const filename = generateOutputFilename('.jpg');
-        const filepath = path.join(outputDir, filename);
-        const buffer = Buffer.from(data['image/jpeg'], 'base64');
-        fs.writeFileSync(filepath, buffer);
-        return `.ob-jupyter/${filename}`;
-    }
-
-    // PDF
-    if (data['application/pdf']) {
-        const filename = generateOutputFilename('.pdf');
-        const filepath = path.join(outputDir, filename);
-        const buffer = Buffer.from(data['application/pdf'], 'base64');
-        fs.writeFileSync(filepath, buffer);
-        return `.ob-jupyter/${filename}`;
-    }
-
-    // HTML (save as file for complex HTML output)
-    if (data['text/html'] && data['text/html'].length > 1000) {
-        const filename = generateOutputFilename('.html');
-        const filepath = path.join(outputDir, filename);
-        fs.writeFileSync(filepath, data['text/html']);
-        return `.ob-jupyter/${filename}`;
+    if (!rendered) return null;
+
+    switch (rendered.kind) {
+        case 'file': {
+            const outputDir = getJupyterOutputDir(context.cwd || process.cwd());
+            const filename = generateOutputFilename(rendered.extension);
+            fs.writeFileSync(path.join(outputDir, filename), rendered.content);
+            return { file: `.ob-jupyter/${filename}` };
+        }
+        case 'org':
+            return { org: rendered.text };
+        case 'text':
+            return { text: rendered.text };
     }
-
-    return null;
 }
 
 /**
@@ -258,15 +247,19 @@ export const jupyterExecutor: LanguageExecutor = {
         const language = getKernelLanguage(rawLanguage);
 
         // Determine session name
-        const sessionName = context.session || `${language}-default`;
+        const sessionName = getJupyterSessionName(rawLanguage, context.session);
 
         try {
-            // Check if kernel is available for this language
-            const kernelSpec = await findKernelForLanguage(language);
-            if (!kernelSpec) {
+            // Check if kernel is available for this language (on the
+            // Jupyter server in server mode), unless the session is running
+            const server = manager.getServer();
+            const available = manager.getKernelForSession(sessionName) || await manager.findKernelSpec(language);
+            if (!available) {
                 return {
                     success: false,
-                    error: new Error(`No Jupyter kernel found for language: ${language}`),
+                    error: new Error(server
+                        ? `No Jupyter kernel found for language: ${language} on ${server.baseUrl}`
+                        : `No Jupyter kernel found for language: ${language}`),
                 };
             }
 
@@ -279,23 +272,48 @@ export const jupyterExecutor: LanguageExecutor = {
                 fullCode = varDefs + '\n' + code;
             }
 
+            // Images are saved as they arrive so they can be streamed
+            const saved = new Map<DisplayDataContent, DisplayOutput | null>();
+            const onOutput = context.onOutput;
+
+            // Cancelling interrupts the kernel; the session survives
+            const onAbort = () => {
+                const kernelId = manager.getKernelForSession(sessionName);
+                if (kernelId) {
+                    manager.interruptKernel(kernelId).catch(() => { /* kernel already gone */ });
+                }
+            };
+            context.signal?.addEventListener('abort', onAbort);
+
             // Execute code
             const startTime = Date.now();
-            const output = await manager.executeOnSession(
-                sessionName,
-                language,
-                fullCode,
-                {
-                    silent: false,
-                    storeHistory: true,
-                },
-                context.cwd
-            );
-
-            const result = convertOutput(output, context);
-            result.executionTime = Date.now() - startTime;
-
-            return result;
+            try {
+                const output = await manager.executeOnSession(
+                    sessionName,
+                    language,
+                    fullCode,
+                    {
+                        silent: false,
+                        storeHistory: true,
+                        onStream: onOutput && ((name, text) => onOutput({ stream: name, text })),
+                        onDisplayData: onOutput && ((data) => {
+                            const rendered = renderDisplayData(data.data, context);
+                            saved.set(data, rendered);
+                            if (rendered && 'file' in rendered) {
+                                onOutput({ file: rendered.file });
+                            }
+                        }),
+                    },
+                    context.cwd
+                );
+
+                const result = convertOutput(output, context, saved);
+                result.executionTime = Date.now() - startTime;
+
+                return result;
+            } finally {
+                context.signal?.removeEventListener('abort', onAbort);
+            }
         } catch (error) {
             return {
                 success: false,
@@ -355,7 +373,7 @@ export function createJupyterExecutor(language: string): LanguageExecutor {
 
         async isAvailable(): Promise<boolean> {
             try {
-                const spec = await findKernelForLanguage(kernelLanguage);
+                const spec = await getKernelManager().findKernelSpec(kernelLanguage);
                 return spec !== null;
             } catch {
                 return false;
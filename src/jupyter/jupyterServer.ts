@@ -0,0 +1,283 @@
+/**
+ * Jupyter Server REST API Client
+ * Lists, starts and stops kernels and sessions on a running Jupyter server
+ * (JupyterLab, Notebook 7 or `jupyter server`)
+ * https://jupyter-server.readthedocs.io/en/latest/developers/rest-api.html
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { kernelSpecsFromListing } from './kernelSpec';
+import type { KernelSpec } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Where a Jupyter server is and how to authenticate
+ */
+export interface JupyterServerOptions {
+    /** Base URL of the server, e.g. http://127.0.0.1:8888/ or https://hub.example.org/user/me/ */
+    baseUrl: string;
+    /** API token, if the server requires one */
+    token?: string;
+}
+
+/**
+ * Kernel model from /api/kernels
+ */
+export interface RemoteKernelModel {
+    /** Kernel ID */
+    id: string;
+    /** Kernel spec name */
+    name: string;
+    /** Last activity (ISO 8601) */
+    last_activity?: string;
+    /** Execution state, e.g. idle or busy */
+    execution_state?: string;
+    /** Number of open WebSocket connections */
+    connections?: number;
+}
+
+/**
+ * Session model from /api/sessions
+ */
+export interface RemoteSessionModel {
+    /** Session ID */
+    id: string;
+    /** Path the session is for, relative to the server root */
+    path: string;
+    /** Session name */
+    name: string;
+    /** Session type: notebook, console or file */
+    type: string;
+    /** Kernel of the session */
+    kernel: RemoteKernelModel;
+}
+
+/**
+ * Error response from the server
+ */
+export class JupyterServerError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'JupyterServerError';
+    }
+}
+
+// =============================================================================
+// URL Handling
+// =============================================================================
+
+/**
+ * Split a server URL as printed by `jupyter server` or copied from the
+ * browser (`http://host:8888/lab?token=abc`) into a base URL and token.
+ * UI paths (lab, tree, notebooks) are dropped from the base URL.
+ */
+export function parseServerUrl(input: string): JupyterServerOptions {
+    const url = new URL(input.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Not an http(s) URL: ${input}`);
+    }
+
+    const token = url.searchParams.get('token') || undefined;
+    let pathname = url.pathname.replace(/\/(lab|tree|notebooks|doc)(\/.*)?$/, '/');
+    if (!pathname.endsWith('/')) pathname += '/';
+
+    return { baseUrl: `${url.protocol}//${url.host}${pathname}`, token };
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+const REQUEST_TIMEOUT = 30000;
+
+/**
+ * REST client for one Jupyter server
+ */
+export class JupyterServerClient {
+    private readonly base: URL;
+    private readonly token?: string;
+
+    constructor(options: JupyterServerOptions) {
+        this.base = new URL(options.baseUrl.endsWith('/') ? options.baseUrl : `${options.baseUrl}/`);
+        this.token = options.token || undefined;
+    }
+
+    /**
+     * Base URL of the server
+     */
+    public get baseUrl(): string {
+        return this.base.href;
+    }
+
+    /**
+     * Headers that authenticate a request
+     */
+    public authHeaders(): Record<string, string> {
+        return this.token ? { Authorization: `token ${this.token}` } : {};
+    }
+
+    /**
+     * WebSocket URL of a kernel's channels. `sessionId` identifies this client
+     * in the messages it sends.
+     */
+    public channelsUrl(kernelId: string, sessionId: string): string {
+        const url = new URL(`api/kernels/${encodeURIComponent(kernelId)}/channels`, this.base);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        url.searchParams.set('session_id', sessionId);
+        return url.href;
+    }
+
+    /**
+     * Kernel specs installed on the server
+     */
+    public async listKernelSpecs(): Promise<Map<string, KernelSpec>> {
+        const result = await this.request<{ kernelspecs?: Record<string, unknown> }>('GET', 'api/kernelspecs');
+        return kernelSpecsFromListing(result.kernelspecs);
+    }
+
+    /**
+     * Running kernels
+     */
+    public listKernels(): Promise<RemoteKernelModel[]> {
+        return this.request('GET', 'api/kernels');
+    }
+
+    /**
+     * One running kernel, or null if it is gone
+     */
+    public async getKernel(kernelId: string): Promise<RemoteKernelModel | null> {
+        try {
+            return await this.request('GET', `api/kernels/${encodeURIComponent(kernelId)}`);
+        } catch (error) {
+            if (error instanceof JupyterServerError && error.status === 404) return null;
+            throw error;
+        }
+    }
+
+    /**
+     * Start a kernel without a session
+     */
+    public startKernel(specName: string): Promise<RemoteKernelModel> {
+        return this.request('POST', 'api/kernels', { name: specName });
+    }
+
+    /**
+     * Shut a kernel down
+     */
+    public async shutdownKernel(kernelId: string): Promise<void> {
+        await this.request('DELETE', `api/kernels/${encodeURIComponent(kernelId)}`);
+    }
+
+    /**
+     * Interrupt a kernel
+     */
+    public async interruptKernel(kernelId: string): Promise<void> {
+        await this.request('POST', `api/kernels/${encodeURIComponent(kernelId)}/interrupt`);
+    }
+
+    /**
+     * Restart a kernel; it keeps its ID and open connections
+     */
+    public restartKernel(kernelId: string): Promise<RemoteKernelModel> {
+        return this.request('POST', `api/kernels/${encodeURIComponent(kernelId)}/restart`);
+    }
+
+    /**
+     * Sessions, each with its kernel
+     */
+    public listSessions(): Promise<RemoteSessionModel[]> {
+        return this.request('GET', 'api/sessions');
+    }
+
+    /**
+     * Create a session with a new kernel. The server starts the kernel in the
+     * directory of `path`, or its root if that directory does not exist.
+     */
+    public createSession(name: string, path: string, specName: string, type: string = 'console'): Promise<RemoteSessionModel> {
+        return this.request('POST', 'api/sessions', { name, path, type, kernel: { name: specName } });
+    }
+
+    /**
+     * Delete a session, shutting its kernel down
+     */
+    public async deleteSession(sessionId: string): Promise<void> {
+        await this.request('DELETE', `api/sessions/${encodeURIComponent(sessionId)}`);
+    }
+
+    /**
+     * Send a request and parse the JSON reply (undefined for empty replies)
+     */
+    private request<T>(method: string, apiPath: string, body?: unknown): Promise<T> {
+        const url = new URL(apiPath, this.base);
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+        const transport = url.protocol === 'https:' ? https : http;
+
+        return new Promise((resolve, reject) => {
+            const req = transport.request(url, {
+                method,
+                headers: {
+                    'Accept': 'application/json',
+                    ...(payload !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                    ...this.authHeaders(),
+                },
+                timeout: REQUEST_TIMEOUT,
+            }, (res) => {
+                let data = '';
+
+                res.setEncoding('utf-8');
+                res.on('data', (chunk) => {
+                    data += chunk;
+                });
+
+                res.on('end', () => {
+                    const status = res.statusCode ?? 0;
+                    if (status < 200 || status >= 300) {
+                        reject(new JupyterServerError(
+                            `Jupyter server: ${method} ${url.pathname} failed (${status}): ${serverErrorMessage(data) || res.statusMessage}`,
+                            status
+                        ));
+                        return;
+                    }
+                    if (!data.trim()) {
+                        resolve(undefined as T);
+                        return;
+                    }
+                    try {
+                        resolve(JSON.parse(data) as T);
+                    } catch {
+                        reject(new Error(`Jupyter server: ${method} ${url.pathname} returned invalid JSON`));
+                    }
+                });
+            });
+
+            req.on('error', (error) => {
+                reject(new Error(`Cannot reach Jupyter server at ${this.baseUrl}: ${error.message}`));
+            });
+
+            req.on('timeout', () => {
+                req.destroy(new Error('request timed out'));
+            });
+
+            if (payload !== undefined) {
+                req.write(payload);
+            }
+            req.end();
+        });
+    }
+}
+
+/**
+ * The message in a server error reply ({"message": ...} or {"reason": ...})
+ */
+function serverErrorMessage(body: string): string {
+    try {
+        const json = JSON.parse(body);
+        return json.message || json.reason || '';
+    } catch {
+        return '';
+    }
+}
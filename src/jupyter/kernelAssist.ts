@@ -0,0 +1,403 @@
+/**
+ * Kernel-backed editor assistance for Jupyter source blocks
+ *
+ * Locates the jupyter-* block around the cursor, converts editor positions to
+ * kernel cursor offsets (Unicode code points, as the messaging protocol
+ * counts them), and turns complete_reply and inspect_reply content into
+ * completion items, markdown documentation and signatures. No VS Code
+ * dependency; the providers live in kernelLanguageFeatures.ts.
+ */
+
+import { isExplicitJupyter } from './jupyterExecutor';
+import type { CompleteReplyContent } from './types';
+
+// =============================================================================
+// Blocks and cursors
+// =============================================================================
+
+/**
+ * A jupyter-* source block containing the cursor
+ */
+export interface JupyterBlockAt {
+    /** Block language, e.g. jupyter-python */
+    language: string;
+    /** Header arguments after the language */
+    parameters: string;
+    /** The block's code */
+    code: string;
+    /** Document line of the first code line */
+    codeStartLine: number;
+}
+
+/**
+ * Find the jupyter-* source block whose code contains `line` (0-based)
+ */
+export function findJupyterBlockAt(text: string, line: number): JupyterBlockAt | null {
+    const lines = text.split(/\r?\n/);
+    let open: { line: number; language: string; parameters: string } | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const begin = lines[i].match(/^\s*#\+BEGIN_SRC\s+(\S+)(.*)$/i);
+        if (begin) {
+            if (i >= line) return null;
+            open = { line: i, language: begin[1], parameters: (begin[2] || '').trim() };
+            continue;
+        }
+        if (open && /^\s*#\+END_SRC\s*$/i.test(lines[i])) {
+            if (i > line) {
+                if (!isExplicitJupyter(open.language)) return null;
+                return {
+                    language: open.language,
+                    parameters: open.parameters,
+                    code: lines.slice(open.line + 1, i).join('\n'),
+                    codeStartLine: open.line + 1,
+                };
+            }
+            open = null;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Kernel cursor offset (in code points) of a position in the block's code
+ */
+export function toKernelCursor(code: string, line: number, character: number): number {
+    const lines = code.split('\n');
+    let offset = 0;
+    for (let i = 0; i < line && i < lines.length; i++) {
+        offset += lines[i].length + 1;
+    }
+    return Array.from(code.slice(0, offset + character)).length;
+}
+
+/**
+ * Position in the block's code (line, UTF-16 character) of a kernel cursor offset
+ */
+export function fromKernelCursor(code: string, cursor: number): { line: number; character: number } {
+    let line = 0;
+    let character = 0;
+    let index = 0;
+    for (const ch of code) {
+        if (index >= cursor) break;
+        if (ch === '\n') {
+            line++;
+            character = 0;
+        } else {
+            character += ch.length;
+        }
+        index++;
+    }
+    return { line, character };
+}
+
+// =============================================================================
+// Completion
+// =============================================================================
+
+/**
+ * A completion from the kernel; `start` and `end` are kernel cursor offsets
+ * of the text it replaces
+ */
+export interface KernelCompletion {
+    text: string;
+    /** Jedi/IPython type: function, class, module, instance, keyword, ... */
+    type?: string;
+    signature?: string;
+    start: number;
+    end: number;
+}
+
+interface TypedMatch {
+    text?: string;
+    type?: string;
+    signature?: string;
+    start?: number;
+    end?: number;
+}
+
+/**
+ * Completions of a complete_reply, with IPython's experimental types and
+ * signatures when the kernel sends them
+ */
+export function kernelCompletions(reply: CompleteReplyContent): KernelCompletion[] {
+    if (reply.status !== 'ok') return [];
+
+    const typed = reply.metadata?._jupyter_types_experimental as TypedMatch[] | undefined;
+    if (Array.isArray(typed) && typed.length === reply.matches.length) {
+        return typed.map((match, i) => ({
+            text: match.text ?? reply.matches[i],
+            type: match.type && match.type !== '<unknown>' ? match.type : undefined,
+            signature: match.signature || undefined,
+            start: match.start ?? reply.cursor_start,
+            end: match.end ?? reply.cursor_end,
+        }));
+    }
+
+    return reply.matches.map(text => ({ text, start: reply.cursor_start, end: reply.cursor_end }));
+}
+
+// =============================================================================
+// Inspection
+// =============================================================================
+
+// Field names IPython's object inspector prints as `Name: value`
+const INSPECT_FIELDS = [
+    'Signature', 'Init signature', 'Call signature', 'Type', 'String form', 'Namespace',
+    'Length', 'File', 'Source', 'Docstring', 'Init docstring', 'Class docstring',
+    'Call docstring', 'Subclasses',
+];
+
+const INSPECT_FIELD_PATTERN = new RegExp(`^(${INSPECT_FIELDS.join('|')}):\\s*(.*)$`);
+
+/**
+ * Remove ANSI color codes, which IPython puts in text/plain inspections
+ */
+export function stripAnsi(text: string): string {
+    // eslint-disable-next-line no-control-regex
+    return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * Split an IPython inspection into its fields (Signature, Type, Docstring, ...)
+ */
+export function parseInspectText(text: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    let current: string | null = null;
+
+    for (const line of stripAnsi(text).split('\n')) {
+        const match = line.match(INSPECT_FIELD_PATTERN);
+        if (match) {
+            current = match[1];
+            fields.set(current, match[2]);
+        } else if (current) {
+            fields.set(current, `${fields.get(current)}\n${line}`);
+        }
+    }
+
+    for (const [name, value] of fields) {
+        fields.set(name, value.replace(/^\n+/, '').trimEnd());
+    }
+    return fields;
+}
+
+/**
+ * The signature in an inspection, if it has one
+ */
+export function inspectSignature(fields: Map<string, string>): string | undefined {
+    const signature = fields.get('Signature') ?? fields.get('Init signature') ?? fields.get('Call signature');
+    return signature ? signature.replace(/\s*\n\s*/g, ' ') : undefined;
+}
+
+/**
+ * The docstring in an inspection, if it has one
+ */
+export function inspectDocstring(fields: Map<string, string>): string | undefined {
+    const docstring = fields.get('Docstring') ?? fields.get('Init docstring') ?? fields.get('Class docstring');
+    return docstring && docstring !== '<no docstring>' ? docstring : undefined;
+}
+
+function fence(code: string, language: string): string {
+    const ticks = code.includes('```') ? '````' : '```';
+    return `${ticks}${language}\n${code}\n${ticks}`;
+}
+
+/**
+ * Render a docstring as markdown: numpydoc section headings become bold
+ * headings and >>> examples become code blocks
+ */
+export function docstringMarkdown(docstring: string, language: string = 'python'): string {
+    const lines = docstring.split('\n');
+    const out: string[] = [];
+    let example: string[] = [];
+
+    const flushExample = () => {
+        if (example.length > 0) {
+            out.push(fence(example.join('\n'), language));
+            example = [];
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*(>>>|\.\.\.)( |$)/.test(line) || (example.length > 0 && line.trim() !== '')) {
+            example.push(line.trim());
+            continue;
+        }
+        flushExample();
+        if (line.trim() && /^\s*-{3,}\s*$/.test(lines[i + 1] ?? '')) {
+            out.push(`**${line.trim()}**`);
+            i++;
+            continue;
+        }
+        out.push(line);
+    }
+    flushExample();
+
+    return out.join('\n').trim();
+}
+
+/**
+ * Markdown for an inspect_reply's MIME bundle: the signature as code, the
+ * type, then the docstring
+ */
+export function inspectMarkdown(data: Record<string, string>, language: string = 'python'): string | null {
+    if (data['text/markdown']) return data['text/markdown'];
+    const text = data['text/plain'];
+    if (!text) return null;
+
+    const fields = parseInspectText(text);
+    if (fields.size === 0) return fence(stripAnsi(text).trim(), 'text');
+
+    const parts: string[] = [];
+    const signature = inspectSignature(fields);
+    if (signature) parts.push(fence(signature, language));
+    const type = fields.get('Type');
+    if (type) parts.push(`*${type}*`);
+    const docstring = inspectDocstring(fields);
+    if (docstring) {
+        parts.push(docstringMarkdown(docstring, language));
+    } else if (fields.get('String form')) {
+        parts.push(fence(fields.get('String form')!, 'text'));
+    }
+
+    return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+// =============================================================================
+// Signature help
+// =============================================================================
+
+/**
+ * The call whose argument list contains the cursor
+ */
+export interface CallAt {
+    /** Offset in the code just past the callee name, where inspection looks */
+    calleeEnd: number;
+    /** Index of the argument the cursor is in */
+    activeParameter: number;
+    /** Keyword of the argument the cursor is in (`axis=...`) */
+    keyword?: string;
+}
+
+/**
+ * Find the innermost call around a code offset, skipping strings and
+ * comments. Returns null outside a call, inside a string, or inside a tuple,
+ * list or dict literal.
+ */
+export function findCallAt(code: string, offset: number): CallAt | null {
+    const stack: { open: number; bracket: string; commas: number; argStart: number }[] = [];
+    let i = 0;
+
+    while (i < offset) {
+        const ch = code[i];
+        if (ch === '#') {
+            const end = code.indexOf('\n', i);
+            if (end < 0 || end >= offset) return null;
+            i = end;
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            const quote = code.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+            let j = i + quote.length;
+            while (j < code.length && !code.startsWith(quote, j)) {
+                if (code[j] === '\\') j++;
+                else if (quote.length === 1 && code[j] === '\n') break;
+                j++;
+            }
+            if (j + quote.length > offset) return null;
+            i = j + quote.length;
+            continue;
+        }
+        if (ch === '(' || ch === '[' || ch === '{') {
+            stack.push({ open: i, bracket: ch, commas: 0, argStart: i + 1 });
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            stack.pop();
+        } else if (ch === ',' && stack.length > 0) {
+            const top = stack[stack.length - 1];
+            top.commas++;
+            top.argStart = i + 1;
+        }
+        i++;
+    }
+
+    const call = stack[stack.length - 1];
+    if (!call || call.bracket !== '(') return null;
+
+    // A call follows a name, attribute, subscript or call; (1, 2) is a tuple
+    const before = code.slice(0, call.open).trimEnd();
+    if (!/[\w)\]]$/.test(before) || /(^|[^\w.])(if|elif|while|and|or|not|in|is|return|yield|else|lambda)$/.test(before)) {
+        return null;
+    }
+
+    const keyword = code.slice(call.argStart, offset).match(/^\s*([A-Za-z_]\w*)\s*=(?!=)/)?.[1];
+    return { calleeEnd: before.length, activeParameter: call.commas, ...(keyword ? { keyword } : {}) };
+}
+
+/**
+ * Parameters of a signature such as `mean(a, axis=None, *, keepdims=False)`,
+ * as [start, end) offsets into it. The bare `/` and `*` markers are not
+ * parameters.
+ */
+export function signatureParameters(signature: string): Array<[number, number]> {
+    const open = signature.indexOf('(');
+    if (open < 0) return [];
+
+    const params: Array<[number, number]> = [];
+    let depth = 0;
+    let start = open + 1;
+    let quote: string | null = null;
+
+    const push = (end: number) => {
+        const text = signature.slice(start, end);
+        const trimmedStart = start + (text.length - text.trimStart().length);
+        const trimmedEnd = end - (text.length - text.trimEnd().length);
+        const param = signature.slice(trimmedStart, trimmedEnd);
+        if (param && param !== '/' && param !== '*') params.push([trimmedStart, trimmedEnd]);
+    };
+
+    for (let i = open + 1; i < signature.length; i++) {
+        const ch = signature[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            if (depth === 0) {
+                push(i);
+                break;
+            }
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            push(i);
+            start = i + 1;
+        }
+    }
+
+    return params;
+}
+
+/**
+ * Index of the parameter an argument fills: the one named by its keyword,
+ * otherwise its position, and a trailing *args keeps extra positionals
+ */
+export function activeParameterIndex(
+    signature: string,
+    parameters: Array<[number, number]>,
+    call: CallAt
+): number {
+    const names = parameters.map(([start, end]) => signature.slice(start, end).match(/^\*{0,2}(\w+)/)?.[1]);
+    if (call.keyword) {
+        const byName = names.indexOf(call.keyword);
+        if (byName >= 0) return byName;
+        const kwargs = parameters.findIndex(([start]) => signature.startsWith('**', start));
+        return kwargs >= 0 ? kwargs : -1;
+    }
+    const varargs = parameters.findIndex(([start]) => signature[start] === '*' && signature[start + 1] !== '*');
+    if (varargs >= 0 && call.activeParameter > varargs) return varargs;
+    return call.activeParameter < parameters.length ? call.activeParameter : -1;
+}
@@ -1,6 +1,8 @@
 /**
  * Jupyter Kernel ZMQ Connection
- * Handles low-level communication with Jupyter kernels via ZeroMQ
+ * Handles low-level communication with Jupyter kernels via ZeroMQ. The
+ * message handling shared with kernels on a Jupyter server (see
+ * remoteKernelConnection) lives in BaseKernelConnection.
  */
 
 import * as crypto from 'crypto';
@@ -26,6 +28,7 @@ import type {
     ErrorContent,
     StatusContent,
     ExecutionOutput,
+    ExecuteOptions,
     KernelState,
 } from './types';
 
@@ -87,7 +90,7 @@ const DELIMITER_BYTES = Buffer.from(DELIMITER);
 /**
  * Create a message header
  */
-function createHeader(msgType: string, sessionId: string): MessageHeader {
+export function createHeader(msgType: string, sessionId: string): MessageHeader {
     return {
         msg_id: uuidv4(),
         session: sessionId,
@@ -201,7 +204,7 @@ function deserializeMessage<T>(frames: Buffer[], key: string): {
 }
 
 // =============================================================================
-// Kernel Connection Class
+// Kernel Connection Classes
 // =============================================================================
 
 /**
@@ -214,6 +217,8 @@ export interface KernelConnectionEvents {
     onExecuteResult?: (data: ExecuteResultContent) => void;
     onError?: (error: ErrorContent) => void;
     onInputRequest?: (prompt: string, password: boolean) => Promise<string>;
+    /** The connection was lost without disconnect() being called */
+    onClose?: (reason: string) => void;
 }
 
 /**
@@ -223,35 +228,52 @@ interface PendingRequest<T> {
     resolve: (value: T) => void;
     reject: (error: Error) => void;
     output: ExecutionOutput;
+    options?: ExecuteOptions;
 }
 
 /**
- * ZMQ connection to a Jupyter kernel
+ * Channel a request is sent on
  */
-export class KernelConnection {
-    private connection: ConnectionInfo;
-    private sessionId: string;
-    private events: KernelConnectionEvents;
+export type RequestChannel = 'shell' | 'control';
 
-    // ZMQ sockets
-    private shellSocket: any = null;
-    private iopubSocket: any = null;
-    private stdinSocket: any = null;
-    private controlSocket: any = null;
-    private hbSocket: any = null;
+/**
+ * Connection to a Jupyter kernel: the requests and the IOPub handling.
+ * Subclasses move the messages, over ZMQ sockets or a WebSocket.
+ */
+export abstract class BaseKernelConnection {
+    protected sessionId: string;
+    protected events: KernelConnectionEvents;
 
     // State
-    private connected: boolean = false;
-    private state: KernelState = 'unknown';
-    private pendingRequests: Map<string, PendingRequest<any>> = new Map();
-    private iopubListening: boolean = false;
+    protected connected: boolean = false;
+    protected state: KernelState = 'unknown';
+    protected pendingRequests: Map<string, PendingRequest<any>> = new Map();
 
-    constructor(connection: ConnectionInfo, events: KernelConnectionEvents = {}) {
-        this.connection = connection;
+    constructor(events: KernelConnectionEvents = {}) {
         this.sessionId = uuidv4();
         this.events = events;
     }
 
+    /**
+     * Connect to the kernel
+     */
+    public abstract connect(): Promise<void>;
+
+    /**
+     * Disconnect from the kernel
+     */
+    public abstract disconnect(): Promise<void>;
+
+    /**
+     * Send a request and wait for its reply
+     */
+    protected abstract exchange<TRep>(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<JupyterMessage<TRep>>;
+
+    /**
+     * Send a request without waiting for a reply
+     */
+    protected abstract post(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<void>;
+
     /**
      * Get current kernel state
      */
@@ -267,122 +289,38 @@ export class KernelConnection {
     }
 
     /**
-     * Connect to the kernel
+     * Check if code is being executed
      */
-    public async connect(): Promise<void> {
-        if (this.connected) return;
-
-        const zmqModule = await loadZmq();
-
-        const { ip, transport, shell_port, iopub_port, stdin_port, control_port } = this.connection;
-        const baseUrl = `${transport}://${ip}`;
-
-        // Create sockets
-        this.shellSocket = new zmqModule.Dealer();
-        this.iopubSocket = new zmqModule.Subscriber();
-        this.stdinSocket = new zmqModule.Dealer();
-        this.controlSocket = new zmqModule.Dealer();
-
-        // Set identity for DEALER sockets
-        const identity = Buffer.from(this.sessionId);
-        this.shellSocket.routingId = identity;
-        this.stdinSocket.routingId = identity;
-        this.controlSocket.routingId = identity;
-
-        // Connect sockets with error handling - clean up on failure
-        try {
-            await this.shellSocket.connect(`${baseUrl}:${shell_port}`);
-            await this.iopubSocket.connect(`${baseUrl}:${iopub_port}`);
-            await this.stdinSocket.connect(`${baseUrl}:${stdin_port}`);
-            await this.controlSocket.connect(`${baseUrl}:${control_port}`);
-        } catch (error) {
-            // Clean up any sockets that were created/connected before the failure
-            this.cleanupSockets();
-            throw new Error(`Failed to connect to kernel: ${error instanceof Error ? error.message : String(error)}`);
-        }
-
-        // Subscribe to all IOPub messages
-        this.iopubSocket.subscribe('');
-
-        this.connected = true;
-
-        // Start listening for IOPub messages
-        this.startIopubListener();
+    public isExecuting(): boolean {
+        return this.pendingRequests.size > 0;
     }
 
     /**
-     * Clean up all sockets (helper for error handling and disconnect)
+     * Create a request message
      */
-    private cleanupSockets(): void {
-        if (this.shellSocket) {
-            try { this.shellSocket.close(); } catch { /* ignore close errors */ }
-            this.shellSocket = null;
-        }
-        if (this.iopubSocket) {
-            try { this.iopubSocket.close(); } catch { /* ignore close errors */ }
-            this.iopubSocket = null;
-        }
-        if (this.stdinSocket) {
-            try { this.stdinSocket.close(); } catch { /* ignore close errors */ }
-            this.stdinSocket = null;
-        }
-        if (this.controlSocket) {
-            try { this.controlSocket.close(); } catch { /* ignore close errors */ }
-            this.controlSocket = null;
-        }
-        if (this.hbSocket) {
-            try { this.hbSocket.close(); } catch { /* ignore close errors */ }
-            this.hbSocket = null;
-        }
+    protected createMessage<T>(msgType: string, content: T): JupyterMessage<T> {
+        return {
+            header: createHeader(msgType, this.sessionId),
+            parent_header: {},
+            metadata: {},
+            content,
+        };
     }
 
     /**
-     * Disconnect from the kernel
+     * Reject pending executions
      */
-    public async disconnect(): Promise<void> {
-        if (!this.connected) return;
-
-        this.iopubListening = false;
-        this.connected = false;
-
-        // Close all sockets
-        this.cleanupSockets();
-
-        // Reject pending requests
+    protected rejectPending(reason: string): void {
         for (const [, pending] of this.pendingRequests) {
-            pending.reject(new Error('Kernel disconnected'));
+            pending.reject(new Error(reason));
         }
         this.pendingRequests.clear();
     }
 
-    /**
-     * Start listening for IOPub messages
-     */
-    private async startIopubListener(): Promise<void> {
-        if (this.iopubListening) return;
-        this.iopubListening = true;
-
-        try {
-            for await (const frames of this.iopubSocket) {
-                if (!this.iopubListening) break;
-
-                const result = deserializeMessage<any>(frames as Buffer[], this.connection.key);
-                if (!result) continue;
-
-                const { message } = result;
-                this.handleIopubMessage(message);
-            }
-        } catch (error) {
-            if (this.iopubListening) {
-                console.error('IOPub listener error:', error);
-            }
-        }
-    }
-
     /**
      * Handle IOPub message
      */
-    private handleIopubMessage(message: JupyterMessage<any>): void {
+    protected handleIopubMessage(message: JupyterMessage<any>): void {
         const msgType = message.header.msg_type;
         const parentMsgId = (message.parent_header as MessageHeader)?.msg_id;
 
@@ -398,10 +336,14 @@ export class KernelConnection {
 
             case 'stream':
                 const stream = message.content as StreamContent;
-                this.events.onStream?.(stream.name, stream.text);
+                // Silent executions (introspection) print only for their caller
+                if (!(parentMsgId && this.pendingRequests.get(parentMsgId)?.options?.silent)) {
+                    this.events.onStream?.(stream.name, stream.text);
+                }
                 // Append to pending request output
                 if (parentMsgId && this.pendingRequests.has(parentMsgId)) {
                     const pending = this.pendingRequests.get(parentMsgId)!;
+                    pending.options?.onStream?.(stream.name, stream.text);
                     if (stream.name === 'stdout') {
                         pending.output.stdout += stream.text;
                     } else {
@@ -415,7 +357,9 @@ export class KernelConnection {
                 const displayData = message.content as DisplayDataContent;
                 this.events.onDisplayData?.(displayData);
                 if (parentMsgId && this.pendingRequests.has(parentMsgId)) {
-                    this.pendingRequests.get(parentMsgId)!.output.displayData.push(displayData);
+                    const pending = this.pendingRequests.get(parentMsgId)!;
+                    pending.options?.onDisplayData?.(displayData);
+                    pending.output.displayData.push(displayData);
                 }
                 break;
 
@@ -451,41 +395,11 @@ export class KernelConnection {
     }
 
     /**
-     * Send a message and wait for reply
+     * Send a request and return the content of its reply
      */
-    private async sendRequest<TReq, TRep>(
-        socket: any,
-        msgType: string,
-        content: TReq,
-        expectReply: boolean = true
-    ): Promise<JupyterMessage<TRep>> {
-        const header = createHeader(msgType, this.sessionId);
-
-        const message: JupyterMessage<TReq> = {
-            header,
-            parent_header: {},
-            metadata: {},
-            content,
-        };
-
-        const frames = serializeMessage(message, this.connection.key);
-
-        // Send message
-        await socket.send(frames);
-
-        if (!expectReply) {
-            return message as any;
-        }
-
-        // Wait for reply
-        const replyFrames = await socket.receive();
-        const result = deserializeMessage<TRep>(replyFrames as Buffer[], this.connection.key);
-
-        if (!result) {
-            throw new Error('Failed to parse reply');
-        }
-
-        return result.message;
+    private async request<TReq, TRep>(channel: RequestChannel, msgType: string, content: TReq): Promise<TRep> {
+        const reply = await this.exchange<TRep>(channel, this.createMessage(msgType, content));
+        return reply.content;
     }
 
     /**
@@ -493,12 +407,7 @@ export class KernelConnection {
      */
     public async execute(
         code: string,
-        options: {
-            silent?: boolean;
-            storeHistory?: boolean;
-            allowStdin?: boolean;
-            stopOnError?: boolean;
-        } = {}
+        options: ExecuteOptions = {}
     ): Promise<ExecutionOutput> {
         if (!this.connected) {
             throw new Error('Not connected to kernel');
@@ -513,13 +422,8 @@ export class KernelConnection {
             stop_on_error: options.stopOnError ?? true,
         };
 
-        const header = createHeader('execute_request', this.sessionId);
-        const message: JupyterMessage<ExecuteRequestContent> = {
-            header,
-            parent_header: {},
-            metadata: {},
-            content,
-        };
+        const message = this.createMessage('execute_request', content);
+        const msgId = message.header.msg_id;
 
         // Create output collector
         const output: ExecutionOutput = {
@@ -529,34 +433,25 @@ export class KernelConnection {
         };
 
         // Create pending request
-        const pending = new Promise<ExecutionOutput>((resolve, reject) => {
-            this.pendingRequests.set(header.msg_id, { resolve, reject, output });
-        });
+        new Promise<ExecutionOutput>((resolve, reject) => {
+            this.pendingRequests.set(msgId, { resolve, reject, output, options });
+        }).catch(() => { /* the reply (or its failure) is awaited below */ });
 
-        // Send message
-        const frames = serializeMessage(message, this.connection.key);
-        await this.shellSocket.send(frames);
-
-        // Wait for reply
-        const replyFrames = await this.shellSocket.receive();
-        const result = deserializeMessage<ExecuteReplyContent>(
-            replyFrames as Buffer[],
-            this.connection.key
-        );
-
-        if (!result) {
-            this.pendingRequests.delete(header.msg_id);
-            throw new Error('Failed to parse execute reply');
+        // Send message and wait for reply
+        let reply: ExecuteReplyContent;
+        try {
+            reply = (await this.exchange<ExecuteReplyContent>('shell', message)).content;
+        } catch (error) {
+            this.pendingRequests.delete(msgId);
+            throw error;
         }
 
-        const reply = result.message.content;
-
         // Wait a bit for IOPub messages to arrive
         await new Promise(resolve => setTimeout(resolve, 100));
 
         // Get collected output
-        const collectedOutput = this.pendingRequests.get(header.msg_id)?.output || output;
-        this.pendingRequests.delete(header.msg_id);
+        const collectedOutput = this.pendingRequests.get(msgId)?.output || output;
+        this.pendingRequests.delete(msgId);
 
         if (reply.status === 'error') {
             collectedOutput.error = {
@@ -579,18 +474,10 @@ export class KernelConnection {
             throw new Error('Not connected to kernel');
         }
 
-        const content: CompleteRequestContent = {
+        return this.request<CompleteRequestContent, CompleteReplyContent>('shell', 'complete_request', {
             code,
             cursor_pos: cursorPos,
-        };
-
-        const reply = await this.sendRequest<CompleteRequestContent, CompleteReplyContent>(
-            this.shellSocket,
-            'complete_request',
-            content
-        );
-
-        return reply.content;
+        });
     }
 
     /**
@@ -605,19 +492,11 @@ export class KernelConnection {
             throw new Error('Not connected to kernel');
         }
 
-        const content: InspectRequestContent = {
+        return this.request<InspectRequestContent, InspectReplyContent>('shell', 'inspect_request', {
             code,
             cursor_pos: cursorPos,
             detail_level: detailLevel,
-        };
-
-        const reply = await this.sendRequest<InspectRequestContent, InspectReplyContent>(
-            this.shellSocket,
-            'inspect_request',
-            content
-        );
-
-        return reply.content;
+        });
     }
 
     /**
@@ -628,15 +507,7 @@ export class KernelConnection {
             throw new Error('Not connected to kernel');
         }
 
-        const content: IsCompleteRequestContent = { code };
-
-        const reply = await this.sendRequest<IsCompleteRequestContent, IsCompleteReplyContent>(
-            this.shellSocket,
-            'is_complete_request',
-            content
-        );
-
-        return reply.content;
+        return this.request<IsCompleteRequestContent, IsCompleteReplyContent>('shell', 'is_complete_request', { code });
     }
 
     /**
@@ -647,13 +518,7 @@ export class KernelConnection {
             throw new Error('Not connected to kernel');
         }
 
-        const reply = await this.sendRequest<Record<string, never>, KernelInfoReplyContent>(
-            this.shellSocket,
-            'kernel_info_request',
-            {}
-        );
-
-        return reply.content;
+        return this.request<Record<string, never>, KernelInfoReplyContent>('shell', 'kernel_info_request', {});
     }
 
     /**
@@ -664,12 +529,7 @@ export class KernelConnection {
             throw new Error('Not connected to kernel');
         }
 
-        await this.sendRequest<Record<string, never>, Record<string, never>>(
-            this.controlSocket,
-            'interrupt_request',
-            {},
-            false
-        );
+        await this.post('control', this.createMessage('interrupt_request', {}));
     }
 
     /**
@@ -680,18 +540,194 @@ export class KernelConnection {
             throw new Error('Not connected to kernel');
         }
 
-        const content: ShutdownRequestContent = { restart };
-
-        const reply = await this.sendRequest<ShutdownRequestContent, ShutdownReplyContent>(
-            this.controlSocket,
+        const reply = await this.request<ShutdownRequestContent, ShutdownReplyContent>(
+            'control',
             'shutdown_request',
-            content
+            { restart }
         );
 
         if (!restart) {
             await this.disconnect();
         }
 
-        return reply.content;
+        return reply;
+    }
+}
+
+/**
+ * ZMQ connection to a Jupyter kernel
+ */
+export class KernelConnection extends BaseKernelConnection {
+    private connection: ConnectionInfo;
+
+    // ZMQ sockets
+    private shellSocket: any = null;
+    private iopubSocket: any = null;
+    private stdinSocket: any = null;
+    private controlSocket: any = null;
+    private hbSocket: any = null;
+
+    private iopubListening: boolean = false;
+    // Shell replies are read in order, so shell requests take turns
+    private shellTurn: Promise<unknown> = Promise.resolve();
+
+    constructor(connection: ConnectionInfo, events: KernelConnectionEvents = {}) {
+        super(events);
+        this.connection = connection;
+    }
+
+    /**
+     * Run a send/receive exchange on the shell socket once earlier ones have
+     * finished, so each request reads its own reply
+     */
+    private onShellTurn<T>(exchange: () => Promise<T>): Promise<T> {
+        const turn = this.shellTurn.then(exchange, exchange);
+        this.shellTurn = turn.catch(() => undefined);
+        return turn;
+    }
+
+    /**
+     * Connect to the kernel
+     */
+    public async connect(): Promise<void> {
+        if (this.connected) return;
+
+        const zmqModule = await loadZmq();
+
+        const { ip, transport, shell_port, iopub_port, stdin_port, control_port } = this.connection;
+        const baseUrl = `${transport}://${ip}`;
+
+        // Create sockets
+        this.shellSocket = new zmqModule.Dealer();
+        this.iopubSocket = new zmqModule.Subscriber();
+        this.stdinSocket = new zmqModule.Dealer();
+        this.controlSocket = new zmqModule.Dealer();
+
+        // Set identity for DEALER sockets
+        const identity = Buffer.from(this.sessionId);
+        this.shellSocket.routingId = identity;
+        this.stdinSocket.routingId = identity;
+        this.controlSocket.routingId = identity;
+
+        // Connect sockets with error handling - clean up on failure
+        try {
+            await this.shellSocket.connect(`${baseUrl}:${shell_port}`);
+            await this.iopubSocket.connect(`${baseUrl}:${iopub_port}`);
+            await this.stdinSocket.connect(`${baseUrl}:${stdin_port}`);
+            await this.controlSocket.connect(`${baseUrl}:${control_port}`);
+        } catch (error) {
+            // Clean up any sockets that were created/connected before the failure
+            this.cleanupSockets();
+            throw new Error(`Failed to connect to kernel: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        // Subscribe to all IOPub messages
+        this.iopubSocket.subscribe('');
+
+        this.connected = true;
+
+        // Start listening for IOPub messages
+        this.startIopubListener();
+    }
+
+    /**
+     * Clean up all sockets (helper for error handling and disconnect)
+     */
+    private cleanupSockets(): void {
+        if (this.shellSocket) {
+            try { this.shellSocket.close(); } catch { /* ignore close errors */ }
+            this.shellSocket = null;
+        }
+        if (this.iopubSocket) {
+            try { this.iopubSocket.close(); } catch { /* ignore close errors */ }
+            this.iopubSocket = null;
+        }
+        if (this.stdinSocket) {
+            try { this.stdinSocket.close(); } catch { /* ignore close errors */ }
+            this.stdinSocket = null;
+        }
+        if (this.controlSocket) {
+            try { this.controlSocket.close(); } catch { /* ignore close errors */ }
+            this.controlSocket = null;
+        }
+        if (this.hbSocket) {
+            try { this.hbSocket.close(); } catch { /* ignore close errors */ }
+            this.hbSocket = null;
+        }
+    }
+
+    /**
+     * Disconnect from the kernel
+     */
+    public async disconnect(): Promise<void> {
+        if (!this.connected) return;
+
+        this.iopubListening = false;
+        this.connected = false;
+
+        // Close all sockets
+        this.cleanupSockets();
+
+        // Reject pending requests
+        this.rejectPending('Kernel disconnected');
+    }
+
+    /**
+     * Start listening for IOPub messages
+     */
+    private async startIopubListener(): Promise<void> {
+        if (this.iopubListening) return;
+        this.iopubListening = true;
+
+        try {
+            for await (const frames of this.iopubSocket) {
+                if (!this.iopubListening) break;
+
+                const result = deserializeMessage<any>(frames as Buffer[], this.connection.key);
+                if (!result) continue;
+
+                const { message } = result;
+                this.handleIopubMessage(message);
+            }
+        } catch (error) {
+            if (this.iopubListening) {
+                console.error('IOPub listener error:', error);
+            }
+        }
+    }
+
+    /**
+     * Socket of a request channel
+     */
+    private socketFor(channel: RequestChannel): any {
+        return channel === 'shell' ? this.shellSocket : this.controlSocket;
+    }
+
+    /**
+     * Send a message and wait for reply
+     */
+    protected async exchange<TRep>(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<JupyterMessage<TRep>> {
+        const socket = this.socketFor(channel);
+        const frames = serializeMessage(message, this.connection.key);
+
+        const exchange = async () => {
+            await socket.send(frames);
+            return socket.receive();
+        };
+        const replyFrames = channel === 'shell' ? await this.onShellTurn(exchange) : await exchange();
+        const result = deserializeMessage<TRep>(replyFrames as Buffer[], this.connection.key);
+
+        if (!result) {
+            throw new Error('Failed to parse reply');
+        }
+
+        return result.message;
+    }
+
+    /**
+     * Send a message without waiting for a reply
+     */
+    protected async post(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<void> {
+        await this.socketFor(channel).send(serializeMessage(message, this.connection.key));
     }
 }
@@ -0,0 +1,225 @@
+/**
+ * Kernel-backed completion, hover and signature help in Jupyter source blocks
+ *
+ * When a jupyter-* block's session has a running kernel, the cursor position
+ * is translated into the block's code and sent to the kernel as
+ * complete_request or inspect_request, so completions and documentation
+ * cover the objects live in the kernel. Blocks without a running kernel get
+ * nothing from these providers; no kernel is ever started for them.
+ */
+
+import * as vscode from 'vscode';
+import { getKernelManager } from './kernelManager';
+import { getJupyterSessionName, parseJupyterLanguage } from './jupyterExecutor';
+import type { BaseKernelConnection } from './kernelConnection';
+import { parseHeaderArguments } from '../parser/orgBabel';
+import {
+    findJupyterBlockAt,
+    toKernelCursor,
+    fromKernelCursor,
+    kernelCompletions,
+    inspectMarkdown,
+    parseInspectText,
+    inspectSignature,
+    inspectDocstring,
+    docstringMarkdown,
+    findCallAt,
+    signatureParameters,
+    activeParameterIndex,
+    type JupyterBlockAt,
+} from './kernelAssist';
+
+/** How long to wait for the kernel before giving up on a request */
+const KERNEL_REQUEST_TIMEOUT_MS = 1500;
+
+/**
+ * The running kernel and code position for a position in a jupyter-* block
+ */
+interface KernelTarget {
+    connection: BaseKernelConnection;
+    block: JupyterBlockAt;
+    /** Kernel language, used to fence code in markdown */
+    language: string;
+    /** Line and character of the position within the block's code */
+    line: number;
+    character: number;
+}
+
+/**
+ * Find the idle kernel serving the block at `position`, if any
+ */
+function findKernelTarget(document: vscode.TextDocument, position: vscode.Position): KernelTarget | null {
+    const manager = getKernelManager();
+    // Cheap gate before scanning the document: most of the time nothing runs
+    if (manager.getSessions().length === 0) return null;
+
+    const block = findJupyterBlockAt(document.getText(), position.line);
+    if (!block) return null;
+
+    const language = parseJupyterLanguage(block.language) ?? 'python';
+    const sessionName = getJupyterSessionName(block.language, parseHeaderArguments(block.parameters).session);
+    const kernelId = manager.getKernelIdBySession(sessionName);
+    if (!kernelId) return null;
+
+    const state = manager.getKernelInfo(kernelId)?.state;
+    if (state === 'starting' || state === 'dead') return null;
+
+    const connection = manager.getConnection(kernelId);
+    // Requests would queue behind a running cell; skip until it finishes
+    if (!connection || !connection.isConnected() || connection.isExecuting()) return null;
+
+    return {
+        connection,
+        block,
+        language,
+        line: position.line - block.codeStartLine,
+        character: position.character,
+    };
+}
+
+/**
+ * Resolve with the kernel's reply, or undefined if it takes too long or fails
+ */
+async function askKernel<T>(request: Promise<T>): Promise<T | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>(resolve => {
+        timer = setTimeout(() => resolve(undefined), KERNEL_REQUEST_TIMEOUT_MS);
+    });
+    try {
+        return await Promise.race([request.catch(() => undefined), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Document range of a span of kernel cursor offsets in a block
+ */
+function kernelRange(target: KernelTarget, start: number, end: number): vscode.Range {
+    const from = fromKernelCursor(target.block.code, start);
+    const to = fromKernelCursor(target.block.code, end);
+    return new vscode.Range(
+        target.block.codeStartLine + from.line, from.character,
+        target.block.codeStartLine + to.line, to.character
+    );
+}
+
+const COMPLETION_KINDS: Record<string, vscode.CompletionItemKind> = {
+    function: vscode.CompletionItemKind.Function,
+    class: vscode.CompletionItemKind.Class,
+    module: vscode.CompletionItemKind.Module,
+    instance: vscode.CompletionItemKind.Variable,
+    statement: vscode.CompletionItemKind.Variable,
+    param: vscode.CompletionItemKind.Variable,
+    keyword: vscode.CompletionItemKind.Keyword,
+    property: vscode.CompletionItemKind.Property,
+    path: vscode.CompletionItemKind.File,
+    magic: vscode.CompletionItemKind.Event,
+};
+
+class KernelCompletionProvider implements vscode.CompletionItemProvider {
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[] | undefined> {
+        const target = findKernelTarget(document, position);
+        if (!target) return undefined;
+
+        const cursor = toKernelCursor(target.block.code, target.line, target.character);
+        const reply = await askKernel(target.connection.complete(target.block.code, cursor));
+        if (!reply || token.isCancellationRequested) return undefined;
+
+        return kernelCompletions(reply).map((completion, i) => {
+            const item = new vscode.CompletionItem(
+                completion.text,
+                COMPLETION_KINDS[completion.type ?? ''] ?? vscode.CompletionItemKind.Text
+            );
+            item.range = kernelRange(target, completion.start, completion.end);
+            item.detail = completion.signature
+                ? `${completion.text}${completion.signature}`
+                : completion.type;
+            // Keep the kernel's ranking
+            item.sortText = String(i).padStart(5, '0');
+            return item;
+        });
+    }
+}
+
+class KernelHoverProvider implements vscode.HoverProvider {
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const target = findKernelTarget(document, position);
+        if (!target) return undefined;
+
+        // Inspect at the end of the hovered name, so `np.me|an` asks about np.mean
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange) return undefined;
+        const cursor = toKernelCursor(target.block.code, target.line, wordRange.end.character);
+
+        const reply = await askKernel(target.connection.inspect(target.block.code, cursor, 0));
+        if (!reply || token.isCancellationRequested || reply.status !== 'ok' || !reply.found) return undefined;
+
+        const markdown = inspectMarkdown(reply.data, target.language);
+        return markdown ? new vscode.Hover(new vscode.MarkdownString(markdown), wordRange) : undefined;
+    }
+}
+
+class KernelSignatureHelpProvider implements vscode.SignatureHelpProvider {
+    async provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.SignatureHelp | undefined> {
+        const target = findKernelTarget(document, position);
+        if (!target) return undefined;
+
+        const code = target.block.code;
+        const offset = code.split('\n').slice(0, target.line)
+            .reduce((sum, line) => sum + line.length + 1, 0) + target.character;
+        const call = findCallAt(code, offset);
+        if (!call) return undefined;
+
+        const cursor = Array.from(code.slice(0, call.calleeEnd)).length;
+        const reply = await askKernel(target.connection.inspect(code, cursor, 0));
+        if (!reply || token.isCancellationRequested || reply.status !== 'ok' || !reply.found) return undefined;
+
+        const fields = parseInspectText(reply.data['text/plain'] ?? '');
+        const label = inspectSignature(fields);
+        if (!label) return undefined;
+
+        const signature = new vscode.SignatureInformation(label);
+        const docstring = inspectDocstring(fields);
+        if (docstring) {
+            signature.documentation = new vscode.MarkdownString(docstringMarkdown(docstring, target.language));
+        }
+        const parameters = signatureParameters(label);
+        signature.parameters = parameters.map(range => new vscode.ParameterInformation(range));
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = activeParameterIndex(label, parameters, call);
+        return help;
+    }
+}
+
+/**
+ * Register kernel-backed completion, hover and signature help for org files
+ */
+export function registerKernelLanguageFeatures(context: vscode.ExtensionContext): void {
+    const selector: vscode.DocumentSelector = [{ language: 'org' }, { pattern: '**/*.org' }];
+    context.subscriptions.push(
+        // '.' asks for attributes; the provider returns at once unless a
+        // kernel is running and the cursor is in a jupyter-* block
+        vscode.languages.registerCompletionItemProvider(selector, new KernelCompletionProvider(), '.'),
+        vscode.languages.registerHoverProvider(selector, new KernelHoverProvider()),
+        vscode.languages.registerSignatureHelpProvider(selector, new KernelSignatureHelpProvider(), {
+            triggerCharacters: ['(', ','],
+            retriggerCharacters: [')'],
+        })
+    );
+}
@@ -1,6 +1,8 @@
 /**
  * Jupyter Kernel Manager
- * Manages kernel lifecycle: start, stop, restart, and session management
+ * Manages kernel lifecycle: start, stop, restart, and session management.
+ * Kernels run locally from kernelspecs, or on a Jupyter server once one is
+ * set with setServer().
  */
 
 import * as fs from 'fs';
@@ -10,38 +12,60 @@ import * as crypto from 'crypto';
 import { spawn, ChildProcess } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
-import { KernelConnection, KernelConnectionEvents } from './kernelConnection';
-import { findKernelSpec, findKernelForLanguage, discoverKernelSpecsViaJupyter } from './kernelSpec';
+import { KernelConnection, BaseKernelConnection, KernelConnectionEvents } from './kernelConnection';
+import { RemoteKernelConnection } from './remoteKernelConnection';
+import { JupyterServerClient, type JupyterServerOptions } from './jupyterServer';
+import {
+    findKernelSpec,
+    findKernelForLanguage,
+    discoverKernelSpecsViaJupyter,
+    selectKernelForLanguage,
+} from './kernelSpec';
 import type {
     KernelSpec,
     ConnectionInfo,
     KernelState,
     KernelInfo,
     ExecutionOutput,
+    ExecuteOptions,
 } from './types';
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * Kernel on a Jupyter server
+ */
+interface RemoteKernel {
+    /** Server the kernel runs on */
+    server: JupyterServerClient;
+    /** Server session created for the kernel, if any */
+    serverSessionId?: string;
+    /** Started by us, so shut down when stopped; attached kernels are only left */
+    owned: boolean;
+}
+
 /**
  * Managed kernel instance
  */
 interface ManagedKernel {
-    /** Unique kernel ID */
+    /** Unique kernel ID (the server's kernel ID for remote kernels) */
     id: string;
     /** Session name */
     sessionName: string;
     /** Kernel spec */
     spec: KernelSpec;
-    /** Connection info */
-    connection: ConnectionInfo;
-    /** Connection file path */
-    connectionFile: string;
-    /** Kernel process */
+    /** Connection info (local kernels) */
+    connection: ConnectionInfo | null;
+    /** Connection file path (local kernels) */
+    connectionFile: string | null;
+    /** Kernel process (local kernels) */
     process: ChildProcess | null;
-    /** ZMQ connection */
-    zmqConnection: KernelConnection | null;
+    /** Server the kernel runs on (remote kernels) */
+    remote: RemoteKernel | null;
+    /** ZMQ or WebSocket connection */
+    kernelConnection: BaseKernelConnection | null;
     /** Current state */
     state: KernelState;
     /** Start time */
@@ -59,6 +83,8 @@ export interface KernelManagerEvents {
     kernelStateChanged: (kernelId: string, state: KernelState) => void;
     kernelError: (kernelId: string, error: Error) => void;
     output: (kernelId: string, type: 'stdout' | 'stderr', text: string) => void;
+    /** A non-silent execution finished, successfully or not */
+    executed: (kernelId: string) => void;
 }
 
 // =============================================================================
@@ -72,6 +98,7 @@ export class KernelManager extends EventEmitter {
     private kernels: Map<string, ManagedKernel> = new Map();
     private sessionKernels: Map<string, string> = new Map(); // session -> kernelId
     private runtimeDir: string;
+    private server: JupyterServerClient | null = null;
 
     constructor() {
         super();
@@ -146,7 +173,8 @@ export class KernelManager extends EventEmitter {
     /**
      * Delete connection file
      */
-    private deleteConnectionFile(filepath: string): void {
+    private deleteConnectionFile(filepath: string | null): void {
+        if (!filepath) return;
         try {
             if (fs.existsSync(filepath)) {
                 fs.unlinkSync(filepath);
@@ -157,11 +185,37 @@ export class KernelManager extends EventEmitter {
         }
     }
 
+    /**
+     * Run new kernels on a Jupyter server, or locally again with null.
+     * Kernels already running stay where they are.
+     */
+    public setServer(options: JupyterServerOptions | null): void {
+        this.server = options ? new JupyterServerClient(options) : null;
+    }
+
+    /**
+     * The Jupyter server new kernels run on, or null for local kernels
+     */
+    public getServer(): JupyterServerClient | null {
+        return this.server;
+    }
+
+    /**
+     * Find a kernel spec by name or language, on the server in server mode
+     */
+    public async findKernelSpec(specNameOrLanguage: string): Promise<KernelSpec | null> {
+        if (this.server) {
+            const specs = await this.server.listKernelSpecs();
+            return specs.get(specNameOrLanguage) || selectKernelForLanguage(specs, specNameOrLanguage);
+        }
+        return (await findKernelSpec(specNameOrLanguage)) || (await findKernelForLanguage(specNameOrLanguage));
+    }
+
     /**
      * Start a kernel
      * @param specNameOrLanguage - Kernel spec name or language
      * @param sessionName - Session name for grouping kernels
-     * @param cwd - Working directory for the kernel process
+     * @param cwd - Working directory for the kernel process (local kernels)
      */
     public async startKernel(
         specNameOrLanguage: string,
@@ -169,12 +223,11 @@ export class KernelManager extends EventEmitter {
         cwd?: string
     ): Promise<string> {
         // Find kernel spec
-        let spec = await findKernelSpec(specNameOrLanguage);
+        const spec = await this.findKernelSpec(specNameOrLanguage);
         if (!spec) {
-            spec = await findKernelForLanguage(specNameOrLanguage);
-        }
-        if (!spec) {
-            throw new Error(`No kernel found for: ${specNameOrLanguage}`);
+            throw new Error(this.server
+                ? `No kernel found for: ${specNameOrLanguage} on ${this.server.baseUrl}`
+                : `No kernel found for: ${specNameOrLanguage}`);
         }
 
         // Check if session already has a kernel
@@ -186,6 +239,10 @@ export class KernelManager extends EventEmitter {
             }
         }
 
+        if (this.server) {
+            return this.startRemoteKernel(this.server, spec, sessionName);
+        }
+
         // Generate kernel ID and connection info
         const kernelId = uuidv4();
         const connection = this.generateConnectionInfo();
@@ -212,7 +269,8 @@ export class KernelManager extends EventEmitter {
             connection,
             connectionFile,
             process: kernelProcess,
-            zmqConnection: null,
+            remote: null,
+            kernelConnection: null,
             state: 'starting',
             startedAt: new Date(),
             language: spec.language,
@@ -236,9 +294,9 @@ export class KernelManager extends EventEmitter {
             kernel.process = null;
             // Reject any in-flight requests instead of letting them wait
             // forever on a socket nobody will ever answer.
-            if (kernel.zmqConnection) {
-                kernel.zmqConnection.disconnect().catch(() => { /* already closed */ });
-                kernel.zmqConnection = null;
+            if (kernel.kernelConnection) {
+                kernel.kernelConnection.disconnect().catch(() => { /* already closed */ });
+                kernel.kernelConnection = null;
             }
             this.emit('kernelStateChanged', kernelId, 'dead');
             this.emit('kernelStopped', kernelId);
@@ -277,8 +335,133 @@ export class KernelManager extends EventEmitter {
             throw new Error(`Failed to connect to kernel: ${error instanceof Error ? error.message : String(error)}`);
         }
 
-        kernel.zmqConnection = zmqConnection;
+        kernel.kernelConnection = zmqConnection;
+        kernel.state = 'idle';
+
+        this.emit('kernelStarted', this.getKernelInfo(kernelId)!);
+        this.emit('kernelStateChanged', kernelId, 'idle');
+
+        return kernelId;
+    }
+
+    /**
+     * Start a kernel on a Jupyter server, in a server session named after
+     * the org session so it shows among the server's running sessions
+     */
+    private async startRemoteKernel(
+        server: JupyterServerClient,
+        spec: KernelSpec,
+        sessionName: string
+    ): Promise<string> {
+        const session = await server.createSession(sessionName, sessionName, spec.name);
+        try {
+            return await this.connectRemoteKernel(server, session.kernel.id, spec, sessionName, {
+                server,
+                serverSessionId: session.id,
+                owned: true,
+            });
+        } catch (error) {
+            await server.deleteSession(session.id).catch(() => { /* best effort */ });
+            throw error;
+        }
+    }
+
+    /**
+     * Attach a session to a kernel already running on the Jupyter server.
+     * Stopping the session later only disconnects; the kernel keeps running.
+     */
+    public async attachKernel(serverKernelId: string, sessionName: string = 'default'): Promise<string> {
+        const server = this.server;
+        if (!server) {
+            throw new Error('Not connected to a Jupyter server');
+        }
+
+        const existing = this.kernels.get(serverKernelId);
+        if (existing && existing.state !== 'dead') {
+            this.sessionKernels.set(sessionName, serverKernelId);
+            return serverKernelId;
+        }
+
+        const model = await server.getKernel(serverKernelId);
+        if (!model) {
+            throw new Error(`Kernel not found on ${server.baseUrl}: ${serverKernelId}`);
+        }
+        const specs = await server.listKernelSpecs();
+        const spec = specs.get(model.name) || {
+            name: model.name,
+            displayName: model.name,
+            language: 'unknown',
+            resourceDir: '',
+            argv: [],
+        };
+
+        // The session leaves its previous kernel
+        const previous = this.sessionKernels.get(sessionName);
+        if (previous && previous !== serverKernelId) {
+            await this.stopKernel(previous);
+        }
+
+        return this.connectRemoteKernel(server, serverKernelId, spec, sessionName, { server, owned: false });
+    }
+
+    /**
+     * Open the WebSocket of a kernel on the server and manage it
+     */
+    private async connectRemoteKernel(
+        server: JupyterServerClient,
+        kernelId: string,
+        spec: KernelSpec,
+        sessionName: string,
+        remote: RemoteKernel
+    ): Promise<string> {
+        const kernel: ManagedKernel = {
+            id: kernelId,
+            sessionName,
+            spec,
+            connection: null,
+            connectionFile: null,
+            process: null,
+            remote,
+            kernelConnection: null,
+            state: 'starting',
+            startedAt: new Date(),
+            language: spec.language,
+        };
+
+        const connection = new RemoteKernelConnection(server, kernelId, {
+            onStatus: (state) => {
+                kernel.state = state;
+                this.emit('kernelStateChanged', kernelId, state);
+            },
+            onStream: (name, text) => {
+                this.emit('output', kernelId, name, text);
+            },
+            onClose: (reason) => {
+                // The server went away or the kernel was shut down there;
+                // the next use of the session starts or attaches afresh
+                kernel.state = 'dead';
+                kernel.kernelConnection = null;
+                this.kernels.delete(kernelId);
+                if (this.sessionKernels.get(sessionName) === kernelId) {
+                    this.sessionKernels.delete(sessionName);
+                }
+                this.emit('kernelError', kernelId, new Error(`Lost connection to ${server.baseUrl}: ${reason}`));
+                this.emit('kernelStateChanged', kernelId, 'dead');
+                this.emit('kernelStopped', kernelId);
+            },
+        });
+
+        try {
+            await connection.connect();
+        } catch (error) {
+            this.emit('kernelError', kernelId, error instanceof Error ? error : new Error(String(error)));
+            throw error;
+        }
+
+        kernel.kernelConnection = connection;
         kernel.state = 'idle';
+        this.kernels.set(kernelId, kernel);
+        this.sessionKernels.set(sessionName, kernelId);
 
         this.emit('kernelStarted', this.getKernelInfo(kernelId)!);
         this.emit('kernelStateChanged', kernelId, 'idle');
@@ -291,6 +474,7 @@ export class KernelManager extends EventEmitter {
      */
     private async waitForKernelReady(kernel: ManagedKernel, timeout: number = 30000): Promise<void> {
         const startTime = Date.now();
+        const connectionFile = kernel.connectionFile!;
 
         // 'dead' also covers a failed spawn (e.g. the spec's interpreter was
         // deleted): that only fires the process 'error' event, never 'exit',
@@ -307,7 +491,7 @@ export class KernelManager extends EventEmitter {
             // Try to read connection file to verify ports
             let hasPorts = false;
             try {
-                const content = fs.readFileSync(kernel.connectionFile, 'utf-8');
+                const content = fs.readFileSync(connectionFile, 'utf-8');
                 const conn = JSON.parse(content);
                 hasPorts = Boolean(conn.shell_port && conn.iopub_port);
             } catch {
@@ -337,14 +521,19 @@ export class KernelManager extends EventEmitter {
         const kernel = this.kernels.get(kernelId);
         if (!kernel) return;
 
+        if (kernel.remote) {
+            await this.stopRemoteKernel(kernel, kernel.remote);
+            return;
+        }
+
         // Try graceful shutdown via ZMQ
-        if (kernel.zmqConnection) {
+        if (kernel.kernelConnection) {
             try {
-                await kernel.zmqConnection.shutdown(false);
+                await kernel.kernelConnection.shutdown(false);
             } catch {
                 // Ignore errors
             }
-            await kernel.zmqConnection.disconnect();
+            await kernel.kernelConnection.disconnect();
         }
 
         // Kill process if still running
@@ -367,6 +556,38 @@ export class KernelManager extends EventEmitter {
         this.emit('kernelStopped', kernelId);
     }
 
+    /**
+     * Disconnect from a kernel on the server, shutting it down if we
+     * started it
+     */
+    private async stopRemoteKernel(kernel: ManagedKernel, remote: RemoteKernel): Promise<void> {
+        if (kernel.kernelConnection) {
+            await kernel.kernelConnection.disconnect();
+            kernel.kernelConnection = null;
+        }
+
+        if (remote.owned) {
+            try {
+                if (remote.serverSessionId) {
+                    await remote.server.deleteSession(remote.serverSessionId);
+                } else {
+                    await remote.server.shutdownKernel(kernel.id);
+                }
+            } catch (error) {
+                // Already gone, or the server is unreachable
+                console.warn(`KernelManager: Failed to shut down kernel ${kernel.id} on ${remote.server.baseUrl}:`, error);
+            }
+        }
+
+        kernel.state = 'dead';
+        if (this.sessionKernels.get(kernel.sessionName) === kernel.id) {
+            this.sessionKernels.delete(kernel.sessionName);
+        }
+        this.kernels.delete(kernel.id);
+
+        this.emit('kernelStopped', kernel.id);
+    }
+
     /**
      * Restart a kernel
      */
@@ -376,6 +597,12 @@ export class KernelManager extends EventEmitter {
             throw new Error(`Kernel not found: ${kernelId}`);
         }
 
+        // The server restarts the kernel in place; the WebSocket stays open
+        if (kernel.remote && kernel.kernelConnection) {
+            await kernel.remote.server.restartKernel(kernelId);
+            return kernelId;
+        }
+
         const sessionName = kernel.sessionName;
         const specName = kernel.spec.name;
 
@@ -392,10 +619,16 @@ export class KernelManager extends EventEmitter {
             throw new Error(`Kernel not found: ${kernelId}`);
         }
 
+        // The server interrupts the way the kernel spec asks for
+        if (kernel.remote) {
+            await kernel.remote.server.interruptKernel(kernelId);
+            return;
+        }
+
         // Try ZMQ interrupt
-        if (kernel.zmqConnection) {
+        if (kernel.kernelConnection) {
             try {
-                await kernel.zmqConnection.interrupt();
+                await kernel.kernelConnection.interrupt();
                 return;
             } catch {
                 // Fall through to signal
@@ -414,14 +647,20 @@ export class KernelManager extends EventEmitter {
     public async execute(
         kernelId: string,
         code: string,
-        options: { silent?: boolean; storeHistory?: boolean } = {}
+        options: ExecuteOptions = {}
     ): Promise<ExecutionOutput> {
         const kernel = this.kernels.get(kernelId);
-        if (!kernel || !kernel.zmqConnection) {
+        if (!kernel || !kernel.kernelConnection) {
             throw new Error(`Kernel not connected: ${kernelId}`);
         }
 
-        return kernel.zmqConnection.execute(code, options);
+        try {
+            return await kernel.kernelConnection.execute(code, options);
+        } finally {
+            if (!options.silent) {
+                this.emit('executed', kernelId);
+            }
+        }
     }
 
     /**
@@ -436,7 +675,7 @@ export class KernelManager extends EventEmitter {
         sessionName: string,
         language: string,
         code: string,
-        options: { silent?: boolean; storeHistory?: boolean } = {},
+        options: ExecuteOptions = {},
         cwd?: string
     ): Promise<ExecutionOutput> {
         // Get or start kernel for session
@@ -464,10 +703,11 @@ export class KernelManager extends EventEmitter {
 
         return {
             spec: kernel.spec,
-            connection: kernel.connection,
+            connection: kernel.connection ?? undefined,
             state: kernel.state,
             pid: kernel.process?.pid,
             sessionId: kernel.sessionName,
+            server: kernel.remote?.server.baseUrl,
         };
     }
 
@@ -507,10 +747,10 @@ export class KernelManager extends EventEmitter {
     }
 
     /**
-     * Get available kernel specs
+     * Get available kernel specs, from the server in server mode
      */
     public async getAvailableKernels(): Promise<KernelSpec[]> {
-        const specs = await discoverKernelSpecsViaJupyter();
+        const specs = this.server ? await this.server.listKernelSpecs() : await discoverKernelSpecsViaJupyter();
         return Array.from(specs.values());
     }
 
@@ -525,9 +765,9 @@ export class KernelManager extends EventEmitter {
     /**
      * Get connection for kernel
      */
-    public getConnection(kernelId: string): KernelConnection | null {
+    public getConnection(kernelId: string): BaseKernelConnection | null {
         const kernel = this.kernels.get(kernelId);
-        return kernel?.zmqConnection || null;
+        return kernel?.kernelConnection || null;
     }
 }
 
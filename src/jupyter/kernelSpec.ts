@@ -155,31 +155,36 @@ export async function discoverKernelSpecsViaJupyter(): Promise<Map<string, Kerne
         });
 
         const result = JSON.parse(stdout);
-        const specs = new Map<string, KernelSpec>();
-
-        if (result.kernelspecs) {
-            for (const [name, data] of Object.entries(result.kernelspecs)) {
-                const spec = data as any;
-                specs.set(name, {
-                    name,
-                    displayName: spec.spec?.display_name || name,
-                    language: spec.spec?.language || 'unknown',
-                    resourceDir: spec.resource_dir || '',
-                    argv: spec.spec?.argv || [],
-                    env: spec.spec?.env,
-                    interruptMode: spec.spec?.interrupt_mode,
-                    metadata: spec.spec?.metadata,
-                });
-            }
-        }
-
-        return specs;
+        return kernelSpecsFromListing(result.kernelspecs);
     } catch {
         // Fallback to directory scanning
         return discoverKernelSpecs();
     }
 }
 
+/**
+ * Kernel specs from a `kernelspecs` listing, as printed by `jupyter
+ * kernelspec list --json` and returned by a Jupyter server's /api/kernelspecs
+ */
+export function kernelSpecsFromListing(kernelspecs: Record<string, any> | undefined): Map<string, KernelSpec> {
+    const specs = new Map<string, KernelSpec>();
+
+    for (const [name, spec] of Object.entries(kernelspecs || {})) {
+        specs.set(name, {
+            name,
+            displayName: spec?.spec?.display_name || name,
+            language: spec?.spec?.language || 'unknown',
+            resourceDir: spec?.resource_dir || '',
+            argv: spec?.spec?.argv || [],
+            env: spec?.spec?.env,
+            interruptMode: spec?.spec?.interrupt_mode,
+            metadata: spec?.spec?.metadata,
+        });
+    }
+
+    return specs;
+}
+
 /**
  * Find a kernel spec by name
  */
@@ -202,10 +207,14 @@ function kernelBinaryExists(spec: KernelSpec): boolean {
 }
 
 /**
- * Find kernel specs by language
+ * Specs in `specs` for a language, best first. Specs failing `usable` are
+ * skipped.
  */
-export async function findKernelSpecsByLanguage(language: string): Promise<KernelSpec[]> {
-    const specs = await discoverKernelSpecsViaJupyter();
+function matchKernelSpecsByLanguage(
+    specs: Map<string, KernelSpec>,
+    language: string,
+    usable: (spec: KernelSpec) => boolean
+): KernelSpec[] {
     const matches: KernelSpec[] = [];
 
     const normalizedLang = language.toLowerCase();
@@ -213,7 +222,7 @@ export async function findKernelSpecsByLanguage(language: string): Promise<Kerne
     for (const spec of specs.values()) {
         const specLang = spec.language.toLowerCase();
         if (specLang === normalizedLang || specLang.includes(normalizedLang)) {
-            if (!kernelBinaryExists(spec)) {
+            if (!usable(spec)) {
                 console.warn(`Skipping kernel '${spec.name}': interpreter not found: ${spec.argv[0]}`);
                 continue;
             }
@@ -233,6 +242,14 @@ export async function findKernelSpecsByLanguage(language: string): Promise<Kerne
     return matches;
 }
 
+/**
+ * Find kernel specs by language
+ */
+export async function findKernelSpecsByLanguage(language: string): Promise<KernelSpec[]> {
+    const specs = await discoverKernelSpecsViaJupyter();
+    return matchKernelSpecsByLanguage(specs, language, kernelBinaryExists);
+}
+
 /**
  * Get default kernel for a language
  */
@@ -276,19 +293,32 @@ const LANGUAGE_KERNEL_MAP: Record<string, string[]> = {
  * Find best kernel for a source block language
  */
 export async function findKernelForLanguage(language: string): Promise<KernelSpec | null> {
+    const specs = await discoverKernelSpecsViaJupyter();
+    return selectKernelForLanguage(specs, language, kernelBinaryExists);
+}
+
+/**
+ * Pick the best kernel in `specs` for a source block language: a spec for
+ * the language, else one of the usual kernel names for it. Specs failing
+ * `usable` are skipped; remote specs have nothing to check.
+ */
+export function selectKernelForLanguage(
+    specs: Map<string, KernelSpec>,
+    language: string,
+    usable: (spec: KernelSpec) => boolean = () => true
+): KernelSpec | null {
     const normalizedLang = language.toLowerCase();
 
     // First try direct language match
-    const spec = await getDefaultKernelForLanguage(normalizedLang);
-    if (spec) return spec;
+    const matches = matchKernelSpecsByLanguage(specs, normalizedLang, usable);
+    if (matches.length > 0) return matches[0];
 
     // Try mapped kernel names
     const mappedNames = LANGUAGE_KERNEL_MAP[normalizedLang];
     if (mappedNames) {
-        const specs = await discoverKernelSpecsViaJupyter();
         for (const name of mappedNames) {
             const candidate = specs.get(name);
-            if (candidate && kernelBinaryExists(candidate)) {
+            if (candidate && usable(candidate)) {
                 return candidate;
             }
         }
@@ -0,0 +1,244 @@
+/**
+ * Jupyter Kernel WebSocket Connection
+ * Talks to a kernel on a Jupyter server over its channels WebSocket
+ * (/api/kernels/<id>/channels), where the server relays the messages of all
+ * channels as JSON with a `channel` field
+ * https://jupyter-server.readthedocs.io/en/latest/developers/websocket-protocols.html
+ */
+
+import WebSocket from 'ws';
+import {
+    BaseKernelConnection,
+    type KernelConnectionEvents,
+    type RequestChannel,
+} from './kernelConnection';
+import type { JupyterServerClient } from './jupyterServer';
+import type { JupyterMessage, MessageHeader } from './types';
+
+/**
+ * Message as sent over the channels WebSocket
+ */
+interface WebSocketMessage extends JupyterMessage<any> {
+    channel: string;
+}
+
+/**
+ * Request waiting for its reply
+ */
+interface ReplyWaiter {
+    resolve: (message: JupyterMessage<any>) => void;
+    reject: (error: Error) => void;
+}
+
+const CONNECT_TIMEOUT = 30000;
+
+/**
+ * How long a request waits for its reply. Execution replies only come when
+ * the code finishes, so execute requests wait until the connection closes,
+ * as they do over ZMQ.
+ */
+export const REPLY_TIMEOUT = 30000;
+
+/**
+ * Decode a binary WebSocket frame: a message with binary buffers, laid out as
+ * the number of parts, their offsets (32-bit big-endian), the JSON message,
+ * then the buffers
+ */
+export function decodeBinaryMessage(data: Buffer): WebSocketMessage | null {
+    if (data.length < 4) return null;
+    const count = data.readUInt32BE(0);
+    if (count < 1 || data.length < 4 * (count + 1)) return null;
+
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+        offsets.push(data.readUInt32BE(4 * (i + 1)));
+    }
+    offsets.push(data.length);
+
+    try {
+        const message = JSON.parse(data.subarray(offsets[0], offsets[1]).toString('utf-8')) as WebSocketMessage;
+        const buffers: Buffer[] = [];
+        for (let i = 1; i < count; i++) {
+            buffers.push(data.subarray(offsets[i], offsets[i + 1]));
+        }
+        if (buffers.length > 0) {
+            message.buffers = buffers;
+        }
+        return message;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * WebSocket connection to a kernel on a Jupyter server
+ */
+export class RemoteKernelConnection extends BaseKernelConnection {
+    private server: JupyterServerClient;
+    private kernelId: string;
+    private socket: WebSocket | null = null;
+    private replyWaiters: Map<string, ReplyWaiter> = new Map();
+
+    constructor(server: JupyterServerClient, kernelId: string, events: KernelConnectionEvents = {}) {
+        super(events);
+        this.server = server;
+        this.kernelId = kernelId;
+    }
+
+    /**
+     * Open the channels WebSocket
+     */
+    public async connect(): Promise<void> {
+        if (this.connected) return;
+
+        const socket = new WebSocket(this.server.channelsUrl(this.kernelId, this.sessionId), {
+            headers: this.server.authHeaders(),
+            handshakeTimeout: CONNECT_TIMEOUT,
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            socket.once('open', () => {
+                socket.removeAllListeners('error');
+                resolve();
+            });
+            socket.once('unexpected-response', (_request, response) => {
+                // Aborting the handshake reports an error of its own
+                socket.removeAllListeners('error');
+                socket.on('error', () => { /* ignore */ });
+                socket.terminate();
+                reject(new Error(`Failed to connect to kernel: server answered ${response.statusCode} ${response.statusMessage ?? ''}`.trim()));
+            });
+            socket.once('error', (error) => {
+                reject(new Error(`Failed to connect to kernel: ${error.message}`));
+            });
+        });
+
+        socket.on('message', (data, isBinary) => this.handleFrame(data as Buffer, isBinary));
+        socket.on('close', (code, reason) => this.handleClose(`connection closed (${code}${reason.length ? `: ${reason}` : ''})`));
+        socket.on('error', (error) => this.handleClose(error.message));
+
+        this.socket = socket;
+        this.connected = true;
+    }
+
+    /**
+     * Close the WebSocket
+     */
+    public async disconnect(): Promise<void> {
+        if (!this.connected) return;
+
+        this.connected = false;
+        const socket = this.socket;
+        this.socket = null;
+        socket?.removeAllListeners();
+        socket?.on('error', () => { /* ignore errors while closing */ });
+        socket?.close();
+
+        this.rejectWaiters('Kernel disconnected');
+        this.rejectPending('Kernel disconnected');
+    }
+
+    /**
+     * The socket closed or failed without disconnect()
+     */
+    private handleClose(reason: string): void {
+        if (!this.connected) return;
+
+        this.connected = false;
+        this.socket?.removeAllListeners();
+        this.socket = null;
+
+        this.rejectWaiters(`Kernel connection lost: ${reason}`);
+        this.rejectPending(`Kernel connection lost: ${reason}`);
+        this.events.onClose?.(reason);
+    }
+
+    /**
+     * Reject requests waiting for replies
+     */
+    private rejectWaiters(reason: string): void {
+        for (const [, waiter] of this.replyWaiters) {
+            waiter.reject(new Error(reason));
+        }
+        this.replyWaiters.clear();
+    }
+
+    /**
+     * Route a received frame by its channel
+     */
+    private handleFrame(data: Buffer, isBinary: boolean): void {
+        let message: WebSocketMessage | null;
+        if (isBinary) {
+            message = decodeBinaryMessage(data);
+        } else {
+            try {
+                message = JSON.parse(data.toString('utf-8'));
+            } catch {
+                message = null;
+            }
+        }
+        if (!message?.header) return;
+
+        if (message.channel === 'iopub') {
+            this.handleIopubMessage(message);
+            return;
+        }
+
+        const parentMsgId = (message.parent_header as MessageHeader)?.msg_id;
+        const waiter = parentMsgId ? this.replyWaiters.get(parentMsgId) : undefined;
+        if (waiter) {
+            this.replyWaiters.delete(parentMsgId);
+            waiter.resolve(message);
+        }
+    }
+
+    /**
+     * Send a message on a channel
+     */
+    private send(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<void> {
+        const socket = this.socket;
+        if (!socket) {
+            return Promise.reject(new Error('Not connected to kernel'));
+        }
+        const frame: WebSocketMessage = { ...message, channel, buffers: [] } as WebSocketMessage;
+        return new Promise((resolve, reject) => {
+            socket.send(JSON.stringify(frame), (error) => error ? reject(error) : resolve());
+        });
+    }
+
+    /**
+     * Send a message and wait for reply
+     */
+    protected async exchange<TRep>(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<JupyterMessage<TRep>> {
+        const msgId = message.header.msg_id;
+        const msgType = message.header.msg_type;
+        let timer: NodeJS.Timeout | undefined;
+        const reply = new Promise<JupyterMessage<TRep>>((resolve, reject) => {
+            this.replyWaiters.set(msgId, { resolve, reject });
+            if (msgType !== 'execute_request') {
+                timer = setTimeout(() => {
+                    this.replyWaiters.delete(msgId);
+                    reject(new Error(`Kernel did not answer ${msgType} within ${REPLY_TIMEOUT / 1000}s`));
+                }, REPLY_TIMEOUT);
+            }
+        });
+        reply.catch(() => { /* awaited below, once sent */ });
+
+        try {
+            await this.send(channel, message);
+            return await reply;
+        } catch (error) {
+            this.replyWaiters.delete(msgId);
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Send a message without waiting for a reply
+     */
+    protected post(channel: RequestChannel, message: JupyterMessage<unknown>): Promise<void> {
+        return this.send(channel, message);
+    }
+}
@@ -0,0 +1,324 @@
+/**
+ * Rich MIME outputs for Jupyter results
+ *
+ * Kernels send each display as a MIME bundle: one value in several formats.
+ * One format is picked per bundle (see DEFAULT_MIME_ORDER, or the block's
+ * `:display` header) and turned into org: images and charts become files
+ * that the results link to, HTML becomes an export block, LaTeX a LaTeX
+ * fragment and Markdown org markup. Plotly and Vega specs are saved as JSON
+ * and drawn with their JavaScript libraries, in a webview while editing and
+ * inline in exported HTML.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Chart libraries whose specs are rendered interactively */
+export type ChartKind = 'plotly' | 'vega-lite' | 'vega';
+
+/**
+ * A bundle rendered for org
+ */
+export type RenderedOutput =
+    /** Plain text, shown with the block's printed output */
+    | { kind: 'text'; text: string }
+    /** Content to save in a file the results link to */
+    | { kind: 'file'; extension: string; content: string | Buffer }
+    /** Org markup placed in the results as is */
+    | { kind: 'org'; text: string };
+
+/** File name suffixes of saved chart specs */
+export const CHART_EXTENSIONS: Record<ChartKind, string> = {
+    'plotly': '.plotly.json',
+    'vega-lite': '.vl.json',
+    'vega': '.vg.json',
+};
+
+const CHART_MIME_TYPES: Record<string, ChartKind> = {
+    'application/vnd.plotly.v1+json': 'plotly',
+    'application/vnd.vegalite.v5+json': 'vega-lite',
+    'application/vnd.vegalite.v4+json': 'vega-lite',
+    'application/vnd.vegalite.v3+json': 'vega-lite',
+    'application/vnd.vegalite.v2+json': 'vega-lite',
+    'application/vnd.vega.v5+json': 'vega',
+    'application/vnd.vega.v4+json': 'vega',
+};
+
+/**
+ * Formats in order of preference: interactive charts, then images, then
+ * markup, then plain text
+ */
+export const DEFAULT_MIME_ORDER = [
+    ...Object.keys(CHART_MIME_TYPES),
+    'image/svg+xml',
+    'image/png',
+    'image/jpeg',
+    'application/pdf',
+    'text/html',
+    'text/markdown',
+    'text/latex',
+    'text/plain',
+];
+
+/** HTML longer than this is saved to a file instead of the org file */
+export const MAX_INLINE_HTML_LENGTH = 50000;
+
+/**
+ * Format order from a `:display` header: MIME types or their short names
+ * (`plain`, `html`, `png`, `plotly`, ...), most preferred first. Formats not
+ * named are not shown. Returns null when the header is absent.
+ */
+export function parseDisplayHeader(value: unknown): string[] | null {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    return value.trim().split(/[\s,]+/);
+}
+
+/**
+ * Whether `mimeType` is the format named by a `:display` entry
+ */
+function mimeMatches(mimeType: string, name: string): boolean {
+    if (name.includes('/')) return mimeType === name;
+    const subtype = mimeType.slice(mimeType.indexOf('/') + 1).replace(/^vnd\./, '');
+    return subtype.startsWith(name);
+}
+
+/**
+ * The format to show from a bundle, or null if none is wanted
+ */
+export function selectMimeType(bundle: Record<string, unknown>, order: string[] = DEFAULT_MIME_ORDER): string | null {
+    const available = Object.keys(bundle).filter(type => bundle[type] !== undefined && bundle[type] !== null);
+    for (const name of order) {
+        const match = available.find(type => mimeMatches(type, name));
+        if (match) return match;
+    }
+    return null;
+}
+
+/**
+ * Kernels may split text values into lists of lines
+ */
+function textValue(value: unknown): string {
+    return Array.isArray(value) ? value.join('') : String(value);
+}
+
+/**
+ * Render a bundle in its preferred format, or null when nothing in it is
+ * shown (for example when `:display` names no format it has)
+ */
+export function renderMimeBundle(
+    bundle: Record<string, unknown>,
+    order: string[] = DEFAULT_MIME_ORDER
+): RenderedOutput | null {
+    const mimeType = selectMimeType(bundle, order);
+    if (!mimeType) return null;
+    const value = bundle[mimeType];
+
+    const chart = CHART_MIME_TYPES[mimeType];
+    if (chart) {
+        const spec = typeof value === 'string' ? JSON.parse(value) : value;
+        return { kind: 'file', extension: CHART_EXTENSIONS[chart], content: JSON.stringify(spec) };
+    }
+
+    switch (mimeType) {
+        case 'image/png':
+            return { kind: 'file', extension: '.png', content: Buffer.from(textValue(value), 'base64') };
+        case 'image/jpeg':
+            return { kind: 'file', extension: '.jpg', content: Buffer.from(textValue(value), 'base64') };
+        case 'application/pdf':
+            return { kind: 'file', extension: '.pdf', content: Buffer.from(textValue(value), 'base64') };
+        case 'image/svg+xml':
+            return { kind: 'file', extension: '.svg', content: textValue(value) };
+        case 'text/html': {
+            const html = textValue(value).trim();
+            return html.length > MAX_INLINE_HTML_LENGTH
+                ? { kind: 'file', extension: '.html', content: html }
+                : { kind: 'org', text: htmlExportBlock(html) };
+        }
+        case 'text/markdown':
+            return { kind: 'org', text: markdownToOrg(textValue(value)) };
+        case 'text/latex':
+            return { kind: 'org', text: latexToOrg(textValue(value)) };
+        case 'text/plain':
+            return { kind: 'text', text: textValue(value) };
+        default:
+            return null;
+    }
+}
+
+/**
+ * HTML as a raw export block, passed through to HTML export only
+ */
+export function htmlExportBlock(html: string): string {
+    return `#+BEGIN_EXPORT html\n${html.trim()}\n#+END_EXPORT`;
+}
+
+/**
+ * LaTeX output as an org LaTeX fragment. Display math in `$$...$$` becomes
+ * `\[...\]`, and math without delimiters is wrapped in them.
+ */
+export function latexToOrg(latex: string): string {
+    const text = latex.trim();
+    const display = text.match(/^\$\$([\s\S]*)\$\$$/);
+    if (display) return `\\[${display[1].trim()}\\]`;
+    if (/^(\$|\\\[|\\\(|\\begin\{)/.test(text)) return text;
+    return `\\[${text}\\]`;
+}
+
+/**
+ * Convert the inline markup of one line of Markdown
+ */
+function markdownInlineToOrg(line: string): string {
+    // Code spans are verbatim; convert the text between them
+    return line.split(/(`+[^`]*?`+)/).map((part, i) => {
+        if (i % 2 === 1) {
+            const code = part.replace(/^`+|`+$/g, '').trim();
+            return code.includes('~') ? `=${code}=` : `~${code}~`;
+        }
+        // Links first, so emphasis markers in URLs are left alone
+        const links: string[] = [];
+        const keep = (link: string) => `\uE000${links.push(link) - 1}\uE000`;
+        let text = part
+            .replace(/!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, url) => keep(`[[${url}]]`))
+            .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label, url) => keep(`[[${url}][${label}]]`))
+            .replace(/<(https?:\/\/[^>\s]+)>/g, (_, url) => keep(`[[${url}]]`));
+        text = text
+            .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '\uE001$2\uE001')
+            .replace(/(^|[^\w*])([*_])(?=\S)([^*_]+?)(?<=\S)\2(?![\w*])/g, '$1/$3/')
+            .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '+$1+')
+            .replace(/\uE001/g, '*');
+        return text.replace(/\uE000(\d+)\uE000/g, (_, n) => links[Number(n)]);
+    }).join('');
+}
+
+/**
+ * Markdown output as org markup. Headings become bold lines, since a
+ * heading would end the results.
+ */
+export function markdownToOrg(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').trim().split('\n');
+    const out: string[] = [];
+    let fence: string | null = null;
+    let fenceEnd = '';
+    let inQuote = false;
+
+    for (const line of lines) {
+        if (fence !== null) {
+            if (line.trim().startsWith(fence)) {
+                out.push(fenceEnd);
+                fence = null;
+            } else {
+                out.push(line);
+            }
+            continue;
+        }
+
+        const quote = line.match(/^\s*>\s?(.*)$/);
+        if (inQuote && !quote) {
+            out.push('#+END_QUOTE');
+            inQuote = false;
+        }
+
+        const fenceStart = line.match(/^\s*(```|~~~)\s*([\w+-]*)/);
+        if (fenceStart) {
+            fence = fenceStart[1];
+            fenceEnd = fenceStart[2] ? '#+END_SRC' : '#+END_EXAMPLE';
+            out.push(fenceStart[2] ? `#+BEGIN_SRC ${fenceStart[2]}` : '#+BEGIN_EXAMPLE');
+            continue;
+        }
+        if (quote) {
+            if (!inQuote) {
+                out.push('#+BEGIN_QUOTE');
+                inQuote = true;
+            }
+            out.push(markdownInlineToOrg(quote[1]));
+            continue;
+        }
+
+        const heading = line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            out.push(`*${markdownInlineToOrg(heading[1])}*`);
+        } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            out.push('-----');
+        } else if (/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line) && line.includes('|')) {
+            out.push('|-');
+        } else if (line.trim().startsWith('|')) {
+            out.push(line);
+        } else {
+            const item = line.match(/^(\s*)[*+]\s+(.*)$/);
+            out.push(item ? `${item[1]}- ${markdownInlineToOrg(item[2])}` : markdownInlineToOrg(line));
+        }
+    }
+    if (fence !== null) out.push(fenceEnd);
+    if (inQuote) out.push('#+END_QUOTE');
+    return out.join('\n');
+}
+
+/**
+ * The chart library a saved spec is for, from its file name
+ */
+export function chartKindOfPath(filePath: string): ChartKind | null {
+    const lower = filePath.toLowerCase();
+    for (const [kind, extension] of Object.entries(CHART_EXTENSIONS) as [ChartKind, string][]) {
+        if (lower.endsWith(extension)) return kind;
+    }
+    return null;
+}
+
+/** Scripts each chart library needs, loaded from jsDelivr */
+export const CHART_LIBRARIES: Record<ChartKind, string[]> = {
+    'plotly': ['https://cdn.jsdelivr.net/npm/plotly.js-dist-min@2/plotly.min.js'],
+    'vega-lite': [
+        'https://cdn.jsdelivr.net/npm/vega@5',
+        'https://cdn.jsdelivr.net/npm/vega-lite@5',
+        'https://cdn.jsdelivr.net/npm/vega-embed@6',
+    ],
+    'vega': [
+        'https://cdn.jsdelivr.net/npm/vega@5',
+        'https://cdn.jsdelivr.net/npm/vega-embed@6',
+    ],
+};
+
+/**
+ * HTML that draws a chart spec into a new element with id `id`, after
+ * loading `scripts` (a page with several charts loads each library once)
+ */
+export function chartHtml(
+    kind: ChartKind,
+    spec: unknown,
+    id: string,
+    scripts: string[] = CHART_LIBRARIES[kind]
+): string {
+    // Keep "</script>" in strings from ending the script element
+    const json = JSON.stringify(spec).replace(/</g, '\\u003c');
+    const tags = scripts.map(src => `<script src="${src}"></script>\n`).join('');
+    const draw = kind === 'plotly'
+        ? `(function (figure) { Plotly.newPlot(${JSON.stringify(id)}, figure.data || [], figure.layout || {}, Object.assign({ responsive: true }, figure.config)); })(${json});`
+        : `vegaEmbed(${JSON.stringify('#' + id)}, ${json}, { mode: ${JSON.stringify(kind)}, actions: false });`;
+    return `${tags}<div id="${id}" class="org-jupyter-chart"></div>\n<script>${draw}</script>`;
+}
+
+/** A line that is only a link to a saved chart spec */
+const CHART_LINK_LINE = /^[ \t]*\[\[(?:file:)?([^\]]+?\.(?:plotly|vl|vg)\.json)\](?:\[[^\]]*\])?\][ \t]*$/gm;
+
+/**
+ * Replace links to saved chart specs with HTML export blocks that draw
+ * them, for export to HTML. Relative links resolve against `baseDir`;
+ * links to missing or unreadable files are left as they are.
+ */
+export function embedJupyterCharts(content: string, baseDir: string): string {
+    const loaded = new Set<string>();
+    let count = 0;
+    return content.replace(CHART_LINK_LINE, (line, file: string) => {
+        const kind = chartKindOfPath(file);
+        if (!kind) return line;
+        let spec: unknown;
+        try {
+            spec = JSON.parse(fs.readFileSync(path.resolve(baseDir, file), 'utf-8'));
+        } catch {
+            return line;
+        }
+        const scripts = CHART_LIBRARIES[kind].filter(src => !loaded.has(src));
+        scripts.forEach(src => loaded.add(src));
+        return htmlExportBlock(chartHtml(kind, spec, `org-jupyter-chart-${++count}`, scripts));
+    });
+}
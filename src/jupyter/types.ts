@@ -282,8 +282,8 @@ export interface StreamContent {
  * Display data content
  */
 export interface DisplayDataContent {
-    /** MIME bundle */
-    data: Record<string, string>;
+    /** MIME bundle; JSON types (e.g. application/vnd.plotly.v1+json) are objects */
+    data: Record<string, unknown>;
     /** Metadata */
     metadata: Record<string, unknown>;
     /** Transient info */
@@ -309,7 +309,7 @@ export interface ExecuteResultContent {
     /** Execution count */
     execution_count: number;
     /** Result data (MIME bundle) */
-    data: Record<string, string>;
+    data: Record<string, unknown>;
     /** Metadata */
     metadata: Record<string, unknown>;
 }
@@ -379,14 +379,16 @@ export type KernelState = 'starting' | 'idle' | 'busy' | 'dead' | 'unknown';
 export interface KernelInfo {
     /** Kernel spec */
     spec: KernelSpec;
-    /** Connection info */
-    connection: ConnectionInfo;
+    /** Connection info (local kernels) */
+    connection?: ConnectionInfo;
     /** Current state */
     state: KernelState;
     /** Process ID */
     pid?: number;
     /** Session ID */
     sessionId: string;
+    /** Base URL of the Jupyter server (remote kernels) */
+    server?: string;
 }
 
 // =============================================================================
@@ -410,3 +412,17 @@ export interface ExecutionOutput {
     /** Execution count */
     executionCount?: number;
 }
+
+/**
+ * Options for an execute request
+ */
+export interface ExecuteOptions {
+    silent?: boolean;
+    storeHistory?: boolean;
+    allowStdin?: boolean;
+    stopOnError?: boolean;
+    /** Called for each stream message of this request as it arrives */
+    onStream?: (name: 'stdout' | 'stderr', text: string) => void;
+    /** Called for each display_data message of this request as it arrives */
+    onDisplayData?: (data: DisplayDataContent) => void;
+}
@@ -0,0 +1,496 @@
+/**
+ * Jupyter variable explorer
+ *
+ * The "Jupyter Variables" view lists the variables of one running kernel:
+ * the one picked with the view's kernel button, otherwise the session of the
+ * jupyter-* block at the cursor, otherwise the kernel that ran code last.
+ * Variables are read with a silent introspection execute (see
+ * variableInspector), again after every cell the kernel runs. Data frames,
+ * arrays and other tabular values open in a paged table, and can be inserted
+ * into the org file as a table.
+ */
+
+import * as vscode from 'vscode';
+import { getKernelManager } from './kernelManager';
+import { getJupyterSessionName } from './jupyterExecutor';
+import { findJupyterBlockAt } from './kernelAssist';
+import {
+    listVariablesCode,
+    variablePageCode,
+    parseInspectorOutput,
+    describeVariableSize,
+    variablePageToOrgTable,
+    inspectorLanguage,
+    type InspectorLanguage,
+    type KernelVariable,
+    type VariablePage,
+} from './variableInspector';
+import type { ExecuteOptions } from './types';
+import { parseHeaderArguments } from '../parser/orgBabel';
+import { escapeHtml } from '../utils/escapeUtils';
+
+/** Rows per page in the data view */
+const PAGE_SIZE = 50;
+
+/** Most rows "insert as org table" writes into a file */
+const MAX_INSERT_ROWS = 1000;
+
+/** Introspection is neither numbered nor kept in the kernel's history */
+const INTROSPECTION_OPTIONS: ExecuteOptions = { silent: true, storeHistory: false };
+
+/**
+ * The kernel whose variables are shown
+ */
+interface InspectedKernel {
+    kernelId: string;
+    sessionName: string;
+    /** Kernel language, as the kernel spec names it */
+    kernelLanguage: string;
+    /** Null for kernels without introspection snippets */
+    language: InspectorLanguage | null;
+}
+
+/**
+ * Run a snippet silently and parse what it printed
+ */
+async function introspect<T>(kernel: InspectedKernel, code: string): Promise<T> {
+    const output = await getKernelManager().execute(kernel.kernelId, code, INTROSPECTION_OPTIONS);
+    if (output.error) {
+        throw new Error(`${output.error.ename}: ${output.error.evalue}`);
+    }
+    const result = parseInspectorOutput<T>(output.stdout);
+    if (result === null) {
+        throw new Error('the kernel printed no result');
+    }
+    return result;
+}
+
+async function fetchPage(
+    kernel: InspectedKernel,
+    name: string,
+    offset: number,
+    limit: number
+): Promise<VariablePage> {
+    if (!kernel.language) {
+        throw new Error(`no variable support for ${kernel.kernelLanguage} kernels`);
+    }
+    return introspect<VariablePage>(kernel, variablePageCode(kernel.language, name, offset, limit));
+}
+
+class VariableItem extends vscode.TreeItem {
+    constructor(readonly variable: KernelVariable) {
+        super(variable.name, vscode.TreeItemCollapsibleState.None);
+        const size = describeVariableSize(variable);
+        this.description = `${[variable.type, size].filter(Boolean).join(' ')}  ${variable.repr}`;
+        this.tooltip = new vscode.MarkdownString()
+            .appendMarkdown(`**${variable.name}**: \`${variable.type}\`${size ? ` (${size})` : ''}`)
+            .appendCodeblock(variable.repr, 'text');
+        this.iconPath = new vscode.ThemeIcon(variable.tabular ? 'table' : 'symbol-variable');
+        this.contextValue = variable.tabular ? 'jupyterVariable.tabular' : 'jupyterVariable';
+        if (variable.tabular) {
+            this.command = {
+                command: 'scimax.jupyter.variables.viewData',
+                title: 'View Data',
+                arguments: [this],
+            };
+        }
+    }
+}
+
+class VariableExplorerProvider implements vscode.TreeDataProvider<VariableItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private treeView: vscode.TreeView<VariableItem> | undefined;
+    /** Kernel chosen with the view's kernel button, until it stops */
+    private pinnedKernelId: string | undefined;
+    /** Kernel that last ran user code */
+    private lastKernelId: string | undefined;
+    /** Org editor last focused, where tables are inserted */
+    private orgEditor: vscode.TextEditor | undefined;
+
+    private kernel: InspectedKernel | null = null;
+    private variables: KernelVariable[] = [];
+    /** Whether the variables changed while the view was hidden */
+    private stale = true;
+    private loading: Promise<void> = Promise.resolve();
+
+    setTreeView(treeView: vscode.TreeView<VariableItem>): void {
+        this.treeView = treeView;
+    }
+
+    getTreeItem(element: VariableItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: VariableItem): VariableItem[] {
+        if (element) return [];
+        return this.variables.map(variable => new VariableItem(variable));
+    }
+
+    get currentKernel(): InspectedKernel | null {
+        return this.kernel;
+    }
+
+    get currentVariables(): KernelVariable[] {
+        return this.variables;
+    }
+
+    get targetEditor(): vscode.TextEditor | undefined {
+        const active = vscode.window.activeTextEditor;
+        if (active?.document.languageId === 'org') return active;
+        return this.orgEditor && vscode.window.visibleTextEditors.includes(this.orgEditor)
+            ? this.orgEditor
+            : undefined;
+    }
+
+    trackEditor(editor: vscode.TextEditor | undefined): void {
+        if (editor?.document.languageId === 'org') {
+            this.orgEditor = editor;
+        }
+    }
+
+    pinKernel(kernelId: string | undefined): void {
+        this.pinnedKernelId = kernelId;
+        this.refresh();
+    }
+
+    kernelExecuted(kernelId: string): void {
+        this.lastKernelId = kernelId;
+        this.refresh();
+    }
+
+    kernelStopped(kernelId: string): void {
+        if (this.pinnedKernelId === kernelId) this.pinnedKernelId = undefined;
+        if (this.lastKernelId === kernelId) this.lastKernelId = undefined;
+        this.refresh();
+    }
+
+    /**
+     * Reload the variables now if the view is showing, else when it is shown
+     */
+    refresh(): void {
+        if (!this.treeView?.visible) {
+            this.stale = true;
+            return;
+        }
+        this.stale = false;
+        // One load at a time; load reports its own failures in the view
+        this.loading = this.loading.then(() => this.load()).catch(() => undefined);
+    }
+
+    refreshIfStale(): void {
+        if (this.stale) this.refresh();
+    }
+
+    private resolveKernel(): InspectedKernel | null {
+        const manager = getKernelManager();
+        const sessions = manager.getSessions();
+        if (sessions.length === 0) return null;
+
+        let kernelId = this.pinnedKernelId && manager.getKernelInfo(this.pinnedKernelId)
+            ? this.pinnedKernelId
+            : undefined;
+
+        const editor = this.targetEditor;
+        if (!kernelId && editor) {
+            const block = findJupyterBlockAt(editor.document.getText(), editor.selection.active.line);
+            if (block) {
+                const sessionName = getJupyterSessionName(block.language, parseHeaderArguments(block.parameters).session);
+                kernelId = manager.getKernelIdBySession(sessionName) ?? undefined;
+            }
+        }
+        if (!kernelId && this.lastKernelId && manager.getKernelInfo(this.lastKernelId)) {
+            kernelId = this.lastKernelId;
+        }
+
+        const session = sessions.find(s => s.kernelId === kernelId) ?? sessions[sessions.length - 1];
+        return {
+            kernelId: session.kernelId,
+            sessionName: session.name,
+            kernelLanguage: session.language,
+            language: inspectorLanguage(session.language),
+        };
+    }
+
+    private async load(): Promise<void> {
+        const kernel = this.resolveKernel();
+        this.kernel = kernel;
+        this.variables = [];
+        let message: string | undefined;
+
+        if (!kernel) {
+            message = 'No running Jupyter kernel. Run a jupyter-* source block to start one.';
+        } else if (!kernel.language) {
+            message = `Variables are not available for ${kernel.kernelLanguage} kernels.`;
+        } else {
+            try {
+                const variables = await introspect<KernelVariable[]>(kernel, listVariablesCode(kernel.language));
+                this.variables = variables.sort((a, b) => a.name.localeCompare(b.name));
+                if (this.variables.length === 0) message = 'No variables defined.';
+            } catch (error) {
+                message = `Could not read variables: ${error instanceof Error ? error.message : String(error)}`;
+            }
+        }
+
+        if (this.treeView) {
+            this.treeView.message = message;
+            this.treeView.description = kernel ? `${kernel.sessionName} (${kernel.kernelLanguage})` : undefined;
+        }
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+/**
+ * Paged table of one tabular variable
+ */
+class VariableDataPanel {
+    private panel: vscode.WebviewPanel | undefined;
+    private kernel: InspectedKernel | undefined;
+    private name = '';
+    private offset = 0;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly insertTable: (kernel: InspectedKernel, name: string) => Promise<void>
+    ) {}
+
+    show(kernel: InspectedKernel, name: string): void {
+        this.kernel = kernel;
+        this.name = name;
+        this.offset = 0;
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'scimaxJupyterVariable',
+                name,
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true }
+            );
+            this.panel.webview.onDidReceiveMessage(m => this.onMessage(m), undefined, this.context.subscriptions);
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.kernel = undefined;
+            });
+        }
+        this.update();
+    }
+
+    /**
+     * Show the kernel's new values after it ran code
+     */
+    kernelExecuted(kernelId: string): void {
+        if (this.panel && this.kernel?.kernelId === kernelId) this.update();
+    }
+
+    kernelStopped(kernelId: string): void {
+        if (this.kernel?.kernelId === kernelId) this.panel?.dispose();
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        if (!this.kernel) return;
+        if (message?.type === 'page' && typeof message.offset === 'number') {
+            this.offset = Math.max(0, message.offset);
+            await this.update();
+        } else if (message?.type === 'refresh') {
+            await this.update();
+        } else if (message?.type === 'insert') {
+            await this.insertTable(this.kernel, this.name);
+        }
+    }
+
+    private async update(): Promise<void> {
+        const panel = this.panel;
+        const kernel = this.kernel;
+        if (!panel || !kernel) return;
+        panel.title = `${this.name} (${kernel.sessionName})`;
+        try {
+            const page = await fetchPage(kernel, this.name, this.offset, PAGE_SIZE);
+            // A page past the end, after the variable shrank: go to the last page
+            if (page.rows.length === 0 && page.total > 0 && this.offset > 0) {
+                this.offset = Math.floor((page.total - 1) / PAGE_SIZE) * PAGE_SIZE;
+                return this.update();
+            }
+            if (this.panel === panel) panel.webview.html = this.getHtml(page);
+        } catch (error) {
+            if (this.panel === panel) {
+                panel.webview.html = this.getHtml(null, error instanceof Error ? error.message : String(error));
+            }
+        }
+    }
+
+    private getHtml(page: VariablePage | null, error?: string): string {
+        const first = page && page.rows.length > 0 ? page.offset + 1 : 0;
+        const last = page ? page.offset + page.rows.length : 0;
+        const lastOffset = page ? Math.max(0, Math.floor((page.total - 1) / PAGE_SIZE) * PAGE_SIZE) : 0;
+        const body = page
+            ? `<table>
+<thead><tr>${page.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>
+<tbody>
+${page.rows.map(row => `<tr>${row.map((cell, i) => i === 0 ? `<th>${escapeHtml(cell)}</th>` : `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`
+            : `<p class="empty">Could not read <code>${escapeHtml(this.name)}</code>: ${escapeHtml(error ?? '')}</p>`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline';">
+<style>
+  body { font-family: var(--vscode-font-family, sans-serif); color: var(--vscode-editor-foreground); padding: 12px; }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 12px; position: sticky; top: 0; background: var(--vscode-editor-background); padding: 4px 0; }
+  button { font: inherit; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  button:disabled { opacity: 0.5; cursor: default; }
+  .range, .empty { color: var(--vscode-descriptionForeground); }
+  table { border-collapse: collapse; font-family: var(--vscode-editor-font-family, monospace); font-size: var(--vscode-editor-font-size, 13px); }
+  th, td { border: 1px solid var(--vscode-panel-border, #8884); padding: 2px 8px; text-align: right; white-space: pre; }
+  thead th, tbody th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <button data-offset="0"${page && page.offset > 0 ? '' : ' disabled'}>First</button>
+  <button data-offset="${page ? Math.max(0, page.offset - PAGE_SIZE) : 0}"${page && page.offset > 0 ? '' : ' disabled'}>Previous</button>
+  <button data-offset="${last}"${page && last < page.total ? '' : ' disabled'}>Next</button>
+  <button data-offset="${lastOffset}"${page && last < page.total ? '' : ' disabled'}>Last</button>
+  <span class="range">${page ? `Rows ${first}–${last} of ${page.total}` : ''}</span>
+  <button id="refresh">Refresh</button>
+  <button id="insert"${page ? '' : ' disabled'}>Insert as org table</button>
+</div>
+${body}
+<script>
+  const vscode = acquireVsCodeApi();
+  document.querySelectorAll('button[data-offset]').forEach(button => {
+    button.addEventListener('click', () => vscode.postMessage({ type: 'page', offset: Number(button.dataset.offset) }));
+  });
+  document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+  document.getElementById('insert').addEventListener('click', () => vscode.postMessage({ type: 'insert' }));
+</script>
+</body>
+</html>`;
+    }
+}
+
+/**
+ * Insert a variable as an org table below the cursor line of `editor`
+ */
+async function insertVariableTable(
+    editor: vscode.TextEditor | undefined,
+    kernel: InspectedKernel,
+    name: string
+): Promise<void> {
+    if (!editor) {
+        vscode.window.showWarningMessage('Open an org file to insert the table into');
+        return;
+    }
+    let page: VariablePage;
+    try {
+        page = await fetchPage(kernel, name, 0, MAX_INSERT_ROWS);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not read ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    const table = variablePageToOrgTable(page);
+    const line = editor.document.lineAt(editor.selection.active.line);
+    await editor.edit(edit => {
+        if (line.isEmptyOrWhitespace) {
+            edit.replace(line.range, table);
+        } else {
+            edit.insert(line.range.end, '\n' + table);
+        }
+    });
+    if (page.total > page.rows.length) {
+        vscode.window.showInformationMessage(`Inserted the first ${page.rows.length} of ${page.total} rows of ${name}`);
+    }
+}
+
+/**
+ * Register the variable explorer view and its commands
+ */
+export function registerVariableExplorer(context: vscode.ExtensionContext): void {
+    const manager = getKernelManager();
+    const provider = new VariableExplorerProvider();
+    const treeView = vscode.window.createTreeView('scimax.jupyterVariables', { treeDataProvider: provider });
+    provider.setTreeView(treeView);
+    provider.trackEditor(vscode.window.activeTextEditor);
+
+    const insertTable = (kernel: InspectedKernel, name: string) =>
+        insertVariableTable(provider.targetEditor, kernel, name);
+    const dataPanel = new VariableDataPanel(context, insertTable);
+
+    /** The variable an item command applies to, asking when run from the palette */
+    const pickVariable = async (item?: VariableItem): Promise<KernelVariable | undefined> => {
+        if (item) return item.variable;
+        const tabular = provider.currentVariables.filter(v => v.tabular);
+        if (tabular.length === 0) {
+            vscode.window.showWarningMessage('No tabular variables in the Jupyter Variables view');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            tabular.map(v => ({ label: v.name, description: `${v.type} ${describeVariableSize(v)}`, variable: v })),
+            { placeHolder: 'Variable' }
+        );
+        return picked?.variable;
+    };
+
+    const onExecuted = (kernelId: string) => {
+        provider.kernelExecuted(kernelId);
+        dataPanel.kernelExecuted(kernelId);
+    };
+    const onStopped = (kernelId: string) => {
+        provider.kernelStopped(kernelId);
+        dataPanel.kernelStopped(kernelId);
+    };
+    const onStarted = () => provider.refresh();
+    manager.on('executed', onExecuted);
+    manager.on('kernelStopped', onStopped);
+    manager.on('kernelStarted', onStarted);
+
+    context.subscriptions.push(
+        treeView,
+        {
+            dispose: () => {
+                manager.off('executed', onExecuted);
+                manager.off('kernelStopped', onStopped);
+                manager.off('kernelStarted', onStarted);
+            },
+        },
+        treeView.onDidChangeVisibility(e => {
+            if (e.visible) provider.refreshIfStale();
+        }),
+        vscode.window.onDidChangeActiveTextEditor(editor => {
+            provider.trackEditor(editor);
+            if (editor?.document.languageId === 'org') provider.refresh();
+        }),
+        vscode.commands.registerCommand('scimax.jupyter.variables.refresh', () => provider.refresh()),
+        vscode.commands.registerCommand('scimax.jupyter.variables.selectKernel', async () => {
+            const sessions = manager.getSessions();
+            if (sessions.length === 0) {
+                vscode.window.showWarningMessage('No running kernels');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                [
+                    { label: 'Follow the cursor', description: 'Session of the block at the cursor, or the last one run', kernelId: undefined },
+                    ...sessions.map(s => ({ label: s.name, description: `${s.language} (${s.state})`, kernelId: s.kernelId })),
+                ],
+                { placeHolder: 'Show variables of' }
+            );
+            if (picked) provider.pinKernel(picked.kernelId);
+        }),
+        vscode.commands.registerCommand('scimax.jupyter.variables.viewData', async (item?: VariableItem) => {
+            const kernel = provider.currentKernel;
+            const variable = await pickVariable(item);
+            if (kernel && variable) dataPanel.show(kernel, variable.name);
+        }),
+        vscode.commands.registerCommand('scimax.jupyter.variables.insertTable', async (item?: VariableItem) => {
+            const kernel = provider.currentKernel;
+            const variable = await pickVariable(item);
+            if (kernel && variable) await insertTable(kernel, variable.name);
+        })
+    );
+}
@@ -0,0 +1,293 @@
+/**
+ * Kernel variable introspection for Python, Julia and R kernels
+ *
+ * The variable explorer lists a kernel's variables by running a short,
+ * silent snippet in the kernel that prints one JSON line behind a marker;
+ * the snippets leave nothing behind in the user's namespace. Tabular values
+ * (data frames, arrays, vectors) are read a page of rows at a time, every
+ * cell already formatted as text by the kernel's own printing.
+ */
+
+import { rowsToOrgTable } from '../parser/orgBabelLanguages';
+
+/** Languages with introspection snippets */
+export type InspectorLanguage = 'python' | 'julia' | 'r';
+
+/**
+ * A variable in a kernel's global namespace
+ */
+export interface KernelVariable {
+    name: string;
+    /** Type or class name, as the kernel spells it */
+    type: string;
+    /** Dimensions of arrays and data frames */
+    shape: number[] | null;
+    /** Length of other collections and strings */
+    length: number | null;
+    /** One-line, shortened representation of the value */
+    repr: string;
+    /** Whether the value can be shown as rows with variablePageCode */
+    tabular: boolean;
+}
+
+/**
+ * A page of rows from a tabular variable. The first column holds the row
+ * labels (index, row names or row numbers).
+ */
+export interface VariablePage {
+    columns: string[];
+    rows: string[][];
+    /** Rows in the whole variable */
+    total: number;
+    /** 0-based index of the first row in the page */
+    offset: number;
+}
+
+/** Prefix of the line carrying an introspection result */
+export const INSPECTOR_MARKER = '__scimax_inspector__';
+
+/** Longest representation a snippet returns */
+const MAX_REPR_LENGTH = 120;
+
+/**
+ * Introspection language for a kernel language, or null when unsupported
+ */
+export function inspectorLanguage(kernelLanguage: string): InspectorLanguage | null {
+    const language = kernelLanguage.toLowerCase();
+    if (language === 'python' || language === 'python3') return 'python';
+    if (language === 'julia') return 'julia';
+    if (language === 'r') return 'r';
+    return null;
+}
+
+/**
+ * Whether `name` can be looked up by the snippets: identifiers of the three
+ * languages, without anything that could escape the string it is quoted in
+ */
+export function isVariableName(name: string): boolean {
+    return /^[\p{L}_.][\p{L}\p{N}_.!]*$/u.test(name);
+}
+
+/**
+ * Code that prints the kernel's variables. Modules, functions and types are
+ * left out, as are names starting with an underscore and IPython's own.
+ */
+export function listVariablesCode(language: InspectorLanguage): string {
+    switch (language) {
+        case 'python':
+            return String.raw`def _scimax_list_variables():
+    import json, reprlib, types
+    try:
+        shell = get_ipython()
+        namespace, hidden = shell.user_ns, shell.user_ns_hidden
+    except NameError:
+        namespace, hidden = globals(), {}
+    skipped = (types.ModuleType, types.FunctionType, types.BuiltinFunctionType, types.MethodType, type)
+    short = reprlib.Repr()
+    short.maxstring = short.maxother = ${MAX_REPR_LENGTH}
+    result = []
+    for name, value in list(namespace.items()):
+        if name.startswith('_') or name in hidden or isinstance(value, skipped):
+            continue
+        kind = type(value)
+        shape = getattr(value, 'shape', None)
+        try:
+            shape = [int(n) for n in shape] if isinstance(shape, tuple) else None
+        except (TypeError, ValueError):
+            shape = None
+        try:
+            length = len(value) if shape is None else None
+        except Exception:
+            length = None
+        try:
+            text = ' '.join(short.repr(value).split())
+        except Exception:
+            text = ''
+        is_frame = kind.__module__.split('.')[0] == 'pandas' and kind.__name__ in ('DataFrame', 'Series')
+        tabular = is_frame or (shape is not None and 1 <= len(shape) <= 2) or isinstance(value, (list, tuple, dict))
+        result.append({'name': name, 'type': kind.__name__, 'shape': shape, 'length': length,
+                       'repr': text[:${MAX_REPR_LENGTH}], 'tabular': tabular})
+    print('${INSPECTOR_MARKER}' + json.dumps(result))
+try:
+    _scimax_list_variables()
+finally:
+    del _scimax_list_variables
+`;
+        case 'julia':
+            return String.raw`let
+    jstr(s) = "\"" * replace(replace(filter(!iscntrl, s), "\\" => "\\\\"), "\"" => "\\\"") * "\""
+    items = String[]
+    for name in names(Main)
+        s = string(name)
+        (startswith(s, "_") || s in ("Base", "Core", "Main", "ans", "InteractiveUtils")) && continue
+        isdefined(Main, name) || continue
+        value = getfield(Main, name)
+        (value isa Module || value isa Function || value isa Type) && continue
+        shape = value isa Number ? nothing : try
+            dims = size(value)
+            isempty(dims) ? nothing : collect(dims)
+        catch
+            nothing
+        end
+        len = shape !== nothing || value isa Number ? nothing : try length(value) catch; nothing end
+        text = join(split(repr(value; context = :limit => true)), " ")
+        length(text) > ${MAX_REPR_LENGTH} && (text = first(text, ${MAX_REPR_LENGTH - 1}) * "…")
+        tabular = shape !== nothing && (value isa AbstractArray ? length(shape) <= 2 : length(shape) == 2)
+        push!(items, string("{\"name\":", jstr(s), ",\"type\":", jstr(string(typeof(value))),
+            ",\"shape\":", shape === nothing ? "null" : "[" * join(shape, ",") * "]",
+            ",\"length\":", len === nothing ? "null" : string(len),
+            ",\"repr\":", jstr(text), ",\"tabular\":", tabular, "}"))
+    end
+    println("${INSPECTOR_MARKER}[", join(items, ","), "]")
+end
+`;
+        case 'r':
+            return String.raw`local({
+  jstr <- function(s) paste0('"', gsub('"', '\\"', gsub('\\', '\\\\', gsub('[[:cntrl:]]', ' ', s), fixed = TRUE), fixed = TRUE), '"')
+  items <- character(0)
+  for (name in ls(globalenv())) {
+    value <- get(name, envir = globalenv())
+    if (is.function(value) || is.environment(value)) next
+    d <- dim(value)
+    shape <- if (is.null(d)) 'null' else paste0('[', paste(d, collapse = ','), ']')
+    len <- if (is.null(d) && length(value) != 1) as.character(length(value)) else 'null'
+    text <- gsub('\\s+', ' ', trimws(paste(utils::capture.output(
+      utils::str(value, max.level = 1, vec.len = 2, give.attr = FALSE)), collapse = ' ')))
+    if (nchar(text) > ${MAX_REPR_LENGTH}) text <- paste0(substr(text, 1, ${MAX_REPR_LENGTH - 3}), '...')
+    tabular <- is.data.frame(value) || is.matrix(value) || (is.atomic(value) && is.null(d) && length(value) > 1)
+    items <- c(items, paste0('{"name":', jstr(name), ',"type":', jstr(class(value)[1]),
+      ',"shape":', shape, ',"length":', len, ',"repr":', jstr(text),
+      ',"tabular":', if (tabular) 'true' else 'false', '}'))
+  }
+  cat('${INSPECTOR_MARKER}[', paste(items, collapse = ','), ']\n', sep = '')
+})
+`;
+    }
+}
+
+/**
+ * Code that prints `limit` rows of variable `name`, starting at the 0-based
+ * row `offset`
+ */
+export function variablePageCode(language: InspectorLanguage, name: string, offset: number, limit: number): string {
+    if (!isVariableName(name)) {
+        throw new Error(`Not a variable name: ${name}`);
+    }
+    const quoted = JSON.stringify(name);
+    const start = Math.max(0, Math.floor(offset));
+    const count = Math.max(0, Math.floor(limit));
+
+    switch (language) {
+        case 'python':
+            return String.raw`def _scimax_variable_page(name, offset, limit):
+    import json
+    try:
+        value = get_ipython().user_ns[name]
+    except NameError:
+        value = globals()[name]
+    kind = type(value)
+    if kind.__module__.split('.')[0] == 'pandas' and kind.__name__ in ('DataFrame', 'Series'):
+        frame = value.to_frame() if kind.__name__ == 'Series' else value
+        part = frame.iloc[offset:offset + limit]
+        columns = [str(frame.index.name or '')] + [str(c) for c in frame.columns]
+        rows = [[str(i)] + [str(v) for v in row] for i, row in zip(part.index, part.itertuples(index=False))]
+        total = len(frame)
+    elif hasattr(value, 'shape'):
+        import numpy
+        array = numpy.asarray(value)
+        array = array.reshape(-1, 1) if array.ndim < 2 else array.reshape(array.shape[0], -1)
+        columns = [''] + [str(j) for j in range(array.shape[1])]
+        rows = [[str(offset + i)] + [str(v) for v in row] for i, row in enumerate(array[offset:offset + limit])]
+        total = array.shape[0]
+    elif isinstance(value, dict):
+        items = list(value.items())
+        columns = ['key', 'value']
+        rows = [[str(k), repr(v)] for k, v in items[offset:offset + limit]]
+        total = len(items)
+    else:
+        items = list(value)
+        part = items[offset:offset + limit]
+        width = max([len(r) for r in part if isinstance(r, (list, tuple))] or [1])
+        columns = [''] + [str(j) for j in range(width)]
+        rows = [[str(offset + i)] + ([str(c) for c in r] if isinstance(r, (list, tuple)) else [str(r)])
+                for i, r in enumerate(part)]
+        total = len(items)
+    print('${INSPECTOR_MARKER}' + json.dumps({'columns': columns, 'rows': rows, 'total': total, 'offset': offset}))
+try:
+    _scimax_variable_page(${quoted}, ${start}, ${count})
+finally:
+    del _scimax_variable_page
+`;
+        case 'julia':
+            return String.raw`let
+    jstr(s) = "\"" * replace(replace(filter(!iscntrl, s), "\\" => "\\\\"), "\"" => "\\\"") * "\""
+    value = getfield(Main, Symbol(${quoted}))
+    offset, limit = ${start}, ${count}
+    total = value isa AbstractVector ? length(value) : size(value, 1)
+    index = (offset + 1):min(offset + limit, total)
+    if value isa AbstractVector
+        columns = ["", "value"]
+        rows = [[string(i), string(value[i])] for i in index]
+    else
+        width = size(value, 2)
+        columns = ["", (value isa AbstractMatrix ? string.(1:width) : string.(names(value)))...]
+        rows = [[string(i); [string(value[i, j]) for j in 1:width]] for i in index]
+    end
+    println("${INSPECTOR_MARKER}{\"columns\":[", join(jstr.(columns), ","),
+        "],\"rows\":[", join(["[" * join(jstr.(row), ",") * "]" for row in rows], ","),
+        "],\"total\":", total, ",\"offset\":", offset, "}")
+end
+`;
+        case 'r':
+            return String.raw`local({
+  jstr <- function(s) paste0('"', gsub('"', '\\"', gsub('\\', '\\\\', gsub('[[:cntrl:]]', ' ', s), fixed = TRUE), fixed = TRUE), '"')
+  value <- get(${quoted}, envir = globalenv())
+  frame <- if (is.data.frame(value) || is.matrix(value)) as.data.frame(value) else data.frame(value = value)
+  total <- nrow(frame)
+  index <- seq_len(max(0, min(${count}, total - ${start}))) + ${start}
+  cells <- cbind(rownames(frame)[index], trimws(as.matrix(format(frame[index, , drop = FALSE]))))
+  rows <- if (length(index)) apply(cells, 1, function(row) paste0('[', paste(jstr(row), collapse = ','), ']')) else character(0)
+  cat('${INSPECTOR_MARKER}{"columns":[', paste(jstr(c('', names(frame))), collapse = ','),
+    '],"rows":[', paste(rows, collapse = ','), '],"total":', total, ',"offset":', ${start}, '}\n', sep = '')
+})
+`;
+    }
+}
+
+/**
+ * The result a snippet printed, or null if there is no marker line or its
+ * JSON does not parse. Anything else the kernel printed is ignored.
+ */
+export function parseInspectorOutput<T>(stdout: string): T | null {
+    const lines = stdout.split('\n');
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const line = lines[i].replace(/\r$/, '');
+        if (!line.startsWith(INSPECTOR_MARKER)) continue;
+        try {
+            return JSON.parse(line.slice(INSPECTOR_MARKER.length)) as T;
+        } catch {
+            return null;
+        }
+    }
+    return null;
+}
+
+/**
+ * Short size of a variable: "100 × 3" for shapes, "len 5" for collections
+ */
+export function describeVariableSize(variable: KernelVariable): string {
+    if (variable.shape && variable.shape.length > 0) {
+        return variable.shape.join(' × ');
+    }
+    return variable.length !== null ? `len ${variable.length}` : '';
+}
+
+/**
+ * Rows of a tabular variable as an org table with the column names as its
+ * header. An unnamed label column gets an empty header cell.
+ */
+export function variablePageToOrgTable(page: VariablePage): string {
+    const width = Math.max(page.columns.length, ...page.rows.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array<string>(width - row.length).fill('')];
+    return rowsToOrgTable([pad(page.columns), ...page.rows.map(pad)], true);
+}
@@ -5,52 +5,20 @@
 
 import * as vscode from 'vscode';
 
-// LaTeX section commands in order of hierarchy (lower index = higher level)
-const LATEX_SECTION_HIERARCHY: string[] = [
-    'part',
-    'chapter',
-    'section',
-    'subsection',
-    'subsubsection',
-    'paragraph',
-    'subparagraph'
-];
-
-export function getSectionLevel(sectionType: string): number {
-    const index = LATEX_SECTION_HIERARCHY.indexOf(sectionType);
-    return index >= 0 ? index : 2; // Default to section level
-}
-
-export function getSectionTypeAtLevel(level: number): string {
-    if (level < 0) return LATEX_SECTION_HIERARCHY[0];
-    if (level >= LATEX_SECTION_HIERARCHY.length) {
-        return LATEX_SECTION_HIERARCHY[LATEX_SECTION_HIERARCHY.length - 1];
-    }
-    return LATEX_SECTION_HIERARCHY[level];
-}
-
-export interface LaTeXSection {
-    type: string;
-    level: number;
-    title: string;
-    line: number;
-    starred: boolean;
-    shortTitle?: string;
-}
-
-export interface LaTeXEnvironment {
-    name: string;
-    line: number;
-    endLine: number;
-    label?: string;
-    caption?: string;
-}
-
-export interface LaTeXLabel {
-    name: string;
-    line: number;
-    context?: string; // section or environment it's in
-}
+import {
+    parseLatexText,
+    type LaTeXEnvironment,
+    type LaTeXLabel,
+    type LaTeXSection,
+} from '../parser/latexOutline';
+
+export {
+    getSectionLevel,
+    getSectionTypeAtLevel,
+    type LaTeXEnvironment,
+    type LaTeXLabel,
+    type LaTeXSection,
+} from '../parser/latexOutline';
 
 // Cache for parsed documents
 interface CacheEntry {
@@ -72,99 +40,7 @@ export function parseLatexDocument(document: vscode.TextDocument): {
     environments: LaTeXEnvironment[];
     labels: LaTeXLabel[];
 } {
-    const text = document.getText();
-    const lines = text.split('\n');
-
-    const sections: LaTeXSection[] = [];
-    const environments: LaTeXEnvironment[] = [];
-    const labels: LaTeXLabel[] = [];
-
-    // Regex patterns
-    const sectionPattern = /^\s*\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)(\*)?\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}/;
-    const beginEnvPattern = /^\s*\\begin\{(\w+\*?)\}/;
-    const endEnvPattern = /^\s*\\end\{(\w+\*?)\}/;
-    const labelPattern = /\\label\{([^}]+)\}/;
-    const captionPattern = /\\caption(?:\[[^\]]*\])?\{([^}]*)\}/;
-
-    // Track open environments
-    const envStack: { name: string; line: number; label?: string; caption?: string }[] = [];
-    let currentSection: LaTeXSection | null = null;
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-
-        // Check for sections
-        const sectionMatch = line.match(sectionPattern);
-        if (sectionMatch) {
-            const [, type, starred, shortTitle, title] = sectionMatch;
-            currentSection = {
-                type,
-                level: getSectionLevel(type),
-                title: title.trim(),
-                line: i,
-                starred: !!starred,
-                shortTitle: shortTitle?.trim()
-            };
-            sections.push(currentSection);
-        }
-
-        // Check for begin environment
-        const beginMatch = line.match(beginEnvPattern);
-        if (beginMatch) {
-            envStack.push({
-                name: beginMatch[1],
-                line: i
-            });
-        }
-
-        // Check for labels
-        const labelMatch = line.match(labelPattern);
-        if (labelMatch) {
-            const label: LaTeXLabel = {
-                name: labelMatch[1],
-                line: i
-            };
-
-            // Associate with current environment or section
-            if (envStack.length > 0) {
-                const currentEnv = envStack[envStack.length - 1];
-                currentEnv.label = labelMatch[1];
-                label.context = currentEnv.name;
-            } else if (currentSection) {
-                label.context = `${currentSection.type}: ${currentSection.title}`;
-            }
-
-            labels.push(label);
-        }
-
-        // Check for captions (in environments)
-        const captionMatch = line.match(captionPattern);
-        if (captionMatch && envStack.length > 0) {
-            envStack[envStack.length - 1].caption = captionMatch[1].trim();
-        }
-
-        // Check for end environment
-        const endMatch = line.match(endEnvPattern);
-        if (endMatch && envStack.length > 0) {
-            const envName = endMatch[1];
-            // Find matching begin
-            for (let j = envStack.length - 1; j >= 0; j--) {
-                if (envStack[j].name === envName) {
-                    const env = envStack.splice(j, 1)[0];
-                    environments.push({
-                        name: env.name,
-                        line: env.line,
-                        endLine: i,
-                        label: env.label,
-                        caption: env.caption
-                    });
-                    break;
-                }
-            }
-        }
-    }
-
-    return { sections, environments, labels };
+    return parseLatexText(document.getText());
 }
 
 /**
@@ -0,0 +1,129 @@
+/**
+ * Tests for the JSON-RPC connection: Content-Length framing across chunk
+ * boundaries, request/response dispatch and error responses.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { JsonRpcConnection, ResponseError, encodeMessage } from '../jsonRpc';
+import { ErrorCodes } from '../protocol';
+
+function setup() {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const connection = new JsonRpcConnection(input, output);
+    const received: any[] = [];
+    let pending = Buffer.alloc(0);
+    output.on('data', (chunk: Buffer) => {
+        pending = Buffer.concat([pending, chunk]);
+        for (;;) {
+            const headerEnd = pending.indexOf('\r\n\r\n');
+            if (headerEnd < 0) return;
+            const length = parseInt(pending.subarray(0, headerEnd).toString().match(/\d+/)![0], 10);
+            if (pending.length < headerEnd + 4 + length) return;
+            received.push(JSON.parse(pending.subarray(headerEnd + 4, headerEnd + 4 + length).toString()));
+            pending = pending.subarray(headerEnd + 4 + length);
+        }
+    });
+    return { input, connection, received };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('encodeMessage', () => {
+    it('counts the body length in bytes, not characters', () => {
+        const frame = encodeMessage({ text: 'α' }).toString('utf-8');
+        const [header, body] = frame.split('\r\n\r\n');
+        expect(header).toBe(`Content-Length: ${Buffer.byteLength(body)}`);
+        expect(Buffer.byteLength(body)).toBe(body.length + 1);
+    });
+});
+
+describe('JsonRpcConnection', () => {
+    it('answers a request split across chunks', async () => {
+        const { input, connection, received } = setup();
+        connection.onRequest('echo', params => params);
+        connection.listen();
+
+        const frame = encodeMessage({ jsonrpc: '2.0', id: 1, method: 'echo', params: { word: 'héllo' } });
+        input.write(frame.subarray(0, 10));
+        input.write(frame.subarray(10, frame.length - 3));
+        await tick();
+        expect(received).toEqual([]);
+        input.write(frame.subarray(frame.length - 3));
+        await tick();
+
+        expect(received).toEqual([{ jsonrpc: '2.0', id: 1, result: { word: 'héllo' } }]);
+    });
+
+    it('reads several messages from one chunk', async () => {
+        const { input, connection, received } = setup();
+        const seen: unknown[] = [];
+        connection.onNotification('note', params => { seen.push(params); });
+        connection.onRequest('ping', () => 'pong');
+        connection.listen();
+
+        input.write(Buffer.concat([
+            encodeMessage({ jsonrpc: '2.0', method: 'note', params: 1 }),
+            encodeMessage({ jsonrpc: '2.0', id: 7, method: 'ping' }),
+        ]));
+        await tick();
+
+        expect(seen).toEqual([1]);
+        expect(received).toEqual([{ jsonrpc: '2.0', id: 7, result: 'pong' }]);
+    });
+
+    it('answers unknown requests with MethodNotFound and ignores unknown notifications', async () => {
+        const { input, connection, received } = setup();
+        connection.listen();
+
+        input.write(encodeMessage({ jsonrpc: '2.0', method: 'unknown/notification' }));
+        input.write(encodeMessage({ jsonrpc: '2.0', id: 2, method: 'unknown/request' }));
+        await tick();
+
+        expect(received).toHaveLength(1);
+        expect(received[0].id).toBe(2);
+        expect(received[0].error.code).toBe(ErrorCodes.MethodNotFound);
+    });
+
+    it('turns handler errors into error responses', async () => {
+        const { input, connection, received } = setup();
+        connection.onRequest('bad-params', () => { throw new ResponseError(ErrorCodes.InvalidParams, 'no document'); });
+        connection.onRequest('crash', async () => { throw new Error('boom'); });
+        connection.listen();
+
+        input.write(encodeMessage({ jsonrpc: '2.0', id: 1, method: 'bad-params' }));
+        input.write(encodeMessage({ jsonrpc: '2.0', id: 2, method: 'crash' }));
+        await tick();
+
+        expect(received).toEqual([
+            { jsonrpc: '2.0', id: 1, error: { code: ErrorCodes.InvalidParams, message: 'no document' } },
+            { jsonrpc: '2.0', id: 2, error: { code: ErrorCodes.InternalError, message: 'boom' } },
+        ]);
+    });
+
+    it('answers malformed JSON with a ParseError and keeps reading', async () => {
+        const { input, connection, received } = setup();
+        connection.onRequest('ping', () => 'pong');
+        connection.listen();
+
+        input.write('Content-Length: 5\r\n\r\n{nope');
+        input.write(encodeMessage({ jsonrpc: '2.0', id: 3, method: 'ping' }));
+        await tick();
+
+        expect(received[0]).toEqual({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } });
+        expect(received[1]).toEqual({ jsonrpc: '2.0', id: 3, result: 'pong' });
+    });
+
+    it('calls the close handler when the input ends', async () => {
+        const { input, connection } = setup();
+        const onClose = vi.fn();
+        connection.onClose(onClose);
+        connection.listen();
+
+        input.end();
+        await tick();
+
+        expect(onClose).toHaveBeenCalledOnce();
+    });
+});
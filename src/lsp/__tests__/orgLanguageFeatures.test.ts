@@ -0,0 +1,209 @@
+/**
+ * Tests for the language server's text-only features: symbols, folding,
+ * diagnostics, links under the cursor, search options and completion context.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+// orgLint builds vscode Ranges; the language server gets these from the CLI stub
+vi.mock('vscode', () => ({
+    Range: class Range {
+        start: { line: number; character: number };
+        end: { line: number; character: number };
+        constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+            this.start = { line: startLine, character: startCharacter };
+            this.end = { line: endLine, character: endCharacter };
+        }
+    },
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+}));
+
+import {
+    completionContextAt,
+    documentPropertyNames,
+    documentSymbols,
+    documentTags,
+    entityAtPosition,
+    findSearchTarget,
+    foldingRanges,
+    headingsWithProperty,
+    linkAtPosition,
+    lintDiagnostics,
+    parseLinkPath,
+} from '../orgLanguageFeatures';
+import { DiagnosticSeverity, SymbolKind } from '../protocol';
+
+const DOC = [
+    '#+TITLE: Project notes',           // 0
+    '#+TAGS: work(w) home',             // 1
+    '* TODO Storage layer :db:work:',   // 2
+    ':PROPERTIES:',                     // 3
+    ':CUSTOM_ID: storage',              // 4
+    ':ID: abc-123',                     // 5
+    ':OWNER: sam',                      // 6
+    ':END:',                            // 7
+    '** Cache policy',                  // 8
+    'A <<cache rules>> target.',        // 9
+    '* DONE [#A] Release',              // 10
+    '#+NAME: results',                  // 11
+    '| a | b |',                        // 12
+].join('\n');
+
+describe('documentSymbols', () => {
+    it('returns the title, then the headline tree with TODO keywords and tags', () => {
+        const symbols = documentSymbols(DOC);
+
+        expect(symbols.map(s => s.name)).toEqual(['Project notes', 'TODO Storage layer', 'DONE Release']);
+        expect(symbols[0].kind).toBe(SymbolKind.File);
+
+        const storage = symbols[1];
+        expect(storage.kind).toBe(SymbolKind.Key);
+        expect(storage.detail).toBe(':db:work:');
+        expect(storage.range.start.line).toBe(2);
+        expect(storage.range.end.line).toBe(9);
+        expect(storage.selectionRange.end.character).toBe(DOC.split('\n')[2].length);
+        expect(storage.children!.map(c => c.name)).toEqual(['Cache policy']);
+        expect(storage.children![0].kind).toBe(SymbolKind.Method);
+
+        expect(symbols[2].kind).toBe(SymbolKind.Event);
+        expect(symbols[2].detail).toBe('[#A]');
+    });
+
+    it('includes blocks before the first headline', () => {
+        const symbols = documentSymbols('#+begin_src python\nx = 1\n#+end_src\n* Heading\n');
+        expect(symbols.map(s => s.kind)).toEqual([SymbolKind.Class, SymbolKind.Function]);
+        expect(symbols[1].detail).toBe('Source block (python)');
+    });
+});
+
+describe('foldingRanges', () => {
+    it('folds headlines and drawers as regions', () => {
+        const ranges = foldingRanges(DOC);
+        expect(ranges).toContainEqual({ startLine: 2, endLine: 9, kind: 'region' });
+        expect(ranges).toContainEqual({ startLine: 3, endLine: 7, kind: 'region' });
+    });
+});
+
+describe('lintDiagnostics', () => {
+    it('maps org-lint issues to LSP diagnostics', () => {
+        const text = '#+begin_src\nx\n#+end_src\n';
+        const diagnostics = lintDiagnostics(text);
+        const missing = diagnostics.find(d => d.code === 'missing-language-in-src-block');
+
+        expect(missing).toMatchObject({ source: 'org-lint', severity: DiagnosticSeverity.Warning });
+        expect(missing!.range.start.line).toBe(0);
+    });
+
+    it('skips disabled checkers', () => {
+        const text = '#+begin_src\nx\n#+end_src\n';
+        expect(lintDiagnostics(text, ['missing-language-in-src-block'])
+            .some(d => d.code === 'missing-language-in-src-block')).toBe(false);
+    });
+});
+
+describe('parseLinkPath', () => {
+    it('splits typed links and search options', () => {
+        expect(parseLinkPath('file:notes.org::*Intro')).toEqual({ type: 'file', path: 'notes.org', search: '*Intro' });
+        expect(parseLinkPath('id:abc-123')).toEqual({ type: 'id', path: 'abc-123' });
+        expect(parseLinkPath('https://example.com')).toEqual({ type: 'https', path: '//example.com' });
+    });
+
+    it('treats untyped paths as internal unless they look like files', () => {
+        expect(parseLinkPath('#storage')).toEqual({ type: 'internal', path: '#storage' });
+        expect(parseLinkPath('cache rules')).toEqual({ type: 'internal', path: 'cache rules' });
+        expect(parseLinkPath('./data/run.org::12')).toEqual({ type: 'file', path: './data/run.org', search: '12' });
+    });
+});
+
+describe('linkAtPosition', () => {
+    const line = 'See [[file:b.org::*Other][other]] and id:abc-123. Also [cite:@smith2020;@doe2019].';
+
+    it('finds bracket links with their range', () => {
+        const link = linkAtPosition(line, 4, 8);
+        expect(link).toEqual({
+            kind: 'link', type: 'file', path: 'b.org', search: '*Other',
+            range: { start: { line: 4, character: 4 }, end: { line: 4, character: 33 } },
+        });
+    });
+
+    it('finds plain links without trailing punctuation', () => {
+        const link = linkAtPosition(line, 0, line.indexOf('abc'));
+        expect(link).toMatchObject({ kind: 'link', type: 'id', path: 'abc-123' });
+    });
+
+    it('finds the citation key under the cursor', () => {
+        expect(linkAtPosition(line, 0, line.indexOf('doe2019'))).toMatchObject({ kind: 'cite', key: 'doe2019' });
+        expect(linkAtPosition(line, 0, line.indexOf('smith2020'))).toMatchObject({ kind: 'cite', key: 'smith2020' });
+    });
+
+    it('returns undefined away from links', () => {
+        expect(linkAtPosition(line, 0, 1)).toBeUndefined();
+    });
+});
+
+describe('entityAtPosition', () => {
+    it('finds known entities only', () => {
+        expect(entityAtPosition('x \\alpha y', 4)).toMatchObject({ name: 'alpha', start: 2, end: 8 });
+        expect(entityAtPosition('x \\notanentity y', 4)).toBeUndefined();
+    });
+});
+
+describe('findSearchTarget', () => {
+    it('resolves headings, custom ids, targets, names and line numbers', () => {
+        expect(findSearchTarget(DOC, '*Storage layer')).toBe(2);
+        expect(findSearchTarget(DOC, '#storage')).toBe(2);
+        expect(findSearchTarget(DOC, 'Cache  Rules')).toBe(9);
+        expect(findSearchTarget(DOC, 'results')).toBe(11);
+        expect(findSearchTarget(DOC, '9')).toBe(8);
+        expect(findSearchTarget(DOC, '/OWNER/')).toBe(6);
+        expect(findSearchTarget(DOC, '/owner/')).toBeUndefined();
+    });
+
+    it('falls back to a heading title', () => {
+        expect(findSearchTarget(DOC, 'Release')).toBe(10);
+        expect(findSearchTarget(DOC, 'missing')).toBeUndefined();
+    });
+});
+
+describe('document collections', () => {
+    it('lists headings with a property', () => {
+        expect(headingsWithProperty(DOC, 'ID')).toEqual([{ value: 'abc-123', title: 'Storage layer', line: 2 }]);
+    });
+
+    it('collects tags from headlines and #+TAGS', () => {
+        expect(documentTags(DOC)).toEqual(['db', 'home', 'work']);
+    });
+
+    it('collects property names from drawers', () => {
+        expect(documentPropertyNames(DOC)).toEqual(['CUSTOM_ID', 'ID', 'OWNER']);
+    });
+});
+
+describe('completionContextAt', () => {
+    const at = (text: string, lines: string[] = [text]) =>
+        completionContextAt(lines, lines.length - 1, text.length);
+
+    it('recognizes link types and targets', () => {
+        expect(at('See [[fi')).toEqual({ kind: 'link-type', prefix: 'fi', start: 6 });
+        expect(at('See [[id:ab')).toEqual({ kind: 'link-target', type: 'id', prefix: 'ab', start: 9 });
+        expect(at('See [[file:docs/')).toMatchObject({ kind: 'link-target', type: 'file', prefix: 'docs/' });
+        expect(at('See [[#sto')).toMatchObject({ kind: 'link-target', type: 'custom-id', prefix: 'sto' });
+        expect(at('See [[*Sto')).toMatchObject({ kind: 'link-target', type: 'heading', prefix: 'Sto' });
+    });
+
+    it('recognizes citation keys in org-cite and org-ref syntax', () => {
+        expect(at('As shown [cite/t:@smith2020;@do')).toMatchObject({ kind: 'link-target', type: 'cite', prefix: 'do' });
+        expect(at('As shown cite:&smith2020;&do')).toMatchObject({ kind: 'link-target', type: 'cite', prefix: 'do' });
+        expect(at('As shown citep:sm')).toMatchObject({ kind: 'link-target', type: 'cite', prefix: 'sm' });
+    });
+
+    it('recognizes tags on headlines only', () => {
+        expect(at('* Heading :work:ho')).toEqual({ kind: 'tag', prefix: 'ho', start: 16 });
+        expect(at('Plain text :wo')).toBeUndefined();
+    });
+
+    it('recognizes property names inside a property drawer only', () => {
+        expect(at(':EFF', ['* H', ':PROPERTIES:', ':EFF'])).toEqual({ kind: 'property', prefix: 'EFF', start: 1 });
+        expect(at(':EFF', ['* H', ':LOGBOOK:', ':EFF'])).toBeUndefined();
+    });
+});
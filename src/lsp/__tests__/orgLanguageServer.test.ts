@@ -0,0 +1,288 @@
+/**
+ * Tests for the org language server over an in-memory connection: the
+ * document lifecycle, diagnostics, completion, hover, definition and
+ * workspace symbols, with a fake database and real files in a temp dir.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+
+vi.mock('vscode', () => ({
+    Range: class Range {
+        start: { line: number; character: number };
+        end: { line: number; character: number };
+        constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+            this.start = { line: startLine, character: startCharacter };
+            this.end = { line: endLine, character: endCharacter };
+        }
+    },
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+}));
+
+import { JsonRpcConnection, encodeMessage } from '../jsonRpc';
+import { OrgLanguageServer, OrgServerDatabase } from '../orgLanguageServer';
+import type { HeadingRecord } from '../../database/scimaxDbCore';
+
+function heading(overrides: Partial<HeadingRecord>): HeadingRecord {
+    return {
+        id: 1, file_id: 1, file_path: '', level: 1, title: '', line_number: 1, begin_pos: 0,
+        todo_state: null, priority: null, tags: '[]', inherited_tags: '[]', properties: '{}',
+        scheduled: null, deadline: null, closed: null, cell_index: null,
+        ...overrides,
+    } as HeadingRecord;
+}
+
+class TestClient {
+    readonly notifications: { method: string; params: any }[] = [];
+    private readonly input = new PassThrough();
+    private readonly pending = new Map<number, (message: any) => void>();
+    private buffer = Buffer.alloc(0);
+    private nextId = 1;
+    readonly connection: JsonRpcConnection;
+
+    constructor() {
+        const output = new PassThrough();
+        this.connection = new JsonRpcConnection(this.input, output);
+        output.on('data', (chunk: Buffer) => this.read(chunk));
+    }
+
+    request(method: string, params?: unknown): Promise<any> {
+        const id = this.nextId++;
+        return new Promise(resolve => {
+            this.pending.set(id, resolve);
+            this.input.write(encodeMessage({ jsonrpc: '2.0', id, method, params }));
+        });
+    }
+
+    notify(method: string, params?: unknown): void {
+        this.input.write(encodeMessage({ jsonrpc: '2.0', method, params }));
+    }
+
+    async waitForNotification(method: string): Promise<any> {
+        for (let i = 0; i < 100; i++) {
+            const found = this.notifications.find(n => n.method === method);
+            if (found) return found.params;
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        throw new Error(`No ${method} notification`);
+    }
+
+    private read(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        for (;;) {
+            const headerEnd = this.buffer.indexOf('\r\n\r\n');
+            if (headerEnd < 0) return;
+            const length = parseInt(this.buffer.subarray(0, headerEnd).toString().match(/\d+/)![0], 10);
+            if (this.buffer.length < headerEnd + 4 + length) return;
+            const message = JSON.parse(this.buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString());
+            this.buffer = this.buffer.subarray(headerEnd + 4 + length);
+            if (message.id !== undefined && this.pending.has(message.id)) {
+                this.pending.get(message.id)!(message);
+                this.pending.delete(message.id);
+            } else if (message.method) {
+                this.notifications.push(message);
+            }
+        }
+    }
+}
+
+describe('OrgLanguageServer', () => {
+    let dir: string;
+    let notesPath: string;
+    let otherPath: string;
+    let notesUri: string;
+    let client: TestClient;
+    let server: OrgLanguageServer;
+    let db: OrgServerDatabase;
+
+    const NOTES = [
+        '#+TITLE: Notes',
+        '#+BIBLIOGRAPHY: refs.bib',
+        '* Storage :work:',
+        ':PROPERTIES:',
+        ':CUSTOM_ID: storage',
+        ':END:',
+        'See [[file:other.org::*Details]], [[#storage]], id:remote-1 and cite:&smith2020.',
+        '#+begin_src',
+        'x',
+        '#+end_src',
+    ].join('\n');
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-lsp-'));
+        notesPath = path.join(dir, 'notes.org');
+        otherPath = path.join(dir, 'other.org');
+        notesUri = pathToFileURL(notesPath).href;
+        fs.writeFileSync(notesPath, NOTES);
+        fs.writeFileSync(otherPath, '* Intro\ntext\n* Details\nmore\n');
+        fs.writeFileSync(path.join(dir, 'refs.bib'), [
+            '@book{other2000,',
+            '  title = {Other}, author = {Doe, Jane}, year = {2000}}',
+            '',
+            '@article{smith2020,',
+            '  title = {Storage at scale}, author = {Smith, John}, year = {2020}, journal = {Systems}}',
+        ].join('\n'));
+        fs.mkdirSync(path.join(dir, 'data'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        db = {
+            searchHeadings: vi.fn(async () => [heading({ file_path: otherPath, title: 'Details', line_number: 3, todo_state: 'TODO' })]),
+            getHeadingById: vi.fn(async (id: string) => id === 'remote-1'
+                ? heading({ file_path: otherPath, title: 'Intro', line_number: 1 })
+                : null),
+            getAllTags: vi.fn(async () => ['workshop']),
+            searchByProperty: vi.fn(async () => [heading({ file_path: otherPath, title: 'Intro', properties: '{"ID":"remote-1"}' })]),
+            resolveAnchor: vi.fn(async () => null),
+            indexFile: vi.fn(async () => undefined),
+        };
+        client = new TestClient();
+        server = new OrgLanguageServer(client.connection, { db, diagnosticsDelay: 0 });
+        client.connection.listen();
+
+        await client.request('initialize', { capabilities: {} });
+        client.notify('initialized', {});
+        client.notify('textDocument/didOpen', { textDocument: { uri: notesUri, languageId: 'org', version: 1, text: NOTES } });
+    });
+
+    afterEach(() => {
+        server.dispose();
+    });
+
+    const at = (method: string, line: number, character: number) =>
+        client.request(method, { textDocument: { uri: notesUri }, position: { line, character } });
+
+    it('advertises its capabilities', async () => {
+        const response = await client.request('initialize', {});
+        expect(response.result.capabilities).toMatchObject({
+            documentSymbolProvider: true,
+            foldingRangeProvider: true,
+            hoverProvider: true,
+            definitionProvider: true,
+            workspaceSymbolProvider: true,
+        });
+    });
+
+    it('publishes org-lint diagnostics and clears them on close', async () => {
+        const published = await client.waitForNotification('textDocument/publishDiagnostics');
+        expect(published.uri).toBe(notesUri);
+        expect(published.diagnostics.map((d: any) => d.code)).toContain('missing-language-in-src-block');
+
+        client.notifications.length = 0;
+        client.notify('textDocument/didClose', { textDocument: { uri: notesUri } });
+        expect(await client.waitForNotification('textDocument/publishDiagnostics')).toEqual({ uri: notesUri, diagnostics: [] });
+    });
+
+    it('applies incremental changes before answering', async () => {
+        client.notify('textDocument/didChange', {
+            textDocument: { uri: notesUri, version: 2 },
+            contentChanges: [{ range: { start: { line: 2, character: 2 }, end: { line: 2, character: 9 } }, text: 'Archive' }],
+        });
+        const response = await client.request('textDocument/documentSymbol', { textDocument: { uri: notesUri } });
+        expect(response.result.map((s: any) => s.name)).toEqual(['Notes', 'Archive']);
+    });
+
+    it('reindexes saved files', async () => {
+        client.notify('textDocument/didSave', { textDocument: { uri: notesUri } });
+        await client.request('textDocument/foldingRange', { textDocument: { uri: notesUri } });
+        expect(db.indexFile).toHaveBeenCalledWith(notesPath);
+    });
+
+    it('goes to file links with a search option', async () => {
+        const response = await at('textDocument/definition', 6, 8);
+        expect(response.result).toEqual({
+            uri: pathToFileURL(otherPath).href,
+            range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } },
+        });
+    });
+
+    it('goes to internal links, id links and citations', async () => {
+        const line = NOTES.split('\n')[6];
+
+        const internal = await at('textDocument/definition', 6, line.indexOf('#storage'));
+        expect(internal.result).toMatchObject({ uri: notesUri, range: { start: { line: 2 } } });
+
+        const id = await at('textDocument/definition', 6, line.indexOf('remote-1'));
+        expect(id.result).toMatchObject({ uri: pathToFileURL(otherPath).href, range: { start: { line: 0 } } });
+
+        const cite = await at('textDocument/definition', 6, line.indexOf('smith2020'));
+        expect(cite.result).toMatchObject({ uri: pathToFileURL(path.join(dir, 'refs.bib')).href, range: { start: { line: 3 } } });
+    });
+
+    it('describes citations and id links on hover', async () => {
+        const line = NOTES.split('\n')[6];
+
+        const cite = await at('textDocument/hover', 6, line.indexOf('smith2020'));
+        expect(cite.result.contents.value).toContain('Storage at scale');
+
+        const id = await at('textDocument/hover', 6, line.indexOf('remote-1'));
+        expect(id.result.contents.value).toContain('**Intro**');
+
+        expect((await at('textDocument/hover', 0, 1)).result).toBeNull();
+    });
+
+    it('completes tags from the document and the database', async () => {
+        client.notify('textDocument/didChange', {
+            textDocument: { uri: notesUri, version: 2 },
+            contentChanges: [{ range: { start: { line: 10, character: 0 }, end: { line: 10, character: 0 } }, text: '\n* Review :wo' }],
+        });
+        const response = await at('textDocument/completion', 10, 12);
+        expect(response.result.map((item: any) => item.label)).toEqual(['work', 'workshop']);
+        expect(response.result[1].textEdit).toEqual({
+            range: { start: { line: 10, character: 10 }, end: { line: 10, character: 12 } },
+            newText: 'workshop:',
+        });
+    });
+
+    it('completes id links, citation keys and files', async () => {
+        const complete = async (text: string) => {
+            client.notify('textDocument/didChange', {
+                textDocument: { uri: notesUri, version: 3 },
+                contentChanges: [{ text: `${NOTES}\n${text}` }],
+            });
+            const response = await at('textDocument/completion', 10, text.length);
+            return response.result.map((item: any) => item.label);
+        };
+
+        expect(await complete('[[id:rem')).toEqual(['remote-1']);
+        expect(await complete('[cite:@smi')).toEqual(['smith2020']);
+        expect(await complete('[[file:')).toEqual(['data/', 'notes.org', 'other.org', 'refs.bib']);
+        expect(await complete('[[fil')).toEqual(['file']);
+    });
+
+    it('returns workspace symbols from the database', async () => {
+        const response = await client.request('workspace/symbol', { query: 'Det' });
+        expect(db.searchHeadings).toHaveBeenCalledWith('Det', expect.anything());
+        expect(response.result).toEqual([{
+            name: 'TODO Details',
+            kind: 5,
+            location: {
+                uri: pathToFileURL(otherPath).href,
+                range: { start: { line: 2, character: 0 }, end: { line: 2, character: 0 } },
+            },
+            containerName: 'other.org',
+        }]);
+    });
+
+    it('rejects requests for documents that are not open', async () => {
+        const response = await client.request('textDocument/documentSymbol', { textDocument: { uri: 'file:///missing.org' } });
+        expect(response.error.code).toBe(-32602);
+    });
+
+    it('exits with 0 only after shutdown', async () => {
+        const onExit = vi.fn();
+        server.onExit(onExit);
+        await client.request('shutdown');
+        client.notify('exit');
+        await client.request('workspace/symbol', { query: '' });
+        expect(onExit).toHaveBeenCalledWith(0);
+    });
+});
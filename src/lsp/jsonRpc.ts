@@ -0,0 +1,142 @@
+/**
+ * JSON-RPC 2.0 over the LSP base protocol
+ *
+ * Messages are framed with a `Content-Length` header (in bytes) and a blank
+ * line, then a UTF-8 JSON body. The connection reads frames from one stream,
+ * dispatches requests and notifications to registered handlers, and writes
+ * responses and notifications to another. Only the server side is needed:
+ * the server never sends requests of its own.
+ */
+
+import type { Readable, Writable } from 'stream';
+import { ErrorCodes } from './protocol';
+
+type RequestHandler = (params: any) => unknown;
+type NotificationHandler = (params: any) => void | Promise<void>;
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string | null;
+    method?: string;
+    params?: unknown;
+}
+
+/**
+ * An error a request handler throws to answer with a specific JSON-RPC code.
+ * Any other error becomes an InternalError response.
+ */
+export class ResponseError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+        this.name = 'ResponseError';
+    }
+}
+
+const HEADER_END = Buffer.from('\r\n\r\n', 'ascii');
+
+/** Frame a message for the wire */
+export function encodeMessage(message: object): Buffer {
+    const body = Buffer.from(JSON.stringify(message), 'utf-8');
+    return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'), body]);
+}
+
+export class JsonRpcConnection {
+    private buffer: Buffer = Buffer.alloc(0);
+    private readonly requestHandlers = new Map<string, RequestHandler>();
+    private readonly notificationHandlers = new Map<string, NotificationHandler>();
+    private closeHandler?: () => void;
+
+    constructor(private readonly input: Readable, private readonly output: Writable) {}
+
+    onRequest(method: string, handler: RequestHandler): void {
+        this.requestHandlers.set(method, handler);
+    }
+
+    onNotification(method: string, handler: NotificationHandler): void {
+        this.notificationHandlers.set(method, handler);
+    }
+
+    /** Called when the input stream ends, e.g. the client went away */
+    onClose(handler: () => void): void {
+        this.closeHandler = handler;
+    }
+
+    sendNotification(method: string, params: unknown): void {
+        this.write({ jsonrpc: '2.0', method, params });
+    }
+
+    listen(): void {
+        this.input.on('data', (chunk: Buffer | string) => {
+            this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk]);
+            this.readMessages();
+        });
+        this.input.on('end', () => this.closeHandler?.());
+    }
+
+    private readMessages(): void {
+        for (;;) {
+            const headerEnd = this.buffer.indexOf(HEADER_END);
+            if (headerEnd < 0) return;
+
+            const headers = this.buffer.subarray(0, headerEnd).toString('ascii');
+            const lengthMatch = headers.match(/^Content-Length:\s*(\d+)/im);
+            if (!lengthMatch) {
+                // Unframed garbage: drop the header block and resynchronize
+                this.buffer = this.buffer.subarray(headerEnd + HEADER_END.length);
+                continue;
+            }
+
+            const bodyStart = headerEnd + HEADER_END.length;
+            const bodyEnd = bodyStart + parseInt(lengthMatch[1], 10);
+            if (this.buffer.length < bodyEnd) return;
+
+            const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+            this.buffer = this.buffer.subarray(bodyEnd);
+
+            let message: JsonRpcMessage;
+            try {
+                message = JSON.parse(body);
+            } catch {
+                this.write({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } });
+                continue;
+            }
+            void this.dispatch(message);
+        }
+    }
+
+    private async dispatch(message: JsonRpcMessage): Promise<void> {
+        if (!message.method) return;  // A response; the server sends no requests
+
+        const isRequest = message.id !== undefined && message.id !== null;
+        if (!isRequest) {
+            const handler = this.notificationHandlers.get(message.method);
+            try {
+                await handler?.(message.params);
+            } catch (error) {
+                console.error(`[lsp] ${message.method} failed:`, error);
+            }
+            return;
+        }
+
+        const handler = this.requestHandlers.get(message.method);
+        if (!handler) {
+            this.write({
+                jsonrpc: '2.0', id: message.id,
+                error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` },
+            });
+            return;
+        }
+        try {
+            const result = await handler(message.params);
+            this.write({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+        } catch (error) {
+            const code = error instanceof ResponseError ? error.code : ErrorCodes.InternalError;
+            const text = error instanceof Error ? error.message : String(error);
+            this.write({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+        }
+    }
+
+    private write(message: object): void {
+        this.output.write(encodeMessage(message));
+    }
+}
@@ -0,0 +1,406 @@
+/**
+ * Org language features for the language server
+ *
+ * Pure functions over document text: outline symbols, folding ranges, lint
+ * diagnostics, the link or citation under the cursor, where a search option
+ * points, and what kind of completion the cursor asks for. The server adds
+ * what needs the database, bibliography files or the file system.
+ */
+
+import { parseOutline, OutlineHeadline, OutlineBlock } from '../parser/orgOutline';
+import { computeOrgFoldingRanges } from '../parser/orgFolding';
+import { extractAnchors, normalizeAnchorText } from '../parser/orgAnchors';
+import { getEntity, EntityDefinition } from '../parser/orgEntities';
+import { linkTypeRegistry } from '../parser/orgLinkTypes';
+import { findCitationAtPosition, findReferenceIndexAtPosition } from '../references/citationParser';
+import { lintOrgDocument } from '../org/orgLint';
+import {
+    Diagnostic,
+    DocumentSymbol,
+    FoldingRange,
+    Range,
+    SymbolKind,
+    SymbolKindValue,
+} from './protocol';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A link or citation found under the cursor */
+export type OrgLinkAtPosition =
+    | { kind: 'link'; type: string; path: string; search?: string; range: Range }
+    | { kind: 'cite'; key: string; range: Range };
+
+/**
+ * What the text before the cursor is asking to complete. `start` is the
+ * column where the completed text begins, so the edit replaces the prefix.
+ */
+export type OrgCompletionContext =
+    | { kind: 'link-type'; prefix: string; start: number }
+    | { kind: 'link-target'; type: string; prefix: string; start: number }
+    | { kind: 'tag'; prefix: string; start: number }
+    | { kind: 'property'; prefix: string; start: number };
+
+/** A heading carrying a property, e.g. every heading with a CUSTOM_ID */
+export interface HeadingProperty {
+    value: string;
+    title: string;
+    line: number;
+}
+
+/** Properties org gives a special meaning, offered before document ones */
+export const ORG_SPECIAL_PROPERTIES = [
+    'CUSTOM_ID', 'ID', 'CATEGORY', 'EFFORT', 'STYLE', 'COLUMNS', 'COOKIE_DATA',
+    'LOG_INTO_DRAWER', 'LOGGING', 'ARCHIVE', 'ORDERED', 'NOBLOCKING', 'VISIBILITY',
+    'EXPORT_FILE_NAME', 'ATTACH_DIR', 'ATTACH_DIR_INHERIT',
+];
+
+// =============================================================================
+// Symbols and folding
+// =============================================================================
+
+const MAX_TITLE_LENGTH = 40;
+
+function lineRange(lines: string[], startLine: number, endLine: number): Range {
+    return {
+        start: { line: startLine, character: 0 },
+        end: { line: endLine, character: endLine < lines.length ? lines[endLine].length : 0 },
+    };
+}
+
+function headlineKind(headline: OutlineHeadline): SymbolKindValue {
+    if (headline.todoKeyword) {
+        return headline.todoType === 'done' ? SymbolKind.Event : SymbolKind.Key;
+    }
+    switch (headline.level) {
+        case 1: return SymbolKind.Class;
+        case 2: return SymbolKind.Method;
+        case 3: return SymbolKind.Function;
+        case 4: return SymbolKind.Variable;
+        default: return SymbolKind.Field;
+    }
+}
+
+function headlineSymbol(headline: OutlineHeadline, lines: string[]): DocumentSymbol {
+    let name = headline.title || '(untitled)';
+    if (name.length > MAX_TITLE_LENGTH) {
+        name = name.slice(0, MAX_TITLE_LENGTH - 1) + '…';
+    }
+    // Plain keywords rather than the editor's ☐/✓: other clients render symbols as text
+    if (headline.todoKeyword) {
+        name = `${headline.todoKeyword} ${name}`;
+    }
+
+    const details: string[] = [];
+    if (headline.tags.length > 0) details.push(`:${headline.tags.join(':')}:`);
+    if (headline.priority) details.push(`[#${headline.priority}]`);
+
+    return {
+        name,
+        detail: details.join(' '),
+        kind: headlineKind(headline),
+        range: lineRange(lines, headline.lineNumber, headline.endLineNumber),
+        selectionRange: lineRange(lines, headline.lineNumber, headline.lineNumber),
+        children: headline.children.map(child => headlineSymbol(child, lines)),
+    };
+}
+
+function blockSymbol(block: OutlineBlock, lines: string[]): DocumentSymbol {
+    const range = lineRange(lines, block.lineNumber, block.endLineNumber);
+    const selectionRange = lineRange(lines, block.lineNumber, block.lineNumber);
+    switch (block.type) {
+        case 'src-block':
+            return {
+                name: block.name || block.language || 'src',
+                detail: `Source block (${block.language})`,
+                kind: SymbolKind.Function, range, selectionRange,
+            };
+        case 'table':
+            return {
+                name: 'Table',
+                detail: `${block.endLineNumber - block.lineNumber + 1} rows`,
+                kind: SymbolKind.Struct, range, selectionRange,
+            };
+        case 'drawer':
+            return { name: `:${block.name}:`, detail: 'Drawer', kind: SymbolKind.Namespace, range, selectionRange };
+    }
+}
+
+/**
+ * The document outline: the #+TITLE, the headline tree, and the blocks that
+ * come before the first headline (later ones live under their headline).
+ */
+export function documentSymbols(text: string): DocumentSymbol[] {
+    const lines = text.split('\n');
+    const { headlines, blocks } = parseOutline(lines);
+    const symbols: DocumentSymbol[] = [];
+
+    for (let i = 0; i < Math.min(20, lines.length); i++) {
+        const titleMatch = lines[i].match(/^#\+TITLE:\s*(.+)$/i);
+        if (titleMatch) {
+            const range = lineRange(lines, i, i);
+            symbols.push({ name: titleMatch[1], detail: 'Document title', kind: SymbolKind.File, range, selectionRange: range });
+            break;
+        }
+    }
+
+    symbols.push(...headlines.map(headline => headlineSymbol(headline, lines)));
+
+    const firstHeadlineLine = headlines.length > 0 ? headlines[0].lineNumber : lines.length;
+    for (const block of blocks) {
+        if (block.lineNumber < firstHeadlineLine) symbols.push(blockSymbol(block, lines));
+    }
+    return symbols;
+}
+
+export function foldingRanges(text: string): FoldingRange[] {
+    return computeOrgFoldingRanges(text.split('\n'))
+        .map(range => ({ startLine: range.start, endLine: range.end, kind: 'region' as const }));
+}
+
+// =============================================================================
+// Diagnostics
+// =============================================================================
+
+/** org-lint issues as LSP diagnostics (LSP severities are vscode's plus one) */
+export function lintDiagnostics(text: string, disabledCheckers: string[] = []): Diagnostic[] {
+    return lintOrgDocument(text, { disabledCheckers }).map(issue => ({
+        range: {
+            start: { line: issue.range.start.line, character: issue.range.start.character },
+            end: { line: issue.range.end.line, character: issue.range.end.character },
+        },
+        severity: (issue.severity + 1) as Diagnostic['severity'],
+        code: issue.code,
+        source: 'org-lint',
+        message: issue.message,
+    }));
+}
+
+// =============================================================================
+// Links under the cursor
+// =============================================================================
+
+const BRACKET_LINK_RE = /\[\[([^\]]+)\](?:\[[^\]]*\])?\]/g;
+const PLAIN_LINK_RE = /(^|[^\w[/:])((?:file|id|https?|doi|mailto):[^\s\][<>()"']*[^\s\][<>()"'.,;:!?])/g;
+
+/**
+ * Split a link path into its type, path and `::search` option. Paths
+ * without a known type are internal (`#custom-id`, `*heading`, a target)
+ * unless they look like a file path.
+ */
+export function parseLinkPath(raw: string): { type: string; path: string; search?: string } {
+    const text = raw.trim();
+    const splitSearch = (type: string, value: string) => {
+        const sep = value.indexOf('::');
+        return sep < 0
+            ? { type, path: value }
+            : { type, path: value.slice(0, sep), search: value.slice(sep + 2) };
+    };
+
+    if (/^[#*]/.test(text)) return { type: 'internal', path: text };
+
+    const typed = text.match(/^([a-zA-Z][\w+-]*):([\s\S]*)$/);
+    if (typed && linkTypeRegistry.hasType(typed[1])) {
+        const type = typed[1].toLowerCase();
+        return type === 'file' || type === 'id' ? splitSearch(type, typed[2]) : { type, path: typed[2] };
+    }
+    if (/^(\/|\.\.?\/|~\/)/.test(text)) return splitSearch('file', text);
+    return { type: 'internal', path: text };
+}
+
+/** The link or citation covering `character` on `line`, if any */
+export function linkAtPosition(line: string, lineNumber: number, character: number): OrgLinkAtPosition | undefined {
+    const span = (start: number, end: number): Range => ({
+        start: { line: lineNumber, character: start },
+        end: { line: lineNumber, character: end },
+    });
+
+    const citation = findCitationAtPosition(line, character);
+    if (citation && citation.references.length > 0) {
+        const index = findReferenceIndexAtPosition(citation, line, character);
+        const reference = citation.references[index >= 0 ? index : 0];
+        return { kind: 'cite', key: reference.key, range: span(citation.range.start, citation.range.end) };
+    }
+
+    for (const match of line.matchAll(BRACKET_LINK_RE)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (character >= start && character <= end) {
+            return { kind: 'link', ...parseLinkPath(match[1]), range: span(start, end) };
+        }
+    }
+
+    for (const match of line.matchAll(PLAIN_LINK_RE)) {
+        const start = (match.index ?? 0) + match[1].length;
+        const end = start + match[2].length;
+        if (character >= start && character <= end) {
+            return { kind: 'link', ...parseLinkPath(match[2]), range: span(start, end) };
+        }
+    }
+    return undefined;
+}
+
+/** The org entity (`\alpha`, `\rarr{}`) covering `character`, if any */
+export function entityAtPosition(
+    line: string,
+    character: number
+): { name: string; entity: EntityDefinition; start: number; end: number } | undefined {
+    for (const match of line.matchAll(/\\([a-zA-Z]+)(?:\{\})?/g)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (character < start || character > end) continue;
+        const entity = getEntity(match[1]);
+        return entity ? { name: match[1], entity, start, end } : undefined;
+    }
+    return undefined;
+}
+
+// =============================================================================
+// Link targets inside a document
+// =============================================================================
+
+function flattenHeadlines(headlines: OutlineHeadline[]): OutlineHeadline[] {
+    return headlines.flatMap(h => [h, ...flattenHeadlines(h.children)]);
+}
+
+/** Headlines of a document, depth first, in document order */
+export function documentHeadlines(text: string): OutlineHeadline[] {
+    return flattenHeadlines(parseOutline(text.split('\n')).headlines);
+}
+
+/** Every heading with property `name` set, e.g. all CUSTOM_IDs in a file */
+export function headingsWithProperty(text: string, name: string): HeadingProperty[] {
+    const lines = text.split('\n');
+    const titles = new Map(documentHeadlines(text).map(h => [h.lineNumber, h.title]));
+    const propertyRe = new RegExp(`^\\s*:${name}:\\s+(\\S+)\\s*$`, 'i');
+    const results: HeadingProperty[] = [];
+    let heading = { title: '', line: 0 };
+    for (let i = 0; i < lines.length; i++) {
+        const title = titles.get(i);
+        if (title !== undefined) {
+            heading = { title, line: i };
+            continue;
+        }
+        const propertyMatch = lines[i].match(propertyRe);
+        if (propertyMatch) results.push({ value: propertyMatch[1], ...heading });
+    }
+    return results;
+}
+
+const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * The 0-based line an org search option points to: `*Heading`, `#custom-id`,
+ * `/regexp/`, a line number, or a target or #+NAME (falling back to a
+ * heading with that title, as org does).
+ */
+export function findSearchTarget(text: string, search: string): number | undefined {
+    const lines = text.split('\n');
+    const option = search.trim();
+
+    if (/^\d+$/.test(option)) {
+        return Math.min(Math.max(parseInt(option, 10) - 1, 0), lines.length - 1);
+    }
+    if (option.startsWith('#')) {
+        return headingsWithProperty(text, 'CUSTOM_ID').find(h => h.value === option.slice(1))?.line;
+    }
+    if (option.startsWith('*')) {
+        const wanted = normalizeTitle(option.slice(1));
+        return documentHeadlines(text).find(h => normalizeTitle(h.title) === wanted)?.lineNumber;
+    }
+    if (option.length > 2 && option.startsWith('/') && option.endsWith('/')) {
+        try {
+            const re = new RegExp(option.slice(1, -1));
+            const index = lines.findIndex(line => re.test(line));
+            return index >= 0 ? index : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    const key = normalizeAnchorText(option);
+    const anchor = extractAnchors(text).find(a => normalizeAnchorText(a.text) === key);
+    if (anchor) return anchor.lineNumber - 1;
+
+    const wanted = normalizeTitle(option);
+    return documentHeadlines(text).find(h => normalizeTitle(h.title) === wanted)?.lineNumber;
+}
+
+/** Tags used on headlines plus those declared in #+TAGS and #+FILETAGS */
+export function documentTags(text: string): string[] {
+    const tags = new Set<string>();
+    for (const headline of documentHeadlines(text)) {
+        headline.tags.forEach(tag => tags.add(tag));
+    }
+    for (const match of text.matchAll(/^#\+(?:TAGS|FILETAGS):\s*(.*)$/gim)) {
+        for (const token of match[1].split(/[\s:]+/)) {
+            const tag = token.replace(/\(.*\)$/, '');
+            if (/^[\w@#%]+$/.test(tag)) tags.add(tag);
+        }
+    }
+    return [...tags].sort();
+}
+
+/** Property names used in the document's property drawers */
+export function documentPropertyNames(text: string): string[] {
+    const names = new Set<string>();
+    for (const match of text.matchAll(/^[ \t]*:([A-Za-z_][\w-]*?)\+?:(?:[ \t]|$)/gm)) {
+        const name = match[1].toUpperCase();
+        if (name !== 'PROPERTIES' && name !== 'END' && name !== 'LOGBOOK') names.add(name);
+    }
+    return [...names].sort();
+}
+
+// =============================================================================
+// Completion context
+// =============================================================================
+
+/** Whether `line` sits inside a :PROPERTIES: drawer */
+function inPropertyDrawer(lines: string[], line: number): boolean {
+    for (let i = line - 1; i >= 0; i--) {
+        const text = lines[i].trim().toUpperCase();
+        if (text === ':PROPERTIES:') return true;
+        if (text === ':END:' || /^\*+\s/.test(lines[i])) return false;
+    }
+    return false;
+}
+
+/** What the text before the cursor asks to complete, if anything */
+export function completionContextAt(lines: string[], line: number, character: number): OrgCompletionContext | undefined {
+    const text = lines[line] ?? '';
+    const before = text.slice(0, character);
+    let match: RegExpMatchArray | null;
+
+    // [[type:target
+    if ((match = before.match(/\[\[([a-zA-Z][\w+-]*):([^\]\s]*)$/))) {
+        return { kind: 'link-target', type: match[1].toLowerCase(), prefix: match[2], start: character - match[2].length };
+    }
+    // [[#custom-id or [[*heading
+    if ((match = before.match(/\[\[([#*])([^\]]*)$/))) {
+        const type = match[1] === '#' ? 'custom-id' : 'heading';
+        return { kind: 'link-target', type, prefix: match[2], start: character - match[2].length };
+    }
+    // [[type
+    if ((match = before.match(/\[\[([\w+-]*)$/))) {
+        return { kind: 'link-type', prefix: match[1], start: character - match[1].length };
+    }
+    // [cite:@key or [cite/t:@a;@b
+    if ((match = before.match(/\[cite(?:\/[\w/-]*)?:[^\]]*@([^\s;\]]*)$/))) {
+        return { kind: 'link-target', type: 'cite', prefix: match[1], start: character - match[1].length };
+    }
+    // Plain id:... and org-ref cite:key1,key2 / cite:&key1;&key2
+    if ((match = before.match(/(?:^|[\s(])(id|cite[a-z]*):(?:\S*[,;])?&?([^\s,;&]*)$/))) {
+        const type = match[1] === 'id' ? 'id' : 'cite';
+        return { kind: 'link-target', type, prefix: match[2], start: character - match[2].length };
+    }
+    // Tags at the end of a headline
+    if (/^\*+\s/.test(text) && (match = before.match(/\s:(?:[\w@#%]+:)*([\w@#%]*)$/))) {
+        return { kind: 'tag', prefix: match[1], start: character - match[1].length };
+    }
+    // Property names in a property drawer
+    if ((match = before.match(/^\s*:([\w-]*)$/)) && inPropertyDrawer(lines, line)) {
+        return { kind: 'property', prefix: match[1], start: character - match[1].length };
+    }
+    return undefined;
+}
@@ -0,0 +1,564 @@
+/**
+ * Org language server
+ *
+ * Serves org files to any LSP client (Neovim, Helix, Emacs eglot, Sublime)
+ * over a JSON-RPC connection: document symbols, folding, completion, hover,
+ * org-lint diagnostics, go-to-definition for id:, file: and citation links,
+ * and workspace symbols from the scimax database. Features that only need
+ * the text live in orgLanguageFeatures; this class adds document tracking,
+ * the database and bibliography files.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { ScimaxDbCore, HeadingRecord } from '../database/scimaxDbCore';
+import { parseBibTeX, formatCitation, searchEntries, BibEntry } from '../references/bibtexParser';
+import { getLinkCompletions, linkTypeRegistry } from '../parser/orgLinkTypes';
+import { JsonRpcConnection, ResponseError } from './jsonRpc';
+import { OrgTextDocument } from './textDocuments';
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Diagnostic,
+    DocumentSymbol,
+    ErrorCodes,
+    FoldingRange,
+    Hover,
+    Location,
+    Range,
+    SymbolInformation,
+    SymbolKind,
+    TextDocumentContentChangeEvent,
+    TextDocumentIdentifier,
+    TextDocumentItem,
+    TextDocumentPositionParams,
+    TextDocumentSyncKind,
+} from './protocol';
+import {
+    completionContextAt,
+    documentHeadlines,
+    documentPropertyNames,
+    documentSymbols,
+    documentTags,
+    entityAtPosition,
+    findSearchTarget,
+    foldingRanges,
+    headingsWithProperty,
+    linkAtPosition,
+    lintDiagnostics,
+    OrgCompletionContext,
+    OrgLinkAtPosition,
+    ORG_SPECIAL_PROPERTIES,
+} from './orgLanguageFeatures';
+
+/** The database methods the server uses; tests pass a fake */
+export type OrgServerDatabase = Pick<
+    ScimaxDbCore,
+    'searchHeadings' | 'getHeadingById' | 'getAllTags' | 'searchByProperty' | 'resolveAnchor' | 'indexFile'
+>;
+
+export interface OrgLanguageServerOptions {
+    /** The scimax database, or null to run on open documents alone */
+    db?: OrgServerDatabase | null;
+    /** Bibliography files used when a document names none of its own */
+    bibliographyFiles?: string[];
+    /** org-lint checker ids to skip */
+    disabledCheckers?: string[];
+    /** Delay after the last edit before linting, in milliseconds */
+    diagnosticsDelay?: number;
+}
+
+/** Client settings accepted in initializationOptions and didChangeConfiguration */
+interface ClientSettings {
+    bibliographyFiles?: string[];
+    disabledCheckers?: string[];
+}
+
+const MAX_COMPLETIONS = 200;
+const BIB_FALLBACK_NAMES = ['refs.bib', 'references.bib'];
+
+function expandHome(p: string): string {
+    return p.startsWith('~') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+function pathToUri(filePath: string): string {
+    return pathToFileURL(filePath).href;
+}
+
+function lineLocation(filePath: string, line: number): Location {
+    const position = { line: Math.max(0, line), character: 0 };
+    return { uri: pathToUri(filePath), range: { start: position, end: position } };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class OrgLanguageServer {
+    private readonly documents = new Map<string, OrgTextDocument>();
+    private readonly lintTimers = new Map<string, NodeJS.Timeout>();
+    private readonly bibCache = new Map<string, { mtimeMs: number; content: string; entries: BibEntry[] }>();
+    private readonly db: OrgServerDatabase | null;
+    private readonly diagnosticsDelay: number;
+    private bibliographyFiles: string[];
+    private disabledCheckers: string[];
+    private shutdownRequested = false;
+    private exitHandler?: (code: number) => void;
+
+    constructor(private readonly connection: JsonRpcConnection, options: OrgLanguageServerOptions = {}) {
+        this.db = options.db ?? null;
+        this.bibliographyFiles = options.bibliographyFiles ?? [];
+        this.disabledCheckers = options.disabledCheckers ?? [];
+        this.diagnosticsDelay = options.diagnosticsDelay ?? 300;
+        this.registerHandlers();
+    }
+
+    /** Called on the exit notification with the exit code the spec asks for */
+    onExit(handler: (code: number) => void): void {
+        this.exitHandler = handler;
+    }
+
+    /** Stop pending lint runs, e.g. when the connection closes */
+    dispose(): void {
+        for (const timer of this.lintTimers.values()) clearTimeout(timer);
+        this.lintTimers.clear();
+    }
+
+    private registerHandlers(): void {
+        const c = this.connection;
+
+        c.onRequest('initialize', (params: { initializationOptions?: ClientSettings }) => {
+            this.applySettings(params?.initializationOptions);
+            return {
+                capabilities: {
+                    textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Incremental, save: { includeText: false } },
+                    documentSymbolProvider: true,
+                    foldingRangeProvider: true,
+                    completionProvider: { triggerCharacters: ['[', ':', '@', '#', '*'] },
+                    hoverProvider: true,
+                    definitionProvider: true,
+                    workspaceSymbolProvider: true,
+                },
+                serverInfo: { name: 'scimax-org' },
+            };
+        });
+        c.onNotification('initialized', () => undefined);
+        c.onRequest('shutdown', () => {
+            this.shutdownRequested = true;
+            this.dispose();
+            return null;
+        });
+        c.onNotification('exit', () => this.exitHandler?.(this.shutdownRequested ? 0 : 1));
+        c.onNotification('$/cancelRequest', () => undefined);
+        c.onNotification('$/setTrace', () => undefined);
+        c.onNotification('workspace/didChangeConfiguration', (params: { settings?: { scimax?: ClientSettings } }) => {
+            this.applySettings(params?.settings?.scimax);
+            for (const uri of this.documents.keys()) this.scheduleLint(uri);
+        });
+
+        c.onNotification('textDocument/didOpen', (params: { textDocument: TextDocumentItem }) => {
+            const { uri, languageId, version, text } = params.textDocument;
+            this.documents.set(uri, new OrgTextDocument(uri, languageId, version, text));
+            this.scheduleLint(uri);
+        });
+        c.onNotification('textDocument/didChange', (params: {
+            textDocument: TextDocumentIdentifier & { version: number };
+            contentChanges: TextDocumentContentChangeEvent[];
+        }) => {
+            const doc = this.documents.get(params.textDocument.uri);
+            if (!doc) return;
+            doc.update(params.contentChanges, params.textDocument.version);
+            this.scheduleLint(doc.uri);
+        });
+        c.onNotification('textDocument/didClose', (params: { textDocument: TextDocumentIdentifier }) => {
+            const { uri } = params.textDocument;
+            this.documents.delete(uri);
+            clearTimeout(this.lintTimers.get(uri));
+            this.lintTimers.delete(uri);
+            c.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+        });
+        c.onNotification('textDocument/didSave', async (params: { textDocument: TextDocumentIdentifier }) => {
+            const filePath = this.documents.get(params.textDocument.uri)?.filePath;
+            if (this.db && filePath) await this.db.indexFile(filePath);
+        });
+
+        c.onRequest('textDocument/documentSymbol', (params: { textDocument: TextDocumentIdentifier }): DocumentSymbol[] =>
+            documentSymbols(this.getDocument(params.textDocument.uri).text));
+        c.onRequest('textDocument/foldingRange', (params: { textDocument: TextDocumentIdentifier }): FoldingRange[] =>
+            foldingRanges(this.getDocument(params.textDocument.uri).text));
+        c.onRequest('textDocument/completion', (params: TextDocumentPositionParams) => this.completion(params));
+        c.onRequest('textDocument/hover', (params: TextDocumentPositionParams) => this.hover(params));
+        c.onRequest('textDocument/definition', (params: TextDocumentPositionParams) => this.definition(params));
+        c.onRequest('workspace/symbol', (params: { query: string }) => this.workspaceSymbols(params.query));
+    }
+
+    private applySettings(settings: ClientSettings | undefined): void {
+        if (Array.isArray(settings?.bibliographyFiles)) this.bibliographyFiles = settings.bibliographyFiles;
+        if (Array.isArray(settings?.disabledCheckers)) this.disabledCheckers = settings.disabledCheckers;
+    }
+
+    private getDocument(uri: string): OrgTextDocument {
+        const doc = this.documents.get(uri);
+        if (!doc) throw new ResponseError(ErrorCodes.InvalidParams, `Document not open: ${uri}`);
+        return doc;
+    }
+
+    // =========================================================================
+    // Diagnostics
+    // =========================================================================
+
+    private scheduleLint(uri: string): void {
+        clearTimeout(this.lintTimers.get(uri));
+        this.lintTimers.set(uri, setTimeout(() => {
+            this.lintTimers.delete(uri);
+            this.publishDiagnostics(uri);
+        }, this.diagnosticsDelay));
+    }
+
+    private publishDiagnostics(uri: string): void {
+        const doc = this.documents.get(uri);
+        if (!doc) return;
+        let diagnostics: Diagnostic[] = [];
+        if (doc.languageId === 'org' || uri.endsWith('.org')) {
+            try {
+                diagnostics = lintDiagnostics(doc.text, this.disabledCheckers);
+            } catch (error) {
+                console.error('[lsp] org-lint failed:', error);
+            }
+        }
+        this.connection.sendNotification('textDocument/publishDiagnostics', { uri, version: doc.version, diagnostics });
+    }
+
+    // =========================================================================
+    // Completion
+    // =========================================================================
+
+    private async completion(params: TextDocumentPositionParams): Promise<CompletionItem[]> {
+        const doc = this.getDocument(params.textDocument.uri);
+        const lines = doc.text.split('\n');
+        const context = completionContextAt(lines, params.position.line, params.position.character);
+        if (!context) return [];
+
+        const range: Range = { start: { line: params.position.line, character: context.start }, end: params.position };
+        const items = (await this.completionItems(context, doc)).slice(0, MAX_COMPLETIONS);
+        return items.map(({ insertText, ...item }) => ({ ...item, textEdit: { range, newText: insertText ?? item.label } }));
+    }
+
+    private async completionItems(context: OrgCompletionContext, doc: OrgTextDocument): Promise<CompletionItem[]> {
+        const matches = (label: string) => label.toLowerCase().startsWith(context.prefix.toLowerCase());
+
+        switch (context.kind) {
+            case 'link-type':
+                return linkTypeRegistry.getTypes().sort().filter(matches).map(type => ({
+                    label: type,
+                    kind: CompletionItemKind.Keyword,
+                    detail: linkTypeRegistry.getHandler(type)?.description,
+                    insertText: `${type}:`,
+                }));
+
+            case 'tag': {
+                const tags = new Set(documentTags(doc.text));
+                if (this.db) (await this.db.getAllTags()).forEach(tag => tags.add(tag));
+                return [...tags].sort().filter(matches).map(tag => ({
+                    label: tag, kind: CompletionItemKind.Constant, insertText: `${tag}:`,
+                }));
+            }
+
+            case 'property': {
+                const documentNames = documentPropertyNames(doc.text).filter(n => !ORG_SPECIAL_PROPERTIES.includes(n));
+                return [...ORG_SPECIAL_PROPERTIES, ...documentNames].filter(matches).map((name, index) => ({
+                    label: name,
+                    kind: CompletionItemKind.Property,
+                    insertText: `${name}: `,
+                    sortText: String(index).padStart(4, '0'),
+                }));
+            }
+
+            case 'link-target':
+                return this.linkTargetItems(context.type, context.prefix, doc);
+        }
+    }
+
+    private async linkTargetItems(type: string, prefix: string, doc: OrgTextDocument): Promise<CompletionItem[]> {
+        switch (type) {
+            case 'custom-id':
+                return headingsWithProperty(doc.text, 'CUSTOM_ID')
+                    .filter(h => h.value.startsWith(prefix))
+                    .map(h => ({ label: h.value, kind: CompletionItemKind.Reference, detail: h.title }));
+
+            case 'heading':
+                return documentHeadlines(doc.text)
+                    .filter(h => h.title.toLowerCase().includes(prefix.toLowerCase()))
+                    .map(h => ({ label: h.title, kind: CompletionItemKind.Reference, detail: `line ${h.lineNumber + 1}` }));
+
+            case 'id': {
+                const items = new Map<string, CompletionItem>();
+                for (const h of headingsWithProperty(doc.text, 'ID')) {
+                    if (h.value.startsWith(prefix)) items.set(h.value, { label: h.value, kind: CompletionItemKind.Reference, detail: h.title });
+                }
+                if (this.db) {
+                    for (const heading of await this.db.searchByProperty('ID', prefix || undefined)) {
+                        const id = this.headingId(heading);
+                        if (id && id.startsWith(prefix) && !items.has(id)) {
+                            items.set(id, {
+                                label: id,
+                                kind: CompletionItemKind.Reference,
+                                detail: heading.title,
+                                documentation: `${heading.file_path}:${heading.line_number}`,
+                            });
+                        }
+                    }
+                }
+                return [...items.values()];
+            }
+
+            case 'file':
+                return this.fileItems(prefix, doc);
+
+            case 'cite': {
+                const entries = this.bibEntriesFor(doc);
+                const completions = await getLinkCompletions('cite', prefix, {
+                    searchBibliography: async query => (query ? searchEntries(entries, query) : entries),
+                });
+                return completions.map(completion => ({
+                    label: completion.label,
+                    kind: CompletionItemKind.Reference,
+                    detail: completion.detail,
+                    insertText: completion.text,
+                }));
+            }
+
+            default:
+                return [];
+        }
+    }
+
+    private headingId(heading: HeadingRecord): string | undefined {
+        try {
+            const properties = JSON.parse(heading.properties || '{}') as Record<string, string>;
+            return properties.ID ?? properties.id;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Directory entries for a file: link, relative to the document like org resolves them */
+    private fileItems(prefix: string, doc: OrgTextDocument): CompletionItem[] {
+        const slash = prefix.lastIndexOf('/');
+        const dirPart = slash >= 0 ? prefix.slice(0, slash + 1) : '';
+        const namePart = prefix.slice(slash + 1);
+        const baseDir = doc.filePath ? path.dirname(doc.filePath) : process.cwd();
+        const dir = path.resolve(baseDir, expandHome(dirPart || '.'));
+
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+        return entries
+            .filter(entry => entry.name.startsWith(namePart) && (namePart.startsWith('.') || !entry.name.startsWith('.')))
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(entry => {
+                const isDir = entry.isDirectory();
+                const label = `${dirPart}${entry.name}${isDir ? '/' : ''}`;
+                return { label, kind: isDir ? CompletionItemKind.Folder : CompletionItemKind.File };
+            });
+    }
+
+    // =========================================================================
+    // Hover
+    // =========================================================================
+
+    private async hover(params: TextDocumentPositionParams): Promise<Hover | null> {
+        const doc = this.getDocument(params.textDocument.uri);
+        const { line, character } = params.position;
+        const text = doc.lineAt(line);
+
+        const link = linkAtPosition(text, line, character);
+        if (link) {
+            const value = await this.describeLink(link, doc);
+            return value ? { contents: { kind: 'markdown', value }, range: link.range } : null;
+        }
+
+        const entity = entityAtPosition(text, character);
+        if (entity) {
+            return {
+                contents: { kind: 'markdown', value: `${entity.entity.utf8}  \`\\${entity.name}\` (LaTeX \`${entity.entity.latex}\`)` },
+                range: { start: { line, character: entity.start }, end: { line, character: entity.end } },
+            };
+        }
+        return null;
+    }
+
+    private async describeLink(link: OrgLinkAtPosition, doc: OrgTextDocument): Promise<string | undefined> {
+        if (link.kind === 'cite') {
+            const found = this.findBibEntry(link.key, doc);
+            return found
+                ? `**${link.key}**\n\n${formatCitation(found.entry, 'full')}\n\n${found.file}`
+                : `**${link.key}**\n\nNot found in the bibliography`;
+        }
+
+        switch (link.type) {
+            case 'id': {
+                const heading = await this.db?.getHeadingById(link.path);
+                if (heading) return `**${heading.title}**\n\n${heading.file_path}:${heading.line_number}`;
+                const local = headingsWithProperty(doc.text, 'ID').find(h => h.value === link.path);
+                return local ? `**${local.title}**\n\nline ${local.line + 1}` : `Unknown ID \`${link.path}\``;
+            }
+            case 'file': {
+                const filePath = this.resolveFilePath(link.path, doc);
+                const exists = fs.existsSync(filePath);
+                const search = link.search ? ` :: \`${link.search}\`` : '';
+                return `${filePath}${search}${exists ? '' : '\n\nFile not found'}`;
+            }
+            case 'http':
+            case 'https':
+                return `${link.type}:${link.path}`;
+            case 'doi':
+                return `https://doi.org/${link.path}`;
+            default:
+                return linkTypeRegistry.getHandler(link.type)?.description;
+        }
+    }
+
+    // =========================================================================
+    // Definition
+    // =========================================================================
+
+    private async definition(params: TextDocumentPositionParams): Promise<Location | null> {
+        const doc = this.getDocument(params.textDocument.uri);
+        const { line, character } = params.position;
+        const link = linkAtPosition(doc.lineAt(line), line, character);
+        if (!link) return null;
+
+        if (link.kind === 'cite') {
+            const found = this.findBibEntry(link.key, doc);
+            return found ? lineLocation(found.file, found.line) : null;
+        }
+
+        switch (link.type) {
+            case 'id': return this.idLocation(link.path, doc);
+            case 'file': return this.fileLocation(link.path, link.search, doc);
+            case 'internal': return this.internalLocation(link.path, doc);
+            default: return null;
+        }
+    }
+
+    private async idLocation(id: string, doc: OrgTextDocument): Promise<Location | null> {
+        for (const open of [doc, ...this.documents.values()]) {
+            const local = headingsWithProperty(open.text, 'ID').find(h => h.value === id);
+            if (local) return { uri: open.uri, range: { start: { line: local.line, character: 0 }, end: { line: local.line, character: 0 } } };
+        }
+        const heading = await this.db?.getHeadingById(id);
+        return heading ? lineLocation(heading.file_path, heading.line_number - 1) : null;
+    }
+
+    private fileLocation(file: string, search: string | undefined, doc: OrgTextDocument): Location | null {
+        const filePath = this.resolveFilePath(file, doc);
+        if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) return null;
+        if (!search) return lineLocation(filePath, 0);
+
+        const open = [...this.documents.values()].find(d => d.filePath === filePath);
+        const text = open?.text ?? fs.readFileSync(filePath, 'utf-8');
+        return lineLocation(filePath, findSearchTarget(text, search) ?? 0);
+    }
+
+    private async internalLocation(search: string, doc: OrgTextDocument): Promise<Location | null> {
+        const line = findSearchTarget(doc.text, search);
+        if (line !== undefined) {
+            return { uri: doc.uri, range: { start: { line, character: 0 }, end: { line, character: 0 } } };
+        }
+        // A plain target may be a <<target>> or #+NAME in another indexed file
+        if (this.db && !/^[#*/]/.test(search)) {
+            const anchor = await this.db.resolveAnchor(search, doc.filePath);
+            if (anchor) return lineLocation(anchor.file_path, anchor.line_number - 1);
+        }
+        return null;
+    }
+
+    private resolveFilePath(file: string, doc: OrgTextDocument): string {
+        const expanded = expandHome(file.replace(/^file:/, ''));
+        const baseDir = doc.filePath ? path.dirname(doc.filePath) : process.cwd();
+        return path.resolve(baseDir, expanded);
+    }
+
+    // =========================================================================
+    // Workspace symbols
+    // =========================================================================
+
+    private async workspaceSymbols(query: string): Promise<SymbolInformation[]> {
+        if (!this.db) return [];
+        const headings = await this.db.searchHeadings(query ?? '', { limit: MAX_COMPLETIONS });
+        return headings.map(heading => ({
+            name: heading.todo_state ? `${heading.todo_state} ${heading.title}` : heading.title,
+            kind: SymbolKind.Class,
+            location: lineLocation(heading.file_path, heading.line_number - 1),
+            containerName: path.basename(heading.file_path),
+        }));
+    }
+
+    // =========================================================================
+    // Bibliography
+    // =========================================================================
+
+    /**
+     * Bibliography files for a document: those it names in bibliography:
+     * links or #+BIBLIOGRAPHY, else the configured ones, else refs.bib or
+     * references.bib beside it.
+     */
+    private bibliographyFilesFor(doc: OrgTextDocument): string[] {
+        const baseDir = doc.filePath ? path.dirname(doc.filePath) : process.cwd();
+        const named: string[] = [];
+        for (const match of doc.text.matchAll(/bibliography:([^\s<>[\](){}]+)/gi)) {
+            named.push(...match[1].split(','));
+        }
+        for (const match of doc.text.matchAll(/^#\+BIBLIOGRAPHY:\s*(.+)$/gim)) {
+            named.push(...match[1].trim().split(/\s+/));
+        }
+
+        const existing = (files: string[]) => [...new Set(files
+            .filter(Boolean)
+            .map(file => path.resolve(baseDir, expandHome(file)))
+            .filter(file => fs.existsSync(file)))];
+
+        const local = existing(named);
+        if (local.length > 0) return local;
+        const configured = existing(this.bibliographyFiles);
+        if (configured.length > 0) return configured;
+        return existing(BIB_FALLBACK_NAMES);
+    }
+
+    private loadBibliography(file: string): { content: string; entries: BibEntry[] } | undefined {
+        try {
+            const { mtimeMs } = fs.statSync(file);
+            const cached = this.bibCache.get(file);
+            if (cached && cached.mtimeMs === mtimeMs) return cached;
+            const content = fs.readFileSync(file, 'utf-8');
+            const loaded = { mtimeMs, content, entries: parseBibTeX(content).entries };
+            this.bibCache.set(file, loaded);
+            return loaded;
+        } catch (error) {
+            console.error(`[lsp] Could not read bibliography ${file}:`, error);
+            return undefined;
+        }
+    }
+
+    private bibEntriesFor(doc: OrgTextDocument): BibEntry[] {
+        return this.bibliographyFilesFor(doc).flatMap(file => this.loadBibliography(file)?.entries ?? []);
+    }
+
+    private findBibEntry(key: string, doc: OrgTextDocument): { entry: BibEntry; file: string; line: number } | undefined {
+        for (const file of this.bibliographyFilesFor(doc)) {
+            const bib = this.loadBibliography(file);
+            const entry = bib?.entries.find(e => e.key === key);
+            if (!bib || !entry) continue;
+            const match = new RegExp(`@\\w+\\s*[{(]\\s*${escapeRegExp(key)}\\s*,`).exec(bib.content);
+            const line = match ? bib.content.slice(0, match.index).split('\n').length - 1 : 0;
+            return { entry, file, line };
+        }
+        return undefined;
+    }
+}
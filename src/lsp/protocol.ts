@@ -0,0 +1,169 @@
+/**
+ * Language Server Protocol types
+ *
+ * The subset of LSP 3.17 the org language server speaks. Positions are
+ * 0-based, with characters counted in UTF-16 code units, which is what
+ * JavaScript string indices already are.
+ */
+
+// =============================================================================
+// Basic structures
+// =============================================================================
+
+export interface Position {
+    line: number;
+    character: number;
+}
+
+export interface Range {
+    start: Position;
+    end: Position;
+}
+
+export interface Location {
+    uri: string;
+    range: Range;
+}
+
+export interface TextDocumentIdentifier {
+    uri: string;
+}
+
+export interface TextDocumentItem {
+    uri: string;
+    languageId: string;
+    version: number;
+    text: string;
+}
+
+export interface TextDocumentPositionParams {
+    textDocument: TextDocumentIdentifier;
+    position: Position;
+}
+
+/** A change to a document: a range edit, or the full text when range is absent */
+export interface TextDocumentContentChangeEvent {
+    range?: Range;
+    text: string;
+}
+
+export interface MarkupContent {
+    kind: 'plaintext' | 'markdown';
+    value: string;
+}
+
+// =============================================================================
+// Features
+// =============================================================================
+
+export const SymbolKind = {
+    File: 1,
+    Module: 2,
+    Namespace: 3,
+    Class: 5,
+    Method: 6,
+    Property: 7,
+    Field: 8,
+    Function: 12,
+    Variable: 13,
+    Constant: 14,
+    Key: 20,
+    Struct: 23,
+    Event: 24,
+} as const;
+
+export type SymbolKindValue = typeof SymbolKind[keyof typeof SymbolKind];
+
+export interface DocumentSymbol {
+    name: string;
+    detail?: string;
+    kind: SymbolKindValue;
+    range: Range;
+    selectionRange: Range;
+    children?: DocumentSymbol[];
+}
+
+export interface SymbolInformation {
+    name: string;
+    kind: SymbolKindValue;
+    location: Location;
+    containerName?: string;
+}
+
+export interface FoldingRange {
+    startLine: number;
+    endLine: number;
+    kind?: 'comment' | 'imports' | 'region';
+}
+
+export const CompletionItemKind = {
+    Text: 1,
+    Property: 10,
+    Keyword: 14,
+    File: 17,
+    Reference: 18,
+    Folder: 19,
+    Constant: 21,
+} as const;
+
+export const InsertTextFormat = {
+    PlainText: 1,
+    Snippet: 2,
+} as const;
+
+export interface TextEdit {
+    range: Range;
+    newText: string;
+}
+
+export interface CompletionItem {
+    label: string;
+    kind?: typeof CompletionItemKind[keyof typeof CompletionItemKind];
+    detail?: string;
+    documentation?: string | MarkupContent;
+    insertText?: string;
+    insertTextFormat?: typeof InsertTextFormat[keyof typeof InsertTextFormat];
+    textEdit?: TextEdit;
+    filterText?: string;
+    sortText?: string;
+}
+
+export interface Hover {
+    contents: MarkupContent;
+    range?: Range;
+}
+
+export const DiagnosticSeverity = {
+    Error: 1,
+    Warning: 2,
+    Information: 3,
+    Hint: 4,
+} as const;
+
+export interface Diagnostic {
+    range: Range;
+    severity?: typeof DiagnosticSeverity[keyof typeof DiagnosticSeverity];
+    code?: string;
+    source?: string;
+    message: string;
+}
+
+export const TextDocumentSyncKind = {
+    None: 0,
+    Full: 1,
+    Incremental: 2,
+} as const;
+
+// =============================================================================
+// JSON-RPC
+// =============================================================================
+
+export const ErrorCodes = {
+    ParseError: -32700,
+    InvalidRequest: -32600,
+    MethodNotFound: -32601,
+    InvalidParams: -32602,
+    InternalError: -32603,
+    ServerNotInitialized: -32002,
+    InvalidRequestAfterShutdown: -32600,
+} as const;
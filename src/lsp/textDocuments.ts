@@ -0,0 +1,97 @@
+/**
+ * Open text documents for the language server
+ *
+ * Holds the text the client has sent for each open document and applies
+ * incremental changes to it, so features always see the unsaved buffer.
+ */
+
+import { fileURLToPath } from 'url';
+import type { Position, TextDocumentContentChangeEvent } from './protocol';
+
+export class OrgTextDocument {
+    private lineOffsets: number[] | undefined;
+
+    constructor(
+        public readonly uri: string,
+        public readonly languageId: string,
+        public version: number,
+        private content: string
+    ) {}
+
+    get text(): string {
+        return this.content;
+    }
+
+    /** The document's file path, for file: URIs */
+    get filePath(): string | undefined {
+        return uriToPath(this.uri);
+    }
+
+    get lineCount(): number {
+        return this.getLineOffsets().length;
+    }
+
+    lineAt(line: number): string {
+        const offsets = this.getLineOffsets();
+        if (line < 0 || line >= offsets.length) return '';
+        const end = line + 1 < offsets.length ? offsets[line + 1] : this.content.length;
+        return this.content.slice(offsets[line], end).replace(/\r?\n$/, '');
+    }
+
+    offsetAt(position: Position): number {
+        const offsets = this.getLineOffsets();
+        if (position.line >= offsets.length) return this.content.length;
+        if (position.line < 0) return 0;
+        const lineStart = offsets[position.line];
+        const lineEnd = position.line + 1 < offsets.length ? offsets[position.line + 1] : this.content.length;
+        return Math.min(lineStart + Math.max(0, position.character), lineEnd);
+    }
+
+    positionAt(offset: number): Position {
+        const offsets = this.getLineOffsets();
+        const clamped = Math.max(0, Math.min(offset, this.content.length));
+        let low = 0;
+        let high = offsets.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (offsets[mid] > clamped) high = mid - 1;
+            else low = mid;
+        }
+        return { line: low, character: clamped - offsets[low] };
+    }
+
+    update(changes: TextDocumentContentChangeEvent[], version: number): void {
+        for (const change of changes) {
+            if (change.range) {
+                const start = this.offsetAt(change.range.start);
+                const end = this.offsetAt(change.range.end);
+                this.content = this.content.slice(0, start) + change.text + this.content.slice(end);
+            } else {
+                this.content = change.text;
+            }
+            this.lineOffsets = undefined;
+        }
+        this.version = version;
+    }
+
+    private getLineOffsets(): number[] {
+        if (!this.lineOffsets) {
+            const offsets = [0];
+            for (let i = 0; i < this.content.length; i++) {
+                if (this.content[i] === '\n') offsets.push(i + 1);
+            }
+            this.lineOffsets = offsets;
+        }
+        return this.lineOffsets;
+    }
+}
+
+/** The path of a file: URI, or undefined for other schemes */
+export function uriToPath(uri: string): string | undefined {
+    if (!uri.startsWith('file:')) return undefined;
+    try {
+        return fileURLToPath(uri);
+    } catch {
+        return undefined;
+    }
+}
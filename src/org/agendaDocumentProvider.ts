@@ -22,6 +22,11 @@ import {
     type AgendaItem,
     type AgendaViewConfig,
 } from '../parser/orgAgenda';
+import {
+    renderCustomAgendaBuffer,
+    type CustomAgendaView,
+} from '../parser/orgAgendaCustom';
+import type { HabitDay } from '../parser/orgHabits';
 import type { AgendaManager } from './agendaProvider';
 
 /** URI scheme for agenda buffers. Matches `resourceScheme` in when-clauses. */
@@ -35,6 +40,8 @@ interface ViewState {
     days: number;
     /** Periods paged forward (+) or back (-) from the base start date */
     offset: number;
+    /** Set for custom views: the blocks to run instead of a plain agenda */
+    customView?: CustomAgendaView;
 }
 
 export class AgendaDocumentProvider
@@ -45,6 +52,7 @@ export class AgendaDocumentProvider
 
     private states = new Map<string, ViewState>();
     private lineMaps = new Map<string, Map<number, AgendaItem>>();
+    private habitColumns = new Map<string, Map<number, number>>();
 
     constructor(private manager: AgendaManager) {}
 
@@ -64,14 +72,20 @@ export class AgendaDocumentProvider
             ].join('\n');
         }
 
-        const view = await this.manager.getAgendaView(this.resolveConfig(state));
-        const { text, lineMap } = renderAgendaBuffer(view);
+        const config = this.resolveConfig(state);
+        const { text, lineMap, habitColumns } = state.customView
+            ? renderCustomAgendaBuffer(
+                await this.manager.runCustomView(state.customView, config.startDate),
+                config.startDate
+            )
+            : renderAgendaBuffer(await this.manager.getAgendaView(config));
         this.lineMaps.set(uri.toString(), lineMap);
+        this.habitColumns.set(uri.toString(), habitColumns ?? new Map());
         return text;
     }
 
     /** Apply the current page offset to the base config. */
-    private resolveConfig(state: ViewState): Partial<AgendaViewConfig> {
+    private resolveConfig(state: ViewState): Partial<AgendaViewConfig> & { startDate: Date } {
         const base = state.config.startDate ?? startOfDay(new Date());
         return {
             ...state.config,
@@ -85,6 +99,17 @@ export class AgendaDocumentProvider
         return this.lineMaps.get(uri.toString())?.get(line);
     }
 
+    /** Where each habit graph was drawn, for coloring its days. */
+    habitGraphs(uri: vscode.Uri): { line: number; column: number; days: HabitDay[] }[] {
+        const lineMap = this.lineMaps.get(uri.toString());
+        const graphs: { line: number; column: number; days: HabitDay[] }[] = [];
+        for (const [line, column] of this.habitColumns.get(uri.toString()) ?? []) {
+            const days = lineMap?.get(line)?.habitGraph;
+            if (days) graphs.push({ line, column, days });
+        }
+        return graphs;
+    }
+
     /**
      * Make every item line a clickable link to its source heading.
      *
@@ -97,11 +122,13 @@ export class AgendaDocumentProvider
         const lineMap = this.lineMaps.get(document.uri.toString());
         if (!lineMap) return [];
 
+        const habitColumns = this.habitColumns.get(document.uri.toString());
         const links: vscode.DocumentLink[] = [];
         for (const [lineNumber, item] of lineMap) {
             if (lineNumber >= document.lineCount) continue;
 
-            const text = document.lineAt(lineNumber).text;
+            // A habit graph is not part of the link.
+            const text = document.lineAt(lineNumber).text.slice(0, habitColumns?.get(lineNumber));
             const start = text.length - text.trimStart().length;
             const end = text.trimEnd().length;
             if (end <= start) continue;
@@ -158,18 +185,22 @@ export class AgendaDocumentProvider
      * Open (or reveal) an agenda buffer. Reusing `name` reuses the tab.
      */
     async open(name: string, config: Partial<AgendaViewConfig>, days: number): Promise<void> {
+        await this.show(name, { config, days, offset: 0 });
+    }
+
+    /**
+     * Open (or reveal) a custom view. Its buffer pages one day at a time,
+     * moving the date its blocks are computed for. The prefix keeps a view
+     * named like a built-in buffer from taking over that buffer's tab.
+     */
+    async openCustom(view: CustomAgendaView): Promise<void> {
+        await this.show(`Agenda-${view.name}`, { config: {}, days: 1, offset: 0, customView: view });
+    }
+
+    private async show(name: string, state: ViewState): Promise<void> {
         const uri = vscode.Uri.parse(`${AGENDA_SCHEME}:${name}.org`);
-        const key = uri.toString();
-
-        const existing = this.states.get(key);
-        if (existing) {
-            // Reopening resets the config but keeps the tab.
-            existing.config = config;
-            existing.days = days;
-            existing.offset = 0;
-        } else {
-            this.states.set(key, { config, days, offset: 0 });
-        }
+        // Reopening resets the state but keeps the tab.
+        this.states.set(uri.toString(), state);
 
         const doc = await vscode.workspace.openTextDocument(uri);
         // Borrow org highlighting rather than contributing a new grammar.
@@ -184,6 +215,7 @@ export class AgendaDocumentProvider
         this._onDidChange.dispose();
         this.states.clear();
         this.lineMaps.clear();
+        this.habitColumns.clear();
     }
 }
 
@@ -25,6 +25,15 @@ import {
     runOnSourceHeading,
 } from './agendaDocumentProvider';
 import { parseHeadingTags } from './agendaTags';
+import { exportIcal, importIcalToOrg, parseIcal, IcalSource } from '../parser/orgIcal';
+import type { DatetreeFormat } from '../parser/orgCapture';
+import { isArchiveFile } from '../parser/orgArchive';
+import {
+    collectCustomViews,
+    runCustomAgendaView,
+    CustomAgendaView,
+    CustomAgendaResult,
+} from '../parser/orgAgendaCustom';
 import {
     collectAllClockEntries,
     generateTimeReport,
@@ -34,6 +43,14 @@ import {
 import { minimatch } from 'minimatch';
 import { getDatabase } from '../database/lazyDb';
 import type { ScimaxDb, AgendaItem as DbAgendaItem } from '../database/scimaxDb';
+import type { HeadingRecord } from '../database/scimaxDbCore';
+import { parseTagsMatch } from '../parser/orgTagsMatch';
+import {
+    buildHabitGraph,
+    parseHabits,
+    type Habit,
+} from '../parser/orgHabits';
+import { getHabitGraphOptions, registerHabits } from './habitProvider';
 import { isHeadingBlocked } from './dependencies';
 import { format, addDays, startOfDay, isSameDay, differenceInDays, parse } from 'date-fns';
 
@@ -56,6 +73,78 @@ export interface AgendaConfig {
     todoStates: string[];
     /** Done states */
     doneStates: string[];
+    /** Show entries from archive files (`*.org_archive`, `*_archive.org`) */
+    includeArchives: boolean;
+}
+
+/**
+ * Path substrings that should always be excluded from agenda scanning.
+ * These are system/application directories that may contain .org files
+ * as backups or caches but are never valid agenda sources.
+ */
+const BUILTIN_EXCLUDE_PATHS: string[] = [
+    '/Library/Application Support/',
+    '/Library/Caches/',
+    '/.Trash/',
+    '/.local/share/',
+    '/AppData/',
+    '/.cache/',
+    '/tmp/',
+    '/temp/',
+    '/.emacs.d/elpa/',
+    '/.emacs.d/straight/',
+];
+
+/**
+ * Check if a file is hidden from the agenda by `scimax.agenda.exclude`
+ * (absolute paths or glob patterns), the built-in system exclusions, or for
+ * being an archive file (unless `includeArchives`).
+ * Exported so other views over "agenda files" (e.g. refile targets) agree
+ * with the agenda on which files count.
+ */
+export function isAgendaFileExcluded(filePath: string, exclude: string[], includeArchives = false): boolean {
+    if (!includeArchives && isArchiveFile(filePath)) {
+        return true;
+    }
+
+    // Always exclude system/application directories
+    for (const segment of BUILTIN_EXCLUDE_PATHS) {
+        if (filePath.includes(segment)) {
+            return true;
+        }
+    }
+
+    for (const pattern of exclude) {
+        // Expand ~ in pattern
+        let expandedPattern = pattern;
+        if (pattern.startsWith('~')) {
+            expandedPattern = pattern.replace(/^~/, process.env.HOME || '');
+        }
+
+        if (pattern.includes('*')) {
+            // It's a glob pattern
+            if (minimatch(filePath, expandedPattern, { matchBase: true })) {
+                return true;
+            }
+        } else {
+            // It's an absolute path
+            if (filePath === expandedPattern) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+/** True for an indexed heading with `:STYLE: habit` or the HABIT tag */
+function isHabitRecord(heading: HeadingRecord): boolean {
+    if (parseHeadingTags(heading.tags).includes('HABIT')) return true;
+    try {
+        const properties = JSON.parse(heading.properties || '{}') as Record<string, string>;
+        return String(properties.STYLE ?? '').trim().toLowerCase() === 'habit';
+    } catch {
+        return false;
+    }
 }
 
 // =============================================================================
@@ -157,58 +246,15 @@ export class AgendaManager {
             requireTodoState: config.get<boolean>('requireTodoState', true),
             todoStates: config.get<string[]>('todoStates', ['TODO', 'NEXT', 'WAITING']),
             doneStates: config.get<string[]>('doneStates', ['DONE', 'CANCELLED']),
+            includeArchives: config.get<boolean>('includeArchives', false),
         };
     }
 
-    /**
-     * Path substrings that should always be excluded from agenda scanning.
-     * These are system/application directories that may contain .org files
-     * as backups or caches but are never valid agenda sources.
-     */
-    private static readonly BUILTIN_EXCLUDE_PATHS: string[] = [
-        '/Library/Application Support/',
-        '/Library/Caches/',
-        '/.Trash/',
-        '/.local/share/',
-        '/AppData/',
-        '/.cache/',
-        '/tmp/',
-        '/temp/',
-        '/.emacs.d/elpa/',
-        '/.emacs.d/straight/',
-    ];
-
     /**
      * Check if a file should be excluded (by absolute path or glob pattern)
      */
     private isFileExcluded(filePath: string): boolean {
-        // Always exclude system/application directories
-        for (const segment of AgendaManager.BUILTIN_EXCLUDE_PATHS) {
-            if (filePath.includes(segment)) {
-                return true;
-            }
-        }
-
-        for (const pattern of this.config.exclude) {
-            // Expand ~ in pattern
-            let expandedPattern = pattern;
-            if (pattern.startsWith('~')) {
-                expandedPattern = pattern.replace(/^~/, process.env.HOME || '');
-            }
-
-            if (pattern.includes('*')) {
-                // It's a glob pattern
-                if (minimatch(filePath, expandedPattern, { matchBase: true })) {
-                    return true;
-                }
-            } else {
-                // It's an absolute path
-                if (filePath === expandedPattern) {
-                    return true;
-                }
-            }
-        }
-        return false;
+        return isAgendaFileExcluded(filePath, this.config.exclude, this.config.includeArchives);
     }
 
     async excludeFile(filePath: string): Promise<void> {
@@ -346,6 +392,7 @@ export class AgendaManager {
 
             // Convert database items to AgendaItem format, filtering excluded files
             const items: AgendaItem[] = [];
+            const habitItems: AgendaItem[] = [];
             for (const dbItem of dbItems) {
                 // Check if file is excluded
                 if (this.isFileExcluded(dbItem.heading.file_path)) {
@@ -358,9 +405,23 @@ export class AgendaManager {
                         // On resolution error, keep the item (fail open).
                     }
                 }
+                const habit = isHabitRecord(dbItem.heading);
+                if (habit && !fullConfig.showHabits) continue;
                 const agendaItem = this.convertDbItemToAgendaItem(dbItem, startDate);
                 if (agendaItem) {
                     items.push(agendaItem);
+                    if (habit) habitItems.push(agendaItem);
+                }
+            }
+
+            // The index keeps no logbooks, so graphs come from the files.
+            if (habitItems.length > 0) {
+                const { habits } = await this.loadHabits([...new Set(habitItems.map(i => i.file))]);
+                const byLine = new Map(habits.map(h => [`${h.file}:${h.line}`, h]));
+                const graphOptions = getHabitGraphOptions();
+                for (const item of habitItems) {
+                    const habit = byLine.get(`${item.file}:${item.line}`);
+                    if (habit) item.habitGraph = buildHabitGraph(habit, graphOptions);
                 }
             }
 
@@ -680,6 +741,126 @@ export class AgendaManager {
         }, [], 1);
     }
 
+    /**
+     * Custom views from `scimax.agenda.customViews` and from indexed org files
+     * with `:AGENDA_VIEW:` headings. Invalid definitions are returned as
+     * errors alongside the views that did load.
+     */
+    async getCustomViews(): Promise<{ views: CustomAgendaView[]; errors: string[] }> {
+        const settingsViews = vscode.workspace.getConfiguration('scimax.agenda').get<unknown[]>('customViews', []);
+        const orgSources: { filePath: string; content: string }[] = [];
+        const db = this.db || await getDatabase();
+        if (db) {
+            const files = new Set((await db.searchByProperty('AGENDA_VIEW')).map(h => h.file_path));
+            for (const filePath of files) {
+                try {
+                    orgSources.push({ filePath, content: await fs.promises.readFile(filePath, 'utf-8') });
+                } catch (error) {
+                    this.log(`getCustomViews: failed to read ${filePath}: ${error}`);
+                }
+            }
+        }
+        const result = collectCustomViews(settingsViews, orgSources);
+        for (const error of result.errors) this.log(`Custom agenda views: ${error}`);
+        return result;
+    }
+
+    /**
+     * Run a custom view over every indexed heading outside excluded files.
+     */
+    async runCustomView(view: CustomAgendaView, today?: Date): Promise<CustomAgendaResult> {
+        const db = this.db || await getDatabase();
+        const headings = db
+            ? (await db.getAllOrgHeadings()).filter(h => !this.isFileExcluded(h.file_path))
+            : [];
+        return runCustomAgendaView(view, headings, {
+            today,
+            todoStates: this.config.todoStates,
+            doneStates: this.config.doneStates,
+        });
+    }
+
+    /**
+     * Indexed headings matching an org tags/property match expression,
+     * outside excluded files. With `todoOnly`, only active TODO states.
+     * @throws Error if the expression does not parse
+     */
+    async searchTagsMatch(expression: string, todoOnly = false): Promise<HeadingRecord[]> {
+        const db = this.db || await getDatabase();
+        if (!db) return [];
+        const headings = await db.searchTagsMatch(expression, {
+            todoStates: todoOnly ? this.config.todoStates : undefined,
+            limit: 2000,
+        });
+        return headings.filter(h => !this.isFileExcluded(h.file_path));
+    }
+
+    /**
+     * Habits in the agenda files. Logbooks are not indexed, so files holding
+     * `:STYLE: habit` headings are found in the database and read from disk.
+     * Habits without a usable repeater come back as errors.
+     */
+    async getHabits(): Promise<{ habits: Habit[]; errors: string[] }> {
+        const db = this.db || await getDatabase();
+        if (!db) return { habits: [], errors: [] };
+        const files = new Set((await db.searchByProperty('STYLE', 'habit')).map(h => h.file_path));
+        return this.loadHabits([...files].filter(f => !this.isFileExcluded(f)));
+    }
+
+    private async loadHabits(files: string[]): Promise<{ habits: Habit[]; errors: string[] }> {
+        const habits: Habit[] = [];
+        const errors: string[] = [];
+        for (const filePath of files) {
+            try {
+                const content = await fs.promises.readFile(filePath, 'utf-8');
+                const result = parseHabits(content, filePath, {
+                    todoKeywords: [...this.config.todoStates, ...this.config.doneStates],
+                    doneKeywords: this.config.doneStates,
+                });
+                habits.push(...result.habits);
+                errors.push(...result.errors);
+            } catch (error) {
+                this.log(`loadHabits: failed to read ${filePath}: ${error}`);
+            }
+        }
+        for (const error of errors) this.log(`Habits: ${error}`);
+        return { habits, errors };
+    }
+
+    /**
+     * Org files the agenda draws from: every indexed org file not hidden by
+     * `scimax.agenda.exclude`.
+     */
+    async getAgendaFiles(): Promise<string[]> {
+        const db = this.db || await getDatabase();
+        if (!db) return [];
+        return (await db.getFiles())
+            .filter(file => file.file_type === 'org' && !this.isFileExcluded(file.path))
+            .map(file => file.path);
+    }
+
+    /**
+     * Export every agenda file as one iCalendar. Unreadable files are logged
+     * and skipped rather than failing the whole export.
+     */
+    async exportIcal(calendarName?: string): Promise<{ content: string; fileCount: number }> {
+        const sources: IcalSource[] = [];
+        for (const filePath of await this.getAgendaFiles()) {
+            try {
+                sources.push({ filePath, content: await fs.promises.readFile(filePath, 'utf-8') });
+            } catch (error) {
+                this.log(`exportIcal: failed to read ${filePath}: ${error}`);
+            }
+        }
+        const content = exportIcal(sources, {
+            calendarName,
+            includeDone: this.config.showDone,
+            todoKeywords: [...this.config.todoStates, ...this.config.doneStates],
+            doneKeywords: this.config.doneStates,
+        });
+        return { content, fileCount: sources.length };
+    }
+
     dispose(): void {
         if (this.refreshDebounceTimer) {
             clearTimeout(this.refreshDebounceTimer);
@@ -1057,6 +1238,7 @@ export function registerAgendaCommands(context: vscode.ExtensionContext): void {
         // Keep open buffers in step with the db, exactly as the tree view is.
         manager.onDidRefresh(() => docProvider.refreshAll())
     );
+    registerHabits(context, manager, docProvider);
 
     /** Resolve the agenda buffer the user is acting on, if any. */
     const activeBuffer = (): vscode.Uri | undefined => {
@@ -1066,17 +1248,61 @@ export function registerAgendaCommands(context: vscode.ExtensionContext): void {
 
     context.subscriptions.push(
         vscode.commands.registerCommand('scimax.agenda.openBuffer', async () => {
-            const spans: Array<vscode.QuickPickItem & { days: number; type: AgendaViewConfig['type'] }> = [
+            type BufferPick = vscode.QuickPickItem & {
+                days?: number;
+                type?: AgendaViewConfig['type'];
+                view?: CustomAgendaView;
+            };
+            const spans: BufferPick[] = [
                 { label: 'Week', description: '7 days', days: 7, type: 'week' },
                 { label: 'Day', description: 'Today', days: 1, type: 'day' },
                 { label: 'Fortnight', description: '14 days', days: 14, type: 'fortnight' },
                 { label: 'Month', description: '30 days', days: 30, type: 'month' },
             ];
+            const { views } = await manager.getCustomViews();
+            if (views.length > 0) {
+                spans.push({ label: 'Custom views', kind: vscode.QuickPickItemKind.Separator });
+                spans.push(...views.map(view => ({ label: view.title ?? view.name, description: view.description, view })));
+            }
             const picked = await vscode.window.showQuickPick(spans, {
                 placeHolder: 'Agenda span',
             });
             if (!picked) return;
-            await docProvider.open('Agenda', { type: picked.type, days: picked.days }, picked.days);
+            if (picked.view) {
+                await docProvider.openCustom(picked.view);
+                return;
+            }
+            await docProvider.open('Agenda', { type: picked.type, days: picked.days }, picked.days!);
+        }),
+
+        // Custom agenda views: pick one (or pass its name) and open it in a buffer
+        vscode.commands.registerCommand('scimax.agenda.customView', async (name?: string) => {
+            const { views, errors } = await manager.getCustomViews();
+            if (errors.length > 0) {
+                vscode.window.showWarningMessage(`Custom agenda views: ${errors[0]}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}`);
+            }
+
+            let view = typeof name === 'string' ? views.find(v => v.name === name) : undefined;
+            if (!view) {
+                if (views.length === 0) {
+                    vscode.window.showInformationMessage(
+                        'No custom agenda views. Define them in scimax.agenda.customViews or with :AGENDA_VIEW: headings.'
+                    );
+                    return;
+                }
+                const picked = await vscode.window.showQuickPick(
+                    views.map(v => ({
+                        label: v.title ?? v.name,
+                        description: v.title ? v.name : undefined,
+                        detail: v.description ?? v.blocks.map(b => b.title ?? b.type).join(' · '),
+                        view: v,
+                    })),
+                    { placeHolder: 'Custom agenda view', matchOnDescription: true }
+                );
+                if (!picked) return;
+                view = picked.view;
+            }
+            await docProvider.openCustom(view);
         }),
 
         vscode.commands.registerCommand('scimax.agenda.buffer.goto', async () => {
@@ -1523,6 +1749,15 @@ export function registerAgendaCommands(context: vscode.ExtensionContext): void {
             }
         }),
 
+        // Tags/property match search (org's `m` and `M` agenda commands)
+        vscode.commands.registerCommand('scimax.agenda.tagsMatch', () =>
+            searchByTagsMatch(manager, false)
+        ),
+
+        vscode.commands.registerCommand('scimax.agenda.tagsMatchTodo', () =>
+            searchByTagsMatch(manager, true)
+        ),
+
         // Agenda clock report - generates time report across all agenda files
         vscode.commands.registerCommand('scimax.agenda.clockReport', async () => {
             // Ask for report type
@@ -1617,6 +1852,75 @@ ${reportLines.join('\n')}
             }
         }),
 
+        // Export agenda files as an iCalendar (.ics) file
+        vscode.commands.registerCommand('scimax.agenda.exportIcal', async () => {
+            const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: folder ? vscode.Uri.joinPath(folder, 'agenda.ics') : undefined,
+                filters: { 'iCalendar': ['ics'] },
+                title: 'Export agenda as iCalendar',
+            });
+            if (!target) return;
+
+            try {
+                const { content, fileCount } = await manager.exportIcal(path.basename(target.fsPath, '.ics'));
+                await fs.promises.writeFile(target.fsPath, content, 'utf-8');
+                const count = (content.match(/^BEGIN:V(?:EVENT|TODO)\r?$/gm) || []).length;
+                vscode.window.showInformationMessage(
+                    `Exported ${count} calendar entries from ${fileCount} agenda files to ${path.basename(target.fsPath)}`
+                );
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to export iCalendar: ${error}`);
+            }
+        }),
+
+        // Import an iCalendar (.ics) file into a datetree
+        vscode.commands.registerCommand('scimax.agenda.importIcal', async () => {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'iCalendar': ['ics'] },
+                title: 'Select iCalendar file to import',
+            });
+            if (!picked || picked.length === 0) return;
+
+            // Import into the current org file, or ask for one.
+            let targetUri = vscode.window.activeTextEditor?.document.languageId === 'org'
+                ? vscode.window.activeTextEditor.document.uri
+                : undefined;
+            if (!targetUri) {
+                const chosen = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: { 'Org files': ['org'] },
+                    title: 'Select org file to import into',
+                });
+                if (!chosen || chosen.length === 0) return;
+                targetUri = chosen[0];
+            }
+
+            try {
+                const items = parseIcal(await fs.promises.readFile(picked[0].fsPath, 'utf-8'));
+                const document = await vscode.workspace.openTextDocument(targetUri);
+                const treeFormat = vscode.workspace.getConfiguration('scimax.capture')
+                    .get<DatetreeFormat>('datetreeFormat', 'day');
+                const result = importIcalToOrg(document.getText(), items, { treeFormat });
+
+                if (result.imported > 0) {
+                    // Edit the document rather than the file so unsaved changes survive.
+                    const edit = new vscode.WorkspaceEdit();
+                    const all = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+                    edit.replace(document.uri, all, result.content);
+                    await vscode.workspace.applyEdit(edit);
+                    await vscode.window.showTextDocument(document);
+                }
+                const skipped = result.skipped > 0 ? ` (${result.skipped} already present)` : '';
+                vscode.window.showInformationMessage(
+                    `Imported ${result.imported} calendar entries into ${path.basename(targetUri.fsPath)}${skipped}`
+                );
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to import iCalendar: ${error}`);
+            }
+        }),
+
         // Agenda menu
         vscode.commands.registerCommand('scimax.agenda.menu', async () => {
             const options = [
@@ -1629,16 +1933,32 @@ ${reportLines.join('\n')}
                 { label: '$(clock) Deadlines', description: 'Upcoming deadlines', command: 'scimax.agenda.deadlines' },
                 { label: '$(milestone) Scheduled', description: 'Scheduled items', command: 'scimax.agenda.scheduled' },
                 { label: '$(history) Clock Report', description: 'Time tracking report', command: 'scimax.agenda.clockReport' },
+                { label: '$(flame) Habits', description: 'Consistency graphs of STYLE habit tasks', command: 'scimax.habits.show' },
+                { label: '$(graph) Habit Report', description: 'Streaks and misses per habit', command: 'scimax.habits.report' },
                 { label: '$(tag) Filter by Tag', description: 'Show items with tag', command: 'scimax.agenda.filterByTag' },
+                { label: '$(filter) Match Tags/Properties', description: 'Headings matching e.g. +work-PRIORITY="C"', command: 'scimax.agenda.tagsMatch' },
+                { label: '$(filter) Match TODO Items', description: 'Active TODO items matching a tags/property query', command: 'scimax.agenda.tagsMatchTodo' },
+                { label: '$(export) Export iCalendar', description: 'Write agenda items to a .ics file', command: 'scimax.agenda.exportIcal' },
+                { label: '$(cloud-download) Import iCalendar', description: 'File .ics entries under a datetree', command: 'scimax.agenda.importIcal' },
                 { label: '$(refresh) Refresh', description: 'Re-scan agenda files', command: 'scimax.agenda.refresh' },
             ];
 
-            const selected = await vscode.window.showQuickPick(options, {
-                placeHolder: 'Org Agenda',
-            });
+            // Custom views are listed by name so each is one pick away.
+            const { views } = await manager.getCustomViews();
+            const customOptions = views.map(v => ({
+                label: `$(list-filter) ${v.title ?? v.name}`,
+                description: v.description ?? 'Custom view',
+                command: 'scimax.agenda.customView',
+                args: [v.name] as unknown[],
+            }));
+
+            const selected = await vscode.window.showQuickPick<vscode.QuickPickItem & { command: string; args?: unknown[] }>(
+                [...options, ...customOptions],
+                { placeHolder: 'Org Agenda' }
+            );
 
             if (selected) {
-                vscode.commands.executeCommand(selected.command);
+                vscode.commands.executeCommand(selected.command, ...(selected.args ?? []));
             }
         }),
 
@@ -1835,16 +2155,75 @@ function formatItemDescription(item: AgendaItem): string {
 }
 
 async function jumpToAgendaItem(item: AgendaItem): Promise<void> {
+    await jumpToLine(item.file, item.line);
+}
+
+async function jumpToLine(file: string, line: number): Promise<void> {
     try {
-        const doc = await vscode.workspace.openTextDocument(item.file);
+        const doc = await vscode.workspace.openTextDocument(file);
         const editor = await vscode.window.showTextDocument(doc);
-        const position = new vscode.Position(item.line - 1, 0);
+        const position = new vscode.Position(line - 1, 0);
         editor.selection = new vscode.Selection(position, position);
         editor.revealRange(
             new vscode.Range(position, position),
             vscode.TextEditorRevealType.InCenter
         );
     } catch (error) {
-        vscode.window.showErrorMessage(`Could not open file: ${item.file}`);
+        vscode.window.showErrorMessage(`Could not open file: ${file}`);
+    }
+}
+
+/** Last tags/property match, offered again next time like org's history */
+let lastTagsMatch = '';
+
+/**
+ * Prompt for a tags/property match expression and pick from the matching
+ * headings. The expression is checked as it is typed.
+ */
+async function searchByTagsMatch(manager: AgendaManager, todoOnly: boolean): Promise<void> {
+    const expression = await vscode.window.showInputBox({
+        prompt: todoOnly ? 'Match TODO items (tags/properties)' : 'Match headings (tags/properties)',
+        placeHolder: '+work-personal+PRIORITY="A"+EFFORT<2:00',
+        value: lastTagsMatch,
+        validateInput: value => {
+            try {
+                parseTagsMatch(value);
+                return undefined;
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+            }
+        },
+    });
+    if (expression === undefined) return;
+    lastTagsMatch = expression;
+
+    let headings: HeadingRecord[];
+    try {
+        headings = await manager.searchTagsMatch(expression, todoOnly);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Tags match failed: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    if (headings.length === 0) {
+        vscode.window.showInformationMessage(`No ${todoOnly ? 'TODO items' : 'headings'} match ${expression}`);
+        return;
+    }
+
+    const items = headings.map(h => {
+        const tags = parseHeadingTags(h.tags);
+        return {
+            label: `${h.todo_state ? `[${h.todo_state}] ` : ''}${h.priority ? `[#${h.priority}] ` : ''}${h.title}`,
+            description: tags.length > 0 ? `:${tags.join(':')}:` : undefined,
+            detail: `${path.basename(h.file_path)}:${h.line_number}`,
+            heading: h,
+        };
+    });
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `${items.length} ${todoOnly ? 'TODO items' : 'headings'} matching ${expression}`,
+        matchOnDescription: true,
+        matchOnDetail: true,
+    });
+    if (selected) {
+        await jumpToLine(selected.heading.file_path, selected.heading.line_number);
     }
 }
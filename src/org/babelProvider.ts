@@ -22,6 +22,8 @@ import * as fs from 'fs';
 import { OrgParser } from '../parser/orgParser';
 import { normalizeLineEndings } from '../utils/escapeUtils';
 import { getKernelManager } from '../jupyter/kernelManager';
+import { startRun, endRun, registerBabelRunCommands, isRunActive, type BabelRun } from './babelRuns';
+import { parseRunPlaceholder } from '../parser/orgBabelStream';
 
 // Output channel for Babel execution
 let outputChannel: vscode.OutputChannel | undefined;
@@ -1201,13 +1203,16 @@ async function executeBlock(
         timeout: 60000, // 60 second default timeout
         variables: resolvedVars,
         results: headers.results ? parseResultsFormat(headers.results) : undefined,
+        headers,
     };
 
-    // Handle :file header for Python matplotlib
+    // Handle :file header: Python gets matplotlib code appended, while
+    // executors that write files themselves (gnuplot, dot, ...) only need the path
     let codeToExecute = block.code;
     let outputFilePath: string | undefined;
+    const isPython = ['python', 'python3', 'py'].includes(language.toLowerCase());
 
-    if (headers.file && ['python', 'python3', 'py'].includes(language.toLowerCase())) {
+    if (headers.file && (isPython || executorRegistry.getExecutor(language)?.writesFile)) {
         // Resolve file path relative to working directory (or document directory as fallback)
         const baseDir = workingDir || documentDir;
         if (path.isAbsolute(headers.file)) {
@@ -1223,15 +1228,17 @@ async function executeBlock(
             fs.mkdirSync(outputDir, { recursive: true });
         }
 
-        // Add matplotlib savefig code at the end
-        // This handles the common case of plotting with matplotlib
-        codeToExecute = `${block.code}
+        if (isPython) {
+            // Add matplotlib savefig code at the end
+            // This handles the common case of plotting with matplotlib
+            codeToExecute = `${block.code}
 # Auto-added by scimax for :file header
 import matplotlib.pyplot as plt
 if plt.get_fignums():
     plt.savefig(${JSON.stringify(outputFilePath)}, bbox_inches='tight')
     plt.close()
 `;
+        }
         channel.appendLine(`[DEBUG] :file header: "${headers.file}" -> "${outputFilePath}"`);
     }
 
@@ -1291,6 +1298,27 @@ if plt.get_fignums():
 
     showStatus(`Executing ${language}...`);
 
+    // Check if results should be silent
+    const resultsFormat = headers.results
+        ? parseResultsFormat(headers.results)
+        : {};
+
+    // Pass :wrap header to resultsFormat
+    if (headers.wrap) {
+        resultsFormat.wrap = headers.wrap;
+    }
+
+    // Stream output under a placeholder in #+RESULTS while the block runs
+    let run: BabelRun | undefined;
+    const streamResults = vscode.workspace.getConfiguration('scimax.org').get<boolean>('streamBabelResults', true);
+    if (streamResults && language.toLowerCase() !== 'scimax' && resultsFormat.handling !== 'silent') {
+        run = startRun(editor.document.uri, language, block.name);
+        const header = formatResult({ success: true, stdout: '' }, {}, block.name);
+        await insertResults(editor, block, `${header}\n${run.placeholder}`);
+        context.onOutput = run.onOutput;
+        context.signal = run.signal;
+    }
+
     try {
         let result: ExecutionResult;
 
@@ -1302,6 +1330,10 @@ if plt.get_fignums():
             result = await executeSourceBlock(srcBlock, context);
         }
 
+        if (result.cancelled) {
+            channel.appendLine('[INFO] Execution cancelled');
+        }
+
         // Log results
         if (result.success) {
             channel.appendLine(`[SUCCESS] Execution completed in ${result.executionTime}ms`);
@@ -1321,21 +1353,16 @@ if plt.get_fignums():
             }
         }
 
-        // Check if results should be silent
-        const resultsFormat = headers.results
-            ? parseResultsFormat(headers.results)
-            : {};
-
-        // Pass :wrap header to resultsFormat
-        if (headers.wrap) {
-            resultsFormat.wrap = headers.wrap;
-        }
-
         if (resultsFormat.handling !== 'silent') {
             let resultText: string;
 
-            // If :file header was used and file was created, return file link
-            if (outputFilePath && result.success) {
+            if (run && result.cancelled) {
+                // Keep what the block printed before it was stopped
+                resultText = run.cancelledResults(
+                    formatResult({ success: true, stdout: '' }, {}, block.name)
+                );
+            } else if (outputFilePath && result.success) {
+                // If :file header was used and file was created, return file link
                 const fs = await import('fs');
                 if (fs.existsSync(outputFilePath)) {
                     // Use relative path from document directory for the link
@@ -1365,7 +1392,13 @@ if plt.get_fignums():
                 resultText = formatResult(result, resultsFormat, block.name, cacheEnabled ? codeHash : undefined);
             }
 
-            await insertResults(editor, block, resultText);
+            if (run) {
+                if (!await run.finish(resultText)) {
+                    channel.appendLine(`[WARN] Results placeholder for run ${run.id} was removed; results not inserted`);
+                }
+            } else {
+                await insertResults(editor, block, resultText);
+            }
         }
 
         hideStatus();
@@ -1374,12 +1407,17 @@ if plt.get_fignums():
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         channel.appendLine(`[ERROR] ${errorMessage}`);
+        await run?.finish(formatResult({ success: false, error: error instanceof Error ? error : new Error(errorMessage) }, {}, block.name));
         hideStatus();
         vscode.window.showErrorMessage(`Execution failed: ${errorMessage}`);
         return {
             success: false,
             error: error instanceof Error ? error : new Error(errorMessage),
         };
+    } finally {
+        if (run) {
+            endRun(run);
+        }
     }
 }
 
@@ -2187,6 +2225,9 @@ export function registerBabelCommands(context: vscode.ExtensionContext): void {
         )
     );
 
+    // Cancel a running block
+    registerBabelRunCommands(context);
+
     // Register status bar item disposal
     context.subscriptions.push({
         dispose: () => {
@@ -2418,6 +2459,21 @@ export class BabelCodeLensProvider implements vscode.CodeLensProvider {
                 })
             );
 
+            // Cancel button while the block is running with streamed results
+            const runId = block.resultsLine !== undefined && block.resultsLine + 1 < document.lineCount
+                ? parseRunPlaceholder(document.lineAt(block.resultsLine + 1).text)
+                : undefined;
+            if (runId && isRunActive(runId)) {
+                codeLenses.push(
+                    new vscode.CodeLens(range, {
+                        title: '⏹ Cancel run',
+                        command: 'scimax.org.cancelBlockRun',
+                        arguments: [runId],
+                        tooltip: 'Stop this block without touching other runs',
+                    })
+                );
+            }
+
             // Clear results button if results exist
             if (block.resultsLine !== undefined) {
                 codeLenses.push(
@@ -0,0 +1,241 @@
+/**
+ * Running source blocks: streams output into #+RESULTS as it arrives and
+ * lets each run be cancelled on its own.
+ *
+ * A run is found in the document by its placeholder line (see
+ * parser/orgBabelStream.ts), so edits elsewhere in the file while the block
+ * runs are fine.
+ */
+
+import * as vscode from 'vscode';
+import type { ExecutionOutputChunk } from '../parser/orgBabel';
+import { newRunId, runPlaceholder, StreamingOutput } from '../parser/orgBabelStream';
+
+/** How often streamed output is written to the document */
+const FLUSH_INTERVAL_MS = 250;
+
+/**
+ * A block that is running with streamed results
+ */
+export class BabelRun {
+    readonly id = newRunId();
+    readonly startedAt = Date.now();
+    private readonly controller = new AbortController();
+    private readonly output = new StreamingOutput();
+    private timer: NodeJS.Timeout | undefined;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(
+        readonly uri: vscode.Uri,
+        readonly language: string,
+        readonly name?: string
+    ) {}
+
+    /**
+     * Aborted when the run is cancelled
+     */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /**
+     * The placeholder line to put under #+RESULTS
+     */
+    get placeholder(): string {
+        return runPlaceholder(this.id);
+    }
+
+    /**
+     * Cancel the run: the executor kills its process or interrupts the kernel
+     */
+    cancel(): void {
+        this.controller.abort();
+    }
+
+    /**
+     * Receive output from the executor
+     */
+    readonly onOutput = (chunk: ExecutionOutputChunk): void => {
+        this.output.push(chunk);
+        if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.flush();
+            }, FLUSH_INTERVAL_MS);
+        }
+    };
+
+    /**
+     * Results for a cancelled run: the output it produced before stopping
+     */
+    cancelledResults(header: string): string {
+        return [header, ...this.output.render(), ': [cancelled]'].join('\n');
+    }
+
+    /**
+     * Replace the placeholder and streamed output with the final results.
+     * Returns false if the placeholder is gone from the document.
+     */
+    async finish(resultText: string): Promise<boolean> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        await this.writing;
+
+        const document = await vscode.workspace.openTextDocument(this.uri);
+        const line = this.findPlaceholder(document);
+        if (line === undefined) {
+            return false;
+        }
+
+        // The #+RESULTS header sits right above the placeholder
+        const headerLine = line > 0 && /^\s*#\+RESULTS/i.test(document.lineAt(line - 1).text) ? line - 1 : line;
+        const lastLine = Math.min(line + this.output.writtenLines, document.lineCount - 1);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            this.uri,
+            new vscode.Range(headerLine, 0, lastLine, document.lineAt(lastLine).text.length),
+            resultText
+        );
+        return vscode.workspace.applyEdit(edit);
+    }
+
+    /**
+     * Write output received since the last flush below the placeholder
+     */
+    private flush(): void {
+        this.writing = this.writing.then(async () => {
+            const document = await vscode.workspace.openTextDocument(this.uri);
+            const line = this.findPlaceholder(document);
+            if (line === undefined) {
+                return;
+            }
+
+            const written = this.output.writtenLines;
+            const change = this.output.takeEdit();
+            if (!change) {
+                return;
+            }
+
+            // Replace from the end of the last kept line, so lines can
+            // shrink as well as grow (a \r rewriting the current line)
+            const from = line + change.keep;
+            const to = line + written;
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(
+                this.uri,
+                new vscode.Range(from, document.lineAt(from).text.length, to, document.lineAt(to).text.length),
+                change.lines.map(l => '\n' + l).join('')
+            );
+            await vscode.workspace.applyEdit(edit);
+        }).catch(() => { /* the document was closed */ });
+    }
+
+    private findPlaceholder(document: vscode.TextDocument): number | undefined {
+        for (let i = 0; i < document.lineCount; i++) {
+            if (document.lineAt(i).text.trim() === this.placeholder) {
+                return i;
+            }
+        }
+        return undefined;
+    }
+}
+
+const runs = new Map<string, BabelRun>();
+let runsStatusItem: vscode.StatusBarItem | undefined;
+
+/**
+ * Update the status bar item counting running blocks
+ */
+function updateRunsStatus(): void {
+    if (!runsStatusItem) {
+        return;
+    }
+    if (runs.size === 0) {
+        runsStatusItem.hide();
+        return;
+    }
+    runsStatusItem.text = `$(debug-stop) ${runs.size} block${runs.size === 1 ? '' : 's'} running`;
+    runsStatusItem.tooltip = 'Cancel a running source block';
+    runsStatusItem.show();
+}
+
+/**
+ * Start tracking a run of a block in `uri`
+ */
+export function startRun(uri: vscode.Uri, language: string, name?: string): BabelRun {
+    const run = new BabelRun(uri, language, name);
+    runs.set(run.id, run);
+    updateRunsStatus();
+    return run;
+}
+
+/**
+ * Stop tracking a run once it has finished
+ */
+export function endRun(run: BabelRun): void {
+    runs.delete(run.id);
+    updateRunsStatus();
+}
+
+/**
+ * Check whether a run is still going
+ */
+export function isRunActive(id: string): boolean {
+    return runs.has(id);
+}
+
+/**
+ * Command: cancel a running block. With no ID (status bar, palette) pick
+ * one of the running blocks.
+ */
+async function cancelBlockRun(id?: string): Promise<void> {
+    if (!id) {
+        if (runs.size === 0) {
+            vscode.window.showInformationMessage('No source blocks are running');
+            return;
+        }
+        const items = Array.from(runs.values()).map(run => ({
+            label: run.name ? `${run.language}: ${run.name}` : run.language,
+            description: `${vscode.workspace.asRelativePath(run.uri)} · ${Math.round((Date.now() - run.startedAt) / 1000)}s`,
+            id: run.id,
+        }));
+        const picked = items.length === 1
+            ? items[0]
+            : await vscode.window.showQuickPick(items, { placeHolder: 'Cancel which run?' });
+        if (!picked) {
+            return;
+        }
+        id = picked.id;
+    }
+
+    const run = runs.get(id);
+    if (!run) {
+        vscode.window.showInformationMessage('That block has already finished');
+        return;
+    }
+    run.cancel();
+}
+
+/**
+ * Register the cancel command and the running-blocks status bar item
+ */
+export function registerBabelRunCommands(context: vscode.ExtensionContext): void {
+    runsStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    runsStatusItem.command = 'scimax.org.cancelBlockRun';
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('scimax.org.cancelBlockRun', cancelBlockRun),
+        runsStatusItem,
+        {
+            dispose: () => {
+                for (const run of runs.values()) {
+                    run.cancel();
+                }
+                runs.clear();
+            },
+        }
+    );
+}
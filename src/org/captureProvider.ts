@@ -16,7 +16,7 @@ import {
     parseTemplate,
     createCaptureContext,
     capture,
-    generateDatetreePath,
+    locateDatetreeEntry,
     DatetreeFormat,
 } from '../parser/orgCapture';
 import { parseOrg } from '../parser/orgParserUnified';
@@ -250,82 +250,7 @@ export function resolveDatetreeTarget(
     treeFormat: DatetreeFormat = 'day'
 ): CaptureLocation {
     const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
-    const lines = content.split('\n');
-
-    // Ordered heading path for this granularity (day = 3 levels, week/month = 2).
-    const pathHeadings = generateDatetreePath(date, treeFormat);
-    const keys = pathHeadings.map(h => h.split(/\s+/)[0]);
-    const depth = pathHeadings.length;
-    const entryLevel = depth + 1; // captured entry sits one level below the deepest date heading
-
-    // foundLine[i] = line of the level-(i+1) heading matching keys[i], nested
-    // under already-found ancestors; -1 until located.
-    const foundLine = new Array<number>(depth).fill(-1);
-
-    for (let i = 0; i < lines.length; i++) {
-        const m = lines[i].match(/^(\*+)\s+(.*)$/);
-        if (!m) continue;
-        const level = m[1].length - 1; // 0-indexed datetree level
-        if (level < 0 || level >= depth) continue;
-        // Require correct nesting: every ancestor level must already be found.
-        let ancestorsFound = true;
-        for (let a = 0; a < level; a++) {
-            if (foundLine[a] < 0) { ancestorsFound = false; break; }
-        }
-        if (!ancestorsFound) continue;
-        if (m[2].split(/\s+/)[0] === keys[level]) {
-            foundLine[level] = i;
-            for (let d = level + 1; d < depth; d++) foundLine[d] = -1; // reset descendants
-        }
-    }
-
-    // Deepest contiguous prefix of the path that already exists.
-    let deepest = -1;
-    for (let i = 0; i < depth; i++) {
-        if (foundLine[i] >= 0) deepest = i;
-        else break;
-    }
-
-    // Whole path present: append inside the deepest date section, no scaffold.
-    if (deepest === depth - 1) {
-        return {
-            file: filePath,
-            line: findSectionEnd(lines, foundLine[depth - 1], depth),
-            level: entryLevel,
-            prefix: '',
-        };
-    }
-
-    // Otherwise scaffold the missing levels (deepest+1 .. depth-1) at their
-    // correct star depths, inserted before the captured entry.
-    const scaffold = pathHeadings
-        .slice(deepest + 1)
-        .map((heading, idx) => '*'.repeat(deepest + 2 + idx) + ' ' + heading)
-        .join('\n') + '\n';
-
-    const insertPos = deepest < 0
-        ? lines.length // nothing matched: append at end of file
-        : findSectionEnd(lines, foundLine[deepest], deepest + 1);
-
-    return {
-        file: filePath,
-        line: insertPos,
-        level: entryLevel,
-        prefix: scaffold,
-    };
-}
-
-/**
- * Find the end of a section (where next same/higher level heading starts)
- */
-function findSectionEnd(lines: string[], startLine: number, level: number): number {
-    for (let i = startLine + 1; i < lines.length; i++) {
-        const match = lines[i].match(/^(\*+)\s/);
-        if (match && match[1].length <= level) {
-            return i;
-        }
-    }
-    return lines.length;
+    return { file: filePath, ...locateDatetreeEntry(content.split('\n'), date, treeFormat) };
 }
 
 // =============================================================================
@@ -0,0 +1,71 @@
+/**
+ * Interactive Jupyter charts
+ *
+ * Plotly and Vega-Lite outputs of Jupyter blocks are saved as JSON specs
+ * (see jupyter/richOutput) and linked from the results. The image overlays
+ * mark those links; opening one draws the chart in a webview beside the
+ * editor with the chart library's own zooming, panning and tooltips. The
+ * libraries load from jsDelivr, so this needs a network connection.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { chartHtml, chartKindOfPath } from '../jupyter/richOutput';
+
+let panel: vscode.WebviewPanel | undefined;
+
+/**
+ * Show the chart spec in `filePath` in the chart webview
+ */
+export function showChart(filePath: string): void {
+    const kind = chartKindOfPath(filePath);
+    if (!kind) {
+        vscode.window.showWarningMessage(`Not a chart spec: ${path.basename(filePath)}`);
+        return;
+    }
+    let spec: unknown;
+    try {
+        spec = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not read chart: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+    }
+
+    if (panel) {
+        panel.reveal(vscode.ViewColumn.Beside, true);
+    } else {
+        panel = vscode.window.createWebviewPanel(
+            'scimaxJupyterChart',
+            'Chart',
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            { enableScripts: true }
+        );
+        panel.onDidDispose(() => {
+            panel = undefined;
+        });
+    }
+    panel.title = `Chart: ${path.basename(filePath)}`;
+    // Vega compiles expressions with Function, hence 'unsafe-eval'
+    panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' https://cdn.jsdelivr.net; style-src 'unsafe-inline'; img-src data: blob:; font-src data:;">
+<style>
+  body { font-family: var(--vscode-font-family, sans-serif); color: var(--vscode-editor-foreground); background: #fff; padding: 12px; }
+  .org-jupyter-chart { width: 100%; min-height: 420px; }
+  .error { color: #b00020; }
+</style>
+</head>
+<body>
+<p id="error" class="error" hidden>The chart library did not load. Charts need a connection to cdn.jsdelivr.net.</p>
+${chartHtml(kind, spec, 'chart')}
+<script>
+  if (typeof Plotly === 'undefined' && typeof vegaEmbed === 'undefined') {
+    document.getElementById('error').hidden = false;
+  }
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,243 @@
+/**
+ * Interactive column view
+ *
+ * `scimax.org.columnView` (C-c C-x C-c) shows the headings of the subtree at
+ * the cursor, or of the whole file, as a grid of the columns in `#+COLUMNS:`
+ * (or an inherited `:COLUMNS:` property). TODO, priority, tags, title and any
+ * property can be edited in place; each edit is a small line replacement
+ * computed by parser/orgColumns, so the rest of the file is left alone.
+ * Parents show the summaries of their children for columns with a summary
+ * operator; those cells are read-only. The view follows changes to the
+ * document while it is open.
+ */
+
+import * as vscode from 'vscode';
+import {
+    buildColumnView,
+    columnEdit,
+    type ColumnLineEdit,
+    type ColumnView,
+    type ColumnViewOptions,
+} from '../parser/orgColumns';
+import { getAllTodoStatesForDocument, getTodoWorkflowForDocument } from './todoStates';
+import { escapeHtml } from '../utils/escapeUtils';
+
+const PRIORITIES = ['', 'A', 'B', 'C'];
+
+function columnViewOptions(document: vscode.TextDocument): ColumnViewOptions {
+    return {
+        todoKeywords: [...getAllTodoStatesForDocument(document)],
+        doneKeywords: getTodoWorkflowForDocument(document).doneStates,
+    };
+}
+
+/**
+ * Range and text that replace lines [start, end) of a document. At the end
+ * of a document without a final newline the edit takes over the newline
+ * before it instead.
+ */
+function lineReplacement(document: vscode.TextDocument, edit: ColumnLineEdit): [vscode.Range, string] {
+    if (edit.end < document.lineCount) {
+        return [new vscode.Range(edit.start, 0, edit.end, 0), edit.lines.map(l => l + '\n').join('')];
+    }
+    const last = document.lineAt(document.lineCount - 1).range.end;
+    if (edit.start === 0) {
+        return [new vscode.Range(new vscode.Position(0, 0), last), edit.lines.join('\n')];
+    }
+    const from = document.lineAt(edit.start - 1).range.end;
+    return [new vscode.Range(from, last), edit.lines.map(l => '\n' + l).join('')];
+}
+
+class ColumnViewPanel {
+    private panel: vscode.WebviewPanel | undefined;
+    private document: vscode.TextDocument | undefined;
+    /** 0-based line in the subtree shown, or undefined for the whole file */
+    private line: number | undefined;
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.panel && event.document === this.document) this.scheduleRefresh();
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document === this.document) this.panel?.dispose();
+            })
+        );
+    }
+
+    show(document: vscode.TextDocument, line: number | undefined): void {
+        this.document = document;
+        this.line = line;
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'scimaxColumnView',
+                'Column View',
+                vscode.ViewColumn.Beside,
+                { enableScripts: true }
+            );
+            this.panel.webview.onDidReceiveMessage(m => this.onMessage(m), undefined, this.context.subscriptions);
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.document = undefined;
+                if (this.refreshTimer) clearTimeout(this.refreshTimer);
+            });
+        }
+        this.update();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.update(), 200);
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        const document = this.document;
+        if (!document) return;
+
+        if (message?.type === 'open' && typeof message.line === 'number') {
+            const editor = await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+            const pos = new vscode.Position(message.line, 0);
+            editor.selection = new vscode.Selection(pos, pos);
+            editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenter);
+        } else if (message?.type === 'scope') {
+            this.line = undefined;
+            this.update();
+        } else if (message?.type === 'edit' && typeof message.line === 'number' && message.property) {
+            await this.applyEdit(document, message.line, String(message.property), String(message.value ?? ''));
+        }
+    }
+
+    private async applyEdit(document: vscode.TextDocument, line: number, property: string, value: string): Promise<void> {
+        let edit: ColumnLineEdit | undefined;
+        try {
+            edit = columnEdit(document.getText(), line, property, value, columnViewOptions(document));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Column view: ${error instanceof Error ? error.message : String(error)}`);
+            this.update();
+            return;
+        }
+        if (!edit) return;
+
+        const [range, text] = lineReplacement(document, edit);
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        workspaceEdit.replace(document.uri, range, text);
+        if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+            vscode.window.showErrorMessage('Column view: could not edit the document');
+        }
+        // A drawer added or removed above the subtree shifts its lines
+        if (this.line !== undefined && this.line > edit.start) {
+            this.line += edit.lines.length - (edit.end - edit.start);
+        }
+    }
+
+    private update(): void {
+        if (!this.panel || !this.document) return;
+        const options = columnViewOptions(this.document);
+        const view = buildColumnView(this.document.getText(), { ...options, line: this.line });
+        const todoStates = ['', ...getTodoWorkflowForDocument(this.document).allStates];
+        this.panel.title = `Columns: ${vscode.workspace.asRelativePath(this.document.uri)}`;
+        this.panel.webview.html = this.getHtml(view, todoStates);
+    }
+
+    private renderCell(line: number, property: string, value: string, todoStates: string[]): string {
+        const attrs = `data-line="${line}" data-property="${escapeHtml(property)}"`;
+        const choices = property === 'TODO' ? todoStates : property === 'PRIORITY' ? PRIORITIES : undefined;
+        if (choices) {
+            const all = choices.includes(value) ? choices : [...choices, value];
+            const opts = all.map(c =>
+                `<option value="${escapeHtml(c)}"${c === value ? ' selected' : ''}>${escapeHtml(c)}</option>`
+            ).join('');
+            return `<select ${attrs}>${opts}</select>`;
+        }
+        return `<input type="text" ${attrs} value="${escapeHtml(value)}">`;
+    }
+
+    private getHtml(view: ColumnView, todoStates: string[]): string {
+        const header = view.columns.map(column => `<th>${escapeHtml(column.title)}</th>`).join('');
+        const rows = view.rows.map(row => {
+            const cells = row.cells.map((cell, i) => {
+                const column = view.columns[i];
+                const style = column.width ? ` style="width: ${column.width}ch"` : '';
+                const content = cell.computed
+                    ? `<span class="computed">${escapeHtml(cell.value)}</span>`
+                    : this.renderCell(row.line, column.property, cell.value, todoStates);
+                const stars = i === 0
+                    ? `<a href="#" class="stars" data-open="${row.line}" title="Go to heading">${'*'.repeat(row.level)}</a>`
+                    : '';
+                return `<td${style}>${stars}${content}</td>`;
+            }).join('');
+            return `<tr class="level-${row.level}">${cells}</tr>`;
+        }).join('\n');
+        const scope = this.line === undefined
+            ? ''
+            : '<p><button id="whole-file">Whole file</button></p>';
+        const body = view.rows.length > 0
+            ? `<table>\n<tr>${header}</tr>\n${rows}\n</table>`
+            : '<p class="empty">No headings to show.</p>';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline';">
+<style>
+  body { font-family: var(--vscode-font-family, sans-serif); color: var(--vscode-editor-foreground); padding: 12px; }
+  table { border-collapse: collapse; }
+  th, td { text-align: left; padding: 2px 6px; border-bottom: 1px solid var(--vscode-panel-border, #444); white-space: nowrap; }
+  td:first-child { display: flex; align-items: center; gap: 4px; }
+  input, select { font: inherit; color: inherit; background: transparent; border: 1px solid transparent; width: 100%; box-sizing: border-box; }
+  input:focus, select:focus { border-color: var(--vscode-focusBorder); background: var(--vscode-input-background); }
+  select option { background: var(--vscode-dropdown-background); }
+  a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+  .stars { font-family: var(--vscode-editor-font-family, monospace); }
+  .computed { font-style: italic; color: var(--vscode-descriptionForeground); }
+  .level-1 { font-weight: bold; }
+  .empty { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+${scope}
+${body}
+<script>
+  const vscode = acquireVsCodeApi();
+  const send = el => vscode.postMessage({
+    type: 'edit', line: Number(el.dataset.line), property: el.dataset.property, value: el.value
+  });
+  document.querySelectorAll('select[data-property]').forEach(el => el.addEventListener('change', () => send(el)));
+  document.querySelectorAll('input[data-property]').forEach(el => {
+    el.addEventListener('change', () => send(el));
+    el.addEventListener('keydown', e => {
+      if (e.key === 'Enter') el.blur();
+      if (e.key === 'Escape') { el.value = el.defaultValue; el.blur(); }
+    });
+  });
+  document.querySelectorAll('a[data-open]').forEach(a => a.addEventListener('click', e => {
+    e.preventDefault();
+    vscode.postMessage({ type: 'open', line: Number(a.dataset.open) });
+  }));
+  document.getElementById('whole-file')?.addEventListener('click', () => vscode.postMessage({ type: 'scope' }));
+</script>
+</body>
+</html>`;
+    }
+}
+
+/**
+ * Register the column view command
+ */
+export function registerColumnViewCommands(context: vscode.ExtensionContext): void {
+    const panel = new ColumnViewPanel(context);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('scimax.org.columnView', (scope?: 'file') => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'org') {
+                vscode.window.showWarningMessage('Column view works in org files');
+                return;
+            }
+            panel.show(editor.document, scope === 'file' ? undefined : editor.selection.active.line);
+        })
+    );
+}
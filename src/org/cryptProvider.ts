@@ -0,0 +1,451 @@
+/**
+ * Org-crypt in the editor
+ *
+ * `scimax.org.encryptEntry` and `scimax.org.decryptEntry` work on the
+ * `:crypt:` entry at the cursor. `scimax.org.encryptAndSave`, bound to the
+ * save key while an entry is decrypted, encrypts every decrypted entry and
+ * then saves, so plaintext only ever lives in the buffer. The text surgery
+ * and the gpg/age/openssl calls are in parser/orgCrypt.
+ *
+ * A plain save never prompts: VS Code gives save participants about a second
+ * and a half, then writes the buffer as it is. The save hook encrypts only
+ * with a remembered passphrase or a key, and an entry it cannot encrypt in
+ * time is written as its last ciphertext (or left empty) and put back in the
+ * buffer after the save.
+ *
+ * Symmetric passphrases are remembered per document for the session, so
+ * saving after a decrypt does not ask again. They are never written anywhere.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    addHeadingTag,
+    cipherNeedsPassphrase,
+    decryptText,
+    encryptText,
+    entryBody,
+    findCryptEntries,
+    findCryptEntryAt,
+    needsPassphrase,
+    type CryptEntry,
+    type CryptMethod,
+    type CryptOptions,
+} from '../parser/orgCrypt';
+import { findSubtree } from '../parser/orgRefile';
+import { expandTilde } from '../utils/pathResolver';
+
+const passphrases = new Map<string, string>();
+
+/** Last ciphertext of each entry, by document and then headline */
+const ciphers = new Map<string, Map<string, string>>();
+
+/** Plaintext held back from a save, to put back once it is written */
+const withheld = new Map<string, WithheldBody[]>();
+
+/** Time the save hook gives the encryption tools, within VS Code's budget */
+const SAVE_ENCRYPT_BUDGET = 750;
+
+interface WithheldBody {
+    /** Range of the stand-in text in the document as saved */
+    range: vscode.Range;
+    /** Text written in place of the body */
+    standIn: string;
+    /** The decrypted body */
+    plain: string;
+}
+
+function loadCryptOptions(): CryptOptions {
+    const config = vscode.workspace.getConfiguration('scimax.org.crypt');
+    const identity = config.get<string>('ageIdentity', '');
+    return {
+        method: config.get<CryptMethod>('method', 'gpg'),
+        key: config.get<string>('key', '') || undefined,
+        identity: identity ? expandTilde(identity) : undefined,
+    };
+}
+
+/**
+ * Passphrase for a document's symmetric entries, asking once per session.
+ * When encrypting for the first time the passphrase is asked twice.
+ */
+async function getPassphrase(document: vscode.TextDocument, confirm: boolean): Promise<string | undefined> {
+    const key = document.uri.toString();
+    const cached = passphrases.get(key);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    const name = path.basename(document.uri.fsPath);
+    const passphrase = await vscode.window.showInputBox({
+        prompt: `Passphrase for encrypted entries in ${name}`,
+        password: true,
+        ignoreFocusOut: true,
+    });
+    if (!passphrase) {
+        return undefined;
+    }
+    if (confirm) {
+        const again = await vscode.window.showInputBox({
+            prompt: 'Repeat the passphrase',
+            password: true,
+            ignoreFocusOut: true,
+        });
+        if (again !== passphrase) {
+            vscode.window.showErrorMessage('Passphrases do not match');
+            return undefined;
+        }
+    }
+    passphrases.set(key, passphrase);
+    return passphrase;
+}
+
+function bodyRange(lines: string[], entry: CryptEntry): vscode.Range {
+    return new vscode.Range(entry.bodyStart, 0, entry.bodyEnd - 1, lines[entry.bodyEnd - 1].length);
+}
+
+function entryTitle(lines: string[], entry: CryptEntry): string {
+    return lines[entry.heading].replace(/^\*+\s+/, '');
+}
+
+function rememberCipher(document: vscode.TextDocument, headline: string, cipher: string): void {
+    const key = document.uri.toString();
+    let known = ciphers.get(key);
+    if (!known) {
+        known = new Map();
+        ciphers.set(key, known);
+    }
+    known.set(headline, cipher);
+}
+
+/**
+ * Decrypted entries that would be encrypted on save
+ */
+function decryptedEntries(lines: string[]): CryptEntry[] {
+    return findCryptEntries(lines).filter(entry => !entry.encrypted && entry.bodyEnd > entry.bodyStart);
+}
+
+/**
+ * Encrypt one entry's body, returning the armored text
+ */
+async function encryptEntryBody(
+    document: vscode.TextDocument,
+    lines: string[],
+    entry: CryptEntry,
+    options: CryptOptions
+): Promise<string | undefined> {
+    if (needsPassphrase(options)) {
+        const passphrase = await getPassphrase(document, true);
+        if (passphrase === undefined) {
+            return undefined;
+        }
+        options = { ...options, passphrase };
+    }
+    return encryptText(entryBody(lines, entry), options);
+}
+
+/**
+ * Command: encrypt the entry at the cursor. An entry without the `:crypt:`
+ * tag gets it, so it is encrypted again on every save.
+ */
+async function encryptEntry(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'org') {
+        return;
+    }
+
+    const document = editor.document;
+    const cursorLine = editor.selection.active.line;
+    let lines = document.getText().split(/\r?\n/);
+    let entry = findCryptEntryAt(lines, cursorLine);
+
+    if (!entry) {
+        const span = findSubtree(lines, cursorLine);
+        if (!span) {
+            vscode.window.showWarningMessage('Not in an org entry');
+            return;
+        }
+        const tagged = addHeadingTag(lines[span.start]);
+        await editor.edit(editBuilder => {
+            editBuilder.replace(document.lineAt(span.start).range, tagged);
+        });
+        lines = document.getText().split(/\r?\n/);
+        entry = findCryptEntryAt(lines, span.start);
+        if (!entry) {
+            return;
+        }
+    }
+
+    if (entry.encrypted) {
+        vscode.window.showInformationMessage('Entry is already encrypted');
+        return;
+    }
+    if (entry.bodyEnd === entry.bodyStart) {
+        vscode.window.showInformationMessage('Entry has no content to encrypt');
+        return;
+    }
+
+    try {
+        const cipher = await encryptEntryBody(document, lines, entry, loadCryptOptions());
+        if (cipher === undefined) {
+            return;
+        }
+        const range = bodyRange(lines, entry);
+        await editor.edit(editBuilder => editBuilder.replace(range, cipher));
+        rememberCipher(document, lines[entry.heading], cipher);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Encryption failed: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Command: decrypt the entry at the cursor
+ */
+async function decryptEntry(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'org') {
+        return;
+    }
+
+    const document = editor.document;
+    const lines = document.getText().split(/\r?\n/);
+    const entry = findCryptEntryAt(lines, editor.selection.active.line);
+    if (!entry || !entry.encrypted) {
+        vscode.window.showInformationMessage('No encrypted entry at cursor');
+        return;
+    }
+
+    const cipher = entryBody(lines, entry);
+    let options = loadCryptOptions();
+    if (cipherNeedsPassphrase(cipher)) {
+        const passphrase = await getPassphrase(document, false);
+        if (passphrase === undefined) {
+            return;
+        }
+        options = { ...options, passphrase };
+    }
+
+    try {
+        const plain = await decryptText(cipher, options);
+        const range = bodyRange(lines, entry);
+        await editor.edit(editBuilder => editBuilder.replace(range, plain.replace(/\s+$/, '')));
+        rememberCipher(document, lines[entry.heading], cipher);
+    } catch (error) {
+        // Most likely a wrong passphrase: ask again next time
+        passphrases.delete(document.uri.toString());
+        vscode.window.showErrorMessage(`Decryption failed: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Command: encrypt every decrypted entry, asking for a passphrase if needed,
+ * then save. Nothing is saved if an entry cannot be encrypted.
+ */
+async function encryptAndSave(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return;
+    }
+    const document = editor.document;
+    const lines = document.getText().split(/\r?\n/);
+    const entries = document.languageId === 'org' ? decryptedEntries(lines) : [];
+
+    if (entries.length > 0) {
+        const options = loadCryptOptions();
+        const encrypted: { entry: CryptEntry; cipher: string }[] = [];
+        for (const entry of entries) {
+            try {
+                const cipher = await encryptEntryBody(document, lines, entry, options);
+                if (cipher === undefined) {
+                    return;
+                }
+                encrypted.push({ entry, cipher });
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Not saved: encrypting "${entryTitle(lines, entry)}" failed: ${(error as Error).message}`
+                );
+                return;
+            }
+        }
+        const applied = await editor.edit(editBuilder => {
+            for (const { entry, cipher } of encrypted) {
+                editBuilder.replace(bodyRange(lines, entry), cipher);
+            }
+        });
+        if (!applied) {
+            vscode.window.showErrorMessage('Not saved: the document changed while encrypting');
+            return;
+        }
+        for (const { entry, cipher } of encrypted) {
+            rememberCipher(document, lines[entry.heading], cipher);
+        }
+    }
+    await document.save();
+}
+
+/**
+ * Encrypt a body if it can be done without asking and within the save
+ * budget; undefined otherwise
+ */
+async function encryptWithoutPrompt(
+    document: vscode.TextDocument,
+    lines: string[],
+    entry: CryptEntry,
+    options: CryptOptions,
+    deadline: Promise<undefined>
+): Promise<string | undefined> {
+    if (needsPassphrase(options)) {
+        const passphrase = passphrases.get(document.uri.toString());
+        if (passphrase === undefined) {
+            return undefined;
+        }
+        options = { ...options, passphrase };
+    }
+    const cipher = encryptText(entryBody(lines, entry), options).catch(() => undefined);
+    return Promise.race([cipher, deadline]);
+}
+
+/**
+ * Edits that keep every decrypted `:crypt:` entry out of the saved file:
+ * encrypted where possible, otherwise replaced by their last ciphertext and
+ * remembered so the plaintext can be put back after the save
+ */
+async function encryptBeforeSave(document: vscode.TextDocument, manual: boolean): Promise<vscode.TextEdit[]> {
+    const key = document.uri.toString();
+    withheld.delete(key);
+
+    const text = document.getText();
+    if (!text.includes(':crypt:')) {
+        return [];
+    }
+    const lines = text.split(/\r?\n/);
+    const entries = decryptedEntries(lines);
+    if (entries.length === 0) {
+        return [];
+    }
+
+    const options = loadCryptOptions();
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<undefined>(resolve => {
+        timer = setTimeout(() => resolve(undefined), SAVE_ENCRYPT_BUDGET);
+    });
+    const results = await Promise.all(
+        entries.map(entry => encryptWithoutPrompt(document, lines, entry, options, deadline))
+    );
+    clearTimeout(timer);
+
+    const edits: vscode.TextEdit[] = [];
+    const held: WithheldBody[] = [];
+    const skipped: string[] = [];
+    // Line shift of later entries caused by the edits before them
+    let shift = 0;
+    entries.forEach((entry, index) => {
+        const cipher = results[index];
+        const standIn = cipher ?? ciphers.get(key)?.get(lines[entry.heading]) ?? '';
+        edits.push(vscode.TextEdit.replace(bodyRange(lines, entry), standIn));
+
+        const standInLines = standIn.split('\n');
+        if (cipher !== undefined) {
+            rememberCipher(document, lines[entry.heading], cipher);
+        } else {
+            const start = entry.bodyStart + shift;
+            const end = start + standInLines.length - 1;
+            held.push({
+                range: new vscode.Range(start, 0, end, standInLines[standInLines.length - 1].length),
+                standIn,
+                plain: entryBody(lines, entry),
+            });
+            skipped.push(entryTitle(lines, entry));
+        }
+        shift += standInLines.length - (entry.bodyEnd - entry.bodyStart);
+    });
+
+    if (held.length > 0) {
+        withheld.set(key, held);
+    }
+    // Auto save would repeat this every few seconds; the document staying
+    // modified shows it there
+    if (held.length > 0 && manual) {
+        vscode.window.showErrorMessage(
+            `Decrypted entries were not written to disk: ${skipped.map(title => `"${title}"`).join(', ')}. ` +
+            'Use "Scimax: Encrypt and Save" to encrypt and save them.'
+        );
+    }
+    return edits;
+}
+
+/**
+ * After a save that held plaintext back, put it back in the buffer, which
+ * leaves the document modified
+ */
+async function restoreWithheld(document: vscode.TextDocument): Promise<void> {
+    const key = document.uri.toString();
+    const held = withheld.get(key);
+    withheld.delete(key);
+    if (!held || !held.every(body => document.getText(body.range).replace(/\r\n/g, '\n') === body.standIn)) {
+        return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    for (const body of held) {
+        edit.replace(document.uri, body.range, body.plain);
+    }
+    await vscode.workspace.applyEdit(edit);
+}
+
+function encryptOnSave(): boolean {
+    return vscode.workspace.getConfiguration('scimax.org.crypt').get<boolean>('encryptOnSave', true);
+}
+
+/**
+ * Set `scimax.org.cryptDecrypted`, which binds the save key to Encrypt and
+ * Save, for the active editor
+ */
+function updateDecryptedContext(editor: vscode.TextEditor | undefined): void {
+    const document = editor?.document;
+    const decrypted = !!document
+        && document.languageId === 'org'
+        && encryptOnSave()
+        && document.getText().includes(':crypt:')
+        && decryptedEntries(document.getText().split(/\r?\n/)).length > 0;
+    vscode.commands.executeCommand('setContext', 'scimax.org.cryptDecrypted', decrypted);
+}
+
+/**
+ * Register the encrypt/decrypt commands and encryption on save
+ */
+export function registerCryptCommands(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('scimax.org.encryptEntry', encryptEntry),
+        vscode.commands.registerCommand('scimax.org.decryptEntry', decryptEntry),
+        vscode.commands.registerCommand('scimax.org.encryptAndSave', encryptAndSave),
+
+        vscode.workspace.onWillSaveTextDocument(event => {
+            if (event.document.languageId !== 'org' || !encryptOnSave()) {
+                return;
+            }
+            event.waitUntil(encryptBeforeSave(event.document, event.reason === vscode.TextDocumentSaveReason.Manual));
+        }),
+
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (withheld.has(document.uri.toString())) {
+                restoreWithheld(document);
+            }
+        }),
+
+        vscode.window.onDidChangeActiveTextEditor(updateDecryptedContext),
+
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document === vscode.window.activeTextEditor?.document) {
+                updateDecryptedContext(vscode.window.activeTextEditor);
+            }
+        }),
+
+        vscode.workspace.onDidCloseTextDocument(document => {
+            const key = document.uri.toString();
+            passphrases.delete(key);
+            ciphers.delete(key);
+            withheld.delete(key);
+        })
+    );
+    updateDecryptedContext(vscode.window.activeTextEditor);
+}
@@ -7,6 +7,7 @@
  */
 import * as vscode from 'vscode';
 import { getDatabase } from '../database/lazyDb';
+import { OUTLINE_FILE_TYPES } from '../database/scimaxDbCore';
 import { getTodoWorkflowForDocument, getTodoStatesFromText, extractHeadingTitle } from './todoStates';
 import { slugify } from '../parser/projectTasks';
 import {
@@ -157,8 +158,8 @@ async function addDependencyCommand(): Promise<void> {
         });
     }
 
-    // Other files come from the DB index.
-    const dbHeadings = await db.searchHeadings('', { limit: 1000 });
+    // Other files come from the DB index; only org entries can be depended on.
+    const dbHeadings = await db.searchHeadings('', { limit: 1000, fileTypes: OUTLINE_FILE_TYPES });
     const dbItems: PickItem[] = dbHeadings
         .filter(h => h.file_path !== thisFile)
         .map(h => ({
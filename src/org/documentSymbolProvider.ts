@@ -4,30 +4,7 @@
  */
 
 import * as vscode from 'vscode';
-
-// =============================================================================
-// Lightweight Headline Structure (no full AST needed)
-// =============================================================================
-
-interface LightHeadline {
-    level: number;
-    title: string;
-    todoKeyword?: string;
-    todoType?: 'todo' | 'done';
-    priority?: string;
-    tags: string[];
-    lineNumber: number;
-    endLineNumber: number;
-    children: LightHeadline[];
-}
-
-interface LightBlock {
-    type: 'src-block' | 'table' | 'drawer';
-    name?: string;
-    language?: string;
-    lineNumber: number;
-    endLineNumber: number;
-}
+import { OutlineHeadline, OutlineBlock, parseOutline } from '../parser/orgOutline';
 
 // Simple cache for parsed documents
 interface CacheEntry {
@@ -38,200 +15,6 @@ interface CacheEntry {
 const parseCache = new Map<string, CacheEntry>();
 const MAX_CACHE_SIZE = 10;
 
-// TODO keywords (could be made configurable)
-const TODO_KEYWORDS = new Set(['TODO', 'NEXT', 'WAITING', 'HOLD', 'SOMEDAY']);
-const DONE_KEYWORDS = new Set(['DONE', 'CANCELLED', 'CANCELED']);
-
-/**
- * Fast, lightweight parser that only extracts headlines and blocks
- * Much faster than full AST parsing for document symbols
- * Supports both org-mode and markdown syntax
- */
-function parseLightweight(lines: string[], isMarkdown: boolean = false): { headlines: LightHeadline[]; blocks: LightBlock[] } {
-    const rootHeadlines: LightHeadline[] = [];
-    const blocks: LightBlock[] = [];
-    const headlineStack: LightHeadline[] = [];
-
-    // Pattern for headlines: org uses *, markdown uses #
-    const headlinePattern = isMarkdown ? /^(#{1,6})\s+(.*)$/ : /^(\*+)\s+(.*)$/;
-    const headlineStartPattern = isMarkdown ? /^(#{1,6})\s/ : /^(\*+)\s/;
-
-    let i = 0;
-    while (i < lines.length) {
-        const line = lines[i];
-
-        // Check for headline
-        const headlineMatch = line.match(headlinePattern);
-        if (headlineMatch) {
-            const level = headlineMatch[1].length;
-            const headline = parseHeadlineLine(headlineMatch[2], level, i, isMarkdown);
-
-            // Find end of this headline (next headline of same or higher level)
-            let endLine = i + 1;
-            while (endLine < lines.length) {
-                const nextMatch = lines[endLine].match(headlineStartPattern);
-                if (nextMatch && nextMatch[1].length <= level) {
-                    break;
-                }
-                endLine++;
-            }
-            headline.endLineNumber = endLine - 1;
-
-            // Build hierarchy
-            while (headlineStack.length > 0 && headlineStack[headlineStack.length - 1].level >= level) {
-                headlineStack.pop();
-            }
-
-            if (headlineStack.length === 0) {
-                rootHeadlines.push(headline);
-            } else {
-                headlineStack[headlineStack.length - 1].children.push(headline);
-            }
-            headlineStack.push(headline);
-            i++;
-            continue;
-        }
-
-        // Check for org-mode source block
-        if (!isMarkdown && line.match(/^#\+BEGIN_SRC/i)) {
-            const langMatch = line.match(/^#\+BEGIN_SRC\s+(\S+)/i);
-            const nameMatch = lines[i - 1]?.match(/^#\+NAME:\s*(.+)$/i);
-            let endLine = i + 1;
-            while (endLine < lines.length && !lines[endLine].match(/^#\+END_SRC/i)) {
-                endLine++;
-            }
-            blocks.push({
-                type: 'src-block',
-                language: langMatch?.[1] || 'code',
-                name: nameMatch?.[1],
-                lineNumber: i,
-                endLineNumber: endLine,
-            });
-            i = endLine + 1;
-            continue;
-        }
-
-        // Check for markdown fenced code block (``` or ~~~)
-        if (isMarkdown) {
-            const fenceMatch = line.match(/^(`{3,}|~{3,})(\w*)$/);
-            if (fenceMatch) {
-                const fence = fenceMatch[1];
-                const language = fenceMatch[2] || 'code';
-                const fenceChar = fence[0];
-                const fenceLen = fence.length;
-                let endLine = i + 1;
-                // Find matching closing fence (same char, at least same length)
-                while (endLine < lines.length) {
-                    const closingMatch = lines[endLine].match(new RegExp(`^${fenceChar}{${fenceLen},}\\s*$`));
-                    if (closingMatch) {
-                        break;
-                    }
-                    endLine++;
-                }
-                blocks.push({
-                    type: 'src-block',
-                    language: language,
-                    lineNumber: i,
-                    endLineNumber: endLine,
-                });
-                i = endLine + 1;
-                continue;
-            }
-        }
-
-        // Check for table (fast check)
-        if (line.match(/^\s*\|/)) {
-            const startLine = i;
-            while (i < lines.length && lines[i].match(/^\s*\|/)) {
-                i++;
-            }
-            blocks.push({
-                type: 'table',
-                lineNumber: startLine,
-                endLineNumber: i - 1,
-            });
-            continue;
-        }
-
-        // Check for drawer (fast check) - org-mode only
-        if (!isMarkdown) {
-            const drawerMatch = line.match(/^:(\w+):\s*$/);
-            if (drawerMatch && drawerMatch[1] !== 'END' && drawerMatch[1] !== 'PROPERTIES') {
-                const startLine = i;
-                i++;
-                while (i < lines.length && lines[i].trim() !== ':END:') {
-                    i++;
-                }
-                blocks.push({
-                    type: 'drawer',
-                    name: drawerMatch[1],
-                    lineNumber: startLine,
-                    endLineNumber: i,
-                });
-                i++;
-                continue;
-            }
-        }
-
-        i++;
-    }
-
-    return { headlines: rootHeadlines, blocks };
-}
-
-/**
- * Parse a single headline line (very fast)
- * Handles both org-mode and markdown syntax
- */
-function parseHeadlineLine(text: string, level: number, lineNumber: number, isMarkdown: boolean = false): LightHeadline {
-    let title = text;
-    let todoKeyword: string | undefined;
-    let todoType: 'todo' | 'done' | undefined;
-    let priority: string | undefined;
-    const tags: string[] = [];
-
-    // Extract TODO keyword (first word) - same for org and markdown
-    const todoMatch = title.match(/^(\S+)\s+/);
-    if (todoMatch) {
-        const word = todoMatch[1];
-        if (TODO_KEYWORDS.has(word)) {
-            todoKeyword = word;
-            todoType = 'todo';
-            title = title.slice(todoMatch[0].length);
-        } else if (DONE_KEYWORDS.has(word)) {
-            todoKeyword = word;
-            todoType = 'done';
-            title = title.slice(todoMatch[0].length);
-        }
-    }
-
-    // Extract priority [#A] - same for org and markdown
-    const priorityMatch = title.match(/^\[#([A-Z])\]\s+/);
-    if (priorityMatch) {
-        priority = priorityMatch[1];
-        title = title.slice(priorityMatch[0].length);
-    }
-
-    // Extract tags :tag1:tag2: - same for org and markdown
-    const tagMatch = title.match(/\s+:([^:\s]+(?::[^:\s]+)*):$/);
-    if (tagMatch) {
-        tags.push(...tagMatch[1].split(':'));
-        title = title.slice(0, -tagMatch[0].length);
-    }
-
-    return {
-        level,
-        title: title.trim(),
-        todoKeyword,
-        todoType,
-        priority,
-        tags,
-        lineNumber,
-        endLineNumber: lineNumber,
-        children: [],
-    };
-}
-
 /**
  * Document symbol provider for org-mode and markdown files
  * Shows headlines, source blocks, tables, etc. in the outline view
@@ -256,7 +39,7 @@ export class OrgDocumentSymbolProvider implements vscode.DocumentSymbolProvider
         try {
             // Use fast lightweight parser - only extracts headlines and blocks
             const lines = document.getText().split('\n');
-            const { headlines, blocks } = parseLightweight(lines, isMarkdown);
+            const { headlines, blocks } = parseOutline(lines, isMarkdown);
 
             if (token.isCancellationRequested) {
                 return symbols;
@@ -311,7 +94,7 @@ export class OrgDocumentSymbolProvider implements vscode.DocumentSymbolProvider
 
             // Add headlines
             for (const headline of headlines) {
-                const symbol = this.createLightHeadlineSymbol(headline, document);
+                const symbol = this.createOutlineHeadlineSymbol(headline, document);
                 if (symbol) {
                     symbols.push(symbol);
                 }
@@ -347,8 +130,8 @@ export class OrgDocumentSymbolProvider implements vscode.DocumentSymbolProvider
     /**
      * Create symbol from lightweight headline
      */
-    private createLightHeadlineSymbol(
-        headline: LightHeadline,
+    private createOutlineHeadlineSymbol(
+        headline: OutlineHeadline,
         document: vscode.TextDocument
     ): vscode.DocumentSymbol | null {
         const startLine = headline.lineNumber;
@@ -389,7 +172,7 @@ export class OrgDocumentSymbolProvider implements vscode.DocumentSymbolProvider
 
         // Add children recursively
         for (const child of headline.children) {
-            const childSymbol = this.createLightHeadlineSymbol(child, document);
+            const childSymbol = this.createOutlineHeadlineSymbol(child, document);
             if (childSymbol) {
                 symbol.children.push(childSymbol);
             }
@@ -402,7 +185,7 @@ export class OrgDocumentSymbolProvider implements vscode.DocumentSymbolProvider
      * Create symbol from lightweight block
      */
     private createBlockSymbol(
-        block: LightBlock,
+        block: OutlineBlock,
         document: vscode.TextDocument
     ): vscode.DocumentSymbol | null {
         const startLine = block.lineNumber;
@@ -445,7 +228,7 @@ export class OrgDocumentSymbolProvider implements vscode.DocumentSymbolProvider
     /**
      * Get symbol kind based on headline properties
      */
-    private getHeadlineSymbolKind(headline: LightHeadline): vscode.SymbolKind {
+    private getHeadlineSymbolKind(headline: OutlineHeadline): vscode.SymbolKind {
         if (headline.todoKeyword) {
             return headline.todoType === 'done'
                 ? vscode.SymbolKind.Event
@@ -11,8 +11,13 @@ import { parseOrgFast } from '../parser/orgExportParser';
 import { exportToHtml, HtmlExportOptions } from '../parser/orgExportHtml';
 import { exportToLatex, LatexExportOptions } from '../parser/orgExportLatex';
 import { exportToBeamer, BeamerExportOptions } from '../parser/orgExportBeamer';
-import { exportToDocx, DocxExportOptions } from '../parser/orgExportDocx';
+import { exportToDocx, DocxExportOptions, type DocxEngine } from '../parser/orgExportDocx';
+import { exportToOdt, type OdtExportOptions } from '../parser/orgExportOdt';
+import { createReferenceDocx } from '../parser/orgExportOoxml';
+import { exportToMarkdown, MARKDOWN_FLAVORS, type MarkdownExportOptions, type MarkdownFlavor } from '../parser/orgExportMarkdown';
+import { exportToReveal, resolveRevealOptions, revealAssetPaths, type RevealExportOptions } from '../parser/orgExportReveal';
 import { processIncludes, hasIncludes } from '../parser/orgInclude';
+import { writeTablePlots } from '../parser/orgPlot';
 import { exportOrgToLatexWithMappings, storeSyncData, orgForwardSync, orgInverseSync, hasSyncData, getSyncData } from './orgPdfSync';
 import { PdfViewerPanel } from '../latex/pdfViewerPanel';
 import { getSyncTeXFilePath } from '../latex/synctexUtils';
@@ -24,6 +29,9 @@ import type { OrgDocumentNode, HeadlineElement } from '../parser/orgElementTypes
 import { isBodyOnlyMode } from '../hydra/menus/exportMenu';
 import { registerClipboardCommands } from './clipboardExport';
 import { tryRouteCustomExport } from '../export/commands';
+import { bundleRevealAssets, REVEAL_BUNDLE_DIR } from '../export/revealAssets';
+import { expandTilde } from '../utils/pathResolver';
+import { embedJupyterCharts } from '../jupyter/richOutput';
 import { resolveProfileForDocument, runProfile, readBuildKeywords } from '../latex/buildProfileService';
 
 /**
@@ -83,17 +91,22 @@ async function deleteExistingOutput(outputPath: string): Promise<void> {
 }
 
 /**
- * Preprocess content before export - handles #+INCLUDE: directives
+ * Preprocess content before export - handles #+INCLUDE: directives and
+ * writes the `file:` images of #+PLOT: tables
  */
 function preprocessContent(content: string, basePath: string): string {
-    if (!hasIncludes(content)) {
-        return content;
+    const expanded = hasIncludes(content)
+        ? processIncludes(content, {
+            basePath,
+            recursive: true,
+            maxDepth: 10,
+        })
+        : content;
+
+    for (const failure of writeTablePlots(expanded, basePath).failed) {
+        vscode.window.showWarningMessage(`Could not write plot ${failure.file}: ${failure.reason}`);
     }
-    return processIncludes(content, {
-        basePath,
-        recursive: true,
-        maxDepth: 10,
-    });
+    return expanded;
 }
 
 /**
@@ -160,6 +173,13 @@ const EXPORT_FORMATS: ExportFormat[] = [
         extension: '.pdf',
         icon: '$(file-pdf)',
     },
+    {
+        id: 'revealjs',
+        label: 'reveal.js slides',
+        description: 'Export to a reveal.js HTML presentation',
+        extension: '.html',
+        icon: '$(preview)',
+    },
     {
         id: 'markdown',
         label: 'Markdown',
@@ -174,6 +194,13 @@ const EXPORT_FORMATS: ExportFormat[] = [
         extension: '.docx',
         icon: '$(file)',
     },
+    {
+        id: 'odt',
+        label: 'OpenDocument Text',
+        description: 'Export to LibreOffice Writer (.odt)',
+        extension: '.odt',
+        icon: '$(file)',
+    },
 ];
 
 /**
@@ -436,7 +463,8 @@ async function exportHtml(
     // Yield to event loop before starting
     await new Promise(resolve => setImmediate(resolve));
 
-    const doc = parseOrgFast(content);
+    // Jupyter charts are drawn inline, from their saved specs
+    const doc = parseOrgFast(basePath ? embedJupyterCharts(content, basePath) : content);
 
     // Yield after parsing
     await new Promise(resolve => setImmediate(resolve));
@@ -1021,181 +1049,166 @@ function getPdfCompilerDescription(): string {
 }
 
 /**
- * Export to Markdown format
+ * Markdown flavor from the scimax.export.markdown.flavor setting
+ */
+function getMarkdownFlavor(): MarkdownFlavor {
+    const flavor = vscode.workspace.getConfiguration('scimax.export.markdown').get<string>('flavor', 'gfm');
+    return MARKDOWN_FLAVORS.includes(flavor as MarkdownFlavor) ? flavor as MarkdownFlavor : 'gfm';
+}
+
+/**
+ * Export to Markdown format - runs in chunks to avoid blocking
  */
 async function exportMarkdown(
     content: string,
-    _options: Partial<ExportOptions>
+    options: Partial<MarkdownExportOptions>,
+    basePath?: string
 ): Promise<string> {
-    const doc = parseOrgFast(content);
-    const lines: string[] = [];
+    // Yield to event loop before starting
+    await new Promise(resolve => setImmediate(resolve));
 
-    // Extract metadata
+    const doc = parseOrgFast(content);
     const metadata = extractMetadata(doc);
-    if (metadata.title) {
-        lines.push(`# ${metadata.title}`, '');
-    }
-    if (metadata.author) {
-        lines.push(`*${metadata.author}*`, '');
-    }
-
-    // Simple markdown conversion - uses fast parser's properties format
-    function convertElement(elem: any, depth: number = 0): void {
-        switch (elem.type) {
-            case 'headline':
-                const level = elem.properties?.level || 1;
-                const title = elem.properties?.rawValue || '';
-                lines.push(`${'#'.repeat(level)} ${title}`);
-                // Process section content first
-                if (elem.section?.children) {
-                    for (const child of elem.section.children) {
-                        convertElement(child, depth + 1);
-                    }
-                }
-                // Then child headlines
-                if (elem.children) {
-                    for (const child of elem.children) {
-                        convertElement(child, depth + 1);
-                    }
-                }
-                break;
 
-            case 'section':
-                if (elem.children) {
-                    for (const child of elem.children) {
-                        convertElement(child, depth);
-                    }
-                }
-                break;
-
-            case 'paragraph':
-                const text = convertObjects(elem.children || []);
-                lines.push(text, '');
-                break;
-
-            case 'src-block':
-                const lang = elem.properties?.language || '';
-                const code = elem.properties?.value || '';
-                lines.push('```' + lang);
-                lines.push(code);
-                lines.push('```', '');
-                break;
+    // Load bibliography entries if basePath is provided
+    let bibEntries: BibEntry[] = [];
+    if (basePath) {
+        const bibPaths = extractBibPaths(content, basePath);
+        if (bibPaths.length > 0) {
+            bibEntries = await loadBibEntries(bibPaths);
+        }
+    }
 
-            case 'example-block':
-                const example = elem.properties?.value || '';
-                lines.push('```');
-                lines.push(example);
-                lines.push('```', '');
-                break;
+    const markdownOptions: MarkdownExportOptions = {
+        flavor: getMarkdownFlavor(),
+        ...metadata,
+        ...options,
+        bibEntries: bibEntries.length > 0 ? bibEntries : options.bibEntries,
+    };
 
-            case 'quote-block':
-                if (elem.children) {
-                    for (const child of elem.children) {
-                        if (child.type === 'paragraph') {
-                            const quoteText = convertObjects(child.children || []);
-                            lines.push(`> ${quoteText}`, '');
-                        }
-                    }
-                }
-                break;
+    // Yield before export
+    await new Promise(resolve => setImmediate(resolve));
 
-            case 'plain-list':
-                if (elem.children) {
-                    for (const item of elem.children) {
-                        if (item.type === 'item') {
-                            const bullet = elem.properties?.listType === 'ordered' ? '1.' : '-';
-                            const itemText = convertObjects(item.children?.[0]?.children || []);
-                            lines.push(`${bullet} ${itemText}`);
-                        }
-                    }
-                    lines.push('');
-                }
-                break;
+    return exportToMarkdown(doc, markdownOptions);
+}
 
-            case 'table':
-                if (elem.children) {
-                    // Collect all rows and their cell contents
-                    const tableRows: string[][] = [];
-                    for (const row of elem.children) {
-                        if (row.type === 'table-row' && row.properties?.rowType === 'standard') {
-                            const cells = (row.children || [])
-                                .map((cell: any) => convertObjects(cell.children || []).trim());
-                            tableRows.push(cells);
-                        }
-                    }
+/**
+ * reveal.js options from the scimax.export.revealjs settings
+ */
+function getRevealSettings(): Partial<RevealExportOptions> {
+    const config = vscode.workspace.getConfiguration('scimax.export.revealjs');
+    return {
+        revealRoot: config.get<string>('root') || undefined,
+        theme: config.get<string>('theme') || undefined,
+        transition: config.get<string>('transition') || undefined,
+    };
+}
 
-                    if (tableRows.length > 0) {
-                        // Calculate max width for each column
-                        const colCount = Math.max(...tableRows.map(r => r.length));
-                        const colWidths: number[] = [];
-                        for (let col = 0; col < colCount; col++) {
-                            const maxWidth = Math.max(
-                                3, // minimum width for separator
-                                ...tableRows.map(row => (row[col] || '').length)
-                            );
-                            colWidths.push(maxWidth);
-                        }
+/**
+ * Export to a reveal.js presentation. With bundle, the reveal.js files the
+ * presentation needs are copied or downloaded into a reveal.js/ directory
+ * next to the output and the page loads them from there.
+ */
+async function exportReveal(
+    content: string,
+    options: Partial<RevealExportOptions>,
+    basePath: string,
+    bundle: boolean
+): Promise<string> {
+    // Yield to event loop before starting
+    await new Promise(resolve => setImmediate(resolve));
 
-                        // Output header row (first row)
-                        const headerCells = tableRows[0].map((cell, i) =>
-                            cell.padEnd(colWidths[i])
-                        );
-                        lines.push(`| ${headerCells.join(' | ')} |`);
+    const doc = parseOrgFast(content);
+    const metadata = extractMetadata(doc);
 
-                        // Output separator row
-                        const separator = colWidths.map(w => '-'.repeat(w));
-                        lines.push(`| ${separator.join(' | ')} |`);
+    let bibEntries: BibEntry[] = [];
+    const bibPaths = extractBibPaths(content, basePath);
+    if (bibPaths.length > 0) {
+        bibEntries = await loadBibEntries(bibPaths);
+    }
 
-                        // Output data rows
-                        for (let i = 1; i < tableRows.length; i++) {
-                            const cells = tableRows[i].map((cell, j) =>
-                                (cell || '').padEnd(colWidths[j] || 3)
-                            );
-                            lines.push(`| ${cells.join(' | ')} |`);
-                        }
-                        lines.push('');
-                    }
-                }
-                break;
+    const revealOptions: Partial<RevealExportOptions> = {
+        ...getRevealSettings(),
+        ...metadata,
+        ...options,
+        bibEntries: bibEntries.length > 0 ? bibEntries : options.bibEntries,
+    };
 
-            case 'horizontal-rule':
-                lines.push('---', '');
-                break;
+    if (bundle) {
+        const resolved = resolveRevealOptions(doc, revealOptions);
+        let source = resolved.revealRoot;
+        if (source && !/^https?:\/\//.test(source)) {
+            source = path.resolve(basePath, expandTilde(source));
         }
+        await bundleRevealAssets(revealAssetPaths(resolved), source, path.join(basePath, REVEAL_BUNDLE_DIR));
+        revealOptions.bundleDir = REVEAL_BUNDLE_DIR;
     }
 
-    function convertObjects(objects: any[]): string {
-        return objects.map((obj: any) => {
-            switch (obj.type) {
-                case 'plain-text':
-                    return obj.properties?.value || '';
-                case 'bold':
-                    return `**${convertObjects(obj.children || [])}**`;
-                case 'italic':
-                    return `*${convertObjects(obj.children || [])}*`;
-                case 'underline':
-                    return `_${convertObjects(obj.children || [])}_`;
-                case 'strike-through':
-                    return `~~${convertObjects(obj.children || [])}~~`;
-                case 'code':
-                    return `\`${obj.properties?.value || ''}\``;
-                case 'verbatim':
-                    return `\`${obj.properties?.value || ''}\``;
-                case 'link':
-                    const url = obj.properties?.path || '';
-                    const desc = obj.children?.[0]?.properties?.value || url;
-                    return `[${desc}](${url})`;
-                default:
-                    return obj.properties?.value || '';
-            }
-        }).join('');
-    }
+    // Yield before export
+    await new Promise(resolve => setImmediate(resolve));
+
+    return exportToReveal(doc, revealOptions);
+}
 
-    for (const child of doc.children || []) {
-        convertElement(child);
+/**
+ * A reference document setting resolved against the org file's directory
+ */
+function resolveReferenceDoc(setting: string | undefined, basePath: string): string | undefined {
+    return setting ? path.resolve(basePath, expandTilde(setting)) : undefined;
+}
+
+/**
+ * DOCX options from the document, the scimax.export.docx settings and the
+ * document's bibliography
+ */
+async function docxExportOptions(
+    content: string,
+    options: Partial<DocxExportOptions>,
+    basePath: string
+): Promise<DocxExportOptions> {
+    const config = vscode.workspace.getConfiguration('scimax.export.docx');
+    const bibPaths = extractBibPaths(content, basePath);
+    const bibEntries = bibPaths.length > 0 ? await loadBibEntries(bibPaths) : [];
+    return {
+        engine: config.get<DocxEngine>('engine', 'auto'),
+        referenceDoc: resolveReferenceDoc(config.get<string>('referenceDoc'), basePath),
+        ...options,
+        basePath,
+        rawContent: content,
+        bibEntries: bibEntries.length > 0 ? bibEntries : options.bibEntries,
+    };
+}
+
+/**
+ * Export to OpenDocument Text
+ */
+async function exportOdt(
+    content: string,
+    options: Partial<OdtExportOptions>,
+    basePath: string
+): Promise<Buffer> {
+    // Yield to event loop before starting
+    await new Promise(resolve => setImmediate(resolve));
+
+    const doc = parseOrgFast(content);
+    const metadata = extractMetadata(doc);
+
+    let bibEntries: BibEntry[] = [];
+    const bibPaths = extractBibPaths(content, basePath);
+    if (bibPaths.length > 0) {
+        bibEntries = await loadBibEntries(bibPaths);
     }
 
-    return lines.join('\n');
+    const config = vscode.workspace.getConfiguration('scimax.export.odt');
+    const odtOptions: Partial<OdtExportOptions> = {
+        referenceDoc: resolveReferenceDoc(config.get<string>('referenceDoc'), basePath),
+        ...metadata,
+        ...options,
+        basePath,
+        bibEntries: bibEntries.length > 0 ? bibEntries : options.bibEntries,
+    };
+
+    return exportToOdt(doc, odtOptions);
 }
 
 /**
@@ -1333,22 +1346,31 @@ async function showExportDispatcher(): Promise<void> {
                         break;
 
                     case 'markdown':
-                        result = await exportMarkdown(content, options);
+                        result = await exportMarkdown(content, options, inputDir);
+                        await fs.promises.writeFile(outputPath, result, 'utf-8');
+                        break;
+
+                    case 'revealjs': {
+                        const bundle = vscode.workspace.getConfiguration('scimax.export.revealjs').get<boolean>('bundle', false);
+                        result = await exportReveal(content, options, inputDir, bundle);
                         await fs.promises.writeFile(outputPath, result, 'utf-8');
                         break;
+                    }
 
                     case 'docx': {
                         const doc = parseOrgFast(content);
-                        const docxOptions: DocxExportOptions = {
-                            ...options,
-                            basePath: inputDir,
-                            rawContent: content,
-                        };
+                        const docxOptions = await docxExportOptions(content, options, inputDir);
                         const buffer = await exportToDocx(doc, docxOptions);
                         await fs.promises.writeFile(outputPath, buffer);
                         break;
                     }
 
+                    case 'odt': {
+                        const buffer = await exportOdt(content, options, inputDir);
+                        await fs.promises.writeFile(outputPath, buffer);
+                        break;
+                    }
+
                     case 'ipynb': {
                         const doc = parseOrgFast(content);
                         const config = vscode.workspace.getConfiguration('scimax.export.ipynb');
@@ -1548,9 +1570,9 @@ async function quickExportPdf(): Promise<void> {
 }
 
 /**
- * Quick export to Markdown
+ * Quick export to Markdown, in the given flavor or the configured one
  */
-async function quickExportMarkdown(): Promise<void> {
+async function quickExportMarkdown(flavor?: MarkdownFlavor): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor || editor.document.languageId !== 'org') {
         vscode.window.showWarningMessage('No org-mode file open');
@@ -1561,6 +1583,7 @@ async function quickExportMarkdown(): Promise<void> {
     const inputDir = path.dirname(inputPath);
     const inputName = path.basename(inputPath, '.org');
     const content = preprocessContent(editor.document.getText(), inputDir);
+    const bodyOnly = isBodyOnlyMode();
 
     // Parse document to extract metadata and export settings
     const doc = parseOrgFast(content);
@@ -1572,15 +1595,69 @@ async function quickExportMarkdown(): Promise<void> {
 
     try {
         await deleteExistingOutput(outputPath);
-        const result = await exportMarkdown(content, metadata);
+        const options: Partial<MarkdownExportOptions> = { ...metadata, bodyOnly };
+        if (flavor && MARKDOWN_FLAVORS.includes(flavor)) {
+            options.flavor = flavor;
+        }
+        const result = await exportMarkdown(content, options, inputDir);
         await fs.promises.writeFile(outputPath, result, 'utf-8');
-        vscode.window.showInformationMessage(`Exported to ${path.basename(outputPath)}`);
+        const suffix = bodyOnly ? ' (body only)' : '';
+        vscode.window.showInformationMessage(`Exported to ${path.basename(outputPath)}${suffix}`);
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         vscode.window.showErrorMessage(`Export failed: ${message}`);
     }
 }
 
+/**
+ * Quick export to a reveal.js presentation. Assets are bundled next to the
+ * output when bundle is true, or when it is omitted and the
+ * scimax.export.revealjs.bundle setting is on.
+ */
+async function quickExportReveal(bundle?: boolean, openAfter: boolean = false): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'org') {
+        vscode.window.showWarningMessage('No org-mode file open');
+        return;
+    }
+
+    const inputPath = editor.document.uri.fsPath;
+    const inputDir = path.dirname(inputPath);
+    const inputName = path.basename(inputPath, '.org');
+    const content = preprocessContent(editor.document.getText(), inputDir);
+    const bundleAssets = bundle ?? vscode.workspace.getConfiguration('scimax.export.revealjs').get<boolean>('bundle', false);
+
+    const doc = parseOrgFast(content);
+    const metadata = extractMetadata(doc);
+
+    const outputFileName = getExportFileName(metadata.exportFileName, inputName, 'html');
+    const outputPath = path.join(inputDir, outputFileName);
+
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: bundleAssets ? 'Exporting reveal.js slides and bundling assets...' : 'Exporting reveal.js slides...',
+                cancellable: false,
+            },
+            async () => {
+                await deleteExistingOutput(outputPath);
+                const html = await exportReveal(content, { ...metadata, bodyOnly: isBodyOnlyMode() }, inputDir, bundleAssets);
+                await fs.promises.writeFile(outputPath, html, 'utf-8');
+            }
+        );
+        if (openAfter) {
+            await vscode.env.openExternal(vscode.Uri.file(outputPath));
+        } else {
+            const suffix = bundleAssets ? ` (assets in ${REVEAL_BUNDLE_DIR}/)` : '';
+            vscode.window.showInformationMessage(`Exported to ${path.basename(outputPath)}${suffix}`);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`reveal.js export failed: ${message}`);
+    }
+}
+
 /**
  * Quick export to Jupyter Notebook
  */
@@ -1682,11 +1759,7 @@ async function quickExportDocx(): Promise<void> {
         async () => {
             try {
                 await deleteExistingOutput(outputPath);
-                const docxOptions: DocxExportOptions = {
-                    ...metadata,
-                    basePath: inputDir,
-                    rawContent: content,
-                };
+                const docxOptions = await docxExportOptions(content, metadata, inputDir);
                 const buffer = await exportToDocx(doc, docxOptions);
                 await fs.promises.writeFile(outputPath, buffer);
 
@@ -1713,6 +1786,87 @@ async function quickExportDocx(): Promise<void> {
     );
 }
 
+/**
+ * Quick export to ODT (LibreOffice Writer)
+ */
+async function quickExportOdt(openAfter: boolean = false): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'org') {
+        vscode.window.showWarningMessage('No org-mode file open');
+        return;
+    }
+
+    const inputPath = editor.document.uri.fsPath;
+    const inputDir = path.dirname(inputPath);
+    const inputName = path.basename(inputPath, '.org');
+    const content = preprocessContent(editor.document.getText(), inputDir);
+
+    const doc = parseOrgFast(content);
+    const metadata = extractMetadata(doc);
+
+    const outputFileName = getExportFileName(metadata.exportFileName, inputName, 'odt');
+    const outputPath = path.join(inputDir, outputFileName);
+
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Exporting to OpenDocument (.odt)...',
+                cancellable: false,
+            },
+            async () => {
+                await deleteExistingOutput(outputPath);
+                const buffer = await exportOdt(content, metadata, inputDir);
+                await fs.promises.writeFile(outputPath, buffer);
+            }
+        );
+        if (openAfter) {
+            await vscode.env.openExternal(vscode.Uri.file(outputPath));
+        } else {
+            const action = await vscode.window.showInformationMessage(
+                `Exported to ${path.basename(outputPath)}`,
+                'Open'
+            );
+            if (action === 'Open') {
+                await vscode.env.openExternal(vscode.Uri.file(outputPath));
+            }
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`ODT export failed: ${message}`);
+    }
+}
+
+/**
+ * Save a reference.docx with the native writer's styles, for restyling in
+ * Word and then setting as scimax.export.docx.referenceDoc
+ */
+async function saveReferenceDocx(): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, 'reference.docx') : undefined,
+        filters: { 'Word document': ['docx'] },
+        title: 'Save reference.docx',
+    });
+    if (!target) {
+        return;
+    }
+    try {
+        await fs.promises.writeFile(target.fsPath, await createReferenceDocx());
+        const action = await vscode.window.showInformationMessage(
+            `Saved ${path.basename(target.fsPath)}. Edit its styles in Word, then set it as scimax.export.docx.referenceDoc.`,
+            'Use It'
+        );
+        if (action === 'Use It') {
+            await vscode.workspace.getConfiguration('scimax.export.docx')
+                .update('referenceDoc', target.fsPath, vscode.ConfigurationTarget.Global);
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Could not save reference document: ${message}`);
+    }
+}
+
 /**
  * Preview HTML export in a webview panel
  */
@@ -1893,6 +2047,41 @@ export function registerExportCommands(context: vscode.ExtensionContext): void {
         )
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'scimax.org.exportOdt',
+            () => quickExportOdt(false)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'scimax.org.exportOdtOpen',
+            () => quickExportOdt(true)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'scimax.org.createReferenceDocx',
+            saveReferenceDocx
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'scimax.org.exportRevealJs',
+            (bundle?: boolean) => quickExportReveal(bundle, false)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'scimax.org.exportRevealJsOpen',
+            (bundle?: boolean) => quickExportReveal(bundle, true)
+        )
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand(
             'scimax.org.exportBeamer',
@@ -2008,7 +2197,7 @@ export function registerExportCommands(context: vscode.ExtensionContext): void {
     context.subscriptions.push(
         vscode.commands.registerCommand(
             'scimax.org.exportMarkdownOpen',
-            async () => {
+            async (flavor?: MarkdownFlavor) => {
                 const editor = vscode.window.activeTextEditor;
                 if (!editor || editor.document.languageId !== 'org') {
                     vscode.window.showWarningMessage('No org-mode file open');
@@ -2020,7 +2209,11 @@ export function registerExportCommands(context: vscode.ExtensionContext): void {
                 const outputPath = inputPath.replace(/\.org$/, '.md');
                 try {
                     await deleteExistingOutput(outputPath);
-                    const result = await exportMarkdown(content, {});
+                    const options: Partial<MarkdownExportOptions> = { bodyOnly: isBodyOnlyMode() };
+                    if (flavor && MARKDOWN_FLAVORS.includes(flavor)) {
+                        options.flavor = flavor;
+                    }
+                    const result = await exportMarkdown(content, options, inputDir);
                     await fs.promises.writeFile(outputPath, result, 'utf-8');
                     const doc = await vscode.workspace.openTextDocument(outputPath);
                     await vscode.window.showTextDocument(doc);
@@ -2059,11 +2252,7 @@ export function registerExportCommands(context: vscode.ExtensionContext): void {
                     async () => {
                         try {
                             await deleteExistingOutput(outputPath);
-                            const docxOptions: DocxExportOptions = {
-                                ...metadata,
-                                basePath: inputDir,
-                                rawContent: content,
-                            };
+                            const docxOptions = await docxExportOptions(content, metadata, inputDir);
                             const buffer = await exportToDocx(doc, docxOptions);
                             await fs.promises.writeFile(outputPath, buffer);
 
@@ -2340,11 +2529,22 @@ async function exportDispatcher(): Promise<void> {
         // Markdown exports
         { label: '$(markdown) [m m] Markdown file', description: 'Export to .md file', value: 'md-file', keys: 'mm' },
         { label: '$(markdown) [m o] Markdown and open', description: 'Export to .md and open', value: 'md-open', keys: 'mo' },
+        { label: '$(markdown) [m h] Hugo Markdown', description: 'Export to .md with TOML front matter and shortcodes', value: 'md-hugo', keys: 'mh' },
+        { label: '$(markdown) [m s] MyST Markdown', description: 'Export to .md with MyST directives and roles', value: 'md-myst', keys: 'ms' },
+        { label: '', kind: vscode.QuickPickItemKind.Separator, value: '', keys: '' },
+        // reveal.js exports
+        { label: '$(preview) [r r] reveal.js slides', description: 'Export to reveal.js .html presentation', value: 'reveal-file', keys: 'rr' },
+        { label: '$(preview) [r o] reveal.js and open', description: 'Export to reveal.js and open in browser', value: 'reveal-open', keys: 'ro' },
+        { label: '$(package) [r l] reveal.js offline', description: 'Export to reveal.js with assets bundled locally', value: 'reveal-local', keys: 'rl' },
         { label: '', kind: vscode.QuickPickItemKind.Separator, value: '', keys: '' },
         // DOCX exports
         { label: '$(file) [d d] Word document', description: 'Export to .docx file', value: 'docx-file', keys: 'dd' },
         { label: '$(file) [d o] Word and open', description: 'Export to .docx and open', value: 'docx-open', keys: 'do' },
         { label: '', kind: vscode.QuickPickItemKind.Separator, value: '', keys: '' },
+        // ODT exports
+        { label: '$(file) [o o] OpenDocument text', description: 'Export to .odt file', value: 'odt-file', keys: 'oo' },
+        { label: '$(file) [o O] OpenDocument and open', description: 'Export to .odt and open', value: 'odt-open', keys: 'oO' },
+        { label: '', kind: vscode.QuickPickItemKind.Separator, value: '', keys: '' },
         // Jupyter Notebook exports
         { label: '$(notebook) [j j] Jupyter Notebook', description: 'Export to .ipynb file', value: 'ipynb-file', keys: 'jj' },
         { label: '$(notebook) [j o] Jupyter and open', description: 'Export to .ipynb and open', value: 'ipynb-open', keys: 'jo' },
@@ -2352,7 +2552,7 @@ async function exportDispatcher(): Promise<void> {
     ];
 
     const selected = await vscode.window.showQuickPick(exportOptions.filter(o => o.label !== ''), {
-        placeHolder: 'Select export format (type keys: hh, ho, ll, lp, mm, mo, jj, jo, jp)',
+        placeHolder: 'Select export format (type keys: hh, ho, ll, lp, mm, mo, rr, ro, dd, oo, jj, jo, jp)',
         title: 'Org Export Dispatcher - C-c C-e',
         matchOnDescription: true,
     });
@@ -2466,6 +2666,14 @@ async function exportDispatcher(): Promise<void> {
                 await quickExportMarkdown();
                 break;
             }
+            case 'md-hugo': {
+                await quickExportMarkdown('hugo');
+                break;
+            }
+            case 'md-myst': {
+                await quickExportMarkdown('myst');
+                break;
+            }
             case 'md-open': {
                 await quickExportMarkdown();
                 const outputFileName = getExportFileName(metadata.exportFileName, inputName, 'md');
@@ -2474,6 +2682,18 @@ async function exportDispatcher(): Promise<void> {
                 await vscode.window.showTextDocument(mdDoc);
                 break;
             }
+            case 'reveal-file': {
+                await quickExportReveal();
+                break;
+            }
+            case 'reveal-open': {
+                await quickExportReveal(undefined, true);
+                break;
+            }
+            case 'reveal-local': {
+                await quickExportReveal(true);
+                break;
+            }
             case 'docx-file': {
                 await quickExportDocx();
                 break;
@@ -2489,11 +2709,7 @@ async function exportDispatcher(): Promise<void> {
                     },
                     async () => {
                         await deleteExistingOutput(outputPath);
-                        const docxOptions: DocxExportOptions = {
-                            ...metadata,
-                            basePath: inputDir,
-                            rawContent: content,
-                        };
+                        const docxOptions = await docxExportOptions(content, metadata, inputDir);
                         const buffer = await exportToDocx(doc, docxOptions);
                         await fs.promises.writeFile(outputPath, buffer);
 
@@ -2510,6 +2726,14 @@ async function exportDispatcher(): Promise<void> {
                 );
                 break;
             }
+            case 'odt-file': {
+                await quickExportOdt(false);
+                break;
+            }
+            case 'odt-open': {
+                await quickExportOdt(true);
+                break;
+            }
             case 'ipynb-file': {
                 await quickExportIpynb(false);
                 break;
@@ -0,0 +1,249 @@
+/**
+ * Habits in the editor: colored consistency graphs in agenda buffers, a
+ * webview with every habit's graph and streaks, and the habit report.
+ *
+ * Graphs are built by parser/orgHabits; this module only paints them. Colors
+ * are theme colors (scimax.habit*Background, defaults taken from org-habit's
+ * faces) so they can be overridden via workbench.colorCustomizations.
+ */
+import * as vscode from 'vscode';
+import { format } from 'date-fns';
+import {
+    buildHabitGraph,
+    computeHabitStats,
+    formatHabitReport,
+    habitStatusLabel,
+    DEFAULT_HABIT_FOLLOWING_DAYS,
+    DEFAULT_HABIT_PRECEDING_DAYS,
+    type HabitDay,
+    type HabitFace,
+    type HabitGraphOptions,
+} from '../parser/orgHabits';
+import { escapeHtml } from '../utils/escapeUtils';
+import { AGENDA_SCHEME, type AgendaDocumentProvider } from './agendaDocumentProvider';
+import type { AgendaManager } from './agendaProvider';
+
+const FACES: HabitFace[] = ['clear', 'ready', 'alert', 'overdue'];
+
+/** Graph span from `scimax.habits.precedingDays` and `followingDays` */
+export function getHabitGraphOptions(): HabitGraphOptions {
+    const config = vscode.workspace.getConfiguration('scimax.habits');
+    return {
+        precedingDays: config.get<number>('precedingDays', DEFAULT_HABIT_PRECEDING_DAYS),
+        followingDays: config.get<number>('followingDays', DEFAULT_HABIT_FOLLOWING_DAYS),
+    };
+}
+
+/** Theme color id of a day's face, e.g. scimax.habitReadyFutureBackground */
+function colorId(face: HabitFace, future: boolean): string {
+    return `scimax.habit${face[0].toUpperCase()}${face.slice(1)}${future ? 'Future' : ''}Background`;
+}
+
+function describeDay(day: HabitDay): string {
+    return `${format(day.date, 'yyyy-MM-dd EEE')}${day.done ? ' DONE' : ''}`;
+}
+
+// =============================================================================
+// Agenda buffer decorations
+// =============================================================================
+
+const decorationTypes = new Map<string, vscode.TextEditorDecorationType>();
+
+function createDecorationTypes(): void {
+    for (const face of FACES) {
+        for (const future of [false, true]) {
+            const id = colorId(face, future);
+            decorationTypes.set(id, vscode.window.createTextEditorDecorationType({
+                backgroundColor: new vscode.ThemeColor(id),
+            }));
+        }
+    }
+}
+
+/** Color the days of the habit graphs drawn in an agenda buffer */
+function decorateHabitGraphs(
+    editor: vscode.TextEditor,
+    graphs: { line: number; column: number; days: HabitDay[] }[]
+): void {
+    const ranges = new Map<string, vscode.DecorationOptions[]>();
+    for (const { line, column, days } of graphs) {
+        if (line >= editor.document.lineCount) continue;
+        days.forEach((day, i) => {
+            const id = colorId(day.face, day.future);
+            const list = ranges.get(id) ?? [];
+            list.push({
+                range: new vscode.Range(line, column + i, line, column + i + 1),
+                hoverMessage: describeDay(day),
+            });
+            ranges.set(id, list);
+        });
+    }
+    for (const [id, type] of decorationTypes) {
+        editor.setDecorations(type, ranges.get(id) ?? []);
+    }
+}
+
+// =============================================================================
+// Webview
+// =============================================================================
+
+class HabitPanel {
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly manager: AgendaManager
+    ) {}
+
+    async show(): Promise<void> {
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'scimaxHabits',
+                'Habits',
+                vscode.ViewColumn.Beside,
+                { enableScripts: true }
+            );
+            this.panel.webview.onDidReceiveMessage(m => this.onMessage(m), undefined, this.context.subscriptions);
+            this.panel.onDidDispose(() => { this.panel = undefined; });
+        }
+        await this.update();
+    }
+
+    /** Redraw if the panel is open (e.g. after the agenda refreshes). */
+    async refresh(): Promise<void> {
+        if (this.panel) await this.update();
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        if (message?.type === 'open' && message.file && message.line) {
+            const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(message.file));
+            const editor = await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+            const pos = new vscode.Position(Math.max(0, message.line - 1), 0);
+            editor.selection = new vscode.Selection(pos, pos);
+            editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenter);
+        }
+    }
+
+    private async update(): Promise<void> {
+        if (!this.panel) return;
+        const { habits, errors } = await this.manager.getHabits();
+        const options = getHabitGraphOptions();
+
+        const rows = habits.map(habit => {
+            const stats = computeHabitStats(habit);
+            const cells = buildHabitGraph(habit, options).map(day => {
+                const classes = [day.face, day.future ? 'future' : '', day.today ? 'today' : ''].filter(Boolean).join(' ');
+                const glyph = day.done ? '*' : day.today ? '!' : '&nbsp;';
+                return `<span class="day ${classes}" title="${describeDay(day)}">${glyph}</span>`;
+            }).join('');
+            return `<tr>
+  <td><a href="#" data-file="${escapeHtml(habit.file)}" data-line="${habit.line}">${escapeHtml(habit.title)}</a>
+    <div class="repeat">${escapeHtml(habit.repeater.raw)}</div></td>
+  <td class="graph">${cells}</td>
+  <td>${habitStatusLabel(stats.status)}</td>
+  <td class="num">${stats.currentStreak}</td>
+  <td class="num">${stats.longestStreak}</td>
+  <td class="num">${stats.misses}</td>
+</tr>`;
+        });
+        this.panel.webview.html = this.getHtml(rows, errors);
+    }
+
+    private getHtml(rows: string[], errors: string[]): string {
+        const faceStyles = FACES.map(face =>
+            `.${face} { background: var(--vscode-${colorId(face, false).replace('.', '-')}); }\n`
+            + `  .${face}.future { background: var(--vscode-${colorId(face, true).replace('.', '-')}); }`
+        ).join('\n  ');
+        const body = rows.length > 0
+            ? `<table>
+<tr><th>Habit</th><th>Consistency</th><th>Today</th><th>Streak</th><th>Longest</th><th>Misses</th></tr>
+${rows.join('\n')}
+</table>`
+            : '<p class="empty">No habits found. A habit is a heading with <code>:STYLE: habit</code> and a repeating SCHEDULED date.</p>';
+        const problems = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline';">
+<style>
+  body { font-family: var(--vscode-font-family, sans-serif); color: var(--vscode-editor-foreground); padding: 12px; }
+  table { border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 10px; border-bottom: 1px solid var(--vscode-panel-border, #444); vertical-align: middle; }
+  td.num { text-align: right; }
+  a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+  .repeat { font-size: 11px; color: var(--vscode-descriptionForeground); }
+  .graph { font-family: var(--vscode-editor-font-family, monospace); white-space: nowrap; }
+  .day { display: inline-block; width: 1.1em; text-align: center; color: #000; }
+  .day.today { outline: 1px solid var(--vscode-editor-foreground); }
+  ${faceStyles}
+  .empty, .errors { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+${body}
+${problems ? `<ul class="errors">${problems}</ul>` : ''}
+<script>
+  const vscode = acquireVsCodeApi();
+  document.querySelectorAll('a[data-file]').forEach(a => a.addEventListener('click', e => {
+    e.preventDefault();
+    vscode.postMessage({ type: 'open', file: a.dataset.file, line: Number(a.dataset.line) });
+  }));
+</script>
+</body>
+</html>`;
+    }
+}
+
+// =============================================================================
+// Registration
+// =============================================================================
+
+export function registerHabits(
+    context: vscode.ExtensionContext,
+    manager: AgendaManager,
+    docProvider: AgendaDocumentProvider
+): void {
+    createDecorationTypes();
+    const panel = new HabitPanel(context, manager);
+
+    const decorate = (editor: vscode.TextEditor): void => {
+        if (editor.document.uri.scheme !== AGENDA_SCHEME) return;
+        decorateHabitGraphs(editor, docProvider.habitGraphs(editor.document.uri));
+    };
+    vscode.window.visibleTextEditors.forEach(decorate);
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(decorate)),
+        // Agenda buffers change only when re-rendered, and graphs move with them.
+        vscode.workspace.onDidChangeTextDocument(event => {
+            for (const editor of vscode.window.visibleTextEditors) {
+                if (editor.document === event.document) decorate(editor);
+            }
+        }),
+        manager.onDidRefresh(() => void panel.refresh()),
+
+        vscode.commands.registerCommand('scimax.habits.show', () => panel.show()),
+
+        vscode.commands.registerCommand('scimax.habits.report', async () => {
+            const { habits, errors } = await manager.getHabits();
+            if (errors.length > 0) {
+                vscode.window.showWarningMessage(`Habits: ${errors[0]}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}`);
+            }
+            const doc = await vscode.workspace.openTextDocument({
+                content: formatHabitReport(habits, getHabitGraphOptions()),
+                language: 'org',
+            });
+            await vscode.window.showTextDocument(doc, { preview: true });
+        }),
+
+        {
+            dispose: () => {
+                for (const type of decorationTypes.values()) type.dispose();
+                decorationTypes.clear();
+            },
+        }
+    );
+}
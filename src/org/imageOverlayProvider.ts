@@ -13,6 +13,9 @@
  * - [[file:/absolute/path/img.jpg]]
  * - [[file:./img.png][description]]
  * - [[./img.png][description]]
+ *
+ * Links to Jupyter chart specs (*.plotly.json, *.vl.json, *.vg.json) are
+ * marked too; their hover opens the interactive chart (see chartView).
  */
 
 import * as vscode from 'vscode';
@@ -21,6 +24,8 @@ import * as fs from 'fs';
 import * as crypto from 'crypto';
 import { spawn } from 'child_process';
 import * as os from 'os';
+import { chartKindOfPath } from '../jupyter/richOutput';
+import { showChart } from './chartView';
 
 // =============================================================================
 // Types and Interfaces
@@ -54,6 +59,18 @@ export interface ImageLink {
     mtime?: number;
 }
 
+/**
+ * Link to a saved Jupyter chart spec
+ */
+interface ChartLink {
+    /** Resolved absolute path */
+    resolvedPath: string;
+    /** Range in the document */
+    range: vscode.Range;
+    /** Whether the file exists */
+    exists: boolean;
+}
+
 /**
  * Cached thumbnail information
  */
@@ -107,6 +124,15 @@ const IMAGE_EXTENSIONS = new Set([
 // [[file:path]] or [[path]] or [[file:path][desc]] or [[path][desc]]
 const IMAGE_LINK_PATTERN = /\[\[(?:file:)?([^\]]+?\.(?:png|jpe?g|gif|webp|svg|bmp|ico|tiff?))(?:\]\[([^\]]*))?\]\]/gi;
 
+// Links to Jupyter chart specs
+const CHART_LINK_PATTERN = /\[\[(?:file:)?([^\]]+?\.(?:plotly|vl|vg)\.json)(?:\]\[([^\]]*))?\]\]/gi;
+
+const CHART_LABELS: Record<string, string> = {
+    'plotly': 'Plotly chart',
+    'vega-lite': 'Vega-Lite chart',
+    'vega': 'Vega chart',
+};
+
 // Alternative simpler pattern for just the path
 const SIMPLE_IMAGE_PATH_PATTERN = /\[\[(?:file:)?([^\]]+)\]\]/gi;
 
@@ -326,6 +352,10 @@ export class ImageOverlayManager {
         const filteredLinks = this.config.onlyWhenCursorNotInLink
             ? this.filterByCursorPosition(imageLinks, editor.selections)
             : imageLinks;
+        const chartLinks = this.parseChartLinks(editor.document);
+        const filteredCharts = this.config.onlyWhenCursorNotInLink
+            ? this.filterByCursorPosition(chartLinks, editor.selections)
+            : chartLinks;
 
         // Create or update state
         if (!state) {
@@ -335,7 +365,7 @@ export class ImageOverlayManager {
         state.imageLinks = imageLinks;
 
         // Generate decorations
-        await this.applyDecorations(editor, filteredLinks, state);
+        await this.applyDecorations(editor, filteredLinks, state, filteredCharts);
     }
 
     /**
@@ -406,6 +436,31 @@ export class ImageOverlayManager {
         return links;
     }
 
+    /**
+     * Parse links to Jupyter chart specs from document
+     */
+    private parseChartLinks(document: vscode.TextDocument): ChartLink[] {
+        const links: ChartLink[] = [];
+        const text = document.getText();
+        const docDir = path.dirname(document.uri.fsPath);
+
+        let match;
+        CHART_LINK_PATTERN.lastIndex = 0;
+        while ((match = CHART_LINK_PATTERN.exec(text)) !== null) {
+            const resolvedPath = this.resolvePath(match[1], docDir);
+            if (!resolvedPath) continue;
+            links.push({
+                resolvedPath,
+                range: new vscode.Range(
+                    document.positionAt(match.index),
+                    document.positionAt(match.index + match[0].length)
+                ),
+                exists: fs.existsSync(resolvedPath),
+            });
+        }
+        return links;
+    }
+
     /**
      * Resolve image path
      */
@@ -462,10 +517,10 @@ export class ImageOverlayManager {
     /**
      * Filter links by cursor position
      */
-    private filterByCursorPosition(
-        links: ImageLink[],
+    private filterByCursorPosition<T extends { range: vscode.Range }>(
+        links: T[],
         selections: readonly vscode.Selection[]
-    ): ImageLink[] {
+    ): T[] {
         return links.filter(link => {
             for (const selection of selections) {
                 if (link.range.contains(selection.active)) {
@@ -502,7 +557,8 @@ export class ImageOverlayManager {
     private async applyDecorations(
         editor: vscode.TextEditor,
         links: ImageLink[],
-        state: EditorState
+        state: EditorState,
+        charts: ChartLink[] = []
     ): Promise<void> {
         // Dispose old gutter decoration types
         for (const decType of state.gutterDecorationTypes) {
@@ -588,6 +644,40 @@ export class ImageOverlayManager {
             }
         }
 
+        // Charts have no thumbnail; a label in every render mode, and a hover
+        // that opens the interactive chart
+        for (const chart of charts) {
+            const label = CHART_LABELS[chartKindOfPath(chart.resolvedPath) ?? ''] ?? 'Chart';
+            if (!chart.exists) {
+                afterDecorations.push({
+                    range: chart.range,
+                    renderOptions: {
+                        after: {
+                            contentText: ' ⚠️ (not found)',
+                            color: new vscode.ThemeColor('errorForeground'),
+                        },
+                    },
+                    hoverMessage: new vscode.MarkdownString(`**Chart not found**\n\n\`${chart.resolvedPath}\``),
+                });
+                continue;
+            }
+            const hoverMd = new vscode.MarkdownString(
+                `**${label}** ${path.basename(chart.resolvedPath)}\n\n` +
+                `[Open chart](command:scimax.imageOverlays.openChart?${encodeURIComponent(JSON.stringify([chart.resolvedPath]))})`
+            );
+            hoverMd.isTrusted = true;
+            afterDecorations.push({
+                range: chart.range,
+                renderOptions: {
+                    after: {
+                        contentText: ` 📈 ${label}`,
+                        color: new vscode.ThemeColor('editorInfo.foreground'),
+                    },
+                },
+                hoverMessage: hoverMd,
+            });
+        }
+
         // Apply after-content decorations
         editor.setDecorations(state.decorationType, afterDecorations);
     }
@@ -1085,6 +1175,23 @@ export function registerImageOverlayCommands(context: vscode.ExtensionContext):
             }
         }),
 
+        vscode.commands.registerCommand('scimax.imageOverlays.openChart', (filePath?: string) => {
+            const editor = vscode.window.activeTextEditor;
+            if (!filePath && editor) {
+                // The chart link at the cursor
+                const line = editor.document.lineAt(editor.selection.active.line).text;
+                const match = line.match(/\[\[(?:file:)?([^\]]+?\.(?:plotly|vl|vg)\.json)/i);
+                if (match) {
+                    filePath = path.resolve(path.dirname(editor.document.uri.fsPath), match[1]);
+                }
+            }
+            if (!filePath) {
+                vscode.window.showWarningMessage('No chart link on this line');
+                return;
+            }
+            showChart(filePath);
+        }),
+
         vscode.commands.registerCommand('scimax.imageOverlays.clearCache', () => {
             manager.clearCache();
         }),
@@ -15,6 +15,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as crypto from 'crypto';
 import { spawn } from 'child_process';
+import { getEnhancedPath, runCommand } from '../parser/latexRender';
 
 // Cache directory for rendered equations
 let cacheDir: string;
@@ -693,74 +694,6 @@ export async function renderLatexToSvg(
     }
 }
 
-/**
- * Get enhanced PATH including common LaTeX installation locations
- */
-function getEnhancedPath(): string {
-    const currentPath = process.env.PATH || '';
-    const latexPaths = [
-        '/Library/TeX/texbin',           // MacTeX
-        '/usr/local/texlive/2025/bin/universal-darwin',
-        '/usr/local/texlive/2024/bin/universal-darwin',
-        '/usr/local/texlive/2023/bin/universal-darwin',
-        '/opt/homebrew/bin',             // Homebrew on Apple Silicon
-        '/usr/local/bin',                // Homebrew on Intel
-        '/usr/bin',
-    ];
-
-    // Add paths that aren't already in PATH
-    const pathSet = new Set(currentPath.split(':'));
-    for (const p of latexPaths) {
-        if (!pathSet.has(p)) {
-            pathSet.add(p);
-        }
-    }
-
-    return Array.from(pathSet).join(':');
-}
-
-/**
- * Run a command and capture output
- */
-function runCommand(
-    cmd: string,
-    args: string[],
-    cwd: string,
-    timeout: number
-): Promise<{ success: boolean; stdout: string; stderr: string }> {
-    return new Promise((resolve) => {
-        const env = {
-            ...process.env,
-            PATH: getEnhancedPath(),
-        };
-
-        const proc = spawn(cmd, args, {
-            cwd,
-            timeout,
-            env,
-        });
-
-        let stdout = '';
-        let stderr = '';
-
-        proc.stdout?.on('data', (data: Buffer) => {
-            stdout += data.toString();
-        });
-
-        proc.stderr?.on('data', (data: Buffer) => {
-            stderr += data.toString();
-        });
-
-        proc.on('error', (err: Error) => {
-            resolve({ success: false, stdout, stderr: err.message });
-        });
-
-        proc.on('close', (code: number | null) => {
-            resolve({ success: code === 0, stdout, stderr });
-        });
-    });
-}
-
 /**
  * Find LaTeX fragment at position
  */
@@ -3,131 +3,208 @@
  *
  * Implements C-c C-w refile command that moves a heading (with its subtree)
  * to a different location, selecting the target via a QuickPick interface.
+ *
+ * Targets come from the live current document plus, depending on
+ * `scimax.org.refile.targets`, every indexed agenda or project file (read from
+ * the headings table). The move is a single WorkspaceEdit, so removing the
+ * subtree from the source and inserting it in the destination either both
+ * happen or neither does.
  */
 
 import * as vscode from 'vscode';
-import { getHeadingLevel, getSubtreeRange } from './speedCommands/context';
+import { getDatabase } from '../database/lazyDb';
+import { isAgendaFileExcluded } from './agendaProvider';
+import {
+    buildRefileTargets,
+    findSubtree,
+    formatOutlinePath,
+    insertionIndex,
+    locateHeading,
+    scanLevels,
+    shiftHeadingLevels,
+    headingLevelOf,
+    headingText,
+    OutlinePathStyle,
+    RefileHeading,
+    SubtreeSpan,
+} from '../parser/orgRefile';
 
 /**
  * Interface for refile target items in QuickPick
  */
-interface RefileTarget extends vscode.QuickPickItem {
-    lineNumber: number;
-    level: number;
+interface RefileTargetItem extends vscode.QuickPickItem {
+    target: RefileHeading;
+}
+
+type RefileScope = 'currentFile' | 'agendaFiles' | 'projectFiles';
+
+interface RefileConfig {
+    scopes: RefileScope[];
+    maxLevel: number;
+    outlinePath: OutlinePathStyle;
+}
+
+function loadRefileConfig(): RefileConfig {
+    const config = vscode.workspace.getConfiguration('scimax.org.refile');
+    return {
+        scopes: config.get<RefileScope[]>('targets', ['currentFile', 'agendaFiles']),
+        maxLevel: config.get<number>('maxLevel', 3),
+        outlinePath: config.get<OutlinePathStyle>('useOutlinePath', 'file'),
+    };
 }
 
 /**
- * Collect all headings in the document as refile targets
+ * Collect headings of the live document as refile targets. The open buffer
+ * may have unsaved edits, so it is read directly rather than from the index.
  * @param document The document to scan
- * @param excludeRange Lines to exclude (the source subtree)
- * @returns Array of refile targets
+ * @param excludeSpan Lines to exclude (the source subtree)
  */
-function collectRefileTargets(
+function collectDocumentHeadings(
     document: vscode.TextDocument,
-    excludeRange: { startLine: number; endLine: number }
-): RefileTarget[] {
-    const targets: RefileTarget[] = [];
+    excludeSpan: SubtreeSpan
+): RefileHeading[] {
     const isOrg = document.languageId === 'org';
-    const headingPattern = isOrg ? /^(\*+)\s+(.*)$/ : /^(#+)\s+(.*)$/;
+    const headings: RefileHeading[] = [];
+    const lines = document.getText().split(/\r?\n/);
+    const levels = scanLevels(lines, isOrg);
+
+    for (let i = 0; i < lines.length; i++) {
+        const level = levels[i];
+        if (level === 0) continue;
+        // Skip the source subtree, but keep walking past it so later
+        // headings still get correct outline paths.
+        if (i >= excludeSpan.start && i < excludeSpan.end) continue;
+        headings.push({
+            filePath: document.uri.fsPath,
+            level,
+            title: headingText(lines[i], isOrg),
+            lineNumber: i + 1,
+        });
+    }
+    return headings;
+}
 
-    for (let i = 0; i < document.lineCount; i++) {
-        // Skip lines in the excluded range (source subtree)
-        if (i >= excludeRange.startLine && i <= excludeRange.endLine) {
-            continue;
+/**
+ * Collect headings from other indexed files in the configured scopes.
+ */
+async function collectIndexedHeadings(
+    document: vscode.TextDocument,
+    config: RefileConfig
+): Promise<RefileHeading[]> {
+    const wantsAgenda = config.scopes.includes('agendaFiles');
+    const wantsProject = config.scopes.includes('projectFiles');
+    if (!wantsAgenda && !wantsProject) return [];
+
+    const db = await getDatabase();
+    if (!db) return [];
+
+    const currentPath = document.uri.fsPath;
+    const files = new Set<string>();
+
+    if (wantsAgenda) {
+        const exclude = vscode.workspace.getConfiguration('scimax.agenda').get<string[]>('exclude', []);
+        for (const file of await db.getFiles()) {
+            if (!isAgendaFileExcluded(file.path, exclude)) files.add(file.path);
         }
-
-        const line = document.lineAt(i).text;
-        const match = line.match(headingPattern);
-
-        if (match) {
-            const level = match[1].length;
-            const title = match[2].trim();
-
-            // Create visual indentation based on level
-            const indent = '  '.repeat(level - 1);
-            const marker = isOrg ? '*'.repeat(level) : '#'.repeat(level);
-
-            targets.push({
-                label: `${indent}${marker} ${title}`,
-                description: `Line ${i + 1}`,
-                lineNumber: i,
-                level: level
-            });
+    }
+    if (wantsProject) {
+        const project = await db.getProjectForFile(currentPath);
+        if (project) {
+            for (const file of await db.getFilesInProject(project.id)) files.add(file.path);
         }
     }
+    files.delete(currentPath);
+    if (files.size === 0) return [];
 
-    return targets;
+    const rows = await db.getRefileHeadings({
+        filePaths: [...files],
+        maxLevel: config.maxLevel,
+        fileType: document.languageId === 'org' ? 'org' : 'md',
+    });
+    return rows.map(row => ({
+        filePath: row.file_path,
+        level: row.level,
+        title: row.title,
+        lineNumber: row.line_number,
+        todoState: row.todo_state,
+    }));
 }
 
 /**
- * Adjust heading levels in subtree text
- * @param text The subtree text
- * @param currentLevel Current base level of the subtree
- * @param targetLevel Target base level (should be target heading level + 1)
- * @param isOrg Whether this is an org file (vs markdown)
- * @returns Adjusted text with new heading levels
+ * Build the QuickPick items: the current file first (in document order),
+ * then other files.
  */
-function adjustSubtreeLevels(
-    text: string,
-    currentLevel: number,
-    targetLevel: number,
-    isOrg: boolean
-): string {
-    if (currentLevel === targetLevel) {
-        return text;
+async function collectRefileTargets(
+    document: vscode.TextDocument,
+    sourceSpan: SubtreeSpan,
+    config: RefileConfig
+): Promise<RefileTargetItem[]> {
+    const local = config.scopes.includes('currentFile') || config.scopes.length === 0
+        ? buildRefileTargets(collectDocumentHeadings(document, sourceSpan), {
+            maxLevel: config.maxLevel,
+            outlinePathStyle: config.outlinePath,
+        })
+        : [];
+
+    let remote: ReturnType<typeof buildRefileTargets> = [];
+    try {
+        remote = buildRefileTargets(await collectIndexedHeadings(document, config), {
+            outlinePathStyle: config.outlinePath,
+        });
+    } catch (error) {
+        // The index is an enhancement: fall back to the current file.
+        console.warn('Refile: could not read targets from the database', error);
     }
 
-    const delta = targetLevel - currentLevel;
-    const charPattern = isOrg ? '\\*' : '#';  // Escaped for regex
-    const charLiteral = isOrg ? '*' : '#';    // Literal for replacement
-    const pattern = new RegExp(`^(${charPattern}+)(\\s)`, 'gm');
-
-    return text.replace(pattern, (match, stars, space) => {
-        const newLevel = Math.max(1, stars.length + delta);
-
-        // For markdown, warn if level would exceed 6
-        if (!isOrg && newLevel > 6) {
-            // Cap at 6 for markdown
-            return charLiteral.repeat(6) + space;
-        }
-
-        return charLiteral.repeat(newLevel) + space;
-    });
+    return [...local, ...remote].map(target => ({
+        label: target.display,
+        description: target.level === 0
+            ? 'top level'
+            : target.filePath === document.uri.fsPath ? `Line ${target.lineNumber}` : undefined,
+        target,
+    }));
 }
 
 /**
- * Find the insertion point for refiled subtree (end of target's subtree)
- * @param document The document
- * @param targetLine The target heading line number
- * @returns Line number where to insert (after this line)
+ * Text of the lines in `span`, demoted/promoted to sit under `targetLevel`.
  */
-function findInsertionPoint(document: vscode.TextDocument, targetLine: number): number {
-    const targetLevel = getHeadingLevel(document, targetLine);
-
-    // Find the end of the target's subtree
-    let insertLine = targetLine;
+function subtreeTextFor(lines: string[], span: SubtreeSpan, targetLevel: number, isOrg: boolean): string {
+    const moved = shiftHeadingLevels(lines.slice(span.start, span.end), targetLevel + 1 - span.level, isOrg);
+    return moved.join('\n') + '\n';
+}
 
-    for (let i = targetLine + 1; i < document.lineCount; i++) {
-        const level = getHeadingLevel(document, i);
-        if (level > 0 && level <= targetLevel) {
-            // Found a heading at same or higher level - insert before it
-            break;
-        }
-        insertLine = i;
+/**
+ * Add an insertion of `text` before 0-based line `at` of `document`.
+ */
+function insertAtLine(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, at: number, text: string): void {
+    if (at < document.lineCount) {
+        edit.insert(document.uri, new vscode.Position(at, 0), text);
+        return;
     }
-
-    return insertLine;
+    // Appending after the last line: supply the missing line break first.
+    const last = document.lineAt(document.lineCount - 1);
+    const prefix = last.text.length > 0 ? '\n' : '';
+    edit.insert(document.uri, last.range.end, prefix + text.replace(/\n$/, ''));
 }
 
 /**
- * Get the title of the current heading (for display in QuickPick)
+ * Add the deletion of the lines in `span` (including their line breaks). A
+ * subtree at end of file takes the preceding line break instead, unless
+ * `keepPrecedingBreak` is set because an insertion lands right there.
  */
-function getHeadingTitle(document: vscode.TextDocument, line: number): string {
-    const lineText = document.lineAt(line).text;
-    const isOrg = document.languageId === 'org';
-    const pattern = isOrg ? /^\*+\s+(.*)$/ : /^#+\s+(.*)$/;
-    const match = lineText.match(pattern);
-    return match ? match[1].trim() : lineText.trim();
+function deleteLines(
+    edit: vscode.WorkspaceEdit,
+    document: vscode.TextDocument,
+    span: SubtreeSpan,
+    keepPrecedingBreak = false
+): void {
+    const end = span.end < document.lineCount
+        ? new vscode.Position(span.end, 0)
+        : document.lineAt(document.lineCount - 1).range.end;
+    const start = span.end >= document.lineCount && span.start > 0 && !keepPrecedingBreak
+        ? document.lineAt(span.start - 1).range.end
+        : new vscode.Position(span.start, 0);
+    edit.delete(document.uri, new vscode.Range(start, end));
 }
 
 /**
@@ -150,20 +227,18 @@ export async function refileSubtree(options?: { keepOriginal?: boolean }): Promi
         return;
     }
 
-    const position = editor.selection.active;
     const isOrg = document.languageId === 'org';
+    const sourceLines = document.getText().split(/\r?\n/);
 
     // Get the current subtree
-    const subtreeRange = getSubtreeRange(document, position.line);
-    const sourceLevel = getHeadingLevel(document, subtreeRange.startLine);
-
-    if (sourceLevel === 0) {
+    const sourceSpan = findSubtree(sourceLines, editor.selection.active.line, isOrg);
+    if (!sourceSpan) {
         vscode.window.showWarningMessage('Cursor is not on or in a heading');
         return;
     }
 
-    // Collect refile targets (excluding the source subtree)
-    const targets = collectRefileTargets(document, subtreeRange);
+    const config = loadRefileConfig();
+    const targets = await collectRefileTargets(document, sourceSpan, config);
 
     if (targets.length === 0) {
         vscode.window.showInformationMessage('No other headings to refile to');
@@ -171,7 +246,7 @@ export async function refileSubtree(options?: { keepOriginal?: boolean }): Promi
     }
 
     // Get source heading title for display
-    const sourceTitle = getHeadingTitle(document, subtreeRange.startLine);
+    const sourceTitle = headingText(sourceLines[sourceSpan.start], isOrg);
     const actionWord = options?.keepOriginal ? 'Copy' : 'Refile';
 
     // Show QuickPick with targets
@@ -184,20 +259,31 @@ export async function refileSubtree(options?: { keepOriginal?: boolean }): Promi
         return; // User cancelled
     }
 
-    // Get the subtree text
-    const startPos = new vscode.Position(subtreeRange.startLine, 0);
-    const endPos = new vscode.Position(
-        subtreeRange.endLine,
-        document.lineAt(subtreeRange.endLine).text.length
-    );
-    let subtreeText = document.getText(new vscode.Range(startPos, endPos));
+    const target = selected.target;
+    const sameFile = target.filePath === document.uri.fsPath;
+    const destDocument = sameFile
+        ? document
+        : await vscode.workspace.openTextDocument(vscode.Uri.file(target.filePath));
+    const destLines = sameFile ? sourceLines : destDocument.getText().split(/\r?\n/);
+
+    // The index can lag behind unsaved edits: find the heading in the live text.
+    const targetIndex = locateHeading(destLines, target, isOrg);
+    if (targetIndex === null) {
+        vscode.window.showErrorMessage(`Refile target "${target.title}" no longer exists in ${target.filePath}`);
+        return;
+    }
+    if (sameFile && targetIndex >= sourceSpan.start && targetIndex < sourceSpan.end) {
+        vscode.window.showWarningMessage('Cannot refile a subtree under itself');
+        return;
+    }
 
-    // Calculate the new level (target level + 1, as we become a child)
-    const targetLevel = selected.level;
-    const newLevel = targetLevel + 1;
+    const targetLevel = targetIndex < 0 ? 0 : headingLevelOf(destLines[targetIndex], isOrg);
 
     // Warn for markdown level limit
-    if (!isOrg && newLevel > 6) {
+    const deepest = targetLevel + 1 + Math.max(0, ...sourceLines
+        .slice(sourceSpan.start, sourceSpan.end)
+        .map(line => headingLevelOf(line, isOrg) - sourceSpan.level));
+    if (!isOrg && deepest > 6) {
         const proceed = await vscode.window.showWarningMessage(
             'Markdown headings cannot exceed level 6. Some headings will be capped at level 6.',
             'Continue',
@@ -208,53 +294,29 @@ export async function refileSubtree(options?: { keepOriginal?: boolean }): Promi
         }
     }
 
-    // Adjust heading levels in the subtree
-    subtreeText = adjustSubtreeLevels(subtreeText, sourceLevel, newLevel, isOrg);
+    const subtreeText = subtreeTextFor(sourceLines, sourceSpan, targetLevel, isOrg);
+    const insertAt = insertionIndex(destLines, targetIndex, isOrg);
 
-    // Ensure subtree text ends with newline
-    if (!subtreeText.endsWith('\n')) {
-        subtreeText += '\n';
+    // One WorkspaceEdit for both sides: it is applied atomically, so a failed
+    // move never leaves the subtree duplicated or lost.
+    const edit = new vscode.WorkspaceEdit();
+    insertAtLine(edit, destDocument, insertAt, subtreeText);
+    if (!options?.keepOriginal) {
+        deleteLines(edit, document, sourceSpan, sameFile && insertAt === sourceSpan.start);
     }
 
-    // Find insertion point (end of target's subtree)
-    // Need to account for potential line shifts after deletion
-    let insertAfterLine = findInsertionPoint(document, selected.lineNumber);
-
-    // Determine if target is before or after the source
-    const targetBeforeSource = selected.lineNumber < subtreeRange.startLine;
-
-    await editor.edit(editBuilder => {
-        if (options?.keepOriginal) {
-            // Copy mode: just insert at target location
-            // Insert after the last line of target's subtree
-            const insertPos = new vscode.Position(insertAfterLine + 1, 0);
-            editBuilder.insert(insertPos, subtreeText);
-        } else {
-            // Move mode: delete source and insert at target
-
-            // If target is after source, we need to adjust for the deletion
-            if (!targetBeforeSource) {
-                // Calculate how many lines we're removing
-                const linesToRemove = subtreeRange.endLine - subtreeRange.startLine + 1;
-                insertAfterLine -= linesToRemove;
-            }
-
-            // Delete the source subtree (include the newline after)
-            const deleteEnd = subtreeRange.endLine + 1 < document.lineCount
-                ? new vscode.Position(subtreeRange.endLine + 1, 0)
-                : new vscode.Position(subtreeRange.endLine, document.lineAt(subtreeRange.endLine).text.length);
-            editBuilder.delete(new vscode.Range(startPos, deleteEnd));
-
-            // Insert at the target location
-            const insertPos = new vscode.Position(insertAfterLine + 1, 0);
-            editBuilder.insert(insertPos, subtreeText);
-        }
-    });
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+        vscode.window.showErrorMessage('Refile failed: the edit could not be applied');
+        return;
+    }
 
     // Show success message
-    const targetTitle = getHeadingTitle(document, selected.lineNumber);
     const verb = options?.keepOriginal ? 'Copied' : 'Refiled';
-    vscode.window.showInformationMessage(`${verb} to "${targetTitle}"`);
+    const where = target.level === 0
+        ? formatOutlinePath(target.filePath, [], config.outlinePath === 'none' ? 'file' : config.outlinePath)
+        : target.title;
+    vscode.window.showInformationMessage(`${verb} to "${where}"`);
 }
 
 /**
@@ -0,0 +1,167 @@
+/**
+ * Workspace-wide rename (F2) for org identifiers.
+ *
+ * Renaming a heading's :CUSTOM_ID: or :ID:, a <<target>> or a #+NAME: (or any
+ * link to one) rewrites the definition and every reference to it in a single
+ * WorkspaceEdit. The files to visit come from the links and anchors in the
+ * database index: the defining file, plus files with id: links or
+ * file-qualified links to it. Open documents are read from their live text,
+ * so unsaved references are renamed too; files the index has not seen since
+ * their last save may be missed.
+ *
+ * `scimax.org.rename.preview` decides when VS Code shows the refactor preview
+ * before applying the edit: by default only when other files change.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDatabase } from '../database/lazyDb';
+import {
+    findDefinitionsOf,
+    renameEditsForContent,
+    renameSymbolAt,
+    resolveLinkFile,
+    resolveReferenceKind,
+    validateRenameName,
+    OrgRenameKind,
+    OrgRenameRequest,
+    OrgRenameSymbol,
+    RENAME_KIND_LABELS,
+} from '../parser/orgRename';
+
+type PreviewMode = 'crossFile' | 'always' | 'never';
+
+const NOT_RENAMEABLE = 'Only a CUSTOM_ID, ID, <<target>> or #+NAME, or a link to one, can be renamed.';
+
+/** Text of a file, from its open document when there is one */
+async function readText(filePath: string): Promise<string | undefined> {
+    const open = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+    if (open) return open.getText();
+    try {
+        return await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * The kind of identifier the symbol names, and the file defining it. A
+ * reference's kind comes from the definition it points at.
+ */
+async function resolveSymbol(
+    document: vscode.TextDocument,
+    symbol: OrgRenameSymbol
+): Promise<{ kind: OrgRenameKind; definitionPath?: string }> {
+    const documentPath = document.uri.fsPath;
+    if (symbol.definition && symbol.kind) {
+        return { kind: symbol.kind, definitionPath: documentPath };
+    }
+    if (symbol.kind === 'id') {
+        const heading = await (await getDatabase())?.getHeadingById(symbol.name);
+        return { kind: 'id', definitionPath: heading?.file_path };
+    }
+
+    const definitionPath = symbol.file ? resolveLinkFile(symbol.file, documentPath) : documentPath;
+    const content = definitionPath === documentPath ? document.getText() : await readText(definitionPath);
+    if (content === undefined) {
+        throw new Error(`Cannot read ${definitionPath}`);
+    }
+    const kind = resolveReferenceKind(symbol, content);
+    if (!kind) {
+        throw new Error(`No CUSTOM_ID, <<target>> or #+NAME "${symbol.name}" in ${path.basename(definitionPath)}.`);
+    }
+    return { kind, definitionPath };
+}
+
+class OrgRenameProvider implements vscode.RenameProvider {
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): { range: vscode.Range; placeholder: string } {
+        const symbol = renameSymbolAt(document.getText(), position.line, position.character);
+        if (!symbol) {
+            throw new Error(NOT_RENAMEABLE);
+        }
+        return {
+            range: new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end),
+            placeholder: symbol.name,
+        };
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | null> {
+        const symbol = renameSymbolAt(document.getText(), position.line, position.character);
+        if (!symbol) {
+            throw new Error(NOT_RENAMEABLE);
+        }
+        if (newName === symbol.name) return null;
+
+        const { kind, definitionPath } = await resolveSymbol(document, symbol);
+        const invalid = validateRenameName(kind, newName);
+        if (invalid) {
+            throw new Error(invalid);
+        }
+
+        const db = await getDatabase();
+        if (kind === 'id') {
+            if (await db?.getHeadingById(newName)) {
+                throw new Error(`ID "${newName}" is already used by another heading.`);
+            }
+        } else if (definitionPath) {
+            const content = await readText(definitionPath);
+            if (content && findDefinitionsOf(content, newName, kind).length > 0) {
+                throw new Error(`${RENAME_KIND_LABELS[kind]} "${newName}" already exists in ${path.basename(definitionPath)}.`);
+            }
+        }
+
+        const documentPath = document.uri.fsPath;
+        const files = new Set<string>([documentPath]);
+        if (definitionPath) files.add(definitionPath);
+        for (const file of await db?.getRenameCandidateFiles(kind, symbol.name) ?? []) {
+            files.add(file);
+        }
+
+        const request: OrgRenameRequest = { kind, oldName: symbol.name, newName, definitionPath };
+        const fileEdits: { uri: vscode.Uri; edits: ReturnType<typeof renameEditsForContent> }[] = [];
+        for (const file of files) {
+            if (token.isCancellationRequested) return null;
+            const content = file === documentPath ? document.getText() : await readText(file);
+            if (content === undefined) continue;
+            const edits = renameEditsForContent(content, request, file);
+            if (edits.length > 0) fileEdits.push({ uri: vscode.Uri.file(file), edits });
+        }
+
+        const mode = vscode.workspace.getConfiguration('scimax.org.rename').get<PreviewMode>('preview', 'crossFile');
+        const crossFile = fileEdits.some(f => f.uri.fsPath !== documentPath);
+        const needsConfirmation = mode === 'always' || (mode === 'crossFile' && crossFile);
+
+        const label = RENAME_KIND_LABELS[kind];
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const { uri, edits } of fileEdits) {
+            for (const edit of edits) {
+                workspaceEdit.replace(
+                    uri,
+                    new vscode.Range(edit.line, edit.start, edit.line, edit.end),
+                    edit.newText,
+                    {
+                        needsConfirmation,
+                        label: edit.role === 'definition' ? `${label} definition` : `References to ${symbol.name}`,
+                    }
+                );
+            }
+        }
+        return workspaceEdit;
+    }
+}
+
+export function registerOrgRenameProvider(context: vscode.ExtensionContext): void {
+    const selector: vscode.DocumentSelector = [{ language: 'org' }, { pattern: '**/*.org' }];
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider(selector, new OrgRenameProvider())
+    );
+}
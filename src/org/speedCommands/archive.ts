@@ -1,111 +1,165 @@
 /**
  * Speed Command Archive Functions
  *
- * Archive subtrees to archive files or sibling headings.
+ * Archive subtrees to archive files or sibling headings. Locations,
+ * ARCHIVE_* context properties and finding old DONE entries are in
+ * parser/orgArchive.
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { getHeadingLevel, getSubtreeRange } from './context';
-import { extractTags, hasTag, toggleTag } from './utils';
-import { DAY_NAMES_SHORT } from '../../utils/dateConstants';
+import { hasTag, toggleTag } from './utils';
+import { getAllTodoStatesForDocument, parseTodoKeywords } from '../todoStates';
+import { findSubtree } from '../../parser/orgRefile';
+import {
+    archiveSubtrees,
+    findArchivableEntries,
+    DEFAULT_ARCHIVE_LOCATION,
+    type ArchiveOptions,
+    type ArchiveResult,
+} from '../../parser/orgArchive';
 
 /**
- * Get the archive file path for a given org file
- * Default: same directory, filename_archive.org
+ * Check if heading has :ARCHIVE: tag
  */
-function getArchiveFilePath(filePath: string): string {
-    const dir = path.dirname(filePath);
-    const ext = path.extname(filePath);
-    const base = path.basename(filePath, ext);
-    return path.join(dir, `${base}_archive${ext}`);
+function hasArchiveTag(line: string): boolean {
+    return hasTag(line, 'ARCHIVE');
+}
+
+function loadArchiveOptions(document: vscode.TextDocument): ArchiveOptions {
+    const config = vscode.workspace.getConfiguration('scimax.org');
+    return {
+        sourceFile: document.uri.fsPath,
+        defaultLocation: config.get<string>('archiveLocation', DEFAULT_ARCHIVE_LOCATION) || DEFAULT_ARCHIVE_LOCATION,
+        todoKeywords: [...getAllTodoStatesForDocument(document)],
+    };
 }
 
 /**
- * Check if heading has :ARCHIVE: tag
+ * Current lines of an archive file: the open buffer if there is one, else
+ * the file on disk, else undefined for a file still to be created
  */
-function hasArchiveTag(line: string): boolean {
-    return hasTag(line, 'ARCHIVE');
+function readArchive(file: string): string[] | undefined {
+    const open = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === file);
+    if (open) return open.getText().split(/\r?\n/);
+    if (!fs.existsSync(file)) return undefined;
+    return fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+}
+
+/**
+ * Move the subtrees at `headings` to their archive locations. Source and
+ * archive files change in one WorkspaceEdit; the archive files are then
+ * saved, as org does, so archived entries never sit in an unsaved buffer.
+ */
+async function archiveHeadings(editor: vscode.TextEditor, headings: number[]): Promise<Set<string> | undefined> {
+    const document = editor.document;
+    const lines = document.getText().split(/\r?\n/);
+
+    let result: ArchiveResult;
+    try {
+        result = archiveSubtrees(lines, headings, readArchive, loadArchiveOptions(document));
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to archive: ${error.message}`);
+        return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const fullRange = (doc: vscode.TextDocument) => new vscode.Range(0, 0, doc.lineCount, 0);
+    edit.replace(document.uri, fullRange(document), result.sourceLines.join('\n'));
+
+    const archiveDocs: vscode.Uri[] = [];
+    for (const [file, archiveLines] of result.archives) {
+        const uri = vscode.Uri.file(file);
+        archiveDocs.push(uri);
+        if (fs.existsSync(file)) {
+            const archiveDoc = await vscode.workspace.openTextDocument(uri);
+            edit.replace(uri, fullRange(archiveDoc), archiveLines.join('\n'));
+        } else {
+            edit.createFile(uri, { ignoreIfExists: true });
+            edit.insert(uri, new vscode.Position(0, 0), archiveLines.join('\n'));
+        }
+    }
+
+    if (!await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showErrorMessage('Failed to archive: the edit could not be applied');
+        return undefined;
+    }
+    for (const uri of archiveDocs) {
+        const archiveDoc = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === uri.fsPath);
+        await archiveDoc?.save();
+    }
+
+    const line = Math.min(Math.min(...headings), document.lineCount - 1);
+    editor.selection = new vscode.Selection(line, 0, line, 0);
+    return new Set(result.archives.size > 0 ? result.archives.keys() : [document.uri.fsPath]);
 }
 
 /**
- * Archive subtree to archive file
+ * Archive subtree to its archive location (org-archive-subtree)
  */
 export async function archiveSubtree(): Promise<void> {
     const editor = vscode.window.activeTextEditor;
     if (!editor) return;
 
     const document = editor.document;
-    const position = editor.selection.active;
+    if (document.languageId !== 'org') {
+        vscode.window.showInformationMessage('Archiving to a file is only available in org files');
+        return;
+    }
 
-    // Find the heading
-    const headingLine = position.line;
-    if (getHeadingLevel(document, headingLine) === 0) {
+    const lines = document.getText().split(/\r?\n/);
+    const span = findSubtree(lines, editor.selection.active.line);
+    if (!span) {
         vscode.window.showInformationMessage('Not on a heading');
         return;
     }
 
-    const { startLine, endLine } = getSubtreeRange(document, headingLine);
-
-    // Get subtree content
-    const subtreeRange = new vscode.Range(startLine, 0, endLine + 1, 0);
-    let subtreeText = document.getText(subtreeRange);
+    const files = await archiveHeadings(editor, [span.start]);
+    if (files) {
+        vscode.window.showInformationMessage(`Archived to ${[...files].map(f => path.basename(f)).join(', ')}`);
+    }
+}
 
-    // Add archive metadata
-    const now = new Date();
-    const timestamp = `[${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${DAY_NAMES_SHORT[now.getDay()]} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}]`;
-    const archiveFile = document.uri.fsPath;
+/**
+ * Archive every DONE subtree of the current file closed at least N days ago
+ */
+export async function archiveDoneEntries(days?: number): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'org') return;
 
-    // Add :ARCHIVE: tag to the heading
-    const headingText = document.lineAt(startLine).text;
-    if (!hasArchiveTag(headingText)) {
-        const { newLine } = toggleTag(headingText, 'ARCHIVE');
-        subtreeText = subtreeText.replace(headingText, newLine);
+    if (days === undefined) {
+        const input = await vscode.window.showInputBox({
+            prompt: 'Archive DONE entries closed at least this many days ago',
+            value: String(vscode.workspace.getConfiguration('scimax.org').get<number>('archiveDoneAfterDays', 30)),
+            validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a number of days',
+        });
+        if (input === undefined) return;
+        days = parseInt(input.trim(), 10);
     }
 
-    // Add ARCHIVE_TIME and ARCHIVE_FILE properties if they don't exist
-    if (!subtreeText.includes(':PROPERTIES:')) {
-        // Insert properties drawer after heading
-        const firstNewline = subtreeText.indexOf('\n');
-        if (firstNewline >= 0) {
-            subtreeText = subtreeText.slice(0, firstNewline + 1) +
-                ':PROPERTIES:\n' +
-                `:ARCHIVE_TIME: ${timestamp}\n` +
-                `:ARCHIVE_FILE: ${archiveFile}\n` +
-                ':END:\n' +
-                subtreeText.slice(firstNewline + 1);
-        }
+    const document = editor.document;
+    const text = document.getText();
+    const doneKeywords = parseTodoKeywords(text)?.doneStates ?? ['DONE', 'CANCELLED', 'CANCELED'];
+    const headings = findArchivableEntries(text.split(/\r?\n/), { olderThanDays: days, doneKeywords });
+    if (headings.length === 0) {
+        vscode.window.showInformationMessage(`No done entries closed more than ${days} days ago`);
+        return;
     }
 
-    // Append to archive file
-    const archivePath = getArchiveFilePath(document.uri.fsPath);
-
-    try {
-        // Create archive file if it doesn't exist
-        let archiveContent = '';
-        if (fs.existsSync(archivePath)) {
-            archiveContent = fs.readFileSync(archivePath, 'utf-8');
-        } else {
-            archiveContent = `#+TITLE: Archive\n#+ARCHIVE: ${path.basename(archivePath)}\n\n`;
-        }
-
-        // Append subtree
-        if (!archiveContent.endsWith('\n')) {
-            archiveContent += '\n';
-        }
-        archiveContent += '\n' + subtreeText;
-
-        fs.writeFileSync(archivePath, archiveContent, 'utf-8');
-
-        // Delete from current file
-        await editor.edit(editBuilder => {
-            editBuilder.delete(subtreeRange);
-        });
+    const choice = await vscode.window.showWarningMessage(
+        `Archive ${headings.length} done ${headings.length === 1 ? 'entry' : 'entries'} closed more than ${days} days ago?`,
+        { modal: true },
+        'Archive'
+    );
+    if (choice !== 'Archive') return;
 
-        vscode.window.showInformationMessage(`Archived to ${path.basename(archivePath)}`);
-    } catch (error: any) {
-        vscode.window.showErrorMessage(`Failed to archive: ${error.message}`);
+    const files = await archiveHeadings(editor, headings);
+    if (files) {
+        vscode.window.showInformationMessage(
+            `Archived ${headings.length} ${headings.length === 1 ? 'entry' : 'entries'} to ${[...files].map(f => path.basename(f)).join(', ')}`
+        );
     }
 }
 
@@ -380,7 +380,9 @@ export function registerSpeedCommands(context: vscode.ExtensionContext): void {
     context.subscriptions.push(
         vscode.commands.registerCommand('scimax.speed.archiveSubtree', archive.archiveSubtree),
         vscode.commands.registerCommand('scimax.speed.toggleArchiveTag', archive.toggleArchiveTag),
-        vscode.commands.registerCommand('scimax.speed.archiveToSibling', archive.archiveToSibling)
+        vscode.commands.registerCommand('scimax.speed.archiveToSibling', archive.archiveToSibling),
+        vscode.commands.registerCommand('scimax.org.archiveSubtree', archive.archiveSubtree),
+        vscode.commands.registerCommand('scimax.org.archiveDoneEntries', (days?: number) => archive.archiveDoneEntries(days))
     );
 
     // Structure commands
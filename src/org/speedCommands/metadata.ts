@@ -8,7 +8,7 @@ import * as vscode from 'vscode';
 import { getHeadingLevel } from './context';
 import { extractTags, formatTags, removeTagsFromLine } from './utils';
 import { getDatabase } from '../../database/lazyDb';
-import { getPropCaseInsensitive } from '../../database/scimaxDbCore';
+import { getPropCaseInsensitive, OUTLINE_FILE_TYPES } from '../../database/scimaxDbCore';
 
 /** Property names offered even when not yet used anywhere. */
 const COMMON_PROPERTIES = [
@@ -65,7 +65,7 @@ async function collectPropertyNames(document: vscode.TextDocument): Promise<stri
     try {
         const db = await getDatabase();
         if (db) {
-            const rows = await db.searchHeadings('', { limit: 2000 });
+            const rows = await db.searchHeadings('', { limit: 2000, fileTypes: OUTLINE_FILE_TYPES });
             for (const h of rows) {
                 try { for (const k of Object.keys(JSON.parse(h.properties || '{}'))) names.add(k); } catch { /* ignore */ }
             }
@@ -10,13 +10,27 @@
  * - Special references: $# (column count), @# (row count), $0, @0 (current)
  * - Named parameters: $name (from $ rows or #+CONSTANTS:)
  * - Remote table references: remote(tablename, @2$3)
- * - Functions: vsum, vmean, vmin, vmax, vcount, etc.
- * - Basic arithmetic: +, -, *, /, ^, %
+ * - Functions: vsum, vmean, vmedian, if, concat, format, date, org-lookup-first, etc.
+ * - Arithmetic, comparisons and logic: +, -, *, /, ^, %, ==, <, &&, ||
+ * - Strings ("..."), dates (<2026-01-05 Mon>) and error values (#DIV/0!)
  * - Duration values: HH:MM:SS with T/U/t format flags
+ *
+ * The expression language itself lives in parser/orgTableFormula.
  */
 
 import * as vscode from 'vscode';
 import { parseRow } from './tableProvider';
+import {
+    evaluateFormula,
+    formulaFields,
+    formulaNames,
+    formulaResult,
+    isFormulaErrorText,
+    parseFormulaExpression,
+    FORMULA_ERROR_DESCRIPTIONS,
+    type FormulaEnv,
+    type FormulaErrorCode,
+} from '../parser/orgTableFormula';
 
 // =============================================================================
 // Types
@@ -80,6 +94,7 @@ export interface EvalContext {
     document: vscode.TextDocument;
     namedTables: Map<string, ParsedTable>;
     constants: Map<string, string>; // Document-level constants from #+CONSTANTS:
+    now?: Date; // Time for now() and today(); defaults to the current time
 }
 
 // =============================================================================
@@ -352,12 +367,21 @@ export function parseFormulas(tblfmContent: string): TableFormula[] {
  */
 function parseFormula(formulaStr: string): TableFormula | null {
     // Match target=expression;format
-    const match = formulaStr.match(/^([^=]+)=(.+?)(?:;(.+))?$/);
+    const match = formulaStr.match(/^([^=]+)=(.+)$/);
     if (!match) {
         return null;
     }
 
-    const [, targetStr, expression, format] = match;
+    const [, targetStr, rest] = match;
+    // The format follows the last ';' outside string literals
+    let split = -1;
+    let inString = false;
+    for (let i = 0; i < rest.length; i++) {
+        if (rest[i] === '"' && rest[i - 1] !== '\\') inString = !inString;
+        else if (rest[i] === ';' && !inString) split = i;
+    }
+    const expression = split >= 0 ? rest.slice(0, split) : rest;
+    const format = split >= 0 ? rest.slice(split + 1) : undefined;
     const target = parseFormulaTarget(targetStr.trim());
 
     if (!target) {
@@ -439,388 +463,72 @@ function parseFormulaTarget(targetStr: string): FormulaTarget | null {
 // =============================================================================
 
 /**
- * Resolve a named reference to its value
- * Checks: table parameters > document constants > column names
+ * Resolve a row descriptor from an expression (number, '>', '<', '0', '+N',
+ * '-N', 'I') to a data row index, relative to the current row
  */
-function resolveNamedReference(name: string, context: EvalContext): string | null {
-    // Check table parameters first (from $ rows)
-    if (context.table.parameters.has(name)) {
-        return context.table.parameters.get(name)!;
-    }
-
-    // Check document constants (from #+CONSTANTS:)
-    if (context.constants.has(name)) {
-        return context.constants.get(name)!;
-    }
-
-    // Check column names - returns column number as string for use in formulas
-    const lowerName = name.toLowerCase();
-    if (context.table.columnNames.has(lowerName)) {
-        // Return the value from the column in the current row
-        const col = context.table.columnNames.get(lowerName)!;
-        return String(getCellValue(context.table, context.currentRow, col));
-    }
-
-    return null;
+function resolveRowInExpr(rowStr: string, table: ParsedTable, currentRow: number): number {
+    if (rowStr === '0') return currentRow;
+    if (/^[+-]\d+$/.test(rowStr)) return currentRow + parseInt(rowStr, 10);
+    if (/^\d+$/.test(rowStr)) return parseInt(rowStr, 10);
+    return resolveRowRef(rowStr, table);
 }
 
 /**
- * Resolve a relative column reference ($+N or $-N) to absolute column number
+ * Raw text of a cell (row is 1-indexed, skipping hlines)
  */
-function resolveRelativeColumn(offset: number, context: EvalContext): number {
-    return context.currentCol + offset;
+function getCellText(table: ParsedTable, row: number, col: number): string {
+    let dataRowIndex = 0;
+    for (const cellRow of table.cells) {
+        if (cellRow[0]?.isHline) continue;
+        dataRowIndex++;
+        if (dataRowIndex === row) {
+            return cellRow.find(c => c.col === col)?.value ?? '';
+        }
+    }
+    return '';
 }
 
 /**
- * Resolve a relative row reference (@+N or @-N) to absolute row number
+ * Formula environment for a table: references resolve against its cells,
+ * and $name against its parameters, the document constants and its column names
  */
-function resolveRelativeRow(offset: number, context: EvalContext): number {
-    return context.currentRow + offset;
+function createFormulaEnv(table: ParsedTable, context: EvalContext, durationMode: boolean): FormulaEnv {
+    return {
+        row: context.currentRow,
+        col: context.currentCol,
+        rowCount: countDataRows(table),
+        columnCount: table.columnCount,
+        dataRowCount: table.dataRowCount,
+        resolveRow: (descriptor) => resolveRowInExpr(descriptor, table, context.currentRow),
+        cellText: (row, col) => getCellText(table, row, col),
+        named: (name) => {
+            if (table.parameters.has(name)) return table.parameters.get(name);
+            if (context.constants.has(name)) return context.constants.get(name);
+            const col = table.columnNames.get(name.toLowerCase());
+            return col !== undefined ? getCellText(table, context.currentRow, col) : undefined;
+        },
+        remote: (name) => {
+            const remoteTable = context.namedTables.get(name);
+            return remoteTable ? createFormulaEnv(remoteTable, context, durationMode) : undefined;
+        },
+        now: context.now ?? new Date(),
+        durationMode,
+    };
 }
 
 /**
- * Evaluate a formula expression
+ * Evaluate a formula expression (see parser/orgTableFormula for the language).
+ * Numbers are returned as numbers for formatting; everything else, including
+ * error values like #DIV/0!, as the text to put in the cell.
  */
 export function evaluateExpression(
     expression: string,
     context: EvalContext,
     formatFlags?: string
 ): number | string {
-    try {
-        // Replace cell references with values
-        let evalExpr = expression;
-
-        // Check if we need duration mode (T, U, t flags)
-        const durationMode = !!(formatFlags && /[TUt]/.test(formatFlags));
-
-        // Replace range functions first (with duration support)
-        evalExpr = evalExpr.replace(
-            /v(sum|mean|min|max|count|prod)\(([^)]+)\)/gi,
-            (_, func, rangeExpr) => {
-                const values = resolveRange(rangeExpr.trim(), context, durationMode);
-                const nums = values.map(v => {
-                    if (durationMode && isDuration(v)) {
-                        return parseDuration(v) ?? 0;
-                    }
-                    return parseFloat(v);
-                }).filter(n => !isNaN(n));
-                return String(evaluateFunction(func.toLowerCase(), nums));
-            }
-        );
-
-        // Replace remote references
-        evalExpr = evalExpr.replace(
-            /remote\(([^,]+),\s*([^)]+)\)/gi,
-            (_, tableName, cellRef) => {
-                const remoteTable = context.namedTables.get(tableName.trim());
-                if (!remoteTable) {
-                    return '0';
-                }
-                const remoteContext: EvalContext = {
-                    ...context,
-                    table: remoteTable,
-                };
-                return String(resolveCellRef(cellRef.trim(), remoteContext, durationMode));
-            }
-        );
-
-        // Replace @0$0 (current cell) first
-        evalExpr = evalExpr.replace(
-            /@0\$0/g,
-            () => {
-                return String(getCellValueForEval(
-                    context.table,
-                    context.currentRow,
-                    context.currentCol,
-                    durationMode
-                ));
-            }
-        );
-
-        // Replace @0$C (current row, specific column)
-        evalExpr = evalExpr.replace(
-            /@0\$(\d+)/g,
-            (_, col) => {
-                return String(getCellValueForEval(
-                    context.table,
-                    context.currentRow,
-                    parseInt(col, 10),
-                    durationMode
-                ));
-            }
-        );
-
-        // Replace @R$0 (specific row, current column)
-        evalExpr = evalExpr.replace(
-            /@([><]|[+-]?\d+)\$0/g,
-            (_, rowRef) => {
-                const row = resolveRowRefInExpr(rowRef, context.table, context.currentRow);
-                return String(getCellValueForEval(
-                    context.table,
-                    row,
-                    context.currentCol,
-                    durationMode
-                ));
-            }
-        );
-
-        // Replace field references @R$C (R can be >, <, 0, +N, -N, or number)
-        // Also support relative columns $+N, $-N
-        evalExpr = evalExpr.replace(
-            /@([><]|[+-]?\d+)\$([+-]?\d+)/g,
-            (_, rowRef, colRef) => {
-                const row = resolveRowRefInExpr(rowRef, context.table, context.currentRow);
-                let col: number;
-                if (colRef.startsWith('+') || colRef.startsWith('-')) {
-                    col = resolveRelativeColumn(parseInt(colRef, 10), context);
-                } else {
-                    col = parseInt(colRef, 10);
-                }
-                return String(getCellValueForEval(
-                    context.table,
-                    row,
-                    col,
-                    durationMode
-                ));
-            }
-        );
-
-        // Replace relative column references $+N or $-N with current row
-        evalExpr = evalExpr.replace(
-            /\$([+-]\d+)/g,
-            (_, offset) => {
-                const col = resolveRelativeColumn(parseInt(offset, 10), context);
-                return String(getCellValueForEval(
-                    context.table,
-                    context.currentRow,
-                    col,
-                    durationMode
-                ));
-            }
-        );
-
-        // Replace named references $name (must come before $N to avoid conflicts)
-        evalExpr = evalExpr.replace(
-            /\$([a-zA-Z_][a-zA-Z0-9_]*)/g,
-            (match, name) => {
-                const value = resolveNamedReference(name, context);
-                if (value !== null) {
-                    // If duration mode and value is duration, convert to seconds
-                    if (durationMode && isDuration(value)) {
-                        return String(parseDuration(value) ?? 0);
-                    }
-                    const num = parseFloat(value);
-                    return isNaN(num) ? value : String(num);
-                }
-                return match; // Keep original if not found
-            }
-        );
-
-        // Replace absolute column references $C with current row
-        evalExpr = evalExpr.replace(
-            /\$(\d+)/g,
-            (_, col) => {
-                return String(getCellValueForEval(
-                    context.table,
-                    context.currentRow,
-                    parseInt(col, 10),
-                    durationMode
-                ));
-            }
-        );
-
-        // Replace special references
-        evalExpr = evalExpr.replace(/@#/g, String(context.table.dataRowCount));
-        evalExpr = evalExpr.replace(/\$#/g, String(context.table.columnCount));
-        evalExpr = evalExpr.replace(/@>/g, String(context.table.dataRowCount));
-        evalExpr = evalExpr.replace(/@</g, '1');
-        evalExpr = evalExpr.replace(/\$>/g, String(context.table.columnCount));
-        evalExpr = evalExpr.replace(/\$</g, '1');
-        // Replace @0 and $0 that might remain
-        evalExpr = evalExpr.replace(/@0/g, String(context.currentRow));
-        evalExpr = evalExpr.replace(/\$0/g, String(context.currentCol));
-
-        // Handle power operator (^ -> **)
-        evalExpr = evalExpr.replace(/\^/g, '**');
-
-        // Evaluate the expression safely
-        return safeEval(evalExpr);
-    } catch (error) {
-        return `#ERROR: ${error}`;
-    }
-}
-
-/**
- * Get cell value for evaluation, with optional duration conversion
- */
-function getCellValueForEval(
-    table: ParsedTable,
-    row: number,
-    col: number,
-    durationMode?: boolean
-): number | string {
-    const value = getCellValue(table, row, col);
-    if (durationMode && typeof value === 'string' && isDuration(value)) {
-        return parseDuration(value) ?? 0;
-    }
-    return value;
-}
-
-/**
- * Count total data rows (excluding hlines) in the table
- */
-function countDataRows(table: ParsedTable): number {
-    let count = 0;
-    for (const row of table.cells) {
-        if (row.length > 0 && !row[0].isHline) {
-            count++;
-        }
-    }
-    return count;
-}
-
-/**
- * Resolve a row reference string to data row index (1-indexed, skipping hlines)
- * This matches org-mode's row numbering where @1 is first data row, @2 is second, etc.
- * @param rowStr - Row reference string: number, '>', '<', '0', '+N', '-N'
- * @param table - The parsed table
- * @param currentRow - Current row for @0 and relative references
- */
-function resolveRowRefInExpr(rowStr: string, table: ParsedTable, currentRow?: number): number {
-    if (rowStr === '>') {
-        // @> means last data row
-        return countDataRows(table);
-    }
-    if (rowStr === '<') {
-        // @< means first data row
-        return 1;
-    }
-    if (rowStr === '0') {
-        // @0 means current row
-        return currentRow ?? 1;
-    }
-    // Handle @+N (relative forward from current row)
-    const forwardMatch = rowStr.match(/^\+(\d+)$/);
-    if (forwardMatch) {
-        const offset = parseInt(forwardMatch[1], 10);
-        return (currentRow ?? 1) + offset;
-    }
-    // Handle @-N (relative backward from current row or last data row if no current)
-    const backMatch = rowStr.match(/^-(\d+)$/);
-    if (backMatch) {
-        const offset = parseInt(backMatch[1], 10);
-        if (currentRow !== undefined) {
-            // Relative to current row
-            return currentRow - offset;
-        }
-        // Fallback: relative to last data row (org-mode behavior for TBLFM)
-        const lastDataRow = countDataRows(table);
-        return lastDataRow - offset;
-    }
-    return parseInt(rowStr, 10);
-}
-
-/**
- * Resolve a range reference to array of values
- * @param durationMode - If true, keep duration strings as-is for later parsing
- */
-function resolveRange(rangeExpr: string, context: EvalContext, durationMode?: boolean): string[] {
-    const values: string[] = [];
-
-    // Parse range with special row refs @R1$C1..@R2$C2 where R can be >, <, 0, +N, -N, or number
-    const rangeMatch = rangeExpr.match(/@([><0]|[+-]?\d+)\$([+-]?\d+)\.\.@([><0]|[+-]?\d+)\$([+-]?\d+)/);
-    if (rangeMatch) {
-        const startRow = resolveRowRefInExpr(rangeMatch[1], context.table, context.currentRow);
-        const startCol = rangeMatch[2].match(/^[+-]/)
-            ? context.currentCol + parseInt(rangeMatch[2], 10)
-            : parseInt(rangeMatch[2], 10);
-        const endRow = resolveRowRefInExpr(rangeMatch[3], context.table, context.currentRow);
-        const endCol = rangeMatch[4].match(/^[+-]/)
-            ? context.currentCol + parseInt(rangeMatch[4], 10)
-            : parseInt(rangeMatch[4], 10);
-
-        for (let r = startRow; r <= endRow; r++) {
-            for (let c = startCol; c <= endCol; c++) {
-                const val = getCellValue(context.table, r, c);
-                values.push(String(val));
-            }
-        }
-        return values;
-    }
-
-    // Parse column range $C1..$C2 (current row, columns C1 to C2)
-    // Also supports relative columns: $+1..$+3 or $1..$+2
-    const colRangeMatch = rangeExpr.match(/\$([+-]?\d+)\.\.\$([+-]?\d+)/);
-    if (colRangeMatch) {
-        const startCol = colRangeMatch[1].match(/^[+-]/)
-            ? context.currentCol + parseInt(colRangeMatch[1], 10)
-            : parseInt(colRangeMatch[1], 10);
-        const endCol = colRangeMatch[2].match(/^[+-]/)
-            ? context.currentCol + parseInt(colRangeMatch[2], 10)
-            : parseInt(colRangeMatch[2], 10);
-
-        // Use the current row from context (set by applyFormulas)
-        const row = context.currentRow;
-        for (let c = startCol; c <= endCol; c++) {
-            const val = getCellValue(context.table, row, c);
-            values.push(String(val));
-        }
-        return values;
-    }
-
-    // Parse single column $C (all data rows)
-    const colMatch = rangeExpr.match(/^\$(\d+)$/);
-    if (colMatch) {
-        const col = parseInt(colMatch[1], 10);
-        for (let r = 1; r <= context.table.dataRowCount; r++) {
-            const val = getCellValue(context.table, r, col);
-            values.push(String(val));
-        }
-        return values;
-    }
-
-    // Parse row range @R$C1..@R$C2 (same row, different columns) - supports special row refs
-    const rowRangeMatch = rangeExpr.match(/@([><0]|[+-]?\d+)\$([+-]?\d+)\.\.@([><0]|[+-]?\d+)\$([+-]?\d+)/);
-    if (rowRangeMatch) {
-        const row = resolveRowRefInExpr(rowRangeMatch[1], context.table, context.currentRow);
-        const startCol = rowRangeMatch[2].match(/^[+-]/)
-            ? context.currentCol + parseInt(rowRangeMatch[2], 10)
-            : parseInt(rowRangeMatch[2], 10);
-        const endCol = rowRangeMatch[4].match(/^[+-]/)
-            ? context.currentCol + parseInt(rowRangeMatch[4], 10)
-            : parseInt(rowRangeMatch[4], 10);
-
-        for (let c = startCol; c <= endCol; c++) {
-            const val = getCellValue(context.table, row, c);
-            values.push(String(val));
-        }
-        return values;
-    }
-
-    return values;
-}
-
-/**
- * Resolve a single cell reference
- * @param durationMode - If true and value is duration, return seconds as number
- */
-function resolveCellRef(cellRef: string, context: EvalContext, durationMode?: boolean): number | string {
-    // Handle @0$0 (current cell)
-    if (cellRef === '@0$0') {
-        return getCellValueForEval(context.table, context.currentRow, context.currentCol, durationMode);
-    }
-
-    // Handle special row refs like @>$2, @<$2, @0$2, @+1$2, @-1$2
-    // Also supports relative columns: @2$+1, @2$-1
-    const match = cellRef.match(/@([><0]|[+-]?\d+)\$([+-]?\d+)/);
-    if (match) {
-        const row = resolveRowRefInExpr(match[1], context.table, context.currentRow);
-        const col = match[2].match(/^[+-]/)
-            ? context.currentCol + parseInt(match[2], 10)
-            : parseInt(match[2], 10);
-        return getCellValueForEval(context.table, row, col, durationMode);
-    }
-    return 0;
+    // Duration mode (T, U, t flags) reads HH:MM[:SS] cells as seconds
+    const durationMode = !!(formatFlags && /[TUt]/.test(formatFlags));
+    return formulaResult(evaluateFormula(expression, createFormulaEnv(context.table, context, durationMode)));
 }
 
 /**
@@ -858,212 +566,16 @@ function getCellValue(table: ParsedTable, row: number, col: number): number | st
 }
 
 /**
- * Evaluate spreadsheet functions
- */
-function evaluateFunction(func: string, values: number[]): number {
-    if (values.length === 0) {
-        return 0;
-    }
-
-    switch (func) {
-        case 'sum':
-        case 'vsum':
-            return values.reduce((a, b) => a + b, 0);
-
-        case 'mean':
-        case 'vmean':
-            return values.reduce((a, b) => a + b, 0) / values.length;
-
-        case 'min':
-        case 'vmin':
-            return Math.min(...values);
-
-        case 'max':
-        case 'vmax':
-            return Math.max(...values);
-
-        case 'count':
-        case 'vcount':
-            return values.length;
-
-        case 'prod':
-        case 'vprod':
-            return values.reduce((a, b) => a * b, 1);
-
-        case 'sdev':
-            const mean = values.reduce((a, b) => a + b, 0) / values.length;
-            const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-            return Math.sqrt(variance);
-
-        default:
-            return 0;
-    }
-}
-
-/**
- * Safe expression evaluator (no eval())
+ * Count total data rows (excluding hlines) in the table
  */
-function safeEval(expr: string): number {
-    // Tokenize
-    const tokens = tokenize(expr);
-
-    // Parse and evaluate
-    return parseExpression(tokens, 0).value;
-}
-
-interface Token {
-    type: 'number' | 'operator' | 'paren';
-    value: string | number;
-}
-
-function tokenize(expr: string): Token[] {
-    const tokens: Token[] = [];
-    let i = 0;
-
-    while (i < expr.length) {
-        const ch = expr[i];
-
-        if (/\s/.test(ch)) {
-            i++;
-            continue;
-        }
-
-        if (/[\d.]/.test(ch)) {
-            let num = '';
-            // Read digits, decimal point, and scientific notation (but not minus - that's an operator)
-            while (i < expr.length && /[\d.eE]/.test(expr[i])) {
-                num += expr[i];
-                i++;
-                // Handle the exponent sign (e.g., 1e-5)
-                if ((expr[i - 1] === 'e' || expr[i - 1] === 'E') && (expr[i] === '+' || expr[i] === '-')) {
-                    num += expr[i];
-                    i++;
-                }
-            }
-            tokens.push({ type: 'number', value: parseFloat(num) });
-            continue;
-        }
-
-        // Check for ** (power) operator BEFORE single *
-        if (ch === '*' && expr[i + 1] === '*') {
-            tokens.push({ type: 'operator', value: '**' });
-            i += 2;
-            continue;
-        }
-
-        if ('+-*/%'.includes(ch)) {
-            // Handle unary minus
-            if (ch === '-' && (tokens.length === 0 || tokens[tokens.length - 1].type === 'operator' || tokens[tokens.length - 1].value === '(')) {
-                let num = '-';
-                i++;
-                while (i < expr.length && /[\d.eE]/.test(expr[i])) {
-                    num += expr[i];
-                    i++;
-                }
-                tokens.push({ type: 'number', value: parseFloat(num) });
-                continue;
-            }
-            tokens.push({ type: 'operator', value: ch });
-            i++;
-            continue;
-        }
-
-        if ('()'.includes(ch)) {
-            tokens.push({ type: 'paren', value: ch });
-            i++;
-            continue;
-        }
-
-        i++;
-    }
-
-    return tokens;
-}
-
-interface ParseResult {
-    value: number;
-    pos: number;
-}
-
-function parseExpression(tokens: Token[], pos: number): ParseResult {
-    const result = parseTerm(tokens, pos);
-
-    while (result.pos < tokens.length) {
-        const token = tokens[result.pos];
-        if (token.type === 'operator' && (token.value === '+' || token.value === '-')) {
-            const right = parseTerm(tokens, result.pos + 1);
-            if (token.value === '+') {
-                result.value += right.value;
-            } else {
-                result.value -= right.value;
-            }
-            result.pos = right.pos;
-        } else {
-            break;
-        }
-    }
-
-    return result;
-}
-
-function parseTerm(tokens: Token[], pos: number): ParseResult {
-    const result = parsePower(tokens, pos);
-
-    while (result.pos < tokens.length) {
-        const token = tokens[result.pos];
-        if (token.type === 'operator' && (token.value === '*' || token.value === '/' || token.value === '%')) {
-            const right = parsePower(tokens, result.pos + 1);
-            if (token.value === '*') {
-                result.value *= right.value;
-            } else if (token.value === '/') {
-                result.value /= right.value;
-            } else {
-                result.value %= right.value;
-            }
-            result.pos = right.pos;
-        } else {
-            break;
-        }
-    }
-
-    return result;
-}
-
-function parsePower(tokens: Token[], pos: number): ParseResult {
-    const result = parseFactor(tokens, pos);
-
-    if (result.pos < tokens.length) {
-        const token = tokens[result.pos];
-        if (token.type === 'operator' && token.value === '**') {
-            const right = parsePower(tokens, result.pos + 1);
-            result.value = Math.pow(result.value, right.value);
-            result.pos = right.pos;
-        }
-    }
-
-    return result;
-}
-
-function parseFactor(tokens: Token[], pos: number): ParseResult {
-    if (pos >= tokens.length) {
-        return { value: 0, pos };
-    }
-
-    const token = tokens[pos];
-
-    if (token.type === 'number') {
-        return { value: token.value as number, pos: pos + 1 };
-    }
-
-    if (token.type === 'paren' && token.value === '(') {
-        const result = parseExpression(tokens, pos + 1);
-        if (result.pos < tokens.length && tokens[result.pos].value === ')') {
-            result.pos++;
+function countDataRows(table: ParsedTable): number {
+    let count = 0;
+    for (const row of table.cells) {
+        if (row.length > 0 && !row[0].isHline) {
+            count++;
         }
-        return result;
     }
-
-    return { value: 0, pos: pos + 1 };
+    return count;
 }
 
 // =============================================================================
@@ -1586,18 +1098,55 @@ Header row names can be used: \`$Price\`, \`$Quantity\`
 - Tables named with \`#+NAME: tablename\`
 
 ## Functions
-- \`vsum(range)\` - Sum of values
-- \`vmean(range)\` - Average of values
-- \`vmin(range)\` - Minimum value
-- \`vmax(range)\` - Maximum value
-- \`vcount(range)\` - Count of values
-- \`vprod(range)\` - Product of values
-- \`sdev(range)\` - Standard deviation
+
+### Vectors (ranges, or a whole column as \`$2\`)
+- \`vsum\`, \`vmean\`, \`vmin\`, \`vmax\`, \`vcount\`, \`vprod\`
+- \`vmedian(range)\` - Median
+- \`vpercentile(range, p)\` - Percentile p (0-100)
+- \`sdev(range)\` - Population standard deviation; \`vsdev\`, \`vvar\` - Sample
+
+### Conditionals and Logic
+- \`if(cond, then, else)\` - Only the branch taken is evaluated
+- \`and(...)\`, \`or(...)\`, \`not(x)\`, \`isblank(x)\`
+- \`iferror(x, fallback)\`, \`iserror(x)\`
+
+### Numbers
+- \`abs\`, \`round(x, digits)\`, \`floor\`, \`ceil\`, \`sqrt\`, \`exp\`, \`ln\`, \`log10\`
+
+### Strings
+- \`"text"\` - String literal
+- \`concat(a, b, ...)\` - Join values as text
+- \`format("%.1f kg", x)\` - printf-style formatting
+- \`upper\`, \`lower\`, \`trim\`, \`len\`, \`substr(s, start, length)\`, \`string\`, \`number\`
+
+### Dates
+- \`<2026-01-05 Mon>\` - Timestamp literal
+- \`date(x)\` - Parse a timestamp in a cell
+- \`now()\`, \`today()\`, \`year(d)\`, \`month(d)\`, \`day(d)\`
+- Subtracting dates gives days; date + number adds days
+
+### Lookups
+- \`org-lookup-first(value, search-range, result-range)\` - First match
+- \`org-lookup-last(...)\`, \`org-lookup-all(...)\` - Last match, all matches
+- An optional fourth argument compares with another operator, e.g. \`"<="\`
 
 ## Operators
 - \`+\`, \`-\`, \`*\`, \`/\` - Basic arithmetic
 - \`^\` or \`**\` - Power
 - \`%\` - Modulo
+- \`==\`, \`!=\`, \`<\`, \`<=\`, \`>\`, \`>=\` - Comparisons (1 or 0)
+- \`&&\`, \`||\`, \`!\` - Logic
+
+## Error Values
+- \`#DIV/0!\` - Division by zero
+- \`#VALUE!\` - Wrong type, e.g. text in arithmetic
+- \`#REF!\` - Reference outside the table or unknown remote table
+- \`#NAME?\` - Unknown function or name
+- \`#N/A\` - Lookup found nothing, or statistic of an empty range
+- \`#NUM!\` - Invalid number, e.g. sqrt(-1)
+- \`#ERROR!\` - Formula could not be parsed
+
+Errors propagate: a formula using an error cell gives that error.
 
 ## Format Specifiers
 
@@ -1625,6 +1174,11 @@ Header row names can be used: \`$Price\`, \`$Quantity\`
 ### Using Parameters
 - \`$4=$2*$rate\` - Use table parameter
 - \`$3=$1*$tax\` - Use document constant
+
+### Conditions, Dates and Lookups
+- \`$4=if($3 >= 50, "pass", "fail")\`
+- \`$3=date($2) - today()\` - Days until the date in column 2
+- \`$3=org-lookup-first($1, remote(prices, @2$1..@>$1), remote(prices, @2$2..@>$2))\`
 `;
             const doc = { content: helpText, language: 'markdown' };
             vscode.workspace.openTextDocument(doc).then(d => vscode.window.showTextDocument(d));
@@ -1688,6 +1242,11 @@ const formulaLineDecorationType = vscode.window.createTextEditorDecorationType({
     backgroundColor: 'rgba(255, 200, 100, 0.15)',
 });
 
+const formulaErrorDecorationType = vscode.window.createTextEditorDecorationType({
+    backgroundColor: 'rgba(255, 80, 80, 0.2)',
+    border: '1px solid rgba(255, 80, 80, 0.6)',
+});
+
 /**
  * Update formula highlighting for the current editor
  */
@@ -1709,16 +1268,27 @@ function updateFormulaHighlighting(editor: vscode.TextEditor): void {
     const targetDecorations: vscode.DecorationOptions[] = [];
     const sourceDecorations: vscode.DecorationOptions[] = [];
     const tblfmDecorations: vscode.DecorationOptions[] = [];
+    const errorDecorations: vscode.DecorationOptions[] = [];
 
-    // Highlight the TBLFM line
+    // Highlight the TBLFM line, with any formulas that do not parse
     if (table.tblfmLine !== undefined) {
         const tblfmLineText = document.lineAt(table.tblfmLine).text;
+        const problems: string[] = [];
+        for (const formula of table.formulas) {
+            try {
+                parseFormulaExpression(formula.expression);
+            } catch (error) {
+                problems.push(`\`${formula.raw}\`: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
         tblfmDecorations.push({
             range: new vscode.Range(table.tblfmLine, 0, table.tblfmLine, tblfmLineText.length),
+            hoverMessage: problems.length > 0 ? new vscode.MarkdownString(`**#ERROR!** ${problems.join('  \n')}`) : undefined,
         });
     }
 
     // For each formula, highlight targets and sources
+    const sourceKeys = new Set<string>();
     for (const formula of table.formulas) {
         // Find target cells
         const targetCells = getFormulaCells(formula.target, table);
@@ -1733,8 +1303,11 @@ function updateFormulaHighlighting(editor: vscode.TextEditor): void {
         }
 
         // Find source cells referenced in the expression
-        const sourceCells = extractReferencedCells(formula.expression, table);
+        const sourceCells = extractReferencedCells(document, formula.expression, table, targetCells);
         for (const cell of sourceCells) {
+            const key = `${cell.row},${cell.col}`;
+            if (sourceKeys.has(key)) continue;
+            sourceKeys.add(key);
             const range = getCellRange(document, table, cell.row, cell.col);
             if (range) {
                 sourceDecorations.push({
@@ -1745,9 +1318,28 @@ function updateFormulaHighlighting(editor: vscode.TextEditor): void {
         }
     }
 
+    // Error values in cells, with what they mean
+    let dataRow = 0;
+    for (const row of table.cells) {
+        if (row[0]?.isHline) continue;
+        dataRow++;
+        for (const cell of row) {
+            const value = cell.value.trim();
+            if (!isFormulaErrorText(value)) continue;
+            const range = getCellRange(document, table, dataRow, cell.col);
+            if (range) {
+                errorDecorations.push({
+                    range,
+                    hoverMessage: `${value}: ${FORMULA_ERROR_DESCRIPTIONS[value as FormulaErrorCode]}`,
+                });
+            }
+        }
+    }
+
     editor.setDecorations(formulaTargetDecorationType, targetDecorations);
     editor.setDecorations(formulaSourceDecorationType, sourceDecorations);
     editor.setDecorations(formulaLineDecorationType, tblfmDecorations);
+    editor.setDecorations(formulaErrorDecorationType, errorDecorations);
 }
 
 /**
@@ -1757,6 +1349,7 @@ function clearFormulaHighlighting(editor: vscode.TextEditor): void {
     editor.setDecorations(formulaTargetDecorationType, []);
     editor.setDecorations(formulaSourceDecorationType, []);
     editor.setDecorations(formulaLineDecorationType, []);
+    editor.setDecorations(formulaErrorDecorationType, []);
 }
 
 /**
@@ -1799,39 +1392,51 @@ function getFormulaCells(target: FormulaTarget, table: ParsedTable): Array<{row:
 }
 
 /**
- * Extract all cell references from a formula expression
+ * Extract the cells a formula reads when computing its target cells,
+ * including columns referenced by header name
  */
-function extractReferencedCells(expression: string, table: ParsedTable): Array<{row: number, col: number}> {
+function extractReferencedCells(
+    document: vscode.TextDocument,
+    expression: string,
+    table: ParsedTable,
+    targets: Array<{row: number, col: number}>
+): Array<{row: number, col: number}> {
+    let node;
+    try {
+        node = parseFormulaExpression(expression);
+    } catch {
+        return [];
+    }
+
     const cells: Array<{row: number, col: number}> = [];
     const seen = new Set<string>();
-
-    // Match @R$C references
-    const fieldMatches = expression.matchAll(/@([><0]|[+-]?\d+)\$([+-]?\d+)/g);
-    for (const match of fieldMatches) {
-        const row = resolveRowRefInExpr(match[1], table);
-        const col = parseInt(match[2], 10);
+    const add = (row: number, col: number) => {
         const key = `${row},${col}`;
-        if (!seen.has(key) && row > 0 && col > 0) {
+        if (!seen.has(key)) {
             seen.add(key);
             cells.push({ row, col });
         }
-    }
+    };
 
-    // Match range references for expanding
-    const rangeMatches = expression.matchAll(/@([><0]|[+-]?\d+)\$(\d+)\.\.@([><0]|[+-]?\d+)\$(\d+)/g);
-    for (const match of rangeMatches) {
-        const startRow = resolveRowRefInExpr(match[1], table);
-        const startCol = parseInt(match[2], 10);
-        const endRow = resolveRowRefInExpr(match[3], table);
-        const endCol = parseInt(match[4], 10);
-        for (let r = startRow; r <= endRow; r++) {
-            for (let c = startCol; c <= endCol; c++) {
-                const key = `${r},${c}`;
-                if (!seen.has(key) && r > 0 && c > 0) {
-                    seen.add(key);
-                    cells.push({ row: r, col: c });
-                }
-            }
+    const nameColumns = formulaNames(node)
+        .filter(name => !table.parameters.has(name))
+        .map(name => table.columnNames.get(name.toLowerCase()))
+        .filter((col): col is number => col !== undefined);
+
+    for (const target of targets) {
+        const context: EvalContext = {
+            table,
+            currentRow: target.row,
+            currentCol: target.col,
+            document,
+            namedTables: new Map(),
+            constants: new Map(),
+        };
+        for (const cell of formulaFields(node, createFormulaEnv(table, context, false))) {
+            add(cell.row, cell.col);
+        }
+        for (const col of nameColumns) {
+            add(target.row, col);
         }
     }
 
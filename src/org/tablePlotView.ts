@@ -0,0 +1,248 @@
+/**
+ * Interactive table plots
+ *
+ * `scimax.table.plot` (C-c " g) charts the table at the cursor in a webview
+ * beside the editor, using the table's `#+PLOT:` options (see
+ * parser/orgPlot). Hovering a mark shows its value and clicking a legend
+ * entry hides or shows the series. The chart follows edits to the table,
+ * and can be saved as SVG or PNG; the PNG is rasterized in the webview, so
+ * it needs no SVG converter.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findTablePlotAt, renderTablePlot, type TablePlot } from '../parser/orgPlot';
+
+class TablePlotPanel {
+    private panel: vscode.WebviewPanel | undefined;
+    private document: vscode.TextDocument | undefined;
+    /** 0-based line in the table shown, kept in step with edits above it */
+    private line = 0;
+    private plot: TablePlot | undefined;
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (!this.panel || event.document !== this.document) return;
+                for (const change of event.contentChanges) {
+                    if (change.range.end.line < this.line) {
+                        const added = change.text.split('\n').length - 1;
+                        this.line += added - (change.range.end.line - change.range.start.line);
+                    }
+                }
+                this.scheduleRefresh();
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document === this.document) this.panel?.dispose();
+            })
+        );
+    }
+
+    show(document: vscode.TextDocument, line: number): void {
+        this.document = document;
+        this.line = line;
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'scimaxTablePlot',
+                'Table Plot',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true }
+            );
+            this.panel.webview.onDidReceiveMessage(m => this.onMessage(m), undefined, this.context.subscriptions);
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.document = undefined;
+                this.plot = undefined;
+                if (this.refreshTimer) clearTimeout(this.refreshTimer);
+            });
+        }
+        this.update();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.update(), 300);
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        if (message?.type === 'saveSvg' && typeof message.svg === 'string') {
+            await this.save('svg', Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>\n${message.svg}\n`, 'utf-8'));
+        } else if (message?.type === 'savePng' && typeof message.data === 'string') {
+            const base64 = message.data.replace(/^data:image\/png;base64,/, '');
+            await this.save('png', Buffer.from(base64, 'base64'));
+        } else if (message?.type === 'error') {
+            vscode.window.showErrorMessage(`Table plot: ${String(message.message)}`);
+        }
+    }
+
+    /**
+     * Ask where to save, starting from the plot's `file:` (with the
+     * extension of the chosen format) or a name next to the org file
+     */
+    private async save(format: 'svg' | 'png', data: Buffer): Promise<void> {
+        const document = this.document;
+        if (!document) return;
+
+        const dir = document.isUntitled
+            ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? ''
+            : path.dirname(document.uri.fsPath);
+        const file = this.plot?.options.file;
+        const name = file
+            ? file.replace(/\.[^./\\]*$/, '') + '.' + format
+            : `${path.basename(document.uri.fsPath, path.extname(document.uri.fsPath))}-plot.${format}`;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.resolve(dir, name)),
+            filters: format === 'svg' ? { 'SVG image': ['svg'] } : { 'PNG image': ['png'] },
+        });
+        if (!target) return;
+
+        await vscode.workspace.fs.writeFile(target, data);
+        vscode.window.showInformationMessage(`Saved plot to ${vscode.workspace.asRelativePath(target)}`);
+    }
+
+    private update(): void {
+        if (!this.panel || !this.document) return;
+        const plot = findTablePlotAt(this.document.getText(), this.line);
+        this.plot = plot;
+        this.panel.title = plot?.options.title ? `Plot: ${plot.options.title}` : 'Table Plot';
+        this.panel.webview.html = this.getHtml(plot);
+    }
+
+    private getHtml(plot: TablePlot | undefined): string {
+        const body = plot
+            ? renderTablePlot(plot.rows, plot.options)
+            : '<p class="empty">The table is no longer there. Run the plot command on a table again.</p>';
+        const hint = plot && plot.plotLine === undefined
+            ? '<span class="hint">No #+PLOT: line above the table; using the defaults.</span>'
+            : '';
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; script-src 'unsafe-inline'; style-src 'unsafe-inline';">
+<style>
+  body { font-family: var(--vscode-font-family, sans-serif); color: var(--vscode-editor-foreground); padding: 12px; }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 12px; }
+  button { font: inherit; color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  button:disabled { opacity: 0.5; cursor: default; }
+  .hint, .empty { color: var(--vscode-descriptionForeground); }
+  svg { max-width: 100%; height: auto; border-radius: 4px; }
+  .legend-item { cursor: pointer; }
+  .legend-item.off { opacity: 0.35; }
+  .plot-series.off { display: none; }
+  .plot-series.dim { opacity: 0.25; }
+  #tooltip { position: fixed; pointer-events: none; display: none; padding: 3px 6px; font-size: 12px;
+    background: var(--vscode-editorHoverWidget-background); color: var(--vscode-editorHoverWidget-foreground);
+    border: 1px solid var(--vscode-editorHoverWidget-border); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <button id="save-svg"${plot ? '' : ' disabled'}>Save SVG</button>
+  <button id="save-png"${plot ? '' : ' disabled'}>Save PNG</button>
+  ${hint}
+</div>
+${body}
+<div id="tooltip"></div>
+<script>
+  const vscode = acquireVsCodeApi();
+  const svg = document.querySelector('svg.org-plot-svg');
+  const tooltip = document.getElementById('tooltip');
+  const series = k => document.querySelectorAll('.plot-series[data-series="' + k + '"]');
+
+  // Tooltips from each mark's <title>, which webviews do not show on their own
+  document.querySelectorAll('.plot-series > *').forEach(mark => {
+    const title = mark.querySelector('title');
+    if (!title) return;
+    mark.dataset.tip = title.textContent;
+    title.remove();
+    mark.addEventListener('mousemove', e => {
+      tooltip.textContent = mark.dataset.tip;
+      tooltip.style.display = 'block';
+      tooltip.style.left = (e.clientX + 12) + 'px';
+      tooltip.style.top = (e.clientY + 12) + 'px';
+    });
+    mark.addEventListener('mouseleave', () => { tooltip.style.display = 'none'; });
+  });
+
+  // Legend: click to hide or show a series, hover to bring it forward
+  document.querySelectorAll('.legend-item').forEach(item => {
+    const k = item.dataset.series;
+    item.addEventListener('click', () => {
+      item.classList.toggle('off');
+      series(k).forEach(g => g.classList.toggle('off'));
+    });
+    item.addEventListener('mouseenter', () => {
+      document.querySelectorAll('.plot-series').forEach(g => g.classList.toggle('dim', g.dataset.series !== k));
+    });
+    item.addEventListener('mouseleave', () => {
+      document.querySelectorAll('.plot-series').forEach(g => g.classList.remove('dim'));
+    });
+  });
+
+  // Saved files show the series currently visible
+  const source = () => {
+    const copy = svg.cloneNode(true);
+    copy.querySelectorAll('.off').forEach(el => el.classList.contains('plot-series') ? el.remove() : el.setAttribute('opacity', '0.35'));
+    copy.querySelectorAll('.dim').forEach(el => el.classList.remove('dim'));
+    copy.querySelectorAll('[data-tip]').forEach(el => {
+      const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+      title.textContent = el.dataset.tip;
+      el.removeAttribute('data-tip');
+      el.appendChild(title);
+    });
+    return new XMLSerializer().serializeToString(copy);
+  };
+
+  document.getElementById('save-svg').addEventListener('click', () => {
+    vscode.postMessage({ type: 'saveSvg', svg: source() });
+  });
+  document.getElementById('save-png').addEventListener('click', () => {
+    const width = Number(svg.getAttribute('width'));
+    const height = Number(svg.getAttribute('height'));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d');
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0, width, height);
+      vscode.postMessage({ type: 'savePng', data: canvas.toDataURL('image/png') });
+    };
+    image.onerror = () => vscode.postMessage({ type: 'error', message: 'could not render the PNG' });
+    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(source());
+  });
+</script>
+</body>
+</html>`;
+    }
+}
+
+/**
+ * Register the table plot command
+ */
+export function registerTablePlotCommands(context: vscode.ExtensionContext): void {
+    const panel = new TablePlotPanel(context);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('scimax.table.plot', () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'org') {
+                vscode.window.showWarningMessage('Table plots work in org files');
+                return;
+            }
+            const line = editor.selection.active.line;
+            if (!findTablePlotAt(editor.document.getText(), line)) {
+                vscode.window.showWarningMessage('No table at the cursor');
+                return;
+            }
+            panel.show(editor.document, line);
+        })
+    );
+}
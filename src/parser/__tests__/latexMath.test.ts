@@ -0,0 +1,95 @@
+/**
+ * Tests for the LaTeX math to OMML/MathML converter
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseLatexMath,
+    latexToOmml,
+    latexToMathml,
+    stripMathDelimiters,
+} from '../latexMath';
+
+describe('stripMathDelimiters', () => {
+    it('removes inline and display delimiters', () => {
+        expect(stripMathDelimiters('\\(x^2\\)')).toBe('x^2');
+        expect(stripMathDelimiters('\\[ a + b \\]')).toBe(' a + b ');
+        expect(stripMathDelimiters('$x$')).toBe('x');
+        expect(stripMathDelimiters('$$y$$')).toBe('y');
+    });
+});
+
+describe('parseLatexMath', () => {
+    it('parses scripts, fractions and symbols', () => {
+        const node = parseLatexMath('\\frac{\\alpha}{2}^{n}');
+        expect(node).toMatchObject({
+            kind: 'scripts',
+            base: { kind: 'frac', num: { kind: 'ident', text: 'α' } },
+            sup: { kind: 'ident', text: 'n' },
+        });
+    });
+
+    it('returns undefined for unknown commands', () => {
+        expect(parseLatexMath('\\weird{x}')).toBeUndefined();
+        expect(parseLatexMath('\\frac{a}')).toBeUndefined();
+    });
+
+    it('keeps only the first digit of a multi-digit script', () => {
+        expect(parseLatexMath('x^23')).toMatchObject({
+            kind: 'row',
+            children: [
+                { kind: 'scripts', sup: { kind: 'number', text: '2' } },
+                { kind: 'number', text: '3' },
+            ],
+        });
+    });
+});
+
+describe('latexToOmml', () => {
+    it('writes fractions and scripts', () => {
+        const omml = latexToOmml('\\frac{a}{b} + x_i^2');
+        expect(omml).toMatch(/^<m:oMath>.*<\/m:oMath>$/);
+        expect(omml).toContain('<m:f><m:num><m:r><m:t xml:space="preserve">a</m:t></m:r></m:num>');
+        expect(omml).toContain('<m:sSubSup>');
+    });
+
+    it('gives large operators the following terms as their body', () => {
+        const omml = latexToOmml('\\sum_{i=1}^{n} x_i = y')!;
+        expect(omml).toContain('<m:nary><m:naryPr><m:chr m:val="∑"/>');
+        // The body ends at the relation
+        expect(omml).toMatch(/<m:e><m:sSub>.*<\/m:sSub><\/m:e><\/m:nary><m:r><m:t xml:space="preserve">=/);
+    });
+
+    it('wraps display math in oMathPara', () => {
+        expect(latexToOmml('E = mc^2', true)).toMatch(/^<m:oMathPara><m:oMath>/);
+    });
+
+    it('writes matrices and fences', () => {
+        const omml = latexToOmml('\\begin{pmatrix} 1 & 0 \\\\ 0 & 1 \\end{pmatrix}')!;
+        expect(omml).toContain('<m:d><m:dPr><m:begChr m:val="("/><m:endChr m:val=")"/></m:dPr>');
+        expect(omml.match(/<m:mr>/g)).toHaveLength(2);
+    });
+
+    it('escapes XML special characters', () => {
+        expect(latexToOmml('a < b')).toContain('&lt;');
+    });
+});
+
+describe('latexToMathml', () => {
+    it('writes MathML with the TeX source as an annotation', () => {
+        const mathml = latexToMathml('\\sqrt{x}', true)!;
+        expect(mathml).toContain('display="block"');
+        expect(mathml).toContain('<msqrt><mi>x</mi></msqrt>');
+        expect(mathml).toContain('<annotation encoding="application/x-tex">\\sqrt{x}</annotation>');
+    });
+
+    it('writes text and font commands', () => {
+        const mathml = latexToMathml('\\mathbb{R} \\text{ if } x')!;
+        expect(mathml).toContain('<mi mathvariant="double-struck">R</mi>');
+        expect(mathml).toContain('<mtext> if </mtext>');
+    });
+
+    it('returns undefined when the LaTeX is not supported', () => {
+        expect(latexToMathml('\\unknowncommand')).toBeUndefined();
+    });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for citation key extraction from LaTeX source
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractLatexCitations } from '../latexOutline';
+
+describe('extractLatexCitations', () => {
+    it('splits keys and records their positions', () => {
+        expect(extractLatexCitations('See \\citep[see][p.~3]{smith2020, jones2019}.')).toEqual([
+            { key: 'smith2020', command: 'citep', line: 0, column: 22 },
+            { key: 'jones2019', command: 'citep', line: 0, column: 33 },
+        ]);
+    });
+
+    it('recognizes biblatex commands and \\nocite', () => {
+        const keys = extractLatexCitations([
+            '\\autocite{a}',
+            '\\textcite*{b}',
+            '\\parencite[12]{c}',
+            '\\nocite{d}',
+        ].join('\n'));
+
+        expect(keys.map(c => [c.command, c.key, c.line])).toEqual([
+            ['autocite', 'a', 0],
+            ['textcite', 'b', 1],
+            ['parencite', 'c', 2],
+            ['nocite', 'd', 3],
+        ]);
+    });
+
+    it('skips comments but not escaped percent signs', () => {
+        const keys = extractLatexCitations('50\\% of cases \\cite{kept} % \\cite{dropped}\n%\\cite{alsoDropped}');
+
+        expect(keys.map(c => c.key)).toEqual(['kept']);
+    });
+});
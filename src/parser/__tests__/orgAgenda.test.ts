@@ -9,6 +9,7 @@ import {
     formatAgendaItem,
     formatAgendaView,
     renderAgendaBuffer,
+    HABIT_GRAPH_COLUMN,
     formatDateLabel,
     timestampToDate,
     type AgendaItem,
@@ -1226,6 +1227,33 @@ describe('orgAgenda', () => {
             expect(titles).toContain('Second task');
         });
 
+        it('draws habit graphs at the graph column', () => {
+            const headline = createHeadline({
+                title: 'Exercise',
+                todoKeyword: 'TODO',
+                lineNumber: 5,
+                planning: createPlanning({ scheduled: createTimestamp(2024, 6, 3) }),
+            });
+            const view = generateAgendaView([headline], createFilesMap([headline]), {
+                startDate: new Date(2024, 5, 1),
+                days: 7,
+            });
+            const item = view.groups.flatMap(g => g.items)[0];
+            item.habitGraph = [true, false, true].map((done, i) => ({
+                date: new Date(2024, 5, 1 + i),
+                face: 'ready' as const,
+                future: !done,
+                done,
+                today: i === 2,
+            }));
+
+            const { text, lineMap, habitColumns } = renderAgendaBuffer(view);
+            const [[lineNumber, column]] = [...habitColumns!];
+            expect(lineMap.get(lineNumber)).toBe(item);
+            expect(column).toBe(HABIT_GRAPH_COLUMN);
+            expect(text.split('\n')[lineNumber].slice(column)).toBe('* *');
+        });
+
         it('maps no lines for an empty view', () => {
             const view = generateAgendaView([], new Map(), {
                 startDate: new Date(2024, 5, 1),
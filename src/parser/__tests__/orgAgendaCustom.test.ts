@@ -0,0 +1,174 @@
+/**
+ * Tests for custom agenda views
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    normalizeCustomView,
+    parseCustomViewsFromOrg,
+    collectCustomViews,
+    runCustomBlock,
+    runCustomAgendaView,
+    renderCustomAgendaBuffer,
+    CustomAgendaOptions,
+} from '../orgAgendaCustom';
+import type { HeadingRecord } from '../../database/scimaxDbCore';
+
+const TODAY = new Date(2024, 3, 15);
+const OPTIONS: CustomAgendaOptions = {
+    today: TODAY,
+    todoStates: ['TODO', 'NEXT', 'WAITING'],
+    doneStates: ['DONE', 'CANCELLED'],
+};
+
+let nextId = 1;
+function heading(title: string, fields: Partial<HeadingRecord> & { tagList?: string[] } = {}): HeadingRecord {
+    const { tagList, ...rest } = fields;
+    const id = nextId++;
+    return {
+        id,
+        file_id: 1,
+        file_path: '/notes/work.org',
+        level: 1,
+        title,
+        line_number: id,
+        begin_pos: id * 10,
+        todo_state: null,
+        priority: null,
+        tags: JSON.stringify(tagList ?? []),
+        inherited_tags: '[]',
+        properties: '{}',
+        scheduled: null,
+        deadline: null,
+        closed: null,
+        cell_index: null,
+        ...rest,
+    };
+}
+
+const HEADINGS: HeadingRecord[] = [
+    heading('Website relaunch', { tagList: ['project'] }),
+    heading('Draft copy', { level: 2, todo_state: 'NEXT', inherited_tags: '["project"]', scheduled: '2024-04-16 Tue 10:00' }),
+    heading('Tax return', { tagList: ['project'] }),
+    heading('Collect receipts', { level: 2, todo_state: 'TODO', priority: 'A', deadline: '2024-04-10 Wed' }),
+    heading('Call Sam', { todo_state: 'WAITING', tagList: ['@phone'], deadline: '2024-04-18 Thu' }),
+    heading('Old task', { todo_state: 'DONE', tagList: ['@phone'], scheduled: '2024-04-16 Tue' }),
+    heading('Meeting notes', { tagList: ['@office'], properties: '{"EFFORT":"2"}' }),
+];
+
+describe('Custom agenda views', () => {
+    describe('definitions', () => {
+        it('validates views from settings', () => {
+            const view = normalizeCustomView({ name: 'office', blocks: [{ type: 'tags-todo', match: '+@office' }] });
+            expect(view).toMatchObject({ name: 'office', source: 'settings', blocks: [{ type: 'tags-todo' }] });
+            expect(() => normalizeCustomView({ name: 'bad name', blocks: [{ type: 'todo' }] })).toThrow();
+            expect(() => normalizeCustomView({ name: 'x', blocks: [{ type: 'calendar' }] })).toThrow();
+            expect(() => normalizeCustomView({ name: 'x', blocks: [{ type: 'tags', match: '+a+' }] })).toThrow();
+        });
+
+        it('reads views from AGENDA_VIEW headings in org files', () => {
+            const { views, errors } = parseCustomViewsFromOrg([
+                '* Weekly review',
+                ':PROPERTIES:',
+                ':AGENDA_VIEW: review',
+                ':END:',
+                '** This week',
+                ':PROPERTIES:',
+                ':AGENDA_BLOCK: agenda',
+                ':AGENDA_SPAN: 7',
+                ':END:',
+                '** Stuck',
+                ':PROPERTIES:',
+                ':AGENDA_BLOCK: stuck',
+                ':AGENDA_NEXT_STATES: NEXT WAITING',
+                ':END:',
+                '* Broken',
+                ':PROPERTIES:',
+                ':AGENDA_VIEW: broken',
+                ':END:',
+                '** Nothing',
+                ':PROPERTIES:',
+                ':AGENDA_BLOCK: nope',
+                ':END:',
+            ].join('\n'), '/notes/views.org');
+            expect(views).toHaveLength(1);
+            expect(views[0]).toMatchObject({
+                name: 'review',
+                title: 'Weekly review',
+                source: '/notes/views.org',
+                blocks: [
+                    { type: 'agenda', title: 'This week', days: 7 },
+                    { type: 'stuck', title: 'Stuck', nextStates: ['NEXT', 'WAITING'] },
+                ],
+            });
+            expect(errors).toHaveLength(1);
+            expect(errors[0]).toMatch(/^\/notes\/views\.org:15: /);
+        });
+
+        it('prefers settings over org files on a name clash', () => {
+            const { views, errors } = collectCustomViews(
+                [{ name: 'review', title: 'From settings', blocks: [{ type: 'todo' }] }],
+                [{
+                    filePath: '/notes/views.org',
+                    content: '* From org\n:PROPERTIES:\n:AGENDA_VIEW: review\n:END:\n** Todos\n:PROPERTIES:\n:AGENDA_BLOCK: todo\n:END:\n',
+                }]
+            );
+            expect(views.map(v => v.title)).toEqual(['From settings']);
+            expect(errors.join('\n')).toMatch(/review/);
+        });
+    });
+
+    describe('blocks', () => {
+        const titles = (type: string, extra: Record<string, unknown> = {}) =>
+            runCustomBlock(normalizeCustomView({ name: 'v', blocks: [{ type, ...extra }] }).blocks[0], HEADINGS, OPTIONS)
+                .groups.flatMap(g => g.items.map(i => i.title));
+
+        it('lists scheduled items and missed deadlines in the agenda span', () => {
+            expect(titles('agenda', { days: 7 }).sort()).toEqual(['Call Sam', 'Collect receipts', 'Draft copy']);
+            expect(titles('agenda', { days: 1 })).toEqual(['Collect receipts']);
+        });
+
+        it('filters TODO items by state and match', () => {
+            expect(titles('todo', { todoStates: ['WAITING'] })).toEqual(['Call Sam']);
+            expect(titles('tags-todo', { match: '+project' })).toEqual(['Draft copy']);
+            expect(titles('tags', { match: '@office+EFFORT<3' })).toEqual(['Meeting notes']);
+            expect(titles('tags', { match: '@phone' })).toEqual(['Call Sam', 'Old task']);
+        });
+
+        it('separates overdue and upcoming deadlines', () => {
+            expect(titles('deadlines', { overdue: true })).toEqual(['Collect receipts']);
+            expect(titles('deadlines')).toEqual(['Call Sam']);
+            expect(titles('deadlines', { days: 2 })).toEqual([]);
+        });
+
+        it('finds projects without a next action', () => {
+            expect(titles('stuck')).toEqual(['Tax return']);
+            expect(titles('stuck', { match: '+project+LEVEL=1', nextStates: ['TODO'] })).toEqual(['Website relaunch']);
+        });
+    });
+
+    it('renders each block as a section with navigable lines', () => {
+        const view = normalizeCustomView({
+            name: 'review',
+            title: 'Review',
+            blocks: [
+                { type: 'deadlines', overdue: true, title: 'Overdue' },
+                { type: 'todo', todoStates: ['SOMEDAY'] },
+            ],
+        });
+        const result = runCustomAgendaView(view, HEADINGS, OPTIONS);
+        expect(result.totalItems).toBe(1);
+
+        const rendered = renderCustomAgendaBuffer(result, TODAY);
+        const lines = rendered.text.split('\n');
+        expect(lines[0]).toBe('Review (Monday, Apr 15, 2024)');
+        expect(lines).toContain('Overdue');
+        expect(lines).toContain('TODO: SOMEDAY');
+        expect(lines).toContain('  (none)');
+        expect(lines[lines.length - 1]).toBe('Total: 1 items');
+
+        const [[lineNumber, item]] = [...rendered.lineMap.entries()];
+        expect(item.title).toBe('Collect receipts');
+        expect(lines[lineNumber]).toContain('Collect receipts');
+    });
+});
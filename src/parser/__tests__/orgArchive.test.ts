@@ -0,0 +1,174 @@
+/**
+ * Tests for archiving subtrees with org-archive semantics
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    archiveFileHeader,
+    archiveLocationFor,
+    archiveProperties,
+    archiveSubtrees,
+    findArchivableEntries,
+    insertArchivedEntry,
+    isArchiveFile,
+    parseArchiveLocation,
+    setEntryProperties,
+} from '../orgArchive';
+
+const SOURCE = '/home/me/org/projects.org';
+const NOW = new Date(2026, 9, 19, 14, 5);
+
+const DOC = [
+    '#+TITLE: Projects',
+    '#+FILETAGS: :work:',
+    '* Grant :funding:',
+    ':PROPERTIES:',
+    ':CATEGORY: grants',
+    ':END:',
+    '** Aims',
+    '*** DONE [#A] Write aim 1 :writing:',
+    'CLOSED: [2026-09-01 Tue 10:00]',
+    'Draft is in the shared folder.',
+    '**** Notes',
+    '',
+    '*** TODO Write aim 2',
+    '* Teaching',
+    '** DONE Grade exams',
+    'CLOSED: [2026-10-15 Thu 09:00]',
+];
+
+describe('archive locations', () => {
+    it('recognizes archive files', () => {
+        expect(isArchiveFile('/org/notes.org_archive')).toBe(true);
+        expect(isArchiveFile('/org/notes_archive.org')).toBe(true);
+        expect(isArchiveFile('/org/archive.org')).toBe(false);
+        expect(isArchiveFile('/org/notes.org')).toBe(false);
+    });
+
+    it('expands %s and resolves against the source directory', () => {
+        expect(parseArchiveLocation('%s_archive::', SOURCE)).toEqual({
+            file: '/home/me/org/projects.org_archive',
+            heading: undefined,
+        });
+        expect(parseArchiveLocation('archive/%s::* From %s', SOURCE)).toEqual({
+            file: '/home/me/org/archive/projects.org',
+            heading: '* From projects.org',
+        });
+        expect(parseArchiveLocation('::Archived Tasks', SOURCE)).toEqual({ file: SOURCE, heading: '* Archived Tasks' });
+        expect(parseArchiveLocation('~/archive.org::', SOURCE).file).toBe(path.join(os.homedir(), 'archive.org'));
+    });
+
+    it('prefers an inherited :ARCHIVE: property over #+ARCHIVE:', () => {
+        const lines = [
+            '#+ARCHIVE: old.org::',
+            '* Parent',
+            ':PROPERTIES:',
+            ':ARCHIVE: parent.org::* Done',
+            ':END:',
+            '** Child',
+            '* Other',
+        ];
+        expect(archiveLocationFor(lines, 5)).toBe('parent.org::* Done');
+        expect(archiveLocationFor(lines, 6)).toBe('old.org::');
+        expect(archiveLocationFor(['* Entry'], 0, '%s.bak::')).toBe('%s.bak::');
+    });
+});
+
+describe('archive properties', () => {
+    it('records time, file, outline path, category, TODO state and inherited tags', () => {
+        expect(archiveProperties(DOC, 7, { sourceFile: SOURCE, now: NOW })).toEqual([
+            ['ARCHIVE_TIME', '2026-10-19 Mon 14:05'],
+            ['ARCHIVE_FILE', SOURCE],
+            ['ARCHIVE_OLPATH', 'Grant/Aims'],
+            ['ARCHIVE_CATEGORY', 'grants'],
+            ['ARCHIVE_TODO', 'DONE'],
+            ['ARCHIVE_ITAGS', 'work funding'],
+        ]);
+    });
+
+    it('falls back to the file name for the category', () => {
+        const props = Object.fromEntries(archiveProperties(['* Note'], 0, { sourceFile: SOURCE, now: NOW }));
+        expect(props.ARCHIVE_CATEGORY).toBe('projects');
+        expect(props.ARCHIVE_OLPATH).toBeUndefined();
+        expect(props.ARCHIVE_TODO).toBeUndefined();
+    });
+
+    it('creates a drawer after the planning line or merges into an existing one', () => {
+        expect(setEntryProperties(['* DONE A', 'CLOSED: [2026-10-01 Thu]', 'body'], [['ARCHIVE_TODO', 'DONE']]))
+            .toEqual(['* DONE A', 'CLOSED: [2026-10-01 Thu]', ':PROPERTIES:', ':ARCHIVE_TODO: DONE', ':END:', 'body']);
+        expect(setEntryProperties(['* A', ':PROPERTIES:', ':ID: a', ':ARCHIVE_TIME: x', ':END:'], [['ARCHIVE_TIME', 'y'], ['ARCHIVE_FILE', 'f']]))
+            .toEqual(['* A', ':PROPERTIES:', ':ID: a', ':ARCHIVE_TIME: y', ':ARCHIVE_FILE: f', ':END:']);
+    });
+});
+
+describe('archiving', () => {
+    it('moves a subtree to a new archive file at top level', () => {
+        const result = archiveSubtrees(DOC, [7], () => undefined, { sourceFile: SOURCE, now: NOW });
+        expect(result.sourceLines).toEqual([...DOC.slice(0, 7), ...DOC.slice(12)]);
+
+        const archive = result.archives.get('/home/me/org/projects.org_archive')!;
+        expect(archive.slice(0, 5)).toEqual(archiveFileHeader(SOURCE));
+        expect(archive.slice(5)).toEqual([
+            '* DONE [#A] Write aim 1 :writing:',
+            'CLOSED: [2026-09-01 Tue 10:00]',
+            ':PROPERTIES:',
+            ':ARCHIVE_TIME: 2026-10-19 Mon 14:05',
+            `:ARCHIVE_FILE: ${SOURCE}`,
+            ':ARCHIVE_OLPATH: Grant/Aims',
+            ':ARCHIVE_CATEGORY: grants',
+            ':ARCHIVE_TODO: DONE',
+            ':ARCHIVE_ITAGS: work funding',
+            ':END:',
+            'Draft is in the shared folder.',
+            '** Notes',
+            '',
+        ]);
+    });
+
+    it('files under an existing or new archive heading', () => {
+        const existing = ['* Archived Tasks', '** Old one', '', '* Other'];
+        const entry = ['*** DONE Thing'];
+        expect(insertArchivedEntry(existing, entry, '* Archived Tasks'))
+            .toEqual(['* Archived Tasks', '** Old one', '** DONE Thing', '', '* Other']);
+        expect(insertArchivedEntry(['text'], entry, '* Archived Tasks'))
+            .toEqual(['text', '', '* Archived Tasks', '** DONE Thing', '']);
+    });
+
+    it('archives within the source file under a heading', () => {
+        const lines = ['#+ARCHIVE: ::* Archive', '* DONE a', '* TODO b'];
+        const result = archiveSubtrees(lines, [1], () => undefined, { sourceFile: SOURCE, now: NOW });
+        expect(result.archives.size).toBe(0);
+        expect(result.sourceLines.slice(0, 4)).toEqual(['#+ARCHIVE: ::* Archive', '* TODO b', '', '* Archive']);
+        expect(result.sourceLines[4]).toBe('** DONE a');
+        expect(() => archiveSubtrees(['#+ARCHIVE: ::', '* a'], [1], () => undefined, { sourceFile: SOURCE }))
+            .toThrow(/without a heading/);
+    });
+
+    it('archives several entries to their own locations in one pass', () => {
+        const lines = ['* DONE a', ':PROPERTIES:', ':ARCHIVE: other.org::', ':END:', '* DONE b', '* DONE c'];
+        const result = archiveSubtrees(lines, [0, 5, 4], file => file.endsWith('other.org') ? ['* kept'] : undefined, {
+            sourceFile: SOURCE,
+            now: NOW,
+        });
+        expect(result.sourceLines).toEqual([]);
+        expect(result.archives.get('/home/me/org/other.org')!.filter(l => l.startsWith('*'))).toEqual(['* kept', '* DONE a']);
+        expect(result.archives.get('/home/me/org/projects.org_archive')!.filter(l => l.startsWith('*'))).toEqual(['* DONE b', '* DONE c']);
+    });
+});
+
+describe('findArchivableEntries', () => {
+    it('finds outermost done entries closed long enough ago', () => {
+        const options = { doneKeywords: ['DONE', 'CANCELLED'], now: NOW };
+        expect(findArchivableEntries(DOC, { ...options, olderThanDays: 30 })).toEqual([7]);
+        expect(findArchivableEntries(DOC, { ...options, olderThanDays: 4 })).toEqual([7, 14]);
+        expect(findArchivableEntries(DOC, { ...options, olderThanDays: 60 })).toEqual([]);
+        expect(findArchivableEntries(['* DONE no closed date'], { ...options, olderThanDays: 0 })).toEqual([]);
+    });
+
+    it('does not list done entries nested in a matching one', () => {
+        const lines = ['* DONE outer', 'CLOSED: [2026-01-01 Thu]', '** DONE inner', 'CLOSED: [2026-01-01 Thu]'];
+        expect(findArchivableEntries(lines, { doneKeywords: ['DONE'], olderThanDays: 7, now: NOW })).toEqual([0]);
+    });
+});
@@ -1072,5 +1072,27 @@ describe('Edge Cases', () => {
             };
             expect(() => formatResult(result)).not.toThrow();
         });
+
+        it('should put rich output in a results drawer', () => {
+            const result: ExecutionResult = {
+                success: true,
+                stdout: 'done',
+                files: ['.ob-jupyter/fig.png'],
+                rich: ['#+BEGIN_EXPORT html\n<b>hi</b>\n#+END_EXPORT', '\\[x^2\\]'],
+            };
+            expect(formatResult(result)).toBe([
+                '#+RESULTS:',
+                ':RESULTS:',
+                ': done',
+                '[[file:.ob-jupyter/fig.png]]',
+                '#+BEGIN_EXPORT html',
+                '<b>hi</b>',
+                '#+END_EXPORT',
+                '\\[x^2\\]',
+                ':END:',
+            ].join('\n'));
+            expect(formatResult({ success: true, rich: ['*bold*'] }, { type: 'drawer' }))
+                .toBe('#+RESULTS:\n:RESULTS:\n*bold*\n:END:');
+        });
     });
 });
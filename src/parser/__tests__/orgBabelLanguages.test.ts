@@ -0,0 +1,203 @@
+/**
+ * Tests for the SQLite, C/C++, gnuplot, dot, PlantUML and LaTeX executors.
+ *
+ * Execution tests need sqlite3 and gcc; they are skipped when those are not
+ * installed. Script building is tested without any tools.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    parseCsv,
+    rowsToOrgTable,
+    sqliteArgs,
+    buildCSource,
+    buildGnuplotScript,
+    buildPlantumlSource,
+    buildLatexDocument,
+    resolveOutputFile,
+    sqliteExecutor,
+    cExecutor,
+    dotExecutor,
+    latexExecutor,
+} from '../orgBabelLanguages';
+import { executorRegistry, formatResult, parseHeaderArguments, type ExecutionContext } from '../orgBabel';
+
+function has(cmd: string): boolean {
+    try {
+        execFileSync(cmd, ['--version'], { stdio: 'ignore', timeout: 10000 });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const hasSqlite = has('sqlite3');
+const hasGcc = has('gcc');
+
+let tmpDirs: string[] = [];
+
+function mkTmp(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'babel-lang-'));
+    tmpDirs.push(d);
+    return d;
+}
+
+afterEach(() => {
+    for (const d of tmpDirs) {
+        try { fs.rmSync(d, { recursive: true, force: true }); } catch { /* ignore */ }
+    }
+    tmpDirs = [];
+});
+
+function context(parameters: string, extra: Partial<ExecutionContext> = {}): ExecutionContext {
+    return { headers: parseHeaderArguments(parameters), ...extra };
+}
+
+describe('registration', () => {
+    it('registers every new language', () => {
+        for (const lang of ['sqlite', 'C', 'c', 'cpp', 'C++', 'gnuplot', 'dot', 'plantuml', 'latex']) {
+            expect(executorRegistry.isSupported(lang)).toBe(true);
+        }
+        expect(executorRegistry.getExecutor('C')).toBe(cExecutor);
+    });
+});
+
+describe('sqlite', () => {
+    it('parses quoted CSV cells', () => {
+        expect(parseCsv('a,"b, c","say ""hi"""\n1,,3\n')).toEqual([
+            ['a', 'b, c', 'say "hi"'],
+            ['1', '', '3'],
+        ]);
+    });
+
+    it('formats rows as an org table with a rule under column names', () => {
+        expect(rowsToOrgTable([['id', 'name'], ['1', 'a|b']], true))
+            .toBe('| id | name |\n|-\n| 1 | a\\vert{}b |');
+        expect(rowsToOrgTable([['1']])).toBe('| 1 |');
+    });
+
+    it('builds arguments from :db, :header and :nullvalue', () => {
+        expect(sqliteArgs(context(':db data.db :header yes :nullvalue NULL')))
+            .toEqual(['-csv', '-header', '-nullvalue', 'NULL', 'data.db']);
+        expect(sqliteArgs(context(':separator ;', { results: { type: 'verbatim' } })))
+            .toEqual(['-separator', ';']);
+    });
+
+    it.runIf(hasSqlite)('returns query results as a table', async () => {
+        const dir = mkTmp();
+        const result = await sqliteExecutor.execute(
+            'create table t(id integer, name text);\ninsert into t values (1, \'$who\');\nselect * from t;',
+            context(':db test.db :header yes', { cwd: dir, variables: { who: 'ann' } })
+        );
+        expect(result.success).toBe(true);
+        expect(result.stdout).toBe('| id | name |\n|-\n| 1 | ann |');
+        expect(fs.existsSync(path.join(dir, 'test.db'))).toBe(true);
+        expect(formatResult(result)).toBe('#+RESULTS:\n| id | name |\n|-\n| 1 | ann |');
+    });
+
+    it.runIf(hasSqlite)('imports table variables from CSV', async () => {
+        const result = await sqliteExecutor.execute(
+            '.mode csv\n.import $data t\nselect sum(n) from t;',
+            context('', { variables: { data: [['n'], ['2'], ['3']] } })
+        );
+        expect(result.stdout).toBe('| 5 |');
+    });
+});
+
+describe('C', () => {
+    it('wraps the body in main with includes, defines and variables', () => {
+        const source = buildCSource('printf("%d\\n", N * x);', context(':includes <stdio.h> "util.h" math.h :defines N 2', {
+            variables: { x: 3, y: 1.5, s: 'hi', v: [1, 2] },
+        }));
+        expect(source).toBe([
+            '#include <stdio.h>',
+            '#include "util.h"',
+            '#include <math.h>',
+            '#define N 2',
+            'int x = 3;',
+            'double y = 1.5;',
+            'const char *s = "hi";',
+            'int v[] = {1, 2};',
+            'int main() {',
+            'printf("%d\\n", N * x);',
+            'return 0;',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    it('keeps a body that defines main', () => {
+        const code = 'int main(void) { return 0; }';
+        expect(buildCSource(code, context(''))).toBe(code + '\n');
+        expect(buildCSource('void f() {}', context(':main no'))).toBe('void f() {}\n');
+    });
+
+    it.runIf(hasGcc)('compiles and runs with :flags, :libs and :cmdline', async () => {
+        const result = await cExecutor.execute(
+            'printf("%.0f %s\\n", sqrt(16.0), argv0);',
+            context(':includes stdio.h math.h :flags -O2 :libs -lm', { variables: { argv0: 'ok' } })
+        );
+        expect(result.stderr).toBe('');
+        expect(result.success).toBe(true);
+        expect(result.stdout).toBe('4 ok');
+    });
+
+    it.runIf(hasGcc)('reports compile errors', async () => {
+        const result = await cExecutor.execute('this is not C', context(''));
+        expect(result.success).toBe(false);
+        expect(result.stderr).toMatch(/error/);
+    });
+});
+
+describe('diagrams', () => {
+    it('sets the gnuplot terminal from the :file extension', () => {
+        expect(buildGnuplotScript('plot sin(x)', { a: 2, t: 'x' }, '/tmp/p.png')).toBe([
+            'a = 2',
+            't = "x"',
+            'set terminal pngcairo',
+            'set output "/tmp/p.png"',
+            'plot sin(x)',
+            'set output',
+            '',
+        ].join('\n'));
+        expect(buildGnuplotScript('print 1')).toBe('print 1\n');
+    });
+
+    it('wraps PlantUML in @startuml unless present', () => {
+        expect(buildPlantumlSource('A -> B', { who: 'B' })).toBe('@startuml\n!$who = "B"\nA -> B\n@enduml\n');
+        expect(buildPlantumlSource('@startmindmap\n* root\n@endmindmap')).toBe('@startmindmap\n* root\n@endmindmap\n');
+    });
+
+    it('resolves :file against the working directory', () => {
+        const dir = mkTmp();
+        expect(resolveOutputFile(context(':file out/g.svg', { cwd: dir }))).toBe(path.join(dir, 'out', 'g.svg'));
+        expect(fs.existsSync(path.join(dir, 'out'))).toBe(true);
+        expect(resolveOutputFile(context(''))).toBeUndefined();
+    });
+
+    it('requires :file for dot', async () => {
+        const result = await dotExecutor.execute('digraph { a -> b }', context(''));
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toMatch(/:file/);
+    });
+});
+
+describe('latex', () => {
+    it('wraps a body in a standalone document with :headers', () => {
+        const doc = buildLatexDocument('$x^2$', '\\usepackage{tikz}');
+        expect(doc).toContain('\\documentclass[preview,border=2pt,varwidth]{standalone}');
+        expect(doc).toContain('\\usepackage{tikz}\n\\begin{document}\n$x^2$\n\\end{document}');
+        const full = '\\documentclass{article}\\begin{document}x\\end{document}';
+        expect(buildLatexDocument(full)).toBe(full);
+    });
+
+    it('returns the body as LaTeX without :file', async () => {
+        const result = await latexExecutor.execute('$N$ items', context('', { variables: { N: 3 } }));
+        expect(result.success).toBe(true);
+        expect(formatResult(result)).toBe('#+RESULTS:\n#+BEGIN_EXPORT latex\n$3$ items\n#+END_EXPORT');
+    });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for streaming Babel output and cancelling runs
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import {
+    newRunId,
+    runPlaceholder,
+    parseRunPlaceholder,
+    StreamingOutput,
+} from '../orgBabelStream';
+import { executeSourceBlock, pythonExecutor, type ExecutionOutputChunk } from '../orgBabel';
+import type { SrcBlockElement } from '../orgElementTypes';
+
+function shBlock(code: string): SrcBlockElement {
+    return srcBlock('sh', code);
+}
+
+function srcBlock(language: string, code: string, parameters = ''): SrcBlockElement {
+    return {
+        type: 'src-block',
+        range: { start: 0, end: 0 },
+        postBlank: 0,
+        properties: {
+            language,
+            value: code,
+            parameters,
+            headers: {},
+            lineNumber: 1,
+            endLineNumber: 1,
+        },
+    };
+}
+
+describe('run placeholder', () => {
+    it('round-trips the run ID', () => {
+        const id = newRunId();
+        expect(id).toMatch(/^[0-9a-f]{8}$/);
+        expect(parseRunPlaceholder(runPlaceholder(id))).toBe(id);
+        expect(parseRunPlaceholder(`  ${runPlaceholder(id)}  `)).toBe(id);
+    });
+
+    it('ignores ordinary output lines', () => {
+        expect(parseRunPlaceholder(': running')).toBeUndefined();
+        expect(parseRunPlaceholder(': [running xyz]')).toBeUndefined();
+    });
+});
+
+describe('StreamingOutput', () => {
+    it('splits text into fixed-width lines across chunks', () => {
+        const output = new StreamingOutput();
+        output.push({ stream: 'stdout', text: 'one\ntw' });
+        output.push({ stream: 'stdout', text: 'o\n\nthree' });
+        expect(output.render()).toEqual([': one', ': two', ':', ': three']);
+    });
+
+    it('lets a carriage return overwrite the current line', () => {
+        const output = new StreamingOutput();
+        output.push({ stream: 'stdout', text: '10%\r50%' });
+        output.push({ stream: 'stdout', text: '\r100%\ndone\r\n' });
+        expect(output.render()).toEqual([': 100%', ': done']);
+    });
+
+    it('keeps \\r\\n split across chunks as one line break', () => {
+        const output = new StreamingOutput();
+        output.push({ stream: 'stdout', text: 'a\r' });
+        output.push({ stream: 'stdout', text: '\nb' });
+        expect(output.render()).toEqual([': a', ': b']);
+    });
+
+    it('turns files into links', () => {
+        const output = new StreamingOutput();
+        output.push({ stream: 'stdout', text: 'plotting' });
+        output.push({ file: '.ob-jupyter/output-1.png' });
+        expect(output.render()).toEqual([': plotting', '[[file:.ob-jupyter/output-1.png]]']);
+    });
+
+    it('produces edits that only rewrite changed lines', () => {
+        const output = new StreamingOutput();
+        expect(output.takeEdit()).toBeUndefined();
+
+        output.push({ stream: 'stdout', text: 'a\nb' });
+        expect(output.takeEdit()).toEqual({ keep: 0, lines: [': a', ': b'] });
+        expect(output.writtenLines).toBe(2);
+        expect(output.takeEdit()).toBeUndefined();
+
+        output.push({ stream: 'stdout', text: 'c\nd' });
+        expect(output.takeEdit()).toEqual({ keep: 1, lines: [': bc', ': d'] });
+
+        output.push({ stream: 'stdout', text: '\r' });
+        output.push({ stream: 'stdout', text: '\n' });
+        expect(output.takeEdit()).toBeUndefined();
+    });
+});
+
+describe('streaming execution', () => {
+    it('reports shell output while the block runs', async () => {
+        const chunks: ExecutionOutputChunk[] = [];
+        const result = await executeSourceBlock(shBlock('echo first; sleep 0.2; echo second'), {
+            onOutput: chunk => chunks.push(chunk),
+        });
+        expect(result.success).toBe(true);
+        expect(chunks.length).toBeGreaterThanOrEqual(2);
+        expect(chunks.map(c => ('text' in c ? c.text : '')).join('')).toBe('first\nsecond\n');
+    });
+
+    it('cancels a running block through its signal', async () => {
+        const controller = new AbortController();
+        const chunks: ExecutionOutputChunk[] = [];
+        const started = Date.now();
+        const pending = executeSourceBlock(shBlock('echo started; sleep 5; echo finished'), {
+            signal: controller.signal,
+            onOutput: chunk => {
+                chunks.push(chunk);
+                controller.abort();
+            },
+        });
+        const result = await pending;
+        expect(result.success).toBe(false);
+        expect(result.cancelled).toBe(true);
+        expect(Date.now() - started).toBeLessThan(4000);
+        expect(chunks).toEqual([{ stream: 'stdout', text: 'started\n' }]);
+    });
+
+    it('does not start a block whose signal is already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const result = await executeSourceBlock(shBlock('echo never'), { signal: controller.signal });
+        expect(result.cancelled).toBe(true);
+        expect(result.stdout).toBeUndefined();
+    });
+});
+
+describe('cancelling Python session blocks', () => {
+    const session = 'stream-test';
+    const pyBlock = (code: string) => srcBlock('python', code, `:session ${session}`);
+
+    afterAll(async () => {
+        await pythonExecutor.closeSession?.(session);
+    });
+
+    it('interrupts the running block and keeps the session', async () => {
+        await executeSourceBlock(pyBlock('x = 41'));
+
+        const controller = new AbortController();
+        const running = executeSourceBlock(pyBlock('import time\ntime.sleep(10)'), { signal: controller.signal });
+        setTimeout(() => controller.abort(), 1000);
+        const interrupted = await running;
+        expect(interrupted.success).toBe(false);
+        expect(interrupted.stderr).toContain('KeyboardInterrupt');
+
+        const after = await executeSourceBlock(pyBlock('print(x + 1)'));
+        expect(after.stdout).toBe('42');
+    });
+
+    it('drops a queued block that is cancelled before it runs', async () => {
+        const controller = new AbortController();
+        const first = executeSourceBlock(pyBlock('import time\ntime.sleep(1)\nprint("first")'));
+        await new Promise(resolve => setTimeout(resolve, 300));
+        const second = executeSourceBlock(pyBlock('queued = True'), { signal: controller.signal });
+        setTimeout(() => controller.abort(), 300);
+
+        expect((await second).cancelled).toBe(true);
+        expect((await first).stdout).toBe('first');
+
+        const after = await executeSourceBlock(pyBlock("print('queued' in globals())"));
+        expect(after.stdout).toBe('False');
+    });
+});
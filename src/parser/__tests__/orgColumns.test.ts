@@ -0,0 +1,160 @@
+/**
+ * Tests for the column view model: formats, summaries and cell edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildColumnView,
+    columnEdit,
+    parseColumnsFormat,
+    summarize,
+    DEFAULT_COLUMNS_FORMAT,
+} from '../orgColumns';
+
+const DOC = [
+    '#+COLUMNS: %30ITEM %TODO %PRIORITY %TAGS %EFFORT(Estimate){:} %COST{+} %DONE{X%}',
+    '* Project :work:',
+    '** TODO [#A] Design',
+    ':PROPERTIES:',
+    ':EFFORT: 1:30',
+    ':COST: 10',
+    ':DONE: [X]',
+    ':END:',
+    '** Build',
+    '*** TODO Backend',
+    ':PROPERTIES:',
+    ':EFFORT: 2h',
+    ':COST: 5.5',
+    ':DONE: [ ]',
+    ':END:',
+    '*** Frontend',
+    ':PROPERTIES:',
+    ':EFFORT: 45min',
+    ':DONE: [X]',
+    ':END:',
+    '* Other',
+];
+const CONTENT = DOC.join('\n');
+
+function apply(content: string, edit: { start: number; end: number; lines: string[] } | undefined): string {
+    if (!edit) return content;
+    const lines = content.split('\n');
+    lines.splice(edit.start, edit.end - edit.start, ...edit.lines);
+    return lines.join('\n');
+}
+
+describe('parseColumnsFormat', () => {
+    it('reads widths, titles and summary operators', () => {
+        expect(parseColumnsFormat('%25ITEM %Effort(Estimate){:} %3PRIORITY %Cost{+} %odd{$}')).toEqual([
+            { property: 'ITEM', title: 'ITEM', width: 25, operator: undefined },
+            { property: 'EFFORT', title: 'Estimate', width: undefined, operator: ':' },
+            { property: 'PRIORITY', title: 'PRIORITY', width: 3, operator: undefined },
+            { property: 'COST', title: 'COST', width: undefined, operator: '+' },
+            { property: 'ODD', title: 'ODD', width: undefined, operator: undefined },
+        ]);
+    });
+});
+
+describe('summarize', () => {
+    it('sums, averages and bounds numbers', () => {
+        expect(summarize('+', ['1', '2.5', ''])).toBe('3.5');
+        expect(summarize('min', ['4', '2', 'x'])).toBe('2');
+        expect(summarize('max', ['4', '2'])).toBe('4');
+        expect(summarize('mean', ['1', '2'])).toBe('1.5');
+        expect(summarize('+', ['', 'n/a'])).toBeUndefined();
+    });
+
+    it('adds durations as H:MM', () => {
+        expect(summarize(':', ['1:30', '2h', '45min', ''])).toBe('4:15');
+    });
+
+    it('turns checkboxes and nested percentages into a percentage', () => {
+        expect(summarize('X%', ['[X]', '[ ]', '[X]', '[-]'])).toBe('[50%]');
+        expect(summarize('X%', ['[X]', '[50%]'])).toBe('[75%]');
+        expect(summarize('X%', ['', 'yes'])).toBeUndefined();
+    });
+});
+
+describe('buildColumnView', () => {
+    it('shows the file with summaries for parents', () => {
+        const view = buildColumnView(CONTENT);
+        expect(view.columns.map(c => c.title)).toEqual(['ITEM', 'TODO', 'PRIORITY', 'TAGS', 'Estimate', 'COST', 'DONE']);
+        expect(view.rows.map(r => [r.line, r.level, r.cells.map(c => c.value)])).toEqual([
+            [1, 1, ['Project', '', '', ':work:', '4:15', '15.5', '[75%]']],
+            [2, 2, ['Design', 'TODO', 'A', '', '1:30', '10', '[X]']],
+            [8, 2, ['Build', '', '', '', '2:45', '5.5', '[50%]']],
+            [9, 3, ['Backend', 'TODO', '', '', '2h', '5.5', '[ ]']],
+            [15, 3, ['Frontend', '', '', '', '45min', '', '[X]']],
+            [20, 1, ['Other', '', '', '', '', '', '']],
+        ]);
+        expect(view.rows[0].cells[4].computed).toBe(true);
+        expect(view.rows[0].cells[0].computed).toBe(false);
+        expect(view.rows[1].cells[4].computed).toBe(false);
+    });
+
+    it('limits the view to the subtree at a line', () => {
+        const view = buildColumnView(CONTENT, { line: 12 });
+        expect(view.rows.map(r => r.line)).toEqual([9]);
+        expect(buildColumnView(CONTENT, { line: 8 }).rows.map(r => r.line)).toEqual([8, 9, 15]);
+    });
+
+    it('prefers an inherited :COLUMNS: property and falls back to the default', () => {
+        const content = ['* A', ':PROPERTIES:', ':COLUMNS: %ITEM %OWNER', ':END:', '** B'].join('\n');
+        expect(buildColumnView(content, { line: 4 }).columns.map(c => c.property)).toEqual(['ITEM', 'OWNER']);
+        expect(buildColumnView('* A').columns).toEqual(parseColumnsFormat(DEFAULT_COLUMNS_FORMAT));
+    });
+});
+
+describe('columnEdit', () => {
+    it('rewrites only the headline for TODO, priority, tags and title', () => {
+        let content = apply(CONTENT, columnEdit(CONTENT, 2, 'TODO', 'DONE'));
+        content = apply(content, columnEdit(content, 2, 'PRIORITY', 'b'));
+        content = apply(content, columnEdit(content, 2, 'TAGS', 'ui design'));
+        content = apply(content, columnEdit(content, 2, 'ITEM', 'Design review'));
+        const lines = content.split('\n');
+        expect(lines[2]).toBe('** DONE [#B] Design review :ui:design:');
+        expect(lines.length).toBe(DOC.length);
+        expect(lines.slice(3)).toEqual(DOC.slice(3));
+    });
+
+    it('removes the TODO keyword and priority with an empty value', () => {
+        const content = apply(CONTENT, columnEdit(CONTENT, 2, 'TODO', ''));
+        expect(apply(content, columnEdit(content, 2, 'PRIORITY', '')).split('\n')[2]).toBe('** Design');
+    });
+
+    it('updates, adds and removes properties in the drawer', () => {
+        let content = apply(CONTENT, columnEdit(CONTENT, 2, 'EFFORT', '3:00'));
+        content = apply(content, columnEdit(content, 2, 'OWNER', 'kim'));
+        content = apply(content, columnEdit(content, 2, 'COST', ''));
+        expect(content.split('\n').slice(2, 8)).toEqual([
+            '** TODO [#A] Design',
+            ':PROPERTIES:',
+            ':EFFORT: 3:00',
+            ':DONE: [X]',
+            ':OWNER: kim',
+            ':END:',
+        ]);
+    });
+
+    it('creates a drawer after the planning line', () => {
+        const content = ['* TODO Task', 'DEADLINE: <2026-10-20 Tue>', 'body'].join('\n');
+        expect(apply(content, columnEdit(content, 0, 'EFFORT', '1:00')).split('\n')).toEqual([
+            '* TODO Task',
+            'DEADLINE: <2026-10-20 Tue>',
+            ':PROPERTIES:',
+            ':EFFORT: 1:00',
+            ':END:',
+            'body',
+        ]);
+    });
+
+    it('drops the drawer when its last property is removed', () => {
+        const content = ['* Task', ':PROPERTIES:', ':COST: 1', ':END:', 'body'].join('\n');
+        expect(apply(content, columnEdit(content, 0, 'COST', ''))).toBe('* Task\nbody');
+    });
+
+    it('ignores unchanged values and rejects missing headings', () => {
+        expect(columnEdit(CONTENT, 2, 'TODO', 'TODO')).toBeUndefined();
+        expect(() => columnEdit(CONTENT, 3, 'TODO', 'DONE')).toThrow(/No heading/);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for org-crypt style encrypted subtrees.
+ *
+ * Round trips need gpg or openssl and are skipped when they are not
+ * installed. gpg runs in a throwaway GNUPGHOME.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    addHeadingTag,
+    cipherMethod,
+    cipherNeedsPassphrase,
+    decryptText,
+    encryptText,
+    entryBody,
+    findCryptEntries,
+    findCryptEntryAt,
+    headingTags,
+    needsPassphrase,
+    redactCryptEntries,
+} from '../orgCrypt';
+
+function has(cmd: string): boolean {
+    try {
+        execFileSync(cmd, ['version'], { stdio: 'ignore', timeout: 10000 });
+        return true;
+    } catch {
+        try {
+            execFileSync(cmd, ['--version'], { stdio: 'ignore', timeout: 10000 });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
+
+const hasGpg = has('gpg');
+const hasOpenssl = has('openssl');
+
+const DOC = [
+    '#+TITLE: Notes',
+    '* Public',
+    'visible text',
+    '* Credentials                                  :work:crypt:',
+    'SCHEDULED: <2026-10-20 Tue>',
+    ':PROPERTIES:',
+    ':ID: creds',
+    ':END:',
+    'password: hunter2',
+    '** Nested                                      :crypt:',
+    'api key: abc',
+    '',
+    '* After',
+    'more',
+];
+
+describe('finding entries', () => {
+    it('reads headline tags', () => {
+        expect(headingTags('* Credentials   :work:crypt:')).toEqual(['work', 'crypt']);
+        expect(headingTags('* No tags here')).toEqual([]);
+        expect(headingTags('not a heading :crypt:')).toEqual([]);
+    });
+
+    it('finds the outermost tagged subtree, skipping planning and properties', () => {
+        const entries = findCryptEntries(DOC);
+        expect(entries).toEqual([{ heading: 3, bodyStart: 8, bodyEnd: 11, end: 12, encrypted: false }]);
+        expect(entryBody(DOC, entries[0])).toBe('password: hunter2\n** Nested                                      :crypt:\napi key: abc');
+        expect(findCryptEntryAt(DOC, 10)?.heading).toBe(3);
+        expect(findCryptEntryAt(DOC, 2)).toBeUndefined();
+    });
+
+    it('recognizes encrypted bodies', () => {
+        const lines = ['* Secret :crypt:', '-----BEGIN PGP MESSAGE-----', '', 'jA0E', '-----END PGP MESSAGE-----'];
+        expect(findCryptEntries(lines)[0].encrypted).toBe(true);
+        expect(cipherMethod(lines.slice(1).join('\n'))).toBe('gpg');
+    });
+
+    it('adds the crypt tag to a headline', () => {
+        expect(addHeadingTag('* Secret')).toBe('* Secret :crypt:');
+        expect(addHeadingTag('* Secret  :work:')).toBe('* Secret  :work:crypt:');
+        expect(addHeadingTag('* Secret :crypt:')).toBe('* Secret :crypt:');
+    });
+});
+
+describe('redactCryptEntries', () => {
+    it('blanks tagged bodies and keeps line numbers', () => {
+        const redacted = redactCryptEntries(DOC.join('\n')).split('\n');
+        expect(redacted).toHaveLength(DOC.length);
+        expect(redacted.join('\n')).not.toContain('hunter2');
+        expect(redacted.join('\n')).not.toContain('api key');
+        expect(redacted[3]).toBe(DOC[3]);
+        expect(redacted[6]).toBe(':ID: creds');
+        expect(redacted[2]).toBe('visible text');
+        expect(redacted[13]).toBe('more');
+    });
+
+    it('returns untagged content unchanged', () => {
+        const content = '* A\ntext\n';
+        expect(redactCryptEntries(content)).toBe(content);
+    });
+});
+
+describe('passphrases', () => {
+    it('knows which methods are symmetric', () => {
+        expect(needsPassphrase({})).toBe(true);
+        expect(needsPassphrase({ method: 'gpg', key: 'me@example.com' })).toBe(false);
+        expect(needsPassphrase({ method: 'age', key: 'age1xyz' })).toBe(false);
+        expect(needsPassphrase({ method: 'openssl' })).toBe(true);
+    });
+
+    it('refuses symmetric encryption without a passphrase', async () => {
+        await expect(encryptText('x', { method: 'openssl' })).rejects.toThrow(/passphrase/);
+        await expect(encryptText('x', { method: 'age' })).rejects.toThrow(/recipient/);
+    });
+});
+
+describe.runIf(hasGpg)('gpg', () => {
+    let home: string;
+
+    beforeAll(() => {
+        home = fs.mkdtempSync(path.join(os.tmpdir(), 'crypt-gpg-'));
+        fs.chmodSync(home, 0o700);
+    });
+
+    afterAll(() => {
+        try {
+            execFileSync('gpgconf', ['--kill', 'gpg-agent'], { env: { ...process.env, GNUPGHOME: home }, stdio: 'ignore', timeout: 10000 });
+        } catch { /* no agent was started */ }
+        fs.rmSync(home, { recursive: true, force: true });
+    });
+
+    it('round-trips a symmetric entry', async () => {
+        const options = { passphrase: 'correct horse', env: { GNUPGHOME: home } };
+        const cipher = await encryptText('password: hunter2\napi key: abc', options);
+        expect(cipher).toMatch(/^-----BEGIN PGP MESSAGE-----/);
+        expect(cipher).not.toContain('hunter2');
+        expect(cipherNeedsPassphrase(cipher)).toBe(true);
+        expect(await decryptText(cipher, options)).toBe('password: hunter2\napi key: abc');
+        await expect(decryptText(cipher, { ...options, passphrase: 'wrong' })).rejects.toThrow();
+    });
+});
+
+describe.runIf(hasOpenssl)('openssl', () => {
+    it('round-trips with a passphrase', async () => {
+        const cipher = await encryptText('secret', { method: 'openssl', passphrase: 'pw' });
+        expect(cipher).toMatch(/^-----BEGIN OPENSSL ENCRYPTED MESSAGE-----\n[\s\S]+\n-----END OPENSSL ENCRYPTED MESSAGE-----$/);
+        expect(cipherMethod(cipher)).toBe('openssl');
+        expect(cipherNeedsPassphrase(cipher)).toBe(true);
+        expect(await decryptText(cipher, { passphrase: 'pw' })).toBe('secret');
+        await expect(decryptText(cipher, { passphrase: 'nope' })).rejects.toThrow();
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the Markdown export backend (GFM, Hugo and MyST flavors)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { exportToMarkdown, type MarkdownExportOptions } from '../orgExportMarkdown';
+import { parseOrgFast } from '../orgExportParser';
+
+function md(content: string, options?: Partial<MarkdownExportOptions>): string {
+    return exportToMarkdown(parseOrgFast(content), options);
+}
+
+describe('MarkdownExportBackend', () => {
+    describe('front matter and title', () => {
+        const doc = [
+            '#+TITLE: My "Doc"',
+            '#+AUTHOR: Kim',
+            '#+DATE: <2026-01-15 Thu>',
+            '#+FILETAGS: :a:b:',
+            '',
+            '* Intro',
+            'Text.',
+        ].join('\n');
+
+        it('writes a title heading for GFM and shifts headlines down', () => {
+            expect(md(doc)).toBe('# My "Doc"\n\n*Kim*\n\n## Intro\n\nText.\n');
+        });
+
+        it('writes TOML front matter for Hugo', () => {
+            expect(md(doc, { flavor: 'hugo' })).toBe([
+                '+++',
+                'title = "My \\"Doc\\""',
+                'author = ["Kim"]',
+                'date = 2026-01-15',
+                'tags = ["a", "b"]',
+                '+++',
+                '',
+                '## Intro',
+                '',
+                'Text.',
+                '',
+            ].join('\n'));
+        });
+
+        it('writes YAML front matter for MyST', () => {
+            const out = md(doc, { flavor: 'myst' });
+            expect(out.startsWith('---\ntitle: "My \\"Doc\\""\nauthor: "Kim"\ndate: 2026-01-15\nkeywords: ["a", "b"]\n---\n')).toBe(true);
+            expect(out).toContain('\n# Intro\n');
+        });
+
+        it('honors frontMatter and bodyOnly', () => {
+            expect(md(doc, { frontMatter: 'yaml' })).toContain('---\ntitle: "My \\"Doc\\""');
+            expect(md(doc, { bodyOnly: true })).toBe('# Intro\n\nText.\n');
+        });
+
+        it('reads Hugo keywords', () => {
+            const out = md('#+TITLE: T\n#+HUGO_TAGS: x y\n#+HUGO_CATEGORIES: notes\n#+HUGO_DRAFT: true\n', { flavor: 'hugo' });
+            expect(out).toContain('tags = ["x", "y"]\ncategories = ["notes"]\ndraft = true\n');
+        });
+    });
+
+    describe('headlines', () => {
+        it('honors excludeTags, TODO keywords and tags', () => {
+            const out = md('* TODO Task :work:\n* Hidden :noexport:\nsecret\n');
+            expect(out).toBe('# TODO Task :work:\n');
+            expect(md('#+OPTIONS: todo:nil tags:nil\n* TODO Task :work:\n')).toBe('# Task\n');
+        });
+
+        it('turns headlines below headlineLevel into list items', () => {
+            const out = md('* One\n** Two\nBody\n*** Three\n', { headlineLevel: 1 });
+            expect(out).toBe('# One\n\n- Two\n\n  Body\n\n  - Three\n');
+        });
+
+        it('anchors headlines that links point at, in each flavor', () => {
+            const doc = '* Setup\n:PROPERTIES:\n:CUSTOM_ID: setup\n:END:\n* Use\nSee [[#setup][setup]] and [[*Use]].\n';
+            expect(md(doc)).toContain('# <a id="setup"></a>Setup');
+            expect(md(doc)).toContain('# <a id="org-use"></a>Use');
+            expect(md(doc)).toContain('See [setup](#setup) and [Use](#org-use).');
+            expect(md(doc, { flavor: 'hugo' })).toContain('## Setup {#setup}');
+            expect(md(doc, { flavor: 'myst' })).toContain('(setup)=\n# Setup');
+            expect(md(doc, { flavor: 'myst' })).toContain('and [](#org-use).');
+        });
+
+        it('writes a table of contents', () => {
+            const doc = '* A\n** B\n*** C\n';
+            expect(md(doc, { toc: 2 })).toContain('# Table of Contents\n\n- [A](#org-a)\n  - [B](#org-b)\n\n');
+            expect(md(doc, { toc: 2, flavor: 'myst' })).toContain('```{contents}\n:depth: 2\n```');
+        });
+    });
+
+    describe('blocks', () => {
+        it('writes lists with task boxes and continuation indentation', () => {
+            const out = md('- one\n- [X] two\n  more\n  1. nested\n- [ ] three\n');
+            expect(out).toBe('- one\n- [x] two\n  more\n  1. nested\n- [ ] three\n');
+        });
+
+        it('writes pipe tables with the first row as header', () => {
+            const out = md('#+CAPTION: Data\n| a | b |\n|---+---|\n| 1 | x |\n');
+            expect(out).toContain('| a   | b   |\n| --- | --- |\n| 1   | x   |');
+            expect(out).toContain('*Data*');
+            expect(md('#+CAPTION: Data\n#+NAME: tab\n| a |\n| 1 |\n', { flavor: 'myst' }))
+                .toContain('```{table} Data\n:name: tab\n\n| a   |\n| --- |\n| 1   |\n```');
+        });
+
+        it('honors :exports on source blocks', () => {
+            const doc = '#+begin_src python :exports code\nprint(1)\n#+end_src\n\n#+RESULTS:\n: 1\n';
+            expect(md(doc)).toBe('```python\nprint(1)\n```\n');
+            expect(md(doc.replace(':exports code', ':exports results'))).toBe('```\n1\n```\n');
+        });
+
+        it('uses a longer fence when the code contains backticks', () => {
+            expect(md('#+begin_src md\n```\nx\n```\n#+end_src\n')).toBe('````md\n```\nx\n```\n````\n');
+        });
+
+        it('writes admonitions as alerts or directives', () => {
+            const doc = '#+begin_warning\nCareful.\n#+end_warning\n';
+            expect(md(doc)).toBe('> [!WARNING]\n> Careful.\n');
+            expect(md(doc, { flavor: 'myst' })).toBe('```{warning}\nCareful.\n```\n');
+        });
+
+        it('writes figures per flavor', () => {
+            const doc = '#+CAPTION: A plot\n#+NAME: fig:plot\n[[./plot.png]]\n';
+            expect(md(doc)).toContain('![A plot](./plot.png "A plot")');
+            expect(md(doc, { flavor: 'hugo' })).toContain('{{< figure src="./plot.png" alt="A plot" caption="A plot" >}}');
+            expect(md(doc, { flavor: 'myst' })).toBe('```{figure} ./plot.png\n:name: fig:plot\n:alt: A plot\n\nA plot\n```\n');
+        });
+
+        it('keeps export blocks for markdown and HTML', () => {
+            expect(md('#+begin_export markdown\n**raw**\n#+end_export\n')).toBe('**raw**\n');
+            expect(md('#+begin_export html\n<br>\n#+end_export\n')).toBe('<br>\n');
+            expect(md('#+begin_export html\n<br>\n#+end_export\n', { flavor: 'myst' })).toBe('```{raw} html\n<br>\n```\n');
+            expect(md('#+begin_export latex\n\\newpage\n#+end_export\n')).toBe('\n');
+        });
+    });
+
+    describe('inline markup', () => {
+        it('converts emphasis and escapes Markdown characters', () => {
+            expect(md('*b* /i/ +s+ =v= ~c~ and 2*3 and snake_case\n'))
+                .toBe('**b** *i* ~~s~~ `v` `c` and 2\\*3 and snake_case\n');
+        });
+
+        it('writes math per flavor', () => {
+            expect(md('Let \\(x^2\\) and $y$.\n')).toBe('Let $x^2$ and $y$.\n');
+            expect(md('Let \\(x^2\\).\n', { flavor: 'myst' })).toBe('Let {math}`x^2`.\n');
+        });
+
+        it('rewrites links to org files', () => {
+            expect(md('[[file:notes.org::*Usage][notes]]\n')).toBe('[notes](notes.md#org-usage)\n');
+            expect(md('[[file:notes.org][notes]]\n', { flavor: 'hugo' })).toBe('[notes]({{< relref "notes.md" >}})\n');
+            expect(md('[[https://example.com][site]]\n')).toBe('[site](https://example.com)\n');
+        });
+    });
+
+    describe('footnotes and citations', () => {
+        it('collects footnotes at the end in reference order', () => {
+            const out = md('One[fn:b] two[fn::inline].\n\n[fn:b] Second.\n');
+            expect(out).toBe('One[^b] two[^inline-1].\n\n[^b]: Second.\n[^inline-1]: inline\n');
+            expect(md('One[fn:b].\n\n[fn:b] Second.\n', { includeFootnotes: false })).toBe('One.\n');
+        });
+
+        it('writes Pandoc citations without a bibliography', () => {
+            expect(md('See cite:smith2020 and [cite/t:@jones2019].\n'))
+                .toBe('See [@smith2020] and @jones2019.\n');
+        });
+
+        it('writes cite roles and a bibliography directive for MyST', () => {
+            expect(md('See cite:smith2020,doe2021 and [cite/t:@jones2019].\n', { flavor: 'myst' }))
+                .toBe('See {cite:p}`smith2020,doe2021` and {cite:t}`jones2019`.\n\n```{bibliography}\n```\n');
+        });
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for the ODT export backend
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as JSZip from 'jszip';
+import { exportToOdt, OdtExportOptions } from '../orgExportOdt';
+import { parseOrgFast } from '../orgExportParser';
+
+/** A 2x1 pixel PNG */
+const PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAEUlEQVR42mP8z8Dwn4GBgQEAEQQB/6sQ6FoAAAAASUVORK5CYII=',
+    'base64'
+);
+
+type Zip = Awaited<ReturnType<typeof JSZip.loadAsync>>;
+
+async function exportZip(content: string, options?: Partial<OdtExportOptions>): Promise<Zip> {
+    return JSZip.loadAsync(await exportToOdt(parseOrgFast(content), options));
+}
+
+async function part(zip: Zip, name: string): Promise<string> {
+    const data = await zip.file(name)?.async('string');
+    if (data === undefined) {
+        throw new Error(`Missing part ${name}`);
+    }
+    return data;
+}
+
+async function contentXml(content: string, options?: Partial<OdtExportOptions>): Promise<string> {
+    return part(await exportZip(content, options), 'content.xml');
+}
+
+describe('exportToOdt', () => {
+    describe('package', () => {
+        it('stores the mimetype uncompressed as the first entry', async () => {
+            const buffer = await exportToOdt(parseOrgFast('Text.\n'));
+            // Local file header: compression method at 8, name length at 26, name at 30
+            expect(buffer.readUInt16LE(8)).toBe(0);
+            const nameLength = buffer.readUInt16LE(26);
+            expect(buffer.toString('ascii', 30, 30 + nameLength)).toBe('mimetype');
+            expect(buffer.toString('ascii', 38, 38 + 39)).toBe('application/vnd.oasis.opendocument.text');
+        });
+
+        it('lists every part in the manifest', async () => {
+            const zip = await exportZip('#+TITLE: Notes\n#+AUTHOR: Jane Doe\n\nText.\n');
+            const manifest = await part(zip, 'META-INF/manifest.xml');
+            expect(manifest).toContain('manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"');
+            for (const name of ['content.xml', 'styles.xml', 'meta.xml']) {
+                expect(zip.file(name), name).not.toBeNull();
+                expect(manifest).toContain(`manifest:full-path="${name}"`);
+            }
+            const meta = await part(zip, 'meta.xml');
+            expect(meta).toContain('<dc:title>Notes</dc:title>');
+            expect(meta).toContain('<meta:initial-creator>Jane Doe</meta:initial-creator>');
+        });
+    });
+
+    describe('content', () => {
+        it('writes headings with outline levels and body paragraphs', async () => {
+            const xml = await contentXml('* Intro\n\nFirst.\n\nSecond.\n');
+            expect(xml).toMatch(/<text:h text:style-name="Heading_20_1" text:outline-level="1">.*Intro<\/text:h>/);
+            expect(xml).toContain('<text:p text:style-name="First_20_paragraph">First.</text:p>');
+            expect(xml).toContain('<text:p text:style-name="Text_20_body">Second.</text:p>');
+        });
+
+        it('keeps repeated spaces and tabs', async () => {
+            const xml = await contentXml('#+BEGIN_EXAMPLE\n\tindented  twice\n#+END_EXAMPLE\n');
+            expect(xml).toContain('<text:tab/>indented <text:s/>twice');
+        });
+
+        it('writes footnotes inline as notes', async () => {
+            const xml = await contentXml('Claim[fn:1].\n\n[fn:1] Source.\n');
+            expect(xml).toMatch(/<text:note text:id="ftn1" text:note-class="footnote"><text:note-citation>1<\/text:note-citation>/);
+            expect(xml).toContain('<text:p text:style-name="Footnote">Source.</text:p>');
+        });
+
+        it('writes links', async () => {
+            const xml = await contentXml('See [[https://example.com][the site]].\n');
+            expect(xml).toContain('<text:a xlink:type="simple" xlink:href="https://example.com" text:style-name="Internet_20_link">the site</text:a>');
+        });
+
+        it('writes ordered and unordered lists with their list styles', async () => {
+            const xml = await contentXml('1. a\n2. b\n\nText.\n\n- c\n');
+            expect(xml).toContain('<text:list text:style-name="L2"><text:list-item>');
+            expect(xml).toContain('<text:list text:style-name="L1"><text:list-item>');
+            expect(xml).toContain('<text:list-level-style-number text:level="1" style:num-suffix="." style:num-format="1">');
+        });
+
+        it('writes tables with header rows', async () => {
+            const xml = await contentXml('| a | b |\n|---+---|\n| 1 | 2 |\n');
+            expect(xml).toContain('<table:table table:name="Table1" table:style-name="Table">');
+            expect(xml).toContain('<table:table-column table:number-columns-repeated="2"/>');
+            expect(xml).toMatch(/<table:table-header-rows><table:table-row>.*a<\/text:p>.*<\/table:table-header-rows>/);
+        });
+
+        it('writes bold and italic as automatic text styles', async () => {
+            const xml = await contentXml('*bold* and /italic/\n');
+            expect(xml).toMatch(/<style:style style:name="T1" style:family="text"><style:text-properties fo:font-weight="bold"/);
+            expect(xml).toContain('<text:span text:style-name="T1">bold</text:span>');
+        });
+
+        it('writes a table of contents when requested', async () => {
+            const xml = await contentXml('#+OPTIONS: toc:t\n* One\n* Two\n');
+            expect(xml).toContain('<text:table-of-content');
+            expect(xml).toMatch(/<text:index-body>.*One.*Two.*<\/text:index-body>/);
+        });
+    });
+
+    describe('math', () => {
+        it('embeds formulas as MathML objects', async () => {
+            const zip = await exportZip('Area \\(\\pi r^2\\).\n');
+            const xml = await part(zip, 'content.xml');
+            const manifest = await part(zip, 'META-INF/manifest.xml');
+            expect(xml).toContain('<draw:object xlink:href="./Object 1"');
+            expect(await part(zip, 'Object 1/content.xml')).toContain('<msup><mi>r</mi><mn>2</mn></msup>');
+            expect(manifest).toContain('manifest:full-path="Object 1/" manifest:media-type="application/vnd.oasis.opendocument.formula"');
+        });
+    });
+
+    describe('images and reference documents', () => {
+        let testDir: string;
+
+        beforeEach(() => {
+            testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'org-odt-test-'));
+            fs.writeFileSync(path.join(testDir, 'fig.png'), PNG);
+        });
+
+        afterEach(() => {
+            fs.rmSync(testDir, { recursive: true, force: true });
+        });
+
+        it('embeds images in Pictures/', async () => {
+            const zip = await exportZip('[[file:fig.png]]\n', { basePath: testDir });
+            const xml = await part(zip, 'content.xml');
+            expect(zip.file('Pictures/image1.png')).not.toBeNull();
+            expect(xml).toContain('xlink:href="Pictures/image1.png"');
+            expect(await part(zip, 'META-INF/manifest.xml')).toContain('manifest:full-path="Pictures/image1.png" manifest:media-type="image/png"');
+        });
+
+        it('takes styles from a reference document', async () => {
+            const reference = await exportZip('Text.\n');
+            reference.file('styles.xml', '<office:document-styles>custom</office:document-styles>');
+            const referencePath = path.join(testDir, 'reference.odt');
+            fs.writeFileSync(referencePath, await reference.generateAsync({ type: 'nodebuffer' }));
+
+            const zip = await exportZip('Text.\n', { referenceDoc: referencePath });
+            expect(await part(zip, 'styles.xml')).toBe('<office:document-styles>custom</office:document-styles>');
+        });
+    });
+});
@@ -0,0 +1,257 @@
+/**
+ * Tests for the native DOCX writer
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as JSZip from 'jszip';
+import { OoxmlExportBackend, OoxmlExportOptions, createReferenceDocx } from '../orgExportOoxml';
+import { exportToDocx, resolveDocxEngine } from '../orgExportDocx';
+import { parseOrgFast } from '../orgExportParser';
+
+/** A 2x1 pixel PNG */
+const PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAEUlEQVR42mP8z8Dwn4GBgQEAEQQB/6sQ6FoAAAAASUVORK5CYII=',
+    'base64'
+);
+
+type Zip = Awaited<ReturnType<typeof JSZip.loadAsync>>;
+
+async function exportZip(content: string, options?: Partial<OoxmlExportOptions>): Promise<Zip> {
+    const buffer = await new OoxmlExportBackend().exportPackage(parseOrgFast(content), options);
+    return JSZip.loadAsync(buffer);
+}
+
+async function part(zip: Zip, name: string): Promise<string> {
+    const data = await zip.file(name)?.async('string');
+    if (data === undefined) {
+        throw new Error(`Missing part ${name}`);
+    }
+    return data;
+}
+
+async function documentXml(content: string, options?: Partial<OoxmlExportOptions>): Promise<string> {
+    return part(await exportZip(content, options), 'word/document.xml');
+}
+
+describe('OoxmlExportBackend', () => {
+    describe('package', () => {
+        it('writes the required parts', async () => {
+            const zip = await exportZip('* Heading\n\nText.\n');
+            for (const name of [
+                '[Content_Types].xml',
+                '_rels/.rels',
+                'word/document.xml',
+                'word/_rels/document.xml.rels',
+                'word/styles.xml',
+                'word/numbering.xml',
+                'word/settings.xml',
+                'word/footnotes.xml',
+                'docProps/core.xml',
+            ]) {
+                expect(zip.file(name), name).not.toBeNull();
+            }
+        });
+
+        it('fills core properties from the document keywords', async () => {
+            const zip = await exportZip('#+TITLE: Report & Notes\n#+AUTHOR: Jane Doe\n\nText.\n');
+            const core = await part(zip, 'docProps/core.xml');
+            expect(core).toContain('<dc:title>Report &amp; Notes</dc:title>');
+            expect(core).toContain('<dc:creator>Jane Doe</dc:creator>');
+        });
+    });
+
+    describe('paragraphs', () => {
+        it('styles headings and the paragraph that follows them', async () => {
+            const xml = await documentXml('* Intro\n\nFirst.\n\nSecond.\n');
+            expect(xml).toContain('<w:pStyle w:val="Heading1"/>');
+            expect(xml).toMatch(/<w:pStyle w:val="FirstParagraph"\/>.*First\./);
+            expect(xml).toMatch(/<w:pStyle w:val="BodyText"\/>.*Second\./);
+        });
+
+        it('numbers headings when section numbers are on', async () => {
+            const xml = await documentXml('* One\n** Sub\n', { sectionNumbers: true });
+            expect(xml).toContain('1.1 ');
+        });
+
+        it('writes inline markup as run properties', async () => {
+            const xml = await documentXml('*bold* /italic/ =code=\n');
+            expect(xml).toMatch(/<w:rPr><w:b\/><w:bCs\/><\/w:rPr><w:t xml:space="preserve">bold<\/w:t>/);
+            expect(xml).toMatch(/<w:rPr><w:i\/><w:iCs\/><\/w:rPr><w:t xml:space="preserve">italic<\/w:t>/);
+            expect(xml).toContain('<w:rStyle w:val="VerbatimChar"/>');
+        });
+
+        it('writes source blocks as one paragraph with line breaks', async () => {
+            const xml = await documentXml('#+BEGIN_SRC python\nx = 1\ny = 2\n#+END_SRC\n');
+            expect(xml.match(/<w:pStyle w:val="SourceCode"\/>/g)).toHaveLength(1);
+            expect(xml).toMatch(/x = 1<\/w:t><\/w:r><w:r><w:br\/>/);
+        });
+
+        it('passes through docx export blocks', async () => {
+            const xml = await documentXml('#+BEGIN_EXPORT docx\n<w:p><w:r><w:t>raw</w:t></w:r></w:p>\n#+END_EXPORT\n');
+            expect(xml).toContain('<w:p><w:r><w:t>raw</w:t></w:r></w:p>');
+        });
+    });
+
+    describe('lists', () => {
+        it('gives each list its own numbering instance', async () => {
+            const zip = await exportZip('1. a\n2. b\n\nText.\n\n- c\n  1. d\n');
+            const xml = await part(zip, 'word/document.xml');
+            const numbering = await part(zip, 'word/numbering.xml');
+            const ids = new Set([...xml.matchAll(/<w:numId w:val="(\d+)"\/>/g)].map(m => m[1]));
+            expect(ids.size).toBe(3);
+            expect(xml).toContain('<w:ilvl w:val="1"/>');
+            expect(numbering.match(/<w:num w:numId=/g)).toHaveLength(3);
+            expect(numbering).toContain('<w:numFmt w:val="decimal"/>');
+            expect(numbering).toContain('<w:numFmt w:val="bullet"/>');
+        });
+    });
+
+    describe('footnotes', () => {
+        it('writes notes to footnotes.xml with references in the text', async () => {
+            const zip = await exportZip('Claim[fn:1].\n\n* Footnotes\n\n[fn:1] Source.\n');
+            const xml = await part(zip, 'word/document.xml');
+            const footnotes = await part(zip, 'word/footnotes.xml');
+            expect(xml).toContain('<w:footnoteReference w:id="1"/>');
+            expect(footnotes).toContain('<w:footnote w:id="1">');
+            expect(footnotes).toContain('Source.');
+            expect(footnotes).toContain('w:type="separator"');
+        });
+    });
+
+    describe('links', () => {
+        it('writes external links as relationships', async () => {
+            const zip = await exportZip('See [[https://example.com/a?b=1&c=2][the site]].\n');
+            const xml = await part(zip, 'word/document.xml');
+            const rels = await part(zip, 'word/_rels/document.xml.rels');
+            const id = xml.match(/<w:hyperlink r:id="(rId\d+)">/)?.[1];
+            expect(id).toBeDefined();
+            expect(rels).toContain(`Id="${id}"`);
+            expect(rels).toContain('Target="https://example.com/a?b=1&amp;c=2" TargetMode="External"');
+        });
+
+        it('writes internal links as bookmark anchors', async () => {
+            const xml = await documentXml('* Target\n:PROPERTIES:\n:CUSTOM_ID: target\n:END:\n\nSee [[#target][here]].\n');
+            const anchor = xml.match(/<w:hyperlink w:anchor="([^"]+)">/)?.[1];
+            expect(anchor).toBeDefined();
+            expect(xml).toContain(`<w:bookmarkStart w:id="`);
+            expect(xml).toContain(`w:name="${anchor}"/>`);
+        });
+    });
+
+    describe('tables and figures', () => {
+        it('writes tables with header rows and numbered captions', async () => {
+            const xml = await documentXml('#+CAPTION: Results\n| a | b |\n|---+---|\n| 1 | 2 |\n');
+            expect(xml).toContain('<w:tblStyle w:val="Table"/>');
+            expect(xml.match(/<w:tblHeader\/>/g)).toHaveLength(1);
+            expect(xml).toContain('Table 1: ');
+            expect(xml).toContain('Results');
+        });
+
+        describe('images', () => {
+            let testDir: string;
+
+            beforeEach(() => {
+                testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'org-ooxml-test-'));
+                fs.writeFileSync(path.join(testDir, 'fig.png'), PNG);
+            });
+
+            afterEach(() => {
+                fs.rmSync(testDir, { recursive: true, force: true });
+            });
+
+            it('embeds images as inline drawings', async () => {
+                const zip = await exportZip('#+CAPTION: A plot\n[[file:fig.png]]\n', { basePath: testDir });
+                const xml = await part(zip, 'word/document.xml');
+                const rels = await part(zip, 'word/_rels/document.xml.rels');
+                const types = await part(zip, '[Content_Types].xml');
+                expect(zip.file('word/media/image1.png')).not.toBeNull();
+                expect(rels).toContain('Target="media/image1.png"');
+                expect(types).toContain('<Default Extension="png" ContentType="image/png"/>');
+                expect(xml).toContain('<wp:inline');
+                expect(xml).toContain('Figure 1: ');
+                // 2x1 pixels at 96 dpi keeps its aspect ratio
+                const extent = xml.match(/<wp:extent cx="(\d+)" cy="(\d+)"\/>/);
+                expect(Number(extent![1])).toBe(2 * Number(extent![2]));
+            });
+
+            it('falls back to a link for missing images', async () => {
+                const xml = await documentXml('[[file:missing.png]]\n', { basePath: testDir });
+                expect(xml).not.toContain('<wp:inline');
+                expect(xml).toContain('missing.png');
+            });
+        });
+    });
+
+    describe('math', () => {
+        it('converts LaTeX fragments to OMML', async () => {
+            const xml = await documentXml('Energy \\(E = mc^2\\) holds.\n\n\\[ \\frac{a}{b} \\]\n');
+            expect(xml).toContain('<m:oMath>');
+            expect(xml).toContain('<m:oMathPara>');
+            expect(xml).toContain('<m:f>');
+        });
+    });
+
+    describe('table of contents', () => {
+        it('writes a pre-filled TOC field and asks Word to update it', async () => {
+            const zip = await exportZip('#+OPTIONS: toc:1\n* One\n** Deep\n* Two\n');
+            const xml = await part(zip, 'word/document.xml');
+            const settings = await part(zip, 'word/settings.xml');
+            expect(xml).toContain('<w:sdt>');
+            expect(xml).toContain('TOC \\o "1-1" \\h \\z \\u');
+            expect(settings).toContain('<w:updateFields w:val="true"/>');
+            const toc = xml.slice(xml.indexOf('<w:sdt>'), xml.indexOf('</w:sdt>'));
+            expect(toc).toContain('One');
+            expect(toc).not.toContain('Deep');
+        });
+    });
+
+    describe('reference documents', () => {
+        let testDir: string;
+
+        beforeEach(() => {
+            testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'org-ooxml-test-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(testDir, { recursive: true, force: true });
+        });
+
+        it('creates a reference document with the writer styles', async () => {
+            const zip = await JSZip.loadAsync(await createReferenceDocx());
+            const styles = await part(zip, 'word/styles.xml');
+            expect(styles).toContain('w:styleId="BodyText"');
+            expect(styles).toContain('w:styleId="Heading1"');
+        });
+
+        it('takes styles and page setup from a reference document', async () => {
+            const reference = await JSZip.loadAsync(await createReferenceDocx());
+            reference.file('word/styles.xml', '<w:styles>custom</w:styles>');
+            reference.file('word/document.xml',
+                '<w:document><w:body><w:sectPr><w:headerReference r:id="rId7"/><w:pgSz w:w="11906" w:h="16838"/></w:sectPr></w:body></w:document>');
+            const referencePath = path.join(testDir, 'reference.docx');
+            fs.writeFileSync(referencePath, await reference.generateAsync({ type: 'nodebuffer' }));
+
+            const zip = await exportZip('Text.\n', { referenceDoc: referencePath });
+            expect(await part(zip, 'word/styles.xml')).toBe('<w:styles>custom</w:styles>');
+            const xml = await part(zip, 'word/document.xml');
+            expect(xml).toContain('<w:pgSz w:w="11906" w:h="16838"/>');
+            expect(xml).not.toContain('headerReference');
+        });
+    });
+});
+
+describe('exportToDocx engine selection', () => {
+    it('uses the native writer when asked', async () => {
+        const buffer = await exportToDocx(parseOrgFast('Text.\n'), { engine: 'native' });
+        const zip = await JSZip.loadAsync(buffer);
+        expect(await part(zip, 'word/numbering.xml')).toContain('<w:numbering');
+    });
+
+    it('resolves explicit engines as given', () => {
+        expect(resolveDocxEngine('native')).toBe('native');
+        expect(resolveDocxEngine('pandoc')).toBe('pandoc');
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for the reveal.js export backend
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    exportToReveal,
+    resolveRevealOptions,
+    revealAssetPaths,
+    DEFAULT_REVEAL_ROOT,
+    type RevealExportOptions,
+} from '../orgExportReveal';
+import { parseOrgFast } from '../orgExportParser';
+import type { BibEntry } from '../../references/bibtexParser';
+
+function reveal(content: string, options?: Partial<RevealExportOptions>): string {
+    return exportToReveal(parseOrgFast(content), options);
+}
+
+/** Ids of the top-level <section>s, with nested stacks as arrays */
+function slideIds(html: string): (string | string[])[] {
+    const body = html.slice(html.indexOf('<div class="slides">'));
+    const result: (string | string[])[] = [];
+    let stack: string[] | undefined;
+    let depth = 0;
+    for (const match of body.matchAll(/<section(?: id="([^"]*)")?[^>]*>|<\/section>/g)) {
+        if (match[0] === '</section>') {
+            depth--;
+            if (depth === 0 && stack) {
+                result.push(stack);
+                stack = undefined;
+            }
+            continue;
+        }
+        depth++;
+        const id = match[1] ?? '';
+        if (depth === 1 && id === '') {
+            stack = [];
+        } else if (stack) {
+            stack.push(id);
+        } else if (depth === 1) {
+            result.push(id);
+        }
+    }
+    return result;
+}
+
+describe('RevealExportBackend', () => {
+    describe('slide structure', () => {
+        const doc = [
+            '#+TITLE: Talk',
+            '#+AUTHOR: Kim',
+            '',
+            '* One',
+            'First.',
+            '** Detail',
+            'More.',
+            '*** Point',
+            'Deep.',
+            '** Other',
+            '* Two',
+        ].join('\n');
+
+        it('makes top headlines slides and their children vertical stacks', () => {
+            expect(slideIds(reveal(doc))).toEqual([
+                'title-slide',
+                ['org-one', 'org-detail', 'org-other'],
+                'org-two',
+            ]);
+        });
+
+        it('keeps headlines below the frame level on their slide', () => {
+            const html = reveal(doc);
+            expect(html).toContain('<section id="org-detail">\n<h3>Detail</h3>\n<p>More.</p>');
+            expect(html).toMatch(/<div id="org-point" class="org-section org-level-3">\n<h4>Point<\/h4>/);
+        });
+
+        it('honors H: and #+REVEAL_HLEVEL', () => {
+            expect(slideIds(reveal('#+OPTIONS: H:1\n' + doc))).toEqual(['title-slide', 'org-one', 'org-two']);
+            expect(slideIds(reveal('#+REVEAL_HLEVEL: 2\n' + doc))).toEqual([
+                'title-slide',
+                'org-one',
+                ['org-detail', 'org-point'],
+                'org-other',
+                'org-two',
+            ]);
+        });
+
+        it('puts text before the first headline on its own slide', () => {
+            expect(reveal('Intro.\n* A\n', { titleSlide: false })).toContain('<section class="org-preamble">\n<p>Intro.</p>');
+        });
+
+        it('writes a title slide unless #+REVEAL_TITLE_SLIDE is nil', () => {
+            expect(reveal(doc)).toContain('<section id="title-slide">\n<h1 class="title">Talk</h1>\n<h2 class="author">Kim</h2>');
+            expect(reveal('#+REVEAL_TITLE_SLIDE: nil\n' + doc)).not.toContain('title-slide');
+        });
+
+        it('turns REVEAL_ properties into slide attributes', () => {
+            const html = reveal('* A\n:PROPERTIES:\n:REVEAL_BACKGROUND: #123\n:REVEAL_DATA_TRANSITION: zoom\n:REVEAL_EXTRA_ATTR: data-auto-animate\n:END:\n');
+            expect(html).toContain('<section id="org-a" data-background="#123" data-transition="zoom" data-auto-animate>');
+            expect(html).not.toContain('REVEAL_BACKGROUND');
+        });
+    });
+
+    describe('notes and fragments', () => {
+        it('turns NOTES blocks into speaker notes', () => {
+            const html = reveal('* A\n#+BEGIN_NOTES\nSay hi.\n#+END_NOTES\n');
+            expect(html).toContain('<aside class="notes">\n<p>Say hi.</p>\n</aside>');
+        });
+
+        it('makes elements fragments with :frag and :frag_idx', () => {
+            const html = reveal('* A\n#+ATTR_REVEAL: :frag t :frag_idx 2\nShown later.\n');
+            expect(html).toContain('<p class="fragment" data-fragment-index="2">Shown later.</p>');
+        });
+
+        it('applies a list of fragment styles to list items, repeating the last', () => {
+            const html = reveal('* A\n#+ATTR_REVEAL: :frag (appear fade-in)\n- a\n- b\n- c\n');
+            const items = [...html.matchAll(/<li class="([^"]*)">/g)].map(m => m[1]);
+            expect(items).toEqual(['fragment appear', 'fragment fade-in', 'fragment fade-in']);
+        });
+
+        it('leaves lists without :frag alone', () => {
+            expect(reveal('* A\n- a\n- b\n')).not.toContain('fragment');
+        });
+    });
+
+    describe('footnotes and citations', () => {
+        const bibEntries: BibEntry[] = [{
+            type: 'article',
+            key: 'smith-2020',
+            title: 'A Study',
+            author: 'Smith, John',
+            year: '2020',
+            journal: 'Journal',
+            fields: {} as Record<string, string>,
+            raw: '@article{smith-2020, author={Smith, John}, title={A Study}, year={2020}}',
+        }];
+
+        it('collects footnotes on a final slide', () => {
+            const html = reveal('* A\nText[fn:1].\n\n[fn:1] Note.\n');
+            expect(slideIds(html)).toEqual(['org-a', 'footnotes-slide']);
+        });
+
+        it('puts the bibliography on its own slide', () => {
+            const html = reveal('* A\nSee cite:smith-2020.\n', { bibEntries });
+            expect(slideIds(html)).toEqual(['org-a', 'bibliography']);
+            expect(html).toContain('<section id="bibliography" class="bibliography">');
+            expect(html).toContain('Smith');
+        });
+    });
+
+    describe('page', () => {
+        it('loads reveal.js, the theme and plugins from the root', () => {
+            const html = reveal('#+REVEAL_THEME: white\n#+REVEAL_PLUGINS: (notes zoom)\n* A\n');
+            expect(html).toContain(`<link rel="stylesheet" href="${DEFAULT_REVEAL_ROOT}/dist/theme/white.css" id="theme" />`);
+            expect(html).toContain(`<script src="${DEFAULT_REVEAL_ROOT}/plugin/zoom/zoom.js"></script>`);
+            expect(html).toContain('plugins: [RevealNotes, RevealZoom]');
+            expect(html).not.toContain('mathjax3');
+        });
+
+        it('configures MathJax through the math plugin', () => {
+            const html = reveal('#+REVEAL_MATHJAX_URL: mathjax/tex-chtml.js\n* A\n\\(x^2\\)\n');
+            expect(html).toContain('mathjax3: { mathjax: "mathjax/tex-chtml.js"');
+            expect(html).toContain('RevealMath.MathJax3');
+            expect(reveal('* A\n', { mathJax: false })).not.toContain('RevealMath');
+        });
+
+        it('passes transition and init options to Reveal.initialize', () => {
+            const html = reveal('#+REVEAL_TRANS: fade\n#+REVEAL_INIT_OPTIONS: slideNumber: true, controls: false\n* A\n');
+            expect(html).toContain('transition: "fade"');
+            expect(html).toContain('  slideNumber: true, controls: false\n});');
+        });
+
+        it('loads from the bundle directory when assets are bundled', () => {
+            const html = reveal('#+REVEAL_ROOT: ~/src/reveal.js\n* A\n', { bundleDir: 'reveal.js' });
+            expect(html).toContain('<script src="reveal.js/dist/reveal.js"></script>');
+            expect(html).not.toContain('~/src');
+        });
+
+        it('returns only the slides in body-only mode', () => {
+            const html = reveal('#+TITLE: T\n* A\n', { bodyOnly: true });
+            expect(html.startsWith('<section id="org-a">')).toBe(true);
+            expect(html).not.toContain('Reveal.initialize');
+        });
+    });
+});
+
+describe('resolveRevealOptions', () => {
+    it('lets document keywords override options', () => {
+        const opts = resolveRevealOptions(parseOrgFast('#+REVEAL_THEME: moon\n'), { theme: 'white', transition: 'zoom' });
+        expect(opts.theme).toBe('moon');
+        expect(opts.transition).toBe('zoom');
+        expect(opts.frameLevel).toBe(2);
+    });
+
+    it('lists the assets a presentation needs', () => {
+        const opts = resolveRevealOptions(parseOrgFast('#+REVEAL_THEME: serif\n'));
+        expect(revealAssetPaths(opts)).toEqual([
+            'dist/reset.css',
+            'dist/reveal.css',
+            'dist/reveal.js',
+            'dist/theme/serif.css',
+            'plugin/notes/notes.js',
+            'plugin/highlight/highlight.js',
+            'plugin/highlight/monokai.css',
+            'plugin/math/math.js',
+        ]);
+    });
+});
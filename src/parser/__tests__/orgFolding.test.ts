@@ -0,0 +1,32 @@
+/**
+ * Tests for org folding ranges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeOrgFoldingRanges } from '../orgFolding';
+
+const LINES = [
+    '* Heading',
+    '#+BEGIN_SRC python',
+    'x = 1',
+    '#+END_SRC',
+    '* Next',
+    'text',
+];
+
+describe('computeOrgFoldingRanges', () => {
+    it('folds headings and blocks', () => {
+        const ranges = computeOrgFoldingRanges(LINES);
+
+        expect(ranges).toContainEqual({ start: 0, end: 3 });
+        expect(ranges).toContainEqual({ start: 1, end: 3 });
+    });
+
+    it('stops scanning once cancelled, even inside a block', () => {
+        let polls = 0;
+        const ranges = computeOrgFoldingRanges(LINES, () => ++polls > 2);
+
+        expect(ranges).toEqual([]);
+        expect(polls).toBeLessThanOrEqual(4);
+    });
+});
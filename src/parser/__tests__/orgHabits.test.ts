@@ -0,0 +1,194 @@
+/**
+ * Tests for habit parsing, consistency graphs and streaks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseHabitRepeater,
+    parseHabitCompletions,
+    parseHabits,
+    buildHabitGraph,
+    renderHabitGraph,
+    computeHabitStats,
+    formatHabitReport,
+    type Habit,
+} from '../orgHabits';
+
+const TODAY = new Date(2024, 3, 15);
+
+const HABITS_ORG = `* TODO Exercise
+  SCHEDULED: <2024-04-16 Tue .+1d/3d>
+  :PROPERTIES:
+  :STYLE:    habit
+  :END:
+  :LOGBOOK:
+  - State "DONE"       from "TODO"       [2024-04-15 Mon 07:30]
+  - State "DONE"       from "TODO"       [2024-04-13 Sat 07:30]
+  - State "WAITING"    from "TODO"       [2024-04-10 Wed 07:30]
+  - State "DONE"       from "TODO"       [2024-04-08 Mon 07:30]
+  :END:
+** Stretching notes
+  - State "DONE"       from "TODO"       [2024-04-14 Sun 07:30]
+* TODO Water plants
+  SCHEDULED: <2024-04-14 Sun +1w>
+  :PROPERTIES:
+  :STYLE: habit
+  :END:
+* TODO Read
+  :PROPERTIES:
+  :STYLE: habit
+  :END:
+* TODO Not a habit
+  SCHEDULED: <2024-04-16 Tue .+1d>
+`;
+
+function habit(repeater: string, scheduled: Date, completions: Date[]): Habit {
+    return {
+        title: 'Habit',
+        file: '/notes/habits.org',
+        line: 1,
+        scheduled,
+        repeater: parseHabitRepeater(repeater),
+        completions,
+    };
+}
+
+describe('parseHabitRepeater', () => {
+    it('reads the interval and the range in days', () => {
+        expect(parseHabitRepeater('.+1d/3d')).toEqual({ raw: '.+1d/3d', type: '.+', minDays: 1, maxDays: 3 });
+        expect(parseHabitRepeater('<2024-04-16 Tue ++1w>')).toEqual({ raw: '++1w', type: '++', minDays: 7 });
+        expect(parseHabitRepeater('+1m').minDays).toBe(30);
+    });
+
+    it('rejects missing, sub-day and inverted repeaters', () => {
+        expect(() => parseHabitRepeater('<2024-04-16 Tue>')).toThrow(/no scheduled repeat/);
+        expect(() => parseHabitRepeater('+12h')).toThrow(/less than 1d/);
+        expect(() => parseHabitRepeater('.+3d/2d')).toThrow(/does not end after/);
+    });
+});
+
+describe('parseHabitCompletions', () => {
+    it('keeps only changes to a done state, oldest first', () => {
+        const dates = parseHabitCompletions(HABITS_ORG.split('\n').slice(5, 11), ['DONE']);
+        expect(dates).toEqual([new Date(2024, 3, 8), new Date(2024, 3, 13), new Date(2024, 3, 15)]);
+    });
+});
+
+describe('parseHabits', () => {
+    const { habits, errors } = parseHabits(HABITS_ORG, '/notes/habits.org', { doneKeywords: ['DONE'] });
+
+    it('finds STYLE habit headings with their schedule and own logbook', () => {
+        expect(habits.map(h => h.title)).toEqual(['Exercise', 'Water plants']);
+        const [exercise, water] = habits;
+        expect(exercise.line).toBe(1);
+        expect(exercise.todoState).toBe('TODO');
+        expect(exercise.scheduled).toEqual(new Date(2024, 3, 16));
+        expect(exercise.repeater.maxDays).toBe(3);
+        // The child's log line belongs to the child, not the habit.
+        expect(exercise.completions).toHaveLength(3);
+        expect(water.completions).toEqual([]);
+    });
+
+    it('reports habits without a scheduled repeater', () => {
+        expect(errors).toEqual(['/notes/habits.org:19: habit "Read" has no scheduled date']);
+    });
+});
+
+describe('buildHabitGraph', () => {
+    it('colors days as org-habit does for a .+ habit with a range', () => {
+        const [exercise] = parseHabits(HABITS_ORG, '/notes/habits.org').habits;
+        const days = buildHabitGraph(exercise, { today: TODAY, precedingDays: 7, followingDays: 3 });
+
+        expect(days).toHaveLength(11);
+        expect(days.map(d => d.face)).toEqual([
+            'ready', 'ready', 'ready', 'alert', 'overdue', 'overdue',
+            'ready', 'clear', 'ready', 'ready', 'alert',
+        ]);
+        expect(days.map(d => d.future)).toEqual([
+            false, true, true, true, false, false,
+            true, false, true, true, true,
+        ]);
+        expect(days[7].today).toBe(true);
+        expect(renderHabitGraph(days)).toBe('*    * *   ');
+        expect(renderHabitGraph(days, true)).toBe('*...-*.*...');
+    });
+
+    it('marks today with ! and shows an untouched overdue habit', () => {
+        const water = habit('+1w', new Date(2024, 3, 14), []);
+        const days = buildHabitGraph(water, { today: TODAY, precedingDays: 2, followingDays: 1 });
+        expect(days.map(d => d.face)).toEqual(['clear', 'alert', 'overdue', 'overdue']);
+        expect(renderHabitGraph(days, true)).toBe('..!.');
+    });
+
+    it('steps the schedule back one repeat per completion for + habits', () => {
+        const days = buildHabitGraph(
+            habit('+2d', new Date(2024, 3, 16), [new Date(2024, 3, 10), new Date(2024, 3, 12), new Date(2024, 3, 14)]),
+            { today: TODAY, precedingDays: 4, followingDays: 0 }
+        );
+        expect(days.map(d => d.face)).toEqual(['clear', 'ready', 'clear', 'ready', 'clear']);
+    });
+
+    it('replays the schedule in whole repeats for ++ habits', () => {
+        const days = buildHabitGraph(
+            habit('++1w', new Date(2024, 3, 17), [new Date(2024, 3, 3), new Date(2024, 3, 10)]),
+            { today: TODAY, precedingDays: 5, followingDays: 0 }
+        );
+        expect(days.map(d => d.face)).toEqual(['ready', 'clear', 'clear', 'clear', 'clear', 'clear']);
+        expect(days[0].done).toBe(true);
+    });
+});
+
+describe('computeHabitStats', () => {
+    it('counts streaks within the range and the intervals missed', () => {
+        const [exercise] = parseHabits(HABITS_ORG, '/notes/habits.org').habits;
+        expect(computeHabitStats(exercise, TODAY)).toEqual({
+            completions: 3,
+            currentStreak: 2,
+            longestStreak: 2,
+            misses: 1,
+            lastDone: new Date(2024, 3, 15),
+            nextDue: new Date(2024, 3, 16),
+            status: 'clear',
+        });
+    });
+
+    it('breaks the current streak once the range has passed', () => {
+        const daily = habit('.+1d', new Date(2024, 3, 11), [
+            new Date(2024, 3, 8), new Date(2024, 3, 9), new Date(2024, 3, 10),
+        ]);
+        const stats = computeHabitStats(daily, TODAY);
+        expect(stats.longestStreak).toBe(3);
+        expect(stats.currentStreak).toBe(0);
+        // The 11th through the 14th went by undone.
+        expect(stats.misses).toBe(4);
+        expect(stats.status).toBe('overdue');
+    });
+
+    it('is all zeros for a habit never done', () => {
+        const stats = computeHabitStats(habit('+1w', new Date(2024, 3, 20), []), TODAY);
+        expect(stats).toMatchObject({ completions: 0, currentStreak: 0, longestStreak: 0, misses: 0, status: 'clear' });
+        expect(stats.lastDone).toBeUndefined();
+    });
+});
+
+describe('formatHabitReport', () => {
+    it('tabulates streaks and misses with a plain graph', () => {
+        const { habits } = parseHabits(HABITS_ORG, '/notes/habits.org');
+        const report = formatHabitReport(habits, { today: TODAY, precedingDays: 7, followingDays: 3 });
+        const lines = report.split('\n');
+
+        expect(lines[0]).toBe('#+TITLE: Habit Report');
+        expect(lines[1]).toBe('#+DATE: 2024-04-15');
+        const rows = lines.filter(l => l.startsWith('| [['));
+        expect(rows).toHaveLength(2);
+        expect(rows[0].split('|').map(c => c.trim())).toEqual([
+            '', '[[file:/notes/habits.org::1][Exercise]]', '.+1d/3d', 'not yet',
+            '3', '2', '2', '1', '2024-04-15', '2024-04-16', '*...-*.*...', '',
+        ]);
+        expect(rows[1]).toContain('overdue');
+    });
+
+    it('says so when there are no habits', () => {
+        expect(formatHabitReport([], { today: TODAY })).toContain('No habits found');
+    });
+});
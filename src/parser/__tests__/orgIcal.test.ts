@@ -0,0 +1,214 @@
+/**
+ * Tests for iCalendar export/import of agenda items
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    exportIcal,
+    parseIcal,
+    icalItemToOrg,
+    importIcalToOrg,
+    foldIcalLine,
+    escapeIcalText,
+    unescapeIcalText,
+} from '../orgIcal';
+
+const NOW = new Date(Date.UTC(2024, 3, 1, 12, 0, 0));
+
+function exportOne(content: string, options = {}) {
+    return exportIcal([{ filePath: '/notes/work.org', content }], { now: NOW, ...options });
+}
+
+/** Unfolded content lines of a calendar, for easy assertions */
+function linesOf(ics: string): string[] {
+    return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('Org iCalendar', () => {
+    describe('export', () => {
+        it('wraps components in a VCALENDAR with CRLF line endings', () => {
+            const ics = exportOne('* Meeting <2024-04-15 Mon 09:00>\n', { calendarName: 'Work' });
+            expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+            expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+            expect(linesOf(ics)).toContain('X-WR-CALNAME:Work');
+        });
+
+        it('exports TODO headings as VTODO with planning dates and priority', () => {
+            const lines = linesOf(exportOne([
+                '* TODO [#A] Submit proposal :grant:',
+                'SCHEDULED: <2024-04-10 Wed> DEADLINE: <2024-04-20 Sat 17:00>',
+                ':PROPERTIES:',
+                ':ID: abc-123',
+                ':END:',
+            ].join('\n')));
+            expect(lines).toContain('BEGIN:VTODO');
+            expect(lines).toContain('UID:TODO-abc-123');
+            expect(lines).toContain('SUMMARY:Submit proposal');
+            expect(lines).toContain('DTSTART;VALUE=DATE:20240410');
+            expect(lines).toContain('DUE:20240420T170000');
+            expect(lines).toContain('PRIORITY:1');
+            expect(lines).toContain('CATEGORIES:grant');
+            expect(lines).toContain('STATUS:NEEDS-ACTION');
+            expect(lines).toContain('DTSTAMP:20240401T120000Z');
+        });
+
+        it('exports planning of plain headings and body timestamps as VEVENTs', () => {
+            const lines = linesOf(exportOne([
+                '* Conference',
+                'DEADLINE: <2024-05-01 Wed>',
+                'Talk at <2024-05-02 Thu 10:00-11:30> and dinner <2024-05-02 Thu 19:00>.',
+                'Not this one: [2024-05-03 Fri]',
+            ].join('\n')));
+            expect(lines.filter(l => l === 'BEGIN:VEVENT')).toHaveLength(3);
+            expect(lines).toContain('SUMMARY:DL: Conference');
+            expect(lines).toContain('DTSTART:20240502T100000');
+            expect(lines).toContain('DTEND:20240502T113000');
+            expect(lines).toContain('DTSTART:20240502T190000');
+            expect(lines.some(l => l.includes('20240503'))).toBe(false);
+        });
+
+        it('maps repeaters to RRULE and date ranges to exclusive DTEND', () => {
+            const lines = linesOf(exportOne([
+                '* Standup',
+                'SCHEDULED: <2024-04-15 Mon 09:00 +1w>',
+                '* Retreat <2024-06-03 Mon>--<2024-06-05 Wed>',
+            ].join('\n')));
+            expect(lines).toContain('RRULE:FREQ=WEEKLY');
+            expect(lines).toContain('DTSTART;VALUE=DATE:20240603');
+            expect(lines).toContain('DTEND;VALUE=DATE:20240606');
+            expect(lines).toContain('SUMMARY:Retreat');
+        });
+
+        it('skips done, archived and commented headings by default', () => {
+            const content = [
+                '* DONE Old task',
+                'SCHEDULED: <2024-04-01 Mon>',
+                '* Hidden <2024-04-02 Tue> :ARCHIVE:',
+                '* COMMENT Draft <2024-04-03 Wed>',
+            ].join('\n');
+            expect(linesOf(exportOne(content)).some(l => l.startsWith('BEGIN:V') && l !== 'BEGIN:VCALENDAR')).toBe(false);
+            expect(linesOf(exportOne(content, { includeDone: true }))).toContain('STATUS:COMPLETED');
+        });
+
+        it('derives stable UIDs for headings without an ID', () => {
+            const content = '* Lunch <2024-04-15 Mon 12:00>\n* Lunch <2024-04-16 Tue 12:00>\n';
+            const uids = linesOf(exportOne(content)).filter(l => l.startsWith('UID:'));
+            expect(uids).toHaveLength(2);
+            expect(new Set(uids).size).toBe(2);
+            expect(linesOf(exportOne(content)).filter(l => l.startsWith('UID:'))).toEqual(uids);
+        });
+    });
+
+    describe('text encoding', () => {
+        it('escapes and unescapes TEXT values', () => {
+            const text = 'a, b; c\\d\nnext';
+            expect(escapeIcalText(text)).toBe('a\\, b\\; c\\\\d\\nnext');
+            expect(unescapeIcalText(escapeIcalText(text))).toBe(text);
+        });
+
+        it('folds long lines at 75 octets without splitting characters', () => {
+            const line = 'SUMMARY:' + 'é'.repeat(60);
+            const folded = foldIcalLine(line);
+            for (const part of folded.split('\r\n')) {
+                expect(Buffer.byteLength(part, 'utf-8')).toBeLessThanOrEqual(75);
+            }
+            expect(folded.replace(/\r\n /g, '')).toBe(line);
+        });
+    });
+
+    describe('import', () => {
+        const ics = [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT',
+            'UID:evt-1@example.com',
+            'SUMMARY:Design review\\, round 2',
+            'DTSTART:20240415T090000',
+            'DTEND:20240415T103000',
+            'RRULE:FREQ=WEEKLY;INTERVAL=2',
+            'LOCATION:Room 4',
+            'DESCRIPTION:Bring the',
+            '  slides',
+            'BEGIN:VALARM',
+            'SUMMARY:ignored',
+            'END:VALARM',
+            'END:VEVENT',
+            'BEGIN:VTODO',
+            'UID:todo-1',
+            'SUMMARY:File expenses',
+            'DUE;VALUE=DATE:20240420',
+            'PRIORITY:1',
+            'CATEGORIES:admin,money',
+            'END:VTODO',
+            'END:VCALENDAR',
+        ].join('\r\n');
+
+        it('parses events and todos, unfolding and unescaping values', () => {
+            const items = parseIcal(ics);
+            expect(items).toHaveLength(2);
+            expect(items[0]).toMatchObject({
+                kind: 'VEVENT',
+                uid: 'evt-1@example.com',
+                summary: 'Design review, round 2',
+                rrule: 'FREQ=WEEKLY;INTERVAL=2',
+                location: 'Room 4',
+                description: 'Bring the slides',
+            });
+            expect(items[0].start?.date).toEqual(new Date(2024, 3, 15, 9, 0));
+            expect(items[1]).toMatchObject({ kind: 'VTODO', priority: 1, categories: ['admin', 'money'] });
+            expect(items[1].due).toEqual({ date: new Date(2024, 3, 20), allDay: true });
+        });
+
+        it('renders events and todos as org entries', () => {
+            const [event, todo] = parseIcal(ics);
+            expect(icalItemToOrg(event, 4)).toBe([
+                '**** Design review, round 2',
+                ':PROPERTIES:',
+                ':ID:       evt-1@example.com',
+                ':ICAL_IMPORTED: t',
+                ':LOCATION: Room 4',
+                ':END:',
+                '<2024-04-15 Mon 09:00-10:30 +2w>',
+                'Bring the slides',
+            ].join('\n'));
+            expect(icalItemToOrg(todo, 4).split('\n').slice(0, 2)).toEqual([
+                '**** TODO [#A] File expenses :admin:money:',
+                'DEADLINE: <2024-04-20 Sat>',
+            ]);
+        });
+
+        it('files items under a datetree and skips UIDs already present', () => {
+            const first = importIcalToOrg('#+TITLE: Calendar\n', parseIcal(ics));
+            expect(first.imported).toBe(2);
+            expect(first.content).toContain([
+                '* 2024',
+                '** 2024-04 April',
+                '*** 2024-04-15 Monday',
+                '**** Design review, round 2',
+            ].join('\n'));
+            expect(first.content).toContain('*** 2024-04-20 Saturday\n**** TODO [#A] File expenses');
+            expect(first.content.endsWith('\n')).toBe(true);
+
+            const again = importIcalToOrg(first.content, parseIcal(ics));
+            expect(again).toEqual({ content: first.content, imported: 0, skipped: 2 });
+        });
+
+        it('round-trips an exported calendar', () => {
+            const exported = exportOne('* TODO Call Sam\nSCHEDULED: <2024-04-15 Mon 14:00 +1m>\n');
+            const [item] = parseIcal(exported);
+            expect(icalItemToOrg(item, 1).split('\n').slice(0, 2)).toEqual([
+                '* TODO Call Sam',
+                'SCHEDULED: <2024-04-15 Mon 14:00 +1m>',
+            ]);
+        });
+
+        it('keeps UIDs unchanged through export and re-import', () => {
+            const exported = exportOne('* TODO Call Sam\n:PROPERTIES:\n:ID: abc-123\n:END:\n');
+            const [item] = parseIcal(exported);
+            expect(item.uid).toBe('TODO-abc-123');
+            expect(linesOf(exportOne(icalItemToOrg(item, 1)))).toContain('UID:TODO-abc-123');
+
+            const [event] = parseIcal(ics);
+            expect(linesOf(exportOne(icalItemToOrg(event, 1)))).toContain('UID:evt-1@example.com');
+        });
+    });
+});
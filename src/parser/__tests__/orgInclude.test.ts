@@ -11,6 +11,7 @@ import {
     processInclude,
     processIncludes,
     findIncludes,
+    findIncludedFiles,
     hasIncludes,
     type IncludeDirective,
     type IncludeOptions,
@@ -348,6 +349,16 @@ More text`;
     });
 });
 
+describe('findIncludedFiles', () => {
+    it('should resolve include paths against the base path', () => {
+        const content = '#+INCLUDE: "parts/a.org"\n#+INCLUDE: "/abs/b.py" src python';
+        expect(findIncludedFiles(content, path.resolve('/doc'))).toEqual([
+            path.resolve('/doc/parts/a.org'),
+            '/abs/b.py',
+        ]);
+    });
+});
+
 describe('hasIncludes', () => {
     it('should return true if content has includes', () => {
         expect(hasIncludes('#+INCLUDE: "file.org"')).toBe(true);
@@ -0,0 +1,201 @@
+/**
+ * Tests for org-plot table charts: #+PLOT: options, series from table rows,
+ * SVG rendering, plot files and the HTML/LaTeX exporters
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+// Mock VS Code API (required because export backends use adapters that import vscode)
+vi.mock('vscode', () => ({
+    Disposable: class {
+        constructor(private callback: () => void) {}
+        dispose() { this.callback(); }
+    },
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+    buildPlotData,
+    findTablePlotAt,
+    findTablePlots,
+    parsePlotOptions,
+    renderPlotSvg,
+    tableLineRows,
+    writeTablePlots,
+} from '../orgPlot';
+import { parseOrgFast } from '../orgExportParser';
+import { exportToHtml } from '../orgExportHtml';
+import { exportToLatex } from '../orgExportLatex';
+
+const GROWTH = [
+    '#+NAME: growth',
+    '#+PLOT: title:"Growth" ind:1 deps:(2 3) type:line set:"ylabel \'OD\'" set:"yrange [0:]" file:"growth.svg"',
+    '| Hour | A   | B   |',
+    '|------+-----+-----|',
+    '| 0    | 0.1 | 0.2 |',
+    '| 1    | 0.3 | 0.5 |',
+    '| 2    | 0.9 | 1.1 |',
+];
+
+describe('parsePlotOptions', () => {
+    it('reads org-plot options and gnuplot set: directives', () => {
+        const options = parsePlotOptions('title:"Citas" ind:1 deps:(3 4) labels:("first" "second") type:scatter set:"xlabel \'Day\'" set:"logscale y" set:"key off" set:grid');
+
+        expect(options).toEqual({
+            type: 'scatter',
+            title: 'Citas',
+            ind: 1,
+            deps: [3, 4],
+            labels: ['first', 'second'],
+            xlabel: 'Day',
+            logX: false,
+            logY: true,
+            grid: true,
+            legend: false,
+        });
+    });
+
+    it('maps type:2d with: styles onto chart types', () => {
+        expect(parsePlotOptions('type:2d with:histograms').type).toBe('bar');
+        expect(parsePlotOptions('with:points').type).toBe('scatter');
+        expect(parsePlotOptions('type:histogram with:lines').type).toBe('histogram');
+        expect(parsePlotOptions('').type).toBe('line');
+    });
+
+    it('parses open-ended ranges', () => {
+        expect(parsePlotOptions('set:"yrange [0:]" set:"xrange [*:10]"')).toMatchObject({
+            yrange: [0, undefined],
+            xrange: [undefined, 10],
+        });
+    });
+});
+
+describe('buildPlotData', () => {
+    it('uses the header for labels and the ind column for x', () => {
+        const data = buildPlotData(tableLineRows(GROWTH.slice(2)), parsePlotOptions('ind:1 deps:(3)'));
+
+        expect(data.xlabel).toBe('Hour');
+        expect(data.categories).toBeUndefined();
+        expect(data.series).toEqual([{
+            label: 'B',
+            points: [{ x: 0, y: 0.2, label: '0' }, { x: 1, y: 0.5, label: '1' }, { x: 2, y: 1.1, label: '2' }],
+        }]);
+    });
+
+    it('labels the x axis with a text first column and plots the numeric columns', () => {
+        const rows = tableLineRows(['| Fruit | Sold | Note |', '|---|', '| Apple | 3 | red |', '| Pear | | green |', '| Plum | 5 | |']);
+        const data = buildPlotData(rows, parsePlotOptions('type:bar'));
+
+        expect(data.categories).toEqual(['Apple', 'Pear', 'Plum']);
+        expect(data.series.map(s => s.label)).toEqual(['Sold']);
+        expect(data.series[0].points.map(p => p.y)).toEqual([3, 5]);
+    });
+
+    it('numbers rows when there is no header or ind column', () => {
+        const data = buildPlotData(tableLineRows(['| 5 | 7 |', '| 6 | 9 |']), parsePlotOptions(''));
+
+        expect(data.series.map(s => s.label)).toEqual(['Column 1', 'Column 2']);
+        expect(data.series[1].points).toEqual([{ x: 1, y: 7, label: '1' }, { x: 2, y: 9, label: '2' }]);
+    });
+
+    it('bins histogram values', () => {
+        const rows = tableLineRows(['| x |', '|---|', ...[1, 2, 2, 3, 4, 9].map(v => `| ${v} |`)]);
+        const data = buildPlotData(rows, parsePlotOptions('type:histogram bins:2'));
+
+        expect(data.categories).toEqual(['1–5', '5–9']);
+        expect(data.ylabel).toBe('Count');
+        expect(data.series[0].points.map(p => p.y)).toEqual([5, 1]);
+    });
+});
+
+describe('renderPlotSvg', () => {
+    it('renders series with tooltips and a legend', () => {
+        const options = parsePlotOptions(GROWTH[1].replace('#+PLOT: ', ''));
+        const svg = renderPlotSvg(buildPlotData(tableLineRows(GROWTH.slice(2)), options), options);
+
+        expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" class="org-plot-svg"/);
+        expect(svg).toContain('font-weight="bold" fill="#222">Growth</text>');
+        expect(svg).toContain('<g class="plot-series series-1" data-series="1"');
+        expect(svg).toContain('<polyline points=');
+        expect(svg).toContain('<title>A — 2: 0.9</title>');
+        expect(svg).toContain('<g class="legend-item" data-series="0">');
+        expect(svg).toContain('>OD</text>');
+        expect(svg.match(/<circle /g)).toHaveLength(6);
+    });
+
+    it('says so when there is nothing to plot', () => {
+        const options = parsePlotOptions('');
+        const svg = renderPlotSvg(buildPlotData(tableLineRows(['| a | b |']), options), options);
+
+        expect(svg).toContain('No numeric data to plot');
+    });
+});
+
+describe('finding plots', () => {
+    const content = ['Text', ...GROWTH, '#+TBLFM: $3=$2*2', '', '| 1 | 2 |', '#+BEGIN_EXAMPLE', '#+PLOT: type:bar', '| 3 |', '#+END_EXAMPLE'].join('\n');
+
+    it('finds tables with a #+PLOT: line outside blocks', () => {
+        const plots = findTablePlots(content);
+
+        expect(plots).toHaveLength(1);
+        expect(plots[0]).toMatchObject({ plotLine: 2, tableStart: 3, tableEnd: 7 });
+        expect(plots[0].rows).toHaveLength(5);
+    });
+
+    it('finds the table from its keywords, rows or formula line', () => {
+        expect(findTablePlotAt(content, 1)?.tableStart).toBe(3);
+        expect(findTablePlotAt(content, 5)?.options.title).toBe('Growth');
+        expect(findTablePlotAt(content, 8)?.tableStart).toBe(3);
+        expect(findTablePlotAt(content, 10)).toMatchObject({ plotLine: undefined, tableStart: 10, tableEnd: 10 });
+        expect(findTablePlotAt(content, 0)).toBeUndefined();
+    });
+});
+
+describe('plot files', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) fs.rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    it('writes SVG files only when they change', () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-plot-'));
+        const content = GROWTH.join('\n');
+
+        const first = writeTablePlots(content, dir);
+        expect(first).toEqual({ written: [path.join(dir, 'growth.svg')], failed: [] });
+        expect(fs.readFileSync(path.join(dir, 'growth.svg'), 'utf-8')).toMatch(/^<\?xml version="1.0"[^]*<\/svg>\n$/);
+
+        expect(writeTablePlots(content, dir).written).toEqual([]);
+        expect(writeTablePlots(content.replace('0.9', '1.0'), dir).written).toHaveLength(1);
+    });
+
+    it('reports unsupported file types', () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-plot-'));
+        const result = writeTablePlots('#+PLOT: file:"plot.gif"\n| 1 |', dir);
+
+        expect(result.failed).toEqual([{ file: 'plot.gif', reason: 'plot files must be .svg, .png or .pdf' }]);
+    });
+});
+
+describe('exporting plots', () => {
+    const doc = () => parseOrgFast(GROWTH.join('\n') + '\n');
+
+    it('inlines the chart after the table in HTML', () => {
+        const html = exportToHtml(doc(), { bodyOnly: true });
+
+        expect(html).toMatch(/<\/table>\n<figure class="org-plot">\n<svg [^]*<\/svg>\n<\/figure>/);
+    });
+
+    it('includes the plot file after the table in LaTeX', () => {
+        const latex = exportToLatex(doc(), { bodyOnly: true });
+
+        expect(latex).toMatch(/\\end\{table\}\n\\begin\{center\}\n\\includegraphics\[width=\.8\\linewidth\]\{growth\.svg\}\n\\end\{center\}/);
+        expect(exportToLatex(parseOrgFast('#+PLOT: type:bar\n| a | 1 |\n'), { bodyOnly: true }))
+            .toContain('% #+PLOT: add file:"plot.svg" to include the plot in LaTeX output');
+    });
+});
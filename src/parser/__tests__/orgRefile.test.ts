@@ -0,0 +1,232 @@
+/**
+ * Tests for the refile core: outline paths, subtree surgery, and the
+ * on-disk cross-file move used by the CLI.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    buildRefileTargets,
+    findSubtree,
+    shiftHeadingLevels,
+    matchOutlinePath,
+    locateHeading,
+    refileWithinLines,
+    refileAcrossLines,
+    refileOnDisk,
+    scanLevels,
+    RefileHeading,
+} from '../orgRefile';
+
+describe('Org Refile', () => {
+    describe('buildRefileTargets', () => {
+        const headings: RefileHeading[] = [
+            { filePath: '/a/projects.org', level: 1, title: 'Grant', lineNumber: 1 },
+            { filePath: '/a/projects.org', level: 2, title: 'Aims', lineNumber: 3 },
+            { filePath: '/a/projects.org', level: 3, title: 'Aim 1', lineNumber: 5 },
+            { filePath: '/a/projects.org', level: 1, title: 'Teaching', lineNumber: 9 },
+            { filePath: '/a/inbox.org', level: 1, title: 'Inbox', lineNumber: 1 },
+        ];
+
+        it('resolves outline paths with the file name', () => {
+            const targets = buildRefileTargets(headings);
+            expect(targets.map(t => t.display)).toEqual([
+                'projects.org',
+                'projects.org/Grant',
+                'projects.org/Grant/Aims',
+                'projects.org/Grant/Aims/Aim 1',
+                'projects.org/Teaching',
+                'inbox.org',
+                'inbox.org/Inbox',
+            ]);
+        });
+
+        it('drops headings deeper than maxLevel but keeps their ancestors', () => {
+            const targets = buildRefileTargets(headings, { maxLevel: 2 });
+            expect(targets.map(t => t.display)).not.toContain('projects.org/Grant/Aims/Aim 1');
+            expect(targets.map(t => t.display)).toContain('projects.org/Grant/Aims');
+        });
+
+        it('omits file-level targets when outline paths are off', () => {
+            const targets = buildRefileTargets(headings, { outlinePathStyle: 'none' });
+            expect(targets.every(t => t.level > 0)).toBe(true);
+            expect(targets[1].display).toBe('Aims');
+        });
+
+        it('matches an outline path spec case-insensitively', () => {
+            const targets = buildRefileTargets(headings);
+            expect(matchOutlinePath(targets, 'projects.org/grant/AIMS')?.lineNumber).toBe(3);
+            expect(matchOutlinePath(targets, 'inbox.org')?.level).toBe(0);
+            expect(matchOutlinePath(targets, 'projects.org/Nope')).toBeUndefined();
+        });
+    });
+
+    describe('subtree helpers', () => {
+        const lines = [
+            '* A',
+            'text',
+            '** A1',
+            '#+begin_example',
+            '* not a heading',
+            '#+end_example',
+            '* B',
+        ];
+
+        it('finds the subtree span, ignoring stars inside blocks', () => {
+            expect(findSubtree(lines, 0)).toEqual({ start: 0, end: 6, level: 1 });
+            expect(findSubtree(lines, 1)).toEqual({ start: 0, end: 6, level: 1 });
+            expect(findSubtree(lines, 2)).toEqual({ start: 2, end: 6, level: 2 });
+            expect(findSubtree(['* A', 'x', '', ''], 0)).toEqual({ start: 0, end: 2, level: 1 });
+        });
+
+        it('shifts heading levels without touching block content', () => {
+            expect(shiftHeadingLevels(lines.slice(0, 6), 1)).toEqual([
+                '** A', 'text', '*** A1', '#+begin_example', '* not a heading', '#+end_example',
+            ]);
+            expect(shiftHeadingLevels(['** X'], -5)).toEqual(['* X']);
+        });
+
+        it('locates a heading whose indexed line has drifted', () => {
+            const target = { filePath: 'f.org', level: 1, title: 'B', lineNumber: 2 };
+            expect(locateHeading(lines, target)).toBe(6);
+            expect(locateHeading(['* TODO [#A] B :work:'], { ...target, lineNumber: 1 })).toBe(0);
+            expect(locateHeading(lines, { ...target, title: 'Gone' })).toBeNull();
+        });
+
+        it('does not take a heading whose title ends with the target title', () => {
+            const target = { filePath: 'f.org', level: 1, title: 'Aims', lineNumber: 1 };
+            expect(locateHeading(['* Specific Aims', '* Notes', '* Aims'], target)).toBe(2);
+            expect(locateHeading(['* Specific Aims'], target)).toBeNull();
+            expect(locateHeading(['#+TODO: WAIT | OK', '* Specific Aims', '* WAIT [#B] Aims'], target)).toBe(2);
+        });
+    });
+
+    describe('refileWithinLines', () => {
+        it('moves a subtree forward under a later heading', () => {
+            const lines = ['* A', '** A1', '* B', 'body', '* C'];
+            const { lines: out, insertedLine } = refileWithinLines(lines, 0, 2);
+            expect(out).toEqual(['* B', 'body', '** A', '*** A1', '* C']);
+            expect(insertedLine).toBe(2);
+        });
+
+        it('moves a subtree backward under an earlier heading', () => {
+            const lines = ['* A', 'body', '* B', '** B1'];
+            const { lines: out, insertedLine } = refileWithinLines(lines, 2, 0);
+            expect(out).toEqual(['* A', 'body', '** B', '*** B1']);
+            expect(insertedLine).toBe(2);
+        });
+
+        it('keeps the original when copying', () => {
+            const lines = ['* A', '* B'];
+            expect(refileWithinLines(lines, 0, 1, { keepOriginal: true }).lines)
+                .toEqual(['* A', '* B', '** A']);
+        });
+
+        it('refuses to refile a subtree under itself', () => {
+            expect(() => refileWithinLines(['* A', '** A1'], 0, 1)).toThrow(/under itself/);
+        });
+    });
+
+    describe('refileAcrossLines', () => {
+        it('promotes to top level of the destination and removes from the source', () => {
+            const result = refileAcrossLines(['* Inbox', '** Task', 'note'], 1, ['* Other', ''], -1);
+            expect(result.sourceLines).toEqual(['* Inbox']);
+            expect(result.destLines).toEqual(['* Other', '* Task', 'note', '']);
+        });
+    });
+
+    describe('scanLevels', () => {
+        it('ignores heading-like lines inside blocks', () => {
+            expect(scanLevels(['* A', '#+begin_example', '* not', '#+end_example', '** B'])).toEqual([1, 0, 0, 0, 2]);
+            expect(scanLevels(['# A', '```sh', '# comment', '```', '## B'], false)).toEqual([1, 0, 0, 0, 2]);
+        });
+    });
+
+    describe('refileOnDisk', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-refile-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('moves a subtree between files', () => {
+            const inbox = path.join(dir, 'inbox.org');
+            const projects = path.join(dir, 'projects.org');
+            fs.writeFileSync(inbox, '* TODO Buy reagents\n:PROPERTIES:\n:ID: r1\n:END:\n* Keep\n');
+            fs.writeFileSync(projects, '* Lab\n** Orders\n* Teaching\n');
+
+            refileOnDisk(
+                { filePath: inbox, level: 1, title: 'Buy reagents', lineNumber: 1 },
+                { filePath: projects, level: 2, title: 'Orders', lineNumber: 2 }
+            );
+
+            expect(fs.readFileSync(inbox, 'utf-8')).toBe('* Keep\n');
+            expect(fs.readFileSync(projects, 'utf-8')).toBe(
+                '* Lab\n** Orders\n*** TODO Buy reagents\n:PROPERTIES:\n:ID: r1\n:END:\n* Teaching\n'
+            );
+        });
+
+        it('writes nothing when the target is gone', () => {
+            const inbox = path.join(dir, 'inbox.org');
+            const projects = path.join(dir, 'projects.org');
+            fs.writeFileSync(inbox, '* Task\n');
+            fs.writeFileSync(projects, '* Lab\n');
+
+            expect(() => refileOnDisk(
+                { filePath: inbox, level: 1, title: 'Task', lineNumber: 1 },
+                { filePath: projects, level: 1, title: 'Missing', lineNumber: 1 }
+            )).toThrow(/not found/);
+            expect(fs.readFileSync(inbox, 'utf-8')).toBe('* Task\n');
+            expect(fs.readFileSync(projects, 'utf-8')).toBe('* Lab\n');
+        });
+
+        it('finds the source heading when the indexed line is stale', () => {
+            const inbox = path.join(dir, 'inbox.org');
+            const projects = path.join(dir, 'projects.org');
+            fs.writeFileSync(inbox, '* New note\n* Task\nbody\n* Keep\n');
+            fs.writeFileSync(projects, '* Lab\n');
+
+            refileOnDisk(
+                { filePath: inbox, level: 1, title: 'Task', lineNumber: 1 },
+                { filePath: projects, level: 1, title: 'Lab', lineNumber: 1 }
+            );
+
+            expect(fs.readFileSync(inbox, 'utf-8')).toBe('* New note\n* Keep\n');
+            expect(fs.readFileSync(projects, 'utf-8')).toBe('* Lab\n** Task\nbody\n');
+        });
+
+        it('keeps final newlines when refiling the last heading of a file', () => {
+            const inbox = path.join(dir, 'inbox.org');
+            const projects = path.join(dir, 'projects.org');
+            fs.writeFileSync(inbox, '* Keep\n* Task\nbody\n');
+            fs.writeFileSync(projects, '* Lab\n** Orders\n');
+
+            refileOnDisk(
+                { filePath: inbox, level: 1, title: 'Task', lineNumber: 2 },
+                { filePath: projects, level: 1, title: 'Lab', lineNumber: 1 }
+            );
+
+            expect(fs.readFileSync(inbox, 'utf-8')).toBe('* Keep\n');
+            expect(fs.readFileSync(projects, 'utf-8')).toBe('* Lab\n** Orders\n** Task\nbody\n');
+        });
+
+        it('writes nothing when the source heading is gone', () => {
+            const inbox = path.join(dir, 'inbox.org');
+            const projects = path.join(dir, 'projects.org');
+            fs.writeFileSync(inbox, '* Other\n');
+            fs.writeFileSync(projects, '* Lab\n');
+
+            expect(() => refileOnDisk(
+                { filePath: inbox, level: 1, title: 'Task', lineNumber: 1 },
+                { filePath: projects, level: 1, title: 'Lab', lineNumber: 1 }
+            )).toThrow(/"Task" not found/);
+            expect(fs.readFileSync(projects, 'utf-8')).toBe('* Lab\n');
+        });
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the org rename core
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+    applyRenameEdits,
+    findDefinitions,
+    findDefinitionsOf,
+    renameEditsForContent,
+    renameSymbolAt,
+    resolveReferenceKind,
+    validateRenameName,
+    OrgRenameRequest,
+} from '../orgRename';
+
+const ROOT = path.resolve('/notes');
+const A = path.join(ROOT, 'a.org');
+const B = path.join(ROOT, 'b.org');
+
+function rename(content: string, request: OrgRenameRequest, filePath = A): string {
+    return applyRenameEdits(content, renameEditsForContent(content, request, filePath));
+}
+
+describe('findDefinitions', () => {
+    it('finds CUSTOM_IDs, IDs, targets and names with their columns', () => {
+        const content = [
+            '* Methods',
+            ':PROPERTIES:',
+            ':CUSTOM_ID: methods',
+            ':ID: 1f3e-42',
+            ':END:',
+            'See <<setup>> here.',
+            '#+NAME: fig-results',
+            '[[file:results.png]]',
+        ].join('\n');
+        const defs = findDefinitions(content);
+        expect(defs.map(d => [d.kind, d.name, d.line])).toEqual([
+            ['custom-id', 'methods', 2],
+            ['id', '1f3e-42', 3],
+            ['target', 'setup', 5],
+            ['name', 'fig-results', 6],
+        ]);
+        const target = defs[2];
+        expect(content.split('\n')[target.line].slice(target.start, target.end)).toBe('setup');
+    });
+
+    it('skips radio targets and block bodies', () => {
+        const content = '<<<radio>>>\n#+BEGIN_EXAMPLE\n:CUSTOM_ID: shown\n<<inside>>\n#+END_EXAMPLE\n';
+        expect(findDefinitions(content)).toEqual([]);
+    });
+
+    it('matches targets and names case- and whitespace-insensitively', () => {
+        const content = '<<My  Target>>\n';
+        expect(findDefinitionsOf(content, 'my target')).toHaveLength(1);
+        expect(findDefinitionsOf(':CUSTOM_ID: Foo\n', 'foo')).toHaveLength(0);
+    });
+});
+
+describe('renameSymbolAt', () => {
+    const content = [
+        '* Intro',
+        ':PROPERTIES:',
+        ':CUSTOM_ID: intro',
+        ':END:',
+        'See [[#intro][the intro]] and [[file:b.org::#methods]].',
+        'Also ref:fig-a,fig-b and id:abc-123.',
+        '#+CALL: analyze(x=1)',
+    ].join('\n');
+
+    it('finds a definition anywhere on a property line', () => {
+        expect(renameSymbolAt(content, 2, 0)).toMatchObject({ name: 'intro', kind: 'custom-id', definition: true });
+    });
+
+    it('finds the link path under the cursor', () => {
+        expect(renameSymbolAt(content, 4, 8)).toMatchObject({ name: 'intro', kind: 'custom-id', start: 7, end: 12 });
+        expect(renameSymbolAt(content, 4, 40)).toMatchObject({ name: 'methods', kind: 'custom-id', file: 'b.org' });
+    });
+
+    it('picks the org-ref label under the cursor', () => {
+        const line = content.split('\n')[5];
+        expect(renameSymbolAt(content, 5, line.indexOf('fig-b'))).toMatchObject({ name: 'fig-b', form: 'ref' });
+        expect(renameSymbolAt(content, 5, line.indexOf('abc'))).toMatchObject({ name: 'abc-123', kind: 'id' });
+    });
+
+    it('finds #+CALL names', () => {
+        expect(renameSymbolAt(content, 6, 9)).toMatchObject({ name: 'analyze', form: 'call' });
+    });
+
+    it('returns undefined for plain text and radio targets', () => {
+        expect(renameSymbolAt(content, 0, 3)).toBeUndefined();
+        expect(renameSymbolAt('<<<radio>>>\n', 0, 4)).toBeUndefined();
+    });
+});
+
+describe('resolveReferenceKind', () => {
+    it('resolves bare links to targets before names', () => {
+        const symbol = { name: 'x', line: 0, start: 0, end: 1, form: 'link' as const, definition: false };
+        expect(resolveReferenceKind(symbol, '<<x>>\n')).toBe('target');
+        expect(resolveReferenceKind(symbol, '#+NAME: x\n')).toBe('name');
+        expect(resolveReferenceKind(symbol, ':CUSTOM_ID: x\n')).toBeUndefined();
+    });
+
+    it('lets org-ref labels reach CUSTOM_IDs', () => {
+        const symbol = { name: 'x', line: 0, start: 0, end: 1, form: 'ref' as const, definition: false };
+        expect(resolveReferenceKind(symbol, ':CUSTOM_ID: x\n')).toBe('custom-id');
+    });
+});
+
+describe('validateRenameName', () => {
+    it('rejects empty names and characters that break links', () => {
+        expect(validateRenameName('custom-id', '')).toMatch(/empty/);
+        expect(validateRenameName('custom-id', 'a b')).toMatch(/not a valid/);
+        expect(validateRenameName('custom-id', '#a')).toMatch(/does not start/);
+        expect(validateRenameName('target', 'a]b')).toMatch(/not a valid/);
+        expect(validateRenameName('target', 'two words')).toBeUndefined();
+        expect(validateRenameName('name', 'fig-1')).toBeUndefined();
+    });
+});
+
+describe('renameEditsForContent', () => {
+    it('renames a CUSTOM_ID and its links in the defining file', () => {
+        const content = [
+            ':CUSTOM_ID: intro',
+            'See [[#intro]], [[#intro][here]], ref:intro and [[file:a.org::#intro]].',
+            '[[#introduction]] stays.',
+        ].join('\n');
+        expect(rename(content, { kind: 'custom-id', oldName: 'intro', newName: 'overview', definitionPath: A })).toBe([
+            ':CUSTOM_ID: overview',
+            'See [[#overview]], [[#overview][here]], ref:overview and [[file:a.org::#overview]].',
+            '[[#introduction]] stays.',
+        ].join('\n'));
+    });
+
+    it('renames only file-qualified links in other files', () => {
+        const content = 'See [[file:a.org::#intro]], [[#intro]] and [[./b.org::#intro]].\n';
+        const request = { kind: 'custom-id' as const, oldName: 'intro', newName: 'overview', definitionPath: A };
+        expect(rename(content, request, B)).toBe('See [[file:a.org::#overview]], [[#intro]] and [[./b.org::#intro]].\n');
+    });
+
+    it('renames IDs everywhere, including :DEPENDS:', () => {
+        const content = [
+            ':DEPENDS: id:abc other',
+            'Blocked by [[id:abc][setup]] and id:abc; not id:abcd.',
+            ':DEPENDS: abc,other',
+            'Ends with id:abc.',
+        ].join('\n');
+        expect(rename(content, { kind: 'id', oldName: 'abc', newName: 'xyz' }, B)).toBe([
+            ':DEPENDS: id:xyz other',
+            'Blocked by [[id:xyz][setup]] and id:xyz; not id:abcd.',
+            ':DEPENDS: xyz,other',
+            'Ends with id:xyz.',
+        ].join('\n'));
+    });
+
+    it('renames a target and the bare links that match it', () => {
+        const content = 'A <<Setup Step>>.\nSee [[setup step]] and [[file:b.org::setup step]].\n';
+        const request = { kind: 'target' as const, oldName: 'Setup Step', newName: 'preparation', definitionPath: A };
+        expect(rename(content, request)).toBe('A <<preparation>>.\nSee [[preparation]] and [[file:b.org::setup step]].\n');
+    });
+
+    it('renames a #+NAME with calls, results, inline calls and noweb references', () => {
+        const content = [
+            '#+NAME: analyze',
+            '#+BEGIN_SRC python',
+            'print(1)',
+            '#+END_SRC',
+            '',
+            '#+CALL: analyze(x=2)',
+            '#+RESULTS: analyze',
+            'Inline call_analyze() result.',
+            '#+BEGIN_SRC python :noweb yes',
+            '<<analyze>>',
+            '#+END_SRC',
+        ].join('\n');
+        const renamed = rename(content, { kind: 'name', oldName: 'analyze', newName: 'fit', definitionPath: A });
+        expect(renamed).toBe(content.replace(/analyze/g, 'fit'));
+    });
+
+    it('leaves verbatim blocks alone', () => {
+        const content = ':CUSTOM_ID: intro\n#+BEGIN_EXAMPLE\n[[#intro]]\n#+END_EXAMPLE\n';
+        expect(rename(content, { kind: 'custom-id', oldName: 'intro', newName: 'x', definitionPath: A }))
+            .toBe(':CUSTOM_ID: x\n#+BEGIN_EXAMPLE\n[[#intro]]\n#+END_EXAMPLE\n');
+    });
+
+    it('marks definition and reference edits', () => {
+        const edits = renameEditsForContent(':CUSTOM_ID: a\n[[#a]]\n', { kind: 'custom-id', oldName: 'a', newName: 'b', definitionPath: A }, A);
+        expect(edits.map(e => e.role)).toEqual(['definition', 'reference']);
+    });
+});
@@ -11,6 +11,8 @@ import {
     findRepeaterInLines,
     formatOrgTimestamp,
     extractDateFromMatch,
+    repeaterToRRule,
+    rruleToRepeater,
     REPEATER_TIMESTAMP_PATTERN
 } from '../orgRepeater';
 
@@ -109,6 +111,43 @@ describe('Org Repeater', () => {
         });
     });
 
+    // =============================================================================
+    // RRULE conversion Tests
+    // =============================================================================
+
+    describe('repeaterToRRule', () => {
+        it('should map each unit to a frequency', () => {
+            expect(repeaterToRRule('+1h')).toBe('FREQ=HOURLY');
+            expect(repeaterToRRule('+1d')).toBe('FREQ=DAILY');
+            expect(repeaterToRRule('+1w')).toBe('FREQ=WEEKLY');
+            expect(repeaterToRRule('+1m')).toBe('FREQ=MONTHLY');
+            expect(repeaterToRRule('+1y')).toBe('FREQ=YEARLY');
+        });
+
+        it('should add INTERVAL for values above 1 and ignore the repeater type', () => {
+            expect(repeaterToRRule('.+2w')).toBe('FREQ=WEEKLY;INTERVAL=2');
+            expect(repeaterToRRule('++3m')).toBe('FREQ=MONTHLY;INTERVAL=3');
+        });
+
+        it('should return null for invalid repeaters', () => {
+            expect(repeaterToRRule('+0d')).toBeNull();
+            expect(repeaterToRRule('weekly')).toBeNull();
+        });
+    });
+
+    describe('rruleToRepeater', () => {
+        it('should map FREQ and INTERVAL', () => {
+            expect(rruleToRepeater('FREQ=DAILY')).toBe('+1d');
+            expect(rruleToRepeater('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO')).toBe('+2w');
+            expect(rruleToRepeater('interval=6;freq=yearly')).toBe('+6y');
+        });
+
+        it('should return null for frequencies org cannot express', () => {
+            expect(rruleToRepeater('FREQ=MINUTELY')).toBeNull();
+            expect(rruleToRepeater('')).toBeNull();
+        });
+    });
+
     // =============================================================================
     // advanceDateByRepeater Tests
     // =============================================================================
@@ -162,6 +201,12 @@ describe('Org Repeater', () => {
             expect(result.getDate()).toBe(1);
         });
 
+        it('should ignore a habit range when advancing', () => {
+            const result = advanceDateByRepeater(2024, 1, 15, '+2d/4d');
+            expect(result.getMonth()).toBe(0);
+            expect(result.getDate()).toBe(17);
+        });
+
         it('should return original date for invalid repeater', () => {
             const result = advanceDateByRepeater(2024, 1, 15, 'invalid');
             expect(result.getFullYear()).toBe(2024);
@@ -220,6 +265,13 @@ describe('Org Repeater', () => {
             expect(match![8]).toBe('++2w');
         });
 
+        it('should match a habit repeater with a range', () => {
+            const line = 'SCHEDULED: <2024-01-15 Mon .+1d/3d>';
+            const match = line.match(REPEATER_TIMESTAMP_PATTERN);
+            expect(match).not.toBeNull();
+            expect(match![8]).toBe('.+1d/3d');
+        });
+
         it('should not match without repeater', () => {
             const line = 'SCHEDULED: <2024-01-15 Mon>';
             const match = line.match(REPEATER_TIMESTAMP_PATTERN);
@@ -0,0 +1,207 @@
+/**
+ * Tests for the table formula language: parsing, typed values, conditionals,
+ * strings, dates, lookups and error values
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    cellFormulaValue,
+    evaluateFormula,
+    formatFormulaDate,
+    formulaFields,
+    formulaResult,
+    parseFormulaDate,
+    parseFormulaExpression,
+    FormulaError,
+    FormulaSyntaxError,
+    type FormulaEnv,
+} from '../orgTableFormula';
+
+/**
+ * Environment over rows of cell text; the first `headerRows` rows are the
+ * header, and `tables` are available to remote()
+ */
+function env(
+    rows: string[][],
+    at: { row?: number; col?: number; headerRows?: number; names?: Record<string, string>; tables?: Record<string, string[][]> } = {}
+): FormulaEnv {
+    const row = at.row ?? 1;
+    return {
+        row,
+        col: at.col ?? 1,
+        rowCount: rows.length,
+        columnCount: Math.max(...rows.map(r => r.length)),
+        dataRowCount: rows.length - (at.headerRows ?? 0),
+        resolveRow: d => d === '>' ? rows.length : d === '<' ? 1 : d === '0' ? row : /^[+-]/.test(d) ? row + parseInt(d, 10) : parseInt(d, 10),
+        cellText: (r, c) => rows[r - 1]?.[c - 1] ?? '',
+        named: name => at.names?.[name],
+        remote: name => at.tables?.[name] ? env(at.tables[name], { row, col: at.col, headerRows: 1 }) : undefined,
+        now: new Date(2026, 0, 10, 9, 30),
+        durationMode: false,
+    };
+}
+
+const evaluate = (expr: string, e: FormulaEnv) => formulaResult(evaluateFormula(expr, e));
+
+const SCORES = [
+    ['Name', 'Score', 'Due'],
+    ['Ada', '72', '<2026-01-15 Thu>'],
+    ['Bob', '41', '<2026-01-08 Thu>'],
+    ['Cy', '', 'soon'],
+    ['Di', '95', '<2026-02-01 Sun>'],
+];
+
+describe('parsing', () => {
+    it('parses references, ranges, calls and precedence', () => {
+        expect(parseFormulaExpression('-2^2')).toEqual({
+            type: 'unary', op: '-', operand: { type: 'binary', op: '^', left: { type: 'number', value: 2 }, right: { type: 'number', value: 2 } },
+        });
+        expect(parseFormulaExpression('vsum(@2$1..@>$1)')).toEqual({
+            type: 'call', name: 'vsum', args: [{ type: 'range', from: { type: 'field', row: '2', col: '1' }, to: { type: 'field', row: '>', col: '1' } }],
+        });
+        expect(parseFormulaExpression('remote(my-table, @2$3)')).toEqual({
+            type: 'remote', table: 'my-table', ref: { type: 'field', row: '2', col: '3' },
+        });
+        expect(parseFormulaExpression('$1 < 3 || $2 = 4 && !$3').type).toBe('binary');
+        expect(parseFormulaExpression('org-lookup-first($1, $2)')).toMatchObject({ type: 'call', name: 'org-lookup-first' });
+    });
+
+    it('reports syntax errors', () => {
+        expect(() => parseFormulaExpression('$1 +')).toThrow(FormulaSyntaxError);
+        expect(() => parseFormulaExpression('concat("a')).toThrow('unterminated string');
+        expect(() => parseFormulaExpression('($1')).toThrow('expected ")"');
+        expect(evaluate('1 +* 2', env([['1']]))).toBe('#ERROR!');
+    });
+});
+
+describe('values', () => {
+    it('reads cell text as typed values', () => {
+        expect(cellFormulaValue('')).toBe('');
+        expect(cellFormulaValue(' 2.5 ')).toBe(2.5);
+        expect(cellFormulaValue('1e3')).toBe(1000);
+        expect(cellFormulaValue('#DIV/0!')).toEqual(new FormulaError('#DIV/0!'));
+        expect(cellFormulaValue('1:30')).toBe('1:30');
+        expect(cellFormulaValue('1:30', true)).toBe(5400);
+        expect(cellFormulaValue('Ada')).toBe('Ada');
+    });
+
+    it('parses and prints org timestamps', () => {
+        const date = parseFormulaDate('<2026-01-05 Mon 10:30>')!;
+        expect(date).toEqual({ kind: 'date', time: Date.UTC(2026, 0, 5, 10, 30), hasTime: true });
+        expect(formatFormulaDate(date)).toBe('<2026-01-05 Mon 10:30>');
+        expect(formatFormulaDate(parseFormulaDate('2026-03-01')!)).toBe('<2026-03-01 Sun>');
+        expect(parseFormulaDate('March')).toBeUndefined();
+    });
+});
+
+describe('operators', () => {
+    const e = env(SCORES, { row: 2, col: 2, headerRows: 1 });
+
+    it('compares numbers, text and dates', () => {
+        expect(evaluate('$2 >= 50', e)).toBe(1);
+        expect(evaluate('$2 == 72 && $1 != "Bob"', e)).toBe(1);
+        expect(evaluate('$1 < "Bob"', e)).toBe(1);
+        expect(evaluate('date($3) > <2026-01-10 Sat>', e)).toBe(1);
+        expect(evaluate('!($2 > 100)', e)).toBe(1);
+    });
+
+    it('short-circuits logic', () => {
+        expect(evaluate('$2 > 100 && 1/0', e)).toBe(0);
+        expect(evaluate('$2 > 0 || 1/0', e)).toBe(1);
+    });
+
+    it('does date arithmetic in days', () => {
+        expect(evaluate('date($3) - today()', e)).toBe(5);
+        expect(evaluate('date(@3$3) - date(@2$3)', e)).toBe(-7);
+        expect(evaluate('date($3) + 30', e)).toBe('<2026-02-14 Sat>');
+        expect(evaluate('now()', e)).toBe('<2026-01-10 Sat 09:30>');
+        expect(evaluate('year(date($3)) * 100 + month($3)', e)).toBe(202601);
+    });
+});
+
+describe('functions', () => {
+    const e = env(SCORES, { row: 2, col: 4, headerRows: 1 });
+
+    it('evaluates only the branch of if() that is taken', () => {
+        expect(evaluate('if($2 >= 50, "pass", "fail")', e)).toBe('pass');
+        expect(evaluate('if(@3$2 >= 50, "pass", "fail")', e)).toBe('fail');
+        expect(evaluate('if($2 > 0, $2, 1/0)', e)).toBe(72);
+        expect(evaluate('if(0, 1)', e)).toBe('');
+    });
+
+    it('handles strings', () => {
+        expect(evaluate('concat($1, ": ", $2)', e)).toBe('Ada: 72');
+        expect(evaluate('format("%-4s|%6.2f|%03d|%%", $1, $2 / 7, 7)', e)).toBe('Ada | 10.29|007|%');
+        expect(evaluate('upper(substr($1, 2, 2))', e)).toBe('DA');
+        expect(evaluate('len(trim("  ab "))', e)).toBe(2);
+        expect(evaluate('lower("AbC")', e)).toBe('abc');
+    });
+
+    it('computes vector statistics over ranges and whole columns', () => {
+        expect(evaluate('vsum($2)', e)).toBe(208);
+        expect(evaluate('vcount(@2$2..@>$2)', e)).toBe(3);
+        expect(evaluate('vmedian(@2$2..@>$2)', e)).toBe(72);
+        expect(evaluate('vpercentile(@2$2..@>$2, 25)', e)).toBe(56.5);
+        expect(evaluate('vmean(@2$2..@>$2)', e)).toBeCloseTo(69.333, 3);
+        expect(evaluate('vsdev(@2$2..@>$2)', e)).toBeCloseTo(27.1, 2);
+        expect(evaluate('round(sdev(@2$2..@>$2), 2)', e)).toBe(22.13);
+        expect(evaluate('vmean(@4$2..@4$2)', e)).toBe('#N/A');
+        expect(evaluate('vsum(@4$2..@4$2)', e)).toBe(0);
+    });
+
+    it('looks up values, also in remote tables', () => {
+        const prices = [['Item', 'Price'], ['tip', '0.5'], ['tube', '2'], ['tip', '0.6']];
+        const e2 = env([['tip', ''], ['box', '']], { col: 2, tables: { prices } });
+
+        expect(evaluate('org-lookup-first($1, remote(prices, @2$1..@>$1), remote(prices, @2$2..@>$2))', e2)).toBe(0.5);
+        expect(evaluate('org-lookup-last($1, remote(prices, @2$1..@>$1), remote(prices, @2$2..@>$2))', e2)).toBe(0.6);
+        expect(evaluate('vsum(org-lookup-all($1, remote(prices, @2$1..@>$1), remote(prices, @2$2..@>$2)))', e2)).toBe(1.1);
+        expect(evaluate('org-lookup-first(1, remote(prices, @2$2..@>$2), remote(prices, @2$1..@>$1), "<")', e2)).toBe('tube');
+        expect(evaluate('org-lookup-first(@2$1, remote(prices, @2$1..@>$1))', e2)).toBe('#N/A');
+        expect(evaluate('remote(missing, @1$1)', e2)).toBe('#REF!');
+    });
+
+    it('reads names', () => {
+        const e2 = env([['10']], { names: { rate: '0.5', label: 'kg' } });
+
+        expect(evaluate('$1 * $rate', e2)).toBe(5);
+        expect(evaluate('concat($1, " ", $label)', e2)).toBe('10 kg');
+        expect(evaluate('$nope', e2)).toBe('#NAME?');
+    });
+});
+
+describe('error values', () => {
+    const e = env([['4', '0', 'x', '#N/A', '']], { col: 1 });
+
+    it('produces errors instead of NaN', () => {
+        expect(evaluate('$1 / $2', e)).toBe('#DIV/0!');
+        expect(evaluate('$1 + $3', e)).toBe('#VALUE!');
+        expect(evaluate('sqrt(-$1)', e)).toBe('#NUM!');
+        expect(evaluate('@3$1', e)).toBe('#REF!');
+        expect(evaluate('$9', e)).toBe('#REF!');
+        expect(evaluate('frobnicate($1)', e)).toBe('#NAME?');
+        expect(evaluate('$1 + $5', e)).toBe(4);
+    });
+
+    it('propagates errors from cells and catches them with iferror', () => {
+        expect(evaluate('$4 * 2', e)).toBe('#N/A');
+        expect(evaluate('vsum($1..$4)', e)).toBe('#N/A');
+        expect(evaluate('iferror($1 / $2, "-")', e)).toBe('-');
+        expect(evaluate('iserror($4)', e)).toBe(1);
+        expect(evaluate('iferror($1, 0)', e)).toBe(4);
+    });
+});
+
+describe('formulaFields', () => {
+    it('resolves the fields a formula reads from the current field', () => {
+        const e = env(SCORES, { row: 3, col: 3 });
+        const node = parseFormulaExpression('if($2 > @-1$2, vsum(@2$2..@3$2), $name + remote(t, @1$1))');
+
+        expect(formulaFields(node, e)).toEqual([
+            { row: 3, col: 2 },
+            { row: 2, col: 2 },
+            { row: 2, col: 2 },
+            { row: 3, col: 2 },
+        ]);
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for org tags/property match expressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseTagsMatch,
+    matchesTagsMatch,
+    resolveMatchDate,
+    matchDurationValue,
+    MatchTarget,
+} from '../orgTagsMatch';
+
+const NOW = new Date(2024, 3, 15, 9, 30);
+
+function target(overrides: Partial<MatchTarget> = {}): MatchTarget {
+    return {
+        title: 'Write report',
+        tags: ['work', '@office'],
+        inheritedTags: ['project'],
+        todoState: 'NEXT',
+        priority: 'A',
+        level: 2,
+        category: 'notes',
+        scheduled: '2024-04-16 Tue 10:00',
+        deadline: '2024-04-20 Sat',
+        properties: { Effort: '3', OWNER: 'sam', ESTIMATE: '1:30', STARTED: '[2024-04-01 Mon 08:00]' },
+        ...overrides,
+    };
+}
+
+describe('Org tags match', () => {
+    it('matches everything for an empty expression', () => {
+        expect(parseTagsMatch('  ')).toEqual({ kind: 'all' });
+        expect(matchesTagsMatch('', target())).toBe(true);
+    });
+
+    it('combines tags with +, - and |', () => {
+        expect(matchesTagsMatch('+work-personal', target())).toBe(true);
+        expect(matchesTagsMatch('work-@office', target())).toBe(false);
+        expect(matchesTagsMatch('personal|@office', target())).toBe(true);
+        expect(matchesTagsMatch('personal+work|home', target())).toBe(false);
+    });
+
+    it('matches inherited tags', () => {
+        expect(matchesTagsMatch('+project', target())).toBe(true);
+        expect(matchesTagsMatch('+project', target({ inheritedTags: [] }))).toBe(false);
+    });
+
+    it('compares properties as strings or numbers', () => {
+        expect(matchesTagsMatch('EFFORT>2', target())).toBe(true);
+        expect(matchesTagsMatch('+work-EFFORT>2', target())).toBe(false);
+        expect(matchesTagsMatch('owner="sam"', target())).toBe(true);
+        expect(matchesTagsMatch('OWNER<>"sam"', target())).toBe(false);
+        expect(matchesTagsMatch('MISSING<3', target())).toBe(false);
+        expect(matchesTagsMatch('MISSING<>3', target())).toBe(true);
+        expect(matchesTagsMatch('MISSING=""', target())).toBe(true);
+    });
+
+    it('supports the special TODO, PRIORITY, LEVEL, ITEM and CATEGORY properties', () => {
+        expect(matchesTagsMatch('TODO="NEXT"&PRIORITY="A"', target())).toBe(true);
+        expect(matchesTagsMatch('LEVEL<2', target())).toBe(false);
+        expect(matchesTagsMatch('ITEM="Write report"', target())).toBe(true);
+        expect(matchesTagsMatch('CATEGORY="notes"', target())).toBe(true);
+    });
+
+    it('restricts TODO keywords after /', () => {
+        expect(matchesTagsMatch('+work/NEXT|WAITING', target())).toBe(true);
+        expect(matchesTagsMatch('+work/WAITING', target())).toBe(false);
+        expect(matchesTagsMatch('/-DONE', target({ todoState: 'DONE' }))).toBe(false);
+        expect(matchesTagsMatch('/!-DONE-CANCELLED', target())).toBe(true);
+        expect(matchesTagsMatch('/NEXT', target({ todoState: undefined }))).toBe(false);
+    });
+
+    it('groups alternatives with parentheses', () => {
+        expect(parseTagsMatch('+work-(personal|home)')).toEqual({
+            kind: 'and',
+            terms: [
+                { kind: 'tag', tag: 'work' },
+                { kind: 'not', term: { kind: 'or', terms: [{ kind: 'tag', tag: 'personal' }, { kind: 'tag', tag: 'home' }] } },
+            ],
+        });
+        expect(matchesTagsMatch('+work-(personal|@office)', target())).toBe(false);
+        expect(matchesTagsMatch('(home|@office)+PRIORITY="A"/NEXT', target())).toBe(true);
+    });
+
+    it('matches tags and property values against regular expressions', () => {
+        expect(matchesTagsMatch('+{^proj}', target())).toBe(true);
+        expect(matchesTagsMatch('-{^@}', target())).toBe(false);
+        expect(matchesTagsMatch('OWNER={^s.m$}', target())).toBe(true);
+        expect(matchesTagsMatch('ITEM<>{report}', target())).toBe(false);
+        expect(matchesTagsMatch('MISSING={^$}', target())).toBe(true);
+    });
+
+    it('compares durations written as H:MM', () => {
+        expect(parseTagsMatch('EFFORT<2:00')).toEqual({
+            kind: 'property', name: 'EFFORT', op: '<', value: { type: 'duration', minutes: 120 },
+        });
+        expect(matchesTagsMatch('ESTIMATE<2:00', target())).toBe(true);
+        expect(matchesTagsMatch('ESTIMATE>=1:30', target())).toBe(true);
+        // A plain number is minutes, as in org.
+        expect(matchesTagsMatch('EFFORT<0:05', target())).toBe(true);
+        expect(matchDurationValue(' 10:15 ')).toBe(615);
+        expect(matchDurationValue('soon')).toBeUndefined();
+    });
+
+    it('compares dates, including planning and relative dates', () => {
+        const options = { now: NOW };
+        expect(matchesTagsMatch('SCHEDULED="<2024-04-16>"', target(), options)).toBe(true);
+        expect(matchesTagsMatch('DEADLINE<="<+1w>"', target(), options)).toBe(true);
+        expect(matchesTagsMatch('DEADLINE<"<tomorrow>"', target(), options)).toBe(false);
+        expect(matchesTagsMatch('STARTED<"<today>"', target(), options)).toBe(true);
+        expect(matchesTagsMatch('CLOSED<"<today>"', target(), options)).toBe(false);
+        expect(matchesTagsMatch('CLOSED<>"<today>"', target(), options)).toBe(true);
+    });
+
+    it('resolves absolute and relative date values', () => {
+        expect(resolveMatchDate('2024-02-29 Thu 10:00', NOW)).toBe('2024-02-29');
+        expect(resolveMatchDate('2023-02-29', NOW)).toBeUndefined();
+        expect(resolveMatchDate('yesterday', NOW)).toBe('2024-04-14');
+        expect(resolveMatchDate('-2w', NOW)).toBe('2024-04-01');
+        expect(resolveMatchDate('+1m', NOW)).toBe('2024-05-15');
+        expect(resolveMatchDate('someday', NOW)).toBeUndefined();
+    });
+
+    it('does not split on operators inside quoted values', () => {
+        expect(matchesTagsMatch('OWNER="a|b/c"', target({ properties: { OWNER: 'a|b/c' } }))).toBe(true);
+    });
+
+    it('reports syntax errors', () => {
+        expect(() => parseTagsMatch('+work+')).toThrow(/expected a tag or property/);
+        expect(() => parseTagsMatch('EFFORT>')).toThrow(/expected a "string"/);
+        expect(() => parseTagsMatch('OWNER="sam')).toThrow(/unterminated string/);
+        expect(() => parseTagsMatch('work(x)')).toThrow(/unexpected "\("/);
+        expect(() => parseTagsMatch('+(work|home')).toThrow(/expected "\)"/);
+        expect(() => parseTagsMatch('work|')).toThrow(/empty alternative/);
+        expect(() => parseTagsMatch('+{[a-}')).toThrow(/invalid regular expression/);
+        expect(() => parseTagsMatch('OWNER>{s}')).toThrow(/only work with = and <>/);
+        expect(() => parseTagsMatch('DEADLINE<"<someday>"')).toThrow(/invalid date/);
+    });
+});
@@ -143,3 +143,34 @@ describe('gantt dynamic block', () => {
         expect(res.content).toContain('section');
     });
 });
+
+describe('tags/property :match', () => {
+    it('filters project-table rows with the full match syntax', () => {
+        const doc = parseOrg(DOC);
+        const res = executeDynamicBlock('project-table',
+            ':columns task :match "EFFORT<>\\"2d\\"-@ana|PRIORITY=\\"A\\""', doc, 'x.org');
+        expect(res.success).toBe(true);
+        expect(res.content).toContain('Write paper');
+        expect(res.content).not.toContain('Run analysis');
+        expect(res.content).not.toContain('Make figures');
+    });
+
+    it('filters columnview rows by inherited tags and planning dates', () => {
+        const doc = parseOrg(ORDERED_DOC + DOC);
+        const res = executeDynamicBlock('columnview',
+            ':columns "%ITEM" :match "+@wei-LEVEL=1"', doc, 'x.org');
+        expect(res.content.split('\n').slice(1).map(l => l.replace(/[|\s]+/g, ' ').trim()))
+            .toEqual(['Synthesize sample', 'Run measurement']);
+
+        const due = executeDynamicBlock('columnview',
+            ':columns "%ITEM" :match "DEADLINE<\\"<2026-08-01>\\""', doc, 'x.org');
+        expect(due.content).toContain('Write paper');
+        expect(due.content.split('\n')).toHaveLength(2);
+    });
+
+    it('reports match syntax errors', () => {
+        const res = executeDynamicBlock('columnview', ':match "+work+"', parseOrg(DOC), 'x.org');
+        expect(res.success).toBe(false);
+        expect(res.error).toMatch(/expected a tag or property/);
+    });
+});
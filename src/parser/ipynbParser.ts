@@ -24,6 +24,7 @@ export interface NotebookCodeBlock {
     content: string;
     lineNumber: number;
     cellIndex: number;
+    outputs?: string;    // Text outputs (streams, plain-text results, errors)
 }
 
 export interface NotebookLink {
@@ -118,11 +119,13 @@ export function parseNotebook(content: string): NotebookDocument {
                 extractHashtagsAndMentions(source, hashtagSet, mentionSet);
             } else if (cellType === 'code') {
                 // Add as code block
+                const outputs = extractTextOutputs(cell.outputs);
                 doc.codeBlocks.push({
                     language: defaultLanguage,
                     content: source,
                     lineNumber,
-                    cellIndex: i
+                    cellIndex: i,
+                    ...(outputs ? { outputs } : {})
                 });
 
                 // Extract hashtags from comments
@@ -143,6 +146,29 @@ export function parseNotebook(content: string): NotebookDocument {
     return doc;
 }
 
+/**
+ * Text of a code cell's outputs: stream text, text/plain results and
+ * error names and values; images and HTML are skipped
+ */
+function extractTextOutputs(outputs: unknown): string {
+    if (!Array.isArray(outputs)) return '';
+    const join = (value: unknown): string =>
+        Array.isArray(value) ? value.join('') : typeof value === 'string' ? value : '';
+    const parts: string[] = [];
+
+    for (const output of outputs) {
+        if (output?.output_type === 'stream') {
+            parts.push(join(output.text));
+        } else if (output?.output_type === 'execute_result' || output?.output_type === 'display_data') {
+            parts.push(join(output.data?.['text/plain']));
+        } else if (output?.output_type === 'error') {
+            parts.push(`${output.ename ?? 'Error'}: ${output.evalue ?? ''}`);
+        }
+    }
+
+    return parts.map(p => p.trimEnd()).filter(Boolean).join('\n');
+}
+
 /**
  * Extract markdown headings from cell content
  */
@@ -248,13 +274,17 @@ function extractHashtagsAndMentions(
 
 /**
  * Get full text content from notebook for indexing
+ * @param options.includeOutputs - Also include the text outputs of code cells
  */
-export function getNotebookFullText(doc: NotebookDocument): string {
+export function getNotebookFullText(doc: NotebookDocument, options?: { includeOutputs?: boolean }): string {
     const parts: string[] = [];
+    const outputs = new Map(doc.codeBlocks.map(block => [block.cellIndex, block.outputs]));
 
     for (const cell of doc.cells) {
         if (cell.cellType === 'markdown' || cell.cellType === 'code') {
             parts.push(cell.source);
+            const output = options?.includeOutputs ? outputs.get(cell.index) : undefined;
+            if (output) parts.push(output);
         }
     }
 
@@ -0,0 +1,898 @@
+/**
+ * LaTeX math to Office Math (OMML) and MathML
+ *
+ * Parses the subset of LaTeX math that documents commonly use - fractions,
+ * scripts, roots, Greek letters and symbols, large operators with limits,
+ * \left...\right delimiters, accents, font commands, \text and matrix or
+ * alignment environments - into a small tree, and writes that tree as OMML
+ * (for DOCX) or presentation MathML (for ODT and HTML).
+ *
+ * Anything outside the subset makes the converters return undefined, so
+ * callers can fall back to the LaTeX source as text.
+ */
+
+import { ORG_ENTITIES } from './orgEntities';
+
+// =============================================================================
+// Math Tree
+// =============================================================================
+
+export type MathVariant =
+    | 'normal'
+    | 'italic'
+    | 'bold'
+    | 'double-struck'
+    | 'script'
+    | 'fraktur'
+    | 'sans-serif'
+    | 'monospace';
+
+export type MathNode =
+    | { kind: 'row'; children: MathNode[] }
+    | { kind: 'ident'; text: string; variant?: MathVariant; limits?: boolean }
+    | { kind: 'number'; text: string; variant?: MathVariant }
+    | { kind: 'op'; text: string; large?: boolean; limits?: boolean }
+    | { kind: 'text'; text: string }
+    | { kind: 'space'; em: number }
+    | { kind: 'frac'; num: MathNode; den: MathNode; noBar?: boolean }
+    | { kind: 'sqrt'; body: MathNode; index?: MathNode }
+    | { kind: 'scripts'; base: MathNode; sub?: MathNode; sup?: MathNode }
+    | { kind: 'fenced'; open: string; close: string; body: MathNode }
+    | { kind: 'accent'; accent: MathAccent; body: MathNode }
+    | { kind: 'matrix'; rows: MathNode[][]; layout: 'matrix' | 'align' };
+
+interface MathAccent {
+    /** Combining character for OMML */
+    omml: string;
+    /** Spacing character for MathML */
+    mathml: string;
+    /** Overline and underline are bars, not accents, in OMML */
+    bar?: 'top' | 'bot';
+}
+
+/**
+ * Thrown for LaTeX outside the supported subset
+ */
+class UnsupportedMathError extends Error {}
+
+// =============================================================================
+// Symbol Tables
+// =============================================================================
+
+/** Symbols that org entities do not cover */
+const EXTRA_SYMBOLS: Record<string, string> = {
+    langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+    vert: '|', lvert: '|', rvert: '|', Vert: '‖', lVert: '‖', rVert: '‖',
+    ldots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱', dots: '…',
+    setminus: '∖', wedge: '∧', vee: '∨', dagger: '†', ddagger: '‡',
+    top: '⊤', bot: '⊥', aleph: 'ℵ', colon: ':', implies: '⟹', iff: '⟺',
+    longrightarrow: '⟶', longleftarrow: '⟵', Longrightarrow: '⟹', Longleftarrow: '⟸',
+    leftrightarrows: '⇆', rightleftharpoons: '⇌', uplus: '⊎', sqcup: '⊔', sqcap: '⊓',
+    lhd: '⊲', rhd: '⊳', models: '⊨', vdash: '⊢', dashv: '⊣', asymp: '≍', doteq: '≐',
+    leqslant: '⩽', geqslant: '⩾', lesssim: '≲', gtrsim: '≳', therefore: '∴', because: '∵',
+    varepsilon: 'ε', vartheta: 'ϑ', varphi: 'φ', varpi: 'ϖ', varrho: 'ϱ', varsigma: 'ς',
+    degree: '°', lbrace: '{', rbrace: '}', lbrack: '[', rbrack: ']',
+};
+
+/** Large operators and the character each one writes */
+const LARGE_OPERATORS: Record<string, string> = {
+    sum: '∑', prod: '∏', coprod: '∐', int: '∫', iint: '∬', iiint: '∭', oint: '∮',
+    bigcup: '⋃', bigcap: '⋂', bigoplus: '⨁', bigotimes: '⨂', bigodot: '⨀',
+    bigvee: '⋁', bigwedge: '⋀', bigsqcup: '⨆', biguplus: '⨄',
+};
+
+/** Integrals put their limits beside the sign rather than above and below */
+const INTEGRALS = new Set(['∫', '∬', '∭', '∮']);
+
+/** Function names set upright; the second group takes limits below */
+const FUNCTION_NAMES = new Set([
+    'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'sinh', 'cosh', 'tanh', 'coth',
+    'arcsin', 'arccos', 'arctan', 'log', 'ln', 'lg', 'exp', 'arg', 'deg', 'dim',
+    'hom', 'ker',
+]);
+const LIMIT_FUNCTIONS = new Set(['lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'Pr']);
+
+const ACCENTS: Record<string, MathAccent> = {
+    hat: { omml: '̂', mathml: '^' },
+    widehat: { omml: '̂', mathml: '^' },
+    check: { omml: '̌', mathml: 'ˇ' },
+    tilde: { omml: '̃', mathml: '~' },
+    widetilde: { omml: '̃', mathml: '~' },
+    bar: { omml: '̅', mathml: '¯' },
+    vec: { omml: '⃗', mathml: '→' },
+    dot: { omml: '̇', mathml: '˙' },
+    ddot: { omml: '̈', mathml: '¨' },
+    acute: { omml: '́', mathml: '´' },
+    grave: { omml: '̀', mathml: '`' },
+    breve: { omml: '̆', mathml: '˘' },
+    overline: { omml: '̅', mathml: '¯', bar: 'top' },
+    underline: { omml: '̲', mathml: '_', bar: 'bot' },
+};
+
+const FONT_COMMANDS: Record<string, MathVariant> = {
+    mathrm: 'normal', mathup: 'normal', mathit: 'italic', mathbf: 'bold',
+    boldsymbol: 'bold', bm: 'bold', mathbb: 'double-struck', mathcal: 'script',
+    mathscr: 'script', mathfrak: 'fraktur', mathsf: 'sans-serif', mathtt: 'monospace',
+};
+
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textnormal', 'mbox', 'textit', 'textbf', 'mathnormal']);
+
+/** Spacing commands, in em */
+const SPACES: Record<string, number> = {
+    ',': 0.167, ':': 0.222, '>': 0.222, ';': 0.278, ' ': 0.333, '!': 0,
+    quad: 1, qquad: 2, enspace: 0.5, thinspace: 0.167, medspace: 0.222, thickspace: 0.278,
+};
+
+/** Commands that only affect layout in LaTeX and are dropped */
+const IGNORED_COMMANDS = new Set([
+    'displaystyle', 'textstyle', 'scriptstyle', 'scriptscriptstyle', 'limits', 'nolimits',
+    'nonumber', 'notag', 'big', 'Big', 'bigg', 'Bigg', 'bigl', 'bigr',
+    'Bigl', 'Bigr', 'biggl', 'biggr', 'Biggl', 'Biggr', 'middle',
+]);
+
+/** Commands whose braced argument is dropped with them */
+const DROPPED_WITH_ARGUMENT = new Set(['label', 'tag', 'hspace', 'vspace', 'phantom']);
+
+const MATRIX_FENCES: Record<string, [string, string]> = {
+    matrix: ['', ''],
+    smallmatrix: ['', ''],
+    array: ['', ''],
+    pmatrix: ['(', ')'],
+    bmatrix: ['[', ']'],
+    Bmatrix: ['{', '}'],
+    vmatrix: ['|', '|'],
+    Vmatrix: ['‖', '‖'],
+    cases: ['{', ''],
+};
+
+const ALIGN_ENVIRONMENTS = new Set([
+    'align', 'align*', 'aligned', 'alignat', 'alignat*', 'alignedat', 'gather', 'gather*',
+    'gathered', 'split', 'multline', 'multline*', 'eqnarray', 'eqnarray*', 'flalign', 'flalign*',
+]);
+
+const WRAPPER_ENVIRONMENTS = new Set(['equation', 'equation*', 'displaymath', 'math']);
+
+let symbolTable: Map<string, string> | undefined;
+
+/**
+ * Unicode character for a symbol command, from org entities and the extras
+ */
+function lookupSymbol(name: string): string | undefined {
+    if (!symbolTable) {
+        symbolTable = new Map();
+        for (const [entity, def] of Object.entries(ORG_ENTITIES)) {
+            if (def.latex.replace(/\{\}$/, '') === `\\${entity}`) {
+                symbolTable.set(entity, def.utf8);
+            }
+        }
+        for (const [command, char] of Object.entries(EXTRA_SYMBOLS)) {
+            symbolTable.set(command, char);
+        }
+    }
+    return symbolTable.get(name);
+}
+
+/** Symbols that read as identifiers (letters and letter-like signs) */
+function isIdentifierChar(char: string): boolean {
+    return /^\p{L}$/u.test(char) || '∞∂∇ℏℓ∅ℵ℘ℜℑ'.includes(char);
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface Token {
+    type: 'command' | 'char' | 'number';
+    value: string;
+    /** Position in the source */
+    offset: number;
+}
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (char === '%') {
+            // Comment to end of line
+            while (i < source.length && source[i] !== '\n') i++;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        if (char === '\\') {
+            const letters = source.slice(i + 1).match(/^[A-Za-z]+\*?/);
+            if (letters) {
+                tokens.push({ type: 'command', value: letters[0], offset: i });
+                i += 1 + letters[0].length;
+            } else if (i + 1 < source.length) {
+                tokens.push({ type: 'command', value: source[i + 1], offset: i });
+                i += 2;
+            } else {
+                i++;
+            }
+            continue;
+        }
+        const number = source.slice(i).match(/^\d+(?:\.\d+)?/);
+        if (number) {
+            tokens.push({ type: 'number', value: number[0], offset: i });
+            i += number[0].length;
+            continue;
+        }
+        tokens.push({ type: 'char', value: char, offset: i });
+        i++;
+    }
+    return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+class MathParser {
+    private pos = 0;
+
+    constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+    /**
+     * Parse the whole input; top-level \\ or & make it an alignment
+     */
+    parse(): MathNode {
+        const rows = this.parseTable(() => this.pos >= this.tokens.length);
+        return this.tableNode(rows, 'align');
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private isChar(value: string): boolean {
+        const token = this.peek();
+        return token?.type === 'char' && token.value === value;
+    }
+
+    private isCommand(value: string): boolean {
+        const token = this.peek();
+        return token?.type === 'command' && token.value === value;
+    }
+
+    private expectChar(value: string): void {
+        if (!this.isChar(value)) {
+            throw new UnsupportedMathError(`Expected "${value}"`);
+        }
+        this.pos++;
+    }
+
+    /**
+     * Rows of &-separated cells up to the stop condition
+     */
+    private parseTable(atEnd: () => boolean): MathNode[][] {
+        const rows: MathNode[][] = [];
+        let cells: MathNode[] = [];
+        let current: MathNode[] = [];
+        for (;;) {
+            if (atEnd() || this.pos >= this.tokens.length) break;
+            if (this.isChar('&')) {
+                this.pos++;
+                cells.push(row(current));
+                current = [];
+                continue;
+            }
+            if (this.isCommand('\\') || this.isCommand('cr')) {
+                this.pos++;
+                // Optional spacing after the break: \\[2pt]
+                if (this.isChar('[')) this.skipBracketed();
+                cells.push(row(current));
+                rows.push(cells);
+                cells = [];
+                current = [];
+                continue;
+            }
+            const node = this.parseScripted();
+            if (node) current.push(node);
+        }
+        if (current.length > 0 || cells.length > 0) {
+            cells.push(row(current));
+            rows.push(cells);
+        }
+        return rows;
+    }
+
+    private tableNode(rows: MathNode[][], layout: 'matrix' | 'align'): MathNode {
+        if (rows.length === 0) return row([]);
+        if (rows.length === 1 && rows[0].length === 1 && layout === 'align') return rows[0][0];
+        if (layout === 'align') {
+            // Cells of an alignment read as one expression per row
+            return { kind: 'matrix', rows: rows.map(cells => [row(cells)]), layout };
+        }
+        return { kind: 'matrix', rows, layout };
+    }
+
+    /**
+     * Nodes up to a closing token (not consumed)
+     */
+    private parseRowUntil(isEnd: () => boolean): MathNode {
+        const children: MathNode[] = [];
+        while (this.pos < this.tokens.length && !isEnd()) {
+            const node = this.parseScripted();
+            if (node) children.push(node);
+        }
+        return row(children);
+    }
+
+    /**
+     * An atom followed by any ^, _ and ' scripts
+     */
+    private parseScripted(): MathNode | undefined {
+        let base = this.parseAtom();
+        if (base === undefined) return undefined;
+
+        let sub: MathNode | undefined;
+        let sup: MathNode | undefined;
+        for (;;) {
+            if (this.isChar('_')) {
+                this.pos++;
+                if (sub) throw new UnsupportedMathError('Double subscript');
+                sub = this.parseArgument();
+            } else if (this.isChar('^')) {
+                this.pos++;
+                if (sup) throw new UnsupportedMathError('Double superscript');
+                sup = this.parseArgument();
+            } else if (this.isChar("'")) {
+                let primes = '';
+                while (this.isChar("'")) {
+                    primes += '′';
+                    this.pos++;
+                }
+                sup = sup ? row([{ kind: 'op', text: primes }, sup]) : { kind: 'op', text: primes };
+            } else if (this.isCommand('limits') || this.isCommand('nolimits')) {
+                this.pos++;
+            } else {
+                break;
+            }
+        }
+        if (!sub && !sup) return base;
+        if (base.kind === 'row' && base.children.length === 0) {
+            // {}^{14}C: scripts on nothing
+            base = { kind: 'text', text: '' };
+        }
+        return { kind: 'scripts', base, sub, sup };
+    }
+
+    /**
+     * A script or command argument: a group or a single token
+     */
+    private parseArgument(): MathNode {
+        const token = this.peek();
+        if (!token) throw new UnsupportedMathError('Missing argument');
+        if (token.type === 'number') {
+            // x^23 takes only the first digit as its exponent
+            this.pos++;
+            const digits = token.value;
+            if (digits.length > 1) {
+                this.tokens.splice(this.pos, 0, { type: 'number', value: digits.slice(1), offset: token.offset + 1 });
+            }
+            return { kind: 'number', text: digits[0] };
+        }
+        const atom = this.parseAtom();
+        if (atom === undefined) throw new UnsupportedMathError('Missing argument');
+        return atom;
+    }
+
+    /**
+     * Raw text of a {group}, for \text and environment names
+     */
+    private parseRawGroup(): string {
+        const token = this.peek();
+        if (!token) throw new UnsupportedMathError('Missing group');
+        if (token.type !== 'char' || token.value !== '{') {
+            this.pos++;
+            return token.value;
+        }
+        // Re-read the source: tokens drop the spaces \text keeps
+        const start = token.offset;
+        let depth = 0;
+        let i = start;
+        for (; i < this.source.length; i++) {
+            if (this.source[i] === '\\') {
+                i++;
+                continue;
+            }
+            if (this.source[i] === '{') depth++;
+            if (this.source[i] === '}' && --depth === 0) break;
+        }
+        const text = this.source.slice(start + 1, i);
+        // Skip the group's tokens
+        this.pos++;
+        depth = 1;
+        while (this.pos < this.tokens.length && depth > 0) {
+            if (this.isChar('{')) depth++;
+            if (this.isChar('}')) depth--;
+            this.pos++;
+        }
+        return text;
+    }
+
+    private skipBracketed(): void {
+        let depth = 0;
+        do {
+            if (this.isChar('[')) depth++;
+            if (this.isChar(']')) depth--;
+            this.pos++;
+        } while (depth > 0 && this.pos < this.tokens.length);
+    }
+
+    private parseOptional(): MathNode | undefined {
+        if (!this.isChar('[')) return undefined;
+        this.pos++;
+        const node = this.parseRowUntil(() => this.isChar(']'));
+        this.expectChar(']');
+        return node;
+    }
+
+    private parseAtom(): MathNode | undefined {
+        const token = this.peek();
+        if (!token) return undefined;
+
+        if (token.type === 'number') {
+            this.pos++;
+            return { kind: 'number', text: token.value };
+        }
+
+        if (token.type === 'char') {
+            this.pos++;
+            switch (token.value) {
+                case '{': {
+                    const group = this.parseRowUntil(() => this.isChar('}'));
+                    this.expectChar('}');
+                    return group;
+                }
+                case '}':
+                    throw new UnsupportedMathError('Unbalanced "}"');
+                case '^':
+                case '_':
+                    throw new UnsupportedMathError(`Unexpected "${token.value}"`);
+                case '~':
+                    return { kind: 'space', em: 0.333 };
+                case '-':
+                    return { kind: 'op', text: '−' };
+                case '*':
+                    return { kind: 'op', text: '∗' };
+                default:
+                    return /^[A-Za-z]$/.test(token.value)
+                        ? { kind: 'ident', text: token.value }
+                        : { kind: 'op', text: token.value };
+            }
+        }
+
+        this.pos++;
+        return this.parseCommand(token.value);
+    }
+
+    private parseCommand(name: string): MathNode | undefined {
+        if (name in SPACES) {
+            return { kind: 'space', em: SPACES[name] };
+        }
+        if (IGNORED_COMMANDS.has(name)) {
+            return undefined;
+        }
+        if (DROPPED_WITH_ARGUMENT.has(name)) {
+            this.parseRawGroup();
+            return undefined;
+        }
+        if ('{}[]()|#$%&_'.includes(name) && name.length === 1) {
+            return { kind: 'op', text: name === '|' ? '‖' : name };
+        }
+
+        switch (name) {
+            case 'frac':
+            case 'dfrac':
+            case 'tfrac':
+            case 'cfrac': {
+                const num = this.parseArgument();
+                const den = this.parseArgument();
+                return { kind: 'frac', num, den };
+            }
+            case 'binom':
+            case 'dbinom':
+            case 'tbinom': {
+                const num = this.parseArgument();
+                const den = this.parseArgument();
+                return { kind: 'fenced', open: '(', close: ')', body: { kind: 'frac', num, den, noBar: true } };
+            }
+            case 'sqrt': {
+                const index = this.parseOptional();
+                return { kind: 'sqrt', body: this.parseArgument(), index };
+            }
+            case 'left':
+                return this.parseFenced();
+            case 'right':
+                throw new UnsupportedMathError('Unmatched \\right');
+            case 'begin':
+                return this.parseEnvironment();
+            case 'operatorname':
+            case 'operatorname*': {
+                return { kind: 'ident', text: this.parseRawGroup().trim(), variant: 'normal', limits: name.endsWith('*') };
+            }
+            case 'not': {
+                const next = this.parseAtom();
+                if (next?.kind !== 'op') throw new UnsupportedMathError('\\not without a relation');
+                return { kind: 'op', text: next.text === '=' ? '≠' : next.text + '̸' };
+            }
+            case 'pmod': {
+                const body = this.parseArgument();
+                return row([
+                    { kind: 'space', em: 1 },
+                    { kind: 'fenced', open: '(', close: ')', body: row([{ kind: 'ident', text: 'mod', variant: 'normal' }, { kind: 'space', em: 0.333 }, body]) },
+                ]);
+            }
+            case 'bmod':
+            case 'mod':
+                return { kind: 'ident', text: 'mod', variant: 'normal' };
+        }
+
+        if (TEXT_COMMANDS.has(name)) {
+            return { kind: 'text', text: this.parseRawGroup() };
+        }
+        if (name in FONT_COMMANDS) {
+            return withVariant(this.parseArgument(), FONT_COMMANDS[name]);
+        }
+        if (name in ACCENTS) {
+            return { kind: 'accent', accent: ACCENTS[name], body: this.parseArgument() };
+        }
+        if (name in LARGE_OPERATORS) {
+            const text = LARGE_OPERATORS[name];
+            return { kind: 'op', text, large: true, limits: !INTEGRALS.has(text) };
+        }
+        if (FUNCTION_NAMES.has(name)) {
+            return { kind: 'ident', text: name, variant: 'normal' };
+        }
+        if (LIMIT_FUNCTIONS.has(name)) {
+            const text = name === 'liminf' ? 'lim inf' : name === 'limsup' ? 'lim sup' : name;
+            return { kind: 'ident', text, variant: 'normal', limits: true };
+        }
+
+        const symbol = lookupSymbol(name);
+        if (symbol !== undefined) {
+            return isIdentifierChar(symbol)
+                ? { kind: 'ident', text: symbol }
+                : { kind: 'op', text: symbol };
+        }
+        throw new UnsupportedMathError(`Unsupported command \\${name}`);
+    }
+
+    /**
+     * Delimiter after \left, \right or \big: a character or a symbol command
+     */
+    private parseDelimiter(): string {
+        const token = this.peek();
+        if (!token) throw new UnsupportedMathError('Missing delimiter');
+        this.pos++;
+        if (token.type === 'char') {
+            return token.value === '.' ? '' : token.value;
+        }
+        if (token.type === 'command') {
+            if (token.value === '{' || token.value === '}') return token.value;
+            if (token.value === '|') return '‖';
+            const symbol = lookupSymbol(token.value);
+            if (symbol !== undefined) return symbol;
+        }
+        throw new UnsupportedMathError('Unsupported delimiter');
+    }
+
+    private parseFenced(): MathNode {
+        const open = this.parseDelimiter();
+        const body = this.parseRowUntil(() => this.isCommand('right'));
+        if (!this.isCommand('right')) throw new UnsupportedMathError('Missing \\right');
+        this.pos++;
+        const close = this.parseDelimiter();
+        return { kind: 'fenced', open, close, body };
+    }
+
+    private parseEnvironment(): MathNode {
+        const name = this.parseRawGroup().trim();
+        const atEnd = () => this.isCommand('end');
+        let node: MathNode;
+
+        if (name === 'array' || name === 'alignat' || name === 'alignat*' || name === 'alignedat') {
+            // Column spec or column count
+            this.parseRawGroup();
+        }
+
+        if (WRAPPER_ENVIRONMENTS.has(name)) {
+            node = this.tableNode(this.parseTable(atEnd), 'align');
+        } else if (ALIGN_ENVIRONMENTS.has(name)) {
+            const rows = this.parseTable(atEnd);
+            node = rows.length === 1 && rows[0].length === 1
+                ? rows[0][0]
+                : { kind: 'matrix', rows: rows.map(cells => [row(cells)]), layout: 'align' };
+        } else if (name in MATRIX_FENCES) {
+            const [open, close] = MATRIX_FENCES[name];
+            const matrix: MathNode = { kind: 'matrix', rows: this.parseTable(atEnd), layout: 'matrix' };
+            node = open || close ? { kind: 'fenced', open, close, body: matrix } : matrix;
+        } else {
+            throw new UnsupportedMathError(`Unsupported environment ${name}`);
+        }
+
+        if (!this.isCommand('end')) throw new UnsupportedMathError(`Missing \\end{${name}}`);
+        this.pos++;
+        this.parseRawGroup();
+        return node;
+    }
+}
+
+function row(children: MathNode[]): MathNode {
+    return children.length === 1 ? children[0] : { kind: 'row', children };
+}
+
+/**
+ * Apply a font command to the letters and digits of a subtree
+ */
+function withVariant(node: MathNode, variant: MathVariant): MathNode {
+    switch (node.kind) {
+        case 'ident':
+        case 'number':
+            return { ...node, variant };
+        case 'row':
+            return { kind: 'row', children: node.children.map(child => withVariant(child, variant)) };
+        case 'scripts':
+            return { ...node, base: withVariant(node.base, variant) };
+        default:
+            return node;
+    }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Strip $...$, $$...$$, \(...\) and \[...\] delimiters from a math fragment
+ */
+export function stripMathDelimiters(value: string): string {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('$$') && trimmed.endsWith('$$')) return trimmed.slice(2, -2);
+    if (trimmed.startsWith('\\[') && trimmed.endsWith('\\]')) return trimmed.slice(2, -2);
+    if (trimmed.startsWith('\\(') && trimmed.endsWith('\\)')) return trimmed.slice(2, -2);
+    if (trimmed.startsWith('$') && trimmed.endsWith('$')) return trimmed.slice(1, -1);
+    return trimmed;
+}
+
+/**
+ * Parse LaTeX math (without delimiters), or undefined when it uses
+ * anything outside the supported subset
+ */
+export function parseLatexMath(latex: string): MathNode | undefined {
+    try {
+        return new MathParser(tokenize(latex), latex).parse();
+    } catch (error) {
+        if (error instanceof UnsupportedMathError) return undefined;
+        throw error;
+    }
+}
+
+/**
+ * LaTeX math as an OMML <m:oMath> (or <m:oMathPara> for display math)
+ */
+export function latexToOmml(latex: string, display = false): string | undefined {
+    const node = parseLatexMath(latex);
+    if (!node) return undefined;
+    const math = `<m:oMath>${ommlChildren(node)}</m:oMath>`;
+    return display ? `<m:oMathPara>${math}</m:oMathPara>` : math;
+}
+
+/**
+ * LaTeX math as a MathML <math> element, with the source as a TeX annotation
+ */
+export function latexToMathml(latex: string, display = false): string | undefined {
+    const node = parseLatexMath(latex);
+    if (!node) return undefined;
+    const mode = display ? ' display="block"' : '';
+    return `<math xmlns="http://www.w3.org/1998/Math/MathML"${mode}><semantics>` +
+        `<mrow>${mathml(node)}</mrow>` +
+        `<annotation encoding="application/x-tex">${escapeXml(latex.trim())}</annotation>` +
+        `</semantics></math>`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// =============================================================================
+// OMML Writer
+// =============================================================================
+
+const OMML_STYLES: Record<MathVariant, string> = {
+    'normal': '<m:sty m:val="p"/>',
+    'italic': '<m:sty m:val="i"/>',
+    'bold': '<m:sty m:val="b"/>',
+    'double-struck': '<m:scr m:val="double-struck"/><m:sty m:val="p"/>',
+    'script': '<m:scr m:val="script"/><m:sty m:val="p"/>',
+    'fraktur': '<m:scr m:val="fraktur"/><m:sty m:val="p"/>',
+    'sans-serif': '<m:scr m:val="sans-serif"/><m:sty m:val="p"/>',
+    'monospace': '<m:scr m:val="monospace"/><m:sty m:val="p"/>',
+};
+
+/** Operators that end the body of a preceding large operator */
+const NARY_BODY_END = new Set(['+', '−', '=', '<', '>', '≤', '≥', '≠', '≈', '±', '∓', ',', ';', '≡', '∼', '→', '⇒', '∈']);
+
+function ommlRun(text: string, style = ''): string {
+    const rPr = style ? `<m:rPr>${style}</m:rPr>` : '';
+    return `<m:r>${rPr}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+}
+
+/**
+ * The children of a node as OMML; a row's large operators take the
+ * terms after them as their body
+ */
+function ommlChildren(node: MathNode): string {
+    if (node.kind !== 'row') return omml(node);
+    const children = node.children;
+    let result = '';
+    for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        const op = child.kind === 'scripts' ? child.base : child;
+        if (op.kind === 'op' && op.large) {
+            let end = i + 1;
+            while (end < children.length) {
+                const next = children[end];
+                if (next.kind === 'op' && (NARY_BODY_END.has(next.text) || next.large)) break;
+                if (next.kind === 'scripts' && next.base.kind === 'op' && next.base.large) break;
+                end++;
+            }
+            const body = children.slice(i + 1, end);
+            const scripts = child.kind === 'scripts' ? child : undefined;
+            result += ommlNary(op.text, !!op.limits, scripts?.sub, scripts?.sup, { kind: 'row', children: body });
+            i = end - 1;
+            continue;
+        }
+        result += omml(child);
+    }
+    return result;
+}
+
+function ommlNary(char: string, limits: boolean, sub: MathNode | undefined, sup: MathNode | undefined, body: MathNode): string {
+    const props = [
+        `<m:chr m:val="${char}"/>`,
+        `<m:limLoc m:val="${limits ? 'undOvr' : 'subSup'}"/>`,
+        sub ? '' : '<m:subHide m:val="1"/>',
+        sup ? '' : '<m:supHide m:val="1"/>',
+    ].join('');
+    return `<m:nary><m:naryPr>${props}</m:naryPr>` +
+        `<m:sub>${sub ? ommlChildren(sub) : ''}</m:sub>` +
+        `<m:sup>${sup ? ommlChildren(sup) : ''}</m:sup>` +
+        `<m:e>${ommlChildren(body)}</m:e></m:nary>`;
+}
+
+function omml(node: MathNode): string {
+    switch (node.kind) {
+        case 'row':
+            return ommlChildren(node);
+        case 'ident': {
+            const variant = node.variant ?? (node.text.length > 1 ? 'normal' : undefined);
+            return ommlRun(node.text, variant ? OMML_STYLES[variant] : '');
+        }
+        case 'number':
+            return ommlRun(node.text, node.variant ? OMML_STYLES[node.variant] : '');
+        case 'op':
+            if (node.large) return ommlNary(node.text, !!node.limits, undefined, undefined, { kind: 'row', children: [] });
+            return ommlRun(node.text);
+        case 'text':
+            return ommlRun(node.text, '<m:nor/>');
+        case 'space':
+            return node.em > 0 ? ommlRun(node.em >= 1 ? ' '.repeat(Math.round(node.em)) : ' ') : '';
+        case 'frac': {
+            const props = node.noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : '';
+            return `<m:f>${props}<m:num>${ommlChildren(node.num)}</m:num><m:den>${ommlChildren(node.den)}</m:den></m:f>`;
+        }
+        case 'sqrt':
+            return node.index
+                ? `<m:rad><m:deg>${ommlChildren(node.index)}</m:deg><m:e>${ommlChildren(node.body)}</m:e></m:rad>`
+                : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${ommlChildren(node.body)}</m:e></m:rad>`;
+        case 'scripts':
+            return ommlScripts(node);
+        case 'fenced':
+            return `<m:d><m:dPr><m:begChr m:val="${escapeXml(node.open)}"/><m:endChr m:val="${escapeXml(node.close)}"/></m:dPr>` +
+                `<m:e>${ommlChildren(node.body)}</m:e></m:d>`;
+        case 'accent':
+            if (node.accent.bar) {
+                return `<m:bar><m:barPr><m:pos m:val="${node.accent.bar}"/></m:barPr><m:e>${ommlChildren(node.body)}</m:e></m:bar>`;
+            }
+            return `<m:acc><m:accPr><m:chr m:val="${node.accent.omml}"/></m:accPr><m:e>${ommlChildren(node.body)}</m:e></m:acc>`;
+        case 'matrix':
+            if (node.layout === 'align') {
+                return `<m:eqArr>${node.rows.map(cells => `<m:e>${cells.map(ommlChildren).join('')}</m:e>`).join('')}</m:eqArr>`;
+            }
+            return `<m:m>${node.rows.map(cells =>
+                `<m:mr>${cells.map(cell => `<m:e>${ommlChildren(cell)}</m:e>`).join('')}</m:mr>`
+            ).join('')}</m:m>`;
+    }
+}
+
+function ommlScripts(node: Extract<MathNode, { kind: 'scripts' }>): string {
+    const { base, sub, sup } = node;
+    if (base.kind === 'op' && base.large) {
+        return ommlNary(base.text, !!base.limits, sub, sup, { kind: 'row', children: [] });
+    }
+    const e = `<m:e>${ommlChildren(base)}</m:e>`;
+    if (base.kind === 'ident' && base.limits) {
+        // lim_{x \to 0}: limits below (and above) the name
+        let result = sub ? `<m:limLow>${e}<m:lim>${ommlChildren(sub)}</m:lim></m:limLow>` : omml(base);
+        if (sup) result = `<m:limUpp><m:e>${result}</m:e><m:lim>${ommlChildren(sup)}</m:lim></m:limUpp>`;
+        return result;
+    }
+    if (sub && sup) {
+        return `<m:sSubSup>${e}<m:sub>${ommlChildren(sub)}</m:sub><m:sup>${ommlChildren(sup)}</m:sup></m:sSubSup>`;
+    }
+    if (sub) {
+        return `<m:sSub>${e}<m:sub>${ommlChildren(sub)}</m:sub></m:sSub>`;
+    }
+    return `<m:sSup>${e}<m:sup>${ommlChildren(sup!)}</m:sup></m:sSup>`;
+}
+
+// =============================================================================
+// MathML Writer
+// =============================================================================
+
+function mathmlVariant(variant: MathVariant | undefined, text: string, defaultVariant: MathVariant): string {
+    if (!variant || variant === defaultVariant) return '';
+    // Multi-letter identifiers are upright in MathML unless told otherwise
+    if (variant === 'normal' && text.length > 1) return '';
+    return ` mathvariant="${variant}"`;
+}
+
+function mathml(node: MathNode): string {
+    switch (node.kind) {
+        case 'row':
+            return `<mrow>${node.children.map(mathml).join('')}</mrow>`;
+        case 'ident': {
+            const defaultVariant: MathVariant = node.text.length > 1 ? 'normal' : 'italic';
+            return `<mi${mathmlVariant(node.variant, node.text, defaultVariant)}>${escapeXml(node.text)}</mi>`;
+        }
+        case 'number':
+            return `<mn${mathmlVariant(node.variant, node.text, 'normal')}>${escapeXml(node.text)}</mn>`;
+        case 'op':
+            return node.large
+                ? `<mo largeop="true"${node.limits ? '' : ' movablelimits="false"'}>${node.text}</mo>`
+                : `<mo>${escapeXml(node.text)}</mo>`;
+        case 'text':
+            return `<mtext>${escapeXml(node.text)}</mtext>`;
+        case 'space':
+            return `<mspace width="${node.em}em"/>`;
+        case 'frac':
+            return `<mfrac${node.noBar ? ' linethickness="0"' : ''}>${mathml(node.num)}${mathml(node.den)}</mfrac>`;
+        case 'sqrt':
+            return node.index
+                ? `<mroot>${mathml(node.body)}${mathml(node.index)}</mroot>`
+                : `<msqrt>${mathml(node.body)}</msqrt>`;
+        case 'scripts': {
+            const { base, sub, sup } = node;
+            const under = (base.kind === 'op' && base.large && base.limits) || (base.kind === 'ident' && base.limits);
+            const [both, lower, upper] = under ? ['munderover', 'munder', 'mover'] : ['msubsup', 'msub', 'msup'];
+            if (sub && sup) return `<${both}>${mathml(base)}${mathml(sub)}${mathml(sup)}</${both}>`;
+            if (sub) return `<${lower}>${mathml(base)}${mathml(sub)}</${lower}>`;
+            return `<${upper}>${mathml(base)}${mathml(sup!)}</${upper}>`;
+        }
+        case 'fenced': {
+            const open = node.open ? `<mo fence="true">${escapeXml(node.open)}</mo>` : '';
+            const close = node.close ? `<mo fence="true">${escapeXml(node.close)}</mo>` : '';
+            return `<mrow>${open}${mathml(node.body)}${close}</mrow>`;
+        }
+        case 'accent':
+            return node.accent.bar === 'bot'
+                ? `<munder accentunder="true">${mathml(node.body)}<mo>${node.accent.mathml}</mo></munder>`
+                : `<mover accent="true">${mathml(node.body)}<mo>${escapeXml(node.accent.mathml)}</mo></mover>`;
+        case 'matrix': {
+            const align = node.layout === 'align' ? ' columnalign="left"' : '';
+            return `<mtable${align}>${node.rows.map(cells =>
+                `<mtr>${cells.map(cell => `<mtd>${mathml(cell)}</mtd>`).join('')}</mtr>`
+            ).join('')}</mtable>`;
+        }
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * LaTeX outline parsing
+ *
+ * Pure text parsing of LaTeX structure: sections, environments, labels and
+ * citation keys. Used by the LaTeX document symbol provider and by the
+ * database indexer, which has no VS Code documents.
+ */
+
+// LaTeX section commands in order of hierarchy (lower index = higher level)
+const LATEX_SECTION_HIERARCHY: string[] = [
+    'part',
+    'chapter',
+    'section',
+    'subsection',
+    'subsubsection',
+    'paragraph',
+    'subparagraph'
+];
+
+export function getSectionLevel(sectionType: string): number {
+    const index = LATEX_SECTION_HIERARCHY.indexOf(sectionType);
+    return index >= 0 ? index : 2; // Default to section level
+}
+
+export function getSectionTypeAtLevel(level: number): string {
+    if (level < 0) return LATEX_SECTION_HIERARCHY[0];
+    if (level >= LATEX_SECTION_HIERARCHY.length) {
+        return LATEX_SECTION_HIERARCHY[LATEX_SECTION_HIERARCHY.length - 1];
+    }
+    return LATEX_SECTION_HIERARCHY[level];
+}
+
+export interface LaTeXSection {
+    type: string;
+    level: number;
+    title: string;
+    line: number;
+    starred: boolean;
+    shortTitle?: string;
+}
+
+export interface LaTeXEnvironment {
+    name: string;
+    line: number;
+    endLine: number;
+    label?: string;
+    caption?: string;
+}
+
+export interface LaTeXLabel {
+    name: string;
+    line: number;
+    context?: string; // section or environment it's in
+}
+
+/**
+ * A citation key from a \cite-style command
+ */
+export interface LaTeXCitation {
+    key: string;
+    command: string;  // cite, citep, autocite, ...
+    line: number;     // 0-based
+    column: number;
+}
+
+/**
+ * Parse LaTeX source and extract sections, environments, and labels
+ * (lines are 0-based)
+ */
+export function parseLatexText(text: string): {
+    sections: LaTeXSection[];
+    environments: LaTeXEnvironment[];
+    labels: LaTeXLabel[];
+} {
+    const lines = text.split('\n');
+
+    const sections: LaTeXSection[] = [];
+    const environments: LaTeXEnvironment[] = [];
+    const labels: LaTeXLabel[] = [];
+
+    // Regex patterns
+    const sectionPattern = /^\s*\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)(\*)?\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}/;
+    const beginEnvPattern = /^\s*\\begin\{(\w+\*?)\}/;
+    const endEnvPattern = /^\s*\\end\{(\w+\*?)\}/;
+    const labelPattern = /\\label\{([^}]+)\}/;
+    const captionPattern = /\\caption(?:\[[^\]]*\])?\{([^}]*)\}/;
+
+    // Track open environments
+    const envStack: { name: string; line: number; label?: string; caption?: string }[] = [];
+    let currentSection: LaTeXSection | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Check for sections
+        const sectionMatch = line.match(sectionPattern);
+        if (sectionMatch) {
+            const [, type, starred, shortTitle, title] = sectionMatch;
+            currentSection = {
+                type,
+                level: getSectionLevel(type),
+                title: title.trim(),
+                line: i,
+                starred: !!starred,
+                shortTitle: shortTitle?.trim()
+            };
+            sections.push(currentSection);
+        }
+
+        // Check for begin environment
+        const beginMatch = line.match(beginEnvPattern);
+        if (beginMatch) {
+            envStack.push({
+                name: beginMatch[1],
+                line: i
+            });
+        }
+
+        // Check for labels
+        const labelMatch = line.match(labelPattern);
+        if (labelMatch) {
+            const label: LaTeXLabel = {
+                name: labelMatch[1],
+                line: i
+            };
+
+            // Associate with current environment or section
+            if (envStack.length > 0) {
+                const currentEnv = envStack[envStack.length - 1];
+                currentEnv.label = labelMatch[1];
+                label.context = currentEnv.name;
+            } else if (currentSection) {
+                label.context = `${currentSection.type}: ${currentSection.title}`;
+            }
+
+            labels.push(label);
+        }
+
+        // Check for captions (in environments)
+        const captionMatch = line.match(captionPattern);
+        if (captionMatch && envStack.length > 0) {
+            envStack[envStack.length - 1].caption = captionMatch[1].trim();
+        }
+
+        // Check for end environment
+        const endMatch = line.match(endEnvPattern);
+        if (endMatch && envStack.length > 0) {
+            const envName = endMatch[1];
+            // Find matching begin
+            for (let j = envStack.length - 1; j >= 0; j--) {
+                if (envStack[j].name === envName) {
+                    const env = envStack.splice(j, 1)[0];
+                    environments.push({
+                        name: env.name,
+                        line: env.line,
+                        endLine: i,
+                        label: env.label,
+                        caption: env.caption
+                    });
+                    break;
+                }
+            }
+        }
+    }
+
+    return { sections, environments, labels };
+}
+
+/**
+ * Extract citation keys from \cite, \citep, \citet, \autocite, \parencite,
+ * \textcite, \nocite and similar commands, skipping % comments.
+ * `\cite[p.~3]{a,b}` gives keys a and b.
+ */
+export function extractLatexCitations(text: string): LaTeXCitation[] {
+    const citations: LaTeXCitation[] = [];
+    const citePattern = /\\((?:[A-Za-z]*cite[A-Za-z]*|nocite)\*?)\s*(?:\[[^\]]*\]\s*){0,2}\{([^}]*)\}/g;
+    const lines = text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        // Drop an unescaped % comment
+        const line = lines[i].replace(/(^|[^\\])%.*$/, '$1');
+        let match: RegExpExecArray | null;
+        citePattern.lastIndex = 0;
+        while ((match = citePattern.exec(line)) !== null) {
+            const command = match[1].replace(/\*$/, '');
+            const keysStart = match.index + match[0].lastIndexOf('{') + 1;
+            let offset = 0;
+            for (const part of match[2].split(',')) {
+                const key = part.trim();
+                if (key && key !== '*') {
+                    citations.push({ key, command, line: i, column: keysStart + offset + part.indexOf(key) });
+                }
+                offset += part.length + 1;
+            }
+        }
+    }
+
+    return citations;
+}
@@ -0,0 +1,153 @@
+/**
+ * LaTeX compilation shared by equation previews and `latex` source blocks.
+ * No VS Code dependencies - usable from the extension and the CLI.
+ *
+ * Output follows the preview pipeline: SVG via latex + dvisvgm, PNG via
+ * pdflatex + pdftoppm, and PDF straight from pdflatex.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+
+/**
+ * Get enhanced PATH including common LaTeX installation locations
+ */
+export function getEnhancedPath(): string {
+    const currentPath = process.env.PATH || '';
+    const latexPaths = [
+        '/Library/TeX/texbin',           // MacTeX
+        '/usr/local/texlive/2025/bin/universal-darwin',
+        '/usr/local/texlive/2024/bin/universal-darwin',
+        '/usr/local/texlive/2023/bin/universal-darwin',
+        '/opt/homebrew/bin',             // Homebrew on Apple Silicon
+        '/usr/local/bin',                // Homebrew on Intel
+        '/usr/bin',
+    ];
+
+    // Add paths that aren't already in PATH
+    const pathSet = new Set(currentPath.split(':'));
+    for (const p of latexPaths) {
+        if (!pathSet.has(p)) {
+            pathSet.add(p);
+        }
+    }
+
+    return Array.from(pathSet).join(':');
+}
+
+/**
+ * Run a command and capture output
+ */
+export function runCommand(
+    cmd: string,
+    args: string[],
+    cwd: string,
+    timeout: number
+): Promise<{ success: boolean; stdout: string; stderr: string }> {
+    return new Promise((resolve) => {
+        const env = {
+            ...process.env,
+            PATH: getEnhancedPath(),
+        };
+
+        const proc = spawn(cmd, args, {
+            cwd,
+            timeout,
+            env,
+        });
+
+        let stdout = '';
+        let stderr = '';
+
+        proc.stdout?.on('data', (data: Buffer) => {
+            stdout += data.toString();
+        });
+
+        proc.stderr?.on('data', (data: Buffer) => {
+            stderr += data.toString();
+        });
+
+        proc.on('error', (err: Error) => {
+            resolve({ success: false, stdout, stderr: err.message });
+        });
+
+        proc.on('close', (code: number | null) => {
+            resolve({ success: code === 0, stdout, stderr });
+        });
+    });
+}
+
+/**
+ * Compile a complete LaTeX document to `outFile`, choosing the tool chain
+ * from the extension (.svg, .png or .pdf).
+ */
+export async function renderLatexDocument(
+    tex: string,
+    outFile: string,
+    timeout: number = 30000
+): Promise<{ success: boolean; error?: string }> {
+    const format = path.extname(outFile).slice(1).toLowerCase();
+    if (format !== 'svg' && format !== 'png' && format !== 'pdf') {
+        return { success: false, error: `Cannot render LaTeX to .${format} (use .svg, .png or .pdf)` };
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'latex-render-'));
+    const texFile = path.join(tempDir, 'document.tex');
+    const compile = (cmd: string) => runCommand(
+        cmd,
+        ['-interaction=nonstopmode', '-halt-on-error', 'document.tex'],
+        tempDir,
+        timeout
+    );
+
+    try {
+        fs.writeFileSync(texFile, tex);
+
+        let produced: string;
+        if (format === 'svg') {
+            const latexResult = await compile('latex');
+            if (!latexResult.success) {
+                return { success: false, error: `LaTeX compilation failed:\n${latexResult.stderr || latexResult.stdout}` };
+            }
+            const svgResult = await runCommand(
+                'dvisvgm',
+                ['--no-fonts', '--exact', '--output=%f', 'document.dvi'],
+                tempDir,
+                timeout
+            );
+            if (!svgResult.success) {
+                return { success: false, error: `dvisvgm failed: ${svgResult.stderr}` };
+            }
+            produced = path.join(tempDir, 'document.svg');
+        } else {
+            const pdfResult = await compile('pdflatex');
+            if (!pdfResult.success) {
+                return { success: false, error: `LaTeX compilation failed:\n${pdfResult.stderr || pdfResult.stdout}` };
+            }
+            produced = path.join(tempDir, 'document.pdf');
+            if (format === 'png') {
+                const pngResult = await runCommand(
+                    'pdftoppm',
+                    ['-png', '-r', '150', '-singlefile', produced, path.join(tempDir, 'document')],
+                    tempDir,
+                    timeout
+                );
+                if (!pngResult.success) {
+                    return { success: false, error: `pdftoppm failed: ${pngResult.stderr}` };
+                }
+                produced = path.join(tempDir, 'document.png');
+            }
+        }
+
+        if (!fs.existsSync(produced)) {
+            return { success: false, error: `Could not convert to ${format.toUpperCase()}` };
+        }
+        fs.mkdirSync(path.dirname(outFile), { recursive: true });
+        fs.copyFileSync(produced, outFile);
+        return { success: true };
+    } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+}
@@ -23,6 +23,7 @@ import type {
     DiarySexpElement,
 } from './orgElementTypes';
 import { evaluateDiarySexp, getDiarySexpDates } from './orgDiarySexp';
+import { isHabitHeadline, renderHabitGraph, type HabitDay } from './orgHabits';
 
 // =============================================================================
 // Types and Interfaces
@@ -84,6 +85,8 @@ export interface AgendaItem {
     duration?: number;
     /** Repeat interval if present */
     repeater?: string;
+    /** Consistency graph, for habits */
+    habitGraph?: HabitDay[];
 }
 
 /**
@@ -406,7 +409,7 @@ function filterAgendaItems(items: AgendaItem[], config: AgendaViewConfig): Agend
         }
 
         // Filter habits if disabled
-        if (!config.showHabits && item.tags.includes('HABIT')) {
+        if (!config.showHabits && (item.tags.includes('HABIT') || isHabitHeadline(item.headline))) {
             return false;
         }
 
@@ -845,14 +848,20 @@ export interface RenderedAgenda {
     text: string;
     /** 0-based line number -> the item rendered on that line */
     lineMap: Map<number, AgendaItem>;
+    /** 0-based line number -> column where that line's habit graph starts */
+    habitColumns?: Map<number, number>;
 }
 
+/** Column habit graphs are drawn at (org-habit-graph-column) */
+export const HABIT_GRAPH_COLUMN = 50;
+
 /**
  * Render an agenda view as a buffer, recording which line each item lands on.
  */
 export function renderAgendaBuffer(view: AgendaView): RenderedAgenda {
     const lines: string[] = [];
     const lineMap = new Map<number, AgendaItem>();
+    const habitColumns = new Map<number, number>();
 
     // Header
     lines.push(`Agenda for ${format(view.dateRange.start, 'MMM d')} - ${format(view.dateRange.end, 'MMM d, yyyy')}`);
@@ -869,7 +878,14 @@ export function renderAgendaBuffer(view: AgendaView): RenderedAgenda {
         for (const item of group.items) {
             // Record before pushing: lines.length is the index this item takes.
             lineMap.set(lines.length, item);
-            lines.push('  ' + formatAgendaItem(item));
+            let line = '  ' + formatAgendaItem(item);
+            if (item.habitGraph) {
+                // A long title pushes the graph right rather than being cut.
+                line = line.length < HABIT_GRAPH_COLUMN ? line.padEnd(HABIT_GRAPH_COLUMN) : line + ' ';
+                habitColumns.set(lines.length, line.length);
+                line += renderHabitGraph(item.habitGraph);
+            }
+            lines.push(line);
         }
 
         lines.push('');
@@ -878,7 +894,7 @@ export function renderAgendaBuffer(view: AgendaView): RenderedAgenda {
     // Footer
     lines.push(`Total: ${view.totalItems} items`);
 
-    return { text: lines.join('\n'), lineMap };
+    return { text: lines.join('\n'), lineMap, habitColumns };
 }
 
 /**
@@ -895,4 +911,6 @@ export function formatAgendaView(view: AgendaView): string {
 export {
     formatDateLabel,
     timestampToDate,
+    sortAgendaItems,
+    groupAgendaItems,
 };
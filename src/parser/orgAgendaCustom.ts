@@ -0,0 +1,566 @@
+/**
+ * Custom agenda views (the org-agenda-custom-commands analogue)
+ * No VS Code dependencies - shared by the agenda and the CLI
+ *
+ * A view is a named list of blocks. Each block selects headings from the
+ * index by type (dated agenda, TODO list, tags match, deadlines, stuck
+ * projects), narrows them with a tags/property match expression, and sorts
+ * and groups them. Views come from the `scimax.agenda.customViews` setting or
+ * from org files: a heading with an `:AGENDA_VIEW:` property defines a view
+ * and its child headings define the blocks.
+ */
+
+import { addDays, format, parse as parseDate, startOfDay } from 'date-fns';
+import { parseOrg } from './orgParserUnified';
+import type { HeadlineElement } from './orgElementTypes';
+import {
+    formatAgendaItem,
+    groupAgendaItems,
+    sortAgendaItems,
+    type AgendaGroup,
+    type AgendaItem,
+    type AgendaViewConfig,
+    type RenderedAgenda,
+} from './orgAgenda';
+import { parseTagsMatch, evaluateTagsMatch, type MatchNode } from './orgTagsMatch';
+import { parseHeadingTags } from '../org/agendaTags';
+import type { HeadingRecord } from '../database/scimaxDbCore';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const CUSTOM_BLOCK_TYPES = ['agenda', 'todo', 'tags', 'tags-todo', 'deadlines', 'stuck'] as const;
+
+/**
+ * - `agenda`: scheduled items and deadlines in a date span
+ * - `todo`: headings in the given (or any active) TODO states
+ * - `tags`: every heading matching `match`
+ * - `tags-todo`: active TODO headings matching `match`
+ * - `deadlines`: upcoming deadlines, or only missed ones with `overdue`
+ * - `stuck`: projects (headings matching `match`) without a next action
+ */
+export type CustomBlockType = typeof CUSTOM_BLOCK_TYPES[number];
+
+export interface CustomAgendaBlock {
+    type: CustomBlockType;
+    /** Heading shown above the block */
+    title?: string;
+    /** Tags/property match expression (see orgTagsMatch) */
+    match?: string;
+    /** `todo`: states to list (default: all active states) */
+    todoStates?: string[];
+    /** `agenda`: span in days; `deadlines`: how far ahead to look */
+    days?: number;
+    /** `deadlines`: only deadlines already missed */
+    overdue?: boolean;
+    /** `stuck`: states that count as a next action (default: NEXT) */
+    nextStates?: string[];
+    sortBy?: AgendaViewConfig['sortBy'];
+    /** `date` applies to `agenda` blocks only; `none` lists items flat */
+    groupBy?: AgendaViewConfig['groupBy'] | 'none';
+}
+
+export interface CustomAgendaView {
+    /** Identifier, used by `scimax agenda <name>` */
+    name: string;
+    /** Display title (defaults to the name) */
+    title?: string;
+    description?: string;
+    blocks: CustomAgendaBlock[];
+    /** Where the view was defined: `settings` or an org file path */
+    source?: string;
+}
+
+export interface CustomAgendaOptions {
+    /** Reference date for spans and overdue checks (defaults to today) */
+    today?: Date;
+    /** Active TODO states */
+    todoStates: string[];
+    /** Done states; done headings are left out of every block but `tags` */
+    doneStates: string[];
+}
+
+export interface CustomBlockResult {
+    block: CustomAgendaBlock;
+    title: string;
+    groups: AgendaGroup[];
+    totalItems: number;
+}
+
+export interface CustomAgendaResult {
+    view: CustomAgendaView;
+    blocks: CustomBlockResult[];
+    totalItems: number;
+}
+
+// =============================================================================
+// Loading views
+// =============================================================================
+
+const SORT_KEYS = ['time', 'priority', 'category', 'todo', 'tag'];
+const GROUP_KEYS = ['date', 'category', 'todo', 'tag', 'priority', 'none'];
+
+function asStringList(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+    if (typeof value === 'string') return value.split(/[\s,]+/).filter(Boolean);
+    return undefined;
+}
+
+/**
+ * Validate one block from settings or an org file.
+ * @throws Error naming the offending field
+ */
+export function normalizeCustomBlock(raw: Record<string, unknown>): CustomAgendaBlock {
+    const type = String(raw.type ?? '').toLowerCase();
+    if (!(CUSTOM_BLOCK_TYPES as readonly string[]).includes(type)) {
+        throw new Error(`unknown block type "${raw.type ?? ''}" (expected ${CUSTOM_BLOCK_TYPES.join(', ')})`);
+    }
+    const block: CustomAgendaBlock = { type: type as CustomBlockType };
+    if (typeof raw.title === 'string' && raw.title.trim()) block.title = raw.title.trim();
+    if (typeof raw.match === 'string' && raw.match.trim()) {
+        block.match = raw.match.trim();
+        // Surface syntax errors when the view is loaded, not when it is run.
+        parseTagsMatch(block.match);
+    }
+    if ((type === 'tags' || type === 'tags-todo') && !block.match) {
+        throw new Error(`"${type}" blocks need a match expression`);
+    }
+    block.todoStates = asStringList(raw.todoStates);
+    block.nextStates = asStringList(raw.nextStates);
+    if (raw.days !== undefined) {
+        const days = Number(raw.days);
+        if (!Number.isInteger(days) || days < 1) throw new Error(`days must be a positive integer, got "${raw.days}"`);
+        block.days = days;
+    }
+    if (raw.overdue !== undefined) block.overdue = raw.overdue === true || raw.overdue === 't' || raw.overdue === 'true';
+    if (raw.sortBy !== undefined) {
+        if (!SORT_KEYS.includes(String(raw.sortBy))) throw new Error(`sortBy must be one of ${SORT_KEYS.join(', ')}`);
+        block.sortBy = raw.sortBy as CustomAgendaBlock['sortBy'];
+    }
+    if (raw.groupBy !== undefined) {
+        if (!GROUP_KEYS.includes(String(raw.groupBy))) throw new Error(`groupBy must be one of ${GROUP_KEYS.join(', ')}`);
+        block.groupBy = raw.groupBy as CustomAgendaBlock['groupBy'];
+    }
+    return block;
+}
+
+/**
+ * Validate one view from the `scimax.agenda.customViews` setting.
+ * @throws Error naming the view and the offending field
+ */
+export function normalizeCustomView(raw: unknown, source = 'settings'): CustomAgendaView {
+    if (!raw || typeof raw !== 'object') throw new Error('custom agenda view must be an object');
+    const obj = raw as Record<string, unknown>;
+    const name = typeof obj.name === 'string' ? obj.name.trim() : '';
+    if (!/^[\w-]+$/.test(name)) {
+        throw new Error(`custom agenda view needs a name of letters, digits, "-" or "_" (got "${obj.name ?? ''}")`);
+    }
+    if (!Array.isArray(obj.blocks) || obj.blocks.length === 0) {
+        throw new Error(`view "${name}" has no blocks`);
+    }
+    const blocks = obj.blocks.map((b, i) => {
+        try {
+            return normalizeCustomBlock((b ?? {}) as Record<string, unknown>);
+        } catch (error) {
+            throw new Error(`view "${name}", block ${i + 1}: ${error instanceof Error ? error.message : error}`);
+        }
+    });
+    return {
+        name,
+        title: typeof obj.title === 'string' ? obj.title : undefined,
+        description: typeof obj.description === 'string' ? obj.description : undefined,
+        blocks,
+        source,
+    };
+}
+
+/** Block fields as `:AGENDA_*:` properties on a view's child headings */
+const ORG_BLOCK_PROPERTIES: Record<string, string> = {
+    AGENDA_BLOCK: 'type',
+    AGENDA_MATCH: 'match',
+    AGENDA_STATES: 'todoStates',
+    AGENDA_NEXT_STATES: 'nextStates',
+    AGENDA_SPAN: 'days',
+    AGENDA_OVERDUE: 'overdue',
+    AGENDA_SORT: 'sortBy',
+    AGENDA_GROUP: 'groupBy',
+};
+
+/**
+ * Read views defined in an org file:
+ *
+ *   * Office day
+ *     :PROPERTIES:
+ *     :AGENDA_VIEW: office
+ *     :END:
+ *   ** Next actions
+ *     :PROPERTIES:
+ *     :AGENDA_BLOCK: tags-todo
+ *     :AGENDA_MATCH: +@office/NEXT
+ *     :END:
+ *
+ * Invalid views are reported in `errors` rather than thrown, so one typo
+ * does not hide every other view in the file.
+ */
+export function parseCustomViewsFromOrg(
+    content: string,
+    filePath: string
+): { views: CustomAgendaView[]; errors: string[] } {
+    const views: CustomAgendaView[] = [];
+    const errors: string[] = [];
+    const document = parseOrg(content, { parseInlineObjects: false, addPositions: false, filePath });
+
+    const visit = (headline: HeadlineElement) => {
+        const drawer = headline.propertiesDrawer ?? {};
+        const name = drawer.AGENDA_VIEW;
+        if (name === undefined) {
+            headline.children.forEach(visit);
+            return;
+        }
+        const blocks = headline.children.map(child => {
+            const raw: Record<string, unknown> = { title: child.properties.rawValue };
+            for (const [prop, field] of Object.entries(ORG_BLOCK_PROPERTIES)) {
+                const value = child.propertiesDrawer?.[prop];
+                if (value !== undefined) raw[field] = value;
+            }
+            return raw;
+        });
+        try {
+            views.push(normalizeCustomView({
+                name,
+                title: headline.properties.rawValue,
+                description: drawer.AGENDA_DESCRIPTION,
+                blocks,
+            }, filePath));
+        } catch (error) {
+            errors.push(`${filePath}:${headline.properties.lineNumber}: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+    document.children.forEach(visit);
+    return { views, errors };
+}
+
+/**
+ * Merge views from settings and org files. Settings win on a name clash,
+ * and the first org definition wins over later ones.
+ */
+export function collectCustomViews(
+    settingsViews: unknown[],
+    orgSources: { filePath: string; content: string }[]
+): { views: CustomAgendaView[]; errors: string[] } {
+    const views: CustomAgendaView[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    const add = (view: CustomAgendaView) => {
+        if (seen.has(view.name)) {
+            errors.push(`duplicate custom agenda view "${view.name}" in ${view.source} ignored`);
+            return;
+        }
+        seen.add(view.name);
+        views.push(view);
+    };
+
+    for (const raw of settingsViews) {
+        try {
+            add(normalizeCustomView(raw));
+        } catch (error) {
+            errors.push(`scimax.agenda.customViews: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    for (const source of orgSources) {
+        const parsed = parseCustomViewsFromOrg(source.content, source.filePath);
+        parsed.views.forEach(add);
+        errors.push(...parsed.errors);
+    }
+    return { views, errors };
+}
+
+// =============================================================================
+// Running views
+// =============================================================================
+
+/** A heading from the index with its JSON columns decoded once */
+interface Candidate {
+    record: HeadingRecord;
+    tags: string[];
+    inheritedTags: string[];
+    properties: Record<string, string>;
+    category: string;
+}
+
+function decodeHeading(record: HeadingRecord): Candidate {
+    let properties: Record<string, string> = {};
+    try {
+        const parsed = JSON.parse(record.properties || '{}');
+        if (parsed && typeof parsed === 'object') properties = parsed;
+    } catch {
+        // Leave properties empty for malformed rows.
+    }
+    return {
+        record,
+        tags: parseHeadingTags(record.tags),
+        inheritedTags: parseHeadingTags(record.inherited_tags),
+        properties,
+        category: properties.CATEGORY
+            ?? record.file_path.split('/').pop()?.replace(/\.(org|md)$/, '')
+            ?? '',
+    };
+}
+
+function matches(node: MatchNode, c: Candidate): boolean {
+    return evaluateTagsMatch(node, {
+        title: c.record.title,
+        tags: c.tags,
+        inheritedTags: c.inheritedTags,
+        todoState: c.record.todo_state ?? undefined,
+        priority: c.record.priority ?? undefined,
+        level: c.record.level,
+        category: c.category,
+        scheduled: c.record.scheduled ?? undefined,
+        deadline: c.record.deadline ?? undefined,
+        closed: c.record.closed ?? undefined,
+        properties: c.properties,
+    });
+}
+
+/** Local date of a stored `2024-01-15 Mon 10:00` timestamp */
+function storedDate(value: string | null): Date | undefined {
+    const m = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+    return m ? parseDate(m[1], 'yyyy-MM-dd', new Date()) : undefined;
+}
+
+function storedTime(value: string | null): string | undefined {
+    return value?.match(/(\d{1,2}:\d{2})/)?.[1];
+}
+
+/**
+ * Build a parser AgendaItem from an index row, so blocks render and navigate
+ * exactly like the built-in agenda.
+ */
+function toAgendaItem(
+    c: Candidate,
+    agendaType: AgendaItem['agendaType'],
+    today: Date,
+    date?: Date,
+    time?: string
+): AgendaItem {
+    const h = c.record;
+    const headline: HeadlineElement = {
+        type: 'headline',
+        range: { start: h.begin_pos, end: h.begin_pos + h.title.length },
+        postBlank: 0,
+        properties: {
+            level: h.level,
+            rawValue: h.title,
+            todoKeyword: h.todo_state || undefined,
+            priority: h.priority || undefined,
+            tags: c.tags,
+            archivedp: false,
+            commentedp: false,
+            footnoteSection: false,
+            lineNumber: h.line_number,
+        },
+        children: [],
+    };
+    const daysUntil = date ? Math.round((date.getTime() - today.getTime()) / 86_400_000) : undefined;
+    return {
+        title: h.title,
+        todoState: h.todo_state || undefined,
+        priority: h.priority || undefined,
+        tags: c.tags,
+        file: h.file_path,
+        line: h.line_number,
+        scheduled: agendaType === 'scheduled' ? date : storedDate(h.scheduled),
+        deadline: agendaType === 'deadline' ? date : storedDate(h.deadline),
+        daysUntil,
+        overdue: daysUntil !== undefined && daysUntil < 0,
+        category: c.category,
+        headline,
+        agendaType,
+        time,
+    };
+}
+
+/**
+ * Headings with no descendant in a next-action state. `all` must hold whole
+ * files in document order so descendants can be found by level.
+ */
+function findStuck(projects: Candidate[], all: Candidate[], nextStates: string[]): Candidate[] {
+    const byFile = new Map<string, Candidate[]>();
+    for (const c of all) {
+        const list = byFile.get(c.record.file_path) ?? [];
+        list.push(c);
+        byFile.set(c.record.file_path, list);
+    }
+    for (const list of byFile.values()) list.sort((a, b) => a.record.line_number - b.record.line_number);
+
+    return projects.filter(project => {
+        const list = byFile.get(project.record.file_path) ?? [];
+        const start = list.indexOf(project);
+        for (let i = start + 1; i < list.length; i++) {
+            if (list[i].record.level <= project.record.level) break;
+            if (list[i].record.todo_state && nextStates.includes(list[i].record.todo_state!)) return false;
+        }
+        return true;
+    });
+}
+
+function blockTitle(block: CustomAgendaBlock): string {
+    if (block.title) return block.title;
+    switch (block.type) {
+        case 'agenda': return `Agenda (${block.days ?? 7} days)`;
+        case 'todo': return block.todoStates?.length ? `TODO: ${block.todoStates.join(' | ')}` : 'All TODO items';
+        case 'tags': return `Headings matching ${block.match}`;
+        case 'tags-todo': return `TODO items matching ${block.match}`;
+        case 'deadlines': return block.overdue ? 'Overdue deadlines' : 'Upcoming deadlines';
+        case 'stuck': return 'Stuck projects';
+    }
+}
+
+/**
+ * Run one block over the indexed headings
+ */
+export function runCustomBlock(
+    block: CustomAgendaBlock,
+    headings: HeadingRecord[],
+    options: CustomAgendaOptions
+): CustomBlockResult {
+    return runBlock(block, headings.map(decodeHeading), options);
+}
+
+function runBlock(block: CustomAgendaBlock, all: Candidate[], options: CustomAgendaOptions): CustomBlockResult {
+    const today = startOfDay(options.today ?? new Date());
+    const isDone = (c: Candidate) => !!c.record.todo_state && options.doneStates.includes(c.record.todo_state);
+    const isActiveTodo = (c: Candidate) => !!c.record.todo_state && !isDone(c);
+
+    // `stuck` defaults to headings tagged :project:, like org's stuck project setup.
+    const node = parseTagsMatch(block.match ?? (block.type === 'stuck' ? '+project' : ''), { now: today });
+    const candidates = all.filter(c => matches(node, c));
+    const items: AgendaItem[] = [];
+
+    switch (block.type) {
+        case 'agenda': {
+            const end = addDays(today, block.days ?? 7);
+            for (const c of candidates) {
+                if (isDone(c)) continue;
+                const scheduled = storedDate(c.record.scheduled);
+                const deadline = storedDate(c.record.deadline);
+                // Missed deadlines stay visible, as in the built-in agenda.
+                if (deadline && (deadline < end) && (deadline >= today || isActiveTodo(c))) {
+                    items.push(toAgendaItem(c, 'deadline', today, deadline, storedTime(c.record.deadline)));
+                }
+                if (scheduled && scheduled >= today && scheduled < end) {
+                    items.push(toAgendaItem(c, 'scheduled', today, scheduled, storedTime(c.record.scheduled)));
+                }
+            }
+            break;
+        }
+        case 'todo': {
+            const states = block.todoStates?.length ? block.todoStates : options.todoStates;
+            for (const c of candidates) {
+                if (c.record.todo_state && states.includes(c.record.todo_state)) {
+                    items.push(toAgendaItem(c, 'todo', today));
+                }
+            }
+            break;
+        }
+        case 'tags':
+            for (const c of candidates) items.push(toAgendaItem(c, 'todo', today));
+            break;
+        case 'tags-todo':
+            for (const c of candidates) {
+                if (isActiveTodo(c)) items.push(toAgendaItem(c, 'todo', today));
+            }
+            break;
+        case 'deadlines': {
+            const horizon = block.days !== undefined ? addDays(today, block.days) : undefined;
+            for (const c of candidates) {
+                const deadline = storedDate(c.record.deadline);
+                if (!deadline || isDone(c)) continue;
+                if (block.overdue ? deadline >= today : deadline < today || (horizon && deadline >= horizon)) continue;
+                items.push(toAgendaItem(c, 'deadline', today, deadline, storedTime(c.record.deadline)));
+            }
+            break;
+        }
+        case 'stuck': {
+            // A heading that is itself a next action is not a stuck project.
+            const nextStates = block.nextStates?.length ? block.nextStates : ['NEXT'];
+            const projects = candidates.filter(c => !isDone(c) && !nextStates.includes(c.record.todo_state ?? ''));
+            for (const c of findStuck(projects, all, nextStates)) {
+                items.push(toAgendaItem(c, 'todo', today));
+            }
+            break;
+        }
+    }
+
+    const dated = block.type === 'agenda' || block.type === 'deadlines';
+    const sorted = sortAgendaItems(items, block.sortBy ?? (dated ? 'time' : 'priority'));
+    const groupBy = block.groupBy ?? (block.type === 'agenda' ? 'date' : 'none');
+    let groups: AgendaGroup[];
+    if (groupBy === 'none' || (groupBy === 'date' && block.type !== 'agenda')) {
+        groups = [{ label: '', key: 'all', items: sorted }];
+    } else {
+        groups = groupAgendaItems(sorted, groupBy, today, block.days ?? 7);
+        // groupAgendaItems files overdue items under the real today; keep
+        // them on the view's first day when it starts elsewhere.
+        if (groupBy === 'date') {
+            const placed = new Set(groups.flatMap(g => g.items));
+            const missed = sorted.filter(item => item.overdue && !placed.has(item));
+            const first = groups.find(g => g.key === format(today, 'yyyy-MM-dd'));
+            first?.items.unshift(...missed);
+        }
+    }
+
+    return { block, title: blockTitle(block), groups, totalItems: sorted.length };
+}
+
+/**
+ * Run every block of a view over the indexed headings
+ */
+export function runCustomAgendaView(
+    view: CustomAgendaView,
+    headings: HeadingRecord[],
+    options: CustomAgendaOptions
+): CustomAgendaResult {
+    const all = headings.map(decodeHeading);
+    const blocks = view.blocks.map(block => runBlock(block, all, options));
+    return { view, blocks, totalItems: blocks.reduce((sum, b) => sum + b.totalItems, 0) };
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render a custom view as an agenda buffer, one section per block
+ */
+export function renderCustomAgendaBuffer(result: CustomAgendaResult, today: Date = new Date()): RenderedAgenda {
+    const lines: string[] = [];
+    const lineMap = new Map<number, AgendaItem>();
+
+    lines.push(`${result.view.title ?? result.view.name} (${format(today, 'EEEE, MMM d, yyyy')})`);
+    lines.push('='.repeat(70));
+    lines.push('');
+
+    for (const block of result.blocks) {
+        lines.push(block.title);
+        lines.push('-'.repeat(block.title.length));
+        if (block.totalItems === 0) {
+            lines.push('  (none)');
+        }
+        for (const group of block.groups) {
+            if (group.items.length === 0) continue;
+            if (group.label) lines.push(`  ${group.label}`);
+            const indent = group.label ? '    ' : '  ';
+            for (const item of group.items) {
+                lineMap.set(lines.length, item);
+                lines.push(indent + formatAgendaItem(item));
+            }
+        }
+        lines.push('');
+    }
+
+    lines.push(`Total: ${result.totalItems} items`);
+    return { text: lines.join('\n'), lineMap };
+}
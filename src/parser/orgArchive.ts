@@ -0,0 +1,389 @@
+/**
+ * Org-mode archiving core
+ *
+ * `org-archive-subtree` on plain text, for the editor and the CLI alike. The
+ * archive location is `file::heading` as in `org-archive-location`, taken
+ * from the nearest `:ARCHIVE:` property, else a `#+ARCHIVE:` keyword, else
+ * the configured default. `%s` in the location stands for the source file
+ * name, so the default `%s_archive::` sends entries from `notes.org` to
+ * `notes.org_archive` at top level.
+ *
+ * The archived entry gets the ARCHIVE_TIME, ARCHIVE_FILE, ARCHIVE_OLPATH,
+ * ARCHIVE_CATEGORY, ARCHIVE_TODO and ARCHIVE_ITAGS properties so it keeps
+ * its context once it has left the outline it came from.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { DAY_NAMES_SHORT } from '../utils/dateConstants';
+import { findSubtree, headingLevelOf, headingText, insertionIndex, shiftHeadingLevels } from './orgRefile';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const DEFAULT_ARCHIVE_LOCATION = '%s_archive::';
+
+/** Where an entry is archived to */
+export interface ArchiveTarget {
+    /** Absolute path of the archive file */
+    file: string;
+    /** Headline to file the entry under, e.g. `* Archived Tasks`; top level if undefined */
+    heading?: string;
+}
+
+export interface ArchiveOptions {
+    /** Absolute path of the file the entry comes from */
+    sourceFile: string;
+    /** Location used when neither `:ARCHIVE:` nor `#+ARCHIVE:` is set */
+    defaultLocation?: string;
+    /** TODO keywords of the source file, to split them off headlines */
+    todoKeywords?: string[];
+    /** Time stamped into ARCHIVE_TIME (default now) */
+    now?: Date;
+}
+
+export interface ArchiveResult {
+    /** New content of the source file (includes the entries when archiving within it) */
+    sourceLines: string[];
+    /** New content of every other archive file touched, by absolute path */
+    archives: Map<string, string[]>;
+}
+
+const DEFAULT_TODO_KEYWORDS = ['TODO', 'NEXT', 'WAIT', 'WAITING', 'HOLD', 'SOMEDAY', 'DONE', 'CANCELLED', 'CANCELED', 'IN-PROGRESS'];
+
+// =============================================================================
+// Archive files
+// =============================================================================
+
+/**
+ * Whether a path looks like an archive file: `notes.org_archive` (the org
+ * default) or `notes_archive.org`
+ */
+export function isArchiveFile(filePath: string): boolean {
+    const name = path.basename(filePath).toLowerCase();
+    return name.endsWith('.org_archive') || name.endsWith('_archive.org');
+}
+
+/**
+ * Header written at the top of a new archive file
+ */
+export function archiveFileHeader(sourceFile: string): string[] {
+    return ['#    -*- mode: org -*-', '', '', `Archived entries from file ${sourceFile}`, ''];
+}
+
+// =============================================================================
+// Entry context
+// =============================================================================
+
+/**
+ * Line range of an entry's property drawer (`:PROPERTIES:` to `:END:`,
+ * inclusive), allowing for a planning line before it
+ */
+function propertyDrawer(lines: string[], heading: number): { start: number; end: number } | undefined {
+    let i = heading + 1;
+    if (i < lines.length && /^\s*(SCHEDULED|DEADLINE|CLOSED):/.test(lines[i])) i++;
+    if (i >= lines.length || !/^\s*:PROPERTIES:\s*$/i.test(lines[i])) return undefined;
+    for (let j = i + 1; j < lines.length && headingLevelOf(lines[j]) === 0; j++) {
+        if (/^\s*:END:\s*$/i.test(lines[j])) return { start: i, end: j };
+    }
+    return undefined;
+}
+
+/**
+ * Value of a property in an entry's own drawer
+ */
+export function entryProperty(lines: string[], heading: number, name: string): string | undefined {
+    const drawer = propertyDrawer(lines, heading);
+    if (!drawer) return undefined;
+    const pattern = new RegExp(`^\\s*:${name}:\\s*(.*?)\\s*$`, 'i');
+    for (let i = drawer.start + 1; i < drawer.end; i++) {
+        const match = lines[i].match(pattern);
+        if (match) return match[1];
+    }
+    return undefined;
+}
+
+/**
+ * Headline indexes of the ancestors of a heading, outermost first
+ */
+function ancestorsOf(lines: string[], heading: number): number[] {
+    const ancestors: number[] = [];
+    let level = headingLevelOf(lines[heading]);
+    let inBlock = false;
+    for (let i = heading - 1; i >= 0 && level > 1; i--) {
+        // Scanning upwards, an END line opens a block
+        if (/^\s*#\+end_/i.test(lines[i])) inBlock = true;
+        else if (/^\s*#\+begin_/i.test(lines[i])) { inBlock = false; continue; }
+        if (inBlock) continue;
+        const lineLevel = headingLevelOf(lines[i]);
+        if (lineLevel > 0 && lineLevel < level) {
+            ancestors.unshift(i);
+            level = lineLevel;
+        }
+    }
+    return ancestors;
+}
+
+/**
+ * Value of a `#+KEYWORD:` line, the last one before `before` if any,
+ * otherwise the first in the file
+ */
+function keywordValue(lines: string[], keyword: string, before = lines.length): string | undefined {
+    const pattern = new RegExp(`^#\\+${keyword}:\\s*(.*?)\\s*$`, 'i');
+    let found: string | undefined;
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(pattern);
+        if (!match) continue;
+        if (i < before) found = match[1];
+        else if (found === undefined) return match[1];
+        else break;
+    }
+    return found;
+}
+
+/**
+ * A property of the entry or its nearest ancestor that sets it
+ */
+function inheritedProperty(lines: string[], heading: number, name: string): string | undefined {
+    for (const index of [heading, ...ancestorsOf(lines, heading).reverse()]) {
+        const value = entryProperty(lines, index, name);
+        if (value !== undefined) return value;
+    }
+    return undefined;
+}
+
+/**
+ * Split a headline into its TODO keyword, title (no priority cookie) and tags
+ */
+function splitHeadline(line: string, todoKeywords: string[]): { todo?: string; title: string; tags: string[] } {
+    const tagMatch = line.match(/\s+:([\w@#%:]+):\s*$/);
+    const tags = tagMatch ? tagMatch[1].split(':').filter(Boolean) : [];
+    let title = headingText(line);
+    let todo: string | undefined;
+    const first = title.split(/\s+/)[0];
+    if (todoKeywords.includes(first)) {
+        todo = first;
+        title = title.slice(first.length).trim();
+    }
+    title = title.replace(/^\[#[A-Za-z0-9]\]\s*/, '');
+    return { todo, title, tags };
+}
+
+/**
+ * Location string that applies to an entry: its own or an inherited
+ * `:ARCHIVE:` property, then `#+ARCHIVE:`, then `fallback`
+ */
+export function archiveLocationFor(lines: string[], heading: number, fallback: string = DEFAULT_ARCHIVE_LOCATION): string {
+    return inheritedProperty(lines, heading, 'ARCHIVE') ?? keywordValue(lines, 'ARCHIVE', heading) ?? fallback;
+}
+
+/**
+ * Resolve a `file::heading` location for a source file. An empty file part
+ * means the source file itself; a relative one is taken from the source
+ * file's directory.
+ */
+export function parseArchiveLocation(location: string, sourceFile: string): ArchiveTarget {
+    const separator = location.indexOf('::');
+    const filePart = separator >= 0 ? location.slice(0, separator).trim() : location.trim();
+    const headingPart = separator >= 0 ? location.slice(separator + 2).trim() : '';
+    const name = path.basename(sourceFile);
+
+    let file = sourceFile;
+    if (filePart) {
+        file = filePart.replace(/%s/g, name).replace(/^~(?=$|\/)/, os.homedir());
+        file = path.resolve(path.dirname(sourceFile), file);
+    }
+    let heading: string | undefined;
+    if (headingPart) {
+        heading = headingPart.replace(/%s/g, name);
+        if (headingLevelOf(heading) === 0) heading = `* ${heading}`;
+    }
+    return { file, heading };
+}
+
+/**
+ * Properties recording where an entry came from
+ */
+export function archiveProperties(
+    lines: string[],
+    heading: number,
+    options: ArchiveOptions
+): Array<[string, string]> {
+    const todoKeywords = options.todoKeywords ?? DEFAULT_TODO_KEYWORDS;
+    const now = options.now ?? new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const time = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ` +
+        `${DAY_NAMES_SHORT[now.getDay()]} ${pad(now.getHours())}:${pad(now.getMinutes())}`;
+
+    const ancestors = ancestorsOf(lines, heading);
+    const olpath = ancestors.map(i => splitHeadline(lines[i], todoKeywords).title);
+    const category = inheritedProperty(lines, heading, 'CATEGORY')
+        ?? keywordValue(lines, 'CATEGORY', heading)
+        ?? path.basename(options.sourceFile).replace(/\.[^.]*$/, '');
+    const { todo } = splitHeadline(lines[heading], todoKeywords);
+
+    const fileTags = (keywordValue(lines, 'FILETAGS') ?? '').split(/[:\s]+/).filter(Boolean);
+    const own = new Set(splitHeadline(lines[heading], todoKeywords).tags);
+    const inherited = [...new Set([...fileTags, ...ancestors.flatMap(i => splitHeadline(lines[i], todoKeywords).tags)])]
+        .filter(tag => !own.has(tag));
+
+    const properties: Array<[string, string]> = [
+        ['ARCHIVE_TIME', time],
+        ['ARCHIVE_FILE', options.sourceFile],
+    ];
+    if (olpath.length > 0) properties.push(['ARCHIVE_OLPATH', olpath.join('/')]);
+    properties.push(['ARCHIVE_CATEGORY', category]);
+    if (todo) properties.push(['ARCHIVE_TODO', todo]);
+    if (inherited.length > 0) properties.push(['ARCHIVE_ITAGS', inherited.join(' ')]);
+    return properties;
+}
+
+/**
+ * Set properties on the entry whose headline is the first of `lines`,
+ * updating an existing drawer or creating one after the planning line
+ */
+export function setEntryProperties(lines: string[], properties: Array<[string, string]>): string[] {
+    const result = lines.slice();
+    const drawer = propertyDrawer(result, 0);
+    if (!drawer) {
+        const at = result.length > 1 && /^\s*(SCHEDULED|DEADLINE|CLOSED):/.test(result[1]) ? 2 : 1;
+        result.splice(at, 0, ':PROPERTIES:', ...properties.map(([key, value]) => `:${key}: ${value}`), ':END:');
+        return result;
+    }
+
+    let end = drawer.end;
+    for (const [key, value] of properties) {
+        const pattern = new RegExp(`^\\s*:${key}:`, 'i');
+        const existing = result.slice(drawer.start + 1, end).findIndex(line => pattern.test(line));
+        if (existing >= 0) {
+            result[drawer.start + 1 + existing] = `:${key}: ${value}`;
+        } else {
+            result.splice(end, 0, `:${key}: ${value}`);
+            end++;
+        }
+    }
+    return result;
+}
+
+// =============================================================================
+// Archiving
+// =============================================================================
+
+/**
+ * Insert an entry (headline first, at any level) into an archive file's
+ * lines, under `heading` when given (created at the end if missing) or at
+ * top level at the end
+ */
+export function insertArchivedEntry(lines: string[], entry: string[], heading?: string): string[] {
+    const result = lines.slice();
+    const entryLevel = headingLevelOf(entry[0]);
+
+    let parent = -1;
+    if (heading) {
+        const level = headingLevelOf(heading);
+        const title = headingText(heading);
+        parent = result.findIndex(line => headingLevelOf(line) === level && headingText(line) === title);
+        if (parent < 0) {
+            let end = result.length;
+            while (end > 0 && result[end - 1].trim() === '') end--;
+            result.splice(end);
+            if (end > 0) result.push('');
+            result.push(heading);
+            parent = result.length - 1;
+        }
+    }
+
+    const parentLevel = parent < 0 ? 0 : headingLevelOf(result[parent]);
+    const moved = shiftHeadingLevels(entry, parentLevel + 1 - entryLevel);
+    const at = insertionIndex(result, parent);
+    // Top-level entries are separated by a blank line, as org does
+    if (parent < 0 && at > 0 && result[at - 1].trim() !== '') moved.unshift('');
+    result.splice(at, 0, ...moved);
+    if (at + moved.length === result.length) result.push('');
+    return result;
+}
+
+/**
+ * Archive the subtrees at the given headlines. Each entry goes to the
+ * location that applies to it; `readArchive` returns the current lines of an
+ * archive file, or undefined if it does not exist yet.
+ */
+export function archiveSubtrees(
+    sourceLines: string[],
+    headings: number[],
+    readArchive: (file: string) => string[] | undefined,
+    options: ArchiveOptions
+): ArchiveResult {
+    let source = sourceLines.slice();
+    const archives = new Map<string, string[]>();
+    const sourcePath = path.resolve(options.sourceFile);
+    const moves: Array<{ entry: string[]; target: ArchiveTarget }> = [];
+
+    // Cut bottom-up, so removing an entry never moves the ones still to do
+    const starts = [...new Set(headings)].sort((a, b) => b - a);
+    for (const start of starts) {
+        const span = findSubtree(source, start);
+        if (!span || span.start !== start) throw new Error(`Line ${start + 1} is not a heading`);
+
+        const location = archiveLocationFor(source, start, options.defaultLocation);
+        const target = parseArchiveLocation(location, options.sourceFile);
+        if (path.resolve(target.file) === sourcePath && !target.heading) {
+            throw new Error(`Archive location "${location}" points at the file itself without a heading`);
+        }
+        const entry = source.slice(span.start, span.end);
+        while (entry.length > 1 && entry[entry.length - 1].trim() === '') entry.pop();
+        moves.push({ entry: setEntryProperties(entry, archiveProperties(source, start, options)), target });
+        source.splice(span.start, span.end - span.start);
+    }
+
+    // File them in document order
+    for (const { entry, target } of moves.reverse()) {
+        if (path.resolve(target.file) === sourcePath) {
+            source = insertArchivedEntry(source, entry, target.heading);
+            continue;
+        }
+        const archive = archives.get(target.file) ?? readArchive(target.file) ?? archiveFileHeader(options.sourceFile);
+        archives.set(target.file, insertArchivedEntry(archive, entry, target.heading));
+    }
+
+    return { sourceLines: source, archives };
+}
+
+// =============================================================================
+// Archiving done entries
+// =============================================================================
+
+/**
+ * Top-level-most entries in a done state that were CLOSED at least
+ * `olderThanDays` days before `now`. Entries without a CLOSED timestamp are
+ * left alone, as are done entries nested inside another match (they move
+ * with it).
+ */
+export function findArchivableEntries(
+    lines: string[],
+    options: { olderThanDays: number; doneKeywords: string[]; now?: Date }
+): number[] {
+    const now = options.now ?? new Date();
+    const cutoff = new Date(now.getFullYear(), now.getMonth(), now.getDate() - options.olderThanDays, 23, 59, 59);
+    const found: number[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (headingLevelOf(lines[i]) === 0) {
+            i++;
+            continue;
+        }
+        const first = headingText(lines[i]).split(/\s+/)[0];
+        const closed = lines[i + 1]?.match(/CLOSED:\s*\[(\d{4})-(\d{2})-(\d{2})/);
+        if (options.doneKeywords.includes(first) && closed) {
+            const date = new Date(Number(closed[1]), Number(closed[2]) - 1, Number(closed[3]));
+            if (date <= cutoff) {
+                found.push(i);
+                i = findSubtree(lines, i)?.end ?? i + 1;
+                continue;
+            }
+        }
+        i++;
+    }
+    return found;
+}
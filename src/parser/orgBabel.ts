@@ -4,6 +4,15 @@
  */
 
 import type { SrcBlockElement, AffiliatedKeywords } from './orgElementTypes';
+import {
+    sqliteExecutor,
+    cExecutor,
+    cppExecutor,
+    gnuplotExecutor,
+    dotExecutor,
+    plantumlExecutor,
+    latexExecutor,
+} from './orgBabelLanguages';
 
 // =============================================================================
 // Types and Interfaces
@@ -29,8 +38,23 @@ export interface ExecutionResult {
     resultType?: 'output' | 'value' | 'table' | 'file' | 'html' | 'latex';
     /** File outputs (for :file header) */
     files?: string[];
+    /**
+     * Org markup shown after the output and files, such as export blocks and
+     * LaTeX fragments from Jupyter displays; the results go in a drawer
+     */
+    rich?: string[];
+    /** The run was cancelled through `ExecutionContext.signal` */
+    cancelled?: boolean;
 }
 
+/**
+ * A piece of output from a running block: text as it is printed, or a file
+ * (e.g. a Jupyter plot) as soon as it is saved
+ */
+export type ExecutionOutputChunk =
+    | { stream: 'stdout' | 'stderr'; text: string }
+    | { file: string };
+
 /**
  * Execution context for a source block
  */
@@ -51,6 +75,12 @@ export interface ExecutionContext {
     exports?: 'code' | 'results' | 'both' | 'none';
     /** Result format */
     results?: ResultFormat;
+    /** Header arguments, for language-specific ones such as :db or :flags */
+    headers?: HeaderArguments;
+    /** Receives output while the block runs, for executors that stream it */
+    onOutput?: (chunk: ExecutionOutputChunk) => void;
+    /** Cancels this run: executors kill their process or interrupt the kernel */
+    signal?: AbortSignal;
 }
 
 /**
@@ -71,6 +101,9 @@ export interface ResultFormat {
 
 /**
  * Language executor interface
+ *
+ * Executors report output incrementally through `context.onOutput` and stop
+ * when `context.signal` aborts; the final result still carries all output.
  */
 export interface LanguageExecutor {
     /** Language name(s) this executor handles */
@@ -83,6 +116,8 @@ export interface LanguageExecutor {
     closeSession?(sessionName: string): Promise<void>;
     /** Check if executor is available */
     isAvailable(): Promise<boolean>;
+    /** Writes its result to the :file path itself; the caller links the file */
+    writesFile?: boolean;
 }
 
 /**
@@ -492,6 +527,7 @@ export const shellExecutor: LanguageExecutor = {
                 cwd: context.cwd,
                 env: { ...process.env, ...context.env },
                 timeout: context.timeout,
+                signal: context.signal,
             });
 
             let stdout = '';
@@ -499,10 +535,12 @@ export const shellExecutor: LanguageExecutor = {
 
             proc.stdout?.on('data', (data) => {
                 stdout += data.toString();
+                context.onOutput?.({ stream: 'stdout', text: data.toString() });
             });
 
             proc.stderr?.on('data', (data) => {
                 stderr += data.toString();
+                context.onOutput?.({ stream: 'stderr', text: data.toString() });
             });
 
             proc.on('close', (exitCode) => {
@@ -555,12 +593,17 @@ export const shellExecutor: LanguageExecutor = {
 // Python Session Manager
 // =============================================================================
 
+interface PythonSessionRequest {
+    /** Lines of code, written to the session when the block starts */
+    lines: string[];
+    resolve: (result: ExecutionResult) => void;
+    startTime: number;
+}
+
 interface PythonSession {
     process: ReturnType<typeof import('child_process').spawn>;
-    pending: Array<{
-        resolve: (result: ExecutionResult) => void;
-        startTime: number;
-    }>;
+    /** Queued blocks; the first one is running */
+    pending: PythonSessionRequest[];
     cwd?: string;
 }
 
@@ -586,6 +629,7 @@ async function getPythonSession(sessionName: string, cwd?: string): Promise<Pyth
 
     // Python wrapper script that reads code blocks and executes them
     const wrapperCode = `
+import signal
 import sys
 import traceback
 
@@ -599,6 +643,10 @@ __session_globals__['__name__'] = '__main__'
 
 while True:
     try:
+        # SIGINT cancels only a running block; between blocks it is ignored
+        # so it cannot end the session mid-read
+        signal.signal(signal.SIGINT, signal.SIG_IGN)
+
         # Read number of lines
         line_count_str = sys.stdin.readline()
         if not line_count_str:
@@ -614,14 +662,17 @@ while True:
         # Execute and capture output
         print(OUTPUT_START, flush=True)
         try:
+            signal.signal(signal.SIGINT, signal.default_int_handler)
             exec(compile(code, '<org-babel>', 'exec'), __session_globals__)
-        except Exception as e:
+        except (Exception, KeyboardInterrupt) as e:
             print(f"{ERROR_MARKER}{traceback.format_exc()}", flush=True)
+        finally:
+            signal.signal(signal.SIGINT, signal.SIG_IGN)
         print(OUTPUT_END, flush=True)
         sys.stdout.flush()
         sys.stderr.flush()
 
-    except Exception as e:
+    except (Exception, KeyboardInterrupt) as e:
         print(OUTPUT_START, flush=True)
         print(f"{ERROR_MARKER}{traceback.format_exc()}", flush=True)
         print(OUTPUT_END, flush=True)
@@ -660,8 +711,11 @@ while True:
                 // Remove processed output from buffer
                 outputBuffer = outputBuffer.substring(endIdx + OUTPUT_END_MARKER.length);
 
-                // Resolve pending request
+                // Resolve pending request and start the next block
                 const pending = session!.pending.shift();
+                if (session!.pending.length > 0) {
+                    sendToPythonSession(session!, session!.pending[0]);
+                }
                 if (pending) {
                     const hasError = output.includes(ERROR_MARKER);
                     const cleanOutput = output.replace(ERROR_MARKER, '').trim();
@@ -701,6 +755,16 @@ while True:
     return session;
 }
 
+/**
+ * Write a block's code to the session
+ */
+function sendToPythonSession(session: PythonSession, request: PythonSessionRequest): void {
+    session.process.stdin?.write(`${request.lines.length}\n`);
+    for (const line of request.lines) {
+        session.process.stdin?.write(line + '\n');
+    }
+}
+
 /**
  * Execute code in a Python session
  */
@@ -729,14 +793,35 @@ async function executeInPythonSession(
             fullCode = `def __org_babel_fn__():\n${indentedCode}\n__org_babel_result__ = __org_babel_fn__()\nif __org_babel_result__ is not None:\n    print(__org_babel_result__)`;
         }
 
-        // Queue the request
-        session.pending.push({ resolve, startTime });
-
-        // Send code to the session
-        const lines = fullCode.split('\n');
-        session.process.stdin?.write(`${lines.length}\n`);
-        for (const line of lines) {
-            session.process.stdin?.write(line + '\n');
+        // Queue the request; its code is sent only when the blocks ahead of
+        // it have finished. Cancelling interrupts the block if it is running,
+        // or drops it from the queue so it never runs.
+        const request: PythonSessionRequest = {
+            lines: fullCode.split('\n'),
+            resolve: (result) => {
+                context.signal?.removeEventListener('abort', cancel);
+                resolve(result);
+            },
+            startTime,
+        };
+        const cancel = () => {
+            const index = session.pending.indexOf(request);
+            if (index === 0) {
+                session.process.kill('SIGINT');
+            } else if (index > 0) {
+                session.pending.splice(index, 1);
+                request.resolve({
+                    success: false,
+                    cancelled: true,
+                    error: new Error('Cancelled'),
+                    executionTime: Date.now() - startTime,
+                });
+            }
+        };
+        context.signal?.addEventListener('abort', cancel, { once: true });
+        session.pending.push(request);
+        if (session.pending.length === 1) {
+            sendToPythonSession(session, request);
         }
     });
 }
@@ -857,10 +942,12 @@ if __org_babel_last_idx__ >= 0:
 `;
             }
 
+            // Unbuffered, so output streams while the block runs
             const proc = spawn('python3', ['-c', wrappedCode], {
                 cwd: context.cwd,
-                env: { ...process.env, ...context.env },
+                env: { ...process.env, PYTHONUNBUFFERED: '1', ...context.env },
                 timeout: context.timeout,
+                signal: context.signal,
             });
 
             let stdout = '';
@@ -868,10 +955,12 @@ if __org_babel_last_idx__ >= 0:
 
             proc.stdout?.on('data', (data) => {
                 stdout += data.toString();
+                context.onOutput?.({ stream: 'stdout', text: data.toString() });
             });
 
             proc.stderr?.on('data', (data) => {
                 stderr += data.toString();
+                context.onOutput?.({ stream: 'stderr', text: data.toString() });
             });
 
             proc.on('close', (exitCode) => {
@@ -954,6 +1043,7 @@ export const nodeExecutor: LanguageExecutor = {
                 cwd: context.cwd,
                 env: { ...process.env, ...context.env },
                 timeout: context.timeout,
+                signal: context.signal,
             });
 
             let stdout = '';
@@ -961,10 +1051,12 @@ export const nodeExecutor: LanguageExecutor = {
 
             proc.stdout?.on('data', (data) => {
                 stdout += data.toString();
+                context.onOutput?.({ stream: 'stdout', text: data.toString() });
             });
 
             proc.stderr?.on('data', (data) => {
                 stderr += data.toString();
+                context.onOutput?.({ stream: 'stderr', text: data.toString() });
             });
 
             proc.on('close', (exitCode) => {
@@ -1051,6 +1143,7 @@ end
                 cwd: context.cwd,
                 env: { ...process.env, ...context.env },
                 timeout: context.timeout,
+                signal: context.signal,
             });
 
             let stdout = '';
@@ -1058,10 +1151,12 @@ end
 
             proc.stdout?.on('data', (data) => {
                 stdout += data.toString();
+                context.onOutput?.({ stream: 'stdout', text: data.toString() });
             });
 
             proc.stderr?.on('data', (data) => {
                 stderr += data.toString();
+                context.onOutput?.({ stream: 'stderr', text: data.toString() });
             });
 
             proc.on('close', (exitCode) => {
@@ -1152,6 +1247,7 @@ if (.org_babel_last_idx >= 1) {
                 cwd: context.cwd,
                 env: { ...process.env, ...context.env },
                 timeout: context.timeout,
+                signal: context.signal,
             });
 
             let stdout = '';
@@ -1159,10 +1255,12 @@ if (.org_babel_last_idx >= 1) {
 
             proc.stdout?.on('data', (data) => {
                 stdout += data.toString();
+                context.onOutput?.({ stream: 'stdout', text: data.toString() });
             });
 
             proc.stderr?.on('data', (data) => {
                 stderr += data.toString();
+                context.onOutput?.({ stream: 'stderr', text: data.toString() });
             });
 
             proc.on('close', (exitCode) => {
@@ -1261,6 +1359,7 @@ export const typescriptExecutor: LanguageExecutor = {
                     cwd: context.cwd,
                     env: { ...process.env, ...context.env },
                     timeout: context.timeout,
+                    signal: context.signal,
                 });
 
                 let stdout = '';
@@ -1268,10 +1367,12 @@ export const typescriptExecutor: LanguageExecutor = {
 
                 proc.stdout?.on('data', (data) => {
                     stdout += data.toString();
+                    context.onOutput?.({ stream: 'stdout', text: data.toString() });
                 });
 
                 proc.stderr?.on('data', (data) => {
                     stderr += data.toString();
+                    context.onOutput?.({ stream: 'stderr', text: data.toString() });
                 });
 
                 proc.on('close', (exitCode) => {
@@ -1336,6 +1437,13 @@ executorRegistry.register(nodeExecutor);
 executorRegistry.register(typescriptExecutor);
 executorRegistry.register(juliaExecutor);
 executorRegistry.register(rExecutor);
+executorRegistry.register(sqliteExecutor);
+executorRegistry.register(cExecutor);
+executorRegistry.register(cppExecutor);
+executorRegistry.register(gnuplotExecutor);
+executorRegistry.register(dotExecutor);
+executorRegistry.register(plantumlExecutor);
+executorRegistry.register(latexExecutor);
 
 // =============================================================================
 // Babel Execution Functions
@@ -1367,6 +1475,8 @@ export async function executeSourceBlock(
         variables: context.variables,
         results: headers.results ? parseResultsFormat(headers.results) : context.results,
         exports: headers.exports || context.exports,
+        // The caller's headers include file-level ones (#+PROPERTY: header-args)
+        headers: context.headers ?? headers,
     };
 
     // Check if we should evaluate
@@ -1411,9 +1521,19 @@ export async function executeSourceBlock(
         finalCode = finalCode + '\n' + headers.epilogue;
     }
 
+    if (fullContext.signal?.aborted) {
+        return { success: false, cancelled: true, error: new Error('Cancelled') };
+    }
+
     // Execute
     const result = await executor.execute(finalCode, fullContext);
 
+    // Executors fail in their own way when stopped (AbortError, a killed
+    // process, KeyboardInterrupt); report every one as a cancelled run
+    if (fullContext.signal?.aborted) {
+        return { ...result, success: false, cancelled: true, error: new Error('Cancelled') };
+    }
+
     return result;
 }
 
@@ -1468,9 +1588,10 @@ export function formatResult(
 
     const output = result.stdout || '';
     const files = result.files || [];
+    const rich = result.rich || [];
 
     // If no output and no files, return empty results
-    if (!output && files.length === 0) {
+    if (!output && files.length === 0 && rich.length === 0) {
         return resultsHeader;
     }
 
@@ -1482,6 +1603,10 @@ export function formatResult(
         // stdout is text, not a file path - format as verbatim
         type = 'verbatim';
     }
+    if (type === 'drawer' && rich.length > 0) {
+        // Rich output adds its own drawer around everything
+        type = 'org';
+    }
 
     let resultText = '';
 
@@ -1535,6 +1660,13 @@ export function formatResult(
         }
     }
 
+    // Rich output is org markup that can span blank lines and keywords, so a
+    // drawer marks where the results end
+    if (rich.length > 0) {
+        const body = resultText.slice(resultsHeader.length).replace(/^\n/, '');
+        resultText = [resultsHeader, ':RESULTS:', ...(body ? [body] : []), ...rich, ':END:'].join('\n');
+    }
+
     return resultText;
 }
 
@@ -1544,10 +1676,11 @@ function formatAsVerbatim(output: string, resultsHeader: string): string {
 }
 
 function formatAsTable(output: string, resultsHeader: string): string {
-    // Try to parse as CSV-like data
+    // Try to parse as CSV-like data; lines already in org table form are kept
     const lines = output.trim().split('\n');
-    const rows = lines.map(line =>
-        '| ' + line.split(/[,\t]/).map(cell => cell.trim()).join(' | ') + ' |'
+    const rows = lines.map(line => line.startsWith('|')
+        ? line
+        : '| ' + line.split(/[,\t]/).map(cell => cell.trim()).join(' | ') + ' |'
     );
 
     return resultsHeader + '\n' + rows.join('\n');
@@ -94,6 +94,8 @@ export interface QueueItem {
     status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
     /** Result (when completed) */
     result?: ExecutionResult;
+    /** Aborts the item while it runs */
+    controller: AbortController;
 }
 
 /**
@@ -1218,6 +1220,7 @@ class ExecutionQueue {
             priority,
             callback,
             status: 'pending',
+            controller: new AbortController(),
         };
 
         // Insert by priority (lower priority value = higher priority)
@@ -1241,9 +1244,15 @@ class ExecutionQueue {
     }
 
     /**
-     * Cancel a queued item
+     * Cancel a queued item, or abort it if it is running. The queue moves on
+     * to the next item once the running one has stopped.
      */
     cancel(id: string): boolean {
+        if (this.running?.id === id) {
+            this.running.controller.abort();
+            return true;
+        }
+
         const index = this.queue.findIndex(item => item.id === id);
         if (index >= 0) {
             this.queue[index].status = 'cancelled';
@@ -1252,7 +1261,6 @@ class ExecutionQueue {
             return true;
         }
 
-        // Can't cancel running item (would need process management)
         return false;
     }
 
@@ -1314,10 +1322,16 @@ class ExecutionQueue {
         next.status = 'running';
         this.notifyChange();
 
+        // A caller's own signal still cancels the item
+        next.context.signal?.addEventListener('abort', () => next.controller.abort(), { once: true });
+
         try {
-            const result = await executeSourceBlock(next.block, next.context);
+            const result = await executeSourceBlock(next.block, {
+                ...next.context,
+                signal: next.controller.signal,
+            });
             next.result = result;
-            next.status = result.success ? 'completed' : 'failed';
+            next.status = result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed';
 
             if (next.callback) {
                 next.callback(result);
@@ -1725,6 +1739,29 @@ export function registerBabelAdvancedCommands(context: vscode.ExtensionContext):
         })
     );
 
+    // Cancel one queued or running item, leaving the rest of the queue
+    context.subscriptions.push(
+        vscode.commands.registerCommand('scimax.babel.cancelQueueItem', async () => {
+            const items = executionQueue.getItems().filter(i => i.status === 'pending' || i.status === 'running');
+            if (items.length === 0) {
+                vscode.window.showInformationMessage('Babel queue is empty');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                items.map(item => ({
+                    label: `${item.block.properties.language} (line ${item.block.properties.lineNumber})`,
+                    description: `${item.status} · ${item.id.substring(0, 8)}`,
+                    id: item.id,
+                })),
+                { placeHolder: 'Cancel which block?' }
+            );
+            if (picked && executionQueue.cancel(picked.id)) {
+                vscode.window.showInformationMessage(`Cancelled block ${picked.id.substring(0, 8)}`);
+            }
+        })
+    );
+
     // Pause queue
     context.subscriptions.push(
         vscode.commands.registerCommand('scimax.babel.pauseQueue', () => {
@@ -0,0 +1,580 @@
+/**
+ * Babel executors for compiled languages, databases and diagrams:
+ * SQLite, C/C++, gnuplot, Graphviz dot, PlantUML and LaTeX
+ *
+ * Each follows its ob-*.el counterpart's header arguments:
+ * - sqlite: :db (database file), :header yes, :separator, :nullvalue
+ * - C/cpp: :flags, :libs, :includes, :defines, :main no, :cmdline
+ * - gnuplot, dot, plantuml: :file (the format comes from its extension), :cmdline
+ * - latex: :file (.svg, .png or .pdf) and :headers (preamble lines)
+ *
+ * Executors that write :file set `writesFile`, so the caller links the file
+ * as the result instead of inserting output.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ExecutionContext, ExecutionResult, LanguageExecutor } from './orgBabel';
+import { renderLatexDocument } from './latexRender';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface ProcessOutput {
+    exitCode: number | null;
+    stdout: string;
+    /** Raw stdout, for tools that write images to it */
+    stdoutBuffer: Buffer;
+    stderr: string;
+    error?: Error;
+}
+
+/**
+ * Run a command to completion, optionally feeding `input` on stdin. Output
+ * is streamed to `context.onOutput`; pass a context without it for tools
+ * whose stdout is not for the reader (a compiler, an image on stdout).
+ */
+async function runProcess(
+    cmd: string,
+    args: string[],
+    context: ExecutionContext,
+    input?: string
+): Promise<ProcessOutput> {
+    const { spawn } = await import('child_process');
+
+    return new Promise((resolve) => {
+        const proc = spawn(cmd, args, {
+            cwd: context.cwd,
+            env: { ...process.env, ...context.env },
+            timeout: context.timeout,
+            signal: context.signal,
+        });
+
+        const stdout: Buffer[] = [];
+        let stderr = '';
+
+        proc.stdout?.on('data', (data: Buffer) => {
+            stdout.push(data);
+            context.onOutput?.({ stream: 'stdout', text: data.toString() });
+        });
+
+        proc.stderr?.on('data', (data) => {
+            stderr += data.toString();
+            context.onOutput?.({ stream: 'stderr', text: data.toString() });
+        });
+
+        proc.on('close', (exitCode) => {
+            const stdoutBuffer = Buffer.concat(stdout);
+            resolve({ exitCode, stdout: stdoutBuffer.toString(), stdoutBuffer, stderr });
+        });
+
+        proc.on('error', (error) => {
+            resolve({ exitCode: null, stdout: '', stdoutBuffer: Buffer.alloc(0), stderr, error });
+        });
+
+        // Ignore EPIPE when the tool exits without reading its input
+        proc.stdin?.on('error', () => { /* ignore */ });
+        proc.stdin?.end(input ?? '');
+    });
+}
+
+/**
+ * Check that a command runs
+ */
+async function canRun(cmd: string, args: string[]): Promise<boolean> {
+    const { spawn } = await import('child_process');
+    return new Promise((resolve) => {
+        const proc = spawn(cmd, args, { stdio: 'ignore' });
+        proc.on('close', (code) => resolve(code === 0));
+        proc.on('error', () => resolve(false));
+    });
+}
+
+function toResult(output: ProcessOutput, startTime: number, resultType: ExecutionResult['resultType'] = 'output'): ExecutionResult {
+    if (output.error) {
+        return { success: false, error: output.error, executionTime: Date.now() - startTime };
+    }
+    return {
+        success: output.exitCode === 0,
+        stdout: output.stdout.trim(),
+        stderr: output.stderr.trim(),
+        executionTime: Date.now() - startTime,
+        resultType,
+    };
+}
+
+function failure(message: string, startTime: number): ExecutionResult {
+    return { success: false, error: new Error(message), executionTime: Date.now() - startTime };
+}
+
+/** Split a header value such as `:flags -O2 -Wall` into arguments */
+function splitArgs(value: unknown): string[] {
+    return typeof value === 'string' ? value.split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Absolute path of the :file header, relative paths resolved against the
+ * working directory. The directory is created if needed.
+ */
+export function resolveOutputFile(context: ExecutionContext): string | undefined {
+    const file = context.headers?.file;
+    if (!file) return undefined;
+    const outputFile = path.resolve(context.cwd ?? process.cwd(), file);
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    return outputFile;
+}
+
+/** Lower-case extension of a file, without the dot */
+function extensionOf(file: string): string {
+    return path.extname(file).slice(1).toLowerCase();
+}
+
+/** Replace `$name` with each variable's value, as ob-sqlite and ob-dot do */
+function substituteVariables(code: string, variables: Record<string, string>): string {
+    return code.replace(/\$([A-Za-z_][\w-]*)/g, (match, name: string) =>
+        name in variables ? variables[name] : match
+    );
+}
+
+// =============================================================================
+// SQLite
+// =============================================================================
+
+/**
+ * Parse CSV as sqlite3 writes it (RFC 4180 quoting)
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/**
+ * Format rows as an org table, with a rule under the first row when it
+ * holds column names
+ */
+export function rowsToOrgTable(rows: string[][], header = false): string {
+    if (rows.length === 0) return '';
+    const lines = rows.map(row => '| ' + row.map(cell => cell.replace(/\|/g, '\\vert{}')).join(' | ') + ' |');
+    if (header && lines.length > 1) {
+        lines.splice(1, 0, '|-');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Command-line arguments for sqlite3. Table results are read as CSV;
+ * other result types get sqlite3's own list output.
+ */
+export function sqliteArgs(context: ExecutionContext): string[] {
+    const headers = context.headers ?? {};
+    const args: string[] = [];
+    if (isTableResult(context)) {
+        args.push('-csv');
+    } else if (typeof headers.separator === 'string') {
+        args.push('-separator', headers.separator);
+    }
+    if (['yes', 't'].includes(String(headers.header)) || headers.colnames === 'yes') {
+        args.push('-header');
+    }
+    if (typeof headers.nullvalue === 'string') {
+        args.push('-nullvalue', headers.nullvalue);
+    }
+    if (typeof headers.db === 'string') {
+        args.push(headers.db);
+    }
+    return args;
+}
+
+function isTableResult(context: ExecutionContext): boolean {
+    const type = context.results?.type;
+    return (!type || type === 'table') && context.results?.format !== 'raw';
+}
+
+/**
+ * SQLite executor (sqlite3 command-line shell)
+ */
+export const sqliteExecutor: LanguageExecutor = {
+    languages: ['sqlite', 'sqlite3'],
+
+    async execute(code: string, context: ExecutionContext): Promise<ExecutionResult> {
+        const startTime = Date.now();
+
+        // Tables are written to CSV files whose paths replace $name (for .import)
+        const tempFiles: string[] = [];
+        const variables: Record<string, string> = {};
+        for (const [name, value] of Object.entries(context.variables ?? {})) {
+            if (Array.isArray(value)) {
+                const rows = value.map(row => Array.isArray(row) ? row : [row]);
+                const csv = rows.map(row => row.map(cell => {
+                    const text = String(cell);
+                    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+                }).join(',')).join('\n') + '\n';
+                const file = path.join(os.tmpdir(), `babel-sqlite-${process.pid}-${Date.now()}-${name}.csv`);
+                fs.writeFileSync(file, csv, 'utf-8');
+                tempFiles.push(file);
+                variables[name] = file;
+            } else {
+                variables[name] = String(value);
+            }
+        }
+
+        try {
+            const output = await runProcess('sqlite3', sqliteArgs(context), context, substituteVariables(code, variables));
+            const result = toResult(output, startTime);
+            if (result.success && isTableResult(context) && result.stdout) {
+                const hasHeader = sqliteArgs(context).includes('-header');
+                result.stdout = rowsToOrgTable(parseCsv(result.stdout), hasHeader);
+                result.resultType = 'table';
+            }
+            return result;
+        } finally {
+            for (const file of tempFiles) {
+                try { fs.unlinkSync(file); } catch { /* ignore */ }
+            }
+        }
+    },
+
+    async isAvailable(): Promise<boolean> {
+        return canRun('sqlite3', ['--version']);
+    },
+};
+
+// =============================================================================
+// C and C++
+// =============================================================================
+
+/** A C declaration for a :var value, typed the way ob-C guesses types */
+function cDeclaration(name: string, value: unknown): string {
+    if (Array.isArray(value) && value.every(v => typeof v === 'number')) {
+        const type = value.every(v => Number.isInteger(v)) ? 'int' : 'double';
+        return `${type} ${name}[] = {${value.join(', ')}};`;
+    }
+    if (typeof value === 'number') {
+        return `${Number.isInteger(value) ? 'int' : 'double'} ${name} = ${value};`;
+    }
+    return `const char *${name} = ${JSON.stringify(String(value))};`;
+}
+
+/**
+ * Build the source file for a C/C++ block: includes, defines and variables,
+ * then the body, wrapped in `main` unless it defines one or `:main no`.
+ */
+export function buildCSource(code: string, context: ExecutionContext): string {
+    const headers = context.headers ?? {};
+    const lines: string[] = [];
+
+    // :includes <stdio.h> "util.h" math.h (ob-C also accepts a quoted list)
+    const includes = typeof headers.includes === 'string'
+        ? headers.includes.replace(/^\(|\)$/g, '').match(/<[^>]+>|"[^"]+"|\S+/g) ?? []
+        : [];
+    for (const include of includes) {
+        lines.push(`#include ${/^[<"]/.test(include) ? include : `<${include}>`}`);
+    }
+    if (typeof headers.defines === 'string') {
+        lines.push(`#define ${headers.defines}`);
+    }
+    for (const [name, value] of Object.entries(context.variables ?? {})) {
+        lines.push(cDeclaration(name, value));
+    }
+
+    if (headers.main === 'no' || /\bmain\s*\(/.test(code)) {
+        lines.push(code);
+    } else {
+        lines.push('int main() {', code, 'return 0;', '}');
+    }
+    return lines.join('\n') + '\n';
+}
+
+function makeCExecutor(languages: string[], compiler: string, extension: string): LanguageExecutor {
+    return {
+        languages,
+
+        async execute(code: string, context: ExecutionContext): Promise<ExecutionResult> {
+            const startTime = Date.now();
+            const headers = context.headers ?? {};
+            const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'babel-c-'));
+            const source = path.join(tmpDir, `main.${extension}`);
+            const binary = path.join(tmpDir, process.platform === 'win32' ? 'main.exe' : 'main');
+
+            try {
+                fs.writeFileSync(source, buildCSource(code, context), 'utf-8');
+
+                const compiled = await runProcess(
+                    compiler,
+                    [...splitArgs(headers.flags), '-o', binary, source, ...splitArgs(headers.libs)],
+                    { ...context, onOutput: undefined }
+                );
+                if (compiled.error || compiled.exitCode !== 0) {
+                    const result = toResult(compiled, startTime);
+                    return { ...result, success: false, stderr: compiled.stderr.trim() || result.stderr };
+                }
+
+                return toResult(await runProcess(binary, splitArgs(headers.cmdline), context), startTime);
+            } finally {
+                fs.rmSync(tmpDir, { recursive: true, force: true });
+            }
+        },
+
+        async isAvailable(): Promise<boolean> {
+            return canRun(compiler, ['--version']);
+        },
+    };
+}
+
+/**
+ * C executor (gcc)
+ */
+export const cExecutor = makeCExecutor(['C', 'c'], 'gcc', 'c');
+
+/**
+ * C++ executor (g++)
+ */
+export const cppExecutor = makeCExecutor(['cpp', 'C++'], 'g++', 'cpp');
+
+// =============================================================================
+// gnuplot
+// =============================================================================
+
+/** gnuplot terminals by output file extension */
+const GNUPLOT_TERMINALS: Record<string, string> = {
+    png: 'pngcairo',
+    svg: 'svg',
+    pdf: 'pdfcairo',
+    eps: 'postscript eps enhanced color',
+    jpg: 'jpeg',
+    jpeg: 'jpeg',
+    gif: 'gif',
+};
+
+/**
+ * Build the gnuplot script: variables, then the terminal and output for
+ * :file, then the body
+ */
+export function buildGnuplotScript(code: string, variables: Record<string, unknown> = {}, outputFile?: string): string {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(variables)) {
+        lines.push(typeof value === 'number' ? `${name} = ${value}` : `${name} = ${JSON.stringify(String(value))}`);
+    }
+    if (outputFile) {
+        const ext = extensionOf(outputFile);
+        lines.push(`set terminal ${GNUPLOT_TERMINALS[ext] ?? ext}`);
+        lines.push(`set output ${JSON.stringify(outputFile)}`);
+    }
+    lines.push(code);
+    if (outputFile) {
+        // Close the output so the file is complete when gnuplot exits
+        lines.push('set output');
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * gnuplot executor
+ */
+export const gnuplotExecutor: LanguageExecutor = {
+    languages: ['gnuplot'],
+    writesFile: true,
+
+    async execute(code: string, context: ExecutionContext): Promise<ExecutionResult> {
+        const startTime = Date.now();
+        const outputFile = resolveOutputFile(context);
+        const script = buildGnuplotScript(code, context.variables, outputFile);
+        const output = await runProcess('gnuplot', splitArgs(context.headers?.cmdline), context, script);
+        return toResult(output, startTime, outputFile ? 'file' : 'output');
+    },
+
+    async isAvailable(): Promise<boolean> {
+        return canRun('gnuplot', ['--version']);
+    },
+};
+
+// =============================================================================
+// Graphviz dot
+// =============================================================================
+
+/**
+ * Graphviz dot executor
+ */
+export const dotExecutor: LanguageExecutor = {
+    languages: ['dot'],
+    writesFile: true,
+
+    async execute(code: string, context: ExecutionContext): Promise<ExecutionResult> {
+        const startTime = Date.now();
+        const outputFile = resolveOutputFile(context);
+        if (!outputFile) {
+            return failure('dot blocks need a :file header, e.g. :file graph.svg', startTime);
+        }
+
+        const variables = Object.fromEntries(
+            Object.entries(context.variables ?? {}).map(([k, v]) => [k, String(v)])
+        );
+        const output = await runProcess(
+            'dot',
+            [`-T${extensionOf(outputFile)}`, ...splitArgs(context.headers?.cmdline), '-o', outputFile],
+            context,
+            substituteVariables(code, variables)
+        );
+        return toResult(output, startTime, 'file');
+    },
+
+    async isAvailable(): Promise<boolean> {
+        return canRun('dot', ['-V']);
+    },
+};
+
+// =============================================================================
+// PlantUML
+// =============================================================================
+
+/**
+ * The PlantUML command: `plantuml` on PATH, or `java -jar $PLANTUML_JAR`
+ */
+function plantumlCommand(context?: ExecutionContext): { cmd: string; args: string[] } {
+    const jar = context?.env?.PLANTUML_JAR ?? process.env.PLANTUML_JAR;
+    return jar ? { cmd: 'java', args: ['-jar', jar] } : { cmd: 'plantuml', args: [] };
+}
+
+/**
+ * Wrap a PlantUML body in @startuml/@enduml unless it has them, declaring
+ * :var values as PlantUML variables
+ */
+export function buildPlantumlSource(code: string, variables: Record<string, unknown> = {}): string {
+    const declarations = Object.entries(variables).map(([name, value]) =>
+        `!$${name} = ${JSON.stringify(String(value))}`
+    );
+    if (/^\s*@start/.test(code)) {
+        const [first, ...rest] = code.split('\n');
+        return [first, ...declarations, ...rest].join('\n') + '\n';
+    }
+    return ['@startuml', ...declarations, code, '@enduml'].join('\n') + '\n';
+}
+
+/**
+ * PlantUML executor
+ */
+export const plantumlExecutor: LanguageExecutor = {
+    languages: ['plantuml'],
+    writesFile: true,
+
+    async execute(code: string, context: ExecutionContext): Promise<ExecutionResult> {
+        const startTime = Date.now();
+        const outputFile = resolveOutputFile(context);
+        if (!outputFile) {
+            return failure('plantuml blocks need a :file header, e.g. :file diagram.svg', startTime);
+        }
+
+        const { cmd, args } = plantumlCommand(context);
+        const output = await runProcess(
+            cmd,
+            [...args, '-pipe', `-t${extensionOf(outputFile)}`, ...splitArgs(context.headers?.cmdline)],
+            { ...context, onOutput: undefined },
+            buildPlantumlSource(code, context.variables)
+        );
+        const result = toResult(output, startTime, 'file');
+        if (result.success) {
+            fs.writeFileSync(outputFile, output.stdoutBuffer);
+            result.stdout = '';
+        }
+        return result;
+    },
+
+    async isAvailable(): Promise<boolean> {
+        const { cmd, args } = plantumlCommand();
+        return canRun(cmd, [...args, '-version']);
+    },
+};
+
+// =============================================================================
+// LaTeX
+// =============================================================================
+
+/**
+ * A standalone document around a LaTeX body, unless the body is already a
+ * complete document. :headers lines go in the preamble.
+ */
+export function buildLatexDocument(code: string, preamble?: string): string {
+    if (/\\documentclass/.test(code)) return code;
+    return [
+        '\\documentclass[preview,border=2pt,varwidth]{standalone}',
+        '\\usepackage{amsmath}',
+        '\\usepackage{amssymb}',
+        '\\usepackage{xcolor}',
+        ...(preamble ? [preamble] : []),
+        '\\begin{document}',
+        code,
+        '\\end{document}',
+    ].join('\n') + '\n';
+}
+
+/**
+ * LaTeX executor: renders to :file (.svg, .png or .pdf), or returns the
+ * body as a LaTeX export block without one
+ */
+export const latexExecutor: LanguageExecutor = {
+    languages: ['latex'],
+    writesFile: true,
+
+    async execute(code: string, context: ExecutionContext): Promise<ExecutionResult> {
+        const startTime = Date.now();
+
+        // ob-latex replaces each variable's name with its value
+        let body = code;
+        for (const [name, value] of Object.entries(context.variables ?? {})) {
+            body = body.split(name).join(String(value));
+        }
+
+        const outputFile = resolveOutputFile(context);
+        if (!outputFile) {
+            return { success: true, stdout: body, executionTime: Date.now() - startTime, resultType: 'latex' };
+        }
+
+        const preamble = typeof context.headers?.headers === 'string' ? context.headers.headers : undefined;
+        const rendered = await renderLatexDocument(buildLatexDocument(body, preamble), outputFile, context.timeout);
+        if (!rendered.success) {
+            return failure(rendered.error ?? 'LaTeX rendering failed', startTime);
+        }
+        return { success: true, stdout: '', executionTime: Date.now() - startTime, resultType: 'file' };
+    },
+
+    async isAvailable(): Promise<boolean> {
+        // Without :file the body is returned as is; rendering reports missing tools
+        return true;
+    },
+};
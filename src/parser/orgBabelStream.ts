@@ -0,0 +1,137 @@
+/**
+ * Streaming Babel output into #+RESULTS while a block runs.
+ * No VS Code dependencies - the editor side lives in org/babelRuns.ts.
+ *
+ * A running block's results hold a placeholder line tagged with a run ID,
+ * followed by the output received so far:
+ *
+ *   #+RESULTS:
+ *   : [running 3f2a9c1e]
+ *   : step 1
+ *   : step 2
+ *
+ * When the block finishes the whole region is replaced by the formatted
+ * result, as if the output had arrived at once.
+ */
+
+import * as crypto from 'crypto';
+import type { ExecutionOutputChunk } from './orgBabel';
+
+const PLACEHOLDER_PATTERN = /^\s*: \[running ([0-9a-f]{8})\]\s*$/;
+
+/**
+ * Create a new run ID
+ */
+export function newRunId(): string {
+    return crypto.randomBytes(4).toString('hex');
+}
+
+/**
+ * The placeholder line marking a running block's results
+ */
+export function runPlaceholder(id: string): string {
+    return `: [running ${id}]`;
+}
+
+/**
+ * Get the run ID from a placeholder line, if it is one
+ */
+export function parseRunPlaceholder(line: string): string | undefined {
+    return line.match(PLACEHOLDER_PATTERN)?.[1];
+}
+
+/**
+ * Change to the streamed lines below the placeholder: keep the first
+ * `keep` lines already written and replace the rest with `lines`.
+ */
+export interface StreamEdit {
+    keep: number;
+    lines: string[];
+}
+
+/**
+ * Format one line of output as an org fixed-width line
+ */
+function fixedWidth(text: string): string {
+    return text ? `: ${text}` : ':';
+}
+
+/**
+ * Output of one run, accumulated chunk by chunk. Text is split into lines,
+ * a carriage return overwrites the current line (progress bars), and files
+ * become links.
+ */
+export class StreamingOutput {
+    private lines: string[] = [];
+    private partial = '';
+    private pendingReturn = false;
+    private written: string[] = [];
+
+    /**
+     * Add a chunk of output
+     */
+    push(chunk: ExecutionOutputChunk): void {
+        if ('file' in chunk) {
+            this.endLine();
+            this.lines.push(`[[file:${chunk.file}]]`);
+            return;
+        }
+
+        for (const char of chunk.text) {
+            if (char === '\n') {
+                this.pendingReturn = false;
+                this.lines.push(fixedWidth(this.partial));
+                this.partial = '';
+            } else if (char === '\r') {
+                this.pendingReturn = true;
+            } else {
+                // A lone \r only takes effect once the line is rewritten,
+                // so \r\n split across two chunks still ends the line
+                if (this.pendingReturn) {
+                    this.pendingReturn = false;
+                    this.partial = '';
+                }
+                this.partial += char;
+            }
+        }
+    }
+
+    /**
+     * The output so far, as org lines
+     */
+    render(): string[] {
+        return this.partial ? [...this.lines, fixedWidth(this.partial)] : [...this.lines];
+    }
+
+    /**
+     * Number of lines written by the edits taken so far
+     */
+    get writtenLines(): number {
+        return this.written.length;
+    }
+
+    /**
+     * Take the edit that brings the written lines up to date, or undefined
+     * if nothing changed since the last one
+     */
+    takeEdit(): StreamEdit | undefined {
+        const current = this.render();
+        let keep = 0;
+        while (keep < current.length && keep < this.written.length && current[keep] === this.written[keep]) {
+            keep++;
+        }
+        if (keep === current.length && keep === this.written.length) {
+            return undefined;
+        }
+        this.written = current;
+        return { keep, lines: current.slice(keep) };
+    }
+
+    private endLine(): void {
+        if (this.partial) {
+            this.lines.push(fixedWidth(this.partial));
+        }
+        this.partial = '';
+        this.pendingReturn = false;
+    }
+}
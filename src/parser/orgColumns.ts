@@ -0,0 +1,323 @@
+/**
+ * Org-mode column view
+ *
+ * The model behind the interactive column view, kept apart from the webview:
+ * it parses `#+COLUMNS:` / `:COLUMNS:` formats, lays out the headings of a
+ * file or subtree as rows of property values, computes summary operators
+ * for parents, and turns a cell edit into a line replacement. Edits go through
+ * parser/orgModify, so the headline and property drawer are written the
+ * same way as by the org API.
+ *
+ * Format syntax, as in org: `%[WIDTH]PROPERTY[(TITLE)][{SUMMARY}]`, e.g.
+ *
+ *   #+COLUMNS: %40ITEM %TODO %3PRIORITY %TAGS %EFFORT(Estimate){:}
+ */
+
+import { parseOrg } from './orgParserUnified';
+import { org } from './orgModify';
+import { serializeHeadline } from './orgSerialize';
+import { formatDuration, parseEffort } from './orgClocking';
+import type { HeadlineElement, OrgDocumentNode } from './orgElementTypes';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Summary operators computed for parents from their children */
+export type SummaryOperator = '+' | ':' | 'X%' | 'min' | 'max' | 'mean';
+
+export interface ColumnSpec {
+    /** Property name, upper-cased; ITEM, TODO, PRIORITY and TAGS are special */
+    property: string;
+    /** Column header */
+    title: string;
+    /** Display width in characters, if given */
+    width?: number;
+    /** Summary operator, if given and supported */
+    operator?: SummaryOperator;
+}
+
+export interface ColumnCell {
+    value: string;
+    /** True when the value is a summary of the children, not the entry's own */
+    computed: boolean;
+}
+
+export interface ColumnViewRow {
+    /** 0-based line of the headline */
+    line: number;
+    level: number;
+    cells: ColumnCell[];
+}
+
+export interface ColumnView {
+    columns: ColumnSpec[];
+    rows: ColumnViewRow[];
+}
+
+export interface ColumnViewOptions {
+    /** TODO keywords of the file, active and done */
+    todoKeywords?: string[];
+    /** Done keywords of the file */
+    doneKeywords?: string[];
+    /** 0-based line inside the subtree to show; the whole file if undefined */
+    line?: number;
+}
+
+/** Replace lines [start, end) with `lines` */
+export interface ColumnLineEdit {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+export const DEFAULT_COLUMNS_FORMAT = '%25ITEM %TODO %3PRIORITY %TAGS';
+
+const SPECIAL_COLUMNS = ['ITEM', 'TODO', 'PRIORITY', 'TAGS'];
+const OPERATORS: SummaryOperator[] = ['+', ':', 'X%', 'min', 'max', 'mean'];
+
+// =============================================================================
+// Column formats
+// =============================================================================
+
+/**
+ * Parse a columns format string
+ */
+export function parseColumnsFormat(format: string): ColumnSpec[] {
+    const columns: ColumnSpec[] = [];
+    const regex = /%(\d*)([\w-]+)(?:\(([^)]*)\))?(?:\{([^}]*)\})?/g;
+    let match;
+    while ((match = regex.exec(format)) !== null) {
+        const property = match[2].toUpperCase();
+        const operator = OPERATORS.find(op => op === match![4]);
+        columns.push({
+            property,
+            title: match[3] || property,
+            width: match[1] ? parseInt(match[1], 10) : undefined,
+            operator,
+        });
+    }
+    return columns;
+}
+
+/**
+ * A property of a headline, ignoring case as org does
+ */
+function propertyOf(headline: HeadlineElement, name: string): string | undefined {
+    const drawer = headline.propertiesDrawer;
+    if (!drawer) return undefined;
+    const key = Object.keys(drawer).find(k => k.toUpperCase() === name.toUpperCase());
+    return key === undefined ? undefined : drawer[key];
+}
+
+/**
+ * Columns format for a subtree: the nearest `:COLUMNS:` property of the
+ * headline or an ancestor, then `#+COLUMNS:`, then the default
+ */
+export function columnsFormatFor(doc: OrgDocumentNode, headline?: HeadlineElement): string {
+    if (headline) {
+        for (const h of org.getHeadlinePath(doc, headline).reverse()) {
+            const format = propertyOf(h, 'COLUMNS');
+            if (format) return format;
+        }
+    }
+    return doc.keywords.COLUMNS || DEFAULT_COLUMNS_FORMAT;
+}
+
+// =============================================================================
+// Cell values and summaries
+// =============================================================================
+
+/**
+ * Value of a column for a headline, as shown and edited
+ */
+export function cellValue(headline: HeadlineElement, property: string): string {
+    switch (property) {
+        case 'ITEM':
+            return headline.properties.rawValue;
+        case 'TODO':
+            return headline.properties.todoKeyword ?? '';
+        case 'PRIORITY':
+            return headline.properties.priority ?? '';
+        case 'TAGS':
+            return headline.properties.tags.length > 0 ? `:${headline.properties.tags.join(':')}:` : '';
+        default:
+            return propertyOf(headline, property) ?? '';
+    }
+}
+
+function formatNumber(n: number): string {
+    return Number.isInteger(n) ? String(n) : String(Math.round(n * 100) / 100);
+}
+
+/**
+ * Fraction done of a checkbox-like value: `[X]`, `[ ]`, `[-]` or a
+ * `[n%]` cookie from a nested summary
+ */
+function checkboxFraction(value: string): number | undefined {
+    const v = value.trim();
+    if (/^\[[xX]\]$/.test(v)) return 1;
+    if (/^\[[ -]\]$/.test(v)) return 0;
+    const percent = v.match(/^\[(\d+(?:\.\d+)?)%\]$/);
+    return percent ? parseFloat(percent[1]) / 100 : undefined;
+}
+
+/**
+ * Apply a summary operator to child values, or undefined when none of them
+ * has a value the operator understands
+ */
+export function summarize(operator: SummaryOperator, values: string[]): string | undefined {
+    if (operator === 'X%') {
+        const fractions = values.map(checkboxFraction).filter((f): f is number => f !== undefined);
+        if (fractions.length === 0) return undefined;
+        const done = fractions.reduce((a, b) => a + b, 0);
+        return `[${Math.round((done / fractions.length) * 100)}%]`;
+    }
+    if (operator === ':') {
+        const minutes = values.filter(v => v.trim() !== '').map(v => parseEffort(v.trim()));
+        return minutes.length === 0 ? undefined : formatDuration(minutes.reduce((a, b) => a + b, 0));
+    }
+
+    const numbers = values.map(v => parseFloat(v)).filter(n => !isNaN(n));
+    if (numbers.length === 0) return undefined;
+    switch (operator) {
+        case '+': return formatNumber(numbers.reduce((a, b) => a + b, 0));
+        case 'min': return formatNumber(Math.min(...numbers));
+        case 'max': return formatNumber(Math.max(...numbers));
+        case 'mean': return formatNumber(numbers.reduce((a, b) => a + b, 0) / numbers.length);
+    }
+}
+
+// =============================================================================
+// Building the view
+// =============================================================================
+
+function parseForColumns(content: string, options: ColumnViewOptions): OrgDocumentNode {
+    return parseOrg(content, {
+        todoKeywords: options.todoKeywords,
+        doneKeywords: options.doneKeywords,
+        parseInlineObjects: false,
+    });
+}
+
+/**
+ * Headline whose subtree contains a 0-based line
+ */
+function headlineAt(doc: OrgDocumentNode, line: number): HeadlineElement | undefined {
+    let found: HeadlineElement | undefined;
+    org.mapHeadlines(doc, h => {
+        if (h.properties.lineNumber - 1 <= line) found = h;
+    });
+    return found;
+}
+
+/**
+ * Lay out a file, or the subtree containing `options.line`, as a column
+ * view. Columns with a summary operator show, for every parent, the summary
+ * of its children's values (their own summaries included).
+ */
+export function buildColumnView(content: string, options: ColumnViewOptions = {}): ColumnView {
+    const doc = parseForColumns(content, options);
+    const root = options.line === undefined ? undefined : headlineAt(doc, options.line);
+    const columns = parseColumnsFormat(columnsFormatFor(doc, root));
+    const rows: ColumnViewRow[] = [];
+
+    /** Adds rows for a headline and its subtree; returns its effective values */
+    const visit = (headline: HeadlineElement): string[] => {
+        const row: ColumnViewRow = { line: headline.properties.lineNumber - 1, level: headline.properties.level, cells: [] };
+        rows.push(row);
+        const childValues = headline.children.map(visit);
+
+        row.cells = columns.map((column, i) => {
+            const own = cellValue(headline, column.property);
+            if (!column.operator || childValues.length === 0) return { value: own, computed: false };
+            const summary = summarize(column.operator, childValues.map(values => values[i]));
+            return summary === undefined ? { value: own, computed: false } : { value: summary, computed: true };
+        });
+        return row.cells.map(cell => cell.value);
+    };
+
+    if (root) {
+        visit(root);
+    } else {
+        doc.children.forEach(visit);
+    }
+    return { columns, rows };
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+/**
+ * Line range of a heading's property drawer, inclusive, after an optional
+ * planning line
+ */
+function drawerRange(lines: string[], heading: number): { start: number; end: number } | undefined {
+    let i = heading + 1;
+    if (i < lines.length && /^\s*(SCHEDULED|DEADLINE|CLOSED):/.test(lines[i])) i++;
+    if (i >= lines.length || !/^\s*:PROPERTIES:\s*$/i.test(lines[i])) return undefined;
+    for (let j = i + 1; j < lines.length && !/^\*+\s/.test(lines[j]); j++) {
+        if (/^\s*:END:\s*$/i.test(lines[j])) return { start: i, end: j };
+    }
+    return undefined;
+}
+
+/**
+ * Set one column of the heading on a 0-based line. Returns the lines to
+ * replace, or undefined if the value is unchanged. Only the headline is
+ * rewritten for ITEM, TODO, PRIORITY and TAGS, and only the property drawer
+ * for other columns; an empty value removes the property.
+ */
+export function columnEdit(
+    content: string,
+    line: number,
+    property: string,
+    value: string,
+    options: ColumnViewOptions = {}
+): ColumnLineEdit | undefined {
+    const lines = content.split('\n');
+    const doc = parseForColumns(content, options);
+    const headline = org.findHeadline(doc, h => h.properties.lineNumber - 1 === line);
+    if (!headline) throw new Error(`No heading on line ${line + 1}`);
+
+    const name = property.toUpperCase();
+    const newValue = value.trim();
+    if (cellValue(headline, name) === newValue) return undefined;
+
+    switch (name) {
+        case 'ITEM':
+            if (!newValue) throw new Error('A heading needs a title');
+            headline.properties.rawValue = newValue;
+            break;
+        case 'TODO':
+            org.setTodo(headline, newValue || undefined, options.doneKeywords);
+            break;
+        case 'PRIORITY':
+            org.setPriority(headline, newValue.replace(/[[\]#\s]/g, '').toUpperCase() || undefined);
+            break;
+        case 'TAGS':
+            for (const tag of [...headline.properties.tags]) org.removeTag(headline, tag);
+            for (const tag of newValue.split(/[:\s]+/).filter(Boolean)) org.addTag(headline, tag);
+            break;
+        default: {
+            const key = Object.keys(headline.propertiesDrawer ?? {}).find(k => k.toUpperCase() === name) ?? property;
+            if (newValue) org.setProperty(headline, key, newValue);
+            else org.removeProperty(headline, key);
+        }
+    }
+
+    // Serialize only the entry's head: headline, planning and drawer
+    const head = serializeHeadline({ ...headline, section: undefined, children: [] }).split('\n');
+    if (SPECIAL_COLUMNS.includes(name)) {
+        return { start: line, end: line + 1, lines: [head[0]] };
+    }
+
+    const drawer = head.slice(head.indexOf(':PROPERTIES:'));
+    const existing = drawerRange(lines, line);
+    if (existing) {
+        return { start: existing.start, end: existing.end + 1, lines: head.includes(':PROPERTIES:') ? drawer : [] };
+    }
+    const at = headline.planning ? line + 2 : line + 1;
+    return { start: at, end: at, lines: drawer };
+}
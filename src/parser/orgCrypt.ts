@@ -0,0 +1,305 @@
+/**
+ * Org-crypt style encrypted subtrees
+ *
+ * Shared by the editor commands and the indexer. A heading tagged `:crypt:`
+ * keeps its headline, planning line and property drawer in the clear; the
+ * rest of its subtree is replaced by an ASCII-armored message:
+ *
+ *   * Server credentials                                    :crypt:
+ *   -----BEGIN PGP MESSAGE-----
+ *   ...
+ *   -----END PGP MESSAGE-----
+ *
+ * Encryption shells out to `gpg` (public key or symmetric), `age`
+ * (recipient/identity) or `openssl enc` (symmetric). The indexer uses
+ * redactCryptEntries() so tagged bodies - encrypted or not - never reach
+ * full-text search or embeddings.
+ */
+
+import { spawn } from 'child_process';
+import { findSubtree } from './orgRefile';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CryptMethod = 'gpg' | 'age' | 'openssl';
+
+export interface CryptOptions {
+    /** Tool used to encrypt (default 'gpg'); decryption follows the armor */
+    method?: CryptMethod;
+    /** gpg key ID or email, or age recipient. Without one gpg and openssl encrypt symmetrically */
+    key?: string;
+    /** age identity file used to decrypt */
+    identity?: string;
+    /** Passphrase for symmetric encryption */
+    passphrase?: string;
+    /** Environment for the tool (e.g. GNUPGHOME) */
+    env?: NodeJS.ProcessEnv;
+    /** Timeout in milliseconds (default 30000) */
+    timeout?: number;
+}
+
+/** A `:crypt:` subtree, as 0-based line numbers */
+export interface CryptEntry {
+    /** The headline */
+    heading: number;
+    /** First line of the encrypted part (after planning and properties) */
+    bodyStart: number;
+    /** End of the encrypted part, exclusive: trailing blank lines stay in the clear */
+    bodyEnd: number;
+    /** End of the subtree, exclusive */
+    end: number;
+    /** Whether the body is already an armored message */
+    encrypted: boolean;
+}
+
+export const CRYPT_TAG = 'crypt';
+
+const OPENSSL_BEGIN = '-----BEGIN OPENSSL ENCRYPTED MESSAGE-----';
+const OPENSSL_END = '-----END OPENSSL ENCRYPTED MESSAGE-----';
+const ARMOR_PATTERN = /^-----BEGIN (PGP MESSAGE|AGE ENCRYPTED FILE|OPENSSL ENCRYPTED MESSAGE)-----/;
+
+// =============================================================================
+// Finding entries
+// =============================================================================
+
+/**
+ * Tags at the end of a headline
+ */
+export function headingTags(line: string): string[] {
+    const match = line.match(/^\*+\s.*?\s(:[^\s]+:)\s*$/);
+    return match ? match[1].split(':').filter(Boolean) : [];
+}
+
+/**
+ * Whether text is an armored message this module can decrypt
+ */
+export function isEncryptedText(text: string): boolean {
+    return ARMOR_PATTERN.test(text.trim());
+}
+
+/**
+ * First line after the headline that is not planning or the property drawer
+ */
+function bodyStartOf(lines: string[], heading: number, end: number): number {
+    let i = heading + 1;
+    if (i < end && /^\s*(SCHEDULED|DEADLINE|CLOSED):/.test(lines[i])) i++;
+    if (i < end && /^\s*:PROPERTIES:\s*$/i.test(lines[i])) {
+        let j = i + 1;
+        while (j < end && !/^\s*:END:\s*$/i.test(lines[j])) j++;
+        if (j < end) i = j + 1;
+    }
+    return i;
+}
+
+/**
+ * Every subtree tagged `tag`. A tagged subtree inside another one is part
+ * of the outer entry and is not listed separately.
+ */
+export function findCryptEntries(lines: string[], tag: string = CRYPT_TAG): CryptEntry[] {
+    const entries: CryptEntry[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (!headingTags(lines[i]).includes(tag)) {
+            i++;
+            continue;
+        }
+        const span = findSubtree(lines, i);
+        if (!span || span.start !== i) {
+            i++;
+            continue;
+        }
+        const bodyStart = bodyStartOf(lines, i, span.end);
+        let bodyEnd = span.end;
+        while (bodyEnd > bodyStart && lines[bodyEnd - 1].trim() === '') bodyEnd--;
+        entries.push({
+            heading: i,
+            bodyStart,
+            bodyEnd,
+            end: span.end,
+            encrypted: isEncryptedText(lines.slice(bodyStart, bodyEnd).join('\n')),
+        });
+        i = span.end;
+    }
+    return entries;
+}
+
+/**
+ * The `:crypt:` entry containing a line, if any
+ */
+export function findCryptEntryAt(lines: string[], line: number, tag: string = CRYPT_TAG): CryptEntry | undefined {
+    return findCryptEntries(lines, tag).find(entry => line >= entry.heading && line < entry.end);
+}
+
+/**
+ * Body text of an entry: what gets encrypted
+ */
+export function entryBody(lines: string[], entry: CryptEntry): string {
+    return lines.slice(entry.bodyStart, entry.bodyEnd).join('\n');
+}
+
+/**
+ * Add `tag` to a headline's tags
+ */
+export function addHeadingTag(line: string, tag: string = CRYPT_TAG): string {
+    const tags = headingTags(line);
+    if (tags.includes(tag)) return line;
+    if (tags.length === 0) return `${line.replace(/\s+$/, '')} :${tag}:`;
+    return line.replace(/:\s*$/, `:${tag}:`);
+}
+
+/**
+ * Blank out the bodies of `:crypt:` entries, keeping every line so line
+ * numbers stay valid. Used before indexing: neither plaintext nor
+ * ciphertext is worth putting in the search index.
+ */
+export function redactCryptEntries(content: string, tag: string = CRYPT_TAG): string {
+    if (!content.includes(`:${tag}:`)) {
+        return content;
+    }
+    const lines = content.split('\n');
+    for (const entry of findCryptEntries(lines, tag)) {
+        for (let i = entry.bodyStart; i < entry.bodyEnd; i++) {
+            lines[i] = '';
+        }
+    }
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Encryption
+// =============================================================================
+
+/**
+ * Run an encryption tool with `input` on stdin and the passphrase, if any,
+ * on file descriptor 3 so it never appears in the process list
+ */
+function runTool(cmd: string, args: string[], input: string, options: CryptOptions): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const proc = spawn(cmd, args, {
+            env: { ...process.env, ...options.env },
+            timeout: options.timeout ?? 30000,
+            stdio: ['pipe', 'pipe', 'pipe', options.passphrase !== undefined ? 'pipe' : 'ignore'],
+        });
+
+        let stdout = '';
+        let stderr = '';
+        proc.stdout?.on('data', (data) => {
+            stdout += data.toString();
+        });
+        proc.stderr?.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        proc.on('error', (err: NodeJS.ErrnoException) => {
+            reject(err.code === 'ENOENT' ? new Error(`${cmd} not found; install it or choose another method`) : err);
+        });
+        proc.on('close', (code) => {
+            if (code === 0) {
+                resolve(stdout);
+            } else {
+                reject(new Error(stderr.trim() || `${cmd} exited with code ${code}`));
+            }
+        });
+
+        if (options.passphrase !== undefined) {
+            const passFd = proc.stdio[3] as NodeJS.WritableStream;
+            passFd.on('error', () => { /* tool exited before reading it */ });
+            passFd.end(options.passphrase + '\n');
+        }
+        proc.stdin?.on('error', () => { /* tool exited before reading it */ });
+        proc.stdin?.end(input);
+    });
+}
+
+/**
+ * Method that produced an armored message
+ */
+export function cipherMethod(cipher: string): CryptMethod | undefined {
+    const kind = cipher.trim().match(ARMOR_PATTERN)?.[1];
+    return kind === 'PGP MESSAGE' ? 'gpg'
+        : kind === 'AGE ENCRYPTED FILE' ? 'age'
+        : kind === 'OPENSSL ENCRYPTED MESSAGE' ? 'openssl'
+        : undefined;
+}
+
+/**
+ * Whether encrypting with these options needs a passphrase
+ */
+export function needsPassphrase(options: CryptOptions): boolean {
+    const method = options.method ?? 'gpg';
+    return method === 'openssl' || (method === 'gpg' && !options.key);
+}
+
+/**
+ * Whether decrypting a message needs a passphrase. Public-key gpg messages
+ * are unlocked by gpg-agent, age by the identity file.
+ */
+export function cipherNeedsPassphrase(cipher: string): boolean {
+    const method = cipherMethod(cipher);
+    if (method === 'openssl') return true;
+    // A symmetric OpenPGP message starts with a symmetric-key packet (tag 3)
+    if (method === 'gpg') {
+        const base64 = cipher.trim().split('\n').slice(1).find(line => line.trim() && !line.includes(':'));
+        const first = base64 ? Buffer.from(base64.trim(), 'base64')[0] : undefined;
+        if (first === undefined || (first & 0x80) === 0) return false;
+        const tag = first & 0x40 ? first & 0x3f : (first >> 2) & 0x0f;
+        return tag === 3;
+    }
+    return false;
+}
+
+/**
+ * Encrypt text, returning an armored message
+ */
+export async function encryptText(plain: string, options: CryptOptions = {}): Promise<string> {
+    const method = options.method ?? 'gpg';
+    let cipher: string;
+
+    if (method === 'gpg') {
+        const args = ['--batch', '--yes', '--armor'];
+        if (options.key) {
+            args.push('--encrypt', '--recipient', options.key);
+        } else {
+            if (!options.passphrase) throw new Error('A passphrase is required for symmetric encryption');
+            args.push('--symmetric', '--no-symkey-cache', '--pinentry-mode', 'loopback', '--passphrase-fd', '3');
+        }
+        cipher = await runTool('gpg', args, plain, options.key ? { ...options, passphrase: undefined } : options);
+    } else if (method === 'age') {
+        if (!options.key) throw new Error('age needs a recipient (set the encryption key)');
+        cipher = await runTool('age', ['--encrypt', '--armor', '--recipient', options.key], plain, { ...options, passphrase: undefined });
+    } else {
+        if (!options.passphrase) throw new Error('A passphrase is required for openssl encryption');
+        const base64 = await runTool('openssl', ['enc', '-aes-256-cbc', '-pbkdf2', '-salt', '-a', '-pass', 'fd:3'], plain, options);
+        cipher = `${OPENSSL_BEGIN}\n${base64.trim()}\n${OPENSSL_END}`;
+    }
+
+    return cipher.trim();
+}
+
+/**
+ * Decrypt an armored message with the tool that produced it
+ */
+export async function decryptText(cipher: string, options: CryptOptions = {}): Promise<string> {
+    const method = cipherMethod(cipher);
+    const message = cipher.trim() + '\n';
+
+    if (method === 'gpg') {
+        const args = ['--batch', '--yes', '--quiet', '--decrypt'];
+        if (options.passphrase !== undefined) {
+            args.push('--no-symkey-cache', '--pinentry-mode', 'loopback', '--passphrase-fd', '3');
+        }
+        return runTool('gpg', args, message, options);
+    }
+    if (method === 'age') {
+        if (!options.identity) throw new Error('age needs an identity file to decrypt');
+        return runTool('age', ['--decrypt', '--identity', options.identity], message, { ...options, passphrase: undefined });
+    }
+    if (method === 'openssl') {
+        if (options.passphrase === undefined) throw new Error('A passphrase is required for openssl decryption');
+        const base64 = message.replace(OPENSSL_BEGIN, '').replace(OPENSSL_END, '').trim() + '\n';
+        return runTool('openssl', ['enc', '-d', '-aes-256-cbc', '-pbkdf2', '-a', '-pass', 'fd:3'], base64, options);
+    }
+    throw new Error('Not an encrypted entry');
+}
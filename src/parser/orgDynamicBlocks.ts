@@ -22,6 +22,7 @@ import {
     effortToDays,
     type ProjectTask,
 } from './projectTasks';
+import { parseTagsMatch, evaluateTagsMatch, type MatchTarget } from './orgTagsMatch';
 
 // =============================================================================
 // Types
@@ -40,7 +41,7 @@ interface ColumnViewParams {
     skipEmptyRows?: boolean;
     /** Exclude tags */
     excludeTags?: string[];
-    /** Match only these tags */
+    /** Tags/property match expression, e.g. "+work-EFFORT>2" */
     match?: string;
     /** Indent items based on level */
     indent?: boolean;
@@ -59,7 +60,7 @@ interface ProjectTableParams {
     id?: string;
     /** Maximum heading level to include. */
     maxlevel?: number;
-    /** Only include tasks with these tags (e.g. "+urgent"). */
+    /** Tags/property match expression (e.g. "+urgent-PRIORITY=\"C\""). */
     match?: string;
     /** Group rows by 'assignee' or 'state'. */
     groupBy?: 'assignee' | 'state';
@@ -74,7 +75,7 @@ interface GanttParams {
     id?: string;
     /** Maximum heading level to include. */
     maxlevel?: number;
-    /** Only include tasks with these tags (e.g. "+urgent"). */
+    /** Tags/property match expression (e.g. "+urgent-PRIORITY=\"C\""). */
     match?: string;
     /** Section grouping: 'assignee', 'parent', or 'none'. */
     sections?: 'assignee' | 'parent' | 'none';
@@ -103,15 +104,16 @@ function parseBlockArgs(argsString: string | undefined): Record<string, string>
     const args: Record<string, string> = {};
     // Match :key value pairs. Try the quoted form FIRST so multi-word values
     // like :title "My Project" are captured whole (the unquoted alternative
-    // would otherwise grab just `"My`).
-    const regex = /:(\w+)\s+("[^"]*"|[^\s:]+)/g;
+    // would otherwise grab just `"My`). Quoted values may escape quotes, as
+    // in :match "+work+TODO=\"NEXT\"".
+    const regex = /:(\w+)\s+("(?:[^"\\]|\\.)*"|[^\s:]+)/g;
     let match;
 
     while ((match = regex.exec(argsString)) !== null) {
         let value = match[2];
         // Remove quotes if present
         if (value.startsWith('"') && value.endsWith('"')) {
-            value = value.slice(1, -1);
+            value = value.slice(1, -1).replace(/\\(["\\])/g, '$1');
         }
         args[match[1]] = value;
     }
@@ -293,6 +295,50 @@ function getColumnValue(headline: HeadlineElement, columnName: string): string {
     }
 }
 
+/**
+ * Keep the headlines matching an org tags/property match expression (the
+ * same syntax as agenda searches). Tags are inherited from ancestors and
+ * #+FILETAGS of the document each headline belongs to.
+ */
+function filterByMatch(
+    headlines: HeadlineElement[],
+    match: string,
+    sources: { doc: OrgDocumentNode; filePath?: string }[]
+): HeadlineElement[] {
+    const node = parseTagsMatch(match);
+    const targets = new Map<HeadlineElement, MatchTarget>();
+
+    for (const { doc, filePath } of sources) {
+        const fileTags = (doc.keywords.FILETAGS ?? '').split(':').filter(Boolean);
+        const category = doc.keywords.CATEGORY
+            ?? (filePath ? path.basename(filePath).replace(/\.(org|md)$/, '') : undefined);
+        const visit = (h: HeadlineElement, inherited: string[]) => {
+            const planning = h.planning?.properties;
+            targets.set(h, {
+                title: h.properties.rawValue,
+                tags: h.properties.tags,
+                inheritedTags: inherited,
+                todoState: h.properties.todoKeyword,
+                priority: h.properties.priority,
+                level: h.properties.level,
+                category,
+                scheduled: planning?.scheduled?.properties.rawValue,
+                deadline: planning?.deadline?.properties.rawValue,
+                closed: planning?.closed?.properties.rawValue,
+                properties: h.propertiesDrawer ?? {},
+            });
+            const childInherited = [...inherited, ...h.properties.tags];
+            h.children.forEach(child => visit(child, childInherited));
+        };
+        doc.children.forEach(h => visit(h, fileTags));
+    }
+
+    return headlines.filter(h => {
+        const target = targets.get(h);
+        return target !== undefined && evaluateTagsMatch(node, target);
+    });
+}
+
 // =============================================================================
 // Columnview Execution
 // =============================================================================
@@ -356,12 +402,13 @@ export function executeColumnView(
             headlines = headlines.filter(h => h.properties.level <= params.maxlevel!);
         }
 
-        // Filter by tags if match specified
+        // Filter by tags/property match if specified
         if (params.match) {
-            const matchTags = params.match.split(/[+&]/).map(t => t.trim());
-            headlines = headlines.filter(h =>
-                matchTags.every(tag => h.properties.tags.includes(tag))
-            );
+            const agendaScope = (params.id === 'global' || params.id === 'agenda')
+                && agendaDocuments && agendaDocuments.length > 0;
+            headlines = filterByMatch(headlines, params.match, agendaScope
+                ? agendaDocuments
+                : [{ doc, filePath: documentPath }]);
         }
 
         // Filter out excluded tags
@@ -485,10 +532,7 @@ function selectProjectHeadlines(
         headlines = org.getAllHeadlines(doc);
     }
     if (maxlevel) headlines = headlines.filter(h => h.properties.level <= maxlevel);
-    if (match) {
-        const tags = match.split(/[+&]/).map(t => t.replace(/^[+-]/, '').trim()).filter(Boolean);
-        headlines = headlines.filter(h => tags.every(t => h.properties.tags.includes(t)));
-    }
+    if (match) headlines = filterByMatch(headlines, match, [{ doc }]);
     return headlines;
 }
 
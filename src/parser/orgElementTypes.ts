@@ -917,6 +917,29 @@ export interface MacroObject extends OrgObject {
     };
 }
 
+/**
+ * Citation object ([cite/style:prefix; @key suffix; ...])
+ */
+export interface CitationObject extends OrgObject {
+    type: 'citation';
+    properties: {
+        /** Citation style, 'default' when none is given */
+        style: string;
+        /** Style variants after the style (/bare, /caps, ...) */
+        variants: string[];
+        /** Prefix shared by all references */
+        prefix?: string;
+        /** Suffix shared by all references */
+        suffix?: string;
+        /** Cited keys, in order */
+        keys: string[];
+        /** Cited keys with their own prefix and suffix */
+        references: { key: string; prefix?: string; suffix?: string }[];
+        /** Original citation text */
+        rawValue: string;
+    };
+}
+
 // =============================================================================
 // Document Root
 // =============================================================================
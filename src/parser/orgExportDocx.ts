@@ -1,6 +1,7 @@
 /**
  * DOCX export backend for org-mode documents
- * Uses pandoc for high-quality Word document generation with native equation support
+ * Uses pandoc for high-quality Word document generation with native equation support,
+ * or the native writer (orgExportOoxml) when pandoc is not installed
  */
 
 import * as fs from 'fs';
@@ -10,7 +11,9 @@ import * as os from 'os';
 import * as crypto from 'crypto';
 
 import type { OrgDocumentNode } from './orgElementTypes';
-import { parseOptionsKeyword, ExportOptions, DEFAULT_EXPORT_OPTIONS, expandMacro, BUILTIN_MACROS, shouldRenderAsLiteral } from './orgExport';
+import { parseOptionsKeyword, DEFAULT_EXPORT_OPTIONS, expandMacro, BUILTIN_MACROS, shouldRenderAsLiteral } from './orgExport';
+import type { OfficeExportOptions } from './orgExportOffice';
+import { OoxmlExportBackend } from './orgExportOoxml';
 import { stripNoteFootnotes } from './orgNotes';
 
 // =============================================================================
@@ -44,25 +47,17 @@ function checkPandoc(): { available: boolean; version: string | null } {
 // =============================================================================
 
 /**
- * Options specific to DOCX export via pandoc
+ * DOCX writer: pandoc, the native writer, or pandoc when it is installed
+ * and the native writer otherwise
  */
-export interface DocxExportOptions extends ExportOptions {
-    /** Document title (from #+TITLE) */
-    title?: string;
-    /** Document author (from #+AUTHOR) */
-    author?: string;
-    /** Document date (from #+DATE) */
-    date?: string;
-    /** Path to reference docx for styling */
-    referenceDoc?: string;
-    /** Enable table of contents (can be boolean or number for depth) */
-    toc?: boolean | number;
-    /** TOC depth (default: 3) */
-    tocDepth?: number;
-    /** Enable section numbering */
-    sectionNumbers?: boolean;
-    /** Base path for resolving relative paths */
-    basePath?: string;
+export type DocxEngine = 'auto' | 'native' | 'pandoc';
+
+/**
+ * Options specific to DOCX export
+ */
+export interface DocxExportOptions extends OfficeExportOptions {
+    /** Writer to use (default: auto) */
+    engine?: DocxEngine;
     /** Additional pandoc arguments */
     pandocArgs?: string[];
     /** Raw org content to pass directly to pandoc (bypasses AST serialization) */
@@ -1028,7 +1023,7 @@ export class DocxExportBackend {
 // =============================================================================
 
 /**
- * Export an org document to DOCX format using pandoc
+ * Export an org document to DOCX format
  * Returns a Buffer containing the DOCX file data
  */
 export async function exportToDocx(
@@ -1038,10 +1033,24 @@ export async function exportToDocx(
     if (options?.excludeNoteFootnotes !== false) {
         stripNoteFootnotes(doc);
     }
+    if (resolveDocxEngine(options?.engine) === 'native') {
+        return new OoxmlExportBackend().exportPackage(doc, options);
+    }
     const backend = new DocxExportBackend();
     return backend.exportDocument(doc, options);
 }
 
+/**
+ * The writer an engine setting selects: 'auto' is pandoc when it is
+ * installed and the native writer otherwise
+ */
+export function resolveDocxEngine(engine: DocxEngine = 'auto'): 'native' | 'pandoc' {
+    if (engine === 'auto') {
+        return checkPandoc().available ? 'pandoc' : 'native';
+    }
+    return engine;
+}
+
 /**
  * Check if pandoc is available for DOCX export
  */
@@ -80,6 +80,7 @@ import {
     shouldRenderAsLiteral,
 } from './orgExport';
 import { stripNoteFootnotes } from './orgNotes';
+import { parsePlotOptions, renderTablePlot, tableElementRows } from './orgPlot';
 
 import { CitationProcessor, CSLStyleName } from '../references/citationProcessor';
 import { parseCitationsFromLine, getNormalizedStyle } from '../references/citationParser';
@@ -146,7 +147,7 @@ export interface HtmlExportOptions extends ExportOptions {
     editmarkMode?: EditmarkExportMode;
 }
 
-const DEFAULT_HTML_OPTIONS: HtmlExportOptions = {
+export const DEFAULT_HTML_OPTIONS: HtmlExportOptions = {
     bodyOnly: false,
     doctype: '<!DOCTYPE html>',
     mathJax: true,
@@ -165,7 +166,7 @@ const DEFAULT_HTML_OPTIONS: HtmlExportOptions = {
 /**
  * Extended export state with citation processor
  */
-interface HtmlExportState extends ExportState {
+export interface HtmlExportState extends ExportState {
     citationProcessor?: CitationProcessor;
     htmlOptions: HtmlExportOptions;
     /** Track citation locations for back-links: key -> array of citation IDs */
@@ -179,7 +180,7 @@ interface HtmlExportState extends ExportState {
 // =============================================================================
 
 export class HtmlExportBackend implements ExportBackend {
-    public readonly name = 'html';
+    public readonly name: string = 'html';
 
     /**
      * Export a complete document to HTML
@@ -203,6 +204,46 @@ export class HtmlExportBackend implements ExportBackend {
             backend: 'html',
         }) as HtmlExportOptions;
 
+        const state = this.createState(doc, opts);
+
+        // Extract document metadata
+        const title = opts.title || doc.keywords['TITLE'] || 'Untitled';
+        const author = opts.author || doc.keywords['AUTHOR'] || '';
+        const email = opts.email || doc.keywords['EMAIL'] || '';
+        const date = opts.date || doc.keywords['DATE'] || '';
+        const language = opts.language || doc.keywords['LANGUAGE'] || 'en';
+
+        // Build content
+        const content = this.exportDocumentContent(doc, state);
+
+        let output: string;
+        if (opts.bodyOnly) {
+            output = content;
+        } else {
+            output = this.wrapInHtmlDocument(content, {
+                title,
+                author,
+                email,
+                date,
+                language,
+                ...opts,
+            }, state);
+        }
+
+        // Run post-export hooks (can transform output)
+        output = exportHookRegistry.runPostExportHooks(output, {
+            backend: 'html',
+            options: opts,
+        });
+
+        return output;
+    }
+
+    /**
+     * Create the export state: citation processor, targets, footnotes and
+     * document macros
+     */
+    protected createState(doc: OrgDocumentNode, opts: HtmlExportOptions): HtmlExportState {
         // Create base export state
         const baseState = createExportState(opts);
 
@@ -224,6 +265,11 @@ export class HtmlExportBackend implements ExportBackend {
             state.citationProcessor.loadEntries(opts.bibEntries);
         }
 
+        // Check for CSL style in document keywords
+        if (doc.keywords['CSL_STYLE'] && state.citationProcessor) {
+            state.citationProcessor.setStyle(doc.keywords['CSL_STYLE']);
+        }
+
         // Pre-process document
         collectTargets(doc, state);
         collectFootnotes(doc, state);
@@ -242,42 +288,7 @@ export class HtmlExportBackend implements ExportBackend {
             state.options.macros = { ...state.options.macros, ...docMacros };
         }
 
-        // Extract document metadata
-        const title = opts.title || doc.keywords['TITLE'] || 'Untitled';
-        const author = opts.author || doc.keywords['AUTHOR'] || '';
-        const email = opts.email || doc.keywords['EMAIL'] || '';
-        const date = opts.date || doc.keywords['DATE'] || '';
-        const language = opts.language || doc.keywords['LANGUAGE'] || 'en';
-
-        // Check for CSL style in document keywords
-        if (doc.keywords['CSL_STYLE'] && state.citationProcessor) {
-            state.citationProcessor.setStyle(doc.keywords['CSL_STYLE']);
-        }
-
-        // Build content
-        const content = this.exportDocumentContent(doc, state);
-
-        let output: string;
-        if (opts.bodyOnly) {
-            output = content;
-        } else {
-            output = this.wrapInHtmlDocument(content, {
-                title,
-                author,
-                email,
-                date,
-                language,
-                ...opts,
-            }, state);
-        }
-
-        // Run post-export hooks (can transform output)
-        output = exportHookRegistry.runPostExportHooks(output, {
-            backend: 'html',
-            options: opts,
-        });
-
-        return output;
+        return state;
     }
 
     /**
@@ -380,6 +391,8 @@ export class HtmlExportBackend implements ExportBackend {
                 return this.exportPlainList(element as PlainListElement, state);
             case 'drawer':
                 return this.exportDrawer(element as DrawerElement, state);
+            case 'property-drawer':
+                return ''; // Property drawers are metadata, never exported
             case 'keyword':
                 return this.exportKeyword(element as KeywordElement, state);
             case 'horizontal-rule':
@@ -477,12 +490,10 @@ export class HtmlExportBackend implements ExportBackend {
     // Element Exporters
     // =========================================================================
 
-    private exportHeadline(headline: HeadlineElement, state: ExportState): string {
-        const level = Math.min(headline.properties.level + state.headlineOffset, 6);
-        const id = headline.properties.customId ||
-            headline.properties.id ||
-            generateId(headline.properties.rawValue);
-
+    /**
+     * Headline title with TODO keyword, priority, section number and tags
+     */
+    protected exportHeadlineTitle(headline: HeadlineElement, state: ExportState): string {
         // Generate section number if enabled
         let numberLabel = '';
         if (state.options.sectionNumbers) {
@@ -521,6 +532,16 @@ export class HtmlExportBackend implements ExportBackend {
             title += `<span class="org-tags">${tagsHtml}</span>`;
         }
 
+        return title;
+    }
+
+    protected exportHeadline(headline: HeadlineElement, state: ExportState): string {
+        const level = Math.min(headline.properties.level + state.headlineOffset, 6);
+        const id = headline.properties.customId ||
+            headline.properties.id ||
+            generateId(headline.properties.rawValue);
+        const title = this.exportHeadlineTitle(headline, state);
+
         const parts: string[] = [];
 
         // Opening div with id
@@ -546,7 +567,7 @@ export class HtmlExportBackend implements ExportBackend {
         return parts.join('\n');
     }
 
-    private exportSection(section: SectionElement, state: ExportState): string {
+    protected exportSection(section: SectionElement, state: ExportState): string {
         const parts: string[] = [];
         for (const child of section.children) {
             parts.push(this.exportElement(child, state));
@@ -629,7 +650,7 @@ export class HtmlExportBackend implements ExportBackend {
         return `<div class="org-center">\n${content}</div>\n`;
     }
 
-    private exportSpecialBlock(block: SpecialBlockElement, state: ExportState): string {
+    protected exportSpecialBlock(block: SpecialBlockElement, state: ExportState): string {
         const blockType = block.properties.blockType.toLowerCase();
         const content = block.children
             .map(child => this.exportElement(child, state))
@@ -725,6 +746,12 @@ export class HtmlExportBackend implements ExportBackend {
         }
 
         html += '</table>\n';
+
+        // #+PLOT: the chart follows the table, inlined so the page is self-contained
+        if (table.affiliated?.plot !== undefined) {
+            const svg = renderTablePlot(tableElementRows(table), parsePlotOptions(table.affiliated.plot));
+            html += `<figure class="org-plot">\n${svg}\n</figure>\n`;
+        }
         return html;
     }
 
@@ -755,7 +782,7 @@ export class HtmlExportBackend implements ExportBackend {
         return html;
     }
 
-    private exportListItem(item: ItemElement, state: ExportState, listType: string): string {
+    protected exportListItem(item: ItemElement, state: ExportState, listType: string): string {
         let html = '';
 
         if (listType === 'descriptive') {
@@ -1260,7 +1287,7 @@ export class HtmlExportBackend implements ExportBackend {
     // Document Structure
     // =========================================================================
 
-    private generateToc(doc: OrgDocumentNode, state: ExportState): string {
+    protected generateToc(doc: OrgDocumentNode, state: ExportState): string {
         if (state.tocEntries.length === 0) {
             return '';
         }
@@ -1300,7 +1327,7 @@ export class HtmlExportBackend implements ExportBackend {
         return html;
     }
 
-    private exportFootnotes(state: ExportState): string {
+    protected exportFootnotes(state: ExportState): string {
         if (state.footnotes.size === 0 || state.options.footnotes === 'none') {
             return '';
         }
@@ -59,6 +59,7 @@ import type {
     ExportOptions,
 } from './orgExport';
 import { stripNoteFootnotes } from './orgNotes';
+import { parsePlotOptions } from './orgPlot';
 
 import {
     createExportState,
@@ -1111,7 +1112,7 @@ export class LatexExportBackend implements ExportBackend {
             tabular += bodyRows.map(renderRow).join('');
             tabular += '\\end{longtable}\n';
 
-            return wrapper + tabular + endWrapper;
+            return wrapper + tabular + endWrapper + this.exportTablePlot(table);
         }
 
         // Build table environment opening
@@ -1147,7 +1148,22 @@ export class LatexExportBackend implements ExportBackend {
             tabular = `\\begin{adjustbox}{max width=\\textwidth}\n${tabular}\\end{adjustbox}\n`;
         }
 
-        return wrapper + tabular + endWrapper;
+        return wrapper + tabular + endWrapper + this.exportTablePlot(table);
+    }
+
+    /**
+     * The image of a table's #+PLOT:, written to its `file:` before export.
+     * SVG files go through the SVG -> PDF step of the PDF pipeline.
+     */
+    private exportTablePlot(table: TableElement): string {
+        if (table.affiliated?.plot === undefined) {
+            return '';
+        }
+        const file = parsePlotOptions(table.affiliated.plot).file;
+        if (!file) {
+            return '% #+PLOT: add file:"plot.svg" to include the plot in LaTeX output\n';
+        }
+        return `\\begin{center}\n\\includegraphics[width=.8\\linewidth]{${file}}\n\\end{center}\n`;
     }
 
     protected exportPlainList(list: PlainListElement, state: ExportState): string {
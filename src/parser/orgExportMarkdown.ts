@@ -0,0 +1,1270 @@
+/**
+ * Markdown export backend for org-mode documents
+ * Converts org AST to Markdown in one of three flavors:
+ *
+ * - gfm:  GitHub-Flavored Markdown (pipe tables, task lists, footnotes, alerts)
+ * - hugo: GFM plus TOML/YAML front matter, `{#id}` heading anchors and the
+ *         figure shortcode, as used by Hugo sites
+ * - myst: MyST Markdown for Sphinx/Jupyter Book (YAML front matter,
+ *         directives for figures, tables, code and admonitions, `{cite}` roles)
+ */
+
+import type {
+    OrgElement,
+    OrgObject,
+    OrgDocumentNode,
+    HeadlineElement,
+    SectionElement,
+    ParagraphElement,
+    SrcBlockElement,
+    ExampleBlockElement,
+    QuoteBlockElement,
+    CenterBlockElement,
+    SpecialBlockElement,
+    VerseBlockElement,
+    LatexEnvironmentElement,
+    TableElement,
+    TableRowElement,
+    PlainListElement,
+    ItemElement,
+    DrawerElement,
+    FixedWidthElement,
+    ExportBlockElement,
+    BoldObject,
+    ItalicObject,
+    UnderlineObject,
+    StrikeThroughObject,
+    CodeObject,
+    CommandObject,
+    VerbatimObject,
+    LinkObject,
+    TimestampObject,
+    EntityObject,
+    LatexFragmentObject,
+    SubscriptObject,
+    SuperscriptObject,
+    FootnoteReferenceObject,
+    StatisticsCookieObject,
+    TargetObject,
+    RadioTargetObject,
+    PlainTextObject,
+    InlineSrcBlockObject,
+    InlineBabelCallObject,
+    ExportSnippetObject,
+    MacroObject,
+    TableCellObject,
+    CitationObject,
+    InlinetaskElement,
+} from './orgElementTypes';
+
+import type {
+    ExportBackend,
+    ExportState,
+    ExportOptions,
+} from './orgExport';
+
+import {
+    createExportState,
+    generateId,
+    generateSectionNumber,
+    exportObjects,
+    shouldExport,
+    expandMacro,
+    BUILTIN_MACROS,
+    collectTargets,
+    collectFootnotes,
+    parseOptionsKeyword,
+    shouldRenderAsLiteral,
+} from './orgExport';
+import { stripNoteFootnotes } from './orgNotes';
+
+import { CitationProcessor, CSLStyleName } from '../references/citationProcessor';
+import { parseCitationsFromLine, getNormalizedStyle } from '../references/citationParser';
+import type { BibEntry } from '../references/bibtexParser';
+import { ALL_CITATION_COMMANDS } from '../references/citationTypes';
+import { exportHookRegistry } from '../adapters/exportHooksAdapter';
+
+// Citation link types that should be processed as citations
+const CITATION_LINK_TYPES = new Set(ALL_CITATION_COMMANDS.map(c => c.toLowerCase()));
+
+// =============================================================================
+// Markdown Export Options
+// =============================================================================
+
+export type MarkdownFlavor = 'gfm' | 'hugo' | 'myst';
+
+export type FrontMatterFormat = 'yaml' | 'toml' | 'none';
+
+export const MARKDOWN_FLAVORS: MarkdownFlavor[] = ['gfm', 'hugo', 'myst'];
+
+export interface MarkdownExportOptions extends ExportOptions {
+    /** Markdown dialect to write (default: gfm) */
+    flavor?: MarkdownFlavor;
+    /** Front matter format; defaults to none for gfm, toml for hugo, yaml for myst */
+    frontMatter?: FrontMatterFormat;
+    /** Only export the body: no front matter, title or bibliography */
+    bodyOnly?: boolean;
+
+    // Citation options
+    /** CSL style for citation formatting (gfm/hugo with bibEntries, default: apa) */
+    citationStyle?: CSLStyleName | string;
+    /** Whether to add a bibliography after the footnotes (default: true) */
+    bibliography?: boolean;
+    /** BibTeX entries for citation processing */
+    bibEntries?: BibEntry[];
+    /** Citation processor instance (if pre-configured) */
+    citationProcessor?: CitationProcessor;
+}
+
+const DEFAULT_MARKDOWN_OPTIONS: MarkdownExportOptions = {
+    flavor: 'gfm',
+    bodyOnly: false,
+    sectionNumbers: false,
+    citationStyle: 'apa',
+    bibliography: true,
+};
+
+/** Front matter written by default for each flavor */
+const DEFAULT_FRONT_MATTER: Record<MarkdownFlavor, FrontMatterFormat> = {
+    gfm: 'none',
+    hugo: 'toml',
+    myst: 'yaml',
+};
+
+/** Special blocks rendered as GitHub alerts (gfm, hugo) */
+const GFM_ALERTS = new Set(['note', 'tip', 'important', 'warning', 'caution']);
+
+/** Special blocks rendered as admonition directives (myst) */
+const MYST_ADMONITIONS = new Set([
+    'note', 'tip', 'important', 'warning', 'caution', 'attention',
+    'danger', 'error', 'hint', 'seealso',
+]);
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp)$/i;
+
+/**
+ * Extended export state for Markdown
+ */
+interface MarkdownExportState extends ExportState {
+    mdOptions: MarkdownExportOptions;
+    flavor: MarkdownFlavor;
+    citationProcessor?: CitationProcessor;
+    /** Anchors that links or the TOC point at; only these headlines get one */
+    referencedIds: Set<string>;
+    /** Footnote labels in order of first reference */
+    footnoteOrder: string[];
+    /** Definitions of inline footnotes ([fn::text]) */
+    inlineFootnotes: Map<string, OrgObject[]>;
+    /** Whether any citation was exported */
+    hasCitations: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Escape characters that Markdown would read as markup
+ */
+function escapeMarkdown(text: string): string {
+    return text
+        .replace(/([`*])/g, '\\$1')
+        // Intraword underscores are literal in CommonMark; only escape the rest
+        .replace(/(?<![A-Za-z0-9])_|_(?![A-Za-z0-9])/g, '\\_')
+        .replace(/<(?=[A-Za-z/!?])/g, '&lt;')
+        .replace(/^(\s*)(#|>|[-+](?=\s)|\d+[.)](?=\s))/gm, '$1\\$2');
+}
+
+/**
+ * Prefix every non-empty line
+ */
+function indent(text: string, prefix: string): string {
+    return text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+}
+
+/**
+ * A backtick fence longer than any backtick run in the content
+ */
+function fence(content: string): string {
+    const longest = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Inline code span that survives backticks in the content
+ */
+function codeSpan(value: string): string {
+    const longest = Math.max(0, ...(value.match(/`+/g) || []).map(run => run.length));
+    const ticks = '`'.repeat(longest + 1);
+    const pad = value.startsWith('`') || value.endsWith('`') ? ' ' : '';
+    return `${ticks}${pad}${value}${pad}${ticks}`;
+}
+
+/**
+ * A MyST directive: ```{name} argument, :option: lines, then the body
+ */
+function directive(name: string, argument: string, options: Record<string, string | undefined>, body: string): string {
+    const optionLines = Object.entries(options)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `:${key}: ${value}`);
+    const ticks = fence(body);
+    const head = `${ticks}{${name}}${argument ? ' ' + argument : ''}`;
+    const parts = [head, ...optionLines];
+    if (body) {
+        if (optionLines.length > 0) parts.push('');
+        parts.push(body);
+    }
+    parts.push(ticks);
+    return parts.join('\n');
+}
+
+/**
+ * Caption text from affiliated keywords ([short, long] uses the long one)
+ */
+function captionOf(element: OrgElement): string | undefined {
+    const caption = element.affiliated?.caption;
+    if (!caption) return undefined;
+    return Array.isArray(caption) ? caption[1] : caption;
+}
+
+/**
+ * Footnote label usable in [^label]
+ */
+function footnoteLabel(label: string): string {
+    return label.replace(/[^\w-]/g, '-');
+}
+
+/**
+ * Org date (`<2026-01-15 Thu 10:00>` or a bare date) as an ISO date or
+ * local date-time, or undefined when it is free text
+ */
+function isoDate(value: string): string | undefined {
+    const match = value.trim().match(/^[<[]?(\d{4}-\d{2}-\d{2})(?:\s+[A-Za-z]{2,3}\.?)?(?:\s+(\d{1,2}):(\d{2}))?[>\]]?$/);
+    if (!match) return undefined;
+    if (!match[2]) return match[1];
+    return `${match[1]}T${match[2].padStart(2, '0')}:${match[3]}:00`;
+}
+
+/**
+ * Front matter block from document keywords
+ */
+function buildFrontMatter(
+    doc: OrgDocumentNode,
+    opts: MarkdownExportOptions,
+    flavor: MarkdownFlavor,
+    format: FrontMatterFormat
+): string {
+    if (format === 'none') return '';
+    const keywords = doc.keywords || {};
+    const splitList = (value: string | undefined): string[] =>
+        (value || '').split(/[\s:,]+/).filter(Boolean);
+
+    const fields: [string, string | string[] | boolean][] = [];
+    const title = opts.title || keywords['TITLE'];
+    if (title) fields.push(['title', title]);
+
+    const author = opts.author || keywords['AUTHOR'];
+    if (author && opts.includeAuthor !== false) {
+        fields.push(['author', flavor === 'hugo' ? [author] : author]);
+    }
+
+    const date = opts.date || keywords['DATE'];
+    if (date && opts.includeDate !== false) {
+        fields.push(['date', date]);
+    }
+
+    if (keywords['DESCRIPTION']) fields.push(['description', keywords['DESCRIPTION']]);
+
+    if (flavor === 'hugo') {
+        const tags = splitList(keywords['HUGO_TAGS'] || keywords['FILETAGS']);
+        if (tags.length > 0) fields.push(['tags', tags]);
+        const categories = splitList(keywords['HUGO_CATEGORIES']);
+        if (categories.length > 0) fields.push(['categories', categories]);
+        const draft = keywords['HUGO_DRAFT'];
+        if (draft) fields.push(['draft', /^(t|true|yes)$/i.test(draft.trim())]);
+    } else {
+        const keywordList = splitList(keywords['KEYWORDS'] || keywords['FILETAGS']);
+        if (keywordList.length > 0) fields.push(['keywords', keywordList]);
+    }
+
+    if (fields.length === 0) return '';
+
+    const render = (key: string, value: string | string[] | boolean): string => {
+        let rendered: string;
+        if (typeof value === 'boolean') {
+            rendered = String(value);
+        } else if (Array.isArray(value)) {
+            rendered = `[${value.map(v => JSON.stringify(v)).join(', ')}]`;
+        } else if (key === 'date' && isoDate(value)) {
+            rendered = isoDate(value)!;
+        } else {
+            rendered = JSON.stringify(value);
+        }
+        return format === 'toml' ? `${key} = ${rendered}` : `${key}: ${rendered}`;
+    };
+
+    const delimiter = format === 'toml' ? '+++' : '---';
+    return [delimiter, ...fields.map(([key, value]) => render(key, value)), delimiter].join('\n');
+}
+
+/**
+ * Visit every node of the document, objects included (headline titles,
+ * paragraphs, list tags, table cells, nested markup)
+ */
+function forEachNode(
+    nodes: readonly (OrgElement | OrgObject | undefined)[] | undefined,
+    visit: (node: OrgElement | OrgObject) => void
+): void {
+    for (const node of nodes ?? []) {
+        if (!node) continue;
+        visit(node);
+        forEachNode(node.children, visit);
+        switch (node.type) {
+            case 'headline': {
+                const headline = node as HeadlineElement;
+                forEachNode([headline.section], visit);
+                forEachNode(headline.properties.title, visit);
+                break;
+            }
+            case 'inlinetask':
+                forEachNode((node as InlinetaskElement).properties.title, visit);
+                break;
+            case 'item':
+                forEachNode((node as ItemElement).properties.tag, visit);
+                break;
+        }
+    }
+}
+
+// =============================================================================
+// Markdown Export Backend
+// =============================================================================
+
+export class MarkdownExportBackend implements ExportBackend {
+    public readonly name = 'markdown';
+
+    /**
+     * Export a complete document to Markdown
+     */
+    exportDocument(doc: OrgDocumentNode, options?: Partial<MarkdownExportOptions>): string {
+        // Parse #+OPTIONS: keyword if present
+        const optionsKeyword = doc.keywords['OPTIONS'];
+        const parsedOptions = optionsKeyword ? parseOptionsKeyword(optionsKeyword) : {};
+
+        let opts: MarkdownExportOptions = {
+            ...DEFAULT_MARKDOWN_OPTIONS,
+            ...parsedOptions,  // OPTIONS keyword values
+            ...options,        // Explicit options override OPTIONS
+            backend: 'markdown',
+        };
+
+        // Run pre-export hooks (can modify options)
+        opts = exportHookRegistry.runPreExportHooks({
+            document: doc,
+            options: opts,
+            backend: 'markdown',
+        }) as MarkdownExportOptions;
+
+        const flavor = opts.flavor || 'gfm';
+        const baseState = createExportState(opts);
+        const state: MarkdownExportState = {
+            ...baseState,
+            mdOptions: opts,
+            flavor,
+            referencedIds: new Set(),
+            footnoteOrder: [],
+            inlineFootnotes: new Map(),
+            hasCitations: false,
+        };
+
+        // MyST leaves citations to sphinxcontrib-bibtex; the others format
+        // them here when a bibliography is available
+        if (flavor !== 'myst') {
+            if (opts.citationProcessor) {
+                state.citationProcessor = opts.citationProcessor;
+            } else if (opts.bibEntries && opts.bibEntries.length > 0) {
+                state.citationProcessor = new CitationProcessor({
+                    style: opts.citationStyle || 'apa',
+                });
+                state.citationProcessor.loadEntries(opts.bibEntries);
+            }
+            if (doc.keywords['CSL_STYLE'] && state.citationProcessor) {
+                state.citationProcessor.setStyle(doc.keywords['CSL_STYLE']);
+            }
+        }
+
+        // Pre-process document
+        collectTargets(doc, state);
+        collectFootnotes(doc, state);
+        this.collectReferences(doc, state);
+
+        // Collect document-defined macros from #+MACRO: keywords
+        if (doc.keywordLists?.['MACRO']) {
+            const docMacros: Record<string, string> = {};
+            for (const macroDef of doc.keywordLists['MACRO']) {
+                const match = macroDef.match(/^(\S+)\s+(.*)$/);
+                if (match) {
+                    docMacros[match[1]] = match[2];
+                }
+            }
+            state.options.macros = { ...state.options.macros, ...docMacros };
+        }
+
+        const frontMatterFormat = opts.frontMatter || DEFAULT_FRONT_MATTER[flavor];
+        const blocks: string[] = [];
+
+        if (!opts.bodyOnly) {
+            const frontMatter = buildFrontMatter(doc, opts, flavor, frontMatterFormat);
+            if (frontMatter) {
+                blocks.push(frontMatter);
+            } else {
+                // Without front matter the title becomes the only level-1 heading
+                const title = opts.title || doc.keywords['TITLE'];
+                const author = opts.author || doc.keywords['AUTHOR'];
+                if (title) {
+                    blocks.push(`# ${escapeMarkdown(title)}`);
+                    state.headlineOffset = 1;
+                }
+                if (author && opts.includeAuthor !== false) {
+                    blocks.push(`*${escapeMarkdown(author)}*`);
+                }
+            }
+        }
+        // Hugo themes render the title as the page's h1
+        if (flavor === 'hugo') {
+            state.headlineOffset = 1;
+        }
+
+        blocks.push(this.exportDocumentContent(doc, state));
+
+        let output = blocks.filter(block => block.trim()).join('\n\n') + '\n';
+
+        // Run post-export hooks (can transform output)
+        output = exportHookRegistry.runPostExportHooks(output, {
+            backend: 'markdown',
+            options: opts,
+        });
+
+        return output;
+    }
+
+    /**
+     * Export document content (without front matter)
+     */
+    private exportDocumentContent(doc: OrgDocumentNode, state: MarkdownExportState): string {
+        const parts: string[] = [];
+
+        if (doc.section) {
+            parts.push(this.exportSection(doc.section, state));
+        }
+
+        if (state.options.toc) {
+            parts.push(this.generateToc(state));
+        }
+
+        for (const headline of doc.children) {
+            if (shouldExport(headline, state.options)) {
+                parts.push(this.exportHeadline(headline, state));
+            }
+        }
+
+        parts.push(this.exportFootnotes(state));
+
+        if (state.mdOptions.bibliography !== false && !state.mdOptions.bodyOnly && state.hasCitations) {
+            parts.push(this.exportBibliography(state));
+        }
+
+        return parts.filter(part => part.trim()).join('\n\n');
+    }
+
+    /**
+     * Export a single element
+     */
+    exportElement(element: OrgElement, state: ExportState): string {
+        let result = this.exportElementContent(element, state as MarkdownExportState);
+
+        // Run element filter hooks
+        result = exportHookRegistry.runElementFilters(result, {
+            element,
+            backend: 'markdown',
+            options: state.options,
+        });
+
+        return result;
+    }
+
+    /**
+     * Export element content
+     */
+    private exportElementContent(element: OrgElement, state: MarkdownExportState): string {
+        switch (element.type) {
+            case 'headline':
+                return this.exportHeadline(element as HeadlineElement, state);
+            case 'section':
+                return this.exportSection(element as SectionElement, state);
+            case 'paragraph':
+                return this.exportParagraph(element as ParagraphElement, state);
+            case 'src-block':
+                return this.exportSrcBlock(element as SrcBlockElement, state);
+            case 'example-block':
+                return this.exportExampleBlock(element as ExampleBlockElement, state);
+            case 'quote-block':
+                return this.exportQuoteBlock(element as QuoteBlockElement, state);
+            case 'center-block':
+                return this.exportBlocks((element as CenterBlockElement).children, state);
+            case 'special-block':
+                return this.exportSpecialBlock(element as SpecialBlockElement, state);
+            case 'verse-block':
+                return this.exportVerseBlock(element as VerseBlockElement);
+            case 'latex-environment':
+                return this.exportLatexEnvironment(element as LatexEnvironmentElement, state);
+            case 'table':
+                return this.exportTable(element as TableElement, state);
+            case 'plain-list':
+                return this.exportPlainList(element as PlainListElement, state);
+            case 'drawer':
+                return this.exportDrawer(element as DrawerElement, state);
+            case 'horizontal-rule':
+                return '---';
+            case 'fixed-width':
+                return this.exportFixedWidth(element as FixedWidthElement, state);
+            case 'export-block':
+                return this.exportExportBlock(element as ExportBlockElement, state);
+            case 'keyword':
+            case 'comment-block':
+            case 'footnote-definition':
+                // Metadata, comments, and footnotes (collected at the end)
+                return '';
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * Export a single object (inline element)
+     */
+    exportObject(object: OrgObject, state: ExportState): string {
+        const mdState = state as MarkdownExportState;
+        switch (object.type) {
+            case 'bold':
+                return `**${exportObjects((object as BoldObject).children, this, state)}**`;
+            case 'italic':
+                return `*${exportObjects((object as ItalicObject).children, this, state)}*`;
+            case 'underline': {
+                const content = exportObjects((object as UnderlineObject).children, this, state);
+                return mdState.flavor === 'myst' ? content : `<ins>${content}</ins>`;
+            }
+            case 'strike-through':
+                return `~~${exportObjects((object as StrikeThroughObject).children, this, state)}~~`;
+            case 'code':
+                return codeSpan((object as CodeObject).properties.value);
+            case 'command':
+                return `<kbd>${(object as CommandObject).properties.value}</kbd>`;
+            case 'verbatim':
+                return codeSpan((object as VerbatimObject).properties.value);
+            case 'link':
+                return this.exportLink(object as LinkObject, mdState);
+            case 'timestamp':
+                return this.exportTimestamp(object as TimestampObject, state);
+            case 'entity':
+                return (object as EntityObject).properties.utf8;
+            case 'latex-fragment':
+                return this.exportLatexFragment(object as LatexFragmentObject, mdState);
+            case 'subscript':
+                return this.exportScript(object as SubscriptObject, 'sub', mdState);
+            case 'superscript':
+                return this.exportScript(object as SuperscriptObject, 'sup', mdState);
+            case 'footnote-reference':
+                return this.exportFootnoteReference(object as FootnoteReferenceObject, mdState);
+            case 'statistics-cookie':
+                // Statistics cookies are tied to planning info - hide when p:nil
+                return state.options.includePlanning === false
+                    ? ''
+                    : (object as StatisticsCookieObject).properties.value;
+            case 'target':
+                return `<a id="${generateId((object as TargetObject).properties.value)}"></a>`;
+            case 'radio-target':
+                return exportObjects((object as RadioTargetObject).children, this, state);
+            case 'line-break':
+                return '\\\n';
+            case 'plain-text': {
+                const text = escapeMarkdown((object as PlainTextObject).properties.value);
+                return state.options.preserveBreaks ? text.replace(/\n/g, '\\\n') : text;
+            }
+            case 'inline-src-block':
+                return codeSpan((object as InlineSrcBlockObject).properties.value);
+            case 'inline-babel-call': {
+                const call = object as InlineBabelCallObject;
+                return codeSpan(`call_${call.properties.call}(${call.properties.arguments || ''})`);
+            }
+            case 'export-snippet': {
+                const snippet = object as ExportSnippetObject;
+                return this.acceptsRaw(snippet.properties.backend, mdState) ? snippet.properties.value : '';
+            }
+            case 'macro':
+                return this.exportMacro(object as MacroObject, state);
+            case 'table-cell': {
+                const cell = object as TableCellObject;
+                return cell.children
+                    ? exportObjects(cell.children, this, state)
+                    : escapeMarkdown(cell.properties.value);
+            }
+            case 'citation':
+                return this.exportCitation(object as CitationObject, mdState);
+            default:
+                return '';
+        }
+    }
+
+    // =========================================================================
+    // Pre-processing
+    // =========================================================================
+
+    /**
+     * Record the anchors that internal links point at, so only those
+     * headlines (or all of them, with a TOC) get an explicit anchor
+     */
+    private collectReferences(doc: OrgDocumentNode, state: MarkdownExportState): void {
+        forEachNode([doc.section, ...doc.children], node => {
+            if (node.type !== 'link') return;
+            const id = this.internalTarget(node as LinkObject, state);
+            if (id) state.referencedIds.add(id);
+        });
+    }
+
+    /**
+     * Anchor an internal link resolves to, or undefined for external links
+     */
+    private internalTarget(link: LinkObject, state: ExportState): string | undefined {
+        const { linkType, path } = link.properties;
+        switch (linkType) {
+            case 'id':
+                return path;
+            case 'custom-id':
+                return path.replace(/^#/, '');
+            case 'headline':
+                return generateId(path.replace(/^\*/, '').trim());
+            case 'internal':
+                return /\.(org|md)(::|$)/i.test(path) ? undefined : generateId(path);
+            case 'fuzzy':
+                if (state.customIds.has(path)) return state.customIds.get(path);
+                if (state.namedElements.has(path)) return path;
+                if (state.targets.has(path)) return state.targets.get(path);
+                return generateId(path);
+            default:
+                return undefined;
+        }
+    }
+
+    // =========================================================================
+    // Element Exporters
+    // =========================================================================
+
+    private exportBlocks(elements: OrgElement[], state: MarkdownExportState): string {
+        return elements
+            .map(element => this.exportElement(element, state))
+            .filter(block => block.trim())
+            .join('\n\n');
+    }
+
+    private exportHeadline(headline: HeadlineElement, state: MarkdownExportState): string {
+        const { level } = headline.properties;
+        const customId = headline.properties.customId || headline.propertiesDrawer?.CUSTOM_ID;
+        const id = customId ||
+            headline.properties.id ||
+            generateId(headline.properties.rawValue);
+
+        let title = headline.properties.title
+            ? exportObjects(headline.properties.title, this, state)
+            : escapeMarkdown(headline.properties.rawValue);
+
+        if (headline.properties.priority && state.options.includePriority === true) {
+            title = `[#${headline.properties.priority}] ${title}`;
+        }
+        if (headline.properties.todoKeyword && state.options.includeTodo !== false) {
+            title = `${headline.properties.todoKeyword} ${title}`;
+        }
+        if (state.options.sectionNumbers) {
+            title = `${generateSectionNumber(level, state)} ${title}`;
+        }
+        if (headline.properties.tags.length > 0 && state.options.includeTags !== false) {
+            title += ` :${headline.properties.tags.map(escapeMarkdown).join(':')}:`;
+        }
+
+        const body = [
+            headline.section ? this.exportSection(headline.section, state) : '',
+            ...headline.children
+                .filter(child => shouldExport(child, state.options))
+                .map(child => this.exportHeadline(child, state)),
+        ].filter(part => part.trim()).join('\n\n');
+
+        // Below the H: level, headlines become list items (as in ox-md)
+        const maxLevel = state.options.headlineLevel || 0;
+        if (maxLevel > 0 && level > maxLevel) {
+            return body ? `- ${title}\n\n${indent(body, '  ')}` : `- ${title}`;
+        }
+
+        const hashes = '#'.repeat(Math.min(level + state.headlineOffset, 6));
+        const anchored = customId !== undefined
+            || state.referencedIds.has(id)
+            || !!state.options.toc;
+        let heading: string;
+        if (!anchored) {
+            heading = `${hashes} ${title}`;
+        } else if (state.flavor === 'hugo') {
+            heading = `${hashes} ${title} {#${id}}`;
+        } else if (state.flavor === 'myst') {
+            heading = `(${id})=\n${hashes} ${title}`;
+        } else {
+            heading = `${hashes} <a id="${id}"></a>${title}`;
+        }
+
+        return body ? `${heading}\n\n${body}` : heading;
+    }
+
+    private exportSection(section: SectionElement, state: MarkdownExportState): string {
+        return this.exportBlocks(section.children, state);
+    }
+
+    private exportParagraph(paragraph: ParagraphElement, state: MarkdownExportState): string {
+        const figure = this.exportFigure(paragraph, state);
+        if (figure !== undefined) {
+            return figure;
+        }
+
+        const content = exportObjects(paragraph.children, this, state)
+            // Leading indentation would turn continuation lines into code
+            .replace(/\n[ \t]+/g, '\n')
+            .trim();
+        return this.withAnchor(paragraph, content, state);
+    }
+
+    /**
+     * A paragraph holding only an image link, rendered as a figure
+     */
+    private exportFigure(paragraph: ParagraphElement, state: MarkdownExportState): string | undefined {
+        const objects = paragraph.children.filter(obj =>
+            !(obj.type === 'plain-text' && !(obj as PlainTextObject).properties.value.trim())
+        );
+        if (objects.length !== 1 || objects[0].type !== 'link') return undefined;
+        const link = objects[0] as LinkObject;
+        if (!IMAGE_EXTENSIONS.test(link.properties.path) || link.children?.length) return undefined;
+
+        const src = link.properties.path.replace(/^file:/, '');
+        const caption = captionOf(paragraph);
+        const name = paragraph.affiliated?.name;
+        const width = paragraph.affiliated?.attr?.html?.width;
+        const alt = paragraph.affiliated?.attr?.html?.alt || caption || '';
+
+        if (state.flavor === 'myst') {
+            if (!caption && !name && !width) return `![${alt}](${src})`;
+            return directive('figure', src, { name, width, alt: alt || undefined }, caption || '');
+        }
+        if (state.flavor === 'hugo') {
+            const params = [`src="${src}"`];
+            if (alt) params.push(`alt="${alt.replace(/"/g, '\\"')}"`);
+            if (caption) params.push(`caption="${caption.replace(/"/g, '\\"')}"`);
+            if (width) params.push(`width="${width}"`);
+            return this.withAnchor(paragraph, `{{< figure ${params.join(' ')} >}}`, state);
+        }
+        const title = caption ? ` "${caption.replace(/"/g, '\\"')}"` : '';
+        return this.withAnchor(paragraph, `![${alt}](${src}${title})`, state);
+    }
+
+    /**
+     * Prefix an element with an anchor for its #+NAME:, if it has one
+     */
+    private withAnchor(element: OrgElement, content: string, state: MarkdownExportState): string {
+        const name = element.affiliated?.name;
+        if (!name) return content;
+        return state.flavor === 'myst'
+            ? `(${name})=\n${content}`
+            : `<a id="${name}"></a>\n\n${content}`;
+    }
+
+    private exportSrcBlock(block: SrcBlockElement, state: MarkdownExportState): string {
+        // Parse :exports header argument
+        const params = block.properties.parameters || '';
+        const exportsMatch = params.match(/:exports\s+(\w+)/i);
+        const exports = exportsMatch ? exportsMatch[1].toLowerCase() : 'both';
+
+        if (exports === 'none') {
+            state.skipNextResults = true;
+            return '';
+        }
+        if (exports === 'results') {
+            state.skipNextResults = false;
+            return '';
+        }
+        state.skipNextResults = exports === 'code';
+
+        const lang = block.properties.language || '';
+        const code = block.properties.value.replace(/\n$/, '');
+        const caption = captionOf(block);
+        const name = block.affiliated?.name;
+
+        if (state.flavor === 'myst' && (caption || name)) {
+            return directive('code-block', lang, { caption, name }, code);
+        }
+
+        const ticks = fence(code);
+        const fenced = `${ticks}${lang}\n${code}\n${ticks}`;
+        const captioned = caption ? `${fenced}\n\n*${escapeMarkdown(caption)}*` : fenced;
+        return this.withAnchor(block, captioned, state);
+    }
+
+    private exportExampleBlock(block: ExampleBlockElement, state: MarkdownExportState): string {
+        const content = block.properties.value.replace(/\n$/, '');
+        const ticks = fence(content);
+        return this.withAnchor(block, `${ticks}\n${content}\n${ticks}`, state);
+    }
+
+    private exportQuoteBlock(block: QuoteBlockElement, state: MarkdownExportState): string {
+        const content = this.exportBlocks(block.children, state);
+        return content.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    }
+
+    private exportSpecialBlock(block: SpecialBlockElement, state: MarkdownExportState): string {
+        const blockType = block.properties.blockType.toLowerCase();
+        const content = this.exportBlocks(block.children, state);
+
+        if (state.flavor === 'myst') {
+            if (MYST_ADMONITIONS.has(blockType)) {
+                return directive(blockType, '', { name: block.affiliated?.name }, content);
+            }
+            return directive('div', '', { class: blockType }, content);
+        }
+
+        if (GFM_ALERTS.has(blockType)) {
+            const alert = `[!${blockType.toUpperCase()}]\n${content}`;
+            return alert.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+        }
+        return content;
+    }
+
+    private exportVerseBlock(block: VerseBlockElement): string {
+        // Keep the verse's line breaks as hard breaks
+        return block.properties.value
+            .replace(/\n+$/, '')
+            .split('\n')
+            .map(line => escapeMarkdown(line.trim()))
+            .join('\\\n');
+    }
+
+    private exportLatexEnvironment(env: LatexEnvironmentElement, state: MarkdownExportState): string {
+        const value = env.properties.value.trim();
+        // MyST's amsmath extension reads environments directly
+        if (state.flavor === 'myst') {
+            return this.withAnchor(env, value, state);
+        }
+        return this.withAnchor(env, `$$\n${value}\n$$`, state);
+    }
+
+    private exportTable(table: TableElement, state: MarkdownExportState): string {
+        if (state.options.includeTables === false) {
+            return '';
+        }
+
+        if (table.properties.tableType === 'table.el') {
+            const value = (table.properties.value || '').replace(/\n$/, '');
+            const ticks = fence(value);
+            return `${ticks}\n${value}\n${ticks}`;
+        }
+
+        // Markdown tables have exactly one header row: the first row, which
+        // is also the header in org when a rule follows it
+        const rows = table.children
+            .filter(row => row.properties.rowType !== 'rule')
+            .map(row => this.exportTableRow(row, state));
+        if (rows.length === 0) {
+            return '';
+        }
+        const header = rows[0];
+        const body = rows.slice(1);
+
+        const columns = Math.max(...rows.map(row => row.length));
+        const widths: number[] = [];
+        for (let col = 0; col < columns; col++) {
+            widths.push(Math.max(3, ...rows.map(row => (row[col] || '').length)));
+        }
+        const line = (cells: string[]) =>
+            `| ${widths.map((width, col) => (cells[col] || '').padEnd(width)).join(' | ')} |`;
+
+        const markdown = [
+            line(header),
+            `| ${widths.map(width => '-'.repeat(width)).join(' | ')} |`,
+            ...body.map(line),
+        ].join('\n');
+
+        const caption = captionOf(table);
+        const name = table.affiliated?.name;
+        if (state.flavor === 'myst' && (caption || name)) {
+            return directive('table', caption || '', { name }, markdown);
+        }
+        const captioned = caption ? `${markdown}\n\n*${escapeMarkdown(caption)}*` : markdown;
+        return this.withAnchor(table, captioned, state);
+    }
+
+    private exportTableRow(row: TableRowElement, state: MarkdownExportState): string[] {
+        return row.children.map(cell => {
+            const content = cell.children
+                ? exportObjects(cell.children, this, state)
+                : escapeMarkdown(cell.properties.value);
+            return content.trim().replace(/\|/g, '\\|');
+        });
+    }
+
+    private exportPlainList(list: PlainListElement, state: MarkdownExportState): string {
+        let counter = 0;
+        return list.children.map(item => {
+            const ordered = /^(\d+|[A-Za-z])[.)]$/.test(item.properties.bullet);
+            counter = item.properties.counter ?? counter + 1;
+            return this.exportListItem(item, state, ordered ? `${counter}.` : '-');
+        }).join('\n');
+    }
+
+    private exportListItem(item: ItemElement, state: MarkdownExportState, marker: string): string {
+        let lead = '';
+        if (item.properties.checkbox) {
+            lead = item.properties.checkbox === 'on' ? '[x] ' : '[ ] ';
+        }
+        if (item.properties.tag) {
+            lead += `**${exportObjects(item.properties.tag, this, state).trim()}**: `;
+        }
+
+        // Nested lists stay tight; other blocks are separated by a blank line
+        const parts: string[] = [];
+        for (const child of item.children) {
+            const block = this.exportElement(child, state);
+            if (!block.trim()) continue;
+            if (parts.length > 0) {
+                parts.push(child.type === 'plain-list' ? '\n' : '\n\n');
+            }
+            parts.push(block);
+        }
+        const body = parts.join('');
+        const continuation = ' '.repeat(marker.length + 1);
+        const [first, ...rest] = body.split('\n');
+        const tail = rest.length > 0 ? '\n' + indent(rest.join('\n'), continuation) : '';
+        return `${marker} ${lead}${first ?? ''}${tail}`.trimEnd();
+    }
+
+    private exportDrawer(drawer: DrawerElement, state: MarkdownExportState): string {
+        const drawerName = drawer.properties.name.toUpperCase();
+        const includeDrawers = state.options.includeDrawers;
+
+        if (includeDrawers === false || drawerName === 'PROPERTIES') {
+            return '';
+        }
+        if (Array.isArray(includeDrawers) && !includeDrawers.some(d => d.toUpperCase() === drawerName)) {
+            return '';
+        }
+        if (drawerName === 'LOGBOOK' && state.options.includeClocks === false) {
+            return '';
+        }
+        return this.exportBlocks(drawer.children, state);
+    }
+
+    private exportFixedWidth(element: FixedWidthElement, state: MarkdownExportState): string {
+        // Check if we should skip this results block (based on :exports header)
+        if (state.skipNextResults) {
+            state.skipNextResults = false;
+            return '';
+        }
+        if (state.options.fixedWidth === false) {
+            return '';
+        }
+        const content = element.properties.value.replace(/\n$/, '');
+        const ticks = fence(content);
+        return `${ticks}\n${content}\n${ticks}`;
+    }
+
+    /**
+     * Whether raw output for a backend (export blocks and snippets) belongs
+     * in this flavor's output
+     */
+    private acceptsRaw(backend: string, state: MarkdownExportState): boolean {
+        const name = backend.toLowerCase();
+        if (name === 'md' || name === 'markdown' || name === state.flavor) return true;
+        // Markdown passes inline HTML through (MyST uses the raw directive)
+        return name === 'html' && state.flavor !== 'myst';
+    }
+
+    private exportExportBlock(block: ExportBlockElement, state: MarkdownExportState): string {
+        const backend = block.properties.backend.toLowerCase();
+        const value = block.properties.value.replace(/\n$/, '');
+        if (this.acceptsRaw(backend, state)) {
+            return value;
+        }
+        if (state.flavor === 'myst' && (backend === 'html' || backend === 'latex')) {
+            return directive('raw', backend, {}, value);
+        }
+        return '';
+    }
+
+    // =========================================================================
+    // Object Exporters
+    // =========================================================================
+
+    private exportLink(link: LinkObject, state: MarkdownExportState): string {
+        const { linkType, path, rawLink } = link.properties;
+
+        if (linkType && CITATION_LINK_TYPES.has(linkType.toLowerCase())) {
+            return this.exportCitationLink(link, state);
+        }
+        if (linkType === 'bibliography' || linkType === 'bibliographystyle' || linkType === 'bibstyle') {
+            // Metadata links; the bibliography is generated separately
+            return '';
+        }
+
+        const description = link.children?.length ? exportObjects(link.children, this, state) : '';
+
+        // Images
+        if (IMAGE_EXTENSIONS.test(path) && !description) {
+            return `![](${path.replace(/^file:/, '')})`;
+        }
+
+        const internal = this.internalTarget(link, state);
+        if (internal !== undefined) {
+            // MyST fills in the target's title or number for an empty link
+            if (!description && state.flavor === 'myst') {
+                return `[](#${internal})`;
+            }
+            const text = description || escapeMarkdown(path.replace(/^[*#]/, ''));
+            return `[${text}](#${internal})`;
+        }
+
+        let href: string;
+        switch (linkType) {
+            case 'http':
+            case 'https':
+                href = path;
+                if (!description) return `<${href}>`;
+                break;
+            case 'file':
+                href = this.exportFileHref(link, state);
+                break;
+            case 'mailto':
+                href = `mailto:${path}`;
+                break;
+            default:
+                href = rawLink || path;
+        }
+        return `[${description || escapeMarkdown(path)}](${href})`;
+    }
+
+    /**
+     * Link target for another file: .org becomes .md (a relref shortcode
+     * for Hugo) and a heading search becomes an anchor
+     */
+    private exportFileHref(link: LinkObject, state: MarkdownExportState): string {
+        const { path, searchOption } = link.properties;
+        const [filePart, ...searchParts] = path.replace(/^file:/, '').split('::');
+        const search = (searchOption ?? searchParts.join('::')).trim();
+        const isOrg = /\.org$/i.test(filePart);
+        const file = filePart.replace(/\.org$/i, '.md');
+
+        let anchor = '';
+        if (search.startsWith('*')) {
+            anchor = `#${generateId(search.slice(1).trim())}`;
+        } else if (search.startsWith('#')) {
+            anchor = search;
+        } else if (search && !/^\d+$/.test(search)) {
+            anchor = `#${generateId(search)}`;
+        }
+
+        if (state.flavor === 'hugo' && isOrg) {
+            return `{{< relref "${file}${anchor}" >}}`;
+        }
+        return `${file}${anchor}`;
+    }
+
+    /**
+     * Export a citation link (cite:key, citep:key, etc.)
+     */
+    private exportCitationLink(link: LinkObject, state: MarkdownExportState): string {
+        const { linkType, path } = link.properties;
+        const command = linkType?.toLowerCase() || 'cite';
+        const parsed = parseCitationsFromLine(`${command}:${path}`)[0];
+        const keys = parsed
+            ? parsed.references.map(r => r.key)
+            : path.split(/[,;]/).map(k => k.replace(/^&/, '').trim()).filter(Boolean);
+        const style = parsed ? getNormalizedStyle(parsed) : 'parenthetical';
+        return this.formatCitation(keys, style, state);
+    }
+
+    /**
+     * Export an org-cite citation ([cite/t:@key])
+     */
+    private exportCitation(citation: CitationObject, state: MarkdownExportState): string {
+        const { style, keys } = citation.properties;
+        if (!keys || keys.length === 0) {
+            return escapeMarkdown(citation.properties.rawValue || '');
+        }
+        let normalized: string = 'parenthetical';
+        if (style === 't' || style === 'text') normalized = 'textual';
+        else if (style === 'a' || style === 'author') normalized = 'author';
+        else if (style === 'na' || style === 'noauthor' || style === 'year') normalized = 'year';
+        return this.formatCitation(keys, normalized, state);
+    }
+
+    /**
+     * Citation in the flavor's syntax: a `{cite}` role for MyST, formatted
+     * text when a bibliography is loaded, otherwise Pandoc `[@key]`
+     */
+    private formatCitation(keys: string[], style: string, state: MarkdownExportState): string {
+        state.hasCitations = true;
+
+        if (state.flavor === 'myst') {
+            const role = style === 'textual' ? 'cite:t'
+                : style === 'author' ? 'cite:author'
+                : style === 'year' ? 'cite:year'
+                : 'cite:p';
+            return `{${role}}\`${keys.join(',')}\``;
+        }
+
+        if (state.citationProcessor) {
+            const formatted = state.citationProcessor.formatCitationByKeys(
+                keys,
+                style === 'numeric' ? 'parenthetical' : style as 'textual' | 'parenthetical' | 'author' | 'year'
+            );
+            return escapeMarkdown(formatted.text);
+        }
+
+        if (style === 'textual' || style === 'author') {
+            return keys.map(k => `@${k}`).join('; ');
+        }
+        if (style === 'year') {
+            return `[${keys.map(k => `-@${k}`).join('; ')}]`;
+        }
+        return `[${keys.map(k => `@${k}`).join('; ')}]`;
+    }
+
+    private exportTimestamp(ts: TimestampObject, state: ExportState): string {
+        if (!state.options.timestamps || state.options.includeTimestamps === false) {
+            return '';
+        }
+        return ts.properties.rawValue;
+    }
+
+    private exportLatexFragment(fragment: LatexFragmentObject, state: MarkdownExportState): string {
+        const value = fragment.properties.value;
+        switch (fragment.properties.fragmentType) {
+            case 'inline-math': {
+                const inner = value.startsWith('$') ? value.slice(1, -1) : value.slice(2, -2);
+                return state.flavor === 'myst' ? `{math}\`${inner}\`` : `$${inner}$`;
+            }
+            case 'display-math': {
+                const inner = value.slice(2, -2);
+                return `$$${inner}$$`;
+            }
+            default:
+                return value;
+        }
+    }
+
+    private exportScript(
+        obj: SubscriptObject | SuperscriptObject,
+        tag: 'sub' | 'sup',
+        state: MarkdownExportState
+    ): string {
+        const content = exportObjects(obj.children, this, state);
+        if (shouldRenderAsLiteral(obj, state.options)) {
+            // Intraword underscores are literal in CommonMark
+            return `${tag === 'sub' ? '_' : '^'}${content}`;
+        }
+        return state.flavor === 'myst' ? `{${tag}}\`${content}\`` : `<${tag}>${content}</${tag}>`;
+    }
+
+    private exportFootnoteReference(ref: FootnoteReferenceObject, state: MarkdownExportState): string {
+        if (state.options.includeFootnotes === false || state.options.footnotes === 'none') {
+            return '';
+        }
+        // Inline footnotes without a label are numbered apart from [fn:N]
+        const label = ref.properties.label || `inline-${++state.footnoteCounter}`;
+        if (ref.properties.referenceType === 'inline' && ref.children) {
+            state.inlineFootnotes.set(label, ref.children);
+        }
+
+        const existing = state.footnotes.get(label);
+        if (existing) {
+            existing.references++;
+        } else {
+            state.footnotes.set(label, { references: 1 });
+        }
+        if (!state.footnoteOrder.includes(label)) {
+            state.footnoteOrder.push(label);
+        }
+        return `[^${footnoteLabel(label)}]`;
+    }
+
+    private exportMacro(obj: MacroObject, state: ExportState): string {
+        if (!state.options.expandMacros) {
+            return `{{{${obj.properties.key}(${obj.properties.args.join(',')})}}}`;
+        }
+        const macros = { ...BUILTIN_MACROS, ...state.options.macros };
+        return expandMacro(obj.properties.key, obj.properties.args, macros);
+    }
+
+    // =========================================================================
+    // Document Structure
+    // =========================================================================
+
+    private generateToc(state: MarkdownExportState): string {
+        const maxLevel = typeof state.options.toc === 'number' ? state.options.toc : 3;
+
+        if (state.flavor === 'myst') {
+            return directive('contents', '', { depth: String(maxLevel) }, '');
+        }
+
+        const entries = state.tocEntries
+            .filter(entry => entry.level <= maxLevel)
+            .map(entry => `${'  '.repeat(entry.level - 1)}- [${escapeMarkdown(entry.title)}](#${entry.id})`);
+        if (entries.length === 0) {
+            return '';
+        }
+        const hashes = '#'.repeat(Math.min(1 + state.headlineOffset, 6));
+        return `${hashes} Table of Contents\n\n${entries.join('\n')}`;
+    }
+
+    private exportFootnotes(state: MarkdownExportState): string {
+        const definitions: string[] = [];
+        for (const label of state.footnoteOrder) {
+            const inline = state.inlineFootnotes.get(label);
+            const text = inline
+                ? exportObjects(inline, this, state).trim()
+                : this.exportBlocks((state.footnotes.get(label)?.definition ?? []) as OrgElement[], state);
+            if (!text) continue;
+            const [first, ...rest] = text.split('\n');
+            const tail = rest.length > 0 ? '\n' + indent(rest.join('\n'), '    ') : '';
+            definitions.push(`[^${footnoteLabel(label)}]: ${first}${tail}`);
+        }
+        return definitions.join('\n');
+    }
+
+    private exportBibliography(state: MarkdownExportState): string {
+        if (state.flavor === 'myst') {
+            return directive('bibliography', '', {}, '');
+        }
+        // citation-js renders the reference list as HTML, which Markdown passes through
+        return state.citationProcessor?.generateBibliography() ?? '';
+    }
+}
+
+// =============================================================================
+// Export Function
+// =============================================================================
+
+/**
+ * Export an org document to Markdown
+ */
+export function exportToMarkdown(
+    doc: OrgDocumentNode,
+    options?: Partial<MarkdownExportOptions>
+): string {
+    if (options?.excludeNoteFootnotes !== false) {
+        stripNoteFootnotes(doc);
+    }
+    const backend = new MarkdownExportBackend();
+    return backend.exportDocument(doc, options);
+}
@@ -0,0 +1,481 @@
+/**
+ * ODT export backend for org-mode documents
+ *
+ * Writes OpenDocument Text directly: content.xml with automatic styles for
+ * character formatting and alignment, common paragraph styles in styles.xml,
+ * images under Pictures/ and math as embedded MathML formula objects. Style
+ * names follow LibreOffice's defaults (Text body, Heading 1, Quotations, ...),
+ * so a reference .odt made in LibreOffice restyles the output.
+ */
+
+import type { OrgDocumentNode } from './orgElementTypes';
+import {
+    OfficeExportBackend,
+    OfficeExportOptions,
+    OfficeExportState,
+    OfficeRunStyle,
+    OfficeParagraph,
+    OfficeList,
+    OfficeImage,
+    OfficeTableRow,
+    OfficeTocEntry,
+    OfficePart,
+    EMU_PER_INCH,
+    escapeXml,
+    readReferenceParts,
+} from './orgExportOffice';
+import { latexToMathml } from './latexMath';
+import { stripNoteFootnotes } from './orgNotes';
+
+const NS = {
+    office: 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+    style: 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+    text: 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+    table: 'urn:oasis:names:tc:opendocument:xmlns:table:1.0',
+    draw: 'urn:oasis:names:tc:opendocument:xmlns:drawing:1.0',
+    fo: 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+    xlink: 'http://www.w3.org/1999/xlink',
+    dc: 'http://purl.org/dc/elements/1.1/',
+    meta: 'urn:oasis:names:tc:opendocument:xmlns:meta:1.0',
+    svg: 'urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0',
+    manifest: 'urn:oasis:names:tc:opendocument:xmlns:manifest:1.0',
+};
+
+const NAMESPACES = Object.entries(NS)
+    .filter(([prefix]) => prefix !== 'manifest')
+    .map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`)
+    .join(' ');
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+/** ODF paragraph style for each of the walker's (pandoc) style names */
+const PARAGRAPH_STYLES: Record<string, string> = {
+    BodyText: 'Text_20_body',
+    FirstParagraph: 'First_20_paragraph',
+    Compact: 'Compact',
+    Title: 'Title',
+    Subtitle: 'Subtitle',
+    Author: 'Author',
+    Date: 'Date',
+    BlockText: 'Quotations',
+    SourceCode: 'Preformatted_20_Text',
+    FootnoteText: 'Footnote',
+    Figure: 'Figure_20_Image',
+    CaptionedFigure: 'Figure_20_Image',
+    ImageCaption: 'Figure',
+    TableCaption: 'Table',
+    DefinitionTerm: 'Definition_20_Term',
+    Definition: 'Definition_20_Definition',
+    Bibliography: 'Bibliography_20_1',
+};
+
+/**
+ * Options for ODT export
+ */
+export type OdtExportOptions = OfficeExportOptions;
+
+/**
+ * Extended export state for ODT
+ */
+interface OdtExportState extends OfficeExportState {
+    /** Automatic text styles (T1, T2, ...) by formatting key */
+    textStyles: Map<string, string>;
+    /** Automatic paragraph styles (P1, P2, ...) by parent and properties */
+    paragraphStyles: Map<string, { name: string; xml: string }>;
+    /** MathML formula objects */
+    formulas: string[];
+    tableCount: number;
+}
+
+/**
+ * Text with ODF whitespace markup: ODF collapses runs of spaces, so the
+ * extra spaces and leading spaces become <text:s/>
+ */
+function odfText(value: string): string {
+    const space = (count: number) => (count === 1 ? '<text:s/>' : `<text:s text:c="${count}"/>`);
+    return escapeXml(value)
+        .replace(/^ +/, spaces => space(spaces.length))
+        .replace(/ {2,}/g, spaces => ` ${space(spaces.length - 1)}`)
+        .replace(/\t/g, '<text:tab/>');
+}
+
+function inches(emu: number): string {
+    return `${(emu / EMU_PER_INCH).toFixed(4)}in`;
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+function paragraphStyle(name: string, display: string, parent: string, props = '', textProps = '', extra = ''): string {
+    return `<style:style style:name="${name}" style:display-name="${display}" style:family="paragraph" style:parent-style-name="${parent}" style:class="text"${extra}>` +
+        (props ? `<style:paragraph-properties ${props}/>` : '') +
+        (textProps ? `<style:text-properties ${textProps}/>` : '') +
+        '</style:style>';
+}
+
+const MONO = 'style:font-name="Liberation Mono" fo:font-family="\'Liberation Mono\'" fo:font-size="10pt"';
+const HEADING_SIZES = ['16pt', '14pt', '12pt', '12pt', '11pt', '11pt', '11pt', '11pt', '11pt'];
+
+/**
+ * The default styles.xml
+ */
+function stylesXml(): string {
+    const styles = [
+        '<style:default-style style:family="paragraph"><style:paragraph-properties fo:orphans="2" fo:widows="2"/>' +
+        '<style:text-properties fo:font-size="12pt" style:font-name="Liberation Serif" fo:font-family="\'Liberation Serif\'" fo:language="en" fo:country="US"/></style:default-style>',
+        '<style:style style:name="Standard" style:family="paragraph" style:class="text"/>',
+        paragraphStyle('Text_20_body', 'Text body', 'Standard', 'fo:margin-top="0.0835in" fo:margin-bottom="0.0835in"'),
+        paragraphStyle('First_20_paragraph', 'First paragraph', 'Text_20_body', '', '', ' style:next-style-name="Text_20_body"'),
+        paragraphStyle('Compact', 'Compact', 'Text_20_body', 'fo:margin-top="0.025in" fo:margin-bottom="0.025in"'),
+        paragraphStyle('Title', 'Title', 'Standard', 'fo:text-align="center" fo:margin-top="0.33in" fo:margin-bottom="0.17in" fo:keep-with-next="always"', 'fo:font-size="18pt" fo:font-weight="bold"'),
+        paragraphStyle('Subtitle', 'Subtitle', 'Title', '', 'fo:font-size="15pt" fo:font-weight="normal"'),
+        paragraphStyle('Author', 'Author', 'Standard', 'fo:text-align="center" fo:keep-with-next="always"'),
+        paragraphStyle('Date', 'Date', 'Standard', 'fo:text-align="center" fo:keep-with-next="always"'),
+        paragraphStyle('Heading', 'Heading', 'Standard', 'fo:margin-top="0.1665in" fo:margin-bottom="0.0835in" fo:keep-with-next="always"', 'fo:font-weight="bold" fo:color="#4f81bd"', ' style:next-style-name="First_20_paragraph"'),
+        ...HEADING_SIZES.map((size, index) => paragraphStyle(
+            `Heading_20_${index + 1}`,
+            `Heading ${index + 1}`,
+            'Heading',
+            '',
+            `fo:font-size="${size}"${index >= 3 ? ' fo:font-style="italic"' : ''}`,
+            ` style:default-outline-level="${index + 1}"`,
+        )),
+        paragraphStyle('Quotations', 'Quotations', 'Text_20_body', 'fo:margin-left="0.33in" fo:margin-right="0.33in"'),
+        paragraphStyle('Preformatted_20_Text', 'Preformatted Text', 'Standard', 'fo:background-color="#f8f8f8"', MONO),
+        paragraphStyle('Footnote', 'Footnote', 'Standard', 'fo:margin-left="0.2in" fo:text-indent="-0.2in"', 'fo:font-size="10pt"'),
+        paragraphStyle('Figure_20_Image', 'Figure Image', 'Standard', 'fo:text-align="center"'),
+        paragraphStyle('Caption', 'Caption', 'Standard', 'fo:margin-top="0in" fo:margin-bottom="0.0835in"', 'fo:font-style="italic"'),
+        paragraphStyle('Figure', 'Figure', 'Caption'),
+        paragraphStyle('Table', 'Table', 'Caption', 'fo:keep-with-next="always"'),
+        paragraphStyle('Definition_20_Term', 'Definition Term', 'Standard', 'fo:keep-with-next="always"', 'fo:font-weight="bold"'),
+        paragraphStyle('Definition_20_Definition', 'Definition Definition', 'Standard', 'fo:margin-left="0.33in"'),
+        paragraphStyle('Bibliography_20_1', 'Bibliography 1', 'Standard', 'fo:margin-left="0.33in" fo:text-indent="-0.33in"'),
+        paragraphStyle('Contents_20_Heading', 'Contents Heading', 'Heading', '', 'fo:font-size="16pt"'),
+        ...[1, 2, 3, 4, 5, 6].map(level => paragraphStyle(
+            `Contents_20_${level}`,
+            `Contents ${level}`,
+            'Standard',
+            `fo:margin-left="${((level - 1) * 0.2).toFixed(1)}in"`,
+        )),
+        `<style:style style:name="Source_20_Text" style:display-name="Source Text" style:family="text"><style:text-properties ${MONO}/></style:style>`,
+        '<style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text">' +
+        '<style:text-properties fo:color="#1f4e79" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>',
+    ];
+    return XML_DECLARATION +
+        `<office:document-styles ${NAMESPACES} office:version="1.3">` +
+        '<office:font-face-decls>' +
+        '<style:font-face style:name="Liberation Serif" svg:font-family="\'Liberation Serif\'"/>' +
+        '<style:font-face style:name="Liberation Mono" svg:font-family="\'Liberation Mono\'" style:font-pitch="fixed"/>' +
+        '</office:font-face-decls>' +
+        `<office:styles>${styles.join('')}</office:styles>` +
+        '<office:automatic-styles><style:page-layout style:name="pm1">' +
+        '<style:page-layout-properties fo:page-width="8.5in" fo:page-height="11in" fo:margin-top="1in" fo:margin-bottom="1in" fo:margin-left="1in" fo:margin-right="1in"/>' +
+        '</style:page-layout></office:automatic-styles>' +
+        '<office:master-styles><style:master-page style:name="Standard" style:page-layout-name="pm1"/></office:master-styles>' +
+        '</office:document-styles>';
+}
+
+/** List styles: L1 for bullets, L2 for numbers */
+function listStylesXml(): string {
+    const bullets = ['•', '◦', '▪'];
+    const levels = (ordered: boolean) => Array.from({ length: 10 }, (_, index) => {
+        const level = index + 1;
+        const properties =
+            '<style:list-level-properties text:list-level-position-and-space-mode="label-alignment">' +
+            `<style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.25in" fo:margin-left="${(level * 0.5).toFixed(2)}in"/>` +
+            '</style:list-level-properties>';
+        return ordered
+            ? `<text:list-level-style-number text:level="${level}" style:num-suffix="." style:num-format="${['1', 'a', 'i'][index % 3]}">${properties}</text:list-level-style-number>`
+            : `<text:list-level-style-bullet text:level="${level}" text:bullet-char="${bullets[index % 3]}">${properties}</text:list-level-style-bullet>`;
+    }).join('');
+    return `<text:list-style style:name="L1">${levels(false)}</text:list-style>` +
+        `<text:list-style style:name="L2">${levels(true)}</text:list-style>`;
+}
+
+const FIXED_AUTOMATIC_STYLES =
+    '<style:style style:name="Table" style:family="table"><style:table-properties style:width="6.5in" table:align="margins"/></style:style>' +
+    '<style:style style:name="TableCell" style:family="table-cell"><style:table-cell-properties fo:padding="0.04in" fo:border="none"/></style:style>' +
+    '<style:style style:name="TableHeaderCell" style:family="table-cell"><style:table-cell-properties fo:padding="0.04in" fo:border-top="none" fo:border-left="none" fo:border-right="none" fo:border-bottom="0.5pt solid #000000"/></style:style>' +
+    '<style:style style:name="fr1" style:family="graphic"><style:graphic-properties style:vertical-pos="middle" style:vertical-rel="text"/></style:style>' +
+    listStylesXml();
+
+// =============================================================================
+// ODT Export Backend
+// =============================================================================
+
+/**
+ * Writes an org document as an OpenDocument Text package
+ */
+export class OdtExportBackend extends OfficeExportBackend {
+    public readonly name = 'odt';
+
+    protected readonly rawBackends = ['odt'];
+
+    protected createState(opts: OfficeExportOptions): OdtExportState {
+        return {
+            ...super.createState(opts),
+            textStyles: new Map(),
+            paragraphStyles: new Map(),
+            formulas: [],
+            tableCount: 0,
+        };
+    }
+
+    protected mimeType(): string {
+        return ODT_MIME_TYPE;
+    }
+
+    protected supportsImage(extension: string): boolean {
+        return super.supportsImage(extension) || extension === 'svg';
+    }
+
+    // =========================================================================
+    // Primitives
+    // =========================================================================
+
+    protected text(value: string, style: OfficeRunStyle, state: OfficeExportState): string {
+        let content = odfText(value);
+
+        const props: string[] = [];
+        if (style.bold) props.push('fo:font-weight="bold"');
+        if (style.italic) props.push('fo:font-style="italic"');
+        if (style.smallCaps) props.push('fo:font-variant="small-caps"');
+        if (style.strike) props.push('style:text-line-through-style="solid"');
+        if (style.underline) props.push('style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"');
+        if (style.verticalAlign) props.push(`style:text-position="${style.verticalAlign === 'superscript' ? 'super' : 'sub'} 58%"`);
+        if (props.length > 0) {
+            const styles = (state as OdtExportState).textStyles;
+            const key = props.join(' ');
+            let name = styles.get(key);
+            if (!name) {
+                name = `T${styles.size + 1}`;
+                styles.set(key, name);
+            }
+            content = `<text:span text:style-name="${name}">${content}</text:span>`;
+        }
+        // Hyperlinks are styled by their <text:a>
+        if (style.code) {
+            content = `<text:span text:style-name="Source_20_Text">${content}</text:span>`;
+        }
+        return content;
+    }
+
+    protected lineBreak(): string {
+        return '<text:line-break/>';
+    }
+
+    protected paragraph(content: string, props: OfficeParagraph, state: OfficeExportState): string {
+        const bookmark = props.bookmark ? this.bookmark(props.bookmark) : '';
+        const heading = props.style.match(/^Heading(\d)$/);
+        if (heading) {
+            return `<text:h text:style-name="Heading_20_${heading[1]}" text:outline-level="${heading[1]}">${bookmark}${content}</text:h>`;
+        }
+
+        let style = PARAGRAPH_STYLES[props.style] ?? props.style;
+        const properties: string[] = [];
+        if (props.align) properties.push(`fo:text-align="${props.align === 'left' ? 'start' : props.align === 'right' ? 'end' : 'center'}"`);
+        if (props.rule) properties.push('fo:border-bottom="0.5pt solid #000000" fo:padding-bottom="0.05in"');
+        if (props.keepNext) properties.push('fo:keep-with-next="always"');
+        if (properties.length > 0) {
+            style = this.paragraphStyle(style, properties.join(' '), state as OdtExportState);
+        }
+        return `<text:p text:style-name="${style}">${bookmark}${content}</text:p>`;
+    }
+
+    /**
+     * Automatic paragraph style deriving from a common one
+     */
+    private paragraphStyle(parent: string, properties: string, state: OdtExportState): string {
+        const key = `${parent} ${properties}`;
+        let style = state.paragraphStyles.get(key);
+        if (!style) {
+            const name = `P${state.paragraphStyles.size + 1}`;
+            style = {
+                name,
+                xml: `<style:style style:name="${name}" style:family="paragraph" style:parent-style-name="${parent}">` +
+                    `<style:paragraph-properties ${properties}/></style:style>`,
+            };
+            state.paragraphStyles.set(key, style);
+        }
+        return style.name;
+    }
+
+    protected hyperlink(content: string, target: { url?: string; anchor?: string }): string {
+        const href = target.anchor ? `#${target.anchor}` : target.url || '';
+        return `<text:a xlink:type="simple" xlink:href="${escapeXml(href)}" text:style-name="Internet_20_link">${content}</text:a>`;
+    }
+
+    protected bookmark(name: string): string {
+        return `<text:bookmark text:name="${escapeXml(name)}"/>`;
+    }
+
+    protected footnote(number: number, body: string): string {
+        return `<text:note text:id="ftn${number}" text:note-class="footnote">` +
+            `<text:note-citation>${number}</text:note-citation><text:note-body>${body}</text:note-body></text:note>`;
+    }
+
+    protected image(image: OfficeImage): string {
+        const href = image.name.replace(/^media\//, 'Pictures/');
+        return `<draw:frame draw:style-name="fr1" draw:name="${escapeXml(href)}" text:anchor-type="as-char" ` +
+            `svg:width="${inches(image.width)}" svg:height="${inches(image.height)}" draw:z-index="0">` +
+            `<draw:image xlink:href="${escapeXml(href)}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>` +
+            `<svg:desc>${escapeXml(image.alt)}</svg:desc></draw:frame>`;
+    }
+
+    protected math(latex: string, display: boolean, state: OfficeExportState): string | undefined {
+        const mathml = latexToMathml(latex, display);
+        if (mathml === undefined) {
+            return undefined;
+        }
+        const formulas = (state as OdtExportState).formulas;
+        formulas.push(mathml);
+        const object = `Object ${formulas.length}`;
+        return `<draw:frame draw:style-name="fr1" draw:name="${object}" text:anchor-type="as-char" draw:z-index="0">` +
+            `<draw:object xlink:href="./${object}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame>`;
+    }
+
+    protected list(items: string[], list: OfficeList): string {
+        const itemXml = items.map((item, index) =>
+            index === 0 && list.ordered && list.start !== 1
+                ? `<text:list-item text:start-value="${list.start}">${item}</text:list-item>`
+                : `<text:list-item>${item}</text:list-item>`
+        ).join('');
+        return `<text:list text:style-name="${list.ordered ? 'L2' : 'L1'}">${itemXml}</text:list>`;
+    }
+
+    protected table(rows: OfficeTableRow[], state: OfficeExportState): string {
+        const odtState = state as OdtExportState;
+        const columns = Math.max(...rows.map(row => row.cells.length));
+        const name = `Table${++odtState.tableCount}`;
+        const rowXml = (row: OfficeTableRow) => {
+            const cellStyle = row.header ? 'TableHeaderCell' : 'TableCell';
+            const cells = [...row.cells];
+            while (cells.length < columns) cells.push('<text:p text:style-name="Compact"/>');
+            return `<table:table-row>${cells.map(cell =>
+                `<table:table-cell table:style-name="${cellStyle}" office:value-type="string">${cell}</table:table-cell>`
+            ).join('')}</table:table-row>`;
+        };
+
+        const header = rows.filter(row => row.header);
+        const body = rows.filter(row => !row.header);
+        return `<table:table table:name="${name}" table:style-name="Table">` +
+            `<table:table-column table:number-columns-repeated="${columns}"/>` +
+            (header.length > 0 ? `<table:table-header-rows>${header.map(rowXml).join('')}</table:table-header-rows>` : '') +
+            body.map(rowXml).join('') +
+            '</table:table>';
+    }
+
+    /**
+     * A table of contents index, filled in with the headlines so that it
+     * reads correctly before LibreOffice updates it
+     */
+    protected tableOfContents(entries: OfficeTocEntry[], depth: number): string {
+        const templates = Array.from({ length: depth }, (_, index) =>
+            `<text:table-of-content-entry-template text:outline-level="${index + 1}" text:style-name="Contents_20_${Math.min(index + 1, 6)}">` +
+            '<text:index-entry-link-start/><text:index-entry-text/>' +
+            '<text:index-entry-tab-stop style:type="right" style:leader-char="."/><text:index-entry-page-number/>' +
+            '<text:index-entry-link-end/></text:table-of-content-entry-template>'
+        ).join('');
+        const lines = entries.map(entry =>
+            `<text:p text:style-name="Contents_20_${Math.min(entry.level, 6)}">` +
+            this.hyperlink(odfText(entry.text), { anchor: entry.anchor }) +
+            '</text:p>'
+        ).join('');
+        return '<text:table-of-content text:name="Table of Contents" text:protected="true">' +
+            `<text:table-of-content-source text:outline-level="${depth}">` +
+            '<text:index-title-template text:style-name="Contents_20_Heading">Table of Contents</text:index-title-template>' +
+            `${templates}</text:table-of-content-source>` +
+            '<text:index-body><text:index-title text:name="Table of Contents_Head">' +
+            '<text:p text:style-name="Contents_20_Heading">Table of Contents</text:p></text:index-title>' +
+            `${lines}</text:index-body></text:table-of-content>`;
+    }
+
+    // =========================================================================
+    // Package
+    // =========================================================================
+
+    protected wrapBody(body: string, officeState: OfficeExportState): string {
+        const state = officeState as OdtExportState;
+        const textStyles = [...state.textStyles].map(([props, name]) =>
+            `<style:style style:name="${name}" style:family="text"><style:text-properties ${props}/></style:style>`
+        ).join('');
+        const paragraphStyles = [...state.paragraphStyles.values()].map(style => style.xml).join('');
+        return XML_DECLARATION +
+            `<office:document-content ${NAMESPACES} office:version="1.3">` +
+            `<office:automatic-styles>${FIXED_AUTOMATIC_STYLES}${paragraphStyles}${textStyles}</office:automatic-styles>` +
+            `<office:body><office:text>${body}</office:text></office:body>` +
+            '</office:document-content>';
+    }
+
+    protected async packageParts(body: string, officeState: OfficeExportState): Promise<OfficePart[]> {
+        const state = officeState as OdtExportState;
+        const opts = state.officeOptions;
+
+        let styles = stylesXml();
+        if (opts.referenceDoc) {
+            const reference = await readReferenceParts(opts.referenceDoc, ['styles.xml']);
+            styles = reference.get('styles.xml') ?? styles;
+        }
+
+        const pictures = state.images.map(image => ({
+            path: image.name.replace(/^media\//, 'Pictures/'),
+            data: image.data,
+            mediaType: image.extension === 'svg' ? 'image/svg+xml' : `image/${image.extension}`,
+        }));
+        const formulas = state.formulas.map((mathml, index) => ({
+            path: `Object ${index + 1}/content.xml`,
+            data: XML_DECLARATION + mathml,
+        }));
+
+        const entry = (fullPath: string, mediaType: string) =>
+            `<manifest:file-entry manifest:full-path="${escapeXml(fullPath)}" manifest:media-type="${mediaType}"/>`;
+        const manifest = XML_DECLARATION +
+            `<manifest:manifest xmlns:manifest="${NS.manifest}" manifest:version="1.3">` +
+            entry('/', ODT_MIME_TYPE) +
+            entry('content.xml', 'text/xml') +
+            entry('styles.xml', 'text/xml') +
+            entry('meta.xml', 'text/xml') +
+            pictures.map(picture => entry(picture.path, picture.mediaType)).join('') +
+            formulas.map((formula, index) =>
+                entry(`Object ${index + 1}/`, 'application/vnd.oasis.opendocument.formula') +
+                entry(formula.path, 'text/xml')
+            ).join('') +
+            '</manifest:manifest>';
+
+        const meta = XML_DECLARATION +
+            `<office:document-meta ${NAMESPACES} office:version="1.3"><office:meta>` +
+            '<meta:generator>scimax</meta:generator>' +
+            (opts.title ? `<dc:title>${escapeXml(opts.title)}</dc:title>` : '') +
+            (opts.author ? `<meta:initial-creator>${escapeXml(opts.author)}</meta:initial-creator>` : '') +
+            '</office:meta></office:document-meta>';
+
+        return [
+            // The mimetype must come first, uncompressed
+            { path: 'mimetype', data: ODT_MIME_TYPE, store: true },
+            { path: 'content.xml', data: this.wrapBody(body, state) },
+            { path: 'styles.xml', data: styles },
+            { path: 'meta.xml', data: meta },
+            ...pictures.map(picture => ({ path: picture.path, data: picture.data })),
+            ...formulas,
+            { path: 'META-INF/manifest.xml', data: manifest },
+        ];
+    }
+}
+
+/**
+ * Export an org document to ODT format
+ * Returns a Buffer containing the ODT file data
+ */
+export async function exportToOdt(
+    doc: OrgDocumentNode,
+    options?: Partial<OdtExportOptions>
+): Promise<Buffer> {
+    if (options?.excludeNoteFootnotes !== false) {
+        stripNoteFootnotes(doc);
+    }
+    const backend = new OdtExportBackend();
+    return backend.exportPackage(doc, options);
+}
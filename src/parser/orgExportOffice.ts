@@ -0,0 +1,1485 @@
+/**
+ * Shared walker for the native office document writers (DOCX and ODT)
+ *
+ * OfficeExportBackend walks the org AST once for both formats: it decides
+ * which elements are exported, numbers captions and footnotes, formats
+ * citations, loads images and converts math, and hands the pieces to a small
+ * set of format primitives (paragraph, run, hyperlink, table, ...) that the
+ * OOXML and ODF subclasses implement. Paragraph and character styles use
+ * pandoc's style names, so reference documents made for pandoc work here too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import JSZip from 'jszip';
+
+import type {
+    OrgElement,
+    OrgObject,
+    OrgDocumentNode,
+    HeadlineElement,
+    SectionElement,
+    ParagraphElement,
+    SrcBlockElement,
+    ExampleBlockElement,
+    QuoteBlockElement,
+    CenterBlockElement,
+    SpecialBlockElement,
+    VerseBlockElement,
+    LatexEnvironmentElement,
+    TableElement,
+    PlainListElement,
+    ItemElement,
+    DrawerElement,
+    FixedWidthElement,
+    ExportBlockElement,
+    BoldObject,
+    ItalicObject,
+    UnderlineObject,
+    StrikeThroughObject,
+    CodeObject,
+    CommandObject,
+    VerbatimObject,
+    LinkObject,
+    TimestampObject,
+    EntityObject,
+    LatexFragmentObject,
+    SubscriptObject,
+    SuperscriptObject,
+    FootnoteReferenceObject,
+    StatisticsCookieObject,
+    TargetObject,
+    RadioTargetObject,
+    PlainTextObject,
+    InlineSrcBlockObject,
+    InlineBabelCallObject,
+    ExportSnippetObject,
+    MacroObject,
+    CitationObject,
+} from './orgElementTypes';
+import { isHeadline, isGreaterElement } from './orgElementTypes';
+
+import type {
+    ExportBackend,
+    ExportState,
+    ExportOptions,
+} from './orgExport';
+
+import {
+    createExportState,
+    generateId,
+    generateSectionNumber,
+    shouldExport,
+    expandMacro,
+    BUILTIN_MACROS,
+    collectTargets,
+    collectFootnotes,
+    parseOptionsKeyword,
+    shouldRenderAsLiteral,
+} from './orgExport';
+import { stripMathDelimiters } from './latexMath';
+
+import { CitationProcessor, CSLStyleName } from '../references/citationProcessor';
+import { parseCitationsFromLine, getNormalizedStyle } from '../references/citationParser';
+import type { BibEntry } from '../references/bibtexParser';
+import { ALL_CITATION_COMMANDS } from '../references/citationTypes';
+import { exportHookRegistry } from '../adapters/exportHooksAdapter';
+
+// Citation link types that should be processed as citations
+const CITATION_LINK_TYPES = new Set(ALL_CITATION_COMMANDS.map(c => c.toLowerCase()));
+
+// =============================================================================
+// Office Export Options
+// =============================================================================
+
+/**
+ * Options shared by the native DOCX and ODT writers
+ */
+export interface OfficeExportOptions extends ExportOptions {
+    /** Document title (from #+TITLE) */
+    title?: string;
+    /** Document author (from #+AUTHOR) */
+    author?: string;
+    /** Document date (from #+DATE) */
+    date?: string;
+    /** Reference document (.docx or .odt) whose styles the output uses */
+    referenceDoc?: string;
+    /** Enable table of contents (can be boolean or number for depth) */
+    toc?: boolean | number;
+    /** TOC depth (default: 3) */
+    tocDepth?: number;
+    /** Enable section numbering */
+    sectionNumbers?: boolean;
+    /** Base path for resolving relative paths (images) */
+    basePath?: string;
+
+    // Citation options
+    /** CSL style for citation formatting (default: apa) */
+    citationStyle?: CSLStyleName | string;
+    /** Whether to add a bibliography at the end (default: true) */
+    bibliography?: boolean;
+    /** BibTeX entries for citation processing */
+    bibEntries?: BibEntry[];
+    /** Citation processor instance (if pre-configured) */
+    citationProcessor?: CitationProcessor;
+}
+
+export const DEFAULT_OFFICE_OPTIONS: Partial<OfficeExportOptions> = {
+    toc: false,
+    tocDepth: 3,
+    sectionNumbers: true,
+    citationStyle: 'apa',
+    bibliography: true,
+};
+
+/** Width of the text block on a Letter page with 1in margins, in EMU */
+export const TEXT_WIDTH_EMU = 6.5 * 914400;
+
+/** EMU (English Metric Units) per inch, as used by OOXML drawings */
+export const EMU_PER_INCH = 914400;
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|bmp|svg)$/i;
+
+/** Special blocks written as a labelled block quote */
+const ADMONITIONS = new Set(['note', 'tip', 'important', 'warning', 'caution', 'attention', 'danger', 'hint']);
+
+// =============================================================================
+// Document Model
+// =============================================================================
+
+/**
+ * Character formatting in effect for a run of text
+ */
+export interface OfficeRunStyle {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    smallCaps?: boolean;
+    /** Monospace code (pandoc's VerbatimChar) */
+    code?: boolean;
+    /** Inside a hyperlink (pandoc's Hyperlink) */
+    link?: boolean;
+    verticalAlign?: 'superscript' | 'subscript';
+}
+
+/**
+ * Paragraph properties handed to the format's paragraph primitive
+ */
+export interface OfficeParagraph {
+    /** Paragraph style, by pandoc style name (BodyText, Heading1, ...) */
+    style: string;
+    align?: 'left' | 'center' | 'right';
+    /** Bookmark at the start of the paragraph */
+    bookmark?: string;
+    /** Draw a rule under the paragraph (horizontal rules) */
+    rule?: boolean;
+    /** Keep with the next paragraph (captions above tables, headings) */
+    keepNext?: boolean;
+}
+
+/**
+ * A plain list being written
+ */
+export interface OfficeList {
+    id: number;
+    ordered: boolean;
+    /** Nesting depth, 0 for a top-level list */
+    level: number;
+    /** First number of an ordered list */
+    start: number;
+}
+
+/**
+ * The list item whose paragraphs are being written; only the first
+ * paragraph carries the bullet or number
+ */
+export interface OfficeListItem {
+    list: OfficeList;
+    first: boolean;
+}
+
+/**
+ * An image embedded in the package
+ */
+export interface OfficeImage {
+    /** Part name inside the package, e.g. media/image1.png */
+    name: string;
+    data: Buffer;
+    extension: string;
+    /** Size in EMU */
+    width: number;
+    height: number;
+    alt: string;
+}
+
+/**
+ * A table cell's block content
+ */
+export interface OfficeTableRow {
+    cells: string[];
+    header: boolean;
+}
+
+/**
+ * A headline recorded for the table of contents
+ */
+export interface OfficeTocEntry {
+    level: number;
+    text: string;
+    anchor: string;
+}
+
+/**
+ * A file in the output package
+ */
+export interface OfficePart {
+    path: string;
+    data: string | Buffer;
+    /** Store without compression (the ODF mimetype) */
+    store?: boolean;
+}
+
+/**
+ * Extended export state for office documents
+ */
+export interface OfficeExportState extends ExportState {
+    officeOptions: OfficeExportOptions;
+    citationProcessor?: CitationProcessor;
+    /** Whether any citation was exported */
+    hasCitations: boolean;
+    /** Character formatting in effect */
+    runStyle: OfficeRunStyle;
+    /** Style of body paragraphs in the current block (BodyText, BlockText, ...) */
+    blockStyle: string;
+    blockAlign?: 'center' | 'right';
+    /** The next body paragraph follows a heading (pandoc's FirstParagraph) */
+    afterHeading: boolean;
+    listItem?: OfficeListItem;
+    /** Every list written, for the format's numbering definitions */
+    lists: OfficeList[];
+    images: OfficeImage[];
+    /** Footnote numbers by label, in order of first reference */
+    noteNumbers: Map<string, number>;
+    /** "Figure 1", "Table 2" by #+NAME of captioned elements */
+    captionLabels: Map<string, string>;
+    /** Caption labels by element, assigned before export */
+    elementLabels: Map<OrgElement, string>;
+    /** Exported headlines, for the table of contents */
+    tocHeadlines: OfficeTocEntry[];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Escape text for XML content and attribute values, dropping characters
+ * XML 1.0 does not allow
+ */
+export function escapeXml(text: string): string {
+    return text
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F￾￿]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Caption text from affiliated keywords ([short, long] uses the long one)
+ */
+function captionOf(element: OrgElement): string | undefined {
+    const caption = element.affiliated?.caption;
+    if (!caption) return undefined;
+    return Array.isArray(caption) ? caption[1] : caption;
+}
+
+/**
+ * The link of a paragraph that holds only an image link, if any
+ */
+function figureLink(paragraph: ParagraphElement): LinkObject | undefined {
+    const objects = paragraph.children.filter(obj =>
+        !(obj.type === 'plain-text' && !(obj as PlainTextObject).properties.value.trim())
+    );
+    if (objects.length !== 1 || objects[0].type !== 'link') return undefined;
+    const link = objects[0] as LinkObject;
+    if (!IMAGE_EXTENSIONS.test(link.properties.path) || link.children?.length) return undefined;
+    return link;
+}
+
+/**
+ * Pixel size of a PNG, JPEG, GIF, BMP or SVG image, read from its header
+ */
+export function imagePixelSize(data: Buffer, extension: string): { width: number; height: number } | undefined {
+    const ext = extension.toLowerCase();
+    if (ext === 'png' && data.length >= 24) {
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+    if (ext === 'gif' && data.length >= 10) {
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    }
+    if (ext === 'bmp' && data.length >= 26) {
+        return { width: data.readInt32LE(18), height: Math.abs(data.readInt32LE(22)) };
+    }
+    if (ext === 'jpg' || ext === 'jpeg') {
+        // Walk the segments to the start-of-frame marker
+        let offset = 2;
+        while (offset + 9 < data.length) {
+            if (data[offset] !== 0xFF) return undefined;
+            const marker = data[offset + 1];
+            const length = data.readUInt16BE(offset + 2);
+            if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+                return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+            }
+            offset += 2 + length;
+        }
+        return undefined;
+    }
+    if (ext === 'svg') {
+        const head = data.toString('utf-8', 0, Math.min(data.length, 4096));
+        const svg = head.match(/<svg\b[^>]*>/);
+        if (!svg) return undefined;
+        const attr = (name: string) => svg[0].match(new RegExp(`\\b${name}="([\\d.]+)(px)?"`))?.[1];
+        const width = attr('width');
+        const height = attr('height');
+        if (width && height) return { width: parseFloat(width), height: parseFloat(height) };
+        const viewBox = svg[0].match(/viewBox="[\d.-]+[\s,]+[\d.-]+[\s,]+([\d.]+)[\s,]+([\d.]+)"/);
+        if (viewBox) return { width: parseFloat(viewBox[1]), height: parseFloat(viewBox[2]) };
+    }
+    return undefined;
+}
+
+/**
+ * A :width attribute as EMU: 3in, 8cm, 300px, 50%, 0.5\textwidth; bare
+ * numbers are pixels
+ */
+function parseWidth(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const match = value.trim().match(/^([\d.]+)\s*(in|cm|mm|pt|px|%|\\(?:text|line)width)?$/);
+    if (!match) return undefined;
+    const amount = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'in': return amount * EMU_PER_INCH;
+        case 'cm': return amount * EMU_PER_INCH / 2.54;
+        case 'mm': return amount * EMU_PER_INCH / 25.4;
+        case 'pt': return amount * EMU_PER_INCH / 72;
+        case '%': return TEXT_WIDTH_EMU * amount / 100;
+        case '\\textwidth':
+        case '\\linewidth': return TEXT_WIDTH_EMU * amount;
+        default: return amount * EMU_PER_INCH / 96;
+    }
+}
+
+/**
+ * Split citation-js bibliography HTML into entries of simple markup
+ * (<i>, <b>, <sup>, <sub>), keyed by citation key
+ */
+function bibliographyEntries(html: string): { key?: string; html: string }[] {
+    const entries: { key?: string; html: string }[] = [];
+    const pattern = /<div\b[^>]*\bclass="csl-entry"[^>]*>([^]*?)<\/div>|<li\b[^>]*>([^]*?)<\/li>/g;
+    for (const match of html.matchAll(pattern)) {
+        const key = match[0].match(/^<[^>]*\bid="ref-([^"]*)"/)?.[1];
+        entries.push({ key, html: match[1] ?? match[2] });
+    }
+    return entries;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+};
+
+function decodeHtml(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+        if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+        if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+        return HTML_ENTITIES[code.toLowerCase()] ?? match;
+    });
+}
+
+// =============================================================================
+// Office Export Backend
+// =============================================================================
+
+/**
+ * Walks an org document into an office document; subclasses write the
+ * format's markup and package it
+ */
+export abstract class OfficeExportBackend implements ExportBackend {
+    public abstract readonly name: string;
+
+    /** Export snippet and block backends written raw into the output */
+    protected abstract readonly rawBackends: string[];
+
+    // =========================================================================
+    // Format primitives
+    // =========================================================================
+
+    /** A run of text with the given formatting */
+    protected abstract text(value: string, style: OfficeRunStyle, state: OfficeExportState): string;
+
+    /** A line break inside a paragraph */
+    protected abstract lineBreak(state: OfficeExportState): string;
+
+    /** A paragraph of inline content */
+    protected abstract paragraph(content: string, props: OfficeParagraph, state: OfficeExportState): string;
+
+    /** A hyperlink to a URL or to a bookmark in the document */
+    protected abstract hyperlink(content: string, target: { url?: string; anchor?: string }, state: OfficeExportState): string;
+
+    /** An empty bookmark that links can point at */
+    protected abstract bookmark(name: string, state: OfficeExportState): string;
+
+    /** A footnote reference with its note, whose body is block content */
+    protected abstract footnote(number: number, body: string, state: OfficeExportState): string;
+
+    /** An inline image */
+    protected abstract image(image: OfficeImage, state: OfficeExportState): string;
+
+    /** Inline or display math, or undefined when the LaTeX can't be converted */
+    protected abstract math(latex: string, display: boolean, state: OfficeExportState): string | undefined;
+
+    /** A list from its items' block content */
+    protected abstract list(items: string[], list: OfficeList, state: OfficeExportState): string;
+
+    /** A table from its rows' cell content */
+    protected abstract table(rows: OfficeTableRow[], state: OfficeExportState): string;
+
+    /** A table of contents listing the headlines */
+    protected abstract tableOfContents(entries: OfficeTocEntry[], depth: number, state: OfficeExportState): string;
+
+    /** The package's files, from the document body */
+    protected abstract packageParts(body: string, state: OfficeExportState): Promise<OfficePart[]>;
+
+    // =========================================================================
+    // Document
+    // =========================================================================
+
+    /**
+     * Export a document to the format's main XML part (document.xml or
+     * content.xml)
+     */
+    exportDocument(doc: OrgDocumentNode, options?: Partial<OfficeExportOptions>): string {
+        const { body, state } = this.render(doc, options);
+        return this.wrapBody(body, state);
+    }
+
+    /**
+     * Export a document to the zipped package
+     */
+    async exportPackage(doc: OrgDocumentNode, options?: Partial<OfficeExportOptions>): Promise<Buffer> {
+        const { body, state } = this.render(doc, options);
+        const parts = await this.packageParts(body, state);
+        const zip = new JSZip();
+        for (const part of parts) {
+            zip.file(part.path, part.data, {
+                compression: part.store ? 'STORE' : 'DEFLATE',
+                createFolders: false,
+            });
+        }
+        return zip.generateAsync({ type: 'nodebuffer', mimeType: this.mimeType() });
+    }
+
+    /** The package's media type */
+    protected abstract mimeType(): string;
+
+    /** The main XML part around the document body */
+    protected abstract wrapBody(body: string, state: OfficeExportState): string;
+
+    /**
+     * Resolve options and walk the document into body markup
+     */
+    protected render(doc: OrgDocumentNode, options?: Partial<OfficeExportOptions>): { body: string; state: OfficeExportState } {
+        // Parse #+OPTIONS: keyword if present
+        const optionsKeyword = doc.keywords['OPTIONS'];
+        const parsedOptions = optionsKeyword ? parseOptionsKeyword(optionsKeyword) : {};
+
+        let opts: OfficeExportOptions = {
+            ...DEFAULT_OFFICE_OPTIONS,
+            ...parsedOptions,  // OPTIONS keyword values
+            ...options,        // Explicit options override OPTIONS
+            backend: this.name,
+        };
+        // Document keywords fill in the package metadata
+        opts.title = doc.keywords['TITLE'] || opts.title;
+        opts.author = doc.keywords['AUTHOR'] || opts.author;
+        // toc:N sets the depth; an explicit tocDepth wins
+        if (typeof parsedOptions.toc === 'number' && options?.tocDepth === undefined) {
+            opts.tocDepth = parsedOptions.toc;
+        }
+
+        // Run pre-export hooks (can modify options)
+        opts = exportHookRegistry.runPreExportHooks({
+            document: doc,
+            options: opts,
+            backend: this.name,
+        }) as OfficeExportOptions;
+
+        const state = this.createState(opts);
+
+        if (opts.citationProcessor) {
+            state.citationProcessor = opts.citationProcessor;
+        } else if (opts.bibEntries && opts.bibEntries.length > 0) {
+            state.citationProcessor = new CitationProcessor({
+                style: opts.citationStyle || 'apa',
+            });
+            state.citationProcessor.loadEntries(opts.bibEntries);
+        }
+        if (doc.keywords['CSL_STYLE'] && state.citationProcessor) {
+            state.citationProcessor.setStyle(doc.keywords['CSL_STYLE']);
+        }
+
+        // Pre-process document
+        collectTargets(doc, state);
+        collectFootnotes(doc, state);
+        this.numberCaptions([doc.section, ...doc.children], state);
+
+        // Collect document-defined macros from #+MACRO: keywords
+        if (doc.keywordLists?.['MACRO']) {
+            const docMacros: Record<string, string> = {};
+            for (const macroDef of doc.keywordLists['MACRO']) {
+                const match = macroDef.match(/^(\S+)\s+(.*)$/);
+                if (match) {
+                    docMacros[match[1]] = match[2];
+                }
+            }
+            state.options.macros = { ...state.options.macros, ...docMacros };
+        }
+
+        const parts = [this.exportTitleBlock(doc, state)];
+        if (doc.section) {
+            parts.push(this.exportSection(doc.section, state));
+        }
+
+        const headlines = doc.children
+            .filter(headline => shouldExport(headline, state.options))
+            .map(headline => this.exportHeadline(headline, state))
+            .join('');
+
+        if (opts.toc) {
+            const depth = typeof opts.toc === 'number' ? opts.toc : opts.tocDepth ?? 3;
+            const entries = state.tocHeadlines.filter(entry => entry.level <= depth);
+            if (entries.length > 0) {
+                parts.push(this.tableOfContents(entries, depth, state));
+            }
+        }
+        parts.push(headlines);
+
+        if (opts.bibliography !== false && state.hasCitations && state.citationProcessor) {
+            parts.push(this.exportBibliography(state));
+        }
+
+        return { body: parts.join(''), state };
+    }
+
+    /**
+     * Fresh export state; subclasses extend it with their own bookkeeping
+     */
+    protected createState(opts: OfficeExportOptions): OfficeExportState {
+        return {
+            ...createExportState(opts),
+            officeOptions: opts,
+            hasCitations: false,
+            runStyle: {},
+            blockStyle: 'BodyText',
+            afterHeading: false,
+            lists: [],
+            images: [],
+            noteNumbers: new Map(),
+            captionLabels: new Map(),
+            elementLabels: new Map(),
+            tocHeadlines: [],
+        };
+    }
+
+    /**
+     * Number captioned tables and figures in document order, so links to
+     * them can read "Table 2" before the table itself is written
+     */
+    private numberCaptions(nodes: (OrgElement | undefined)[], state: OfficeExportState, counters = { table: 0, figure: 0 }): void {
+        for (const node of nodes) {
+            if (!node) continue;
+            if (isHeadline(node) && !shouldExport(node, state.options)) continue;
+
+            let label: string | undefined;
+            if (captionOf(node)) {
+                if (node.type === 'table') {
+                    label = `Table ${++counters.table}`;
+                } else if (node.type === 'paragraph' && figureLink(node as ParagraphElement)) {
+                    label = `Figure ${++counters.figure}`;
+                }
+            }
+            if (label) {
+                state.elementLabels.set(node, label);
+                if (node.affiliated?.name) state.captionLabels.set(node.affiliated.name, label);
+            }
+
+            if (isHeadline(node)) {
+                this.numberCaptions([node.section, ...node.children], state, counters);
+            } else if (isGreaterElement(node.type) && node.children) {
+                // Greater elements hold elements; the rest hold objects
+                this.numberCaptions(node.children as OrgElement[], state, counters);
+            }
+        }
+    }
+
+    /**
+     * Title, subtitle, author and date paragraphs
+     */
+    private exportTitleBlock(doc: OrgDocumentNode, state: OfficeExportState): string {
+        const opts = state.officeOptions;
+        const keywords = doc.keywords || {};
+        const lines: [string, string | undefined][] = [
+            ['Title', keywords['TITLE'] || opts.title],
+            ['Subtitle', keywords['SUBTITLE']],
+            ['Author', opts.includeAuthor !== false ? keywords['AUTHOR'] || opts.author : undefined],
+            ['Date', opts.includeDate !== false ? keywords['DATE'] || opts.date : undefined],
+        ];
+        return lines
+            .filter(([, value]) => value)
+            .map(([style, value]) => this.paragraph(this.plainText(value!, state), { style }, state))
+            .join('');
+    }
+
+    // =========================================================================
+    // Element Exporters
+    // =========================================================================
+
+    /**
+     * Export a single element
+     */
+    exportElement(element: OrgElement, state: ExportState): string {
+        let result = this.exportElementContent(element, state as OfficeExportState);
+
+        // Run element filter hooks
+        result = exportHookRegistry.runElementFilters(result, {
+            element,
+            backend: this.name,
+            options: state.options,
+        });
+
+        return result;
+    }
+
+    /**
+     * Export element content
+     */
+    private exportElementContent(element: OrgElement, state: OfficeExportState): string {
+        switch (element.type) {
+            case 'headline':
+                return this.exportHeadline(element as HeadlineElement, state);
+            case 'section':
+                return this.exportSection(element as SectionElement, state);
+            case 'paragraph':
+                return this.exportParagraph(element as ParagraphElement, state);
+            case 'src-block':
+                return this.exportSrcBlock(element as SrcBlockElement, state);
+            case 'example-block':
+                return this.exportCode((element as ExampleBlockElement).properties.value, state);
+            case 'quote-block':
+                return this.withBlockStyle(state, 'BlockText', undefined, () =>
+                    this.exportBlocks((element as QuoteBlockElement).children, state));
+            case 'center-block':
+                return this.withBlockStyle(state, state.blockStyle, 'center', () =>
+                    this.exportBlocks((element as CenterBlockElement).children, state));
+            case 'special-block':
+                return this.exportSpecialBlock(element as SpecialBlockElement, state);
+            case 'verse-block':
+                return this.exportVerseBlock(element as VerseBlockElement, state);
+            case 'latex-environment':
+                return this.exportLatexEnvironment(element as LatexEnvironmentElement, state);
+            case 'table':
+                return this.exportTable(element as TableElement, state);
+            case 'plain-list':
+                return this.exportPlainList(element as PlainListElement, state);
+            case 'drawer':
+                return this.exportDrawer(element as DrawerElement, state);
+            case 'horizontal-rule':
+                return this.paragraph('', { style: state.blockStyle, rule: true }, state);
+            case 'fixed-width':
+                return this.exportFixedWidth(element as FixedWidthElement, state);
+            case 'export-block':
+                return this.exportExportBlock(element as ExportBlockElement, state);
+            default:
+                // Keywords, comments, property drawers and footnote
+                // definitions (written with their references)
+                return '';
+        }
+    }
+
+    private exportBlocks(elements: OrgElement[], state: OfficeExportState): string {
+        return elements.map(element => this.exportElement(element, state)).join('');
+    }
+
+    /**
+     * Run an export with a different body paragraph style and alignment
+     */
+    private withBlockStyle(state: OfficeExportState, style: string, align: 'center' | 'right' | undefined, fn: () => string): string {
+        const saved = { style: state.blockStyle, align: state.blockAlign };
+        state.blockStyle = style;
+        state.blockAlign = align ?? state.blockAlign;
+        try {
+            return fn();
+        } finally {
+            state.blockStyle = saved.style;
+            state.blockAlign = saved.align;
+        }
+    }
+
+    /**
+     * Run an export with extra character formatting
+     */
+    private withRunStyle(state: OfficeExportState, style: OfficeRunStyle, fn: () => string): string {
+        const saved = state.runStyle;
+        state.runStyle = { ...saved, ...style };
+        try {
+            return fn();
+        } finally {
+            state.runStyle = saved;
+        }
+    }
+
+    /**
+     * A body paragraph in the current block's style
+     */
+    private bodyParagraph(content: string, state: OfficeExportState, props: Partial<OfficeParagraph> = {}): string {
+        let style = state.blockStyle;
+        if (style === 'BodyText' && state.listItem) {
+            style = 'Compact';
+        } else if (style === 'BodyText' && state.afterHeading) {
+            style = 'FirstParagraph';
+        }
+        state.afterHeading = false;
+        return this.paragraph(content, { style, align: state.blockAlign, ...props }, state);
+    }
+
+    private exportHeadline(headline: HeadlineElement, state: OfficeExportState): string {
+        const { level } = headline.properties;
+        const customId = headline.properties.customId || headline.propertiesDrawer?.CUSTOM_ID;
+        const id = customId ||
+            headline.properties.id ||
+            generateId(headline.properties.rawValue);
+
+        const parts: string[] = [];
+        const plain: string[] = [];
+        const add = (xml: string, text: string) => {
+            parts.push(xml);
+            plain.push(text);
+        };
+
+        if (state.options.sectionNumbers) {
+            const number = generateSectionNumber(level, state);
+            add(this.plainText(`${number} `, state), `${number} `);
+        }
+        if (headline.properties.todoKeyword && state.options.includeTodo !== false) {
+            const keyword = headline.properties.todoKeyword;
+            add(this.withRunStyle(state, { bold: true }, () => this.plainText(keyword, state)) + this.plainText(' ', state), `${keyword} `);
+        }
+        if (headline.properties.priority && state.options.includePriority === true) {
+            const priority = `[#${headline.properties.priority}] `;
+            add(this.plainText(priority, state), priority);
+        }
+        const title = headline.properties.title
+            ? this.exportObjects(headline.properties.title, state)
+            : this.plainText(headline.properties.rawValue, state);
+        add(title, headline.properties.rawValue);
+        if (headline.properties.tags.length > 0 && state.options.includeTags !== false) {
+            const tags = ` :${headline.properties.tags.join(':')}:`;
+            add(this.withRunStyle(state, { smallCaps: true }, () => this.plainText(tags, state)), '');
+        }
+
+        const headingLevel = Math.min(level + state.headlineOffset, 9);
+        const anchor = this.anchorName(id);
+        state.tocHeadlines.push({ level: headingLevel, text: plain.join('').trim(), anchor });
+
+        const heading = this.paragraph(parts.join(''), {
+            style: `Heading${headingLevel}`,
+            bookmark: anchor,
+            keepNext: true,
+        }, state);
+        state.afterHeading = true;
+
+        const body = [
+            headline.section ? this.exportSection(headline.section, state) : '',
+            ...headline.children
+                .filter(child => shouldExport(child, state.options))
+                .map(child => this.exportHeadline(child, state)),
+        ];
+        return heading + body.join('');
+    }
+
+    private exportSection(section: SectionElement, state: OfficeExportState): string {
+        return this.exportBlocks(section.children, state);
+    }
+
+    private exportParagraph(paragraph: ParagraphElement, state: OfficeExportState): string {
+        const figure = this.exportFigure(paragraph, state);
+        if (figure !== undefined) {
+            return figure;
+        }
+
+        const content = this.exportObjects(paragraph.children, state);
+        const name = paragraph.affiliated?.name;
+        return this.bodyParagraph(content, state, { bookmark: name ? this.anchorName(name) : undefined });
+    }
+
+    /**
+     * A paragraph holding only an image link, as a figure with its caption
+     */
+    private exportFigure(paragraph: ParagraphElement, state: OfficeExportState): string | undefined {
+        const link = figureLink(paragraph);
+        if (!link) return undefined;
+        const caption = captionOf(paragraph);
+        const image = this.loadImage(link.properties.path, paragraph, state);
+        if (!image) return undefined;
+
+        const name = paragraph.affiliated?.name;
+        const figure = this.paragraph(this.image(image, state), {
+            style: caption ? 'CaptionedFigure' : 'Figure',
+            align: 'center',
+            bookmark: name ? this.anchorName(name) : undefined,
+            keepNext: !!caption,
+        }, state);
+        if (!caption) return figure;
+        return figure + this.exportCaption(caption, state.elementLabels.get(paragraph), 'ImageCaption', state);
+    }
+
+    /**
+     * A caption paragraph: "Figure 1: text"
+     */
+    private exportCaption(caption: string, label: string | undefined, style: string, state: OfficeExportState, keepNext = false): string {
+        const prefix = label ? `${label}: ` : '';
+        return this.paragraph(this.plainText(prefix + caption, state), { style, keepNext }, state);
+    }
+
+    /**
+     * Read an image for embedding, sized from its :width attribute or its
+     * pixel size (at 96 dpi), shrunk to the text width
+     */
+    private loadImage(link: string, element: OrgElement | undefined, state: OfficeExportState): OfficeImage | undefined {
+        const filePath = link.replace(/^file:/, '');
+        if (/^[a-z]+:\/\//i.test(filePath)) return undefined;
+        const extension = path.extname(filePath).slice(1).toLowerCase();
+        if (!this.supportsImage(extension)) return undefined;
+
+        const basePath = state.officeOptions.basePath || process.cwd();
+        const resolved = path.resolve(basePath, filePath.replace(/^~(?=\/)/, process.env.HOME || '~'));
+        let data: Buffer;
+        try {
+            data = fs.readFileSync(resolved);
+        } catch {
+            return undefined;
+        }
+
+        const pixels = imagePixelSize(data, extension) ?? { width: 400, height: 300 };
+        const attrs = element?.affiliated?.attr;
+        const attr = attrs?.[this.name] ?? attrs?.org ?? attrs?.html ?? attrs?.latex;
+        let width = parseWidth(attr?.width) ?? pixels.width * EMU_PER_INCH / 96;
+        width = Math.min(width, TEXT_WIDTH_EMU);
+        const height = pixels.width > 0 ? width * pixels.height / pixels.width : width;
+
+        const image: OfficeImage = {
+            name: `media/image${state.images.length + 1}.${extension === 'jpg' ? 'jpeg' : extension}`,
+            data,
+            extension: extension === 'jpg' ? 'jpeg' : extension,
+            width: Math.round(width),
+            height: Math.round(height),
+            alt: attr?.alt || captionOf(element ?? ({} as OrgElement)) || path.basename(filePath),
+        };
+        state.images.push(image);
+        return image;
+    }
+
+    /** Whether the format can embed images with this extension */
+    protected supportsImage(extension: string): boolean {
+        return ['png', 'jpg', 'jpeg', 'gif', 'bmp'].includes(extension);
+    }
+
+    /**
+     * Bookmark name for an anchor id; formats with restrictions override it
+     */
+    protected anchorName(id: string): string {
+        return id;
+    }
+
+    private exportSrcBlock(block: SrcBlockElement, state: OfficeExportState): string {
+        // Parse :exports header argument
+        const params = block.properties.parameters || '';
+        const exportsMatch = params.match(/:exports\s+(\w+)/i);
+        const exports = exportsMatch ? exportsMatch[1].toLowerCase() : 'both';
+
+        if (exports === 'none') {
+            state.skipNextResults = true;
+            return '';
+        }
+        if (exports === 'results') {
+            state.skipNextResults = false;
+            return '';
+        }
+        state.skipNextResults = exports === 'code';
+
+        const caption = captionOf(block);
+        const code = this.exportCode(block.properties.value, state, block.affiliated?.name);
+        return caption ? code + this.exportCaption(caption, undefined, 'TableCaption', state) : code;
+    }
+
+    /**
+     * Preformatted text as one SourceCode paragraph with line breaks
+     */
+    private exportCode(value: string, state: OfficeExportState, name?: string): string {
+        const lines = value.replace(/\n$/, '').split('\n');
+        const content = this.withRunStyle(state, { code: true }, () =>
+            lines.map(line => this.text(line, state.runStyle, state)).join(this.lineBreak(state))
+        );
+        return this.paragraph(content, { style: 'SourceCode', bookmark: name ? this.anchorName(name) : undefined }, state);
+    }
+
+    private exportSpecialBlock(block: SpecialBlockElement, state: OfficeExportState): string {
+        const blockType = block.properties.blockType.toLowerCase();
+        if (!ADMONITIONS.has(blockType)) {
+            return this.exportBlocks(block.children, state);
+        }
+        const label = blockType.charAt(0).toUpperCase() + blockType.slice(1);
+        return this.withBlockStyle(state, 'BlockText', undefined, () => {
+            const title = this.paragraph(
+                this.withRunStyle(state, { bold: true }, () => this.plainText(label, state)),
+                { style: 'BlockText', keepNext: true },
+                state
+            );
+            return title + this.exportBlocks(block.children, state);
+        });
+    }
+
+    private exportVerseBlock(block: VerseBlockElement, state: OfficeExportState): string {
+        // Keep the verse's line breaks
+        const lines = block.properties.value.replace(/\n+$/, '').split('\n');
+        const content = lines.map(line => this.plainText(line.trim(), state)).join(this.lineBreak(state));
+        return this.bodyParagraph(content, state);
+    }
+
+    private exportLatexEnvironment(env: LatexEnvironmentElement, state: OfficeExportState): string {
+        const value = env.properties.value.trim();
+        const name = env.affiliated?.name;
+        const math = this.math(value, true, state);
+        if (math !== undefined) {
+            return this.paragraph(math, { style: state.blockStyle, bookmark: name ? this.anchorName(name) : undefined }, state);
+        }
+        return this.exportCode(value, state, name);
+    }
+
+    private exportTable(table: TableElement, state: OfficeExportState): string {
+        if (state.options.includeTables === false) {
+            return '';
+        }
+        if (table.properties.tableType === 'table.el') {
+            return this.exportCode(table.properties.value || '', state);
+        }
+
+        // Rows above the first rule are header rows when data rows follow
+        const ruleIndex = table.children.findIndex(row => row.properties.rowType === 'rule');
+        const hasHeader = ruleIndex > 0 && table.children.slice(ruleIndex).some(row => row.properties.rowType !== 'rule');
+
+        const rows: OfficeTableRow[] = [];
+        const saved = { listItem: state.listItem, style: state.blockStyle, align: state.blockAlign };
+        state.listItem = undefined;
+        state.blockAlign = undefined;
+        table.children.forEach((row, index) => {
+            if (row.properties.rowType === 'rule') return;
+            const header = hasHeader && index < ruleIndex;
+            const cells = row.children.map(cell => {
+                const content = cell.children
+                    ? this.exportObjects(cell.children, state)
+                    : this.plainText(cell.properties.value, state);
+                const styled = header ? this.withRunStyle(state, { bold: true }, () => content) : content;
+                return this.paragraph(styled, { style: 'Compact' }, state);
+            });
+            rows.push({ cells, header });
+        });
+        state.listItem = saved.listItem;
+        state.blockStyle = saved.style;
+        state.blockAlign = saved.align;
+        if (rows.length === 0) {
+            return '';
+        }
+
+        const caption = captionOf(table);
+        const name = table.affiliated?.name;
+        const captionXml = caption
+            ? this.exportCaption(caption, state.elementLabels.get(table), 'TableCaption', state, true)
+            : '';
+        const anchor = name ? this.paragraph('', { style: 'Compact', bookmark: this.anchorName(name), keepNext: true }, state) : '';
+        return anchor + captionXml + this.table(rows, state);
+    }
+
+    private exportPlainList(plainList: PlainListElement, state: OfficeExportState): string {
+        if (plainList.properties.listType === 'descriptive') {
+            return plainList.children.map(item => this.exportDescriptiveItem(item, state)).join('');
+        }
+
+        const parent = state.listItem;
+        const first = plainList.children[0];
+        const list: OfficeList = {
+            id: state.lists.length + 1,
+            ordered: plainList.properties.listType === 'ordered',
+            level: parent ? parent.list.level + 1 : 0,
+            start: first?.properties.counter ?? 1,
+        };
+        state.lists.push(list);
+
+        const items = plainList.children.map(item => {
+            state.listItem = { list, first: true };
+            try {
+                return this.exportListItem(item, state);
+            } finally {
+                state.listItem = parent;
+            }
+        });
+        return this.list(items, list, state);
+    }
+
+    private exportListItem(item: ItemElement, state: OfficeExportState): string {
+        let lead = '';
+        if (item.properties.checkbox) {
+            lead = this.plainText(item.properties.checkbox === 'on' ? '☒ ' : '☐ ', state);
+        }
+
+        const blocks: string[] = [];
+        const children = item.children;
+        if (children.length === 0 || children[0].type !== 'paragraph') {
+            // The bullet needs a paragraph to sit on
+            blocks.push(this.bodyParagraph(lead, state));
+            lead = '';
+        }
+        for (const child of children) {
+            if (lead && child.type === 'paragraph') {
+                const paragraph = child as ParagraphElement;
+                blocks.push(this.bodyParagraph(lead + this.exportObjects(paragraph.children, state), state));
+                lead = '';
+                continue;
+            }
+            blocks.push(this.exportElement(child, state));
+        }
+        return blocks.join('');
+    }
+
+    private exportDescriptiveItem(item: ItemElement, state: OfficeExportState): string {
+        const term = item.properties.tag
+            ? this.withRunStyle(state, { bold: true }, () => this.exportObjects(item.properties.tag!, state))
+            : '';
+        const saved = state.listItem;
+        state.listItem = undefined;
+        try {
+            const termXml = this.paragraph(term, { style: 'DefinitionTerm', keepNext: true }, state);
+            return termXml + this.withBlockStyle(state, 'Definition', undefined, () => this.exportBlocks(item.children, state));
+        } finally {
+            state.listItem = saved;
+        }
+    }
+
+    private exportDrawer(drawer: DrawerElement, state: OfficeExportState): string {
+        const drawerName = drawer.properties.name.toUpperCase();
+        const includeDrawers = state.options.includeDrawers;
+
+        if (includeDrawers === false || drawerName === 'PROPERTIES') {
+            return '';
+        }
+        if (Array.isArray(includeDrawers) && !includeDrawers.some(d => d.toUpperCase() === drawerName)) {
+            return '';
+        }
+        if (drawerName === 'LOGBOOK' && state.options.includeClocks === false) {
+            return '';
+        }
+        return this.exportBlocks(drawer.children, state);
+    }
+
+    private exportFixedWidth(element: FixedWidthElement, state: OfficeExportState): string {
+        // Check if we should skip this results block (based on :exports header)
+        if (state.skipNextResults) {
+            state.skipNextResults = false;
+            return '';
+        }
+        if (state.options.fixedWidth === false) {
+            return '';
+        }
+        return this.exportCode(element.properties.value, state);
+    }
+
+    private exportExportBlock(block: ExportBlockElement, state: OfficeExportState): string {
+        if (!this.rawBackends.includes(block.properties.backend.toLowerCase())) {
+            return '';
+        }
+        const value = block.properties.value.replace(/\n$/, '');
+        // Markup goes in as is; plain text becomes paragraphs
+        if (value.trim().startsWith('<')) {
+            return value;
+        }
+        return value.split(/\n\s*\n/).map(text => this.bodyParagraph(this.plainText(text, state), state)).join('');
+    }
+
+    // =========================================================================
+    // Object Exporters
+    // =========================================================================
+
+    private exportObjects(objects: OrgObject[], state: OfficeExportState): string {
+        return objects.map(obj => this.exportObject(obj, state)).join('');
+    }
+
+    /**
+     * Text in the current character formatting
+     */
+    protected plainText(value: string, state: OfficeExportState): string {
+        return value ? this.text(value, state.runStyle, state) : '';
+    }
+
+    /**
+     * Export a single object (inline element)
+     */
+    exportObject(object: OrgObject, state: ExportState): string {
+        const officeState = state as OfficeExportState;
+        const styled = (style: OfficeRunStyle, children: OrgObject[]) =>
+            this.withRunStyle(officeState, style, () => this.exportObjects(children, officeState));
+        const code = (value: string) =>
+            this.withRunStyle(officeState, { code: true }, () => this.plainText(value, officeState));
+
+        switch (object.type) {
+            case 'bold':
+                return styled({ bold: true }, (object as BoldObject).children);
+            case 'italic':
+                return styled({ italic: true }, (object as ItalicObject).children);
+            case 'underline':
+                return styled({ underline: true }, (object as UnderlineObject).children);
+            case 'strike-through':
+                return styled({ strike: true }, (object as StrikeThroughObject).children);
+            case 'code':
+                return code((object as CodeObject).properties.value);
+            case 'command':
+                return code((object as CommandObject).properties.value);
+            case 'verbatim':
+                return code((object as VerbatimObject).properties.value);
+            case 'link':
+                return this.exportLink(object as LinkObject, officeState);
+            case 'timestamp':
+                return this.exportTimestamp(object as TimestampObject, officeState);
+            case 'entity':
+                return this.plainText((object as EntityObject).properties.utf8, officeState);
+            case 'latex-fragment':
+                return this.exportLatexFragment(object as LatexFragmentObject, officeState);
+            case 'subscript':
+            case 'superscript':
+                return this.exportScript(object as SubscriptObject | SuperscriptObject, officeState);
+            case 'footnote-reference':
+                return this.exportFootnoteReference(object as FootnoteReferenceObject, officeState);
+            case 'statistics-cookie':
+                // Statistics cookies are tied to planning info - hide when p:nil
+                return state.options.includePlanning === false
+                    ? ''
+                    : this.plainText((object as StatisticsCookieObject).properties.value, officeState);
+            case 'target':
+                return this.bookmark(this.anchorName(generateId((object as TargetObject).properties.value)), officeState);
+            case 'radio-target':
+                return this.exportObjects((object as RadioTargetObject).children, officeState);
+            case 'line-break':
+                return this.lineBreak(officeState);
+            case 'plain-text':
+                return this.exportPlainText((object as PlainTextObject).properties.value, officeState);
+            case 'inline-src-block':
+                return code((object as InlineSrcBlockObject).properties.value);
+            case 'inline-babel-call': {
+                const call = object as InlineBabelCallObject;
+                return code(`call_${call.properties.call}(${call.properties.arguments || ''})`);
+            }
+            case 'export-snippet': {
+                const snippet = object as ExportSnippetObject;
+                if (!this.rawBackends.includes(snippet.properties.backend.toLowerCase())) return '';
+                const value = snippet.properties.value;
+                return value.trim().startsWith('<') ? value : this.plainText(value, officeState);
+            }
+            case 'macro':
+                return this.exportMacro(object as MacroObject, officeState);
+            case 'citation':
+                return this.exportCitation(object as CitationObject, officeState);
+            default:
+                return '';
+        }
+    }
+
+    private exportPlainText(value: string, state: OfficeExportState): string {
+        // Source line breaks are spaces unless \n:t preserves them
+        if (state.options.preserveBreaks) {
+            return value.split('\n').map(line => this.plainText(line, state)).join(this.lineBreak(state));
+        }
+        return this.plainText(value.replace(/\s*\n\s*/g, ' '), state);
+    }
+
+    private exportLink(link: LinkObject, state: OfficeExportState): string {
+        const { linkType, path: linkPath, rawLink } = link.properties;
+
+        if (linkType && CITATION_LINK_TYPES.has(linkType.toLowerCase())) {
+            return this.exportCitationLink(link, state);
+        }
+        if (linkType === 'bibliography' || linkType === 'bibliographystyle' || linkType === 'bibstyle') {
+            // Metadata links; the bibliography is generated separately
+            return '';
+        }
+
+        // Inline images
+        if (IMAGE_EXTENSIONS.test(linkPath) && !link.children?.length) {
+            const image = this.loadImage(linkPath, state.currentAffiliated ? { affiliated: state.currentAffiliated } as OrgElement : undefined, state);
+            if (image) return this.image(image, state);
+        }
+
+        const description = (fallback: string) => this.withRunStyle(state, { link: true }, () =>
+            link.children?.length
+                ? this.exportObjects(link.children, state)
+                : this.plainText(fallback, state)
+        );
+
+        const internal = this.internalTarget(link, state);
+        if (internal !== undefined) {
+            const label = state.captionLabels.get(linkPath);
+            return this.hyperlink(description(label ?? linkPath.replace(/^[*#]/, '')), { anchor: this.anchorName(internal) }, state);
+        }
+
+        let url: string;
+        switch (linkType) {
+            case 'http':
+            case 'https':
+                url = linkPath;
+                break;
+            case 'file':
+                url = linkPath.replace(/^file:/, '').split('::')[0];
+                break;
+            case 'mailto':
+                url = `mailto:${linkPath.replace(/^mailto:/, '')}`;
+                break;
+            case 'doi':
+                url = `https://doi.org/${linkPath.replace(/^doi:/, '')}`;
+                break;
+            default:
+                url = rawLink || linkPath;
+        }
+        return this.hyperlink(description(linkPath.replace(/^file:/, '')), { url }, state);
+    }
+
+    /**
+     * Anchor an internal link resolves to, or undefined for external links
+     */
+    private internalTarget(link: LinkObject, state: ExportState): string | undefined {
+        const { linkType, path: linkPath } = link.properties;
+        switch (linkType) {
+            case 'id':
+                return linkPath;
+            case 'custom-id':
+                return linkPath.replace(/^#/, '');
+            case 'headline':
+                return generateId(linkPath.replace(/^\*/, '').trim());
+            case 'internal':
+                return /\.(org|md)(::|$)/i.test(linkPath) ? undefined : generateId(linkPath);
+            case 'fuzzy':
+                if (state.customIds.has(linkPath)) return state.customIds.get(linkPath);
+                if (state.namedElements.has(linkPath)) return linkPath;
+                if (state.targets.has(linkPath)) return state.targets.get(linkPath);
+                return generateId(linkPath);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Export a citation link (cite:key, citep:key, etc.)
+     */
+    private exportCitationLink(link: LinkObject, state: OfficeExportState): string {
+        const { linkType, path: linkPath } = link.properties;
+        const command = linkType?.toLowerCase() || 'cite';
+        const parsed = parseCitationsFromLine(`${command}:${linkPath}`)[0];
+        const keys = parsed
+            ? parsed.references.map(r => r.key)
+            : linkPath.split(/[,;]/).map(k => k.replace(/^&/, '').trim()).filter(Boolean);
+        const style = parsed ? getNormalizedStyle(parsed) : 'parenthetical';
+        return this.formatCitation(keys, style, state);
+    }
+
+    /**
+     * Export an org-cite citation ([cite/t:@key])
+     */
+    private exportCitation(citation: CitationObject, state: OfficeExportState): string {
+        const { style, keys } = citation.properties;
+        if (!keys || keys.length === 0) {
+            return this.plainText(citation.properties.rawValue || '', state);
+        }
+        let normalized: string = 'parenthetical';
+        if (style === 't' || style === 'text') normalized = 'textual';
+        else if (style === 'a' || style === 'author') normalized = 'author';
+        else if (style === 'na' || style === 'noauthor' || style === 'year') normalized = 'year';
+        return this.formatCitation(keys, normalized, state);
+    }
+
+    /**
+     * Citation formatted with the CSL style, linked to its bibliography
+     * entry; the bare keys when no bibliography is loaded
+     */
+    private formatCitation(keys: string[], style: string, state: OfficeExportState): string {
+        state.hasCitations = true;
+        if (!state.citationProcessor) {
+            return this.plainText(`[${keys.join(', ')}]`, state);
+        }
+        const formatted = state.citationProcessor.formatCitationByKeys(
+            keys,
+            style === 'numeric' ? 'parenthetical' : style as 'textual' | 'parenthetical' | 'author' | 'year'
+        );
+        const text = this.plainText(formatted.text, state);
+        return state.citationProcessor.hasEntry(keys[0])
+            ? this.hyperlink(text, { anchor: this.anchorName(`ref-${keys[0]}`) }, state)
+            : text;
+    }
+
+    private exportTimestamp(ts: TimestampObject, state: OfficeExportState): string {
+        if (!state.options.timestamps || state.options.includeTimestamps === false) {
+            return '';
+        }
+        return this.plainText(ts.properties.rawValue, state);
+    }
+
+    private exportLatexFragment(fragment: LatexFragmentObject, state: OfficeExportState): string {
+        const value = fragment.properties.value;
+        if (fragment.properties.fragmentType === 'command') {
+            return this.plainText(value, state);
+        }
+        const display = fragment.properties.fragmentType === 'display-math';
+        const math = this.math(stripMathDelimiters(value), display, state);
+        return math ?? this.plainText(value, state);
+    }
+
+    private exportScript(obj: SubscriptObject | SuperscriptObject, state: OfficeExportState): string {
+        if (shouldRenderAsLiteral(obj, state.options)) {
+            const marker = obj.type === 'subscript' ? '_' : '^';
+            return this.plainText(marker, state) + this.exportObjects(obj.children, state);
+        }
+        const verticalAlign = obj.type === 'subscript' ? 'subscript' : 'superscript';
+        return this.withRunStyle(state, { verticalAlign }, () => this.exportObjects(obj.children, state));
+    }
+
+    private exportFootnoteReference(ref: FootnoteReferenceObject, state: OfficeExportState): string {
+        if (state.options.includeFootnotes === false || state.options.footnotes === 'none') {
+            return '';
+        }
+        // Inline footnotes without a label are numbered apart from [fn:N]
+        const label = ref.properties.label || `inline-${++state.footnoteCounter}`;
+
+        const existing = state.noteNumbers.get(label);
+        if (existing !== undefined) {
+            // Notes can't be referenced twice: repeat the number instead
+            return this.withRunStyle(state, { verticalAlign: 'superscript' }, () => this.plainText(String(existing), state));
+        }
+        const number = state.noteNumbers.size + 1;
+        state.noteNumbers.set(label, number);
+
+        const saved = { runStyle: state.runStyle, listItem: state.listItem, afterHeading: state.afterHeading };
+        state.runStyle = {};
+        state.listItem = undefined;
+        let body: string;
+        try {
+            body = this.withBlockStyle(state, 'FootnoteText', undefined, () => {
+                if (ref.properties.referenceType === 'inline' && ref.children) {
+                    return this.paragraph(this.exportObjects(ref.children, state), { style: 'FootnoteText' }, state);
+                }
+                const definition = (state.footnotes.get(label)?.definition ?? []) as OrgElement[];
+                return this.exportBlocks(definition, state);
+            });
+        } finally {
+            state.runStyle = saved.runStyle;
+            state.listItem = saved.listItem;
+            state.afterHeading = saved.afterHeading;
+        }
+        if (!body) {
+            body = this.paragraph('', { style: 'FootnoteText' }, state);
+        }
+        return this.footnote(number, body, state);
+    }
+
+    private exportMacro(obj: MacroObject, state: OfficeExportState): string {
+        if (!state.options.expandMacros) {
+            return this.plainText(`{{{${obj.properties.key}(${obj.properties.args.join(',')})}}}`, state);
+        }
+        const macros = { ...BUILTIN_MACROS, ...state.options.macros };
+        return this.plainText(expandMacro(obj.properties.key, obj.properties.args, macros), state);
+    }
+
+    // =========================================================================
+    // Document Structure
+    // =========================================================================
+
+    /**
+     * The reference list, one Bibliography paragraph per entry with a
+     * bookmark that citations link to
+     */
+    private exportBibliography(state: OfficeExportState): string {
+        const html = state.citationProcessor?.generateBibliography() ?? '';
+        const entries = bibliographyEntries(html);
+        if (entries.length === 0) {
+            return '';
+        }
+        const heading = this.paragraph(this.plainText('References', state), {
+            style: `Heading${Math.min(1 + state.headlineOffset, 9)}`,
+            bookmark: this.anchorName('bibliography'),
+            keepNext: true,
+        }, state);
+        const paragraphs = entries.map(entry => this.paragraph(this.htmlRuns(entry.html, state), {
+            style: 'Bibliography',
+            bookmark: entry.key ? this.anchorName(`ref-${entry.key}`) : undefined,
+        }, state));
+        return heading + paragraphs.join('');
+    }
+
+    /**
+     * Runs for citation-js HTML: <i>, <b>, <sup> and <sub> become formatting,
+     * other tags are dropped
+     */
+    private htmlRuns(html: string, state: OfficeExportState): string {
+        const runs: string[] = [];
+        const style: OfficeRunStyle = {};
+        const formats: Record<string, keyof OfficeRunStyle> = {
+            i: 'italic', em: 'italic', b: 'bold', strong: 'bold', u: 'underline',
+        };
+        // Drop the back-link markup the processor may add
+        const clean = html.replace(/<span class="citation-backlinks">[^]*?<\/span>/g, '');
+        for (const token of clean.split(/(<[^>]+>)/)) {
+            const tag = token.match(/^<(\/?)(\w+)/);
+            if (tag) {
+                const name = tag[2].toLowerCase();
+                const on = tag[1] !== '/';
+                if (name in formats) {
+                    (style as Record<string, boolean>)[formats[name]] = on;
+                } else if (name === 'sup' || name === 'sub') {
+                    style.verticalAlign = on ? (name === 'sup' ? 'superscript' : 'subscript') : undefined;
+                }
+                continue;
+            }
+            const text = decodeHtml(token).replace(/\s+/g, ' ');
+            if (text) runs.push(this.text(text, { ...style }, state));
+        }
+        return runs.join('');
+    }
+}
+
+// =============================================================================
+// Reference Documents
+// =============================================================================
+
+/**
+ * Read files from a zipped reference document (.docx or .odt); missing
+ * files are left out
+ */
+export async function readReferenceParts(referenceDoc: string, files: string[]): Promise<Map<string, string>> {
+    const parts = new Map<string, string>();
+    const data = await fs.promises.readFile(referenceDoc);
+    const zip = await JSZip.loadAsync(data);
+    for (const file of files) {
+        const entry = zip.file(file);
+        if (entry) {
+            parts.set(file, await entry.async('string'));
+        }
+    }
+    return parts;
+}
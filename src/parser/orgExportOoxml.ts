@@ -0,0 +1,571 @@
+/**
+ * Native DOCX writer
+ *
+ * Writes WordprocessingML directly, without pandoc: paragraphs and runs in
+ * word/document.xml, notes in word/footnotes.xml, list numbering in
+ * word/numbering.xml, and images under word/media. Styles use pandoc's style
+ * ids, so a pandoc reference.docx restyles the output the same way.
+ */
+
+import * as crypto from 'crypto';
+
+import {
+    OfficeExportBackend,
+    OfficeExportOptions,
+    OfficeExportState,
+    OfficeRunStyle,
+    OfficeParagraph,
+    OfficeList,
+    OfficeImage,
+    OfficeTableRow,
+    OfficeTocEntry,
+    OfficePart,
+    escapeXml,
+    readReferenceParts,
+} from './orgExportOffice';
+import { latexToOmml } from './latexMath';
+import { parseOrgFast } from './orgExportParser';
+
+const NS = {
+    w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+    r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    m: 'http://schemas.openxmlformats.org/officeDocument/2006/math',
+    wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+    a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+    pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+    rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+};
+
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Letter page, 1in margins */
+const DEFAULT_SECT_PR =
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+    '</w:sectPr>';
+
+/** Width of the text block in twentieths of a point */
+const TEXT_WIDTH_TWIPS = 9360;
+
+/** List indent per level in twentieths of a point */
+const LIST_INDENT = 720;
+
+/**
+ * Options for DOCX export with the native writer
+ */
+export type OoxmlExportOptions = OfficeExportOptions;
+
+interface OoxmlRelationship {
+    id: string;
+    type: string;
+    target: string;
+    external?: boolean;
+}
+
+/**
+ * Extended export state for DOCX
+ */
+interface OoxmlExportState extends OfficeExportState {
+    /** Relationships of document.xml (hyperlinks, images) */
+    relationships: OoxmlRelationship[];
+    /** <w:footnote> elements of footnotes.xml */
+    notes: string[];
+    /** Next bookmark and drawing id */
+    nextId: number;
+}
+
+/**
+ * Word bookmark name for an anchor: letters, digits and underscores,
+ * starting with a letter, at most 40 characters
+ */
+function bookmarkName(id: string): string {
+    let name = id.replace(/[^A-Za-z0-9_]/g, '_');
+    if (!/^[A-Za-z]/.test(name)) {
+        name = `x${name}`;
+    }
+    if (name.length > 40) {
+        const hash = crypto.createHash('sha1').update(id).digest('hex').slice(0, 8);
+        name = `${name.slice(0, 31)}_${hash}`;
+    }
+    return name;
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+interface StyleDefinition {
+    id: string;
+    name: string;
+    type?: 'paragraph' | 'character' | 'table';
+    basedOn?: string;
+    next?: string;
+    pPr?: string;
+    rPr?: string;
+    extra?: string;
+}
+
+const MONO = '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/>';
+const HEADING_SIZES = [32, 28, 24, 24, 22, 22, 22, 22, 22];
+
+const STYLES: StyleDefinition[] = [
+    { id: 'Normal', name: 'Normal', pPr: '<w:spacing w:after="120"/>' },
+    { id: 'BodyText', name: 'Body Text', basedOn: 'Normal', pPr: '<w:spacing w:before="120" w:after="120"/>' },
+    { id: 'FirstParagraph', name: 'First Paragraph', basedOn: 'BodyText', next: 'BodyText' },
+    { id: 'Compact', name: 'Compact', basedOn: 'BodyText', pPr: '<w:spacing w:before="36" w:after="36"/>' },
+    { id: 'Title', name: 'Title', basedOn: 'Normal', next: 'BodyText', pPr: '<w:keepNext/><w:spacing w:before="480" w:after="240"/><w:jc w:val="center"/>', rPr: '<w:b/><w:sz w:val="36"/>' },
+    { id: 'Subtitle', name: 'Subtitle', basedOn: 'Title', next: 'BodyText', rPr: '<w:b w:val="0"/><w:sz w:val="30"/>' },
+    { id: 'Author', name: 'Author', next: 'BodyText', pPr: '<w:keepNext/><w:jc w:val="center"/>' },
+    { id: 'Date', name: 'Date', next: 'BodyText', pPr: '<w:keepNext/><w:jc w:val="center"/>' },
+    ...HEADING_SIZES.map((size, index): StyleDefinition => ({
+        id: `Heading${index + 1}`,
+        name: `heading ${index + 1}`,
+        basedOn: 'Normal',
+        next: 'BodyText',
+        pPr: `<w:keepNext/><w:keepLines/><w:spacing w:before="${index === 0 ? 480 : 200}" w:after="0"/><w:outlineLvl w:val="${index}"/>`,
+        rPr: `<w:b/>${index >= 3 ? '<w:i/>' : ''}<w:color w:val="4F81BD"/><w:sz w:val="${size}"/>`,
+    })),
+    { id: 'BlockText', name: 'Block Text', basedOn: 'BodyText', next: 'BodyText', pPr: '<w:spacing w:before="100" w:after="100"/><w:ind w:left="480" w:right="480"/>' },
+    { id: 'SourceCode', name: 'Source Code', basedOn: 'Normal', pPr: '<w:wordWrap w:val="off"/><w:shd w:val="clear" w:color="auto" w:fill="F8F8F8"/>', rPr: MONO },
+    { id: 'FootnoteText', name: 'Footnote Text', basedOn: 'Normal', rPr: '<w:sz w:val="20"/>' },
+    { id: 'Figure', name: 'Figure', basedOn: 'Normal' },
+    { id: 'CaptionedFigure', name: 'Captioned Figure', basedOn: 'Figure', pPr: '<w:keepNext/>' },
+    { id: 'Caption', name: 'caption', basedOn: 'Normal', pPr: '<w:spacing w:before="0" w:after="120"/>', rPr: '<w:i/>' },
+    { id: 'ImageCaption', name: 'Image Caption', basedOn: 'Caption' },
+    { id: 'TableCaption', name: 'Table Caption', basedOn: 'Caption' },
+    { id: 'DefinitionTerm', name: 'Definition Term', basedOn: 'Normal', next: 'Definition', pPr: '<w:keepNext/><w:spacing w:after="0"/>', rPr: '<w:b/>' },
+    { id: 'Definition', name: 'Definition', basedOn: 'Normal', pPr: '<w:ind w:left="480"/>' },
+    { id: 'Bibliography', name: 'Bibliography', basedOn: 'Normal', pPr: '<w:ind w:left="480" w:hanging="480"/>' },
+    { id: 'TOCHeading', name: 'TOC Heading', basedOn: 'Heading1', next: 'BodyText', pPr: '<w:outlineLvl w:val="9"/>' },
+    ...[1, 2, 3, 4, 5, 6].map((level): StyleDefinition => ({
+        id: `TOC${level}`,
+        name: `toc ${level}`,
+        basedOn: 'Normal',
+        next: 'Normal',
+        pPr: `<w:spacing w:after="60"/><w:ind w:left="${(level - 1) * 240}"/>`,
+    })),
+    { id: 'VerbatimChar', name: 'Verbatim Char', type: 'character', rPr: MONO },
+    { id: 'FootnoteReference', name: 'footnote reference', type: 'character', rPr: '<w:vertAlign w:val="superscript"/>' },
+    { id: 'Hyperlink', name: 'Hyperlink', type: 'character', rPr: '<w:color w:val="1F4E79"/><w:u w:val="single"/>' },
+    {
+        id: 'Table',
+        name: 'Table',
+        type: 'table',
+        extra:
+            '<w:tblPr><w:tblBorders>' +
+            '<w:top w:val="single" w:sz="8" w:space="0" w:color="auto"/>' +
+            '<w:bottom w:val="single" w:sz="8" w:space="0" w:color="auto"/>' +
+            '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+            '<w:tblStylePr w:type="firstRow"><w:tcPr><w:tcBorders>' +
+            '<w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/>' +
+            '</w:tcBorders></w:tcPr></w:tblStylePr>',
+    },
+];
+
+function styleXml(style: StyleDefinition): string {
+    const type = style.type ?? 'paragraph';
+    const isDefault = style.id === 'Normal' ? ' w:default="1"' : '';
+    return `<w:style w:type="${type}"${isDefault} w:styleId="${style.id}">` +
+        `<w:name w:val="${style.name}"/>` +
+        (style.basedOn ? `<w:basedOn w:val="${style.basedOn}"/>` : '') +
+        (style.next ? `<w:next w:val="${style.next}"/>` : '') +
+        '<w:qFormat/>' +
+        (style.pPr ? `<w:pPr>${style.pPr}</w:pPr>` : '') +
+        (style.rPr ? `<w:rPr>${style.rPr}</w:rPr>` : '') +
+        (style.extra ?? '') +
+        '</w:style>';
+}
+
+/**
+ * The default styles.xml
+ */
+function stylesXml(): string {
+    return XML_DECLARATION +
+        `<w:styles xmlns:w="${NS.w}">` +
+        '<w:docDefaults><w:rPrDefault><w:rPr>' +
+        '<w:rFonts w:ascii="Cambria" w:hAnsi="Cambria" w:eastAsia="Cambria" w:cs="Times New Roman"/>' +
+        '<w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/>' +
+        '</w:rPr></w:rPrDefault><w:pPrDefault/></w:docDefaults>' +
+        STYLES.map(styleXml).join('') +
+        '</w:styles>';
+}
+
+/**
+ * numbering.xml with a bullet and a decimal definition, and one numbering
+ * instance per list so that ordered lists restart
+ */
+function numberingXml(lists: OfficeList[]): string {
+    const bullets = ['•', '◦', '▪'];
+    const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) => {
+        const format = ordered
+            ? `<w:numFmt w:val="${['decimal', 'lowerLetter', 'lowerRoman'][level % 3]}"/><w:lvlText w:val="%${level + 1}."/>`
+            : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${bullets[level % 3]}"/>`;
+        return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/>` +
+            `<w:pPr><w:ind w:left="${(level + 1) * LIST_INDENT}" w:hanging="360"/></w:pPr></w:lvl>`;
+    }).join('');
+
+    const nums = lists.map(list =>
+        `<w:num w:numId="${list.id}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>` +
+        (list.ordered
+            ? `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride>`
+            : '') +
+        '</w:num>'
+    ).join('');
+
+    return XML_DECLARATION +
+        `<w:numbering xmlns:w="${NS.w}">` +
+        `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="multilevel"/>${levels(false)}</w:abstractNum>` +
+        `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="multilevel"/>${levels(true)}</w:abstractNum>` +
+        nums +
+        '</w:numbering>';
+}
+
+// =============================================================================
+// OOXML Export Backend
+// =============================================================================
+
+/**
+ * Writes an org document as a DOCX package
+ */
+export class OoxmlExportBackend extends OfficeExportBackend {
+    public readonly name = 'docx';
+
+    protected readonly rawBackends = ['docx', 'openxml'];
+
+    protected createState(opts: OfficeExportOptions): OoxmlExportState {
+        return {
+            ...super.createState(opts),
+            relationships: [],
+            notes: [],
+            nextId: 1,
+        };
+    }
+
+    protected mimeType(): string {
+        return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+
+    protected anchorName(id: string): string {
+        return bookmarkName(id);
+    }
+
+    // =========================================================================
+    // Primitives
+    // =========================================================================
+
+    protected text(value: string, style: OfficeRunStyle): string {
+        const props: string[] = [];
+        if (style.code) props.push('<w:rStyle w:val="VerbatimChar"/>');
+        else if (style.link) props.push('<w:rStyle w:val="Hyperlink"/>');
+        if (style.bold) props.push('<w:b/><w:bCs/>');
+        if (style.italic) props.push('<w:i/><w:iCs/>');
+        if (style.smallCaps) props.push('<w:smallCaps/>');
+        if (style.strike) props.push('<w:strike/>');
+        if (style.underline) props.push('<w:u w:val="single"/>');
+        if (style.verticalAlign) props.push(`<w:vertAlign w:val="${style.verticalAlign}"/>`);
+        const rPr = props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+
+        const content = value
+            .split('\t')
+            .map(part => (part ? `<w:t xml:space="preserve">${escapeXml(part)}</w:t>` : ''))
+            .join('<w:tab/>');
+        return `<w:r>${rPr}${content}</w:r>`;
+    }
+
+    protected lineBreak(): string {
+        return '<w:r><w:br/></w:r>';
+    }
+
+    protected paragraph(content: string, props: OfficeParagraph, state: OfficeExportState): string {
+        const pPr = [`<w:pStyle w:val="${props.style}"/>`];
+        if (props.keepNext) {
+            pPr.push('<w:keepNext/>');
+        }
+
+        const item = state.listItem;
+        if (item && item.first) {
+            pPr.push(`<w:numPr><w:ilvl w:val="${item.list.level}"/><w:numId w:val="${item.list.id}"/></w:numPr>`);
+            item.first = false;
+        } else if (item) {
+            // Later paragraphs of an item line up with its text
+            pPr.push(`<w:ind w:left="${(item.list.level + 1) * LIST_INDENT}"/>`);
+        }
+        if (props.rule) {
+            pPr.push('<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>');
+        }
+        if (props.align) {
+            pPr.push(`<w:jc w:val="${props.align === 'left' ? 'start' : props.align === 'right' ? 'end' : 'center'}"/>`);
+        }
+
+        const bookmark = props.bookmark ? this.bookmark(props.bookmark, state) : '';
+        return `<w:p><w:pPr>${pPr.join('')}</w:pPr>${bookmark}${content}</w:p>`;
+    }
+
+    protected hyperlink(content: string, target: { url?: string; anchor?: string }, state: OfficeExportState): string {
+        if (target.anchor) {
+            return `<w:hyperlink w:anchor="${escapeXml(target.anchor)}">${content}</w:hyperlink>`;
+        }
+        const id = this.relationship(state as OoxmlExportState, 'hyperlink', target.url || '', true);
+        return `<w:hyperlink r:id="${id}">${content}</w:hyperlink>`;
+    }
+
+    protected bookmark(name: string, state: OfficeExportState): string {
+        const id = (state as OoxmlExportState).nextId++;
+        return `<w:bookmarkStart w:id="${id}" w:name="${escapeXml(name)}"/><w:bookmarkEnd w:id="${id}"/>`;
+    }
+
+    protected footnote(number: number, body: string, state: OfficeExportState): string {
+        const ref = '<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>';
+        const split = body.indexOf('</w:pPr>');
+        const withRef = split >= 0
+            ? body.slice(0, split + 8) + ref + this.text(' ', {}) + body.slice(split + 8)
+            : body;
+        (state as OoxmlExportState).notes.push(`<w:footnote w:id="${number}">${withRef}</w:footnote>`);
+        return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${number}"/></w:r>`;
+    }
+
+    protected image(image: OfficeImage, state: OfficeExportState): string {
+        const ooxmlState = state as OoxmlExportState;
+        const rel = this.relationship(ooxmlState, 'image', image.name);
+        const id = ooxmlState.nextId++;
+        const extent = `cx="${image.width}" cy="${image.height}"`;
+        return '<w:r><w:drawing>' +
+            `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent ${extent}/>` +
+            '<wp:effectExtent l="0" t="0" r="0" b="0"/>' +
+            `<wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(image.alt)}"/>` +
+            `<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="${NS.a}" noChangeAspect="1"/></wp:cNvGraphicFramePr>` +
+            `<a:graphic xmlns:a="${NS.a}"><a:graphicData uri="${NS.pic}">` +
+            `<pic:pic xmlns:pic="${NS.pic}">` +
+            `<pic:nvPicPr><pic:cNvPr id="0" name="${escapeXml(image.name.replace(/^media\//, ''))}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+            `<pic:blipFill><a:blip r:embed="${rel}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+            `<pic:spPr bwMode="auto"><a:xfrm><a:off x="0" y="0"/><a:ext ${extent}/></a:xfrm>` +
+            '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>' +
+            '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+    }
+
+    protected math(latex: string, display: boolean): string | undefined {
+        return latexToOmml(latex, display);
+    }
+
+    protected list(items: string[]): string {
+        // Numbering is on the paragraphs themselves
+        return items.join('');
+    }
+
+    protected table(rows: OfficeTableRow[]): string {
+        const columns = Math.max(...rows.map(row => row.cells.length));
+        const width = Math.floor(TEXT_WIDTH_TWIPS / columns);
+        const grid = `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>`;
+        const empty = '<w:p><w:pPr><w:pStyle w:val="Compact"/></w:pPr></w:p>';
+
+        const rowXml = rows.map(row => {
+            const cells = [...row.cells];
+            while (cells.length < columns) cells.push(empty);
+            const trPr = row.header ? '<w:trPr><w:tblHeader/></w:trPr>' : '';
+            return `<w:tr>${trPr}${cells.map(cell => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${cell}</w:tc>`).join('')}</w:tr>`;
+        }).join('');
+
+        const firstRow = rows[0]?.header ? '1' : '0';
+        return '<w:tbl><w:tblPr><w:tblStyle w:val="Table"/><w:tblW w:w="0" w:type="auto"/>' +
+            `<w:tblLook w:firstRow="${firstRow}" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="0"/>` +
+            `</w:tblPr>${grid}${rowXml}</w:tbl>`;
+    }
+
+    /**
+     * A TOC field, filled in with the headlines so that it reads correctly
+     * before Word updates it
+     */
+    protected tableOfContents(entries: OfficeTocEntry[], depth: number, state: OfficeExportState): string {
+        const fieldStart =
+            '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>' +
+            `<w:r><w:instrText xml:space="preserve"> TOC \\o "1-${depth}" \\h \\z \\u </w:instrText></w:r>` +
+            '<w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+        const heading = `<w:p><w:pPr><w:pStyle w:val="TOCHeading"/></w:pPr>${this.text('Table of Contents', {})}</w:p>`;
+        const lines = entries.map((entry, index) =>
+            `<w:p><w:pPr><w:pStyle w:val="TOC${Math.min(entry.level, 6)}"/></w:pPr>` +
+            (index === 0 ? fieldStart : '') +
+            this.hyperlink(this.text(entry.text, { link: true }), { anchor: entry.anchor }, state) +
+            '</w:p>'
+        );
+        const end = '<w:p><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>';
+        return '<w:sdt><w:sdtPr><w:docPartObj><w:docPartGallery w:val="Table of Contents"/><w:docPartUnique/></w:docPartObj></w:sdtPr>' +
+            `<w:sdtContent>${heading}${lines.join('')}${end}</w:sdtContent></w:sdt>`;
+    }
+
+    private relationship(state: OoxmlExportState, type: string, target: string, external = false): string {
+        const existing = state.relationships.find(rel => rel.type === type && rel.target === target);
+        if (existing) {
+            return existing.id;
+        }
+        // rId1-rId9 are reserved for the fixed parts
+        const id = `rId${state.relationships.length + 10}`;
+        state.relationships.push({ id, type, target, external });
+        return id;
+    }
+
+    // =========================================================================
+    // Package
+    // =========================================================================
+
+    protected wrapBody(body: string, _state: OfficeExportState, sectPr = DEFAULT_SECT_PR): string {
+        return XML_DECLARATION +
+            `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:m="${NS.m}" xmlns:wp="${NS.wp}">` +
+            `<w:body>${body}${sectPr}</w:body></w:document>`;
+    }
+
+    protected async packageParts(body: string, officeState: OfficeExportState): Promise<OfficePart[]> {
+        const state = officeState as OoxmlExportState;
+        const opts = state.officeOptions;
+
+        let styles = stylesXml();
+        let sectPr = DEFAULT_SECT_PR;
+        const extraParts: { path: string; data: string; contentType: string; relType: string }[] = [];
+        if (opts.referenceDoc) {
+            const reference = await readReferenceParts(opts.referenceDoc, [
+                'word/styles.xml',
+                'word/document.xml',
+                'word/theme/theme1.xml',
+                'word/fontTable.xml',
+            ]);
+            styles = reference.get('word/styles.xml') ?? styles;
+            const referenceSectPr = reference.get('word/document.xml')?.match(/<w:sectPr\b[^]*<\/w:sectPr>/);
+            if (referenceSectPr) {
+                // Headers and footers would need the reference's other parts
+                sectPr = referenceSectPr[0].replace(/<w:(header|footer)Reference\b[^>]*\/>/g, '');
+            }
+            const theme = reference.get('word/theme/theme1.xml');
+            if (theme) {
+                extraParts.push({
+                    path: 'word/theme/theme1.xml',
+                    data: theme,
+                    contentType: 'application/vnd.openxmlformats-officedocument.theme+xml',
+                    relType: `${REL_TYPE}/theme`,
+                });
+            }
+            const fontTable = reference.get('word/fontTable.xml');
+            if (fontTable) {
+                extraParts.push({
+                    path: 'word/fontTable.xml',
+                    data: fontTable,
+                    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.fontTable+xml',
+                    relType: `${REL_TYPE}/fontTable`,
+                });
+            }
+        }
+
+        const fixedRelationships: OoxmlRelationship[] = [
+            { id: 'rId1', type: 'styles', target: 'styles.xml' },
+            { id: 'rId2', type: 'numbering', target: 'numbering.xml' },
+            { id: 'rId3', type: 'settings', target: 'settings.xml' },
+            { id: 'rId4', type: 'footnotes', target: 'footnotes.xml' },
+            ...extraParts.map((part, index) => ({
+                id: `rId${5 + index}`,
+                type: part.relType.split('/').pop()!,
+                target: part.path.replace(/^word\//, ''),
+            })),
+        ];
+        const documentRels = [...fixedRelationships, ...state.relationships].map(rel =>
+            `<Relationship Id="${rel.id}" Type="${REL_TYPE}/${rel.type}" Target="${escapeXml(rel.target)}"` +
+            `${rel.external ? ' TargetMode="External"' : ''}/>`
+        ).join('');
+
+        const imageTypes = new Set(state.images.map(image => image.extension));
+        const contentTypes = XML_DECLARATION +
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            [...imageTypes].map(ext => `<Default Extension="${ext}" ContentType="image/${ext}"/>`).join('') +
+            '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+            '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+            '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+            '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>' +
+            '<Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>' +
+            extraParts.map(part => `<Override PartName="/${part.path}" ContentType="${part.contentType}"/>`).join('') +
+            '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+            '</Types>';
+
+        const packageRels = XML_DECLARATION +
+            `<Relationships xmlns="${NS.rel}">` +
+            `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>` +
+            '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+            '</Relationships>';
+
+        const separators =
+            '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>' +
+            '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>';
+        const footnotes = XML_DECLARATION +
+            `<w:footnotes xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:m="${NS.m}" xmlns:wp="${NS.wp}">` +
+            separators + state.notes.join('') +
+            '</w:footnotes>';
+
+        // Ask Word to update the TOC field when the document opens
+        const settings = XML_DECLARATION +
+            `<w:settings xmlns:w="${NS.w}">` +
+            (opts.toc ? '<w:updateFields w:val="true"/>' : '') +
+            '<w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr>' +
+            '</w:settings>';
+
+        const title = state.officeOptions.title;
+        const author = state.officeOptions.author;
+        const core = XML_DECLARATION +
+            '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+            'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+            'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+            (title ? `<dc:title>${escapeXml(title)}</dc:title>` : '') +
+            (author ? `<dc:creator>${escapeXml(author)}</dc:creator>` : '') +
+            '</cp:coreProperties>';
+
+        return [
+            { path: '[Content_Types].xml', data: contentTypes },
+            { path: '_rels/.rels', data: packageRels },
+            { path: 'word/document.xml', data: this.wrapBody(body, state, sectPr) },
+            { path: 'word/_rels/document.xml.rels', data: `${XML_DECLARATION}<Relationships xmlns="${NS.rel}">${documentRels}</Relationships>` },
+            { path: 'word/styles.xml', data: styles },
+            { path: 'word/numbering.xml', data: numberingXml(state.lists) },
+            { path: 'word/settings.xml', data: settings },
+            { path: 'word/footnotes.xml', data: footnotes },
+            ...extraParts.map(part => ({ path: part.path, data: part.data })),
+            ...state.images.map(image => ({ path: `word/${image.name}`, data: image.data })),
+            { path: 'docProps/core.xml', data: core },
+        ];
+    }
+}
+
+/**
+ * A reference.docx holding the native writer's styles, to copy and restyle
+ * in Word
+ */
+export async function createReferenceDocx(): Promise<Buffer> {
+    const backend = new OoxmlExportBackend();
+    const sample = [
+        '#+TITLE: Title',
+        '#+SUBTITLE: Subtitle',
+        '#+AUTHOR: Author',
+        '#+DATE: Date',
+        '',
+        'First paragraph after a heading or the title.',
+        '',
+        'Body text. [[https://example.com][Hyperlink]], =verbatim=, and a footnote[fn:1].',
+        '',
+        '#+BEGIN_QUOTE',
+        'Block text.',
+        '#+END_QUOTE',
+        '',
+        '#+BEGIN_EXAMPLE',
+        'Source code',
+        '#+END_EXAMPLE',
+        '',
+        '#+CAPTION: Table caption',
+        '| Table |',
+        '|-------|',
+        '| Cell  |',
+        '',
+        '- Term :: Definition',
+        '',
+        ...[1, 2, 3, 4, 5, 6].map(level => `${'*'.repeat(level)} Heading ${level}\n`),
+        '[fn:1] Footnote text.',
+    ].join('\n');
+    return backend.exportPackage(parseOrgFast(sample), { sectionNumbers: false });
+}
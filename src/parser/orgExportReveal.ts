@@ -0,0 +1,624 @@
+/**
+ * reveal.js export backend for org-mode documents.
+ *
+ * Subclasses HtmlExportBackend, reusing the HTML machinery (markup, tables,
+ * lists, links, citations, source blocks, math) and overriding only what
+ * slides change:
+ *   - headline -> slide dispatch: headlines at or above the horizontal level
+ *     (#+REVEAL_HLEVEL, default 1) are horizontal slides, deeper ones down to
+ *     the frame level (H:, default one below) are vertical slides in their
+ *     stack, and anything deeper is content on its slide
+ *   - #+BEGIN_NOTES -> speaker notes (<aside class="notes">)
+ *   - #+ATTR_REVEAL: :frag / :frag_idx -> fragments
+ *   - :REVEAL_BACKGROUND: etc. properties -> slide data attributes
+ *   - title slide, TOC slide, footnote slide and bibliography slide
+ *   - the reveal.js page: theme, plugins (notes, highlight, math, ...),
+ *     Reveal.initialize() options
+ *
+ * Keywords follow org-re-reveal where they overlap: REVEAL_ROOT,
+ * REVEAL_THEME, REVEAL_TRANS, REVEAL_SPEED, REVEAL_HLEVEL, REVEAL_PLUGINS,
+ * REVEAL_INIT_OPTIONS, REVEAL_EXTRA_CSS, REVEAL_EXTRA_SCRIPT,
+ * REVEAL_TITLE_SLIDE, REVEAL_MATHJAX_URL.
+ *
+ * Reference: https://revealjs.com/  https://gitlab.com/oer/org-re-reveal
+ */
+
+import type {
+    OrgElement,
+    OrgDocumentNode,
+    HeadlineElement,
+    SpecialBlockElement,
+    ItemElement,
+} from './orgElementTypes';
+
+import type { ExportState } from './orgExport';
+import {
+    escapeString,
+    generateId,
+    shouldExport,
+    parseOptionsKeyword,
+} from './orgExport';
+import { stripNoteFootnotes } from './orgNotes';
+
+import {
+    HtmlExportBackend,
+    HtmlExportOptions,
+    HtmlExportState,
+    DEFAULT_HTML_OPTIONS,
+} from './orgExportHtml';
+
+import { exportHookRegistry } from '../adapters/exportHooksAdapter';
+
+// =============================================================================
+// reveal.js Options
+// =============================================================================
+
+/** reveal.js release the default root and bundled assets come from */
+export const REVEAL_VERSION = '5.1.0';
+
+/** Default location of reveal.js (dist/ and plugin/ live under it) */
+export const DEFAULT_REVEAL_ROOT = `https://cdn.jsdelivr.net/npm/reveal.js@${REVEAL_VERSION}`;
+
+/** Headline level of horizontal slides; the level below makes vertical stacks */
+export const DEFAULT_REVEAL_HLEVEL = 1;
+
+/**
+ * reveal.js plugins by their org name: script under the reveal.js root and
+ * the global the script defines
+ */
+export const REVEAL_PLUGINS: Record<string, { script: string; global: string; css?: string }> = {
+    notes:     { script: 'plugin/notes/notes.js',         global: 'RevealNotes' },
+    highlight: { script: 'plugin/highlight/highlight.js', global: 'RevealHighlight', css: 'plugin/highlight/monokai.css' },
+    math:      { script: 'plugin/math/math.js',           global: 'RevealMath.MathJax3' },
+    search:    { script: 'plugin/search/search.js',       global: 'RevealSearch' },
+    zoom:      { script: 'plugin/zoom/zoom.js',           global: 'RevealZoom' },
+    markdown:  { script: 'plugin/markdown/markdown.js',   global: 'RevealMarkdown' },
+};
+
+const DEFAULT_PLUGINS = ['notes', 'highlight', 'math'];
+
+export interface RevealExportOptions extends HtmlExportOptions {
+    /** reveal.js root URL or path (#+REVEAL_ROOT) */
+    revealRoot?: string;
+    /**
+     * Directory, relative to the output, holding reveal.js assets bundled
+     * from revealRoot (see export/revealAssets); the page loads from it
+     */
+    bundleDir?: string;
+    /** Theme name under dist/theme/ (#+REVEAL_THEME, default black) */
+    theme?: string;
+    /** Slide transition (#+REVEAL_TRANS: none, fade, slide, convex, concave, zoom) */
+    transition?: string;
+    /** Transition speed (#+REVEAL_SPEED: default, fast, slow) */
+    transitionSpeed?: string;
+    /** Level of horizontal slides (#+REVEAL_HLEVEL, default 1) */
+    hlevel?: number;
+    /** Deepest headline level that is a slide (H:, default hlevel + 1) */
+    frameLevel?: number;
+    /** Plugins to load, by name (#+REVEAL_PLUGINS) */
+    plugins?: string[];
+    /** Extra Reveal.initialize() options, as JavaScript (#+REVEAL_INIT_OPTIONS) */
+    initOptions?: string;
+    /** Extra stylesheets (#+REVEAL_EXTRA_CSS) */
+    extraCss?: string[];
+    /** Extra JavaScript run after initialization (#+REVEAL_EXTRA_SCRIPT) */
+    extraScript?: string;
+    /** Whether to add a title slide (#+REVEAL_TITLE_SLIDE: nil turns it off) */
+    titleSlide?: boolean;
+}
+
+const DEFAULT_REVEAL_OPTIONS: Partial<RevealExportOptions> = {
+    revealRoot: DEFAULT_REVEAL_ROOT,
+    theme: 'black',
+    transition: 'slide',
+    transitionSpeed: 'default',
+    hlevel: DEFAULT_REVEAL_HLEVEL,
+    plugins: DEFAULT_PLUGINS,
+    titleSlide: true,
+    // Numbered slide titles are rarely wanted; #+OPTIONS: num:t turns them on
+    sectionNumbers: false,
+    // reveal.js highlights code itself through the highlight plugin
+    highlightJs: false,
+    postamble: false,
+};
+
+/**
+ * Split a keyword value into words, accepting org-re-reveal's `(a b)` form
+ */
+function splitWords(value: string): string[] {
+    return value.replace(/[()]/g, ' ').split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Resolve reveal.js options from document keywords, #+OPTIONS: and explicit
+ * options. Document keywords win over options, which win over defaults.
+ * Also used before export to know which assets a presentation needs.
+ */
+export function resolveRevealOptions(
+    doc: OrgDocumentNode,
+    options?: Partial<RevealExportOptions>
+): RevealExportOptions {
+    const keywords = doc.keywords;
+    const optionsKeyword = keywords['OPTIONS'];
+    const parsedOptions = optionsKeyword ? parseOptionsKeyword(optionsKeyword) : {};
+
+    const opts: RevealExportOptions = {
+        ...DEFAULT_HTML_OPTIONS,
+        ...DEFAULT_REVEAL_OPTIONS,
+        ...parsedOptions,
+        ...options,
+        backend: 'revealjs',
+    };
+
+    if (keywords['REVEAL_ROOT']) opts.revealRoot = keywords['REVEAL_ROOT'].trim();
+    if (keywords['REVEAL_THEME']) opts.theme = keywords['REVEAL_THEME'].trim();
+    if (keywords['REVEAL_TRANS']) opts.transition = keywords['REVEAL_TRANS'].trim();
+    if (keywords['REVEAL_SPEED']) opts.transitionSpeed = keywords['REVEAL_SPEED'].trim();
+    if (keywords['REVEAL_MATHJAX_URL']) opts.mathJaxUrl = keywords['REVEAL_MATHJAX_URL'].trim();
+    if (keywords['REVEAL_INIT_OPTIONS']) opts.initOptions = keywords['REVEAL_INIT_OPTIONS'].trim();
+    if (keywords['REVEAL_EXTRA_SCRIPT']) opts.extraScript = keywords['REVEAL_EXTRA_SCRIPT'].trim();
+    if (keywords['REVEAL_EXTRA_CSS']) opts.extraCss = splitWords(keywords['REVEAL_EXTRA_CSS']);
+    if (keywords['REVEAL_PLUGINS']) opts.plugins = splitWords(keywords['REVEAL_PLUGINS']);
+    if (keywords['REVEAL_TITLE_SLIDE'] !== undefined) {
+        opts.titleSlide = !/^(nil|no|false)?$/i.test(keywords['REVEAL_TITLE_SLIDE'].trim());
+    }
+
+    const hlevel = parseInt(keywords['REVEAL_HLEVEL'] ?? '', 10);
+    if (hlevel > 0) opts.hlevel = hlevel;
+    const h = opts.hlevel || DEFAULT_REVEAL_HLEVEL;
+
+    // #+OPTIONS: H:N picks the deepest slide level, as in ox-beamer
+    opts.frameLevel = Math.max(
+        h,
+        parsedOptions.headlineLevel && parsedOptions.headlineLevel > 0
+            ? parsedOptions.headlineLevel
+            : options?.frameLevel ?? h + 1
+    );
+
+    // The math plugin is pointless without MathJax
+    if (opts.mathJax === false) {
+        opts.plugins = (opts.plugins || []).filter(p => p !== 'math');
+    }
+    return opts;
+}
+
+/**
+ * Files under the reveal.js root that a presentation with these options
+ * loads, for copying them next to the output
+ */
+export function revealAssetPaths(opts: RevealExportOptions): string[] {
+    const files = ['dist/reset.css', 'dist/reveal.css', 'dist/reveal.js'];
+    files.push(`dist/theme/${opts.theme || 'black'}.css`);
+    for (const name of opts.plugins || []) {
+        const plugin = REVEAL_PLUGINS[name];
+        if (!plugin) continue;
+        files.push(plugin.script);
+        if (plugin.css) files.push(plugin.css);
+    }
+    return files;
+}
+
+/**
+ * Add classes and attributes to the first opening tag of an HTML fragment
+ */
+function addToFirstTag(html: string, classes: string, attrs = ''): string {
+    return html.replace(/^(\s*)<([a-zA-Z][\w-]*)([^>]*?)(\/?)>/, (_m, space, tag, rest: string, slash) => {
+        const classMatch = rest.match(/\sclass="([^"]*)"/);
+        const withClass = classMatch
+            ? rest.replace(classMatch[0], ` class="${classMatch[1]} ${classes}"`)
+            : `${rest} class="${classes}"`;
+        return `${space}<${tag}${withClass}${attrs}${slash}>`;
+    });
+}
+
+/**
+ * Fragment class for a :frag value (`t` is a plain fragment)
+ */
+function fragmentClass(style: string): string {
+    return style === 't' || style === 'fragment' ? 'fragment' : `fragment ${style}`;
+}
+
+// =============================================================================
+// reveal.js Backend
+// =============================================================================
+
+export class RevealExportBackend extends HtmlExportBackend {
+    public readonly name = 'revealjs';
+
+    /** Fragment styles for the items of the lists being exported, innermost last */
+    private listFragments: { styles: string[] | undefined; index: number }[] = [];
+
+    /**
+     * Override: resolve reveal.js keywords and options, then export the
+     * headlines as slides inside a reveal.js page.
+     */
+    exportDocument(doc: OrgDocumentNode, options?: Partial<RevealExportOptions>): string {
+        this.listFragments = [];
+
+        let opts = resolveRevealOptions(doc, options);
+
+        opts = exportHookRegistry.runPreExportHooks({
+            document: doc,
+            options: opts,
+            backend: 'revealjs',
+        }) as RevealExportOptions;
+
+        const state = this.createState(doc, opts);
+        // Headings inside a slide sit below its title
+        state.headlineOffset = 1;
+
+        const title = opts.title || doc.keywords['TITLE'] || '';
+        const author = opts.author || doc.keywords['AUTHOR'] || '';
+        const email = opts.email || doc.keywords['EMAIL'] || '';
+        const date = opts.date || doc.keywords['DATE'] || '';
+        const language = opts.language || doc.keywords['LANGUAGE'] || 'en';
+
+        const slides: string[] = [];
+        if (opts.titleSlide !== false && title && !opts.bodyOnly) {
+            slides.push(this.titleSlide({ title, author, email, date, ...opts }));
+        }
+        slides.push(this.exportSlides(doc, state, opts));
+        const content = slides.filter(s => s.trim()).join('\n');
+
+        let output: string;
+        if (opts.bodyOnly) {
+            output = content;
+        } else {
+            output = this.wrapInRevealDocument(content, { title, author, language, ...opts });
+        }
+
+        output = exportHookRegistry.runPostExportHooks(output, {
+            backend: 'revealjs',
+            options: opts,
+        });
+
+        return output;
+    }
+
+    /**
+     * All slides: preamble, TOC, headlines, footnotes and bibliography
+     */
+    protected exportSlides(doc: OrgDocumentNode, state: HtmlExportState, opts: RevealExportOptions): string {
+        const slides: string[] = [];
+
+        // Text before the first headline gets a slide of its own
+        if (doc.section) {
+            const content = this.exportSection(doc.section, state);
+            if (content.trim()) {
+                slides.push(`<section class="org-preamble">\n${content}</section>`);
+            }
+        }
+
+        if (state.options.toc) {
+            const toc = this.generateToc(doc, state);
+            if (toc) {
+                slides.push(`<section id="table-of-contents">\n${toc}</section>`);
+            }
+        }
+
+        for (const headline of doc.children) {
+            if (shouldExport(headline, state.options)) {
+                slides.push(this.exportSlide(headline, state, opts));
+            }
+        }
+
+        const footnotes = this.exportFootnotes(state);
+        if (footnotes) {
+            slides.push(`<section id="footnotes-slide" class="org-footnotes-slide">\n${footnotes}</section>`);
+        }
+
+        // The bibliography is already a <section>, so it becomes a slide
+        if (opts.bibliography !== false && state.citationProcessor) {
+            const bibliography = state.citationProcessor.generateBibliography(state.citationLocations);
+            if (bibliography) {
+                slides.push(bibliography.replace('<section class="bibliography">', '<section id="bibliography" class="bibliography">'));
+            }
+        }
+
+        return slides.join('\n');
+    }
+
+    /**
+     * A horizontal slide; with vertical children it becomes a stack whose
+     * first slide is the headline itself
+     */
+    protected exportSlide(headline: HeadlineElement, state: ExportState, opts: RevealExportOptions): string {
+        const hlevel = opts.hlevel || DEFAULT_REVEAL_HLEVEL;
+        const frameLevel = opts.frameLevel || hlevel + 1;
+        const level = headline.properties.level;
+
+        const slideChildren = headline.children.filter(child =>
+            shouldExport(child, state.options) && child.properties.level <= frameLevel
+        );
+        const own = this.renderSlide(headline, state, frameLevel);
+
+        if (slideChildren.length === 0) {
+            return own;
+        }
+
+        const children = slideChildren.map(child =>
+            level < hlevel
+                ? this.exportSlide(child, state, opts)
+                : this.exportVerticalSlides(child, state, frameLevel)
+        );
+
+        // Above the horizontal level a headline only groups its children
+        if (level < hlevel) {
+            return [own, ...children].join('\n');
+        }
+        return `<section>\n${own}\n${children.join('\n')}\n</section>`;
+    }
+
+    /**
+     * A vertical slide followed by its slide-level descendants, flattened
+     * into the same stack (reveal.js has only two dimensions)
+     */
+    private exportVerticalSlides(headline: HeadlineElement, state: ExportState, frameLevel: number): string {
+        const slides = [this.renderSlide(headline, state, frameLevel)];
+        for (const child of headline.children) {
+            if (shouldExport(child, state.options) && child.properties.level <= frameLevel) {
+                slides.push(this.exportVerticalSlides(child, state, frameLevel));
+            }
+        }
+        return slides.join('\n');
+    }
+
+    /**
+     * One <section>: title, section content and headlines below the frame
+     * level as headings on the slide
+     */
+    private renderSlide(headline: HeadlineElement, state: ExportState, frameLevel: number): string {
+        const id = headline.properties.customId ||
+            headline.propertiesDrawer?.CUSTOM_ID ||
+            headline.properties.id ||
+            generateId(headline.properties.rawValue);
+        const tag = `h${Math.min(headline.properties.level + 1, 6)}`;
+
+        const parts: string[] = [`<section id="${escapeString(id, 'html')}"${this.slideAttributes(headline)}>`];
+        parts.push(`<${tag}>${this.exportHeadlineTitle(headline, state)}</${tag}>`);
+        if (headline.section) {
+            parts.push(this.exportSection(headline.section, state));
+        }
+        for (const child of headline.children) {
+            if (shouldExport(child, state.options) && child.properties.level > frameLevel) {
+                parts.push(this.exportHeadline(child, state));
+            }
+        }
+        parts.push('</section>');
+        return parts.join('\n');
+    }
+
+    /**
+     * Slide data attributes from org-re-reveal style properties
+     */
+    private slideAttributes(headline: HeadlineElement): string {
+        const props = headline.propertiesDrawer || {};
+        const attributes: [string, string][] = [
+            ['REVEAL_BACKGROUND', 'data-background'],
+            ['REVEAL_BACKGROUND_SIZE', 'data-background-size'],
+            ['REVEAL_BACKGROUND_POSITION', 'data-background-position'],
+            ['REVEAL_BACKGROUND_REPEAT', 'data-background-repeat'],
+            ['REVEAL_BACKGROUND_OPACITY', 'data-background-opacity'],
+            ['REVEAL_BACKGROUND_TRANS', 'data-background-transition'],
+            ['REVEAL_DATA_TRANSITION', 'data-transition'],
+            ['REVEAL_DATA_STATE', 'data-state'],
+        ];
+        let html = '';
+        for (const [property, attribute] of attributes) {
+            const value = props[property];
+            if (value) {
+                html += ` ${attribute}="${escapeString(value.trim(), 'html')}"`;
+            }
+        }
+        // Raw attributes, e.g. `data-auto-animate class="center"`
+        if (props['REVEAL_EXTRA_ATTR']) {
+            html += ` ${props['REVEAL_EXTRA_ATTR'].trim()}`;
+        }
+        return html;
+    }
+
+    // -------------------------------------------------------------------------
+    // Fragments and notes
+    // -------------------------------------------------------------------------
+
+    /**
+     * Override: apply #+ATTR_REVEAL: :frag to the element, or to each item
+     * of a list when the value is a parenthesized list of styles
+     */
+    exportElement(element: OrgElement, state: ExportState): string {
+        const attr = element.affiliated?.attr?.reveal;
+        const frag = attr?.frag?.trim();
+
+        if (element.type === 'plain-list') {
+            const styles = frag?.startsWith('(')
+                ? splitWords(frag)
+                : frag ? [frag] : undefined;
+            this.listFragments.push({ styles, index: 0 });
+            try {
+                return super.exportElement(element, state);
+            } finally {
+                this.listFragments.pop();
+            }
+        }
+
+        const html = super.exportElement(element, state);
+        if (!frag || !html.trim()) {
+            return html;
+        }
+        const index = attr?.frag_idx ? ` data-fragment-index="${escapeString(attr.frag_idx, 'html')}"` : '';
+        return addToFirstTag(html, fragmentClass(frag), index);
+    }
+
+    /**
+     * Override: make list items fragments when the list asked for it. A
+     * single style applies to every item; a list of styles is used in order,
+     * repeating the last one.
+     */
+    protected exportListItem(item: ItemElement, state: ExportState, listType: string): string {
+        const context = this.listFragments[this.listFragments.length - 1];
+        const html = super.exportListItem(item, state, listType);
+        if (!context?.styles || context.styles.length === 0) {
+            return html;
+        }
+        const style = context.styles[Math.min(context.index, context.styles.length - 1)];
+        context.index++;
+        if (style === 'none') {
+            return html;
+        }
+        return addToFirstTag(html, fragmentClass(style));
+    }
+
+    /**
+     * Override: #+BEGIN_NOTES becomes speaker notes
+     */
+    protected exportSpecialBlock(block: SpecialBlockElement, state: ExportState): string {
+        if (block.properties.blockType.toLowerCase() === 'notes') {
+            const content = block.children
+                .map(child => this.exportElement(child, state))
+                .join('\n');
+            return `<aside class="notes">\n${content}</aside>\n`;
+        }
+        return super.exportSpecialBlock(block, state);
+    }
+
+    // -------------------------------------------------------------------------
+    // Page
+    // -------------------------------------------------------------------------
+
+    private titleSlide(meta: {
+        title: string;
+        author: string;
+        email: string;
+        date: string;
+    } & RevealExportOptions): string {
+        const parts = ['<section id="title-slide">'];
+        parts.push(`<h1 class="title">${escapeString(meta.title, 'html')}</h1>`);
+        if (meta.author && meta.includeAuthor !== false) {
+            let author = escapeString(meta.author, 'html');
+            if (meta.email && meta.includeEmail === true) {
+                author += ` &lt;${escapeString(meta.email, 'html')}&gt;`;
+            }
+            parts.push(`<h2 class="author">${author}</h2>`);
+        }
+        if (meta.date && meta.includeDate !== false) {
+            parts.push(`<p class="date">${escapeString(meta.date, 'html')}</p>`);
+        }
+        parts.push('</section>');
+        return parts.join('\n');
+    }
+
+    private wrapInRevealDocument(
+        content: string,
+        meta: { title: string; author: string; language: string } & RevealExportOptions
+    ): string {
+        const root = (meta.bundleDir || meta.revealRoot || DEFAULT_REVEAL_ROOT).replace(/\/+$/, '');
+        const plugins = (meta.plugins || []).filter(name => REVEAL_PLUGINS[name]);
+        const parts: string[] = [];
+
+        parts.push(meta.doctype || '<!DOCTYPE html>');
+        parts.push(`<html lang="${escapeString(meta.language, 'html')}">`);
+        parts.push('<head>');
+        parts.push('<meta charset="utf-8" />');
+        parts.push('<meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no" />');
+        parts.push(`<title>${escapeString(meta.title || 'Slides', 'html')}</title>`);
+        if (meta.author) {
+            parts.push(`<meta name="author" content="${escapeString(meta.author, 'html')}" />`);
+        }
+        parts.push(`<link rel="stylesheet" href="${root}/dist/reset.css" />`);
+        parts.push(`<link rel="stylesheet" href="${root}/dist/reveal.css" />`);
+        parts.push(`<link rel="stylesheet" href="${root}/dist/theme/${meta.theme || 'black'}.css" id="theme" />`);
+        for (const name of plugins) {
+            const css = REVEAL_PLUGINS[name].css;
+            if (css) parts.push(`<link rel="stylesheet" href="${root}/${css}" />`);
+        }
+        for (const css of [...(meta.cssFiles || []), ...(meta.extraCss || [])]) {
+            parts.push(`<link rel="stylesheet" href="${css}" />`);
+        }
+        parts.push(this.getRevealStyles());
+        if (meta.css) {
+            parts.push(`<style>${meta.css}</style>`);
+        }
+        if (meta.headExtra) {
+            parts.push(meta.headExtra);
+        }
+        parts.push('</head>');
+
+        parts.push('<body>');
+        parts.push('<div class="reveal">');
+        parts.push('<div class="slides">');
+        parts.push(content);
+        parts.push('</div>');
+        parts.push('</div>');
+
+        parts.push(`<script src="${root}/dist/reveal.js"></script>`);
+        for (const name of plugins) {
+            parts.push(`<script src="${root}/${REVEAL_PLUGINS[name].script}"></script>`);
+        }
+
+        const init: string[] = [
+            'hash: true',
+            `transition: ${JSON.stringify(meta.transition || 'slide')}`,
+            `transitionSpeed: ${JSON.stringify(meta.transitionSpeed || 'default')}`,
+        ];
+        if (plugins.includes('math')) {
+            // Same delimiters as the HTML export writes
+            init.push(`mathjax3: { mathjax: ${JSON.stringify(meta.mathJaxUrl)}, tex: { inlineMath: [['\\\\(', '\\\\)']], displayMath: [['\\\\[', '\\\\]']] } }`);
+        }
+        init.push(`plugins: [${plugins.map(name => REVEAL_PLUGINS[name].global).join(', ')}]`);
+        if (meta.initOptions) {
+            init.push(meta.initOptions.replace(/,\s*$/, ''));
+        }
+        parts.push(`<script>\nReveal.initialize({\n  ${init.join(',\n  ')}\n});\n</script>`);
+
+        for (const js of meta.jsFiles || []) {
+            parts.push(`<script src="${js}"></script>`);
+        }
+        const scripts = [meta.javascript, meta.extraScript].filter(Boolean);
+        if (scripts.length > 0) {
+            parts.push(`<script>\n${scripts.join('\n')}\n</script>`);
+        }
+
+        parts.push('</body>');
+        parts.push('</html>');
+        return parts.join('\n');
+    }
+
+    /**
+     * Styles for org markup that reveal.js themes do not cover
+     */
+    private getRevealStyles(): string {
+        return `<style>
+.reveal .org-todo-keyword { font-weight: bold; margin-right: 0.3em; }
+.reveal .org-todo-todo { color: #ff6b6b; }
+.reveal .org-todo-done { color: #51cf66; }
+.reveal .org-tags { font-size: 0.5em; vertical-align: middle; margin-left: 0.5em; opacity: 0.7; }
+.reveal .org-tag { margin-left: 0.3em; }
+.reveal .org-table { margin: 0 auto; font-size: 0.8em; }
+.reveal .org-src-caption { font-size: 0.6em; }
+.reveal .org-center { text-align: center; }
+.reveal .verse { white-space: pre-line; font-style: italic; }
+.reveal .org-underline { text-decoration: underline; }
+.reveal .org-footnotes, .reveal .bibliography { font-size: 0.55em; text-align: left; }
+.reveal .slides section.bibliography, .reveal .slides section.org-footnotes-slide { height: 100%; overflow-y: auto; }
+.reveal .bibliography .csl-entry { margin-bottom: 0.5em; padding-left: 2em; text-indent: -2em; }
+.reveal .citation-missing { color: #ff6b6b; font-style: italic; }
+.reveal .admonition { padding: 0.5em 1em; border-left: 4px solid; text-align: left; }
+</style>`;
+    }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/** Export a parsed org document as a reveal.js HTML presentation. */
+export function exportToReveal(
+    doc: OrgDocumentNode,
+    options?: Partial<RevealExportOptions>
+): string {
+    if (options?.excludeNoteFootnotes !== false) {
+        stripNoteFootnotes(doc);
+    }
+    const backend = new RevealExportBackend();
+    return backend.exportDocument(doc, options);
+}
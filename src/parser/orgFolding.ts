@@ -0,0 +1,156 @@
+/**
+ * Org folding ranges
+ *
+ * Pure computation of the foldable regions of an org document: headline
+ * subtrees, blocks, drawers, dynamic blocks and #+RESULTS output. Shared by
+ * the editor's folding provider and the language server.
+ */
+
+/** A foldable region; lines are 0-based and inclusive */
+export interface OrgFoldingRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Folding ranges for the lines of an org document. `isCancelled` is polled
+ * once per line, including while looking ahead for the end of a block, so
+ * long documents can stop early; a cancelled scan returns the ranges found
+ * so far and leaves open headings unfolded.
+ */
+export function computeOrgFoldingRanges(lines: string[], isCancelled?: () => boolean): OrgFoldingRange[] {
+    const ranges: OrgFoldingRange[] = [];
+    let cancelled = false;
+    const stop = (): boolean => {
+        cancelled = cancelled || !!isCancelled?.();
+        return cancelled;
+    };
+
+    // Track heading positions by level
+    const headingStack: { level: number; line: number }[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (stop()) {
+            return ranges;
+        }
+
+        const line = lines[i];
+
+        // Check for headings
+        const headingMatch = line.match(/^(\*+)\s/);
+        if (headingMatch) {
+            const level = headingMatch[1].length;
+
+            // Close all headings of same or higher level
+            while (headingStack.length > 0) {
+                const top = headingStack[headingStack.length - 1];
+                if (top.level >= level) {
+                    headingStack.pop();
+                    // Create folding range from heading to line before this one
+                    if (i - 1 > top.line) {
+                        ranges.push({ start: top.line, end: i - 1 });
+                    }
+                } else {
+                    break;
+                }
+            }
+
+            // Push this heading onto stack
+            headingStack.push({ level, line: i });
+        }
+
+        // Check for blocks (#+BEGIN_... to #+END_...)
+        const beginBlockMatch = line.match(/^\s*#\+BEGIN_(\w+)/i);
+        if (beginBlockMatch) {
+            const blockName = beginBlockMatch[1].toUpperCase();
+            // Find matching END
+            for (let j = i + 1; j < lines.length && !stop(); j++) {
+                const endMatch = lines[j].match(new RegExp(`^\\s*#\\+END_${blockName}`, 'i'));
+                if (endMatch) {
+                    ranges.push({ start: i, end: j });
+                    break;
+                }
+            }
+        }
+
+        // Check for drawers (:NAME: to :END:)
+        const drawerMatch = line.match(/^\s*:([A-Za-z][A-Za-z0-9_-]*):\s*$/);
+        if (drawerMatch && drawerMatch[1].toUpperCase() !== 'END') {
+            // Find matching :END:
+            for (let j = i + 1; j < lines.length && !stop(); j++) {
+                if (lines[j].match(/^\s*:END:\s*$/i)) {
+                    ranges.push({ start: i, end: j });
+                    break;
+                }
+            }
+        }
+
+        // Check for dynamic blocks (#+BEGIN: to #+END:)
+        if (line.match(/^\s*#\+BEGIN:\s/i)) {
+            for (let j = i + 1; j < lines.length && !stop(); j++) {
+                if (lines[j].match(/^\s*#\+END:?\s*$/i)) {
+                    ranges.push({ start: i, end: j });
+                    break;
+                }
+            }
+        }
+
+        // Check for #+RESULTS: blocks (verbatim output until blank or different content)
+        if (line.match(/^\s*#\+RESULTS(\[.*\])?:/i)) {
+            let endLine = i;
+            for (let j = i + 1; j < lines.length && !stop(); j++) {
+                const resultLine = lines[j];
+                // Results continue with : prefix, | (table), or empty line within block
+                if (resultLine.match(/^: /) || resultLine.match(/^\|/) ||
+                    resultLine.match(/^\s*#\+BEGIN_/i) || resultLine.trim() === '') {
+                    // Check if empty line ends results
+                    if (resultLine.trim() === '') {
+                        // Look ahead - if next non-empty line is still a result, continue
+                        let nextNonEmpty = j + 1;
+                        while (nextNonEmpty < lines.length && lines[nextNonEmpty].trim() === '') {
+                            nextNonEmpty++;
+                        }
+                        if (nextNonEmpty < lines.length &&
+                            (lines[nextNonEmpty].match(/^: /) || lines[nextNonEmpty].match(/^\|/))) {
+                            endLine = j;
+                            continue;
+                        }
+                        break;
+                    }
+                    endLine = j;
+                    // If it's a BEGIN block, find its end
+                    if (resultLine.match(/^\s*#\+BEGIN_(\w+)/i)) {
+                        const blockName = resultLine.match(/^\s*#\+BEGIN_(\w+)/i)![1];
+                        for (let k = j + 1; k < lines.length && !stop(); k++) {
+                            if (lines[k].match(new RegExp(`^\\s*#\\+END_${blockName}`, 'i'))) {
+                                endLine = k;
+                                j = k;
+                                break;
+                            }
+                        }
+                    }
+                } else {
+                    break;
+                }
+            }
+            if (endLine > i) {
+                ranges.push({ start: i, end: endLine });
+            }
+        }
+    }
+
+    // Close any remaining headings at end of document
+    while (headingStack.length > 0) {
+        const top = headingStack.pop()!;
+        // Find last non-empty line
+        let lastLine = lines.length - 1;
+        while (lastLine > top.line && lines[lastLine].trim() === '') {
+            lastLine--;
+        }
+        if (lastLine > top.line) {
+            ranges.push({ start: top.line, end: lastLine });
+        }
+    }
+
+    return ranges;
+}
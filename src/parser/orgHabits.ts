@@ -0,0 +1,444 @@
+/**
+ * Org habits: repeating tasks tracked for consistency
+ * No VS Code dependencies - shared by the extension and the CLI
+ *
+ * A habit is a heading with `:STYLE: habit` and a repeating SCHEDULED
+ * timestamp. The repeater may carry a range, as in `<2024-04-15 Mon .+2d/4d>`:
+ * do it no sooner than every two days and no later than every four.
+ * Completions are read from the state-change notes repeating tasks leave in
+ * the logbook (`- State "DONE" from "TODO" [2024-04-14 Sun 08:10]`).
+ *
+ * The consistency graph is a port of org-habit-build-graph, so a habit
+ * looks the same here as in Emacs: each day is clear (blue, too early),
+ * ready (green), alert (yellow, last day of the range) or overdue (red),
+ * with `*` on days it was done and `!` on today.
+ */
+
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { parseOrg } from './orgParserUnified';
+import type { HeadlineElement } from './orgElementTypes';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type HabitRepeaterType = '+' | '++' | '.+';
+
+/** A habit's SCHEDULED repeater, e.g. `.+2d/4d` */
+export interface HabitRepeater {
+    /** Repeater text as written */
+    raw: string;
+    type: HabitRepeaterType;
+    /** Minimum interval in days (the part before the slash) */
+    minDays: number;
+    /** Maximum interval in days (after the slash), if a range is given */
+    maxDays?: number;
+}
+
+export interface Habit {
+    /** Headline text */
+    title: string;
+    /** TODO state if present */
+    todoState?: string;
+    /** File path */
+    file: string;
+    /** Line number of the heading (1-based) */
+    line: number;
+    /** Current SCHEDULED date (start of day) */
+    scheduled: Date;
+    repeater: HabitRepeater;
+    /** Days the habit was done, oldest first (one entry per logged completion) */
+    completions: Date[];
+}
+
+/**
+ * State of one day in the graph, named after org-habit's faces:
+ * clear (too early), ready, alert (last day of the range) and overdue
+ */
+export type HabitFace = 'clear' | 'ready' | 'alert' | 'overdue';
+
+export interface HabitDay {
+    date: Date;
+    face: HabitFace;
+    /**
+     * Drawn in the lighter variant of the face: days after today, and past
+     * days that were neither done nor overdue
+     */
+    future: boolean;
+    /** The habit was done on this day */
+    done: boolean;
+    today: boolean;
+}
+
+export interface HabitGraphOptions {
+    /** Defaults to the current date */
+    today?: Date;
+    /** Days shown before today (org-habit-preceding-days) */
+    precedingDays?: number;
+    /** Days shown after today (org-habit-following-days) */
+    followingDays?: number;
+}
+
+export interface HabitStats {
+    /** Days with at least one logged completion */
+    completions: number;
+    /** Completions in a row, each within the allowed interval, up to today */
+    currentStreak: number;
+    longestStreak: number;
+    /** Intervals that passed without a completion since the first one */
+    misses: number;
+    lastDone?: Date;
+    /** Current SCHEDULED date */
+    nextDue: Date;
+    /** How the habit stands today */
+    status: HabitFace;
+}
+
+export interface HabitParseOptions {
+    /** TODO keywords, passed to the parser */
+    todoKeywords?: string[];
+    /** States whose log entries count as completions (default DONE) */
+    doneKeywords?: string[];
+}
+
+export const DEFAULT_HABIT_PRECEDING_DAYS = 21;
+export const DEFAULT_HABIT_FOLLOWING_DAYS = 7;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/** Days per repeater unit, as org-habit-duration-to-days counts them */
+const UNIT_DAYS: Record<string, number> = {
+    h: 1 / 24,
+    d: 1,
+    w: 7,
+    m: 30.4,
+    y: 365.25,
+};
+
+const HABIT_REPEATER = /(\.\+|\+\+|\+)(\d+)([hdwmy])(?:\/(\d+)([hdwmy]))?/;
+
+/**
+ * Parse a habit repeater, either on its own (`.+1d/3d`) or inside a timestamp.
+ * @throws If there is no repeater, the interval is shorter than a day, or
+ * the range does not end after it starts
+ */
+export function parseHabitRepeater(text: string): HabitRepeater {
+    const match = text.match(HABIT_REPEATER);
+    if (!match) {
+        throw new Error(`no scheduled repeat period in "${text}"`);
+    }
+    const minDays = Math.floor(parseInt(match[2], 10) * UNIT_DAYS[match[3]]);
+    if (minDays < 1) {
+        throw new Error(`repeat period ${match[0]} is less than 1d`);
+    }
+    const repeater: HabitRepeater = {
+        raw: match[0],
+        type: match[1] as HabitRepeaterType,
+        minDays,
+    };
+    if (match[4]) {
+        const maxDays = Math.floor(parseInt(match[4], 10) * UNIT_DAYS[match[5]]);
+        if (maxDays <= minDays) {
+            throw new Error(`repeat range ${match[0]} does not end after it starts`);
+        }
+        repeater.maxDays = maxDays;
+    }
+    return repeater;
+}
+
+const STATE_CHANGE = /^\s*-\s+State\s+"([^"]+)".*?\[(\d{4})-(\d{2})-(\d{2})[^\]]*\]/;
+
+/**
+ * Read completion days from state-change notes, oldest first. A note counts
+ * when the state it changed to is one of `doneStates`.
+ */
+export function parseHabitCompletions(lines: string[], doneStates: string[]): Date[] {
+    const done = new Set(doneStates);
+    const dates: Date[] = [];
+    for (const line of lines) {
+        const match = line.match(STATE_CHANGE);
+        if (match && done.has(match[1])) {
+            dates.push(new Date(parseInt(match[2], 10), parseInt(match[3], 10) - 1, parseInt(match[4], 10)));
+        }
+    }
+    return dates.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/** True for headings with `:STYLE: habit` */
+export function isHabitHeadline(headline: HeadlineElement): boolean {
+    return headline.propertiesDrawer?.STYLE?.trim().toLowerCase() === 'habit';
+}
+
+/**
+ * Find the habits of an org file. A habit without a usable SCHEDULED
+ * repeater is reported in `errors` rather than dropped silently.
+ */
+export function parseHabits(
+    content: string,
+    filePath: string,
+    options: HabitParseOptions = {}
+): { habits: Habit[]; errors: string[] } {
+    const doneStates = options.doneKeywords ?? ['DONE'];
+    const document = parseOrg(content, {
+        todoKeywords: options.todoKeywords,
+        doneKeywords: options.doneKeywords,
+        addPositions: false,
+        filePath,
+    });
+
+    // Every heading line, so each habit's section ends where the next starts.
+    const candidates: HeadlineElement[] = [];
+    const headingLines: number[] = [];
+    const walk = (headlines: HeadlineElement[]): void => {
+        for (const headline of headlines) {
+            headingLines.push(headline.properties.lineNumber);
+            if (isHabitHeadline(headline)) candidates.push(headline);
+            walk(headline.children);
+        }
+    };
+    walk(document.children);
+    headingLines.sort((a, b) => a - b);
+
+    const lines = content.split('\n');
+    const habits: Habit[] = [];
+    const errors: string[] = [];
+    for (const headline of candidates) {
+        const props = headline.properties;
+        const line = props.lineNumber;
+        const where = `${filePath}:${line}: habit "${props.rawValue}"`;
+        const scheduled = headline.planning?.properties.scheduled;
+        if (!scheduled) {
+            errors.push(`${where} has no scheduled date`);
+            continue;
+        }
+        let repeater: HabitRepeater;
+        try {
+            repeater = parseHabitRepeater(scheduled.properties.rawValue);
+        } catch (error) {
+            errors.push(`${where}: ${error instanceof Error ? error.message : error}`);
+            continue;
+        }
+
+        const next = headingLines.find(n => n > line) ?? lines.length + 1;
+        const ts = scheduled.properties;
+        habits.push({
+            title: props.rawValue,
+            todoState: props.todoKeyword,
+            file: filePath,
+            line,
+            scheduled: new Date(ts.yearStart, ts.monthStart - 1, ts.dayStart),
+            repeater,
+            completions: parseHabitCompletions(lines.slice(line, next - 1), doneStates),
+        });
+    }
+    return { habits, errors };
+}
+
+// =============================================================================
+// Consistency graph
+// =============================================================================
+
+/** Day numbers keep the arithmetic below as close to org-habit's as possible */
+function dayNumber(date: Date): number {
+    return differenceInCalendarDays(date, new Date(1970, 0, 1));
+}
+
+/**
+ * The face of a day, given the scheduled day in force at the time
+ * (org-habit-get-faces). The deadline is the last day of the range.
+ */
+function habitFace(habit: Habit, day: number, scheduled: number, done: boolean): HabitFace {
+    const { minDays, maxDays } = habit.repeater;
+    const deadline = scheduled + (maxDays ?? minDays) - minDays;
+    if (day < scheduled) return 'clear';
+    if (day < deadline) return 'ready';
+    if (day === deadline) return done ? 'ready' : 'alert';
+    return 'overdue';
+}
+
+/**
+ * Build the consistency graph from `precedingDays` before today to
+ * `followingDays` after it (org-habit-build-graph).
+ */
+export function buildHabitGraph(habit: Habit, options: HabitGraphOptions = {}): HabitDay[] {
+    const today = startOfDay(options.today ?? new Date());
+    const first = addDays(today, -(options.precedingDays ?? DEFAULT_HABIT_PRECEDING_DAYS));
+    const last = addDays(today, options.followingDays ?? DEFAULT_HABIT_FOLLOWING_DAYS);
+
+    const now = dayNumber(today);
+    const scheduled = dayNumber(habit.scheduled);
+    const repeat = habit.repeater.minDays;
+    const allDone = habit.completions.map(dayNumber);
+    let pending = allDone.slice();
+    let lastDone: number | undefined;
+    while (pending.length > 0 && pending[0] < dayNumber(first)) {
+        lastDone = pending.shift();
+    }
+
+    const days: HabitDay[] = [];
+    for (let date = first; date <= last; date = addDays(date, 1)) {
+        const day = dayNumber(date);
+        const past = day < now;
+        const isToday = day === now;
+        const done = pending.length > 0 && pending[0] === day;
+
+        let face: HabitFace;
+        if (past && lastDone === undefined && !(scheduled < now)) {
+            // Nothing done yet: only the very first completion counts as ready.
+            face = allDone[0] === day ? 'ready' : 'clear';
+        } else {
+            // For past days, work out when the habit was scheduled back then.
+            let then = scheduled;
+            if (past && lastDone !== undefined && pending.length > 0) {
+                if (habit.repeater.type === '.+') {
+                    then = lastDone + repeat;
+                } else if (habit.repeater.type === '+') {
+                    // Each completion since then moved the date on by one repeat.
+                    then = scheduled - pending.length * repeat;
+                } else {
+                    // ++: the first step of the current date past the last completion.
+                    then = scheduled + (Math.floor((lastDone - scheduled) / repeat) + 1) * repeat;
+                }
+            }
+            face = habitFace(habit, day, then, done);
+        }
+
+        if (done) {
+            while (pending.length > 0 && pending[0] === day) {
+                lastDone = pending[0];
+                pending = pending.slice(1);
+            }
+        }
+
+        days.push({
+            date,
+            face,
+            future: (!past && !isToday) || (past && face !== 'overdue' && !done),
+            done,
+            today: isToday,
+        });
+    }
+    return days;
+}
+
+/**
+ * Draw the graph as text: `*` for days done and `!` for today. Without
+ * colors (`plain`), overdue days show as `-` and the rest as `.`.
+ */
+export function renderHabitGraph(days: HabitDay[], plain = false): string {
+    return days.map(day => {
+        if (day.done) return '*';
+        if (day.today) return '!';
+        if (!plain) return ' ';
+        return day.face === 'overdue' && !day.future ? '-' : '.';
+    }).join('');
+}
+
+// =============================================================================
+// Streaks
+// =============================================================================
+
+/**
+ * Streaks and misses from the completion history. A completion extends the
+ * streak when it comes within the allowed interval of the one before (the
+ * range's maximum, or the repeat itself without a range). Each full interval
+ * that passes with nothing done is a miss.
+ */
+export function computeHabitStats(habit: Habit, today: Date = new Date()): HabitStats {
+    const now = dayNumber(startOfDay(today));
+    const allowed = habit.repeater.maxDays ?? habit.repeater.minDays;
+    const days = [...new Set(habit.completions.map(dayNumber))].sort((a, b) => a - b);
+
+    let streak = 0;
+    let longestStreak = 0;
+    let misses = 0;
+    days.forEach((day, i) => {
+        const gap = i === 0 ? 0 : day - days[i - 1];
+        streak = gap <= allowed ? streak + 1 : 1;
+        if (gap > allowed) misses += Math.floor((gap - 1) / allowed);
+        longestStreak = Math.max(longestStreak, streak);
+    });
+
+    let currentStreak = streak;
+    const last = days[days.length - 1];
+    if (last !== undefined && now - last > allowed) {
+        currentStreak = 0;
+        misses += Math.floor((now - last - 1) / allowed);
+    }
+
+    return {
+        completions: days.length,
+        currentStreak,
+        longestStreak,
+        misses,
+        lastDone: last === undefined ? undefined : habit.completions[habit.completions.length - 1],
+        nextDue: habit.scheduled,
+        status: habitFace(habit, now, dayNumber(habit.scheduled), last === now),
+    };
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+const STATUS_LABELS: Record<HabitFace, string> = {
+    clear: 'not yet',
+    ready: 'due',
+    alert: 'last day',
+    overdue: 'overdue',
+};
+
+/** A human label for a habit's status today */
+export function habitStatusLabel(status: HabitFace): string {
+    return STATUS_LABELS[status];
+}
+
+/**
+ * Org text of a habit report: one table row per habit with its streaks,
+ * misses and a plain-text consistency graph.
+ */
+export function formatHabitReport(habits: Habit[], options: HabitGraphOptions = {}): string {
+    const today = startOfDay(options.today ?? new Date());
+    const rows = habits.map(habit => {
+        const stats = computeHabitStats(habit, today);
+        return [
+            `[[file:${habit.file}::${habit.line}][${habit.title.replace(/[[\]|]/g, '')}]]`,
+            habit.repeater.raw,
+            habitStatusLabel(stats.status),
+            String(stats.completions),
+            String(stats.currentStreak),
+            String(stats.longestStreak),
+            String(stats.misses),
+            stats.lastDone ? format(stats.lastDone, 'yyyy-MM-dd') : '',
+            format(stats.nextDue, 'yyyy-MM-dd'),
+            renderHabitGraph(buildHabitGraph(habit, { ...options, today }), true),
+        ];
+    });
+    const header = ['Habit', 'Repeat', 'Status', 'Done', 'Streak', 'Longest', 'Misses', 'Last done', 'Next', 'Graph'];
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+    const row = (cells: string[]) => `| ${cells.map((c, i) => c.padEnd(widths[i])).join(' | ')} |`;
+
+    const lines = [
+        '#+TITLE: Habit Report',
+        `#+DATE: ${format(today, 'yyyy-MM-dd')}`,
+        '',
+        '* Habits',
+        '',
+    ];
+    if (habits.length === 0) {
+        lines.push('No habits found. A habit is a heading with :STYLE: habit and a repeating SCHEDULED date.');
+        return lines.join('\n') + '\n';
+    }
+    lines.push(
+        row(header),
+        `|${widths.map(w => '-'.repeat(w + 2)).join('+')}|`,
+        ...rows.map(row),
+        '',
+        `Graph: ${options.precedingDays ?? DEFAULT_HABIT_PRECEDING_DAYS} days before today to`
+            + ` ${options.followingDays ?? DEFAULT_HABIT_FOLLOWING_DAYS} after;`
+            + ' * done, ! today, - overdue.',
+    );
+    return lines.join('\n') + '\n';
+}
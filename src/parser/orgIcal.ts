@@ -0,0 +1,607 @@
+/**
+ * iCalendar (RFC 5545) export and import for agenda items
+ * No VS Code dependencies - shared by the extension and the CLI
+ *
+ * Export mirrors org-icalendar: TODO headings become VTODO components and
+ * SCHEDULED/DEADLINE lines of other headings, plus plain active timestamps
+ * anywhere in a heading, become VEVENT components. Times are written as
+ * floating local times, exactly as org stores them.
+ *
+ * Import goes the other way: each VEVENT/VTODO of a .ics file becomes an org
+ * heading filed under a datetree, keeping the UID as :ID: so that importing
+ * the same calendar again skips entries that are already there.
+ */
+
+import * as crypto from 'crypto';
+import { format, addDays } from 'date-fns';
+import { parseOrg } from './orgParserUnified';
+import type {
+    HeadlineElement,
+    OrgElement,
+    OrgObject,
+    TimestampObject,
+} from './orgElementTypes';
+import {
+    formatOrgTimestamp,
+    repeaterToRRule,
+    rruleToRepeater,
+} from './orgRepeater';
+import { locateDatetreeEntry, DatetreeFormat } from './orgCapture';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An org file to export */
+export interface IcalSource {
+    filePath: string;
+    content: string;
+}
+
+export interface IcalExportOptions {
+    /** Calendar name (X-WR-CALNAME) */
+    calendarName?: string;
+    /** Export TODO headings in a done state as completed VTODOs */
+    includeDone?: boolean;
+    /** TODO keywords, passed to the parser */
+    todoKeywords?: string[];
+    /** Done keywords, passed to the parser */
+    doneKeywords?: string[];
+    /** Timestamp for DTSTAMP (defaults to now) */
+    now?: Date;
+}
+
+/** A date or date-time value of an iCalendar property */
+export interface IcalDateValue {
+    date: Date;
+    /** VALUE=DATE: no time of day */
+    allDay: boolean;
+}
+
+/** A VEVENT or VTODO read from a .ics file */
+export interface IcalItem {
+    kind: 'VEVENT' | 'VTODO';
+    uid?: string;
+    summary: string;
+    start?: IcalDateValue;
+    end?: IcalDateValue;
+    due?: IcalDateValue;
+    rrule?: string;
+    status?: string;
+    priority?: number;
+    location?: string;
+    description?: string;
+    categories: string[];
+}
+
+export interface IcalImportOptions {
+    /** Datetree granularity (scimax.capture.datetreeFormat) */
+    treeFormat?: DatetreeFormat;
+    /** Date used for items that carry no date at all (defaults to now) */
+    now?: Date;
+}
+
+export interface IcalImportResult {
+    content: string;
+    imported: number;
+    /** Items whose UID is already an :ID: in the target */
+    skipped: number;
+}
+
+// =============================================================================
+// Text encoding
+// =============================================================================
+
+const PRODID = '-//scimax//scimax-vscode//EN';
+
+/** Escape a TEXT value (RFC 5545 3.3.11) */
+export function escapeIcalText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/** Reverse of escapeIcalText */
+export function unescapeIcalText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_m, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 3.1). Continuation lines start
+ * with a single space; multi-byte characters are never split.
+ */
+export function foldIcalLine(line: string): string {
+    if (Buffer.byteLength(line, 'utf-8') <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const ch of line) {
+        const size = Buffer.byteLength(ch, 'utf-8');
+        // Continuation lines lose one octet to the leading space.
+        const limit = parts.length === 0 ? 75 : 74;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += ch;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+interface ExportContext {
+    options: IcalExportOptions;
+    stamp: string;
+    uids: Set<string>;
+    lines: string[];
+}
+
+/**
+ * Build a VCALENDAR from org files
+ */
+export function exportIcal(sources: IcalSource[], options: IcalExportOptions = {}): string {
+    const ctx: ExportContext = {
+        options,
+        stamp: formatUtcDateTime(options.now ?? new Date()),
+        uids: new Set(),
+        lines: [],
+    };
+
+    for (const source of sources) {
+        const document = parseOrg(source.content, {
+            todoKeywords: options.todoKeywords,
+            doneKeywords: options.doneKeywords,
+            addPositions: false,
+            filePath: source.filePath,
+        });
+        for (const headline of document.children) {
+            exportHeadline(headline, source.filePath, [], ctx);
+        }
+    }
+
+    const header = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+    ];
+    if (options.calendarName) {
+        header.push(`X-WR-CALNAME:${escapeIcalText(options.calendarName)}`);
+    }
+    return [...header, ...ctx.lines, 'END:VCALENDAR']
+        .map(foldIcalLine)
+        .join('\r\n') + '\r\n';
+}
+
+function exportHeadline(
+    headline: HeadlineElement,
+    filePath: string,
+    outline: string[],
+    ctx: ExportContext
+): void {
+    const props = headline.properties;
+    // Archived and commented subtrees are hidden from the agenda, so from
+    // the calendar too.
+    if (props.archivedp || props.commentedp) return;
+
+    const summary = cleanTitle(props.rawValue);
+    const path = [...outline, summary];
+    const isDone = props.todoType === 'done';
+    const exportable = !isDone || ctx.options.includeDone;
+    const planning = headline.planning?.properties;
+
+    const common: string[] = [];
+    if (props.tags.length > 0) {
+        common.push(`CATEGORIES:${props.tags.map(escapeIcalText).join(',')}`);
+    }
+    const location = headline.propertiesDrawer?.LOCATION;
+    if (location) common.push(`LOCATION:${escapeIcalText(location)}`);
+
+    if (exportable && props.todoKeyword) {
+        const body = [`SUMMARY:${escapeIcalText(summary)}`];
+        if (planning?.scheduled) body.push(...dateProperty('DTSTART', planning.scheduled));
+        if (planning?.deadline) body.push(...dateProperty('DUE', planning.deadline));
+        const repeating = planning?.scheduled ?? planning?.deadline;
+        const rrule = repeating && rruleFor(repeating);
+        if (rrule) body.push(`RRULE:${rrule}`);
+        body.push(`STATUS:${isDone ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+        const priority = icalPriority(props.priority);
+        if (priority) body.push(`PRIORITY:${priority}`);
+        emitComponent('VTODO', uidFor(headline, filePath, path, 'TODO', ctx), [...body, ...common], ctx);
+    } else if (exportable) {
+        // Plain headings appear in the agenda on their planning dates.
+        if (planning?.scheduled) {
+            emitEvent(planning.scheduled, summary, uidFor(headline, filePath, path, 'SC', ctx), common, ctx);
+        }
+        if (planning?.deadline) {
+            emitEvent(planning.deadline, `DL: ${summary}`, uidFor(headline, filePath, path, 'DL', ctx), common, ctx);
+        }
+    }
+
+    if (exportable) {
+        const timestamps = [
+            ...collectActiveTimestamps(props.title ?? []),
+            ...collectActiveTimestamps(headline.section?.children ?? []),
+        ];
+        timestamps.forEach((ts, i) => {
+            emitEvent(ts, summary, uidFor(headline, filePath, path, `TS${i + 1}`, ctx), common, ctx);
+        });
+    }
+
+    for (const child of headline.children) {
+        exportHeadline(child, filePath, path, ctx);
+    }
+}
+
+function emitEvent(
+    ts: TimestampObject,
+    summary: string,
+    uid: string,
+    common: string[],
+    ctx: ExportContext
+): void {
+    const body = [`SUMMARY:${escapeIcalText(summary)}`, ...dateProperty('DTSTART', ts)];
+    const end = timestampEnd(ts);
+    if (end) body.push(end);
+    const rrule = rruleFor(ts);
+    if (rrule) body.push(`RRULE:${rrule}`);
+    emitComponent('VEVENT', uid, [...body, ...common], ctx);
+}
+
+function emitComponent(kind: 'VEVENT' | 'VTODO', uid: string, body: string[], ctx: ExportContext): void {
+    ctx.lines.push(
+        `BEGIN:${kind}`,
+        `UID:${escapeIcalText(uid)}`,
+        `DTSTAMP:${ctx.stamp}`,
+        ...body,
+        `END:${kind}`
+    );
+}
+
+/**
+ * Property marking a heading created by importing a calendar item
+ */
+const IMPORTED_PROPERTY = 'ICAL_IMPORTED';
+
+/**
+ * Stable UID: `<kind>-<ID>` when the heading has an :ID:, as org-icalendar
+ * does, otherwise a hash of the file and outline path so that re-exporting
+ * updates rather than duplicates the calendar entry. An ID that already
+ * carries the kind prefix, or was itself a UID from an import, is used as is
+ * so that calendars survive a round trip.
+ */
+function uidFor(
+    headline: HeadlineElement,
+    filePath: string,
+    outline: string[],
+    kind: string,
+    ctx: ExportContext
+): string {
+    const id = headline.properties.id ?? headline.propertiesDrawer?.ID;
+    const imported = !!headline.propertiesDrawer?.[IMPORTED_PROPERTY];
+    const base = id
+        ? (imported || id.startsWith(`${kind}-`) ? id : `${kind}-${id}`)
+        : `${kind}-${crypto.createHash('sha1').update(`${filePath}\0${outline.join('\0')}`).digest('hex').slice(0, 16)}`;
+    // Headings with identical outline paths would otherwise collide.
+    let uid = base;
+    for (let n = 2; ctx.uids.has(uid); n++) uid = `${base}-${n}`;
+    ctx.uids.add(uid);
+    return uid;
+}
+
+/** Org priority A/B/C -> iCalendar 1 (high) / 5 / 9 (low) */
+function icalPriority(priority?: string): number | undefined {
+    switch (priority) {
+        case 'A': return 1;
+        case 'B': return 5;
+        case 'C': return 9;
+        default: return undefined;
+    }
+}
+
+/** Strip timestamps and link markup from a heading title */
+function cleanTitle(raw: string): string {
+    return raw
+        .replace(/<\d{4}-\d{2}-\d{2}[^>]*>(--<\d{4}-\d{2}-\d{2}[^>]*>)?/g, '')
+        .replace(/\[\[([^\]]*)\](?:\[([^\]]*)\])?\]/g, (_m, target: string, desc?: string) => desc ?? target)
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Active timestamps among parsed elements/objects. Planning and clock lines
+ * are skipped: planning is handled separately and clocks are inactive.
+ */
+function collectActiveTimestamps(nodes: (OrgElement | OrgObject)[]): TimestampObject[] {
+    const found: TimestampObject[] = [];
+    for (const node of nodes) {
+        if (node.type === 'planning' || node.type === 'clock' || node.type === 'headline') continue;
+        if (node.type === 'timestamp') {
+            const ts = node as TimestampObject;
+            if (ts.properties.timestampType === 'active' || ts.properties.timestampType === 'active-range') {
+                found.push(ts);
+            }
+            continue;
+        }
+        if (node.children) found.push(...collectActiveTimestamps(node.children));
+    }
+    return found;
+}
+
+function timestampStart(ts: TimestampObject): Date {
+    const p = ts.properties;
+    return new Date(p.yearStart, p.monthStart - 1, p.dayStart, p.hourStart ?? 0, p.minuteStart ?? 0);
+}
+
+function hasTime(ts: TimestampObject): boolean {
+    return ts.properties.hourStart !== undefined;
+}
+
+function dateProperty(name: string, ts: TimestampObject): string[] {
+    const start = timestampStart(ts);
+    return hasTime(ts)
+        ? [`${name}:${formatLocalDateTime(start)}`]
+        : [`${name};VALUE=DATE:${formatDate(start)}`];
+}
+
+/**
+ * DTEND for ranges (`<a>--<b>` or `<d 09:00-10:30>`). All-day ends are
+ * exclusive in iCalendar, so they move one day past org's inclusive end.
+ */
+function timestampEnd(ts: TimestampObject): string | undefined {
+    const p = ts.properties;
+    if (p.hourEnd === undefined && p.yearEnd === undefined) return undefined;
+    const end = new Date(
+        p.yearEnd ?? p.yearStart,
+        (p.monthEnd ?? p.monthStart) - 1,
+        p.dayEnd ?? p.dayStart,
+        p.hourEnd ?? 0,
+        p.minuteEnd ?? 0
+    );
+    if (!hasTime(ts)) return `DTEND;VALUE=DATE:${formatDate(addDays(end, 1))}`;
+    // `<a 09:00>--<b>` has no end time: end at the start time on the last day.
+    if (p.hourEnd === undefined) end.setHours(p.hourStart ?? 0, p.minuteStart ?? 0);
+    return `DTEND:${formatLocalDateTime(end)}`;
+}
+
+function rruleFor(ts: TimestampObject): string | null {
+    const p = ts.properties;
+    if (p.repeaterType && p.repeaterValue && p.repeaterUnit) {
+        return repeaterToRRule(`${p.repeaterType}${p.repeaterValue}${p.repeaterUnit}`);
+    }
+    // Planning-line timestamps are not broken down further; read the raw text.
+    const raw = p.rawValue.match(/\s((?:\.\+|\+\+|\+)\d+[hdwmy])[\s>]/);
+    return raw ? repeaterToRRule(raw[1]) : null;
+}
+
+function formatDate(date: Date): string {
+    return format(date, 'yyyyMMdd');
+}
+
+function formatLocalDateTime(date: Date): string {
+    return format(date, "yyyyMMdd'T'HHmmss");
+}
+
+function formatUtcDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+/** Unfold and split a .ics file into content lines */
+function readContentLines(text: string): ContentLine[] {
+    const unfolded = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '');
+    const result: ContentLine[] = [];
+    for (const raw of unfolded.split('\n')) {
+        if (!raw.trim()) continue;
+        // The value starts at the first colon outside a quoted parameter.
+        let colon = -1;
+        let quoted = false;
+        for (let i = 0; i < raw.length; i++) {
+            if (raw[i] === '"') quoted = !quoted;
+            else if (raw[i] === ':' && !quoted) { colon = i; break; }
+        }
+        if (colon < 0) continue;
+        const [name, ...paramParts] = raw.slice(0, colon).split(';');
+        const params: Record<string, string> = {};
+        for (const part of paramParts) {
+            const eq = part.indexOf('=');
+            if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+        result.push({ name: name.toUpperCase(), params, value: raw.slice(colon + 1) });
+    }
+    return result;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. UTC times (`Z`) are converted to local
+ * time; TZID-qualified and floating times are read as local time.
+ */
+export function parseIcalDate(value: string, params: Record<string, string> = {}): IcalDateValue | undefined {
+    const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!m) return undefined;
+    const [, y, mo, d, h, mi, s, z] = m;
+    if (h === undefined || params.VALUE === 'DATE') {
+        return { date: new Date(+y, +mo - 1, +d), allDay: true };
+    }
+    const date = z
+        ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s ?? 0)))
+        : new Date(+y, +mo - 1, +d, +h, +mi, +(s ?? 0));
+    return { date, allDay: false };
+}
+
+/**
+ * Read the VEVENT and VTODO components of a .ics file. Nested components
+ * (VALARM) and everything outside events and todos are ignored.
+ */
+export function parseIcal(text: string): IcalItem[] {
+    const items: IcalItem[] = [];
+    let current: IcalItem | null = null;
+    let nested = 0;
+
+    for (const line of readContentLines(text)) {
+        if (line.name === 'BEGIN') {
+            const kind = line.value.trim().toUpperCase();
+            if (current) nested++;
+            else if (kind === 'VEVENT' || kind === 'VTODO') {
+                current = { kind, summary: '', categories: [] };
+            }
+            continue;
+        }
+        if (line.name === 'END') {
+            if (current && nested > 0) nested--;
+            else if (current) {
+                items.push(current);
+                current = null;
+            }
+            continue;
+        }
+        if (!current || nested > 0) continue;
+
+        switch (line.name) {
+            case 'UID': current.uid = unescapeIcalText(line.value); break;
+            case 'SUMMARY': current.summary = unescapeIcalText(line.value); break;
+            case 'DESCRIPTION': current.description = unescapeIcalText(line.value); break;
+            case 'LOCATION': current.location = unescapeIcalText(line.value); break;
+            case 'STATUS': current.status = line.value.toUpperCase(); break;
+            case 'PRIORITY': current.priority = parseInt(line.value, 10) || undefined; break;
+            case 'RRULE': current.rrule = line.value; break;
+            case 'DTSTART': current.start = parseIcalDate(line.value, line.params); break;
+            case 'DTEND': current.end = parseIcalDate(line.value, line.params); break;
+            case 'DUE': current.due = parseIcalDate(line.value, line.params); break;
+            case 'CATEGORIES':
+                current.categories.push(...line.value.split(/(?<!\\),/).map(unescapeIcalText).filter(Boolean));
+                break;
+        }
+    }
+    return items;
+}
+
+function orgTimestamp(value: IcalDateValue, repeater?: string): string {
+    return value.allDay
+        ? formatOrgTimestamp(value.date, { repeater })
+        : formatOrgTimestamp(value.date, {
+            hour: value.date.getHours(),
+            minute: value.date.getMinutes(),
+            repeater,
+        });
+}
+
+/** The active timestamp (or range) for a VEVENT */
+function eventTimestamp(item: IcalItem, repeater?: string): string | undefined {
+    const { start, end } = item;
+    if (!start) return undefined;
+    let last = end?.date;
+    // All-day DTEND is exclusive; org ranges are inclusive.
+    if (end && start.allDay) last = addDays(end.date, -1);
+    if (!last || last.getTime() <= start.date.getTime()) return orgTimestamp(start, repeater);
+
+    const sameDay = format(last, 'yyyy-MM-dd') === format(start.date, 'yyyy-MM-dd');
+    if (sameDay && !start.allDay) {
+        const ts = orgTimestamp(start, repeater);
+        const endTime = format(last, 'HH:mm');
+        return ts.replace(/(\d{2}:\d{2})/, `$1-${endTime}`);
+    }
+    return `${orgTimestamp(start, repeater)}--${orgTimestamp({ date: last, allDay: start.allDay })}`;
+}
+
+/**
+ * Render one calendar item as an org entry at `level`
+ */
+export function icalItemToOrg(item: IcalItem, level: number): string {
+    const repeater = item.rrule ? rruleToRepeater(item.rrule) ?? undefined : undefined;
+    let heading = '*'.repeat(level) + ' ';
+    if (item.kind === 'VTODO') {
+        heading += item.status === 'COMPLETED' ? 'DONE ' : 'TODO ';
+        if (item.priority) heading += `[#${item.priority <= 4 ? 'A' : item.priority === 5 ? 'B' : 'C'}] `;
+    }
+    heading += item.summary.replace(/\s*\n\s*/g, ' ').trim() || '(no title)';
+    const tags = item.categories
+        .map(c => c.trim().replace(/[^\w@#%]+/g, '_'))
+        .filter(Boolean);
+    if (tags.length > 0) heading += ` :${tags.join(':')}:`;
+
+    const lines = [heading];
+    if (item.kind === 'VTODO') {
+        const planning: string[] = [];
+        if (item.start) planning.push(`SCHEDULED: ${orgTimestamp(item.start, repeater)}`);
+        if (item.due) planning.push(`DEADLINE: ${orgTimestamp(item.due, item.start ? undefined : repeater)}`);
+        if (planning.length > 0) lines.push(planning.join(' '));
+    }
+
+    const properties: string[] = [];
+    if (item.uid) {
+        properties.push(`:ID:       ${item.uid}`, `:${IMPORTED_PROPERTY}: t`);
+    }
+    if (item.location) properties.push(`:LOCATION: ${item.location.replace(/\n/g, ' ')}`);
+    if (properties.length > 0) lines.push(':PROPERTIES:', ...properties, ':END:');
+
+    if (item.kind === 'VEVENT') {
+        const ts = eventTimestamp(item, repeater);
+        if (ts) lines.push(ts);
+    }
+    if (item.description?.trim()) {
+        // Keep description lines from being read as headings.
+        lines.push(...item.description.trim().split('\n').map(l => (l.startsWith('*') ? ' ' + l : l)));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * File calendar items under a datetree in `content`, one entry per item on
+ * its start (or due) date. Items whose UID already appears as an :ID: are
+ * skipped, so re-importing a calendar only adds what is new.
+ */
+export function importIcalToOrg(
+    content: string,
+    items: IcalItem[],
+    options: IcalImportOptions = {}
+): IcalImportResult {
+    const existing = new Set<string>();
+    for (const m of content.matchAll(/^\s*:ID:\s*(\S+)\s*$/gm)) existing.add(m[1]);
+
+    // Keep a trailing newline out of the line array so appended entries
+    // land before it rather than after it.
+    const trailingNewline = content.endsWith('\n');
+    let lines = content.length === 0 ? [] : (trailingNewline ? content.slice(0, -1) : content).split('\n');
+    let imported = 0;
+    let skipped = 0;
+
+    const dated = items
+        .map(item => ({ item, date: (item.start ?? item.due)?.date ?? options.now ?? new Date() }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const { item, date } of dated) {
+        if (item.uid && existing.has(item.uid)) {
+            skipped++;
+            continue;
+        }
+        const location = locateDatetreeEntry(lines, date, options.treeFormat ?? 'day');
+        const entry = (location.prefix ?? '') + icalItemToOrg(item, location.level ?? 1);
+        lines = [...lines.slice(0, location.line), ...entry.split('\n'), ...lines.slice(location.line)];
+        if (item.uid) existing.add(item.uid);
+        imported++;
+    }
+
+    return {
+        content: lines.join('\n') + (lines.length > 0 ? '\n' : ''),
+        imported,
+        skipped,
+    };
+}
@@ -489,6 +489,21 @@ export function findIncludes(content: string): IncludeDirective[] {
     return directives;
 }
 
+/**
+ * Resolve the files named by #+INCLUDE: directives in content, relative to
+ * basePath (the including file's directory). `::search` options are dropped.
+ */
+export function findIncludedFiles(content: string, basePath: string): string[] {
+    const files: string[] = [];
+    for (const directive of findIncludes(content)) {
+        const target = directive.file.split('::')[0];
+        if (target) {
+            files.push(resolveIncludePath(target, basePath));
+        }
+    }
+    return files;
+}
+
 /**
  * Process all #+INCLUDE: directives in content, replacing them with included content
  * This is the main entry point for include processing
@@ -0,0 +1,229 @@
+/**
+ * Lightweight outline scan for org and markdown
+ *
+ * Extracts headlines (with TODO keyword, priority and tags) and the blocks
+ * worth showing in an outline, without building the full AST. Shared by the
+ * editor's document symbols and the language server.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface OutlineHeadline {
+    level: number;
+    title: string;
+    todoKeyword?: string;
+    todoType?: 'todo' | 'done';
+    priority?: string;
+    tags: string[];
+    lineNumber: number;
+    endLineNumber: number;
+    children: OutlineHeadline[];
+}
+
+export interface OutlineBlock {
+    type: 'src-block' | 'table' | 'drawer';
+    name?: string;
+    language?: string;
+    lineNumber: number;
+    endLineNumber: number;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+// TODO keywords (could be made configurable)
+const TODO_KEYWORDS = new Set(['TODO', 'NEXT', 'WAITING', 'HOLD', 'SOMEDAY']);
+const DONE_KEYWORDS = new Set(['DONE', 'CANCELLED', 'CANCELED']);
+
+/**
+ * Fast, lightweight parser that only extracts headlines and blocks
+ * Much faster than full AST parsing for document symbols
+ * Supports both org-mode and markdown syntax
+ */
+export function parseOutline(lines: string[], isMarkdown: boolean = false): { headlines: OutlineHeadline[]; blocks: OutlineBlock[] } {
+    const rootHeadlines: OutlineHeadline[] = [];
+    const blocks: OutlineBlock[] = [];
+    const headlineStack: OutlineHeadline[] = [];
+
+    // Pattern for headlines: org uses *, markdown uses #
+    const headlinePattern = isMarkdown ? /^(#{1,6})\s+(.*)$/ : /^(\*+)\s+(.*)$/;
+    const headlineStartPattern = isMarkdown ? /^(#{1,6})\s/ : /^(\*+)\s/;
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+
+        // Check for headline
+        const headlineMatch = line.match(headlinePattern);
+        if (headlineMatch) {
+            const level = headlineMatch[1].length;
+            const headline = parseHeadlineLine(headlineMatch[2], level, i);
+
+            // Find end of this headline (next headline of same or higher level)
+            let endLine = i + 1;
+            while (endLine < lines.length) {
+                const nextMatch = lines[endLine].match(headlineStartPattern);
+                if (nextMatch && nextMatch[1].length <= level) {
+                    break;
+                }
+                endLine++;
+            }
+            headline.endLineNumber = endLine - 1;
+
+            // Build hierarchy
+            while (headlineStack.length > 0 && headlineStack[headlineStack.length - 1].level >= level) {
+                headlineStack.pop();
+            }
+
+            if (headlineStack.length === 0) {
+                rootHeadlines.push(headline);
+            } else {
+                headlineStack[headlineStack.length - 1].children.push(headline);
+            }
+            headlineStack.push(headline);
+            i++;
+            continue;
+        }
+
+        // Check for org-mode source block
+        if (!isMarkdown && line.match(/^#\+BEGIN_SRC/i)) {
+            const langMatch = line.match(/^#\+BEGIN_SRC\s+(\S+)/i);
+            const nameMatch = lines[i - 1]?.match(/^#\+NAME:\s*(.+)$/i);
+            let endLine = i + 1;
+            while (endLine < lines.length && !lines[endLine].match(/^#\+END_SRC/i)) {
+                endLine++;
+            }
+            blocks.push({
+                type: 'src-block',
+                language: langMatch?.[1] || 'code',
+                name: nameMatch?.[1],
+                lineNumber: i,
+                endLineNumber: endLine,
+            });
+            i = endLine + 1;
+            continue;
+        }
+
+        // Check for markdown fenced code block (``` or ~~~)
+        if (isMarkdown) {
+            const fenceMatch = line.match(/^(`{3,}|~{3,})(\w*)$/);
+            if (fenceMatch) {
+                const fence = fenceMatch[1];
+                const language = fenceMatch[2] || 'code';
+                const fenceChar = fence[0];
+                const fenceLen = fence.length;
+                let endLine = i + 1;
+                // Find matching closing fence (same char, at least same length)
+                while (endLine < lines.length) {
+                    const closingMatch = lines[endLine].match(new RegExp(`^${fenceChar}{${fenceLen},}\\s*$`));
+                    if (closingMatch) {
+                        break;
+                    }
+                    endLine++;
+                }
+                blocks.push({
+                    type: 'src-block',
+                    language: language,
+                    lineNumber: i,
+                    endLineNumber: endLine,
+                });
+                i = endLine + 1;
+                continue;
+            }
+        }
+
+        // Check for table (fast check)
+        if (line.match(/^\s*\|/)) {
+            const startLine = i;
+            while (i < lines.length && lines[i].match(/^\s*\|/)) {
+                i++;
+            }
+            blocks.push({
+                type: 'table',
+                lineNumber: startLine,
+                endLineNumber: i - 1,
+            });
+            continue;
+        }
+
+        // Check for drawer (fast check) - org-mode only
+        if (!isMarkdown) {
+            const drawerMatch = line.match(/^:(\w+):\s*$/);
+            if (drawerMatch && drawerMatch[1] !== 'END' && drawerMatch[1] !== 'PROPERTIES') {
+                const startLine = i;
+                i++;
+                while (i < lines.length && lines[i].trim() !== ':END:') {
+                    i++;
+                }
+                blocks.push({
+                    type: 'drawer',
+                    name: drawerMatch[1],
+                    lineNumber: startLine,
+                    endLineNumber: i,
+                });
+                i++;
+                continue;
+            }
+        }
+
+        i++;
+    }
+
+    return { headlines: rootHeadlines, blocks };
+}
+
+/**
+ * Parse a single headline line (very fast)
+ * Handles both org-mode and markdown syntax
+ */
+function parseHeadlineLine(text: string, level: number, lineNumber: number): OutlineHeadline {
+    let title = text;
+    let todoKeyword: string | undefined;
+    let todoType: 'todo' | 'done' | undefined;
+    let priority: string | undefined;
+    const tags: string[] = [];
+
+    // Extract TODO keyword (first word) - same for org and markdown
+    const todoMatch = title.match(/^(\S+)\s+/);
+    if (todoMatch) {
+        const word = todoMatch[1];
+        if (TODO_KEYWORDS.has(word)) {
+            todoKeyword = word;
+            todoType = 'todo';
+            title = title.slice(todoMatch[0].length);
+        } else if (DONE_KEYWORDS.has(word)) {
+            todoKeyword = word;
+            todoType = 'done';
+            title = title.slice(todoMatch[0].length);
+        }
+    }
+
+    // Extract priority [#A] - same for org and markdown
+    const priorityMatch = title.match(/^\[#([A-Z])\]\s+/);
+    if (priorityMatch) {
+        priority = priorityMatch[1];
+        title = title.slice(priorityMatch[0].length);
+    }
+
+    // Extract tags :tag1:tag2: - same for org and markdown
+    const tagMatch = title.match(/\s+:([^:\s]+(?::[^:\s]+)*):$/);
+    if (tagMatch) {
+        tags.push(...tagMatch[1].split(':'));
+        title = title.slice(0, -tagMatch[0].length);
+    }
+
+    return {
+        level,
+        title: title.trim(),
+        todoKeyword,
+        todoType,
+        priority,
+        tags,
+        lineNumber,
+        endLineNumber: lineNumber,
+        children: [],
+    };
+}
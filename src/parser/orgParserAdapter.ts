@@ -51,6 +51,8 @@ export interface LegacyLink {
     target: string;
     description?: string;
     lineNumber: number;
+    /** Search option of a file link ([[file:notes.org::#id]] -> '#id') */
+    searchOption?: string;
 }
 
 /**
@@ -308,6 +310,7 @@ function extractLink(link: LinkObject): LegacyLink {
         target,
         description: description || undefined,
         lineNumber: lineNumber + 1, // Convert to 1-indexed
+        searchOption: props.searchOption || undefined,
     };
 }
 
@@ -0,0 +1,719 @@
+/**
+ * Org-plot: charts from tables
+ *
+ * `#+PLOT:` for tables. This module parses the options line, turns table
+ * rows into series, and renders a self-contained SVG that the plot webview
+ * shows interactively and the HTML exporter inlines. Plots with a `file:`
+ * option are written to disk before export (SVG directly, PNG and PDF
+ * through the converters in svgToPdf), so the LaTeX exporter can include
+ * them.
+ *
+ * Options follow org-plot, e.g.
+ *
+ *   #+PLOT: title:"Growth" ind:1 deps:(2 3) type:line set:"ylabel 'OD'" file:"growth.svg"
+ *
+ * Supported types are line, scatter, bar and histogram; org's `type:2d`
+ * picks one of them from `with:` (lines, points, boxes, histograms, ...).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { convertSvgText } from './svgToPdf';
+import { escapeHtml } from '../utils/escapeUtils';
+import type { TableElement } from './orgElementTypes';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PlotType = 'line' | 'scatter' | 'bar' | 'histogram';
+
+/** Axis range from `set:"xrange [min:max]"`; either end may be open */
+export type PlotRange = [number | undefined, number | undefined];
+
+export interface PlotOptions {
+    type: PlotType;
+    title?: string;
+    /** 1-based column of the independent variable */
+    ind?: number;
+    /** 1-based columns of the dependent variables */
+    deps?: number[];
+    /** Series labels, in `deps` order */
+    labels?: string[];
+    /** Image written for export: .svg, .png or .pdf, relative to the org file */
+    file?: string;
+    /** Number of histogram bins */
+    bins?: number;
+    xlabel?: string;
+    ylabel?: string;
+    xrange?: PlotRange;
+    yrange?: PlotRange;
+    logX: boolean;
+    logY: boolean;
+    grid: boolean;
+    legend: boolean;
+}
+
+/** Table rows as cell values, with null for horizontal rules */
+export type PlotTableRows = Array<string[] | null>;
+
+export interface PlotPoint {
+    x: number;
+    y: number;
+    /** Independent value as written in the table (or bin range) */
+    label: string;
+}
+
+export interface PlotSeries {
+    label: string;
+    points: PlotPoint[];
+}
+
+export interface PlotData {
+    /** X axis categories (bar charts, histograms and text `ind` columns) */
+    categories?: string[];
+    xlabel?: string;
+    ylabel?: string;
+    series: PlotSeries[];
+}
+
+/** A `#+PLOT:` table found in a document */
+export interface TablePlot {
+    /** 0-based line of the `#+PLOT:` keyword, if the table has one */
+    plotLine?: number;
+    /** 0-based first and last lines of the table */
+    tableStart: number;
+    tableEnd: number;
+    options: PlotOptions;
+    rows: PlotTableRows;
+}
+
+export interface PlotFileResult {
+    /** Absolute paths of the images written */
+    written: string[];
+    failed: Array<{ file: string; reason: string }>;
+}
+
+// =============================================================================
+// Options
+// =============================================================================
+
+const OPTION_RE = /([\w-]+):\s*("(?:[^"\\]|\\.)*"|\([^)]*\)|\S+)/g;
+const LIST_ITEM_RE = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+
+const TYPE_ALIASES: Record<string, PlotType> = {
+    line: 'line',
+    lines: 'line',
+    scatter: 'scatter',
+    points: 'scatter',
+    bar: 'bar',
+    bars: 'bar',
+    histogram: 'histogram',
+    hist: 'histogram',
+};
+
+/** Gnuplot `with:` styles for `type:2d` */
+const WITH_STYLES: Record<string, PlotType> = {
+    lines: 'line',
+    l: 'line',
+    linespoints: 'line',
+    lp: 'line',
+    points: 'scatter',
+    p: 'scatter',
+    boxes: 'bar',
+    histograms: 'bar',
+    histogram: 'bar',
+    impulses: 'bar',
+};
+
+function unquote(value: string): string {
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+        return value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+    return value;
+}
+
+function parseList(value: string): string[] {
+    const inner = value.startsWith('(') && value.endsWith(')') ? value.slice(1, -1) : value;
+    return [...inner.matchAll(LIST_ITEM_RE)].map(m => m[1] !== undefined ? m[1].replace(/\\(.)/g, '$1') : m[2]);
+}
+
+function parseColumn(value: string): number | undefined {
+    const n = parseInt(value, 10);
+    return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+function parseRange(value: string): PlotRange | undefined {
+    const m = value.match(/\[\s*([^:\]]*)\s*:\s*([^\]]*)\s*\]/);
+    if (!m) return undefined;
+    const end = (s: string) => {
+        const n = parseFloat(s);
+        return s.trim() === '*' || !Number.isFinite(n) ? undefined : n;
+    };
+    return [end(m[1]), end(m[2])];
+}
+
+/** Text of a gnuplot label: quoted with ' or ", or the rest of the line */
+function setLabel(rest: string): string {
+    const m = rest.match(/^(['"])(.*)\1/);
+    return m ? m[2] : rest.trim();
+}
+
+/** Apply one gnuplot `set:` directive; unknown ones are ignored */
+function applySet(options: PlotOptions, directive: string): void {
+    const [name, ...restParts] = directive.trim().split(/\s+/);
+    const rest = restParts.join(' ');
+    switch (name) {
+        case 'title':
+            options.title = setLabel(rest);
+            break;
+        case 'xlabel':
+            options.xlabel = setLabel(rest);
+            break;
+        case 'ylabel':
+            options.ylabel = setLabel(rest);
+            break;
+        case 'xrange':
+            options.xrange = parseRange(rest) ?? options.xrange;
+            break;
+        case 'yrange':
+            options.yrange = parseRange(rest) ?? options.yrange;
+            break;
+        case 'logscale': {
+            const axes = rest.split(/\s+/)[0] || 'xy';
+            if (axes.includes('x')) options.logX = true;
+            if (axes.includes('y')) options.logY = true;
+            break;
+        }
+        case 'grid':
+            options.grid = true;
+            break;
+        case 'nogrid':
+            options.grid = false;
+            break;
+        case 'key':
+            options.legend = rest.trim() !== 'off';
+            break;
+        case 'nokey':
+            options.legend = false;
+            break;
+    }
+}
+
+/**
+ * Parse the value of a `#+PLOT:` line
+ */
+export function parsePlotOptions(value: string): PlotOptions {
+    const options: PlotOptions = { type: 'line', logX: false, logY: false, grid: false, legend: true };
+    let type: string | undefined;
+    let style: string | undefined;
+
+    for (const m of value.matchAll(OPTION_RE)) {
+        const key = m[1].toLowerCase();
+        const raw = m[2];
+        switch (key) {
+            case 'type':
+                type = unquote(raw).toLowerCase();
+                break;
+            case 'with':
+                style = unquote(raw).toLowerCase();
+                break;
+            case 'title':
+                options.title = unquote(raw);
+                break;
+            case 'ind':
+                options.ind = parseColumn(unquote(raw));
+                break;
+            case 'deps': {
+                const deps = parseList(raw).map(parseColumn).filter((c): c is number => c !== undefined);
+                if (deps.length > 0) options.deps = deps;
+                break;
+            }
+            case 'labels':
+                options.labels = parseList(raw);
+                break;
+            case 'file':
+                options.file = unquote(raw);
+                break;
+            case 'bins':
+                options.bins = parseColumn(unquote(raw));
+                break;
+            case 'set':
+                applySet(options, unquote(raw));
+                break;
+        }
+    }
+
+    if (type && TYPE_ALIASES[type]) {
+        options.type = TYPE_ALIASES[type];
+    } else if (style && WITH_STYLES[style]) {
+        options.type = WITH_STYLES[style];
+    }
+    return options;
+}
+
+// =============================================================================
+// Table data
+// =============================================================================
+
+const TABLE_LINE_RE = /^\s*\|/;
+const RULE_LINE_RE = /^\s*\|-/;
+const PLOT_LINE_RE = /^\s*#\+PLOT:\s*(.*)$/i;
+const AFFILIATED_LINE_RE = /^\s*#\+(?!TBLFM:)[\w_]+(\[[^\]]*\])?:/i;
+const WIDTH_COOKIE_RE = /^<[lrc]?\d*>$/;
+
+/** Rows of an exported table element */
+export function tableElementRows(table: TableElement): PlotTableRows {
+    return table.children.map(row => row.properties.rowType === 'rule'
+        ? null
+        : row.children.map(cell => cell.properties.value.trim()));
+}
+
+/** Rows of org table lines; column width cookie rows are left out */
+export function tableLineRows(lines: string[]): PlotTableRows {
+    const rows: PlotTableRows = [];
+    for (const line of lines) {
+        if (RULE_LINE_RE.test(line)) {
+            rows.push(null);
+            continue;
+        }
+        const cells = line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(c => c.trim());
+        if (cells.some(c => c !== '') && cells.every(c => c === '' || WIDTH_COOKIE_RE.test(c))) continue;
+        rows.push(cells);
+    }
+    return rows;
+}
+
+function parseNumber(cell: string | undefined): number {
+    if (!cell || !/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?%?$/.test(cell)) return NaN;
+    return parseFloat(cell);
+}
+
+/**
+ * Split rows into the header (the first row, when a rule follows it and
+ * there are rows after the rule) and the data rows
+ */
+function splitHeader(rows: PlotTableRows): { header?: string[]; data: string[][] } {
+    const rule = rows.indexOf(null);
+    const data = rows.filter((r): r is string[] => r !== null);
+    if (rule > 0 && rows.slice(rule).some(r => r !== null)) {
+        return { header: rows[0]!, data: data.slice(1) };
+    }
+    return { data };
+}
+
+function roundTo(value: number, step: number): number {
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)) + 1);
+    return parseFloat(value.toFixed(Math.min(decimals, 12)));
+}
+
+/** Number as shown in labels and tooltips */
+export function formatPlotNumber(value: number): string {
+    if (Number.isInteger(value)) return String(value);
+    return String(parseFloat(value.toPrecision(6)));
+}
+
+function histogramData(data: string[][], deps: number[], header: string[] | undefined, options: PlotOptions): PlotData {
+    const columns = deps.map(c => data.map(row => parseNumber(row[c])).filter(Number.isFinite));
+    const all = columns.flat();
+    if (all.length === 0) return { series: [] };
+
+    const min = Math.min(...all);
+    const max = Math.max(...all);
+    const bins = min === max ? 1 : options.bins ?? Math.min(50, Math.max(1, Math.ceil(Math.sqrt(columns[0].length))));
+    const width = (max - min) / bins || 1;
+    const categories = Array.from({ length: bins }, (_, i) =>
+        `${formatPlotNumber(min + i * width)}–${formatPlotNumber(min + (i + 1) * width)}`);
+
+    const series = columns.map((values, k) => {
+        const counts = new Array<number>(bins).fill(0);
+        for (const v of values) {
+            counts[Math.min(bins - 1, Math.floor((v - min) / width))]++;
+        }
+        return {
+            label: options.labels?.[k] ?? (header?.[deps[k]] || `Column ${deps[k] + 1}`),
+            points: counts.map((y, i) => ({ x: i, y, label: categories[i] })),
+        };
+    });
+    return { categories, xlabel: options.xlabel, ylabel: options.ylabel ?? 'Count', series };
+}
+
+/**
+ * Turn table rows into plot series
+ *
+ * Without `ind:`, a first column that is not numeric labels the x axis;
+ * otherwise points are numbered by row. Without `deps:`, every other
+ * numeric column is plotted.
+ */
+export function buildPlotData(rows: PlotTableRows, options: PlotOptions): PlotData {
+    const { header, data } = splitHeader(rows);
+    const width = Math.max(0, ...data.map(r => r.length));
+    const isNumeric = (c: number) => {
+        const cells = data.map(r => r[c] ?? '').filter(cell => cell !== '');
+        return cells.length > 0 && cells.every(cell => Number.isFinite(parseNumber(cell)));
+    };
+
+    let ind: number | undefined;
+    if (options.ind !== undefined && options.ind <= width) {
+        ind = options.ind - 1;
+    } else if (options.type !== 'histogram' && width > 1 && !isNumeric(0)) {
+        ind = 0;
+    }
+
+    const deps = options.deps
+        ? options.deps.map(c => c - 1).filter(c => c < width)
+        : Array.from({ length: width }, (_, c) => c).filter(c => c !== ind && isNumeric(c));
+
+    if (options.type === 'histogram') return histogramData(data, deps, header, options);
+
+    const categorical = options.type === 'bar' || (ind !== undefined && !isNumeric(ind));
+    const labels = data.map((row, i) => ind !== undefined ? row[ind] ?? '' : String(i + 1));
+
+    const series = deps.map((c, k) => {
+        const points: PlotPoint[] = [];
+        data.forEach((row, i) => {
+            const x = categorical ? i : ind !== undefined ? parseNumber(row[ind]) : i + 1;
+            const y = parseNumber(row[c]);
+            if (Number.isFinite(x) && Number.isFinite(y)) points.push({ x, y, label: labels[i] });
+        });
+        return { label: options.labels?.[k] ?? (header?.[c] || `Column ${c + 1}`), points };
+    });
+
+    return {
+        categories: categorical ? labels : undefined,
+        xlabel: options.xlabel ?? (ind !== undefined ? header?.[ind] : undefined),
+        ylabel: options.ylabel,
+        series,
+    };
+}
+
+// =============================================================================
+// SVG rendering
+// =============================================================================
+
+const COLORS = ['#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf'];
+
+interface Axis {
+    /** Domain in plot units (log10 of the value on log axes) */
+    min: number;
+    max: number;
+    ticks: number[];
+    log: boolean;
+}
+
+function niceStep(span: number, count: number): number {
+    const raw = span / count;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const fraction = raw / magnitude;
+    const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+    return nice * magnitude;
+}
+
+/** Axis covering `values`, rounded out to nice ticks unless `range` fixes an end */
+function buildAxis(values: number[], range: PlotRange | undefined, log: boolean, includeZero: boolean): Axis {
+    const usable = log ? values.filter(v => v > 0).map(Math.log10) : values;
+    let min = range?.[0] !== undefined ? (log ? Math.log10(range[0]) : range[0]) : Math.min(...usable);
+    let max = range?.[1] !== undefined ? (log ? Math.log10(range[1]) : range[1]) : Math.max(...usable);
+    if (!Number.isFinite(min) || !Number.isFinite(max)) {
+        min = 0;
+        max = 1;
+    }
+    if (includeZero && !log) {
+        if (range?.[0] === undefined) min = Math.min(min, 0);
+        if (range?.[1] === undefined) max = Math.max(max, 0);
+    }
+    if (min === max) {
+        const pad = Math.abs(min) * 0.1 || 1;
+        min -= pad;
+        max += pad;
+    }
+
+    if (log) {
+        if (range?.[0] === undefined) min = Math.floor(min);
+        if (range?.[1] === undefined) max = Math.ceil(max);
+        const ticks: number[] = [];
+        for (let e = Math.ceil(min); e <= Math.floor(max); e++) ticks.push(e);
+        return { min, max, ticks, log };
+    }
+
+    const step = niceStep(max - min, 6);
+    if (range?.[0] === undefined) min = Math.floor(min / step) * step;
+    if (range?.[1] === undefined) max = Math.ceil(max / step) * step;
+    const ticks: number[] = [];
+    for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-9; t += step) {
+        ticks.push(roundTo(t, step));
+    }
+    return { min, max, ticks, log };
+}
+
+function tickLabel(axis: Axis, tick: number): string {
+    return formatPlotNumber(axis.log ? Math.pow(10, tick) : tick);
+}
+
+function n(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Render plot data as a standalone SVG document
+ *
+ * Every mark has a `<title>` tooltip, and each series is a group with the
+ * classes `plot-series series-N` and a matching legend entry with
+ * `data-series="N"`, so a viewer can highlight or hide series.
+ */
+export function renderPlotSvg(data: PlotData, options: PlotOptions, width = 640, height = 400): string {
+    const series = data.series.filter(s => s.points.length > 0);
+    const showLegend = options.legend && series.length > 0;
+    const legendWidth = showLegend ? Math.min(200, Math.max(...series.map(s => s.label.length)) * 7 + 36) : 0;
+
+    const top = options.title ? 44 : 20;
+    const left = data.ylabel ? 76 : 60;
+    const bottom = data.xlabel ? 62 : 44;
+    const right = 20 + legendWidth;
+    const plotWidth = Math.max(40, width - left - right);
+    const plotHeight = Math.max(40, height - top - bottom);
+
+    const out: string[] = [
+        `<svg xmlns="http://www.w3.org/2000/svg" class="org-plot-svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+        `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ];
+    if (options.title) {
+        out.push(`<text x="${n(left + plotWidth / 2)}" y="26" text-anchor="middle" font-size="15" font-weight="bold" fill="#222">${escapeHtml(options.title)}</text>`);
+    }
+
+    if (series.length === 0) {
+        out.push(`<text x="${n(width / 2)}" y="${n(height / 2)}" text-anchor="middle" fill="#666">No numeric data to plot</text>`, '</svg>');
+        return out.join('\n');
+    }
+
+    const bars = data.categories !== undefined && (options.type === 'bar' || options.type === 'histogram');
+    const yAxis = buildAxis(series.flatMap(s => s.points.map(p => p.y)), options.yrange, options.logY, bars);
+    const yPos = (v: number) => {
+        const u = yAxis.log ? Math.log10(v) : v;
+        return top + plotHeight - (u - yAxis.min) / (yAxis.max - yAxis.min) * plotHeight;
+    };
+
+    // Categories are evenly spaced bands; numeric x values use a linear (or log) axis
+    const categories = data.categories;
+    const band = categories ? plotWidth / Math.max(1, categories.length) : 0;
+    const xAxis = categories
+        ? undefined
+        : buildAxis(series.flatMap(s => s.points.map(p => p.x)), options.xrange, options.logX, false);
+    const xPos = (v: number) => {
+        if (!xAxis) return left + (v + 0.5) * band;
+        const u = xAxis.log ? Math.log10(v) : v;
+        return left + (u - xAxis.min) / (xAxis.max - xAxis.min) * plotWidth;
+    };
+    const inside = (p: PlotPoint) => {
+        const x = xPos(p.x);
+        const y = yPos(p.y);
+        return Number.isFinite(x) && Number.isFinite(y) && x >= left - 0.5 && x <= left + plotWidth + 0.5 && y >= top - 0.5 && y <= top + plotHeight + 0.5;
+    };
+
+    // Grid and y axis
+    out.push('<g class="plot-axes" fill="#333" stroke="none">');
+    for (const tick of yAxis.ticks) {
+        const y = yPos(yAxis.log ? Math.pow(10, tick) : tick);
+        if (options.grid) {
+            out.push(`<line x1="${left}" y1="${n(y)}" x2="${left + plotWidth}" y2="${n(y)}" stroke="#e0e0e0"/>`);
+        }
+        out.push(`<line x1="${left - 5}" y1="${n(y)}" x2="${left}" y2="${n(y)}" stroke="#333"/>`);
+        out.push(`<text x="${left - 8}" y="${n(y + 4)}" text-anchor="end">${tickLabel(yAxis, tick)}</text>`);
+    }
+
+    // X axis ticks; category labels are thinned so they do not overlap
+    if (categories) {
+        const longest = Math.max(...categories.map(c => c.length), 1);
+        const every = Math.max(1, Math.ceil(longest * 7 / band));
+        categories.forEach((category, i) => {
+            if (i % every !== 0) return;
+            const x = xPos(i);
+            out.push(`<text x="${n(x)}" y="${top + plotHeight + 18}" text-anchor="middle">${escapeHtml(category)}</text>`);
+        });
+    } else if (xAxis) {
+        for (const tick of xAxis.ticks) {
+            const x = xPos(xAxis.log ? Math.pow(10, tick) : tick);
+            if (options.grid) {
+                out.push(`<line x1="${n(x)}" y1="${top}" x2="${n(x)}" y2="${top + plotHeight}" stroke="#e0e0e0"/>`);
+            }
+            out.push(`<line x1="${n(x)}" y1="${top + plotHeight}" x2="${n(x)}" y2="${top + plotHeight + 5}" stroke="#333"/>`);
+            out.push(`<text x="${n(x)}" y="${top + plotHeight + 18}" text-anchor="middle">${tickLabel(xAxis, tick)}</text>`);
+        }
+    }
+    out.push(`<line x1="${left}" y1="${top}" x2="${left}" y2="${top + plotHeight}" stroke="#333"/>`);
+    out.push(`<line x1="${left}" y1="${top + plotHeight}" x2="${left + plotWidth}" y2="${top + plotHeight}" stroke="#333"/>`);
+    if (data.xlabel) {
+        out.push(`<text x="${n(left + plotWidth / 2)}" y="${top + plotHeight + 40}" text-anchor="middle">${escapeHtml(data.xlabel)}</text>`);
+    }
+    if (data.ylabel) {
+        const cy = n(top + plotHeight / 2);
+        out.push(`<text x="18" y="${cy}" text-anchor="middle" transform="rotate(-90 18 ${cy})">${escapeHtml(data.ylabel)}</text>`);
+    }
+    out.push('</g>');
+
+    // Series
+    const baseline = yAxis.log ? top + plotHeight : Math.min(top + plotHeight, Math.max(top, yPos(0)));
+    const groupWidth = band * 0.8;
+    const barWidth = groupWidth / series.length;
+    series.forEach((s, k) => {
+        const color = COLORS[k % COLORS.length];
+        const tip = (p: PlotPoint) => `<title>${escapeHtml(s.label)} — ${escapeHtml(p.label)}: ${formatPlotNumber(p.y)}</title>`;
+        out.push(`<g class="plot-series series-${k}" data-series="${k}" fill="${color}" stroke="${color}">`);
+
+        if (bars) {
+            for (const p of s.points) {
+                const y = yPos(p.y);
+                if (!Number.isFinite(y)) continue;
+                const x = xPos(p.x) - groupWidth / 2 + k * barWidth;
+                const y0 = Math.max(top, Math.min(y, baseline));
+                const y1 = Math.min(top + plotHeight, Math.max(y, baseline));
+                out.push(`<rect x="${n(x)}" y="${n(y0)}" width="${n(barWidth)}" height="${n(y1 - y0)}" stroke="none">${tip(p)}</rect>`);
+            }
+        } else {
+            const points = s.points.filter(inside);
+            if (options.type === 'line' && points.length > 1) {
+                const coords = points.map(p => `${n(xPos(p.x))},${n(yPos(p.y))}`).join(' ');
+                out.push(`<polyline points="${coords}" fill="none" stroke-width="2"/>`);
+            }
+            const radius = options.type === 'scatter' ? 4 : 3;
+            for (const p of points) {
+                out.push(`<circle cx="${n(xPos(p.x))}" cy="${n(yPos(p.y))}" r="${radius}" stroke="none">${tip(p)}</circle>`);
+            }
+        }
+        out.push('</g>');
+    });
+
+    if (showLegend) {
+        const x = left + plotWidth + 16;
+        out.push('<g class="plot-legend">');
+        series.forEach((s, k) => {
+            const y = top + k * 20;
+            out.push(`<g class="legend-item" data-series="${k}"><rect x="${x}" y="${y}" width="12" height="12" fill="${COLORS[k % COLORS.length]}"/><text x="${x + 18}" y="${y + 10}" fill="#333">${escapeHtml(s.label)}</text></g>`);
+        });
+        out.push('</g>');
+    }
+
+    out.push('</svg>');
+    return out.join('\n');
+}
+
+/**
+ * Render the plot for a table's rows
+ */
+export function renderTablePlot(rows: PlotTableRows, options: PlotOptions): string {
+    return renderPlotSvg(buildPlotData(rows, options), options);
+}
+
+// =============================================================================
+// Finding plots in documents
+// =============================================================================
+
+/**
+ * The `#+PLOT:` line among the affiliated keywords above a table, if any
+ */
+function plotLineAbove(lines: string[], tableStart: number): number | undefined {
+    for (let i = tableStart - 1; i >= 0 && AFFILIATED_LINE_RE.test(lines[i]); i--) {
+        if (PLOT_LINE_RE.test(lines[i])) return i;
+    }
+    return undefined;
+}
+
+function tableAt(lines: string[], start: number, end: number, plotLine: number | undefined): TablePlot {
+    const value = plotLine !== undefined ? lines[plotLine].match(PLOT_LINE_RE)![1] : '';
+    return {
+        plotLine,
+        tableStart: start,
+        tableEnd: end,
+        options: parsePlotOptions(value),
+        rows: tableLineRows(lines.slice(start, end + 1)),
+    };
+}
+
+/**
+ * The table at or just below a line: on the table, its `#+TBLFM:` line,
+ * or one of its affiliated keywords. Tables without a `#+PLOT:` line get
+ * the default options.
+ */
+export function findTablePlotAt(content: string, line: number): TablePlot | undefined {
+    const lines = content.split('\n');
+    let at = line;
+    if (/^\s*#\+TBLFM:/i.test(lines[at] ?? '')) {
+        at--;
+    } else {
+        while (at < lines.length && AFFILIATED_LINE_RE.test(lines[at])) at++;
+    }
+    if (at < 0 || !TABLE_LINE_RE.test(lines[at] ?? '')) return undefined;
+
+    let start = at;
+    while (start > 0 && TABLE_LINE_RE.test(lines[start - 1])) start--;
+    let end = at;
+    while (end < lines.length - 1 && TABLE_LINE_RE.test(lines[end + 1])) end++;
+    return tableAt(lines, start, end, plotLineAbove(lines, start));
+}
+
+/**
+ * Every table with a `#+PLOT:` line, outside blocks
+ */
+export function findTablePlots(content: string): TablePlot[] {
+    const lines = content.split('\n');
+    const plots: TablePlot[] = [];
+    let inBlock = false;
+    for (let i = 0; i < lines.length; i++) {
+        if (/^\s*#\+BEGIN_/i.test(lines[i])) inBlock = true;
+        else if (/^\s*#\+END_/i.test(lines[i])) inBlock = false;
+        if (inBlock || !TABLE_LINE_RE.test(lines[i])) continue;
+
+        const start = i;
+        while (i < lines.length - 1 && TABLE_LINE_RE.test(lines[i + 1])) i++;
+        const plotLine = plotLineAbove(lines, start);
+        if (plotLine !== undefined) plots.push(tableAt(lines, start, i, plotLine));
+    }
+    return plots;
+}
+
+// =============================================================================
+// Plot files
+// =============================================================================
+
+/** SVG last converted to each PNG/PDF, so unchanged plots are not converted again */
+const convertedPlots = new Map<string, string>();
+
+/**
+ * Write the `file:` image of every plot in `content`, resolving relative
+ * paths against `baseDir`. SVG files are rewritten only when they change;
+ * PNG and PDF need an SVG converter (rsvg-convert, cairosvg or inkscape).
+ */
+export function writeTablePlots(content: string, baseDir: string): PlotFileResult {
+    const result: PlotFileResult = { written: [], failed: [] };
+    for (const plot of findTablePlots(content)) {
+        const file = plot.options.file;
+        if (!file) continue;
+
+        const target = path.resolve(baseDir, file);
+        const ext = path.extname(target).toLowerCase();
+        const svg = `<?xml version="1.0" encoding="UTF-8"?>\n${renderTablePlot(plot.rows, plot.options)}\n`;
+        try {
+            if (ext === '.svg') {
+                if (fs.existsSync(target) && fs.readFileSync(target, 'utf-8') === svg) continue;
+                fs.mkdirSync(path.dirname(target), { recursive: true });
+                fs.writeFileSync(target, svg);
+            } else if (ext === '.png' || ext === '.pdf') {
+                if (convertedPlots.get(target) === svg && fs.existsSync(target)) continue;
+                fs.mkdirSync(path.dirname(target), { recursive: true });
+                const error = convertSvgText(svg, target, ext === '.png' ? 'png' : 'pdf');
+                if (error) {
+                    result.failed.push({ file, reason: error });
+                    continue;
+                }
+                convertedPlots.set(target, svg);
+            } else {
+                result.failed.push({ file, reason: 'plot files must be .svg, .png or .pdf' });
+                continue;
+            }
+            result.written.push(target);
+        } catch (error) {
+            result.failed.push({ file, reason: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,401 @@
+/**
+ * Org-mode refile core
+ *
+ * Moves a subtree under another heading, in the same file or across files.
+ * The editor command and the CLI both build on this module: target lists
+ * come from the headings index, and the text surgery (extract,
+ * demote/promote, insert) happens here so both front-ends file entries
+ * identically.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getTodoStatesFromText, extractHeadingTitle } from '../org/todoStates';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A heading that can receive a refiled subtree. `lineNumber` is 1-based to
+ * match the headings table; a file-level target (top of file) has level 0.
+ */
+export interface RefileHeading {
+    filePath: string;
+    level: number;
+    title: string;
+    lineNumber: number;
+    todoState?: string | null;
+}
+
+/**
+ * A refile target with its outline path resolved, e.g.
+ * `projects.org/Grant/Aims` for the heading "Aims" under "Grant".
+ */
+export interface RefileTarget extends RefileHeading {
+    /** Titles of the ancestors followed by the heading itself */
+    outlinePath: string[];
+    /** Display string according to the outline-path style */
+    display: string;
+}
+
+/**
+ * How outline paths are shown, mirroring `org-refile-use-outline-path`:
+ * - `file`: `projects.org/Parent/Child`, plus the file itself as a target
+ * - `full-file-path`: same, with the absolute file path
+ * - `none`: just the heading title
+ */
+export type OutlinePathStyle = 'file' | 'full-file-path' | 'none';
+
+export interface RefileTargetOptions {
+    /** Only offer headings at or above this level (default: no limit) */
+    maxLevel?: number;
+    /** Outline path display style (default: 'file') */
+    outlinePathStyle?: OutlinePathStyle;
+}
+
+/** Line range of a subtree, 0-based, `end` exclusive */
+export interface SubtreeSpan {
+    start: number;
+    end: number;
+    level: number;
+}
+
+export interface RefileResult {
+    /** New content of the source file (undefined when copying) */
+    sourceContent?: string;
+    /** New content of the destination file */
+    destContent: string;
+    /** 0-based line of the refiled heading in the destination */
+    insertedLine: number;
+}
+
+// =============================================================================
+// Outline scanning
+// =============================================================================
+
+/**
+ * Heading level of a line, or 0 if it is not a heading. Org uses `*`,
+ * markdown uses `#`.
+ */
+export function headingLevelOf(line: string, isOrg = true): number {
+    const match = isOrg ? line.match(/^(\*+)\s/) : line.match(/^(#{1,6})\s/);
+    return match ? match[1].length : 0;
+}
+
+/**
+ * Heading levels for every line, ignoring `*`/`#` lines that sit inside
+ * blocks (a `# comment` in a markdown code fence, a bullet-like line in an
+ * org example block).
+ */
+export function scanLevels(lines: string[], isOrg = true): number[] {
+    const levels: number[] = new Array(lines.length).fill(0);
+    let inBlock = false;
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (isOrg) {
+            if (/^\s*#\+begin_/i.test(line)) inBlock = true;
+            else if (/^\s*#\+end_/i.test(line)) { inBlock = false; continue; }
+        } else if (/^\s*(```|~~~)/.test(line)) {
+            inBlock = !inBlock;
+            continue;
+        }
+        if (!inBlock) levels[i] = headingLevelOf(line, isOrg);
+    }
+    return levels;
+}
+
+/**
+ * Span of the subtree rooted at the heading on `headingIndex` (0-based). If
+ * the line is not a heading, the enclosing heading's subtree is returned; if
+ * there is none, null. A subtree that runs to the end of the file stops
+ * before the trailing blank lines, so the file keeps its final newline.
+ */
+export function findSubtree(lines: string[], headingIndex: number, isOrg = true): SubtreeSpan | null {
+    const levels = scanLevels(lines, isOrg);
+    let start = headingIndex;
+    while (start >= 0 && levels[start] === 0) start--;
+    if (start < 0) return null;
+
+    const level = levels[start];
+    let end = start + 1;
+    while (end < lines.length && (levels[end] === 0 || levels[end] > level)) end++;
+    if (end === lines.length) {
+        while (end > start + 1 && lines[end - 1].trim() === '') end--;
+    }
+    return { start, end, level };
+}
+
+/**
+ * Shift every heading in `lines` by `delta` levels (positive demotes). Levels
+ * never drop below 1, and markdown is capped at 6.
+ */
+export function shiftHeadingLevels(lines: string[], delta: number, isOrg = true): string[] {
+    if (delta === 0) return lines.slice();
+    const levels = scanLevels(lines, isOrg);
+    const marker = isOrg ? '*' : '#';
+    return lines.map((line, i) => {
+        const level = levels[i];
+        if (level === 0) return line;
+        let newLevel = Math.max(1, level + delta);
+        if (!isOrg) newLevel = Math.min(6, newLevel);
+        return marker.repeat(newLevel) + line.slice(level);
+    });
+}
+
+/**
+ * Resolve outline paths for headings grouped by file. `headings` must be in
+ * document order within each file (the order the index returns them).
+ * Headings deeper than `maxLevel` are dropped; ancestors are always
+ * shallower, so the remaining paths stay complete.
+ */
+export function buildRefileTargets(
+    headings: RefileHeading[],
+    options: RefileTargetOptions = {}
+): RefileTarget[] {
+    const style = options.outlinePathStyle ?? 'file';
+    const maxLevel = options.maxLevel ?? Infinity;
+    const targets: RefileTarget[] = [];
+
+    let currentFile: string | null = null;
+    let stack: string[] = [];
+
+    for (const heading of headings) {
+        if (heading.filePath !== currentFile) {
+            currentFile = heading.filePath;
+            stack = [];
+            if (style !== 'none') {
+                targets.push({
+                    filePath: heading.filePath,
+                    level: 0,
+                    title: path.basename(heading.filePath),
+                    lineNumber: 0,
+                    outlinePath: [],
+                    display: formatOutlinePath(heading.filePath, [], style),
+                });
+            }
+        }
+        if (heading.level < 1) continue;
+
+        stack.length = Math.min(stack.length, heading.level - 1);
+        while (stack.length < heading.level - 1) stack.push('');
+        stack.push(heading.title);
+        if (heading.level > maxLevel) continue;
+
+        const outlinePath = stack.filter(Boolean);
+        targets.push({
+            ...heading,
+            outlinePath,
+            display: formatOutlinePath(heading.filePath, outlinePath, style),
+        });
+    }
+
+    return targets;
+}
+
+/**
+ * Render an outline path for display, e.g. `notes.org/Projects/Grant`.
+ */
+export function formatOutlinePath(filePath: string, outlinePath: string[], style: OutlinePathStyle = 'file'): string {
+    if (style === 'none') return outlinePath[outlinePath.length - 1] ?? path.basename(filePath);
+    const fileLabel = style === 'full-file-path' ? filePath : path.basename(filePath);
+    return [fileLabel, ...outlinePath].join('/');
+}
+
+/**
+ * Find a target written as `file.org/Parent/Child` (or just `file.org`) among
+ * resolved targets. The file part matches on basename or full path; outline
+ * components compare case-insensitively.
+ */
+export function matchOutlinePath(targets: RefileTarget[], spec: string): RefileTarget | undefined {
+    const fileEnd = spec.search(/\.(org|md)(\/|$)/i);
+    if (fileEnd < 0) return undefined;
+    const extEnd = spec.indexOf('/', fileEnd + 1);
+    const fileSpec = extEnd < 0 ? spec : spec.slice(0, extEnd);
+    const olp = extEnd < 0 ? [] : spec.slice(extEnd + 1).split('/').filter(Boolean);
+    const lower = (s: string) => s.trim().toLowerCase();
+
+    return targets.find(t => {
+        const fileMatches = path.isAbsolute(fileSpec)
+            ? path.resolve(fileSpec) === t.filePath
+            : t.filePath === path.resolve(fileSpec) || path.basename(t.filePath) === fileSpec;
+        if (!fileMatches || t.outlinePath.length !== olp.length) return false;
+        return t.outlinePath.every((part, i) => lower(part) === lower(olp[i]));
+    });
+}
+
+/**
+ * Locate a target heading in the live text. The index can lag behind unsaved
+ * edits, so the indexed line is trusted only if it still holds the heading;
+ * otherwise the nearest heading with the same level and title is used.
+ * Returns the 0-based line, -1 for a file-level target, or null if gone.
+ */
+export function locateHeading(lines: string[], target: RefileHeading, isOrg = true): number | null {
+    if (target.level === 0) return -1;
+    const levels = scanLevels(lines, isOrg);
+    const todoStates = getTodoStatesFromText(lines.join('\n'));
+    const matches = (i: number) =>
+        levels[i] === target.level && headingHasTitle(lines[i], target.title, isOrg, todoStates);
+
+    const indexed = target.lineNumber - 1;
+    if (indexed >= 0 && indexed < lines.length && matches(indexed)) return indexed;
+
+    let best: number | null = null;
+    for (let i = 0; i < lines.length; i++) {
+        if (matches(i) && (best === null || Math.abs(i - indexed) < Math.abs(best - indexed))) best = i;
+    }
+    return best;
+}
+
+/**
+ * Heading text without the stars and trailing tags. The TODO keyword and
+ * priority cookie stay, since recognizing them needs the file's TODO setup.
+ */
+export function headingText(line: string, isOrg = true): string {
+    return isOrg
+        ? line.replace(/^\*+\s+/, '').replace(/\s+:[\w@#%:]+:\s*$/, '').trim()
+        : line.replace(/^#+\s+/, '').replace(/\s+#\w+(?:\s+#\w+)*$/, '').trim();
+}
+
+/**
+ * True if a heading line carries `title`. The indexed title has the TODO
+ * keyword and priority cookie stripped, so strip them with the file's TODO
+ * keywords before comparing.
+ */
+function headingHasTitle(line: string, title: string, isOrg: boolean, todoStates: Set<string>): boolean {
+    if (!isOrg) return headingText(line, false) === title;
+    return headingText(line) === title || extractHeadingTitle(line, todoStates) === title;
+}
+
+// =============================================================================
+// Text surgery
+// =============================================================================
+
+/**
+ * Index (0-based) at which a child of the heading at `targetIndex` should be
+ * inserted: the end of the target's subtree. A file-level target (-1) appends
+ * at end of file.
+ */
+export function insertionIndex(lines: string[], targetIndex: number, isOrg = true): number {
+    if (targetIndex < 0) {
+        let end = lines.length;
+        while (end > 0 && lines[end - 1].trim() === '') end--;
+        return end;
+    }
+    const span = findSubtree(lines, targetIndex, isOrg);
+    if (!span) return lines.length;
+    let end = span.end;
+    // Keep blank separator lines after the new child rather than before it.
+    while (end > span.start + 1 && lines[end - 1].trim() === '') end--;
+    return end;
+}
+
+/**
+ * Compute the result of refiling the subtree at `sourceIndex` under the
+ * heading at `targetIndex` (-1 for top level) within one file.
+ */
+export function refileWithinLines(
+    lines: string[],
+    sourceIndex: number,
+    targetIndex: number,
+    options: { keepOriginal?: boolean; isOrg?: boolean } = {}
+): { lines: string[]; insertedLine: number } {
+    const isOrg = options.isOrg ?? true;
+    const span = findSubtree(lines, sourceIndex, isOrg);
+    if (!span) throw new Error('Not on a heading');
+    if (targetIndex >= span.start && targetIndex < span.end) {
+        throw new Error('Cannot refile a subtree under itself');
+    }
+
+    const targetLevel = targetIndex < 0 ? 0 : headingLevelOf(lines[targetIndex], isOrg);
+    const moved = shiftHeadingLevels(lines.slice(span.start, span.end), targetLevel + 1 - span.level, isOrg);
+    const at = insertionIndex(lines, targetIndex, isOrg);
+
+    const result = lines.slice();
+    result.splice(at, 0, ...moved);
+    if (!options.keepOriginal) {
+        const removeAt = at <= span.start ? span.start + moved.length : span.start;
+        result.splice(removeAt, span.end - span.start);
+        return { lines: result, insertedLine: at <= span.start ? at : at - (span.end - span.start) };
+    }
+    return { lines: result, insertedLine: at };
+}
+
+/**
+ * Compute the result of refiling the subtree at `sourceIndex` of one file
+ * under the heading at `targetIndex` (-1 for top level) of another.
+ */
+export function refileAcrossLines(
+    sourceLines: string[],
+    sourceIndex: number,
+    destLines: string[],
+    targetIndex: number,
+    options: { keepOriginal?: boolean; isOrg?: boolean } = {}
+): { sourceLines?: string[]; destLines: string[]; insertedLine: number } {
+    const isOrg = options.isOrg ?? true;
+    const span = findSubtree(sourceLines, sourceIndex, isOrg);
+    if (!span) throw new Error('Not on a heading');
+
+    const targetLevel = targetIndex < 0 ? 0 : headingLevelOf(destLines[targetIndex], isOrg);
+    const moved = shiftHeadingLevels(sourceLines.slice(span.start, span.end), targetLevel + 1 - span.level, isOrg);
+    const at = insertionIndex(destLines, targetIndex, isOrg);
+
+    const dest = destLines.slice();
+    dest.splice(at, 0, ...moved);
+    if (options.keepOriginal) return { destLines: dest, insertedLine: at };
+
+    const source = sourceLines.slice();
+    source.splice(span.start, span.end - span.start);
+    return { sourceLines: source, destLines: dest, insertedLine: at };
+}
+
+/**
+ * Refile between files on disk as a single transaction: both new contents
+ * are computed before anything is written, the destination is written first,
+ * and if removing the subtree from the source then fails the destination is
+ * restored. Used by the CLI; the editor goes through a WorkspaceEdit instead.
+ */
+export function refileOnDisk(
+    source: RefileHeading,
+    target: RefileHeading,
+    options: { keepOriginal?: boolean } = {}
+): RefileResult {
+    const sourceFile = source.filePath;
+    const isOrg = path.extname(sourceFile).toLowerCase() !== '.md';
+    const sourceText = fs.readFileSync(sourceFile, 'utf-8');
+    const sourceLines = sourceText.split('\n');
+    const sameFile = path.resolve(sourceFile) === path.resolve(target.filePath);
+
+    // The index may be older than the file: find the heading by title and level
+    const sourceIndex = source.level > 0 ? locateHeading(sourceLines, source, isOrg) : null;
+    if (sourceIndex === null || sourceIndex < 0) throw new Error(`Heading "${source.title}" not found in ${sourceFile}`);
+
+    if (sameFile) {
+        const targetIndex = locateHeading(sourceLines, target, isOrg);
+        if (targetIndex === null) throw new Error(`Target heading "${target.title}" not found in ${target.filePath}`);
+        const { lines, insertedLine } = refileWithinLines(sourceLines, sourceIndex, targetIndex, { ...options, isOrg });
+        const destContent = lines.join('\n');
+        fs.writeFileSync(sourceFile, destContent, 'utf-8');
+        return { destContent, insertedLine };
+    }
+
+    const destText = fs.readFileSync(target.filePath, 'utf-8');
+    const destLines = destText.split('\n');
+    const targetIndex = locateHeading(destLines, target, isOrg);
+    if (targetIndex === null) throw new Error(`Target heading "${target.title}" not found in ${target.filePath}`);
+
+    const planned = refileAcrossLines(sourceLines, sourceIndex, destLines, targetIndex, { ...options, isOrg });
+    const destContent = planned.destLines.join('\n');
+    const sourceContent = planned.sourceLines?.join('\n');
+
+    fs.writeFileSync(target.filePath, destContent, 'utf-8');
+    if (sourceContent !== undefined) {
+        try {
+            fs.writeFileSync(sourceFile, sourceContent, 'utf-8');
+        } catch (error) {
+            fs.writeFileSync(target.filePath, destText, 'utf-8');
+            throw error;
+        }
+    }
+    return { sourceContent, destContent, insertedLine: planned.insertedLine };
+}
@@ -0,0 +1,518 @@
+/**
+ * Org rename core
+ *
+ * Renames the identifiers org links point at: a heading's :CUSTOM_ID: or
+ * :ID:, a dedicated <<target>>, or an element's #+NAME:. Renaming one also
+ * rewrites what refers to it:
+ *
+ *   - :CUSTOM_ID: foo    [[#foo]], [[file:notes.org::#foo]], ref:foo
+ *   - :ID: 1f3e...       [[id:1f3e...]], id:1f3e..., :DEPENDS: entries
+ *   - <<foo>>            [[foo]], [[file:notes.org::foo]], ref:foo
+ *   - #+NAME: foo        the above, plus #+CALL: foo(), #+RESULTS: foo,
+ *                        call_foo() and noweb <<foo>> references
+ *
+ * The editor's rename provider and `scimax rename` both build on these: the
+ * files to visit come from the links index, and the text scanning happens
+ * here so both front-ends rewrite the same references.
+ */
+
+import * as path from 'path';
+import { extractAnchors, normalizeAnchorText } from './orgAnchors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type OrgRenameKind = 'custom-id' | 'id' | 'target' | 'name';
+
+/** Human-readable names for messages */
+export const RENAME_KIND_LABELS: Record<OrgRenameKind, string> = {
+    'custom-id': 'CUSTOM_ID',
+    id: 'ID',
+    target: 'target',
+    name: '#+NAME',
+};
+
+/** An identifier defined in a file. Lines are 0-based, columns end-exclusive. */
+export interface OrgRenameDefinition {
+    kind: OrgRenameKind;
+    name: string;
+    line: number;
+    start: number;
+    end: number;
+}
+
+/**
+ * How a reference names its target. `link` is a bare [[foo]] (a target or
+ * #+NAME), `ref` an org-ref label link (a target, #+NAME or CUSTOM_ID).
+ */
+export type OrgReferenceForm = 'link' | 'ref' | 'call' | 'noweb';
+
+/** The identifier under the cursor: a definition or a reference to one */
+export interface OrgRenameSymbol {
+    name: string;
+    line: number;
+    start: number;
+    end: number;
+    /** Known from the syntax: [[#foo]] is a CUSTOM_ID, id:foo an ID */
+    kind?: OrgRenameKind;
+    /** For references whose kind depends on what they point at */
+    form?: OrgReferenceForm;
+    /** Whether the cursor is on the definition itself */
+    definition: boolean;
+    /** File part of a file-qualified link ([[file:notes.org::#foo]]), as written */
+    file?: string;
+}
+
+export interface OrgRenameRequest {
+    kind: OrgRenameKind;
+    oldName: string;
+    newName: string;
+    /**
+     * Absolute path of the file defining the identifier. References without
+     * a file part ([[#foo]], ref:foo) are only rewritten in this file. Not
+     * needed for IDs, which are global.
+     */
+    definitionPath?: string;
+}
+
+export interface OrgRenameEdit {
+    line: number;
+    start: number;
+    end: number;
+    newText: string;
+    role: 'definition' | 'reference';
+}
+
+// =============================================================================
+// Syntax
+// =============================================================================
+
+const CUSTOM_ID_RE = /^([ \t]*:CUSTOM_ID:[ \t]*)(\S+)/i;
+const ID_RE = /^([ \t]*:ID:[ \t]*)(\S+)/i;
+const DEPENDS_RE = /^([ \t]*:DEPENDS:[ \t]*)(.*)$/i;
+const CALL_RE = /^([ \t]*#\+CALL:[ \t]*)([^\s([\]]+)/i;
+const RESULTS_RE = /^([ \t]*#\+RESULTS(?:\[[^\]]*\])?:[ \t]*)(\S+)/i;
+const BLOCK_BEGIN_RE = /^[ \t]*#\+BEGIN_(\w+)/i;
+const BLOCK_END_RE = /^[ \t]*#\+END_(\w+)/i;
+const BRACKET_LINK_RE = /\[\[([^\]]+)\](?:\[[^\]]*\])?\]/g;
+const RADIO_RE = /<<<[^<>\n]+?>>>/g;
+const NOWEB_RE = /<<([^<>\s()]+)(\([^<>\n]*\))?>>/g;
+// Plain links do not take trailing sentence punctuation
+const PLAIN_ID_RE = /(^|[^\w:[/])id:([^\s\][()<>,;"']*[^\s\][()<>,;"'.:!?])/g;
+const INLINE_CALL_RE = /(^|[^\w])call_([^\s()[\]]+)(?=[([])/g;
+
+/** org-ref label links, whose path is a comma-separated list of labels */
+const REF_TYPES = ['ref', 'eqref', 'pageref', 'nameref', 'autoref', 'cref', 'Cref', 'labelcref'];
+const PLAIN_REF_RE = new RegExp(`(^|[^\\w:[/])(${REF_TYPES.join('|')}):([^\\s\\][()<>;"']*[^\\s\\][()<>;"'.,:!?])`, 'g');
+const REF_PATH_RE = new RegExp(`^(${REF_TYPES.join('|')}):(.+)$`);
+
+/** Blocks whose bodies are verbatim: links there are not live */
+const VERBATIM_BLOCKS = new Set(['src', 'example', 'export', 'comment']);
+
+/** Characters that cannot appear in a new identifier of each kind */
+const INVALID_NAME_CHARS: Record<OrgRenameKind, RegExp> = {
+    'custom-id': /[\s[\]]/,
+    id: /[\s[\](),;"']/,
+    target: /[<>[\]\n]/,
+    name: /[\s[\]()]/,
+};
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+interface LineInfo {
+    text: string;
+    /** Lowercased block type when inside a block body */
+    block?: string;
+}
+
+function scanLines(content: string): LineInfo[] {
+    const infos: LineInfo[] = [];
+    let block: string | undefined;
+    for (const text of content.split('\n')) {
+        if (block) {
+            if (BLOCK_END_RE.test(text)) {
+                infos.push({ text });
+                block = undefined;
+            } else {
+                infos.push({ text, block });
+            }
+            continue;
+        }
+        const begin = text.match(BLOCK_BEGIN_RE);
+        if (begin) block = begin[1].toLowerCase();
+        infos.push({ text });
+    }
+    return infos;
+}
+
+/**
+ * Every renameable identifier defined in the content: CUSTOM_IDs and IDs in
+ * property drawers, dedicated targets and #+NAME keywords. Radio targets are
+ * left out; renaming one changes which text links rather than a reference.
+ */
+export function findDefinitions(content: string): OrgRenameDefinition[] {
+    const definitions: OrgRenameDefinition[] = [];
+    const lines = scanLines(content);
+
+    lines.forEach((info, line) => {
+        if (info.block) return;
+        for (const [kind, re] of [['custom-id', CUSTOM_ID_RE], ['id', ID_RE]] as const) {
+            const m = info.text.match(re);
+            if (m) {
+                definitions.push({ kind, name: m[2], line, start: m[1].length, end: m[1].length + m[2].length });
+            }
+        }
+    });
+
+    for (const anchor of extractAnchors(content)) {
+        if (anchor.kind === 'radio') continue;
+        const line = anchor.lineNumber - 1;
+        const text = lines[line].text;
+        const start = anchor.kind === 'name'
+            ? text.indexOf(anchor.text, anchor.column + '#+NAME:'.length)
+            : text.indexOf(anchor.text, anchor.column + 2);
+        definitions.push({ kind: anchor.kind, name: anchor.text, line, start, end: start + anchor.text.length });
+    }
+
+    return definitions.sort((a, b) => a.line - b.line || a.start - b.start);
+}
+
+/** Whether a name refers to the identifier, with org's matching rules */
+export function sameName(kind: OrgRenameKind, a: string, b: string): boolean {
+    if (kind === 'target' || kind === 'name') {
+        return normalizeAnchorText(a) === normalizeAnchorText(b);
+    }
+    return a === b;
+}
+
+/** Definitions of a name in the content, optionally of one kind */
+export function findDefinitionsOf(content: string, name: string, kind?: OrgRenameKind): OrgRenameDefinition[] {
+    return findDefinitions(content).filter(def =>
+        (!kind || def.kind === kind) && sameName(def.kind, def.name, name)
+    );
+}
+
+/**
+ * The kind of identifier a reference points at, looked up in the content of
+ * the file it points into. Bare [[foo]] links match targets and names (a
+ * heading title is not renameable here); org-ref links also match CUSTOM_IDs.
+ */
+export function resolveReferenceKind(symbol: OrgRenameSymbol, definitionContent: string): OrgRenameKind | undefined {
+    if (symbol.kind) return symbol.kind;
+    const kinds: OrgRenameKind[] =
+        symbol.form === 'ref' ? ['name', 'target', 'custom-id'] :
+        symbol.form === 'link' ? ['target', 'name'] :
+        ['name'];
+    const definitions = findDefinitionsOf(definitionContent, symbol.name);
+    return kinds.find(kind => definitions.some(def => def.kind === kind));
+}
+
+/**
+ * Why a new name is unusable for the kind, or undefined when it is fine.
+ */
+export function validateRenameName(kind: OrgRenameKind, newName: string): string | undefined {
+    if (!newName.trim()) {
+        return `The new ${RENAME_KIND_LABELS[kind]} is empty.`;
+    }
+    if (newName !== newName.trim() || INVALID_NAME_CHARS[kind].test(newName)) {
+        return `"${newName}" is not a valid ${RENAME_KIND_LABELS[kind]}.`;
+    }
+    if (kind === 'custom-id' && newName.startsWith('#')) {
+        return 'A CUSTOM_ID does not start with "#".';
+    }
+    return undefined;
+}
+
+// =============================================================================
+// Symbol at a position
+// =============================================================================
+
+function within(column: number, start: number, end: number): boolean {
+    return column >= start && column <= end;
+}
+
+/** Blank out spans so later patterns do not match inside them */
+function mask(text: string, re: RegExp): string {
+    return text.replace(re, m => ' '.repeat(m.length));
+}
+
+/**
+ * What a link path points at, and where the name sits in the path.
+ * `file` is set for file-qualified paths.
+ */
+interface LinkPathTarget {
+    name: string;
+    offset: number;
+    kind?: OrgRenameKind;
+    form?: OrgReferenceForm;
+    file?: string;
+}
+
+function parseLinkPath(linkPath: string): LinkPathTarget[] {
+    const id = linkPath.match(/^id:([^:]+?)(?:::.*)?$/);
+    if (id) return [{ name: id[1], offset: 3, kind: 'id' }];
+
+    const ref = linkPath.match(REF_PATH_RE);
+    if (ref) {
+        const targets: LinkPathTarget[] = [];
+        let offset = ref[1].length + 1;
+        for (const label of ref[2].split(',')) {
+            const lead = label.length - label.trimStart().length;
+            if (label.trim()) targets.push({ name: label.trim(), offset: offset + lead, form: 'ref' });
+            offset += label.length + 1;
+        }
+        return targets;
+    }
+
+    const search = linkPath.indexOf('::');
+    if (search >= 0) {
+        const file = linkPath.slice(0, search).replace(/^file:/, '');
+        const option = linkPath.slice(search + 2);
+        const offset = search + 2;
+        if (!file || !option) return [];
+        if (option.startsWith('#')) return [{ name: option.slice(1), offset: offset + 1, kind: 'custom-id', file }];
+        // Headline (*), regexp (/) and line-number searches are not identifiers
+        if (/^[*/]|^\d+$/.test(option)) return [];
+        return [{ name: option, offset, form: 'link', file }];
+    }
+
+    if (linkPath.startsWith('#')) return [{ name: linkPath.slice(1), offset: 1, kind: 'custom-id' }];
+    // Bare [[foo]]: anything with a scheme, a path or a code reference is not a target
+    if (/^[*(]|^[\w+-]+:|[/\\]|\.(org|md)$/i.test(linkPath)) return [];
+    return [{ name: linkPath, offset: 0, form: 'link' }];
+}
+
+/**
+ * The renameable identifier at a 0-based position: on a definition line
+ * (:CUSTOM_ID:, :ID:, #+NAME:) anywhere on the line, otherwise within a
+ * <<target>>, a link, an org-ref label, or a #+CALL/#+RESULTS name.
+ */
+export function renameSymbolAt(content: string, line: number, column: number): OrgRenameSymbol | undefined {
+    const lines = scanLines(content);
+    const info = lines[line];
+    if (!info) return undefined;
+    const text = info.text;
+
+    if (info.block === 'src') {
+        NOWEB_RE.lastIndex = 0;
+        let m: RegExpExecArray | null;
+        while ((m = NOWEB_RE.exec(text)) !== null) {
+            const start = m.index + 2;
+            if (within(column, m.index, m.index + m[0].length)) {
+                return { name: m[1], line, start, end: start + m[1].length, form: 'noweb', definition: false };
+            }
+        }
+        return undefined;
+    }
+    if (info.block && VERBATIM_BLOCKS.has(info.block)) return undefined;
+
+    const definition = findDefinitions(content).find(def =>
+        def.line === line && (def.kind === 'custom-id' || def.kind === 'id' || def.kind === 'name' || within(column, def.start - 2, def.end + 2))
+    );
+    if (definition) {
+        return { ...definition, definition: true };
+    }
+
+    for (const re of [CALL_RE, RESULTS_RE]) {
+        const m = text.match(re);
+        if (m) {
+            return { name: m[2], line, start: m[1].length, end: m[1].length + m[2].length, form: 'call', definition: false };
+        }
+    }
+
+    BRACKET_LINK_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = BRACKET_LINK_RE.exec(text)) !== null) {
+        if (!within(column, m.index, m.index + m[0].length)) continue;
+        const pathStart = m.index + 2;
+        const targets = parseLinkPath(m[1]);
+        const target = targets.find(t => within(column, pathStart + t.offset, pathStart + t.offset + t.name.length)) ?? targets[0];
+        if (!target) return undefined;
+        const start = pathStart + target.offset;
+        return {
+            name: target.name, line, start, end: start + target.name.length,
+            kind: target.kind, form: target.form, file: target.file, definition: false,
+        };
+    }
+
+    const plain = mask(text, BRACKET_LINK_RE);
+    for (const re of [PLAIN_ID_RE, PLAIN_REF_RE, INLINE_CALL_RE]) {
+        re.lastIndex = 0;
+        while ((m = re.exec(plain)) !== null) {
+            const linkStart = m.index + m[1].length;
+            if (re === PLAIN_REF_RE) {
+                for (const target of parseLinkPath(`${m[2]}:${m[3]}`)) {
+                    const start = linkStart + target.offset;
+                    if (within(column, start, start + target.name.length)) {
+                        return { name: target.name, line, start, end: start + target.name.length, form: 'ref', definition: false };
+                    }
+                }
+                continue;
+            }
+            const prefix = re === PLAIN_ID_RE ? 3 : 5;
+            const start = linkStart + prefix;
+            if (within(column, linkStart, start + m[2].length)) {
+                return re === PLAIN_ID_RE
+                    ? { name: m[2], line, start, end: start + m[2].length, kind: 'id', definition: false }
+                    : { name: m[2], line, start, end: start + m[2].length, form: 'call', definition: false };
+            }
+        }
+    }
+
+    return undefined;
+}
+
+// =============================================================================
+// Edits
+// =============================================================================
+
+/** Absolute path of the file part of a link written in `fromPath` */
+export function resolveLinkFile(file: string, fromPath: string): string {
+    const expanded = file.replace(/^~(?=[/\\])/, process.env.HOME || '~');
+    return path.resolve(path.dirname(fromPath), expanded);
+}
+
+function samePath(a: string, b: string): boolean {
+    return path.resolve(a) === path.resolve(b);
+}
+
+/**
+ * The edits that rename the identifier in one file. `filePath` is the
+ * absolute path of the content, used to resolve file-qualified links and to
+ * decide whether this is the defining file.
+ */
+export function renameEditsForContent(
+    content: string,
+    request: OrgRenameRequest,
+    filePath?: string
+): OrgRenameEdit[] {
+    const { kind, oldName, newName, definitionPath } = request;
+    const isDefinitionFile = kind === 'id' || !definitionPath || (!!filePath && samePath(filePath, definitionPath));
+    const edits: OrgRenameEdit[] = [];
+    const push = (line: number, start: number, name: string, role: OrgRenameEdit['role']) => {
+        edits.push({ line, start, end: start + name.length, newText: newName, role });
+    };
+    const matches = (name: string) => sameName(kind, name, oldName);
+    const referencesHere = kind !== 'id' && isDefinitionFile;
+    const lines = scanLines(content);
+
+    if (isDefinitionFile) {
+        for (const def of findDefinitions(content)) {
+            if (def.kind === kind && matches(def.name)) push(def.line, def.start, def.name, 'definition');
+        }
+    }
+
+    lines.forEach((info, line) => {
+        const text = info.text;
+
+        if (info.block === 'src') {
+            if (kind === 'name' && referencesHere) {
+                NOWEB_RE.lastIndex = 0;
+                let m: RegExpExecArray | null;
+                while ((m = NOWEB_RE.exec(text)) !== null) {
+                    if (matches(m[1])) push(line, m.index + 2, m[1], 'reference');
+                }
+            }
+            return;
+        }
+        if (info.block && VERBATIM_BLOCKS.has(info.block)) return;
+
+        if (kind === 'id') {
+            const depends = text.match(DEPENDS_RE);
+            if (depends) {
+                const re = /(?:id:)?([^\s,]+)/g;
+                let m: RegExpExecArray | null;
+                while ((m = re.exec(depends[2])) !== null) {
+                    if (matches(m[1])) {
+                        push(line, depends[1].length + m.index + m[0].length - m[1].length, m[1], 'reference');
+                    }
+                }
+                return;
+            }
+        }
+
+        if (kind === 'name' && referencesHere) {
+            for (const re of [CALL_RE, RESULTS_RE]) {
+                const m = text.match(re);
+                if (m && matches(m[2])) push(line, m[1].length, m[2], 'reference');
+            }
+        }
+
+        // Bracket links
+        BRACKET_LINK_RE.lastIndex = 0;
+        let m: RegExpExecArray | null;
+        while ((m = BRACKET_LINK_RE.exec(text)) !== null) {
+            const pathStart = m.index + 2;
+            for (const target of parseLinkPath(m[1])) {
+                if (!matches(target.name) || !referencesTarget(target)) continue;
+                push(line, pathStart + target.offset, target.name, 'reference');
+            }
+        }
+
+        // Plain links, outside bracket links
+        const plain = mask(mask(text, BRACKET_LINK_RE), RADIO_RE);
+        if (kind === 'id') {
+            PLAIN_ID_RE.lastIndex = 0;
+            while ((m = PLAIN_ID_RE.exec(plain)) !== null) {
+                if (matches(m[2])) push(line, m.index + m[1].length + 3, m[2], 'reference');
+            }
+        } else if (referencesHere) {
+            PLAIN_REF_RE.lastIndex = 0;
+            while ((m = PLAIN_REF_RE.exec(plain)) !== null) {
+                const linkStart = m.index + m[1].length;
+                for (const target of parseLinkPath(`${m[2]}:${m[3]}`)) {
+                    if (matches(target.name)) push(line, linkStart + target.offset, target.name, 'reference');
+                }
+            }
+            if (kind === 'name') {
+                INLINE_CALL_RE.lastIndex = 0;
+                while ((m = INLINE_CALL_RE.exec(plain)) !== null) {
+                    if (matches(m[2])) push(line, m.index + m[1].length + 5, m[2], 'reference');
+                }
+            }
+        }
+    });
+
+    function referencesTarget(target: LinkPathTarget): boolean {
+        if (kind === 'id') return target.kind === 'id';
+        if (target.kind === 'id') return false;
+        if (target.file) {
+            if (!filePath || !definitionPath || !samePath(resolveLinkFile(target.file, filePath), definitionPath)) {
+                return false;
+            }
+        } else if (!isDefinitionFile) {
+            return false;
+        }
+        if (target.kind === 'custom-id') return kind === 'custom-id';
+        if (target.form === 'ref') return true;
+        // [[foo]] and [[file:x.org::foo]] reach targets and names, not CUSTOM_IDs
+        return kind === 'target' || kind === 'name';
+    }
+
+    // Definitions are also found by the reference scan on their own lines
+    // (e.g. a <<target>> inside a link); keep the first edit per range.
+    const seen = new Set<string>();
+    return edits
+        .sort((a, b) => a.line - b.line || a.start - b.start)
+        .filter(edit => {
+            const key = `${edit.line}:${edit.start}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+}
+
+/** Apply edits from renameEditsForContent to the content they came from */
+export function applyRenameEdits(content: string, edits: OrgRenameEdit[]): string {
+    if (edits.length === 0) return content;
+    const lines = content.split('\n');
+    const sorted = [...edits].sort((a, b) => b.line - a.line || b.start - a.start);
+    for (const edit of sorted) {
+        const text = lines[edit.line];
+        lines[edit.line] = text.slice(0, edit.start) + edit.newText + text.slice(edit.end);
+    }
+    return lines.join('\n');
+}
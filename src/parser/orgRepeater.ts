@@ -7,9 +7,10 @@ import { DAY_NAMES_SHORT } from '../utils/dateConstants';
 
 /**
  * Pattern to match DEADLINE or SCHEDULED with repeater timestamp
- * Groups: 1=indent, 2=keyword, 3=year, 4=month, 5=day, 6=hour, 7=minute, 8=repeater
+ * Groups: 1=indent, 2=keyword, 3=year, 4=month, 5=day, 6=hour, 7=minute,
+ * 8=repeater (including a habit range such as `.+1d/3d`)
  */
-export const REPEATER_TIMESTAMP_PATTERN = /^(\s*)(DEADLINE|SCHEDULED):\s*<(\d{4})-(\d{2})-(\d{2})(?:\s+\w{2,3})?(?:\s+(\d{2}):(\d{2}))?(?:\s+([.+]+\d+[hdwmy]))\s*>/;
+export const REPEATER_TIMESTAMP_PATTERN = /^(\s*)(DEADLINE|SCHEDULED):\s*<(\d{4})-(\d{2})-(\d{2})(?:\s+\w{2,3})?(?:\s+(\d{2}):(\d{2}))?(?:\s+([.+]+\d+[hdwmy](?:\/\d+[hdwmy])?))\s*>/;
 
 /**
  * Get day of week abbreviation for a date
@@ -33,6 +34,52 @@ export function parseRepeaterString(repeater: string): { type: string; value: nu
     };
 }
 
+/** iCalendar FREQ values for each org repeater unit */
+const RRULE_FREQUENCIES: Record<string, string> = {
+    h: 'HOURLY',
+    d: 'DAILY',
+    w: 'WEEKLY',
+    m: 'MONTHLY',
+    y: 'YEARLY',
+};
+
+/**
+ * Convert an org repeater to an iCalendar RRULE value
+ *
+ * All three repeater types map to the same rule: `.+` and `++` only differ
+ * in how org shifts the date when the task is marked done.
+ *
+ * @param repeater - Repeater string like +1w, .+2d
+ * @returns RRULE value like FREQ=WEEKLY;INTERVAL=2, or null if invalid
+ */
+export function repeaterToRRule(repeater: string): string | null {
+    const parsed = parseRepeaterString(repeater);
+    if (!parsed || parsed.value < 1) return null;
+    const freq = `FREQ=${RRULE_FREQUENCIES[parsed.unit]}`;
+    return parsed.value > 1 ? `${freq};INTERVAL=${parsed.value}` : freq;
+}
+
+/**
+ * Convert an iCalendar RRULE value to an org repeater
+ *
+ * Only FREQ and INTERVAL are representable; BYDAY, COUNT, UNTIL and the
+ * like are dropped, so the result may repeat more often than the rule.
+ *
+ * @param rrule - RRULE value like FREQ=MONTHLY;INTERVAL=3
+ * @returns Repeater string like +3m, or null if the frequency has no org equivalent
+ */
+export function rruleToRepeater(rrule: string): string | null {
+    const parts = new Map<string, string>();
+    for (const part of rrule.split(';')) {
+        const [key, value] = part.split('=');
+        if (key && value) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    }
+    const unit = Object.keys(RRULE_FREQUENCIES).find(u => RRULE_FREQUENCIES[u] === parts.get('FREQ'));
+    if (!unit) return null;
+    const interval = parseInt(parts.get('INTERVAL') ?? '1', 10);
+    return `+${interval > 0 ? interval : 1}${unit}`;
+}
+
 /**
  * Advance a date by the repeater interval
  *
@@ -44,7 +91,7 @@ export function parseRepeaterString(repeater: string): { type: string; value: nu
  * @param year - Original year
  * @param month - Original month (1-12)
  * @param day - Original day
- * @param repeater - Repeater string like +1w
+ * @param repeater - Repeater string like +1w or .+1d/3d
  * @returns New date after applying the repeater
  */
 export function advanceDateByRepeater(
@@ -53,7 +100,8 @@ export function advanceDateByRepeater(
     day: number,
     repeater: string
 ): Date {
-    const repMatch = repeater.match(/^([.+]+)(\d+)([hdwmy])$/);
+    // A habit range (`/3d`) does not change where the date moves to.
+    const repMatch = repeater.match(/^([.+]+)(\d+)([hdwmy])(?:\/\d+[hdwmy])?$/);
     if (!repMatch) {
         return new Date(year, month - 1, day);
     }
@@ -0,0 +1,957 @@
+/**
+ * Org table formula language
+ *
+ * Parser and evaluator for the expressions of `#+TBLFM:` formulas;
+ * org/tableFormula applies them to tables. Expressions are parsed to a
+ * syntax tree and evaluated against a FormulaEnv that resolves cell
+ * references, so values keep their type: numbers, strings, booleans, dates
+ * (from org timestamps), vectors (from ranges) and error values.
+ *
+ * Besides references and arithmetic the language has
+ *
+ * - comparisons (`==`, `!=`, `<`, `<=`, `>`, `>=`) and logic (`&&`, `||`, `!`)
+ * - string literals ("...") and string functions: concat, format, upper, ...
+ * - `if(cond, then, else)`, `iferror(x, fallback)` and `iserror(x)`
+ * - dates: `date(<2026-01-05 Mon>)`, `now()`, `today()`; subtracting dates
+ *   gives days, and adding days to a date gives a date
+ * - vector functions: vsum, vmean, vmedian, vpercentile, vsdev, ...
+ * - lookups as in org: `org-lookup-first(value, search, results)`,
+ *   `org-lookup-last` and `org-lookup-all`
+ *
+ * Problems become spreadsheet-style error values (`#DIV/0!`, `#VALUE!`,
+ * ...) in the cell rather than NaN, and propagate through formulas that use
+ * them.
+ */
+
+// =============================================================================
+// Values
+// =============================================================================
+
+export type FormulaErrorCode = '#DIV/0!' | '#VALUE!' | '#REF!' | '#NAME?' | '#N/A' | '#NUM!' | '#ERROR!';
+
+/** What each error value means, for hovers and help */
+export const FORMULA_ERROR_DESCRIPTIONS: Record<FormulaErrorCode, string> = {
+    '#DIV/0!': 'Division by zero',
+    '#VALUE!': 'A value has the wrong type, e.g. text where a number is needed',
+    '#REF!': 'A reference outside the table, or to an unknown remote table',
+    '#NAME?': 'Unknown function or name',
+    '#N/A': 'No value: a lookup found nothing, or a statistic of an empty range',
+    '#NUM!': 'Invalid number, e.g. the square root of a negative number',
+    '#ERROR!': 'The formula could not be parsed',
+};
+
+const ERROR_VALUE_RE = /^(#DIV\/0!|#VALUE!|#REF!|#NAME\?|#N\/A|#NUM!|#ERROR!)$/;
+
+/** An error value; shown in the cell as its code */
+export class FormulaError {
+    constructor(readonly code: FormulaErrorCode, readonly message?: string) {}
+
+    toString(): string {
+        return this.code;
+    }
+}
+
+/** A date, as UTC milliseconds of the wall-clock time written in org */
+export interface FormulaDate {
+    kind: 'date';
+    time: number;
+    hasTime: boolean;
+}
+
+export type FormulaValue = number | string | boolean | FormulaDate | FormulaError | FormulaValue[];
+
+/** True if a cell holds an error value written by a formula */
+export function isFormulaErrorText(text: string): boolean {
+    return ERROR_VALUE_RE.test(text.trim());
+}
+
+function isDate(value: FormulaValue): value is FormulaDate {
+    return typeof value === 'object' && !Array.isArray(value) && !(value instanceof FormulaError);
+}
+
+const DAY_MS = 86400000;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIMESTAMP_RE = /^[<[]?(\d{4})-(\d{2})-(\d{2})(?:\s+[^\d\s>\]]+)?(?:\s+(\d{1,2}):(\d{2}))?[^>\]]*[>\]]?$/;
+const NUMBER_RE = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const DURATION_RE = /^(-?)(\d+):(\d{2})(?::(\d{2}))?$/;
+
+/** Parse an org timestamp or ISO date (`2026-01-05`, `<2026-01-05 Mon 10:30>`) */
+export function parseFormulaDate(text: string): FormulaDate | undefined {
+    const m = text.trim().match(TIMESTAMP_RE);
+    if (!m) return undefined;
+    const hasTime = m[4] !== undefined;
+    const time = Date.UTC(+m[1], +m[2] - 1, +m[3], hasTime ? +m[4] : 0, hasTime ? +m[5] : 0);
+    return Number.isNaN(time) ? undefined : { kind: 'date', time, hasTime };
+}
+
+/** An org timestamp for a date: `<2026-01-05 Mon>` or `<2026-01-05 Mon 10:30>` */
+export function formatFormulaDate(date: FormulaDate): string {
+    const d = new Date(date.time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const day = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ${DAY_NAMES[d.getUTCDay()]}`;
+    return date.hasTime ? `<${day} ${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}>` : `<${day}>`;
+}
+
+/**
+ * The value of a cell's text: empty string, error value, number, duration
+ * in seconds (in duration mode) or text
+ */
+export function cellFormulaValue(text: string, durationMode = false): FormulaValue {
+    const value = text.trim();
+    if (value === '') return '';
+    if (ERROR_VALUE_RE.test(value)) return new FormulaError(value as FormulaErrorCode);
+    if (NUMBER_RE.test(value)) return parseFloat(value);
+    if (durationMode) {
+        const m = value.match(DURATION_RE);
+        if (m) {
+            const seconds = +m[2] * 3600 + +m[3] * 60 + (m[4] ? +m[4] : 0);
+            return m[1] === '-' ? -seconds : seconds;
+        }
+    }
+    return value;
+}
+
+function firstError(...values: FormulaValue[]): FormulaError | undefined {
+    for (const v of values) {
+        if (v instanceof FormulaError) return v;
+        if (Array.isArray(v)) {
+            const inner = firstError(...v);
+            if (inner) return inner;
+        }
+    }
+    return undefined;
+}
+
+/** Number for arithmetic: empty cells count as 0, text that is not a number is an error */
+function toNumber(value: FormulaValue): number | FormulaError {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof FormulaError) return value;
+    if (typeof value === 'string') {
+        if (value.trim() === '') return 0;
+        if (NUMBER_RE.test(value.trim())) return parseFloat(value);
+        return new FormulaError('#VALUE!', `"${value}" is not a number`);
+    }
+    if (Array.isArray(value)) return new FormulaError('#VALUE!', 'a range where a single value is needed');
+    return new FormulaError('#VALUE!', 'a date where a number is needed');
+}
+
+function toText(value: FormulaValue): string {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return formatNumber(value);
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (value instanceof FormulaError) return value.code;
+    if (Array.isArray(value)) return value.map(toText).join(', ');
+    return formatFormulaDate(value);
+}
+
+function formatNumber(value: number): string {
+    return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(12)));
+}
+
+function isTruthy(value: FormulaValue): boolean {
+    if (typeof value === 'number') return value !== 0;
+    if (typeof value === 'string') return value !== '';
+    if (typeof value === 'boolean') return value;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+}
+
+function isNumeric(value: FormulaValue): boolean {
+    return typeof value === 'number' || typeof value === 'boolean'
+        || (typeof value === 'string' && (value.trim() === '' || NUMBER_RE.test(value.trim())));
+}
+
+/** Compare two values: numbers numerically, dates by time, otherwise as text */
+function compare(a: FormulaValue, b: FormulaValue): number {
+    if (isDate(a) && isDate(b)) return a.time - b.time;
+    if (isNumeric(a) && isNumeric(b)) return (toNumber(a) as number) - (toNumber(b) as number);
+    const x = toText(a);
+    const y = toText(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+}
+
+// =============================================================================
+// Syntax
+// =============================================================================
+
+export class FormulaSyntaxError extends Error {}
+
+/** A reference to one field; an undefined row or column means the current one */
+export interface FieldRefNode {
+    type: 'field';
+    row?: string;
+    col?: string;
+}
+
+export type FormulaNode =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'date'; value: FormulaDate }
+    | FieldRefNode
+    | { type: 'row'; row: string }
+    | { type: 'range'; from: FieldRefNode; to: FieldRefNode }
+    | { type: 'name'; name: string }
+    | { type: 'ident'; name: string }
+    | { type: 'call'; name: string; args: FormulaNode[] }
+    | { type: 'remote'; table: string; ref: FormulaNode }
+    | { type: 'unary'; op: string; operand: FormulaNode }
+    | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode };
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'date'; value: FormulaDate }
+    | { type: 'field'; row?: string; col?: string }
+    | { type: 'row'; row: string }
+    | { type: 'name'; name: string }
+    | { type: 'ident'; name: string }
+    | { type: 'op'; value: string };
+
+const OPERATORS = ['**', '==', '!=', '<=', '>=', '&&', '||', '..', '^', '*', '/', '%', '+', '-', '<', '>', '=', '!', '(', ')', ','];
+const ROW_DESCRIPTOR_RE = /^(?:[+-]?\d+|I{1,3}|[<>#])/;
+const COL_DESCRIPTOR_RE = /^(?:[+-]?\d+|[<>#])/;
+
+function tokenize(expr: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expr.length) {
+        const rest = expr.slice(i);
+        const ch = expr[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        // Timestamps before operators, since they start with < or [
+        if (ch === '<' || ch === '[') {
+            const m = rest.match(/^[<[]\d{4}-\d{2}-\d{2}[^>\]]*[>\]]/);
+            if (m) {
+                tokens.push({ type: 'date', value: parseFormulaDate(m[0])! });
+                i += m[0].length;
+                continue;
+            }
+        }
+
+        const num = rest.match(/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+        if (num) {
+            tokens.push({ type: 'number', value: parseFloat(num[0]) });
+            i += num[0].length;
+            continue;
+        }
+
+        if (ch === '"') {
+            let j = i + 1;
+            let value = '';
+            while (j < expr.length && expr[j] !== '"') {
+                if (expr[j] === '\\' && j + 1 < expr.length) j++;
+                value += expr[j++];
+            }
+            if (j >= expr.length) throw new FormulaSyntaxError('unterminated string');
+            tokens.push({ type: 'string', value });
+            i = j + 1;
+            continue;
+        }
+
+        if (ch === '@') {
+            const row = rest.slice(1).match(ROW_DESCRIPTOR_RE);
+            if (!row) throw new FormulaSyntaxError(`bad row reference at "${rest}"`);
+            i += 1 + row[0].length;
+            const col = expr[i] === '$' ? expr.slice(i + 1).match(COL_DESCRIPTOR_RE) : null;
+            if (col) {
+                tokens.push({ type: 'field', row: row[0], col: col[0] });
+                i += 1 + col[0].length;
+            } else {
+                tokens.push({ type: 'row', row: row[0] });
+            }
+            continue;
+        }
+
+        if (ch === '$') {
+            const col = rest.slice(1).match(COL_DESCRIPTOR_RE);
+            const name = rest.slice(1).match(/^[A-Za-z_]\w*/);
+            if (col) {
+                tokens.push({ type: 'field', col: col[0] });
+                i += 1 + col[0].length;
+            } else if (name) {
+                tokens.push({ type: 'name', name: name[0] });
+                i += 1 + name[0].length;
+            } else {
+                throw new FormulaSyntaxError(`bad column reference at "${rest}"`);
+            }
+            continue;
+        }
+
+        const ident = rest.match(/^org(?:-[A-Za-z]+)+|^[A-Za-z_]\w*/);
+        if (ident) {
+            tokens.push({ type: 'ident', name: ident[0].toLowerCase() });
+            i += ident[0].length;
+            // remote(NAME, ref): the table name is taken as written
+            const call = expr.slice(i).match(/^\s*\(\s*([^,()]+?)\s*,/);
+            if (ident[0].toLowerCase() === 'remote' && call) {
+                tokens.push({ type: 'op', value: '(' }, { type: 'string', value: call[1] }, { type: 'op', value: ',' });
+                i += call[0].length;
+            }
+            continue;
+        }
+
+        const op = OPERATORS.find(o => rest.startsWith(o));
+        if (op) {
+            tokens.push({ type: 'op', value: op });
+            i += op.length;
+            continue;
+        }
+
+        throw new FormulaSyntaxError(`unexpected "${ch}"`);
+    }
+
+    return tokens;
+}
+
+/**
+ * Parse a formula expression (the part after `=`)
+ * @throws FormulaSyntaxError
+ */
+export function parseFormulaExpression(expr: string): FormulaNode {
+    const tokens = tokenize(expr);
+    let pos = 0;
+
+    const peekOp = (...ops: string[]): string | undefined => {
+        const t = tokens[pos];
+        return t && t.type === 'op' && ops.includes(t.value) ? t.value : undefined;
+    };
+    const expect = (op: string) => {
+        if (!peekOp(op)) throw new FormulaSyntaxError(`expected "${op}"`);
+        pos++;
+    };
+
+    const binary = (ops: string[], next: () => FormulaNode) => (): FormulaNode => {
+        let left = next();
+        let op: string | undefined;
+        while ((op = peekOp(...ops))) {
+            pos++;
+            left = { type: 'binary', op: op === '=' ? '==' : op === '**' ? '^' : op, left, right: next() };
+        }
+        return left;
+    };
+
+    const primary = (): FormulaNode => {
+        const t = tokens[pos++];
+        if (!t) throw new FormulaSyntaxError('unexpected end of formula');
+        switch (t.type) {
+            case 'number':
+            case 'string':
+            case 'date':
+                return { type: t.type, value: t.value } as FormulaNode;
+            case 'name':
+                return { type: 'name', name: t.name };
+            case 'field':
+            case 'row': {
+                if (!peekOp('..')) {
+                    return t.type === 'field' ? { type: 'field', row: t.row, col: t.col } : { type: 'row', row: t.row };
+                }
+                pos++;
+                const end = tokens[pos++];
+                if (!end || (end.type !== 'field' && end.type !== 'row')) {
+                    throw new FormulaSyntaxError('expected a reference after ".."');
+                }
+                const field = (r: typeof t | typeof end): FieldRefNode =>
+                    r.type === 'field' ? { type: 'field', row: r.row, col: r.col } : { type: 'field', row: r.row };
+                return { type: 'range', from: field(t), to: field(end) };
+            }
+            case 'ident': {
+                if (!peekOp('(')) return { type: 'ident', name: t.name };
+                pos++;
+                const args: FormulaNode[] = [];
+                if (!peekOp(')')) {
+                    args.push(expression());
+                    while (peekOp(',')) {
+                        pos++;
+                        args.push(expression());
+                    }
+                }
+                expect(')');
+                if (t.name === 'remote') {
+                    if (args.length !== 2 || args[0].type !== 'string') {
+                        throw new FormulaSyntaxError('remote() needs a table name and a reference');
+                    }
+                    return { type: 'remote', table: args[0].value, ref: args[1] };
+                }
+                return { type: 'call', name: t.name, args };
+            }
+            case 'op':
+                if (t.value === '(') {
+                    const inner = expression();
+                    expect(')');
+                    return inner;
+                }
+                throw new FormulaSyntaxError(`unexpected "${t.value}"`);
+        }
+    };
+
+    // Power binds tighter than unary minus (-2^2 is -4) and is right-associative
+    const power = (): FormulaNode => {
+        const base = primary();
+        if (peekOp('^', '**')) {
+            pos++;
+            return { type: 'binary', op: '^', left: base, right: unary() };
+        }
+        return base;
+    };
+    const unary = (): FormulaNode => {
+        const op = peekOp('-', '+', '!');
+        if (op) {
+            pos++;
+            return { type: 'unary', op, operand: unary() };
+        }
+        return power();
+    };
+    const multiplicative = binary(['*', '/', '%'], unary);
+    const additive = binary(['+', '-'], multiplicative);
+    const comparison = binary(['==', '=', '!=', '<=', '>=', '<', '>'], additive);
+    const and = binary(['&&'], comparison);
+    const expression: () => FormulaNode = binary(['||'], and);
+
+    if (tokens.length === 0) throw new FormulaSyntaxError('empty formula');
+    const node = expression();
+    if (pos < tokens.length) throw new FormulaSyntaxError('unexpected text after the formula');
+    return node;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * What an expression is evaluated against: the table, the field being
+ * computed and the names in scope
+ */
+export interface FormulaEnv {
+    /** Current row and column (1-based; rows count every non-hline row) */
+    row: number;
+    col: number;
+    rowCount: number;
+    columnCount: number;
+    /** Number of data rows, for `@#` */
+    dataRowCount: number;
+    /** Resolve a row descriptor (`3`, `-1`, `+1`, `>`, `<`, `I`) to a row number */
+    resolveRow(descriptor: string): number;
+    /** Text of a cell; rows and columns are in range */
+    cellText(row: number, col: number): string;
+    /** Value of a `$name`: table parameter, constant or column name */
+    named(name: string): string | undefined;
+    /** Environment for a `remote()` table, or undefined if there is no such table */
+    remote(table: string): FormulaEnv | undefined;
+    now: Date;
+    /** Read HH:MM[:SS] cells as seconds (format flags T, U, t) */
+    durationMode: boolean;
+}
+
+function resolveColumn(descriptor: string | undefined, env: FormulaEnv): number {
+    if (descriptor === undefined || descriptor === '0' || descriptor === '#') return env.col;
+    if (descriptor === '<') return 1;
+    if (descriptor === '>') return env.columnCount;
+    if (/^[+-]/.test(descriptor)) return env.col + parseInt(descriptor, 10);
+    return parseInt(descriptor, 10);
+}
+
+function resolveFieldRow(descriptor: string | undefined, env: FormulaEnv): number {
+    return descriptor === undefined || descriptor === '#' ? env.row : env.resolveRow(descriptor);
+}
+
+function fieldValue(row: number, col: number, env: FormulaEnv): FormulaValue {
+    if (row < 1 || row > env.rowCount || col < 1 || col > env.columnCount) {
+        return new FormulaError('#REF!', `@${row}$${col} is outside the table`);
+    }
+    return cellFormulaValue(env.cellText(row, col), env.durationMode);
+}
+
+function rangeValues(node: { from: FieldRefNode; to: FieldRefNode }, env: FormulaEnv): FormulaValue[] | FormulaError {
+    // $2..$4 spans columns of the current row; @2..@5 spans rows of the current column
+    const fromRow = resolveFieldRow(node.from.row, env);
+    const toRow = node.to.row === undefined ? fromRow : resolveFieldRow(node.to.row, env);
+    const fromCol = resolveColumn(node.from.col, env);
+    const toCol = node.to.col === undefined ? fromCol : resolveColumn(node.to.col, env);
+
+    const values: FormulaValue[] = [];
+    for (let r = Math.min(fromRow, toRow); r <= Math.max(fromRow, toRow); r++) {
+        for (let c = Math.min(fromCol, toCol); c <= Math.max(fromCol, toCol); c++) {
+            const value = fieldValue(r, c, env);
+            if (value instanceof FormulaError && value.code === '#REF!') return value;
+            values.push(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * The fields a formula reads when computing the current field, within the
+ * table; `$name` column names and remote() tables are not included
+ */
+export function formulaFields(node: FormulaNode, env: FormulaEnv): Array<{ row: number; col: number }> {
+    const fields: Array<{ row: number; col: number }> = [];
+    const add = (row: number, col: number) => {
+        if (row >= 1 && row <= env.rowCount && col >= 1 && col <= env.columnCount) fields.push({ row, col });
+    };
+    const visit = (n: FormulaNode): void => {
+        switch (n.type) {
+            case 'field':
+                add(resolveFieldRow(n.row, env), resolveColumn(n.col, env));
+                break;
+            case 'range': {
+                const fromRow = resolveFieldRow(n.from.row, env);
+                const toRow = n.to.row === undefined ? fromRow : resolveFieldRow(n.to.row, env);
+                const fromCol = resolveColumn(n.from.col, env);
+                const toCol = n.to.col === undefined ? fromCol : resolveColumn(n.to.col, env);
+                for (let r = Math.min(fromRow, toRow); r <= Math.max(fromRow, toRow); r++) {
+                    for (let c = Math.min(fromCol, toCol); c <= Math.max(fromCol, toCol); c++) add(r, c);
+                }
+                break;
+            }
+            case 'call':
+                n.args.forEach(visit);
+                break;
+            case 'unary':
+                visit(n.operand);
+                break;
+            case 'binary':
+                visit(n.left);
+                visit(n.right);
+                break;
+        }
+    };
+    visit(node);
+    return fields;
+}
+
+/** Names (`$name`) used in a formula */
+export function formulaNames(node: FormulaNode): string[] {
+    switch (node.type) {
+        case 'name':
+            return [node.name];
+        case 'call':
+            return node.args.flatMap(formulaNames);
+        case 'unary':
+            return formulaNames(node.operand);
+        case 'binary':
+            return [...formulaNames(node.left), ...formulaNames(node.right)];
+        default:
+            return [];
+    }
+}
+
+/** Evaluate an expression */
+export function evaluateFormula(expression: string | FormulaNode, env: FormulaEnv): FormulaValue {
+    let node: FormulaNode;
+    try {
+        node = typeof expression === 'string' ? parseFormulaExpression(expression) : expression;
+    } catch (error) {
+        return new FormulaError('#ERROR!', error instanceof Error ? error.message : String(error));
+    }
+    return evaluate(node, env);
+}
+
+function evaluate(node: FormulaNode, env: FormulaEnv): FormulaValue {
+    switch (node.type) {
+        case 'number':
+        case 'string':
+        case 'date':
+            return node.value;
+
+        case 'field':
+            return fieldValue(resolveFieldRow(node.row, env), resolveColumn(node.col, env), env);
+
+        case 'row':
+            // A row on its own is a row number, as in @0 or @>
+            return node.row === '#' ? env.dataRowCount : env.resolveRow(node.row);
+
+        case 'range':
+            return rangeValues(node, env);
+
+        case 'name': {
+            const text = env.named(node.name);
+            return text === undefined
+                ? new FormulaError('#NAME?', `unknown name $${node.name}`)
+                : cellFormulaValue(text, env.durationMode);
+        }
+
+        case 'ident':
+            if (node.name === 'pi') return Math.PI;
+            if (node.name === 'true') return true;
+            if (node.name === 'false') return false;
+            return new FormulaError('#NAME?', `unknown name ${node.name}`);
+
+        case 'remote': {
+            const remote = env.remote(node.table);
+            if (!remote) return new FormulaError('#REF!', `no table named ${node.table}`);
+            return evaluate(node.ref, remote);
+        }
+
+        case 'unary': {
+            const value = evaluate(node.operand, env);
+            if (node.op === '!') return value instanceof FormulaError ? value : !isTruthy(value);
+            const n = toNumber(value);
+            return n instanceof FormulaError ? n : node.op === '-' ? -n : n;
+        }
+
+        case 'binary':
+            return evaluateBinary(node.op, node.left, node.right, env);
+
+        case 'call':
+            return callFunction(node.name, node.args, env);
+    }
+}
+
+function numberResult(value: number): number | FormulaError {
+    return Number.isFinite(value) ? value : new FormulaError('#NUM!');
+}
+
+function evaluateBinary(op: string, leftNode: FormulaNode, rightNode: FormulaNode, env: FormulaEnv): FormulaValue {
+    const left = evaluate(leftNode, env);
+
+    // Logic short-circuits
+    if (op === '&&' || op === '||') {
+        if (left instanceof FormulaError) return left;
+        if (op === '&&' ? !isTruthy(left) : isTruthy(left)) return op === '||';
+        const right = evaluate(rightNode, env);
+        return right instanceof FormulaError ? right : isTruthy(right);
+    }
+
+    const right = evaluate(rightNode, env);
+    const error = firstError(left, right);
+    if (error) return error;
+
+    switch (op) {
+        case '==': return compare(left, right) === 0;
+        case '!=': return compare(left, right) !== 0;
+        case '<': return compare(left, right) < 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>': return compare(left, right) > 0;
+        case '>=': return compare(left, right) >= 0;
+    }
+
+    // Date arithmetic in days
+    if (isDate(left) || isDate(right)) {
+        if (op === '-' && isDate(left) && isDate(right)) return (left.time - right.time) / DAY_MS;
+        const date = isDate(left) ? left : right as FormulaDate;
+        const days = toNumber(isDate(left) ? right : left);
+        if (days instanceof FormulaError) return days;
+        if (op === '+' || (op === '-' && isDate(left))) {
+            return { kind: 'date', time: date.time + (op === '-' ? -days : days) * DAY_MS, hasTime: date.hasTime || !Number.isInteger(days) };
+        }
+        return new FormulaError('#VALUE!', `cannot use ${op} with a date`);
+    }
+
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (a instanceof FormulaError) return a;
+    if (b instanceof FormulaError) return b;
+    switch (op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? new FormulaError('#DIV/0!') : a / b;
+        case '%': return b === 0 ? new FormulaError('#DIV/0!') : a % b;
+        case '^': return numberResult(Math.pow(a, b));
+    }
+    return new FormulaError('#ERROR!', `unknown operator ${op}`);
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Values of vector function arguments, flattened. A bare `$N` argument is
+ * the whole column, as in `vsum($2)`.
+ */
+function vectorArgs(args: FormulaNode[], env: FormulaEnv): FormulaValue[] | FormulaError {
+    const values: FormulaValue[] = [];
+    for (const arg of args) {
+        if (arg.type === 'field' && arg.row === undefined && arg.col !== undefined && /^\d+$/.test(arg.col) && arg.col !== '0') {
+            const range = rangeValues({ from: { type: 'field', row: '1', col: arg.col }, to: { type: 'field', row: String(env.rowCount), col: arg.col } }, env);
+            if (range instanceof FormulaError) return range;
+            // The whole column means its data rows, not the header
+            values.push(...range.slice(env.rowCount - env.dataRowCount));
+            continue;
+        }
+        const value = evaluate(arg, env);
+        if (Array.isArray(value)) values.push(...value.flat(Infinity as 1));
+        else values.push(value);
+    }
+    return values;
+}
+
+/** Numbers among vector values; empty cells and text are skipped, errors returned */
+function vectorNumbers(args: FormulaNode[], env: FormulaEnv): number[] | FormulaError {
+    const values = vectorArgs(args, env);
+    if (values instanceof FormulaError) return values;
+    const error = firstError(...values);
+    if (error) return error;
+    return values.filter(isNumeric).filter(v => v !== '' && !(typeof v === 'string' && v.trim() === '')).map(v => toNumber(v) as number);
+}
+
+function percentile(sorted: number[], p: number): number {
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function statistic(name: string, values: number[], p?: number): FormulaValue {
+    const sum = values.reduce((a, b) => a + b, 0);
+    switch (name) {
+        case 'vsum': return sum;
+        case 'vcount': return values.length;
+        case 'vprod': return values.reduce((a, b) => a * b, 1);
+    }
+    if (values.length === 0) return new FormulaError('#N/A', `${name} of an empty range`);
+    const mean = sum / values.length;
+    const squares = values.reduce((s, v) => s + (v - mean) ** 2, 0);
+    const sorted = [...values].sort((a, b) => a - b);
+    switch (name) {
+        case 'vmean': return mean;
+        case 'vmin': return sorted[0];
+        case 'vmax': return sorted[sorted.length - 1];
+        case 'vmedian': return percentile(sorted, 50);
+        case 'vpercentile':
+            return p === undefined || p < 0 || p > 100 ? new FormulaError('#NUM!', 'percentile must be 0-100') : percentile(sorted, p);
+        // sdev is the population deviation (as before); vsdev and vvar use the sample
+        case 'sdev': return Math.sqrt(squares / values.length);
+        case 'vsdev':
+        case 'vvar':
+            if (values.length < 2) return new FormulaError('#DIV/0!', `${name} needs two values`);
+            return name === 'vvar' ? squares / (values.length - 1) : Math.sqrt(squares / (values.length - 1));
+    }
+    return new FormulaError('#NAME?', `unknown function ${name}`);
+}
+
+const VECTOR_FUNCTIONS: Record<string, string> = {
+    vsum: 'vsum', sum: 'vsum',
+    vmean: 'vmean', mean: 'vmean',
+    vmin: 'vmin', min: 'vmin',
+    vmax: 'vmax', max: 'vmax',
+    vcount: 'vcount', count: 'vcount',
+    vprod: 'vprod', prod: 'vprod',
+    vmedian: 'vmedian', median: 'vmedian',
+    sdev: 'sdev', vsdev: 'vsdev', vvar: 'vvar',
+};
+
+/** A small printf: %d %i %f %e %g %s %% with flags, width and precision */
+export function formatFormulaString(format: string, values: FormulaValue[]): string | FormulaError {
+    let index = 0;
+    let error: FormulaError | undefined;
+    const text = format.replace(/%([-0+ ]*)(\d+)?(?:\.(\d+))?([difegs%])/g, (_, flags: string, width, precision, type: string) => {
+        if (type === '%') return '%';
+        const value = values[index++] ?? '';
+        let out: string;
+        if (type === 's') {
+            out = toText(value);
+            if (precision !== undefined) out = out.slice(0, +precision);
+        } else {
+            const n = toNumber(value);
+            if (n instanceof FormulaError) {
+                error = error ?? n;
+                return '';
+            }
+            out = type === 'd' || type === 'i' ? String(Math.round(n))
+                : type === 'f' ? n.toFixed(precision !== undefined ? +precision : 6)
+                : type === 'e' ? n.toExponential(precision !== undefined ? +precision : 6)
+                : String(parseFloat(n.toPrecision(precision !== undefined ? Math.max(1, +precision) : 6)));
+            if (flags.includes('+') && n >= 0) out = '+' + out;
+        }
+        if (width !== undefined && out.length < +width) {
+            out = flags.includes('-') ? out.padEnd(+width)
+                : flags.includes('0') && type !== 's' ? out.replace(/^([+-]?)/, (sign) => sign + '0'.repeat(+width - out.length))
+                : out.padStart(+width);
+        }
+        return out;
+    });
+    return error ?? text;
+}
+
+function lookup(name: string, args: FormulaValue[]): FormulaValue {
+    const [value, search, results, predicate] = args;
+    const searchList = Array.isArray(search) ? search : [search];
+    const resultList = results === undefined || results === '' ? searchList : Array.isArray(results) ? results : [results];
+    const op = predicate === undefined ? '==' : toText(predicate);
+    const matches = (candidate: FormulaValue): boolean => {
+        const c = compare(value, candidate);
+        switch (op) {
+            case '==': case '=': case 'equal': return c === 0;
+            case '!=': return c !== 0;
+            case '<': return c < 0;
+            case '<=': return c <= 0;
+            case '>': return c > 0;
+            case '>=': return c >= 0;
+        }
+        return false;
+    };
+
+    const found: FormulaValue[] = [];
+    for (let i = 0; i < searchList.length; i++) {
+        if (matches(searchList[i])) found.push(resultList[i] ?? '');
+    }
+    if (name === 'org-lookup-all') return found;
+    if (found.length === 0) return new FormulaError('#N/A', `${toText(value)} not found`);
+    return name === 'org-lookup-first' ? found[0] : found[found.length - 1];
+}
+
+function arity(name: string, args: FormulaNode[], min: number, max = min): FormulaError | undefined {
+    if (args.length < min || args.length > max) {
+        return new FormulaError('#VALUE!', `${name} takes ${min === max ? min : `${min}-${max}`} argument(s)`);
+    }
+    return undefined;
+}
+
+function toDate(value: FormulaValue): FormulaDate | FormulaError {
+    if (value instanceof FormulaError) return value;
+    if (isDate(value)) return value;
+    const date = typeof value === 'string' ? parseFormulaDate(value) : undefined;
+    return date ?? new FormulaError('#VALUE!', `${toText(value)} is not a date`);
+}
+
+function callFunction(name: string, args: FormulaNode[], env: FormulaEnv): FormulaValue {
+    if (VECTOR_FUNCTIONS[name]) {
+        const numbers = vectorNumbers(args, env);
+        return numbers instanceof FormulaError ? numbers : statistic(VECTOR_FUNCTIONS[name], numbers);
+    }
+
+    // Functions that decide which arguments to evaluate
+    switch (name) {
+        case 'if': {
+            const bad = arity(name, args, 2, 3);
+            if (bad) return bad;
+            const condition = evaluate(args[0], env);
+            if (condition instanceof FormulaError) return condition;
+            return isTruthy(condition) ? evaluate(args[1], env) : args[2] ? evaluate(args[2], env) : '';
+        }
+        case 'iferror': {
+            const bad = arity(name, args, 2);
+            if (bad) return bad;
+            const value = evaluate(args[0], env);
+            return firstError(value) ? evaluate(args[1], env) : value;
+        }
+        case 'iserror':
+            return arity(name, args, 1) ?? firstError(evaluate(args[0], env)) !== undefined;
+        case 'vpercentile': {
+            const bad = arity(name, args, 2);
+            if (bad) return bad;
+            const p = toNumber(evaluate(args[1], env));
+            if (p instanceof FormulaError) return p;
+            const numbers = vectorNumbers(args.slice(0, 1), env);
+            return numbers instanceof FormulaError ? numbers : statistic(name, numbers, p);
+        }
+        case 'org-lookup-first':
+        case 'org-lookup-last':
+        case 'org-lookup-all': {
+            const bad = arity(name, args, 2, 4);
+            if (bad) return bad;
+            const values = args.map(arg => evaluate(arg, env));
+            const error = firstError(values[0]);
+            return error ?? lookup(name, values);
+        }
+    }
+
+    const values = args.map(arg => evaluate(arg, env));
+    const error = firstError(...values);
+    if (error) return error;
+
+    const number = (i: number) => toNumber(values[i]);
+    const math = (fn: (n: number) => number): FormulaValue => {
+        const bad = arity(name, args, 1);
+        if (bad) return bad;
+        const n = number(0);
+        return n instanceof FormulaError ? n : numberResult(fn(n));
+    };
+
+    switch (name) {
+        // Logic
+        case 'and': return values.every(isTruthy);
+        case 'or': return values.some(isTruthy);
+        case 'not': return arity(name, args, 1) ?? !isTruthy(values[0]);
+        case 'isblank': return arity(name, args, 1) ?? (values[0] === '');
+
+        // Numbers
+        case 'abs': return math(Math.abs);
+        case 'floor': return math(Math.floor);
+        case 'ceil': return math(Math.ceil);
+        case 'sqrt': return math(Math.sqrt);
+        case 'exp': return math(Math.exp);
+        case 'ln': return math(n => n > 0 ? Math.log(n) : NaN);
+        case 'log10': return math(n => n > 0 ? Math.log10(n) : NaN);
+        case 'round': {
+            const bad = arity(name, args, 1, 2);
+            if (bad) return bad;
+            const n = number(0);
+            const digits = args.length > 1 ? number(1) : 0;
+            if (n instanceof FormulaError) return n;
+            if (digits instanceof FormulaError) return digits;
+            const factor = Math.pow(10, Math.round(digits));
+            return Math.round(n * factor) / factor;
+        }
+
+        // Strings
+        case 'concat': return values.map(toText).join('');
+        case 'format': {
+            const bad = arity(name, args, 1, 99);
+            return bad ?? formatFormulaString(toText(values[0]), values.slice(1));
+        }
+        case 'upper': return arity(name, args, 1) ?? toText(values[0]).toUpperCase();
+        case 'lower': return arity(name, args, 1) ?? toText(values[0]).toLowerCase();
+        case 'trim': return arity(name, args, 1) ?? toText(values[0]).trim();
+        case 'len':
+        case 'strlen': return arity(name, args, 1) ?? toText(values[0]).length;
+        case 'substr': {
+            const bad = arity(name, args, 2, 3);
+            if (bad) return bad;
+            const start = number(1);
+            const length = args.length > 2 ? number(2) : Infinity;
+            if (start instanceof FormulaError) return start;
+            if (length instanceof FormulaError) return length;
+            const text = toText(values[0]);
+            return text.slice(Math.max(0, start - 1), Math.max(0, start - 1) + length);
+        }
+        case 'string':
+        case 'str': return arity(name, args, 1) ?? toText(values[0]);
+        case 'number':
+        case 'num': return arity(name, args, 1) ?? toNumber(values[0]);
+
+        // Dates
+        case 'date': return arity(name, args, 1) ?? toDate(values[0]);
+        case 'now':
+        case 'today': {
+            const bad = arity(name, args, 0);
+            if (bad) return bad;
+            const n = env.now;
+            const time = name === 'now'
+                ? Date.UTC(n.getFullYear(), n.getMonth(), n.getDate(), n.getHours(), n.getMinutes())
+                : Date.UTC(n.getFullYear(), n.getMonth(), n.getDate());
+            return { kind: 'date', time, hasTime: name === 'now' };
+        }
+        case 'year':
+        case 'month':
+        case 'day': {
+            const bad = arity(name, args, 1);
+            if (bad) return bad;
+            const date = toDate(values[0]);
+            if (date instanceof FormulaError) return date;
+            const d = new Date(date.time);
+            return name === 'year' ? d.getUTCFullYear() : name === 'month' ? d.getUTCMonth() + 1 : d.getUTCDate();
+        }
+    }
+
+    return new FormulaError('#NAME?', `unknown function ${name}`);
+}
+
+/**
+ * A formula result as a cell value: numbers stay numbers (for the format
+ * specifier), booleans become 1 or 0, everything else becomes text
+ */
+export function formulaResult(value: FormulaValue): number | string {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : '#NUM!';
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return toText(value);
+}
@@ -0,0 +1,436 @@
+/**
+ * Org tags/property match expressions
+ * No VS Code dependencies - shared by the agenda, dynamic blocks, the
+ * database (see database/tagsMatchSql.ts) and the CLI
+ *
+ * Implements the match syntax of org's tags/property searches:
+ *
+ *   +work-personal              tag `work` and not tag `personal`
+ *   work|urgent                 either tag
+ *   +@office+TODO="NEXT"        tag and TODO keyword
+ *   PRIORITY="A"&LEVEL<3        priority and heading level
+ *   EFFORT>2                    numeric comparison on a property
+ *   EFFORT<2:00                 duration comparison (H:MM)
+ *   DEADLINE<="<+1w>"           date comparison (absolute or relative)
+ *   OWNER={^s.m$}               regular expression on a property
+ *   +{^proj}                    any tag matching a regular expression
+ *   +work-(meeting|call)        parentheses group alternatives
+ *   +project/NEXT|WAITING       tag, restricted to the given TODO keywords
+ *   /-DONE                      any TODO keyword except DONE
+ *
+ * `|` binds loosest, so `a+b|c` is `(a and b) or c`. Tags match the
+ * heading's own and inherited tags; tag names are case-sensitive, property
+ * names are not.
+ */
+
+import { addDays, addMonths, addWeeks, addYears, format } from 'date-fns';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Comparison operators usable with properties */
+export type MatchOperator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Right-hand side of a property comparison. The value's type decides how
+ * the property is read: as text, a number, a date, or a duration.
+ */
+export type MatchValue =
+    | { type: 'string'; value: string }
+    | { type: 'number'; value: number }
+    /** Day precision, `yyyy-MM-dd` */
+    | { type: 'date'; value: string }
+    | { type: 'duration'; minutes: number }
+    | { type: 'regex'; pattern: string };
+
+/** Parsed match expression */
+export type MatchNode =
+    | { kind: 'or'; terms: MatchNode[] }
+    | { kind: 'and'; terms: MatchNode[] }
+    | { kind: 'not'; term: MatchNode }
+    | { kind: 'tag'; tag: string }
+    | { kind: 'tagRegex'; pattern: string }
+    | { kind: 'property'; name: string; op: MatchOperator; value: MatchValue }
+    | { kind: 'todo'; include: string[]; exclude: string[] }
+    | { kind: 'all' };
+
+/** What a match expression is evaluated against */
+export interface MatchTarget {
+    title?: string;
+    tags: string[];
+    /** Tags inherited from ancestors (and #+FILETAGS) */
+    inheritedTags?: string[];
+    todoState?: string;
+    priority?: string;
+    level?: number;
+    category?: string;
+    /** Planning timestamps as written, e.g. `2024-01-15 Mon 10:00` */
+    scheduled?: string;
+    deadline?: string;
+    closed?: string;
+    /** Property drawer, keys in any case */
+    properties: Record<string, string>;
+}
+
+export interface TagsMatchOptions {
+    /** Reference for relative dates such as `"<today>"` (default: now) */
+    now?: Date;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const TAG_CHARS = /[\w@#%]/;
+const OPERATORS: MatchOperator[] = ['<>', '<=', '>=', '=', '<', '>'];
+
+interface ParseState {
+    text: string;
+    pos: number;
+    now: Date;
+}
+
+/**
+ * Parse a match expression. An empty expression matches everything.
+ * @throws Error describing the first syntax error
+ */
+export function parseTagsMatch(expression: string, options: TagsMatchOptions = {}): MatchNode {
+    const text = expression.trim();
+    if (!text) return { kind: 'all' };
+
+    const state: ParseState = { text, pos: 0, now: options.now ?? new Date() };
+    let node = parseOr(state);
+
+    if (state.text[state.pos] === '/') {
+        const todo = parseTodoPart(state.text.slice(state.pos + 1));
+        state.pos = state.text.length;
+        node = node.kind === 'all' ? todo : { kind: 'and', terms: [node, todo] };
+    }
+    if (state.pos < state.text.length) fail(state, `unexpected "${state.text[state.pos]}"`);
+    return node;
+}
+
+function fail(state: ParseState, message: string): never {
+    throw new Error(`Match "${state.text}": ${message} at position ${state.pos + 1}`);
+}
+
+function skipSpaces(state: ParseState): void {
+    while (state.text[state.pos] === ' ') state.pos++;
+}
+
+/** `branch | branch | ...`; a lone empty branch matches everything */
+function parseOr(state: ParseState): MatchNode {
+    const branches = [parseAnd(state)];
+    while (state.text[state.pos] === '|') {
+        state.pos++;
+        branches.push(parseAnd(state));
+    }
+    if (branches.length > 1 && branches.some(b => b.kind === 'all')) fail(state, 'empty alternative');
+    return branches.length === 1 ? branches[0] : { kind: 'or', terms: branches };
+}
+
+/** A sequence of signed terms: `+a-b&c` */
+function parseAnd(state: ParseState): MatchNode {
+    const terms: MatchNode[] = [];
+    for (;;) {
+        skipSpaces(state);
+        const ch = state.text[state.pos];
+        if (ch === undefined || ch === '|' || ch === ')' || ch === '/') break;
+
+        let negate = false;
+        if (ch === '&' && (state.text[state.pos + 1] === '-' || state.text[state.pos + 1] === '+')) {
+            // `a&-b` reads as `a-b`.
+            state.pos++;
+        }
+        const sign = state.text[state.pos];
+        if (sign === '+' || sign === '&') {
+            state.pos++;
+        } else if (sign === '-') {
+            negate = true;
+            state.pos++;
+        } else if (terms.length > 0) {
+            // Only the first term may omit its sign.
+            break;
+        }
+        skipSpaces(state);
+        const next = state.text[state.pos];
+        if (next === undefined || next === '|' || next === ')' || next === '/') {
+            fail(state, `expected a tag or property after "${state.text[state.pos - 1]}"`);
+        }
+        const term = parseAtom(state);
+        terms.push(negate ? { kind: 'not', term } : term);
+    }
+    if (terms.length === 0) return { kind: 'all' };
+    return terms.length === 1 ? terms[0] : { kind: 'and', terms };
+}
+
+/** `( expr )`, `{regex}`, `tag` or `PROP op value` */
+function parseAtom(state: ParseState): MatchNode {
+    const { text } = state;
+    if (text[state.pos] === '(') {
+        state.pos++;
+        const inner = parseOr(state);
+        if (inner.kind === 'all') fail(state, 'empty group');
+        if (text[state.pos] !== ')') fail(state, 'expected ")"');
+        state.pos++;
+        return inner;
+    }
+    if (text[state.pos] === '{') {
+        return { kind: 'tagRegex', pattern: readRegex(state) };
+    }
+
+    const start = state.pos;
+    while (state.pos < text.length && TAG_CHARS.test(text[state.pos])) state.pos++;
+    if (state.pos === start) fail(state, `unexpected "${text[state.pos]}"`);
+    const word = text.slice(start, state.pos);
+
+    // A word followed by an operator is a property, otherwise a tag.
+    const op = OPERATORS.find(o => text.startsWith(o, state.pos));
+    if (!op) return { kind: 'tag', tag: word };
+
+    if (!/^[A-Za-z_]\w*$/.test(word)) {
+        state.pos = start;
+        fail(state, `invalid property name "${word}"`);
+    }
+    state.pos += op.length;
+    const value = readValue(state);
+    if (value.type === 'regex' && op !== '=' && op !== '<>') {
+        fail(state, `regular expressions only work with = and <>`);
+    }
+    return { kind: 'property', name: word.toUpperCase(), op, value };
+}
+
+/** Read `{...}`, with `\}` for a literal brace, and check it compiles */
+function readRegex(state: ParseState): string {
+    const { text } = state;
+    const start = state.pos;
+    let pattern = '';
+    let i = start + 1;
+    while (i < text.length && text[i] !== '}') {
+        if (text[i] === '\\' && text[i + 1] === '}') i++;
+        pattern += text[i++];
+    }
+    if (i >= text.length) fail(state, 'unterminated {regex}');
+    try {
+        new RegExp(pattern);
+    } catch (error) {
+        fail(state, `invalid regular expression {${pattern}}: ${error instanceof Error ? error.message : error}`);
+    }
+    state.pos = i + 1;
+    return pattern;
+}
+
+/** Read a comparison value: "string", "<date>", {regex}, H:MM or a number */
+function readValue(state: ParseState): MatchValue {
+    const { text } = state;
+    const ch = text[state.pos];
+
+    if (ch === '"') {
+        let value = '';
+        let i = state.pos + 1;
+        while (i < text.length && text[i] !== '"') {
+            if (text[i] === '\\' && i + 1 < text.length) i++;
+            value += text[i++];
+        }
+        if (i >= text.length) fail(state, 'unterminated string');
+        // org spells dates as quoted timestamps: "<2024-01-15>" or "<today>".
+        const stamp = value.match(/^[<[](.*)[>\]]$/);
+        if (stamp) {
+            const date = resolveMatchDate(stamp[1], state.now);
+            if (!date) fail(state, `invalid date "${value}"`);
+            state.pos = i + 1;
+            return { type: 'date', value: date };
+        }
+        state.pos = i + 1;
+        return { type: 'string', value };
+    }
+    if (ch === '{') {
+        return { type: 'regex', pattern: readRegex(state) };
+    }
+
+    const rest = text.slice(state.pos);
+    const duration = rest.match(/^(\d+):(\d{2})(?::\d{2})?/);
+    if (duration) {
+        state.pos += duration[0].length;
+        return { type: 'duration', minutes: parseInt(duration[1], 10) * 60 + parseInt(duration[2], 10) };
+    }
+    const number = rest.match(/^-?\d+(?:\.\d+)?/);
+    if (number) {
+        state.pos += number[0].length;
+        return { type: 'number', value: parseFloat(number[0]) };
+    }
+    fail(state, 'expected a "string", "<date>", {regex}, duration or number');
+}
+
+/**
+ * Resolve the inside of a date value to `yyyy-MM-dd`: an org timestamp body
+ * (`2024-01-15 Mon 10:00`), `today`, `tomorrow`, `yesterday`, `now`, or an
+ * offset like `+3d`, `-2w`, `+1m`, `+1y`. Returns undefined if unrecognized.
+ */
+export function resolveMatchDate(text: string, now: Date = new Date()): string | undefined {
+    const value = text.trim().toLowerCase();
+    const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (absolute) {
+        const date = new Date(+absolute[1], +absolute[2] - 1, +absolute[3]);
+        return isNaN(date.getTime()) || date.getMonth() !== +absolute[2] - 1 ? undefined : format(date, 'yyyy-MM-dd');
+    }
+    switch (value) {
+        case 'now':
+        case 'today': return format(now, 'yyyy-MM-dd');
+        case 'tomorrow': return format(addDays(now, 1), 'yyyy-MM-dd');
+        case 'yesterday': return format(addDays(now, -1), 'yyyy-MM-dd');
+    }
+    const offset = value.match(/^([+-]\d+)([dwmy])$/);
+    if (!offset) return undefined;
+    const n = parseInt(offset[1], 10);
+    const shift = { d: addDays, w: addWeeks, m: addMonths, y: addYears }[offset[2] as 'd' | 'w' | 'm' | 'y'];
+    return format(shift(now, n), 'yyyy-MM-dd');
+}
+
+/** Parse the part after `/`: `NEXT|WAITING`, `-DONE`, `!` (ignored) */
+function parseTodoPart(part: string): MatchNode {
+    const include: string[] = [];
+    const exclude: string[] = [];
+    for (const raw of part.replace(/^!/, '').split('|')) {
+        const word = raw.trim();
+        if (!word) continue;
+        // `-A-B` excludes both; `+A` is the same as `A`.
+        for (const m of word.matchAll(/([+-]?)([^+-]+)/g)) {
+            (m[1] === '-' ? exclude : include).push(m[2]);
+        }
+    }
+    return { kind: 'todo', include, exclude };
+}
+
+// =============================================================================
+// Reading property values
+// =============================================================================
+//
+// These define how text is read as a number, date or duration. The SQL
+// compiler mirrors them exactly, so a query gives the same answer in memory
+// and in the database.
+
+/** Leading number, as parseFloat reads it; undefined unless text starts like one */
+export function matchNumberValue(text: string | undefined): number | undefined {
+    if (text === undefined) return undefined;
+    const trimmed = text.replace(/^ +/, '');
+    return /^[-+]?\.?\d/.test(trimmed) ? parseFloat(trimmed) : undefined;
+}
+
+/** Day of a timestamp (`<2024-01-15 Mon>`, `2024-01-15`) as `yyyy-MM-dd` */
+export function matchDateValue(text: string | undefined): string | undefined {
+    if (text === undefined) return undefined;
+    const day = text.replace(/^[<[]+/, '').slice(0, 10);
+    return /^\d{4}-\d{2}-\d{2}$/.test(day) ? day : undefined;
+}
+
+/** Minutes of an `H:MM` duration; a plain number counts as minutes */
+export function matchDurationValue(text: string | undefined): number | undefined {
+    if (text === undefined) return undefined;
+    const trimmed = text.trim();
+    const hm = trimmed.match(/^(\d{1,3}):(\d{2})/);
+    if (hm) return parseInt(hm[1], 10) * 60 + parseInt(hm[2], 10);
+    return matchNumberValue(trimmed);
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Test a parsed match expression against a heading
+ */
+export function evaluateTagsMatch(node: MatchNode, target: MatchTarget): boolean {
+    switch (node.kind) {
+        case 'all':
+            return true;
+        case 'or':
+            return node.terms.some(term => evaluateTagsMatch(term, target));
+        case 'and':
+            return node.terms.every(term => evaluateTagsMatch(term, target));
+        case 'not':
+            return !evaluateTagsMatch(node.term, target);
+        case 'tag':
+            return target.tags.includes(node.tag) || (target.inheritedTags ?? []).includes(node.tag);
+        case 'tagRegex': {
+            const re = compiledRegex(node.pattern);
+            return target.tags.some(tag => re.test(tag)) || (target.inheritedTags ?? []).some(tag => re.test(tag));
+        }
+        case 'todo': {
+            const state = target.todoState;
+            if (node.include.length > 0 && (!state || !node.include.includes(state))) return false;
+            return !state || !node.exclude.includes(state);
+        }
+        case 'property':
+            return compareProperty(propertyValue(node.name, target), node.op, node.value);
+    }
+}
+
+/**
+ * Parse and test in one step. Prefer parseTagsMatch + evaluateTagsMatch when
+ * testing many headings against the same expression.
+ */
+export function matchesTagsMatch(expression: string, target: MatchTarget, options?: TagsMatchOptions): boolean {
+    return evaluateTagsMatch(parseTagsMatch(expression, options), target);
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function compiledRegex(pattern: string): RegExp {
+    let re = regexCache.get(pattern);
+    if (!re) {
+        re = new RegExp(pattern);
+        regexCache.set(pattern, re);
+    }
+    return re;
+}
+
+/** Special properties first, then the property drawer (case-insensitive) */
+function propertyValue(name: string, target: MatchTarget): string | undefined {
+    switch (name) {
+        case 'TODO': return target.todoState;
+        case 'PRIORITY': return target.priority;
+        case 'LEVEL': return target.level?.toString();
+        case 'ITEM': return target.title;
+        case 'SCHEDULED': return target.scheduled;
+        case 'DEADLINE': return target.deadline;
+        case 'CLOSED': return target.closed;
+    }
+    for (const [key, value] of Object.entries(target.properties)) {
+        if (key.toUpperCase() === name) return value;
+    }
+    return name === 'CATEGORY' ? target.category : undefined;
+}
+
+function compareProperty(actual: string | undefined, op: MatchOperator, expected: MatchValue): boolean {
+    let cmp: number;
+    switch (expected.type) {
+        case 'regex': {
+            // org treats a missing property as the empty string.
+            const found = compiledRegex(expected.pattern).test(actual ?? '');
+            return op === '<>' ? !found : found;
+        }
+        case 'string': {
+            const a = actual ?? '';
+            cmp = a === expected.value ? 0 : a < expected.value ? -1 : 1;
+            break;
+        }
+        default: {
+            const [a, b] = expected.type === 'number' ? [matchNumberValue(actual), expected.value]
+                : expected.type === 'date' ? [matchDateValue(actual), expected.value]
+                : [matchDurationValue(actual), expected.minutes];
+            // A missing or unreadable value only satisfies "not equal".
+            if (a === undefined) return op === '<>';
+            cmp = a === b ? 0 : a < b ? -1 : 1;
+        }
+    }
+    switch (op) {
+        case '=': return cmp === 0;
+        case '<>': return cmp !== 0;
+        case '<': return cmp < 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '>=': return cmp >= 0;
+    }
+}
@@ -14,6 +14,7 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { execFileSync } from 'child_process';
 
@@ -23,6 +24,8 @@ interface SvgConverter {
     cmd: string;
     /** Build the argument vector converting `svg` -> `pdf`. */
     args: (svg: string, pdf: string) => string[];
+    /** Build the argument vector converting `svg` -> `png`. */
+    pngArgs: (svg: string, png: string) => string[];
 }
 
 /**
@@ -31,9 +34,21 @@ interface SvgConverter {
  * headless-browser or full Inkscape startup cost).
  */
 const CONVERTERS: SvgConverter[] = [
-    { cmd: 'rsvg-convert', args: (svg, pdf) => ['-f', 'pdf', '-o', pdf, svg] },
-    { cmd: 'cairosvg', args: (svg, pdf) => [svg, '-o', pdf] },
-    { cmd: 'inkscape', args: (svg, pdf) => [svg, '--export-type=pdf', `--export-filename=${pdf}`] },
+    {
+        cmd: 'rsvg-convert',
+        args: (svg, pdf) => ['-f', 'pdf', '-o', pdf, svg],
+        pngArgs: (svg, png) => ['-f', 'png', '-o', png, svg],
+    },
+    {
+        cmd: 'cairosvg',
+        args: (svg, pdf) => [svg, '-o', pdf],
+        pngArgs: (svg, png) => [svg, '-f', 'png', '-o', png],
+    },
+    {
+        cmd: 'inkscape',
+        args: (svg, pdf) => [svg, '--export-type=pdf', `--export-filename=${pdf}`],
+        pngArgs: (svg, png) => [svg, '--export-type=png', `--export-filename=${png}`],
+    },
 ];
 
 /** Matches `\includegraphics[opts]{path.svg}` (opts optional). */
@@ -158,3 +173,28 @@ export function convertSvgIncludesToPdf(latex: string, baseDir: string): SvgConv
 
     return result;
 }
+
+/**
+ * Convert SVG source (rather than a file) to a PDF or PNG at `outputPath`,
+ * e.g. a generated table plot. Returns undefined on success, or the reason
+ * the conversion failed.
+ */
+export function convertSvgText(svg: string, outputPath: string, format: 'pdf' | 'png'): string | undefined {
+    const converter = findSvgConverter();
+    if (!converter) {
+        return 'no SVG converter found (install rsvg-convert, cairosvg, or inkscape)';
+    }
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-svg-'));
+    const svgPath = path.join(dir, 'input.svg');
+    try {
+        fs.writeFileSync(svgPath, svg);
+        const args = format === 'png' ? converter.pngArgs(svgPath, outputPath) : converter.args(svgPath, outputPath);
+        execFileSync(converter.cmd, args, { stdio: 'ignore', timeout: 60000 });
+        return fs.existsSync(outputPath) ? undefined : `${converter.cmd} produced no output`;
+    } catch {
+        return `${converter.cmd} failed to convert`;
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,240 @@
+/**
+ * Tests for the blog index, tag archives and RSS/Atom feeds: post metadata,
+ * feed generation, and publishing real projects from a temp dir
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+    generateAtomFeed,
+    generateRssFeed,
+    parseOrgDate,
+    parsePostMetadata,
+    resolveBlogOptions,
+    type BlogPost,
+} from '../publishBlog';
+import { publishProject, publishProjectWithTheme } from '../orgPublish';
+import { mergeWithDefaults, validateProject, type PublishProject } from '../publishProject';
+
+describe('post metadata', () => {
+    it('parses org timestamps and plain dates as UTC', () => {
+        expect(parseOrgDate('<2026-01-16 Fri>')?.toISOString()).toBe('2026-01-16T00:00:00.000Z');
+        expect(parseOrgDate('[2026-01-16 Fri 09:30]')?.toISOString()).toBe('2026-01-16T09:30:00.000Z');
+        expect(parseOrgDate('2026-01-16')?.toISOString()).toBe('2026-01-16T00:00:00.000Z');
+        expect(parseOrgDate('January 2026')?.getFullYear()).toBe(2026);
+        expect(parseOrgDate('last Tuesday')).toBeUndefined();
+    });
+
+    it('reads header keywords before the first headline', () => {
+        const metadata = parsePostMetadata([
+            '#+TITLE: Spectra',
+            '#+title: of water',
+            '#+DATE: <2026-02-01 Sun>',
+            '#+DESCRIPTION: New measurements',
+            '#+FILETAGS: :chemistry:spectroscopy:',
+            '#+AUTHOR: A. Student',
+            '* Results',
+            '#+FILETAGS: :ignored:',
+        ].join('\n'));
+
+        expect(metadata).toEqual({
+            title: 'Spectra of water',
+            date: new Date('2026-02-01T00:00:00Z'),
+            description: 'New measurements',
+            tags: ['chemistry', 'spectroscopy'],
+            author: 'A. Student',
+        });
+    });
+});
+
+describe('feeds', () => {
+    const options = resolveBlogOptions(mergeWithDefaults({
+        name: 'site',
+        baseDirectory: './org',
+        publishingDirectory: './html',
+        feeds: ['rss', 'atom'],
+        siteUrl: 'https://example.org/group',
+        feedTitle: 'Group News',
+        feedItems: 1,
+    }))!;
+    const posts: BlogPost[] = [
+        {
+            sourcePath: '/org/posts/new.org',
+            url: 'posts/new.html',
+            title: 'Spectra & models',
+            date: new Date('2026-02-01T00:00:00Z'),
+            description: 'Water <b>spectra</b>',
+            tags: ['chemistry'],
+        },
+        {
+            sourcePath: '/org/posts/old.org',
+            url: 'posts/old.html',
+            title: 'Welcome',
+            date: new Date('2026-01-01T00:00:00Z'),
+            tags: [],
+        },
+    ];
+
+    it('generates RSS 2.0 with absolute, escaped links', () => {
+        const rss = generateRssFeed(posts, options);
+
+        expect(rss).toContain('<rss version="2.0"');
+        expect(rss).toContain('<title>Group News</title>');
+        expect(rss).toContain('<atom:link href="https://example.org/group/blog/rss.xml" rel="self"');
+        expect(rss).toContain('<title>Spectra &amp; models</title>');
+        expect(rss).toContain('<guid isPermaLink="true">https://example.org/group/posts/new.html</guid>');
+        expect(rss).toContain('<pubDate>Sun, 01 Feb 2026 00:00:00 GMT</pubDate>');
+        expect(rss).toContain('<description>Water &lt;b&gt;spectra&lt;/b&gt;</description>');
+        expect(rss).toContain('<category>chemistry</category>');
+        expect(rss).not.toContain('Welcome');
+    });
+
+    it('generates Atom with the newest post as the update time', () => {
+        const atom = generateAtomFeed(posts, options);
+
+        expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+        expect(atom).toContain('<updated>2026-02-01T00:00:00.000Z</updated>');
+        expect(atom).toContain('<author><name>Group News</name></author>');
+        expect(atom).toContain('<id>https://example.org/group/posts/new.html</id>');
+        expect(atom).toContain('<category term="chemistry"/>');
+    });
+
+    it('requires an absolute site URL', () => {
+        const project = mergeWithDefaults({ name: 'site', baseDirectory: './org', publishingDirectory: './html', feeds: ['rss'] });
+
+        expect(() => resolveBlogOptions(project)).toThrow('siteUrl');
+        expect(validateProject(project)).toEqual([{ field: 'siteUrl', message: 'Feeds require an absolute http(s) site URL' }]);
+    });
+});
+
+describe('publishing a blog', () => {
+    let dir: string;
+    let org: string;
+    let html: string;
+    let project: PublishProject;
+
+    const write = (name: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(org, name)), { recursive: true });
+        fs.writeFileSync(path.join(org, name), content);
+    };
+    const read = (name: string) => fs.readFileSync(path.join(html, name), 'utf-8');
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-blog-'));
+        org = path.join(dir, 'org');
+        html = path.join(dir, 'html');
+        write('about.org', '#+TITLE: About\nThe group\n');
+        write('posts/first.org', '#+TITLE: First post\n#+DATE: <2026-01-05 Mon>\n#+FILETAGS: :news:\n');
+        write('posts/second.org', '#+TITLE: Second post\n#+DATE: <2026-01-12 Mon>\n#+FILETAGS: :news:lab:\n');
+        write('posts/third.org', '#+TITLE: Third post\n#+DATE: <2026-01-19 Mon>\n#+DESCRIPTION: New spectrometer\n');
+        project = mergeWithDefaults({
+            name: 'site',
+            baseDirectory: './org',
+            publishingDirectory: './html',
+            autoSitemap: false,
+            blog: true,
+            blogTitle: 'News',
+            blogPostsPerPage: 2,
+            feeds: ['rss', 'atom'],
+            siteUrl: 'https://example.org',
+        });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('writes paginated index pages, newest first', async () => {
+        const result = await publishProject(project, dir);
+
+        expect(result.generatedFiles.map(file => path.relative(html, file))).toEqual([
+            'blog/index.html',
+            'blog/page/2.html',
+            'blog/tags/lab.html',
+            'blog/tags/news.html',
+            'blog/rss.xml',
+            'blog/atom.xml',
+        ]);
+
+        const first = read('blog/index.html');
+        expect(first).toContain('<title>News</title>');
+        expect(first.indexOf('Third post')).toBeLessThan(first.indexOf('Second post'));
+        expect(first).not.toContain('First post');
+        expect(first).not.toContain('About');
+        expect(first).toContain('<a href="../posts/third.html">Third post</a>');
+        expect(first).toContain('<p class="post-description">New spectrometer</p>');
+        expect(first).toContain('<a href="tags/lab.html" class="post-tag">lab</a>');
+        expect(first).toContain('<a href="page/2.html" class="pagination-older">');
+        expect(first).toContain('<a href="rss.xml" type="application/rss+xml">RSS</a>');
+
+        const second = read('blog/page/2.html');
+        expect(second).toContain('First post');
+        expect(second).toContain('<a href="../index.html" class="pagination-newer">');
+        expect(second).toContain('Page 2 of 2');
+    });
+
+    it('writes tag archives and feeds', async () => {
+        await publishProject(project, dir);
+
+        const news = read('blog/tags/news.html');
+        expect(news).toContain('<title>Posts tagged news</title>');
+        expect(news).toContain('<a href="../../posts/first.html">First post</a>');
+        expect(news).toContain('<a href="../../posts/second.html">Second post</a>');
+        expect(news).not.toContain('Third post');
+        expect(news).toContain('<a href="../index.html">← All posts</a>');
+
+        expect(read('blog/rss.xml')).toContain('<link>https://example.org/posts/third.html</link>');
+        expect(read('blog/atom.xml')).toContain('<link href="https://example.org/blog/index.html"/>');
+    });
+
+    it('only rewrites changed pages and removes stale tag archives', async () => {
+        await publishProject(project, dir);
+        expect((await publishProject(project, dir)).generatedFiles).toEqual([]);
+
+        write('posts/second.org', '#+TITLE: Second post\n#+DATE: <2026-01-12 Mon>\n#+FILETAGS: :news:\n');
+        const result = await publishProject(project, dir);
+
+        expect(result.removedFiles).toEqual([path.join(html, 'blog', 'tags', 'lab.html')]);
+        expect(fs.existsSync(path.join(html, 'blog', 'tags', 'lab.html'))).toBe(false);
+        expect(result.generatedFiles.map(file => path.relative(html, file))).toEqual([
+            'blog/index.html',
+            'blog/tags/news.html',
+            'blog/rss.xml',
+            'blog/atom.xml',
+        ]);
+
+        const disabled = await publishProject({ ...project, blog: false, feeds: [] }, dir);
+        expect(disabled.removedFiles.map(file => path.relative(html, file)).sort()).toEqual([
+            'blog/atom.xml',
+            'blog/index.html',
+            'blog/page/2.html',
+            'blog/rss.xml',
+            'blog/tags/news.html',
+        ]);
+    });
+
+    it('selects posts with a glob and leaves the sitemap out', async () => {
+        write('notes.org', '#+TITLE: Notes\n#+DATE: 2026-01-30\n');
+        const result = await publishProject({ ...project, autoSitemap: true, blogPosts: 'posts/**' }, dir);
+
+        expect(result.errorCount).toBe(0);
+        const index = read('blog/index.html');
+        expect(index).toContain('Third post');
+        expect(index).not.toContain('Notes');
+        expect(index).not.toContain('Site Map');
+    });
+
+    it('renders listings through the book theme', async () => {
+        fs.writeFileSync(path.join(org, '_toc.yml'), 'format: jb-book\nroot: about\nchapters:\n  - file: posts/first\n  - file: posts/second\n  - file: posts/third\n');
+
+        await publishProjectWithTheme(project, dir, {}, { name: 'book' });
+
+        const archive = read('blog/tags/news.html');
+        expect(archive).toContain('<link rel="stylesheet" href="../../_static/book-theme.css">');
+        expect(archive).toContain('class="book-container');
+        expect(archive).toContain('<a href="../../posts/first.html">First post</a>');
+    });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for incremental publishing with the publish manifest: skipped and
+ * rebuilt files, include dependencies, navigation, configuration and theme
+ * changes, and removal of outputs for deleted sources
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { publishProject, publishProjectWithTheme } from '../orgPublish';
+import { mergeWithDefaults, type PublishProject } from '../publishProject';
+import { MANIFEST_FILENAME, loadManifest } from '../publishManifest';
+
+describe('incremental publishing', () => {
+    let dir: string;
+    let org: string;
+    let html: string;
+    let project: PublishProject;
+
+    const write = (name: string, content: string) => fs.writeFileSync(path.join(org, name), content);
+    const built = (result: Awaited<ReturnType<typeof publishProject>>) =>
+        result.files.filter(f => !f.skipped).map(f => `${path.basename(f.sourcePath)}:${f.reason}`);
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-manifest-'));
+        org = path.join(dir, 'org');
+        html = path.join(dir, 'html');
+        fs.mkdirSync(org);
+        write('a.org', '#+TITLE: A\n#+INCLUDE: "shared.txt"\n');
+        write('b.org', '#+TITLE: B\nBeta\n');
+        write('shared.txt', 'Shared text\n');
+        project = mergeWithDefaults({
+            name: 'site',
+            baseDirectory: './org',
+            publishingDirectory: './html',
+            autoSitemap: false,
+        });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('publishes new files, then skips them until something changes', async () => {
+        const first = await publishProject(project, dir);
+        expect(built(first)).toEqual(['a.org:new', 'b.org:new']);
+        expect(first).toMatchObject({ builtCount: 2, skippedCount: 0, removedFiles: [], reasons: { new: 2 } });
+
+        const manifest = await loadManifest(html);
+        expect(Object.keys(manifest.projects.site.files)).toEqual(['a.org', 'b.org']);
+        expect(manifest.projects.site.files['a.org']).toMatchObject({ output: 'a.html', title: 'A' });
+        expect(Object.keys(manifest.projects.site.files['a.org'].dependencies)).toEqual(['shared.txt']);
+
+        const second = await publishProject(project, dir);
+        expect(second).toMatchObject({ builtCount: 0, skippedCount: 2, successCount: 2 });
+        expect(second.files[0]).toMatchObject({ skipped: true, title: 'A', outputPath: path.join(html, 'a.html') });
+    });
+
+    it('rebuilds edited sources and the files including an edited file', async () => {
+        await publishProject(project, dir);
+
+        write('b.org', '#+TITLE: B\nBeta, edited\n');
+        expect(built(await publishProject(project, dir))).toEqual(['b.org:source']);
+
+        write('shared.txt', 'Shared text, edited\n');
+        const result = await publishProject(project, dir);
+        expect(built(result)).toEqual(['a.org:dependency']);
+        expect(fs.readFileSync(path.join(html, 'a.html'), 'utf-8')).toContain('Shared text, edited');
+    });
+
+    it('follows includes with a search option to the file and its own includes', async () => {
+        fs.mkdirSync(path.join(org, 'parts'));
+        write('c.org', '#+TITLE: C\n#+INCLUDE: "parts/methods.org::*Methods" :only-contents t\n');
+        write('parts/methods.org', '* Methods\n#+INCLUDE: "../shared.txt"\n');
+        await publishProject(project, dir);
+
+        const manifest = await loadManifest(html);
+        expect(Object.keys(manifest.projects.site.files['c.org'].dependencies).sort())
+            .toEqual(['parts/methods.org', 'shared.txt']);
+
+        write('parts/methods.org', '* Methods\nRewritten\n#+INCLUDE: "../shared.txt"\n');
+        expect(built(await publishProject(project, dir))).toEqual(['c.org:dependency', 'methods.org:source']);
+    });
+
+    it('rebuilds everything when the configuration changes, or with force', async () => {
+        await publishProject(project, dir);
+
+        const changed = { ...project, withToc: false };
+        expect(built(await publishProject(changed, dir))).toEqual(['a.org:config', 'b.org:config']);
+        expect(built(await publishProject(changed, dir, { force: true }))).toEqual(['a.org:forced', 'b.org:forced']);
+    });
+
+    it('rebuilds a page whose output went missing', async () => {
+        await publishProject(project, dir);
+        fs.rmSync(path.join(html, 'b.html'));
+
+        expect(built(await publishProject(project, dir))).toEqual(['b.org:output']);
+        expect(fs.existsSync(path.join(html, 'b.html'))).toBe(true);
+    });
+
+    it('removes the outputs of deleted sources', async () => {
+        await publishProject(project, dir);
+        fs.rmSync(path.join(org, 'b.org'));
+
+        const dryRun = await publishProject(project, dir, { dryRun: true });
+        expect(dryRun.removedFiles).toEqual([path.join(html, 'b.html')]);
+        expect(fs.existsSync(path.join(html, 'b.html'))).toBe(true);
+
+        const result = await publishProject(project, dir);
+        expect(result.removedFiles).toEqual([path.join(html, 'b.html')]);
+        expect(fs.existsSync(path.join(html, 'b.html'))).toBe(false);
+        expect(Object.keys((await loadManifest(html)).projects.site.files)).toEqual(['a.org']);
+    });
+
+    it('does not write the manifest on a dry run', async () => {
+        const result = await publishProject(project, dir, { dryRun: true });
+        expect(result.builtCount).toBe(2);
+        expect(fs.existsSync(path.join(html, MANIFEST_FILENAME))).toBe(false);
+    });
+
+    it('rebuilds only the pages whose TOC neighbours changed', async () => {
+        write('c.org', '#+TITLE: C\n');
+        fs.writeFileSync(path.join(org, '_toc.yml'), 'format: jb-book\nroot: a\nchapters:\n  - file: b\n  - file: c\n');
+        await publishProject(project, dir);
+
+        // a -> b -> c becomes a -> c -> b: every page has a new neighbour
+        fs.writeFileSync(path.join(org, '_toc.yml'), 'format: jb-book\nroot: a\nchapters:\n  - file: c\n  - file: b\n');
+        expect(built(await publishProject(project, dir))).toEqual(['a.org:navigation', 'c.org:navigation', 'b.org:navigation']);
+
+        // Appending d only gives b a "next" link
+        write('d.org', '#+TITLE: D\n');
+        fs.writeFileSync(path.join(org, '_toc.yml'), 'format: jb-book\nroot: a\nchapters:\n  - file: c\n  - file: b\n  - file: d\n');
+        expect(built(await publishProject(project, dir))).toEqual(['b.org:navigation', 'd.org:new']);
+    });
+
+    it('regenerates the sitemap only when the listing changes', async () => {
+        const withSitemap = { ...project, autoSitemap: true };
+        await publishProject(withSitemap, dir);
+        expect(fs.existsSync(path.join(html, 'sitemap.html'))).toBe(true);
+
+        const unchanged = await publishProject(withSitemap, dir);
+        expect(unchanged.builtCount).toBe(0);
+        expect(unchanged.files.map(f => path.basename(f.sourcePath))).toEqual(['a.org', 'b.org', 'sitemap.org']);
+
+        write('c.org', '#+TITLE: C\n');
+        expect(built(await publishProject(withSitemap, dir))).toEqual(['c.org:new', 'sitemap.org:source']);
+    });
+
+    it('keeps separate entries for projects sharing a publishing directory', async () => {
+        await publishProject(project, dir);
+        const other = { ...project, name: 'other', baseDirectory: './more' };
+        fs.mkdirSync(path.join(dir, 'more'));
+        fs.writeFileSync(path.join(dir, 'more', 'x.org'), '#+TITLE: X\n');
+
+        const result = await publishProject(other, dir);
+        expect(result.removedFiles).toEqual([]);
+        expect(Object.keys((await loadManifest(html)).projects)).toEqual(['site', 'other']);
+        expect(fs.existsSync(path.join(html, 'a.html'))).toBe(true);
+    });
+});
+
+describe('incremental publishing with the book theme', () => {
+    let dir: string;
+    let org: string;
+    let project: PublishProject;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-manifest-book-'));
+        org = path.join(dir, 'book');
+        fs.mkdirSync(org);
+        fs.writeFileSync(path.join(org, 'intro.org'), '#+TITLE: Intro\n* Welcome\nHello reader\n');
+        fs.writeFileSync(path.join(org, 'methods.org'), '#+TITLE: Methods\n* Setup\nCentrifuge\n');
+        fs.writeFileSync(path.join(org, '_toc.yml'), 'format: jb-book\nroot: intro\nchapters:\n  - file: methods\n');
+        project = mergeWithDefaults({ name: 'book', baseDirectory: './book', publishingDirectory: './_build' });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const searchIndex = () => JSON.parse(fs.readFileSync(path.join(dir, '_build', '_static', 'search-index.json'), 'utf-8'));
+
+    it('keeps skipped pages in the search index', async () => {
+        await publishProjectWithTheme(project, dir, {}, { name: 'book' });
+
+        fs.writeFileSync(path.join(org, 'methods.org'), '#+TITLE: Methods\n* Setup\nCentrifuge and pipettes\n');
+        const result = await publishProjectWithTheme(project, dir, {}, { name: 'book' });
+
+        expect(result).toMatchObject({ builtCount: 1, skippedCount: 1, reasons: { source: 1 } });
+        const documents = searchIndex().documents;
+        expect(documents.map((d: { id: string }) => d.id)).toEqual(['intro.html', 'methods.html']);
+        expect(documents[0].content).toContain('Hello reader');
+        expect(documents[1].content).toContain('pipettes');
+    });
+
+    it('rebuilds every page when the TOC or theme settings change', async () => {
+        await publishProjectWithTheme(project, dir, {}, { name: 'book' });
+
+        fs.writeFileSync(path.join(org, '_toc.yml'), 'format: jb-book\nroot: intro\nchapters:\n  - file: methods\n    title: Methods and materials\n');
+        const navigation = await publishProjectWithTheme(project, dir, {}, { name: 'book' });
+        expect(navigation.reasons).toEqual({ navigation: 2 });
+
+        const config = await publishProjectWithTheme(project, dir, {}, { name: 'book', custom_css: 'custom.css' });
+        expect(config.reasons).toEqual({ config: 2 });
+    });
+});
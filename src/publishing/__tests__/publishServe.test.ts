@@ -0,0 +1,240 @@
+/**
+ * Tests for the publish preview server: include dependents, rebuild
+ * planning, live reload injection and serving a real project from a temp dir
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+    LIVE_RELOAD_PATH,
+    PublishPreviewServer,
+    buildIncludeGraph,
+    collectDependents,
+    injectLiveReload,
+    planRebuild,
+} from '../publishServe';
+import { publishProject } from '../orgPublish';
+import { mergeWithDefaults } from '../publishProject';
+
+function get(url: string): Promise<{ status: number; type: string; body: string }> {
+    return new Promise((resolve, reject) => {
+        http.get(url, res => {
+            let body = '';
+            res.on('data', chunk => { body += chunk; });
+            res.on('end', () => resolve({ status: res.statusCode!, type: String(res.headers['content-type']), body }));
+        }).on('error', reject);
+    });
+}
+
+describe('injectLiveReload', () => {
+    it('adds the event source client before </body>', () => {
+        const html = injectLiveReload('<html><body><p>Hi</p></body></html>');
+        expect(html).toMatch(/<p>Hi<\/p><script>[\s\S]*EventSource\('\/__scimax\/livereload'\)[\s\S]*<\/script>\n<\/body><\/html>$/);
+    });
+
+    it('appends the client to fragments', () => {
+        expect(injectLiveReload('<p>Hi</p>')).toMatch(/^<p>Hi<\/p><script>/);
+    });
+});
+
+describe('include graph and rebuild planning', () => {
+    let dir: string;
+    let main: string;
+    let chapter: string;
+    let part: string;
+    let snippet: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-serve-plan-'));
+        fs.mkdirSync(path.join(dir, 'parts'));
+        main = path.join(dir, 'main.org');
+        chapter = path.join(dir, 'chapter.org');
+        part = path.join(dir, 'parts', 'part.org');
+        snippet = path.join(dir, 'parts', 'snippet.py');
+        fs.writeFileSync(main, '#+TITLE: Main\n#+INCLUDE: "parts/part.org::*Methods" :only-contents t\n');
+        fs.writeFileSync(chapter, '* Chapter\n');
+        fs.writeFileSync(part, '* Methods\n#+INCLUDE: "snippet.py" src python\n');
+        fs.writeFileSync(snippet, 'print(1)\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('follows includes transitively, relative to the including file', () => {
+        const graph = buildIncludeGraph([main, chapter]);
+
+        expect([...graph.get(part)!]).toEqual([main]);
+        expect([...graph.get(snippet)!]).toEqual([part]);
+        expect(collectDependents(graph, snippet)).toEqual([part, main]);
+        expect(collectDependents(graph, chapter)).toEqual([]);
+    });
+
+    it('republishes edited sources and the sources including a changed file', () => {
+        const context = {
+            baseDir: dir,
+            sources: [main, chapter],
+            includeGraph: buildIncludeGraph([main, chapter]),
+            configFiles: [path.join(dir, '.org-publish.json')],
+        };
+
+        expect(planRebuild([chapter], context)).toEqual({ full: false, files: [chapter], staticFiles: [] });
+        expect(planRebuild([snippet], context)).toEqual({ full: false, files: [main], staticFiles: [] });
+        expect(planRebuild([path.join(dir, 'notes.txt')], context)).toEqual({ full: false, files: [], staticFiles: [] });
+
+        const css = path.join(dir, '_static', 'custom.css');
+        expect(planRebuild([css, chapter], context)).toEqual({ full: false, files: [chapter], staticFiles: [css] });
+    });
+
+    it('rebuilds everything when the configuration, TOC or file set changes', () => {
+        const context = {
+            baseDir: dir,
+            sources: [main, chapter],
+            includeGraph: buildIncludeGraph([main, chapter]),
+            configFiles: [path.join(dir, '.org-publish.json')],
+        };
+        const full = { full: true, files: [], staticFiles: [] };
+
+        expect(planRebuild([path.join(dir, '.org-publish.json')], context)).toEqual(full);
+        expect(planRebuild([path.join(dir, '_toc.yml')], context)).toEqual(full);
+
+        const added = path.join(dir, 'appendix.org');
+        fs.writeFileSync(added, '* Appendix\n');
+        expect(planRebuild([added], context)).toEqual(full);
+
+        fs.rmSync(chapter);
+        expect(planRebuild([chapter], context)).toEqual(full);
+    });
+});
+
+describe('publishing with only', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-serve-only-'));
+        fs.mkdirSync(path.join(dir, 'org'));
+        fs.writeFileSync(path.join(dir, 'org', 'a.org'), '#+TITLE: A\nAlpha\n');
+        fs.writeFileSync(path.join(dir, 'org', 'b.org'), '#+TITLE: B\nBeta\n');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('republishes just the listed files and leaves the sitemap alone', async () => {
+        const project = mergeWithDefaults({
+            name: 'site',
+            baseDirectory: './org',
+            publishingDirectory: './html',
+            autoSitemap: true,
+        });
+
+        const result = await publishProject(project, dir, { only: [path.join(dir, 'org', 'b.org')] });
+
+        expect(result.files.map(f => path.basename(f.sourcePath))).toEqual(['b.org']);
+        expect(fs.existsSync(path.join(dir, 'html', 'b.html'))).toBe(true);
+        expect(fs.existsSync(path.join(dir, 'html', 'a.html'))).toBe(false);
+        expect(fs.existsSync(path.join(dir, 'org', 'sitemap.org'))).toBe(false);
+    });
+});
+
+describe('PublishPreviewServer', () => {
+    let dir: string;
+    let server: PublishPreviewServer;
+    let logs: string[];
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scimax-serve-'));
+        fs.mkdirSync(path.join(dir, 'org'));
+        fs.writeFileSync(path.join(dir, '.org-publish.json'), JSON.stringify({
+            projects: {
+                site: { baseDirectory: './org', publishingDirectory: './html', autoSitemap: true },
+            },
+        }));
+        fs.writeFileSync(path.join(dir, 'org', 'index.org'), '#+TITLE: Home\n#+INCLUDE: "intro.txt"\n');
+        fs.writeFileSync(path.join(dir, 'org', 'intro.txt'), 'First draft\n');
+        fs.writeFileSync(path.join(dir, 'org', 'other.org'), '#+TITLE: Other\nUnchanged\n');
+
+        logs = [];
+        server = new PublishPreviewServer({
+            workspaceRoot: dir,
+            port: 0,
+            watch: false,
+            debounce: 0,
+            log: message => logs.push(message),
+        });
+        await server.start();
+    });
+
+    afterEach(async () => {
+        await server.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('serves the published site with the live reload client', async () => {
+        expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+
+        const page = await get(server.url + 'index.html');
+        expect(page.status).toBe(200);
+        expect(page.type).toContain('text/html');
+        expect(page.body).toContain('First draft');
+        expect(page.body).toContain(LIVE_RELOAD_PATH);
+
+        expect((await get(server.url)).body).toContain('First draft');
+        expect((await get(server.url + 'other')).body).toContain('Unchanged');
+        expect((await get(server.url + 'missing.html')).status).toBe(404);
+        expect((await get(server.url + '%2e%2e/.org-publish.json')).status).toBe(404);
+    });
+
+    it('republishes the including file and tells browsers to reload', async () => {
+        const events: string[] = [];
+        const request = http.get(server.url.replace(/\/$/, LIVE_RELOAD_PATH), res => {
+            res.setEncoding('utf-8');
+            res.on('data', (chunk: string) => events.push(chunk));
+        });
+        request.on('error', () => undefined);
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const otherHtml = path.join(dir, 'html', 'other.html');
+        fs.utimesSync(otherHtml, new Date(0), new Date(0));
+
+        fs.writeFileSync(path.join(dir, 'org', 'intro.txt'), 'Second draft\n');
+        await server.handleChanges([path.join(dir, 'org', 'intro.txt')]);
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect((await get(server.url + 'index.html')).body).toContain('Second draft');
+        expect(fs.statSync(otherHtml).mtimeMs).toBe(0);
+        expect(events.join('')).toContain('event: reload');
+        expect(logs).toContain('Republishing index.org');
+
+        request.destroy();
+    });
+
+    it('skips unchanged pages when it starts again', async () => {
+        await server.stop();
+        logs = [];
+        server = new PublishPreviewServer({
+            workspaceRoot: dir,
+            port: 0,
+            watch: false,
+            debounce: 0,
+            log: message => logs.push(message),
+        });
+        await server.start();
+
+        expect(logs.find(line => line.startsWith('Published'))).toMatch(/^Published 0 file\(s\) in \d+ms, \d+ unchanged$/);
+    });
+
+    it('ignores output and generated sitemap changes', async () => {
+        await server.handleChanges([
+            path.join(dir, 'html', 'index.html'),
+            path.join(dir, 'org', 'sitemap.org'),
+            path.join(dir, 'org', '.#index.org'),
+        ]);
+        expect(logs.filter(line => line.startsWith('Republishing'))).toEqual([]);
+    });
+});
@@ -5,6 +5,7 @@
 
 export * from './publishProject';
 export * from './orgPublish';
+export * from './publishServe';
 export { registerPublishCommands } from './publishProvider';
 
 // Theme exports
@@ -18,6 +18,7 @@ import {
     PublishProject,
     PublishConfig,
     ComponentProject,
+    FeedFormat,
     isComponentProject,
     isPublishProject,
     mergeWithDefaults,
@@ -36,6 +37,7 @@ import {
 
 import {
     getThemeForConfig,
+    DEFAULT_THEME_CONFIG,
     type Theme,
     type ThemeConfig,
     type PageContext,
@@ -46,6 +48,22 @@ import {
 
 import { extractPageHeadings } from './themes/bookTheme/rightSidebar';
 
+import {
+    ManifestTracker,
+    hashContent,
+    type RebuildReason,
+    type SourceCheck,
+} from './publishManifest';
+
+import { parseOrgDate, publishBlog, resolveBlogOptions, type BlogOptions } from './publishBlog';
+import { embedJupyterCharts } from '../jupyter/richOutput';
+
+/**
+ * Search content kept per page in the manifest (the search index truncates
+ * to the same length)
+ */
+const SEARCH_CONTENT_LIMIT = 10000;
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -66,6 +84,10 @@ export interface PublishFileResult {
     title?: string;
     /** File date (from #+DATE or mtime) */
     date?: Date;
+    /** Skipped because nothing it is built from changed */
+    skipped?: boolean;
+    /** Why the file was republished */
+    reason?: RebuildReason;
 }
 
 /**
@@ -82,6 +104,16 @@ export interface PublishProjectResult {
     successCount: number;
     /** Failed to publish */
     errorCount: number;
+    /** Republished in this run */
+    builtCount: number;
+    /** Up to date according to the publish manifest */
+    skippedCount: number;
+    /** Outputs removed because their sources (or generated pages) are gone */
+    removedFiles: string[];
+    /** Blog pages and feeds written in this run */
+    generatedFiles: string[];
+    /** Republished files by reason */
+    reasons: Partial<Record<RebuildReason, number>>;
     /** Publishing duration in ms */
     duration: number;
 }
@@ -101,10 +133,15 @@ export type PublishProgressCallback = (
 export interface PublishOptions {
     /** Progress callback */
     onProgress?: PublishProgressCallback;
-    /** Force republish even if output is newer */
+    /** Republish every file, ignoring the publish manifest */
     force?: boolean;
     /** Dry run - don't actually write files */
     dryRun?: boolean;
+    /**
+     * Republish only these source files, even if up to date. The sitemap,
+     * theme assets and search index are left as they are.
+     */
+    only?: string[];
 }
 
 // =============================================================================
@@ -189,6 +226,28 @@ function parseConfigYaml(content: string): PublishConfig {
         if (publish.sitemap_filename) project.sitemapFilename = publish.sitemap_filename as string;
     }
 
+    // Blog options
+    const blog = yaml.blog as Record<string, unknown> | undefined;
+    if (blog) {
+        if (blog.enabled !== undefined) project.blog = blog.enabled as boolean;
+        if (blog.title) project.blogTitle = blog.title as string;
+        if (blog.posts) project.blogPosts = blog.posts as string;
+        if (blog.directory) project.blogDirectory = blog.directory as string;
+        if (blog.posts_per_page !== undefined) project.blogPostsPerPage = blog.posts_per_page as number;
+        if (blog.tag_pages !== undefined) project.blogTagPages = blog.tag_pages as boolean;
+    }
+
+    // Feed options
+    const feed = yaml.feed as Record<string, unknown> | undefined;
+    if (feed) {
+        if (Array.isArray(feed.formats)) project.feeds = feed.formats as FeedFormat[];
+        if (feed.site_url) project.siteUrl = feed.site_url as string;
+        if (feed.title) project.feedTitle = feed.title as string;
+        if (feed.description) project.feedDescription = feed.description as string;
+        if (feed.author) project.feedAuthor = feed.author as string;
+        if (feed.items !== undefined) project.feedItems = feed.items as number;
+    }
+
     // GitHub Pages
     if (yaml.github_pages !== undefined) config.githubPages = yaml.github_pages as boolean;
     if (yaml.custom_domain) config.customDomain = yaml.custom_domain as string;
@@ -427,6 +486,33 @@ function configToYaml(config: PublishConfig): string {
             }
         }
         lines.push('');
+
+        // Blog settings
+        if (p.blog !== undefined) {
+            lines.push('blog:');
+            lines.push(`  enabled: ${p.blog}`);
+            if (p.blogTitle) lines.push(`  title: "${p.blogTitle}"`);
+            if (p.blogPosts) lines.push(`  posts: "${p.blogPosts}"`);
+            if (p.blogDirectory) lines.push(`  directory: "${p.blogDirectory}"`);
+            if (p.blogPostsPerPage !== undefined) lines.push(`  posts_per_page: ${p.blogPostsPerPage}`);
+            if (p.blogTagPages !== undefined) lines.push(`  tag_pages: ${p.blogTagPages}`);
+            lines.push('');
+        }
+
+        // Feed settings
+        if (p.feeds && p.feeds.length > 0) {
+            lines.push('feed:');
+            lines.push('  formats:');
+            for (const format of p.feeds) {
+                lines.push(`    - ${format}`);
+            }
+            if (p.siteUrl) lines.push(`  site_url: "${p.siteUrl}"`);
+            if (p.feedTitle) lines.push(`  title: "${p.feedTitle}"`);
+            if (p.feedDescription) lines.push(`  description: "${p.feedDescription}"`);
+            if (p.feedAuthor) lines.push(`  author: "${p.feedAuthor}"`);
+            if (p.feedItems !== undefined) lines.push(`  items: ${p.feedItems}`);
+            lines.push('');
+        }
     }
 
     // Global settings
@@ -748,6 +834,34 @@ export async function discoverFiles(
     return files;
 }
 
+/**
+ * List a project's source files: the _toc.yml entries if there is a TOC,
+ * otherwise the files found by directory discovery
+ */
+export async function listProjectSources(
+    project: PublishProject,
+    workspaceRoot: string
+): Promise<string[]> {
+    const toc = await loadToc(project, workspaceRoot);
+    return toc
+        ? resolveFilesFromToc(flattenToc(toc), project, workspaceRoot)
+        : discoverFiles(project, workspaceRoot);
+}
+
+/**
+ * Restrict a file list to PublishOptions.only, forcing those files
+ */
+function applyOnly(files: string[], options: PublishOptions): { files: string[]; options: PublishOptions } {
+    if (!options.only) {
+        return { files, options };
+    }
+    const only = new Set(options.only.map(file => path.resolve(file)));
+    return {
+        files: files.filter(file => only.has(path.resolve(file))),
+        options: { ...options, force: true },
+    };
+}
+
 /**
  * Check if a file exists
  */
@@ -888,6 +1002,9 @@ export async function publishFile(
             });
         }
 
+        // Draw Jupyter charts inline
+        content = embedJupyterCharts(content, path.dirname(sourcePath));
+
         // Parse the document
         const doc = parseOrgFast(content);
         const metadata = extractMetadata(doc);
@@ -929,7 +1046,7 @@ export async function publishFile(
             outputPath,
             success: true,
             title: metadata.title,
-            date: metadata.date ? new Date(metadata.date) : undefined,
+            date: metadata.date ? parseOrgDate(metadata.date) : undefined,
         };
     } catch (error) {
         return {
@@ -1023,6 +1140,9 @@ export async function publishFileWithTheme(
             });
         }
 
+        // Draw Jupyter charts inline
+        content = embedJupyterCharts(content, path.dirname(sourcePath));
+
         // Parse the document
         const doc = parseOrgFast(content);
         const metadata = extractMetadata(doc);
@@ -1069,7 +1189,7 @@ export async function publishFileWithTheme(
             outputPath,
             success: true,
             title,
-            date: metadata.date ? new Date(metadata.date) : undefined,
+            date: metadata.date ? parseOrgDate(metadata.date) : undefined,
             plainContent,
             headings: pageHeadings.map(h => ({ id: h.id, text: h.text })),
         };
@@ -1122,6 +1242,7 @@ export async function publishProjectWithTheme(
     }
 
     const flatToc = flattenToc(toc);
+    const blogOptions = resolveBlogOptions(project);
 
     // Get theme
     const theme = getThemeForConfig(themeConfig);
@@ -1138,7 +1259,7 @@ export async function publishProjectWithTheme(
     };
 
     // Copy theme assets first
-    if (!options.dryRun) {
+    if (!options.dryRun && !options.only) {
         await theme.copyAssets(outputDir);
 
         // Copy user's _static folder if it exists
@@ -1150,7 +1271,18 @@ export async function publishProjectWithTheme(
     }
 
     // Discover files from TOC
-    const files = await resolveFilesFromToc(flatToc, project, workspaceRoot);
+    const sources = await resolveFilesFromToc(flatToc, project, workspaceRoot);
+    const selected = applyOnly(sources, options);
+    const files = selected.files;
+    options = selected.options;
+
+    // Every page carries the whole TOC in its sidebar
+    const tocHash = hashContent(JSON.stringify(toc));
+    const tracker = await ManifestTracker.load(project.name, baseDir, outputDir, {
+        configHash: await hashProjectConfig(project, workspaceRoot, themeConfig),
+        themeVersion: `${theme.name}@${theme.version ?? '0'}`,
+        tocHash,
+    });
 
     // Publish each file
     for (let i = 0; i < files.length; i++) {
@@ -1160,6 +1292,13 @@ export async function publishProjectWithTheme(
             options.onProgress(i + 1, files.length, path.basename(file));
         }
 
+        const check = await tracker.check(file, tocHash, options.force);
+        if (!check.reason) {
+            results.push(skippedResult(file, tracker));
+            continue;
+        }
+
+        const fileOptions = { ...options, force: true };
         const relativePath = path.relative(baseDir, file);
         const tocEntry = findTocEntryByPath(flatToc, relativePath);
 
@@ -1170,7 +1309,7 @@ export async function publishProjectWithTheme(
 
         if (ext === '.org') {
             result = await publishFileWithTheme(
-                file, project, workspaceRoot, options,
+                file, project, workspaceRoot, fileOptions,
                 theme, projectContext, tocEntry
             );
         } else {
@@ -1178,23 +1317,24 @@ export async function publishProjectWithTheme(
             const pubFunc = getPublishFunction(file, project);
             switch (pubFunc) {
                 case 'md':
-                    result = await publishMarkdownFile(file, project, workspaceRoot, options, tocEntry);
+                    result = await publishMarkdownFile(file, project, workspaceRoot, fileOptions, tocEntry);
                     break;
                 case 'ipynb':
-                    result = await publishNotebookFile(file, project, workspaceRoot, options, tocEntry);
+                    result = await publishNotebookFile(file, project, workspaceRoot, fileOptions, tocEntry);
                     break;
                 case 'copy':
                 default:
-                    result = await copyStaticFile(file, project, workspaceRoot, options);
+                    result = await copyStaticFile(file, project, workspaceRoot, fileOptions);
                     break;
             }
         }
 
+        trackResult(tracker, check, result);
         results.push(result);
     }
 
-    // Generate search index if enabled
-    if (themeConfig.search?.enabled !== false && theme.generateSearchIndex && !options.dryRun) {
+    // Generate search index if enabled (skipped pages come from the manifest)
+    if (themeConfig.search?.enabled !== false && theme.generateSearchIndex && !options.dryRun && !options.only) {
         const pageInfos: PageInfo[] = results
             .filter(r => r.success && r.plainContent)
             .map(r => ({
@@ -1207,17 +1347,121 @@ export async function publishProjectWithTheme(
         await theme.generateSearchIndex(pageInfos, outputDir);
     }
 
-    const duration = Date.now() - startTime;
-    const successCount = results.filter(r => r.success).length;
-    const errorCount = results.filter(r => !r.success).length;
+    const generated = await publishGenerated(results, blogOptions, theme, projectContext, tracker, options);
+    const removedFiles = options.only ? [] : await tracker.removeDeleted(sources, options.dryRun);
+    if (!options.dryRun) {
+        await tracker.save();
+    }
+
+    return summarizeResults(project.name, results, [...removedFiles, ...generated.removed], generated.written, startTime);
+}
+
+/**
+ * Write the blog pages and feeds, and remove generated pages that are no
+ * longer produced (e.g. the archive of a tag no post uses any more)
+ */
+async function publishGenerated(
+    results: PublishFileResult[],
+    blogOptions: BlogOptions | null,
+    theme: Theme,
+    projectContext: ProjectContext,
+    tracker: ManifestTracker,
+    options: PublishOptions
+): Promise<{ written: string[]; removed: string[] }> {
+    if (options.only) {
+        return { written: [], removed: [] };
+    }
+
+    const blog = blogOptions
+        ? await publishBlog(results.filter(r => r.success), blogOptions, theme, projectContext, options.dryRun)
+        : { generated: [], written: [] };
+    const removed = await tracker.replaceGenerated(blog.generated, options.dryRun);
 
+    return { written: blog.written, removed };
+}
+
+/**
+ * Result for a source the manifest says is up to date
+ */
+function skippedResult(file: string, tracker: ManifestTracker): PublishFileResultWithContent {
+    const entry = tracker.entry(file)!;
     return {
-        projectName: project.name,
+        sourcePath: file,
+        outputPath: tracker.outputPath(entry),
+        success: true,
+        skipped: true,
+        title: entry.title,
+        date: entry.date ? new Date(entry.date) : undefined,
+        plainContent: entry.search?.content,
+        headings: entry.search?.headings,
+    };
+}
+
+/**
+ * Record a publish result in the manifest; failed files are dropped so the
+ * next run retries them
+ */
+function trackResult(tracker: ManifestTracker, check: SourceCheck, result: PublishFileResultWithContent): void {
+    result.reason = check.reason;
+    if (!result.success) {
+        tracker.forget(check.file);
+        return;
+    }
+    tracker.record(check, {
+        outputPath: result.outputPath,
+        title: result.title,
+        date: result.date,
+        search: result.plainContent !== undefined
+            ? { content: result.plainContent.slice(0, SEARCH_CONTENT_LIMIT), headings: result.headings || [] }
+            : undefined,
+    });
+}
+
+/**
+ * Fingerprint of everything in the project configuration that shapes every
+ * page: export options, templates and theme settings
+ */
+async function hashProjectConfig(
+    project: PublishProject,
+    workspaceRoot: string,
+    themeConfig?: ThemeConfig
+): Promise<string> {
+    const templates = await Promise.all([
+        loadTemplate(project.htmlPreamble, workspaceRoot),
+        loadTemplate(project.htmlPostamble, workspaceRoot),
+    ]);
+    return hashContent(JSON.stringify({ project, themeConfig: themeConfig ?? null, templates }));
+}
+
+/**
+ * Build the project result with built/skipped/removed counts
+ */
+function summarizeResults(
+    projectName: string,
+    results: PublishFileResult[],
+    removedFiles: string[],
+    generatedFiles: string[],
+    startTime: number
+): PublishProjectResult {
+    const reasons: Partial<Record<RebuildReason, number>> = {};
+    for (const result of results) {
+        if (result.reason && result.success) {
+            reasons[result.reason] = (reasons[result.reason] ?? 0) + 1;
+        }
+    }
+
+    return {
+        projectName,
         files: results,
         totalFiles: results.length,
-        successCount,
-        errorCount,
-        duration,
+        successCount: results.filter(r => r.success).length,
+        errorCount: results.filter(r => !r.success).length,
+        builtCount: results.filter(r => r.success && !r.skipped).length,
+        skippedCount: results.filter(r => r.skipped).length,
+        removedFiles,
+        generatedFiles,
+        reasons,
+        duration: Date.now() - startTime,
     };
 }
 
@@ -1638,22 +1882,42 @@ export async function publishProject(
     const startTime = Date.now();
     const results: PublishFileResult[] = [];
     const baseDir = path.resolve(workspaceRoot, project.baseDirectory);
+    const outputDir = path.resolve(workspaceRoot, project.publishingDirectory);
+    const blogOptions = resolveBlogOptions(project);
 
     // Try to load explicit TOC
     const toc = await loadToc(project, workspaceRoot);
     let flatToc: FlatTocEntry[] | null = null;
 
     // Discover files - use TOC if available, otherwise discover
-    let files: string[];
+    let sources: string[];
     if (toc) {
         // Use TOC to determine file order
         flatToc = flattenToc(toc);
-        files = await resolveFilesFromToc(flatToc, project, workspaceRoot);
+        sources = await resolveFilesFromToc(flatToc, project, workspaceRoot);
     } else {
         // Fall back to directory discovery
-        files = await discoverFiles(project, workspaceRoot);
+        sources = await discoverFiles(project, workspaceRoot);
+    }
+
+    // The generated sitemap/index is published after the pages, not as one of them
+    const sitemapPath = project.autoSitemap && project.publishingFunction !== 'copy'
+        ? path.join(baseDir, project.sitemapFilename || (toc ? 'index.org' : 'sitemap.org'))
+        : null;
+    if (sitemapPath) {
+        sources = sources.filter(file => path.resolve(file) !== sitemapPath);
     }
 
+    const selected = applyOnly(sources, options);
+    const files = selected.files;
+    options = selected.options;
+
+    const tracker = await ManifestTracker.load(project.name, baseDir, outputDir, {
+        configHash: await hashProjectConfig(project, workspaceRoot),
+        themeVersion: 'none',
+        tocHash: toc ? hashContent(JSON.stringify(toc)) : null,
+    });
+
     // Publish each file
     for (let i = 0; i < files.length; i++) {
         const file = files[i];
@@ -1662,54 +1926,49 @@ export async function publishProject(
             options.onProgress(i + 1, files.length, path.basename(file));
         }
 
-        let result: PublishFileResult;
-        const pubFunc = getPublishFunction(file, project);
-
         // Get TOC entry for navigation
         const relativePath = path.relative(baseDir, file);
         const tocEntry = flatToc ? findTocEntryByPath(flatToc, relativePath) : null;
 
+        // Pages link to their TOC neighbours only
+        const navigation = tocEntry ? hashContent(JSON.stringify([tocEntry.prev ?? null, tocEntry.next ?? null])) : '';
+        const check = await tracker.check(file, navigation, options.force);
+        if (!check.reason) {
+            results.push(skippedResult(file, tracker));
+            continue;
+        }
+
+        let result: PublishFileResult;
+        const fileOptions = { ...options, force: true };
+        const pubFunc = getPublishFunction(file, project);
+
         switch (pubFunc) {
             case 'copy':
-                result = await copyStaticFile(file, project, workspaceRoot, options);
+                result = await copyStaticFile(file, project, workspaceRoot, fileOptions);
                 break;
             case 'md':
-                result = await publishMarkdownFile(file, project, workspaceRoot, options, tocEntry);
+                result = await publishMarkdownFile(file, project, workspaceRoot, fileOptions, tocEntry);
                 break;
             case 'ipynb':
-                result = await publishNotebookFile(file, project, workspaceRoot, options, tocEntry);
+                result = await publishNotebookFile(file, project, workspaceRoot, fileOptions, tocEntry);
                 break;
             case 'org':
             default:
-                result = await publishFile(file, project, workspaceRoot, options, tocEntry);
+                result = await publishFile(file, project, workspaceRoot, fileOptions, tocEntry);
                 break;
         }
 
+        trackResult(tracker, check, result);
         results.push(result);
     }
 
     // Generate sitemap/index
-    if (project.autoSitemap && project.publishingFunction !== 'copy') {
+    if (sitemapPath && !options.only) {
+        let sitemapOrg: string | null = null;
+
         if (toc && flatToc) {
             // Generate index from explicit TOC
-            const indexOrg = generateIndexFromToc(toc, flatToc, results, project);
-
-            // Write index.org
-            const indexFilename = project.sitemapFilename || 'index.org';
-            const indexOrgPath = path.join(baseDir, indexFilename);
-
-            if (!options.dryRun) {
-                await fs.promises.writeFile(indexOrgPath, indexOrg, 'utf-8');
-            }
-
-            // Publish index
-            const indexResult = await publishFile(
-                indexOrgPath,
-                project,
-                workspaceRoot,
-                { ...options, force: true }
-            );
-            results.push(indexResult);
+            sitemapOrg = generateIndexFromToc(toc, flatToc, results, project);
         } else {
             // Fall back to auto-generated sitemap
             const sitemapEntries: SitemapEntry[] = results
@@ -1725,41 +1984,55 @@ export async function publishProject(
                 });
 
             if (sitemapEntries.length > 0) {
-                // Generate sitemap org content
-                const sitemapOrg = generateSitemapOrg(sitemapEntries, project);
-
-                // Write sitemap.org
-                const sitemapFilename = project.sitemapFilename || 'sitemap.org';
-                const sitemapOrgPath = path.join(baseDir, sitemapFilename);
+                sitemapOrg = generateSitemapOrg(sitemapEntries, project);
+            }
+        }
 
+        if (sitemapOrg !== null) {
+            // Rewrite and republish only when the listing changed
+            const check = await tracker.check(sitemapPath, '', options.force, sitemapOrg);
+            if (check.reason) {
                 if (!options.dryRun) {
-                    await fs.promises.writeFile(sitemapOrgPath, sitemapOrg, 'utf-8');
+                    await fs.promises.writeFile(sitemapPath, sitemapOrg, 'utf-8');
                 }
-
-                // Publish sitemap
                 const sitemapResult = await publishFile(
-                    sitemapOrgPath,
+                    sitemapPath,
                     project,
                     workspaceRoot,
                     { ...options, force: true }
                 );
+                trackResult(tracker, check, sitemapResult);
                 results.push(sitemapResult);
+            } else {
+                results.push(skippedResult(sitemapPath, tracker));
             }
+            sources.push(sitemapPath);
         }
     }
 
-    const duration = Date.now() - startTime;
-    const successCount = results.filter(r => r.success).length;
-    const errorCount = results.filter(r => !r.success).length;
-
-    return {
-        projectName: project.name,
-        files: results,
-        totalFiles: results.length,
-        successCount,
-        errorCount,
-        duration,
+    // Blog pages use the default theme when the project has no theme
+    const blogContext: ProjectContext = {
+        config: DEFAULT_THEME_CONFIG,
+        flatToc: flatToc ?? [],
+        tocConfig: toc ?? { root: '' },
+        outputDir,
+        baseDir,
+        workspaceRoot,
     };
+    const generated = await publishGenerated(
+        results.filter(r => r.sourcePath !== sitemapPath),
+        blogOptions,
+        getThemeForConfig(DEFAULT_THEME_CONFIG),
+        blogContext,
+        tracker,
+        options
+    );
+    const removedFiles = options.only ? [] : await tracker.removeDeleted(sources, options.dryRun);
+    if (!options.dryRun) {
+        await tracker.save();
+    }
+
+    return summarizeResults(project.name, results, [...removedFiles, ...generated.removed], generated.written, startTime);
 }
 
 /**
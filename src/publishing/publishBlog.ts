@@ -0,0 +1,480 @@
+/**
+ * Blog Index and Feeds
+ * Builds paginated blog index pages, per-tag archives and RSS 2.0 / Atom
+ * feeds from the dated org files of a project. Listings are rendered
+ * through the project's theme like any other page.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+import { escapeHtml } from '../utils/escapeUtils';
+import type { FeedFormat, PublishProject } from './publishProject';
+import { renderPostListing, type PostListing, type ProjectContext, type Theme } from './themes';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Blog and feed settings with defaults applied
+ */
+export interface BlogOptions {
+    /** Generate the index and tag pages */
+    blog: boolean;
+    /** Glob selecting posts, relative to the base directory */
+    posts?: string;
+    /** Directory for generated pages and feeds, relative to the publishing directory */
+    directory: string;
+    title: string;
+    postsPerPage: number;
+    tagPages: boolean;
+    feeds: FeedFormat[];
+    /** Site URL ending in / */
+    siteUrl: string;
+    feedTitle: string;
+    feedDescription?: string;
+    feedAuthor?: string;
+    feedItems: number;
+}
+
+/**
+ * Header keywords of a post
+ */
+export interface PostMetadata {
+    title?: string;
+    date?: Date;
+    description?: string;
+    tags: string[];
+    author?: string;
+}
+
+/**
+ * A dated post
+ */
+export interface BlogPost {
+    /** Source file path */
+    sourcePath: string;
+    /** Output path relative to the publishing directory, with / */
+    url: string;
+    title: string;
+    date: Date;
+    description?: string;
+    tags: string[];
+    author?: string;
+}
+
+/**
+ * A generated page or feed
+ */
+export interface GeneratedFile {
+    /** Path relative to the publishing directory, with / */
+    path: string;
+    content: string;
+}
+
+/**
+ * Result of generating the blog pages and feeds
+ */
+export interface BlogResult {
+    /** Every generated path, relative to the publishing directory */
+    generated: string[];
+    /** Absolute paths written in this run (the rest were unchanged) */
+    written: string[];
+}
+
+const FEED_FILENAMES: Record<FeedFormat, string> = {
+    rss: 'rss.xml',
+    atom: 'atom.xml',
+};
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Blog and feed settings of a project, or null if it has neither
+ * @throws If feeds are configured without an absolute site URL
+ */
+export function resolveBlogOptions(project: PublishProject): BlogOptions | null {
+    const feeds = project.feeds ?? [];
+    if (!project.blog && feeds.length === 0) {
+        return null;
+    }
+
+    const siteUrl = project.siteUrl ?? '';
+    if (feeds.length > 0 && !/^https?:\/\//.test(siteUrl)) {
+        throw new Error(`Project "${project.name}" has feeds but no absolute siteUrl`);
+    }
+
+    const title = project.blogTitle || 'Blog';
+    return {
+        blog: project.blog === true,
+        posts: project.blogPosts,
+        directory: (project.blogDirectory ?? 'blog').replace(/^\.?\/+|\/+$/g, ''),
+        title,
+        postsPerPage: Math.max(1, project.blogPostsPerPage ?? 10),
+        tagPages: project.blogTagPages !== false,
+        feeds,
+        siteUrl: siteUrl.replace(/\/*$/, '/'),
+        feedTitle: project.feedTitle || title,
+        feedDescription: project.feedDescription,
+        feedAuthor: project.feedAuthor,
+        feedItems: Math.max(1, project.feedItems ?? 20),
+    };
+}
+
+// =============================================================================
+// Posts
+// =============================================================================
+
+/**
+ * Parse an org date such as <2026-01-16 Fri 09:30>, [2026-01-16] or
+ * 2026-01-16 (as UTC); other text is left to the Date constructor
+ */
+export function parseOrgDate(value: string): Date | undefined {
+    const match = value.match(/(\d{4})-(\d{2})-(\d{2})(?:[^\d\]>]*?(\d{1,2}):(\d{2}))?/);
+    const date = match
+        ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], match[4] ? +match[4] : 0, match[5] ? +match[5] : 0))
+        : new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Read TITLE, DATE, DESCRIPTION, FILETAGS and AUTHOR from the keywords
+ * before the first headline
+ */
+export function parsePostMetadata(content: string): PostMetadata {
+    const metadata: PostMetadata = { tags: [] };
+    const titles: string[] = [];
+    const descriptions: string[] = [];
+
+    for (const line of content.split('\n')) {
+        if (/^\*+\s/.test(line)) break;
+
+        const match = line.match(/^\s*#\+(\w+):\s*(.*?)\s*$/);
+        if (!match || !match[2]) continue;
+
+        const value = match[2];
+        switch (match[1].toUpperCase()) {
+            case 'TITLE':
+                titles.push(value);
+                break;
+            case 'DATE':
+                if (!metadata.date) metadata.date = parseOrgDate(value);
+                break;
+            case 'DESCRIPTION':
+                descriptions.push(value);
+                break;
+            case 'FILETAGS':
+                for (const tag of value.split(/[:\s]+/)) {
+                    if (tag && !metadata.tags.includes(tag)) {
+                        metadata.tags.push(tag);
+                    }
+                }
+                break;
+            case 'AUTHOR':
+                if (!metadata.author) metadata.author = value;
+                break;
+        }
+    }
+
+    if (titles.length > 0) metadata.title = titles.join(' ');
+    if (descriptions.length > 0) metadata.description = descriptions.join(' ');
+    return metadata;
+}
+
+/**
+ * Collect the dated org posts among published files, newest first
+ * @param published Published sources and their outputs
+ */
+export async function collectPosts(
+    published: Array<{ sourcePath: string; outputPath: string }>,
+    baseDir: string,
+    outputDir: string,
+    options: BlogOptions
+): Promise<BlogPost[]> {
+    const posts: BlogPost[] = [];
+
+    for (const file of published) {
+        if (path.extname(file.sourcePath).toLowerCase() !== '.org') continue;
+
+        const relativePath = path.relative(baseDir, file.sourcePath).split(path.sep).join('/');
+        if (options.posts && !minimatch(relativePath, options.posts)) continue;
+
+        let content: string;
+        try {
+            content = await fs.promises.readFile(file.sourcePath, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        const metadata = parsePostMetadata(content);
+        if (!metadata.date) continue;
+
+        posts.push({
+            sourcePath: file.sourcePath,
+            url: path.relative(outputDir, file.outputPath).split(path.sep).join('/'),
+            title: metadata.title || path.basename(file.sourcePath, '.org'),
+            date: metadata.date,
+            description: metadata.description,
+            tags: metadata.tags,
+            author: metadata.author,
+        });
+    }
+
+    return posts.sort((a, b) => b.date.getTime() - a.date.getTime() || a.title.localeCompare(b.title));
+}
+
+// =============================================================================
+// Pages
+// =============================================================================
+
+/**
+ * File name for a tag's archive page
+ */
+export function tagSlug(tag: string): string {
+    return tag.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'tag';
+}
+
+/**
+ * Path of a blog index page (1-based)
+ */
+export function blogIndexPath(options: BlogOptions, page: number): string {
+    return joinPath(options.directory, page === 1 ? 'index.html' : `page/${page}.html`);
+}
+
+/**
+ * Path of a tag's archive page
+ */
+export function tagPagePath(options: BlogOptions, tag: string): string {
+    return joinPath(options.directory, `tags/${tagSlug(tag)}.html`);
+}
+
+/**
+ * Path of a feed
+ */
+export function feedPath(options: BlogOptions, format: FeedFormat): string {
+    return joinPath(options.directory, FEED_FILENAMES[format]);
+}
+
+/**
+ * Render the paginated index and the tag archives through the theme
+ */
+export function renderBlogPages(
+    posts: BlogPost[],
+    options: BlogOptions,
+    theme: Theme,
+    projectContext: ProjectContext
+): GeneratedFile[] {
+    const pages: GeneratedFile[] = [];
+    const pageCount = Math.max(1, Math.ceil(posts.length / options.postsPerPage));
+
+    for (let page = 1; page <= pageCount; page++) {
+        const pagePath = blogIndexPath(options, page);
+        const pagePosts = posts.slice((page - 1) * options.postsPerPage, page * options.postsPerPage);
+        const listing = buildListing(pagePosts, pagePath, options);
+        listing.page = page;
+        listing.pageCount = pageCount;
+        if (page > 1) listing.newerHref = relativeHref(pagePath, blogIndexPath(options, page - 1));
+        if (page < pageCount) listing.olderHref = relativeHref(pagePath, blogIndexPath(options, page + 1));
+
+        const title = page === 1 ? options.title : `${options.title} (page ${page})`;
+        pages.push(renderListingPage(title, listing, pagePath, theme, projectContext));
+    }
+
+    if (options.tagPages) {
+        const tags = [...new Set(posts.flatMap(post => post.tags))].sort((a, b) => a.localeCompare(b));
+        for (const tag of tags) {
+            const pagePath = tagPagePath(options, tag);
+            const listing = buildListing(posts.filter(post => post.tags.includes(tag)), pagePath, options);
+            listing.indexHref = relativeHref(pagePath, blogIndexPath(options, 1));
+            pages.push(renderListingPage(`Posts tagged ${tag}`, listing, pagePath, theme, projectContext));
+        }
+    }
+
+    return pages;
+}
+
+function buildListing(posts: BlogPost[], pagePath: string, options: BlogOptions): PostListing {
+    return {
+        posts: posts.map(post => ({
+            title: post.title,
+            href: relativeHref(pagePath, post.url),
+            date: post.date,
+            description: post.description,
+            tags: post.tags.map(name => ({
+                name,
+                href: options.tagPages ? relativeHref(pagePath, tagPagePath(options, name)) : undefined,
+            })),
+        })),
+        page: 1,
+        pageCount: 1,
+        feeds: options.feeds.map(format => ({ format, href: relativeHref(pagePath, feedPath(options, format)) })),
+    };
+}
+
+function renderListingPage(
+    title: string,
+    listing: PostListing,
+    pagePath: string,
+    theme: Theme,
+    projectContext: ProjectContext
+): GeneratedFile {
+    const content = renderPostListing(listing);
+    return {
+        path: pagePath,
+        content: theme.renderPage(content, {
+            title,
+            content,
+            pageHeadings: [],
+            relativePath: pagePath,
+            sourcePath: '',
+        }, projectContext),
+    };
+}
+
+// =============================================================================
+// Feeds
+// =============================================================================
+
+/**
+ * Generate an RSS 2.0 feed of the newest posts
+ */
+export function generateRssFeed(posts: BlogPost[], options: BlogOptions): string {
+    const items = posts.slice(0, options.feedItems);
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+        '<channel>',
+        `<title>${escapeHtml(options.feedTitle)}</title>`,
+        `<link>${escapeHtml(homeUrl(options))}</link>`,
+        `<description>${escapeHtml(options.feedDescription || options.feedTitle)}</description>`,
+        `<atom:link href="${escapeHtml(absoluteUrl(options, feedPath(options, 'rss')))}" rel="self" type="application/rss+xml"/>`,
+    ];
+    if (items.length > 0) {
+        lines.push(`<lastBuildDate>${items[0].date.toUTCString()}</lastBuildDate>`);
+    }
+
+    for (const post of items) {
+        const link = escapeHtml(absoluteUrl(options, post.url));
+        lines.push('<item>');
+        lines.push(`<title>${escapeHtml(post.title)}</title>`);
+        lines.push(`<link>${link}</link>`);
+        lines.push(`<guid isPermaLink="true">${link}</guid>`);
+        lines.push(`<pubDate>${post.date.toUTCString()}</pubDate>`);
+        const author = post.author || options.feedAuthor;
+        if (author) lines.push(`<dc:creator>${escapeHtml(author)}</dc:creator>`);
+        if (post.description) lines.push(`<description>${escapeHtml(post.description)}</description>`);
+        for (const tag of post.tags) {
+            lines.push(`<category>${escapeHtml(tag)}</category>`);
+        }
+        lines.push('</item>');
+    }
+
+    lines.push('</channel>', '</rss>', '');
+    return lines.join('\n');
+}
+
+/**
+ * Generate an Atom feed of the newest posts
+ */
+export function generateAtomFeed(posts: BlogPost[], options: BlogOptions): string {
+    const items = posts.slice(0, options.feedItems);
+    const updated = (items[0]?.date ?? new Date(0)).toISOString();
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `<title>${escapeHtml(options.feedTitle)}</title>`,
+    ];
+    if (options.feedDescription) {
+        lines.push(`<subtitle>${escapeHtml(options.feedDescription)}</subtitle>`);
+    }
+    lines.push(
+        `<id>${escapeHtml(homeUrl(options))}</id>`,
+        `<link href="${escapeHtml(absoluteUrl(options, feedPath(options, 'atom')))}" rel="self" type="application/atom+xml"/>`,
+        `<link href="${escapeHtml(homeUrl(options))}"/>`,
+        `<updated>${updated}</updated>`,
+        // Atom requires an author for the feed or every entry
+        `<author><name>${escapeHtml(options.feedAuthor || options.feedTitle)}</name></author>`,
+    );
+
+    for (const post of items) {
+        const link = escapeHtml(absoluteUrl(options, post.url));
+        lines.push('<entry>');
+        lines.push(`<title>${escapeHtml(post.title)}</title>`);
+        lines.push(`<id>${link}</id>`);
+        lines.push(`<link href="${link}"/>`);
+        lines.push(`<published>${post.date.toISOString()}</published>`);
+        lines.push(`<updated>${post.date.toISOString()}</updated>`);
+        if (post.author) lines.push(`<author><name>${escapeHtml(post.author)}</name></author>`);
+        if (post.description) lines.push(`<summary>${escapeHtml(post.description)}</summary>`);
+        for (const tag of post.tags) {
+            lines.push(`<category term="${escapeHtml(tag)}"/>`);
+        }
+        lines.push('</entry>');
+    }
+
+    lines.push('</feed>', '');
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Publishing
+// =============================================================================
+
+/**
+ * Generate the blog pages and feeds of a project, writing only those whose
+ * content changed
+ * @param published Published sources and their outputs (generated sitemaps excluded)
+ */
+export async function publishBlog(
+    published: Array<{ sourcePath: string; outputPath: string }>,
+    options: BlogOptions,
+    theme: Theme,
+    projectContext: ProjectContext,
+    dryRun = false
+): Promise<BlogResult> {
+    const { baseDir, outputDir } = projectContext;
+    const posts = await collectPosts(published, baseDir, outputDir, options);
+
+    const files = options.blog ? renderBlogPages(posts, options, theme, projectContext) : [];
+    for (const format of options.feeds) {
+        files.push({
+            path: feedPath(options, format),
+            content: format === 'rss' ? generateRssFeed(posts, options) : generateAtomFeed(posts, options),
+        });
+    }
+
+    const written: string[] = [];
+    for (const file of files) {
+        const outputPath = path.join(outputDir, file.path);
+        const existing = await fs.promises.readFile(outputPath, 'utf-8').catch(() => undefined);
+        if (existing === file.content) continue;
+
+        if (!dryRun) {
+            await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+            await fs.promises.writeFile(outputPath, file.content, 'utf-8');
+        }
+        written.push(outputPath);
+    }
+
+    return { generated: files.map(file => file.path), written };
+}
+
+function joinPath(directory: string, file: string): string {
+    return directory ? `${directory}/${file}` : file;
+}
+
+function relativeHref(fromPage: string, to: string): string {
+    return path.posix.relative(path.posix.dirname(fromPage), to) || path.posix.basename(to);
+}
+
+function absoluteUrl(options: BlogOptions, relativePath: string): string {
+    return options.siteUrl + relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+function homeUrl(options: BlogOptions): string {
+    return options.blog ? absoluteUrl(options, blogIndexPath(options, 1)) : options.siteUrl;
+}
@@ -0,0 +1,396 @@
+/**
+ * Publish Manifest
+ * Records what each published page was built from (source hash, included
+ * files, navigation, configuration and theme version) in the output
+ * directory, so a project only republishes pages whose inputs changed and
+ * can remove the outputs of deleted sources
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { findIncludedFiles } from '../parser/orgInclude';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Manifest file name, written to the publishing directory
+ */
+export const MANIFEST_FILENAME = '.publish-manifest.json';
+
+/**
+ * Manifest format version; older or newer manifests are ignored
+ */
+export const MANIFEST_VERSION = 1;
+
+/**
+ * Why a file was republished
+ */
+export type RebuildReason =
+    | 'forced'      // --force or an explicit file list
+    | 'new'         // Not in the manifest
+    | 'source'      // Source content changed
+    | 'dependency'  // An #+INCLUDE'd file changed
+    | 'navigation'  // TOC neighbours (or the book theme's TOC) changed
+    | 'config'      // Project configuration or templates changed
+    | 'theme'       // Theme or theme version changed
+    | 'output';     // Output file missing
+
+/**
+ * Search data kept for pages that are skipped, so the search index stays whole
+ */
+export interface ManifestSearchData {
+    content: string;
+    headings: Array<{ id: string; text: string }>;
+}
+
+/**
+ * One published source file
+ */
+export interface ManifestEntry {
+    /** Hash of the source content */
+    hash: string;
+    /** Output path relative to the publishing directory */
+    output: string;
+    /** Included files (relative to the base directory) and their hashes */
+    dependencies: Record<string, string>;
+    /** Hash of the navigation the page was rendered with */
+    navigation: string;
+    /** Title from #+TITLE */
+    title?: string;
+    /** Date from #+DATE, ISO formatted */
+    date?: string;
+    /** Search data (theme-based publishing only) */
+    search?: ManifestSearchData;
+}
+
+/**
+ * Manifest state for one project
+ */
+export interface ProjectManifest {
+    /** Hash of the project configuration, theme configuration and templates */
+    configHash: string;
+    /** Theme name and version, e.g. book@1 */
+    themeVersion: string;
+    /** Hash of _toc.yml, or null without a TOC */
+    tocHash: string | null;
+    /** Published files keyed by source path relative to the base directory */
+    files: Record<string, ManifestEntry>;
+    /** Pages generated without a source (blog index, tag archives, feeds), relative to the publishing directory */
+    generated?: string[];
+}
+
+/**
+ * Manifest file contents; projects sharing a publishing directory keep
+ * separate entries
+ */
+export interface PublishManifest {
+    version: number;
+    projects: Record<string, ProjectManifest>;
+}
+
+/**
+ * Result of checking one source against the manifest
+ */
+export interface SourceCheck {
+    /** Source path */
+    file: string;
+    /** Why the file needs publishing, or undefined if it is up to date */
+    reason?: RebuildReason;
+    /** Current source hash */
+    hash: string;
+    /** Current included files and hashes */
+    dependencies: Record<string, string>;
+    /** Current navigation hash */
+    navigation: string;
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/**
+ * SHA-256 of a string or buffer, hex encoded
+ */
+export function hashContent(content: string | Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash a file's content, or '' if it cannot be read
+ */
+export async function hashFile(filePath: string): Promise<string> {
+    try {
+        return hashContent(await fs.promises.readFile(filePath));
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Hash the #+INCLUDE'd files of an org source, following nested includes
+ */
+export async function collectDependencies(
+    sourcePath: string,
+    baseDir: string
+): Promise<Record<string, string>> {
+    const dependencies: Record<string, string> = {};
+    if (path.extname(sourcePath).toLowerCase() !== '.org') {
+        return dependencies;
+    }
+
+    const visited = new Set<string>([path.resolve(sourcePath)]);
+    const queue = [path.resolve(sourcePath)];
+
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        let content: string;
+        try {
+            content = await fs.promises.readFile(file, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        for (const included of findIncludedFiles(content, path.dirname(file))) {
+            if (visited.has(included)) continue;
+            visited.add(included);
+            dependencies[manifestKey(baseDir, included)] = await hashFile(included);
+            if (path.extname(included).toLowerCase() === '.org') {
+                queue.push(included);
+            }
+        }
+    }
+
+    return dependencies;
+}
+
+/**
+ * Manifest key for a file: its path relative to the base directory, with /
+ */
+export function manifestKey(baseDir: string, filePath: string): string {
+    return path.relative(baseDir, filePath).split(path.sep).join('/');
+}
+
+// =============================================================================
+// Loading and Saving
+// =============================================================================
+
+/**
+ * Read the manifest from a publishing directory; a missing, unreadable or
+ * differently versioned manifest counts as empty
+ */
+export async function loadManifest(outputDir: string): Promise<PublishManifest> {
+    try {
+        const content = await fs.promises.readFile(path.join(outputDir, MANIFEST_FILENAME), 'utf-8');
+        const manifest = JSON.parse(content) as PublishManifest;
+        if (manifest.version === MANIFEST_VERSION && manifest.projects && typeof manifest.projects === 'object') {
+            return manifest;
+        }
+    } catch {
+        // Start over
+    }
+    return { version: MANIFEST_VERSION, projects: {} };
+}
+
+/**
+ * Write the manifest to a publishing directory
+ */
+export async function saveManifest(outputDir: string, manifest: PublishManifest): Promise<void> {
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    await fs.promises.writeFile(
+        path.join(outputDir, MANIFEST_FILENAME),
+        JSON.stringify(manifest, null, 2) + '\n',
+        'utf-8'
+    );
+}
+
+// =============================================================================
+// Tracker
+// =============================================================================
+
+/**
+ * Decides which sources of one project need publishing and records what
+ * was published. Load it before publishing, check each source, record the
+ * results, then remove deleted sources and save.
+ */
+export class ManifestTracker {
+    private readonly previous: ProjectManifest | undefined;
+    private readonly current: ProjectManifest;
+
+    private constructor(
+        private readonly manifest: PublishManifest,
+        private readonly projectName: string,
+        private readonly baseDir: string,
+        private readonly outputDir: string,
+        state: Omit<ProjectManifest, 'files'>
+    ) {
+        this.previous = manifest.projects[projectName];
+        this.current = { ...state, files: { ...this.previous?.files }, generated: this.previous?.generated };
+    }
+
+    /**
+     * Load the manifest for a project
+     * @param state Configuration, theme and TOC fingerprints for this run
+     */
+    static async load(
+        projectName: string,
+        baseDir: string,
+        outputDir: string,
+        state: Omit<ProjectManifest, 'files'>
+    ): Promise<ManifestTracker> {
+        const manifest = await loadManifest(outputDir);
+        return new ManifestTracker(manifest, projectName, baseDir, outputDir, state);
+    }
+
+    /**
+     * Check whether a source needs publishing
+     * @param navigation Fingerprint of the navigation rendered into the page
+     * @param content Content about to be written, when the file is generated
+     */
+    async check(file: string, navigation: string, force = false, content?: string): Promise<SourceCheck> {
+        const [hash, dependencies] = await Promise.all([
+            content !== undefined ? hashContent(content) : hashFile(file),
+            collectDependencies(file, this.baseDir),
+        ]);
+        const check: SourceCheck = { file, hash, dependencies, navigation };
+        const entry = this.previous?.files[manifestKey(this.baseDir, file)];
+
+        if (force) {
+            check.reason = 'forced';
+        } else if (!entry) {
+            check.reason = 'new';
+        } else if (this.previous!.themeVersion !== this.current.themeVersion) {
+            check.reason = 'theme';
+        } else if (this.previous!.configHash !== this.current.configHash) {
+            check.reason = 'config';
+        } else if (entry.hash !== hash) {
+            check.reason = 'source';
+        } else if (!sameRecord(entry.dependencies, dependencies)) {
+            check.reason = 'dependency';
+        } else if (entry.navigation !== navigation) {
+            check.reason = 'navigation';
+        } else if (!fs.existsSync(path.join(this.outputDir, entry.output))) {
+            check.reason = 'output';
+        }
+
+        return check;
+    }
+
+    /**
+     * Manifest entry of an up-to-date source
+     */
+    entry(file: string): ManifestEntry | undefined {
+        return this.current.files[manifestKey(this.baseDir, file)];
+    }
+
+    /**
+     * Absolute output path of a manifest entry
+     */
+    outputPath(entry: ManifestEntry): string {
+        return path.join(this.outputDir, entry.output);
+    }
+
+    /**
+     * Record a successful publish
+     */
+    record(
+        check: SourceCheck,
+        result: { outputPath: string; title?: string; date?: Date; search?: ManifestSearchData }
+    ): void {
+        const date = result.date && !isNaN(result.date.getTime()) ? result.date.toISOString() : undefined;
+        this.current.files[manifestKey(this.baseDir, check.file)] = {
+            hash: check.hash,
+            output: manifestKey(this.outputDir, result.outputPath),
+            dependencies: check.dependencies,
+            navigation: check.navigation,
+            title: result.title,
+            date,
+            search: result.search,
+        };
+    }
+
+    /**
+     * Drop a source from the manifest (e.g. after a failed publish, so it is
+     * retried next time)
+     */
+    forget(file: string): void {
+        delete this.current.files[manifestKey(this.baseDir, file)];
+    }
+
+    /**
+     * Remove the outputs of sources that are no longer published
+     * @param sources Every source the project publishes now
+     * @returns Removed output paths
+     */
+    async removeDeleted(sources: string[], dryRun = false): Promise<string[]> {
+        const keep = new Set(sources.map(file => manifestKey(this.baseDir, file)));
+        const keptOutputs = new Set(
+            Object.entries(this.current.files)
+                .filter(([key]) => keep.has(key))
+                .map(([, entry]) => entry.output)
+        );
+        const removed: string[] = [];
+
+        for (const [key, entry] of Object.entries(this.current.files)) {
+            if (keep.has(key)) continue;
+
+            delete this.current.files[key];
+            if (keptOutputs.has(entry.output)) continue;
+
+            const outputPath = this.outputPath(entry);
+            if (!fs.existsSync(outputPath)) continue;
+
+            if (!dryRun) {
+                await fs.promises.rm(outputPath, { force: true });
+            }
+            removed.push(outputPath);
+        }
+
+        return removed;
+    }
+
+    /**
+     * Record the pages generated for the project and remove those generated
+     * last time but not now
+     * @param outputs Generated paths relative to the publishing directory
+     * @returns Removed output paths
+     */
+    async replaceGenerated(outputs: string[], dryRun = false): Promise<string[]> {
+        const keep = new Set([
+            ...outputs,
+            ...Object.values(this.current.files).map(entry => entry.output),
+        ]);
+        const removed: string[] = [];
+
+        for (const output of this.current.generated ?? []) {
+            if (keep.has(output)) continue;
+
+            const outputPath = path.join(this.outputDir, output);
+            if (!fs.existsSync(outputPath)) continue;
+
+            if (!dryRun) {
+                await fs.promises.rm(outputPath, { force: true });
+            }
+            removed.push(outputPath);
+        }
+
+        this.current.generated = outputs.length > 0 ? outputs : undefined;
+        return removed;
+    }
+
+    /**
+     * Write the manifest back to the publishing directory
+     */
+    async save(): Promise<void> {
+        this.manifest.projects[this.projectName] = this.current;
+        await saveManifest(this.outputDir, this.manifest);
+    }
+}
+
+function sameRecord(a: Record<string, string>, b: Record<string, string>): boolean {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
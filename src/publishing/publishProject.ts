@@ -30,6 +30,11 @@ export type SitemapSortOrder = 'alphabetically' | 'chronologically' | 'anti-chro
  */
 export type SitemapStyle = 'list' | 'tree';
 
+/**
+ * Feed formats
+ */
+export type FeedFormat = 'rss' | 'atom';
+
 /**
  * Single project configuration
  */
@@ -92,6 +97,46 @@ export interface PublishProject {
     /** Put folders first or last in sitemap */
     sitemapSortFolders?: 'first' | 'last' | 'mixed';
 
+    // =========================================================================
+    // Blog and Feed Options
+    // =========================================================================
+
+    /** Generate paginated blog index pages of dated posts, newest first */
+    blog?: boolean;
+
+    /** Glob (relative to baseDirectory) selecting posts (default: every org file with #+DATE) */
+    blogPosts?: string;
+
+    /** Directory for the index and tag pages, relative to publishingDirectory (default: 'blog') */
+    blogDirectory?: string;
+
+    /** Title for the blog index (default: 'Blog') */
+    blogTitle?: string;
+
+    /** Posts per index page (default: 10) */
+    blogPostsPerPage?: number;
+
+    /** Generate an archive page for each #+FILETAGS tag (default: true) */
+    blogTagPages?: boolean;
+
+    /** Feeds to generate from the posts */
+    feeds?: FeedFormat[];
+
+    /** Absolute URL the publishing directory is served from (required for feeds) */
+    siteUrl?: string;
+
+    /** Feed title (default: blogTitle) */
+    feedTitle?: string;
+
+    /** Feed description */
+    feedDescription?: string;
+
+    /** Feed author, for posts without #+AUTHOR */
+    feedAuthor?: string;
+
+    /** Posts per feed (default: 20) */
+    feedItems?: number;
+
     // =========================================================================
     // HTML Options (passed to HTML exporter)
     // =========================================================================
@@ -414,6 +459,10 @@ export function validateProject(project: Partial<PublishProject>): ValidationErr
         });
     }
 
+    if (project.feeds && project.feeds.length > 0 && !/^https?:\/\//.test(project.siteUrl || '')) {
+        errors.push({ field: 'siteUrl', message: 'Feeds require an absolute http(s) site URL' });
+    }
+
     return errors;
 }
 
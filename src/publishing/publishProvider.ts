@@ -27,6 +27,8 @@ import {
     PublishProjectResult,
 } from './orgPublish';
 
+import { PublishPreviewServer } from './publishServe';
+
 // =============================================================================
 // Wizard
 // =============================================================================
@@ -446,19 +448,31 @@ async function publishWithProgress(
  * Show publishing results
  */
 function showPublishResults(results: PublishProjectResult[]): void {
-    let totalSuccess = 0;
+    let totalBuilt = 0;
+    let totalSkipped = 0;
+    let totalRemoved = 0;
+    let totalGenerated = 0;
     let totalErrors = 0;
     let totalDuration = 0;
 
     for (const result of results) {
-        totalSuccess += result.successCount;
+        totalBuilt += result.builtCount;
+        totalSkipped += result.skippedCount;
+        totalRemoved += result.removedFiles.length;
+        totalGenerated += result.generatedFiles.length;
         totalErrors += result.errorCount;
         totalDuration += result.duration;
     }
 
+    const details = [
+        totalSkipped > 0 ? `${totalSkipped} unchanged` : '',
+        totalRemoved > 0 ? `${totalRemoved} removed` : '',
+        totalGenerated > 0 ? `${totalGenerated} blog pages and feeds` : '',
+    ].filter(Boolean).join(', ');
+
     if (totalErrors === 0) {
         vscode.window.showInformationMessage(
-            `Published ${totalSuccess} files in ${(totalDuration / 1000).toFixed(1)}s`
+            `Published ${totalBuilt} files${details ? ` (${details})` : ''} in ${(totalDuration / 1000).toFixed(1)}s`
         );
     } else {
         const errorFiles = results
@@ -470,7 +484,7 @@ function showPublishResults(results: PublishProjectResult[]): void {
         const moreErrors = totalErrors > 3 ? ` and ${totalErrors - 3} more` : '';
 
         vscode.window.showWarningMessage(
-            `Published ${totalSuccess} files, ${totalErrors} errors: ${errorFiles.join(', ')}${moreErrors}`
+            `Published ${totalBuilt} files, ${totalErrors} errors: ${errorFiles.join(', ')}${moreErrors}`
         );
     }
 }
@@ -584,6 +598,112 @@ async function previewSite(): Promise<void> {
     );
 }
 
+// =============================================================================
+// Preview Server
+// =============================================================================
+
+let previewServer: PublishPreviewServer | null = null;
+let previewWatcher: vscode.FileSystemWatcher | null = null;
+let previewOutput: vscode.OutputChannel | null = null;
+
+/**
+ * Publish a project and serve it with live reload, republishing on change
+ */
+async function servePreview(): Promise<void> {
+    if (previewServer) {
+        await vscode.env.openExternal(vscode.Uri.parse(previewServer.url));
+        return;
+    }
+
+    const workspaceRoot = getWorkspaceRoot();
+    if (!workspaceRoot) return;
+
+    const config = await loadConfig(workspaceRoot);
+    if (!config) {
+        vscode.window.showWarningMessage('No publishing configuration found.');
+        return;
+    }
+
+    const projectNames = Object.keys(config.projects).filter(name =>
+        isPublishProject(config.projects[name])
+    );
+    if (projectNames.length === 0) {
+        vscode.window.showErrorMessage('No valid projects found in configuration.');
+        return;
+    }
+
+    const projectName = projectNames.length === 1
+        ? projectNames[0]
+        : await vscode.window.showQuickPick(projectNames, {
+            placeHolder: 'Select a project to serve',
+            title: 'Publish and Serve',
+        });
+    if (!projectName) return;
+
+    if (!previewOutput) {
+        previewOutput = vscode.window.createOutputChannel('Scimax Publish');
+    }
+    const output = previewOutput;
+
+    // VS Code's watcher replaces fs.watch, which is not recursive on every platform
+    const server = new PublishPreviewServer({
+        workspaceRoot,
+        projectName,
+        port: vscode.workspace.getConfiguration('scimax.publish').get<number>('servePort', 8000),
+        watch: false,
+        log: message => output.appendLine(message),
+    });
+
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Publishing and starting preview server...',
+            },
+            () => server.start()
+        );
+    } catch (error) {
+        await server.stop();
+        vscode.window.showErrorMessage(
+            `Preview server failed: ${error instanceof Error ? error.message : error}`
+        );
+        return;
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspaceRoot, '**/*')
+    );
+    const onChange = (uri: vscode.Uri) => void server.handleChanges([uri.fsPath]);
+    watcher.onDidChange(onChange);
+    watcher.onDidCreate(onChange);
+    watcher.onDidDelete(onChange);
+
+    previewServer = server;
+    previewWatcher = watcher;
+
+    await vscode.env.openExternal(vscode.Uri.parse(server.url));
+    vscode.window.showInformationMessage(`Serving at ${server.url}`, 'Stop').then(choice => {
+        if (choice === 'Stop') {
+            void stopPreview();
+        }
+    });
+}
+
+/**
+ * Stop the preview server if it is running
+ */
+async function stopPreview(): Promise<void> {
+    const server = previewServer;
+    previewWatcher?.dispose();
+    previewWatcher = null;
+    previewServer = null;
+
+    if (server) {
+        await server.stop();
+        previewOutput?.appendLine('Preview server stopped');
+    }
+}
+
 /**
  * Open the publish configuration file
  */
@@ -663,4 +783,18 @@ export function registerPublishCommands(context: vscode.ExtensionContext): void
             openConfig
         )
     );
+
+    // Serve with live reload
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'scimax.publish.serve',
+            servePreview
+        ),
+        vscode.commands.registerCommand(
+            'scimax.publish.stopServe',
+            stopPreview
+        ),
+        { dispose: () => void stopPreview() },
+        { dispose: () => previewOutput?.dispose() }
+    );
 }
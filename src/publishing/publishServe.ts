@@ -0,0 +1,634 @@
+/**
+ * Publish preview server
+ * Serves a project's publish output over HTTP, republishes changed sources
+ * (and the files that #+INCLUDE them) and live-reloads open browser tabs
+ * through server-sent events
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+import {
+    PublishConfig,
+    PublishProject,
+    CONFIG_FILENAME,
+    CONFIG_YAML_FILENAME,
+    TOC_FILENAME,
+    isPublishProject,
+    mergeWithDefaults,
+} from './publishProject';
+import {
+    loadConfig,
+    loadToc,
+    listProjectSources,
+    publishProject,
+    publishProjectWithTheme,
+    PublishOptions,
+    PublishProjectResult,
+} from './orgPublish';
+import { findIncludedFiles } from '../parser/orgInclude';
+
+// =============================================================================
+// Live Reload
+// =============================================================================
+
+/**
+ * URL path of the server-sent events stream that tells pages to reload
+ */
+export const LIVE_RELOAD_PATH = '/__scimax/livereload';
+
+const LIVE_RELOAD_SCRIPT = `<script>
+(function () {
+    var source = new EventSource('${LIVE_RELOAD_PATH}');
+    source.addEventListener('reload', function () { location.reload(); });
+})();
+</script>`;
+
+/**
+ * Add the live reload client to an HTML page, before </body> if there is one
+ */
+export function injectLiveReload(html: string): string {
+    const index = html.lastIndexOf('</body>');
+    if (index < 0) {
+        return html + LIVE_RELOAD_SCRIPT;
+    }
+    return html.slice(0, index) + LIVE_RELOAD_SCRIPT + '\n' + html.slice(index);
+}
+
+// =============================================================================
+// Rebuild Planning
+// =============================================================================
+
+/**
+ * Map from an included file to the files that #+INCLUDE it directly
+ */
+export type IncludeGraph = Map<string, Set<string>>;
+
+/**
+ * Extensions that may be published when a new file appears
+ */
+const SOURCE_EXTENSIONS = ['.org', '.md', '.ipynb'];
+
+/**
+ * Follow #+INCLUDE directives from the given sources, through included org
+ * files, and record who includes what
+ */
+export function buildIncludeGraph(sources: string[]): IncludeGraph {
+    const graph: IncludeGraph = new Map();
+    const queue = sources.map(file => path.resolve(file));
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        if (visited.has(file) || path.extname(file).toLowerCase() !== '.org') continue;
+        visited.add(file);
+
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        for (const included of findIncludedFiles(content, path.dirname(file))) {
+            if (!graph.has(included)) {
+                graph.set(included, new Set());
+            }
+            graph.get(included)!.add(file);
+            queue.push(included);
+        }
+    }
+
+    return graph;
+}
+
+/**
+ * All files that include the given file, directly or through other includes
+ */
+export function collectDependents(graph: IncludeGraph, file: string): string[] {
+    const dependents = new Set<string>();
+    const queue = [path.resolve(file)];
+
+    while (queue.length > 0) {
+        for (const includer of graph.get(queue.shift()!) ?? []) {
+            if (!dependents.has(includer)) {
+                dependents.add(includer);
+                queue.push(includer);
+            }
+        }
+    }
+
+    return [...dependents];
+}
+
+/**
+ * What the project knows about its files when changes come in
+ */
+export interface RebuildContext {
+    /** Project source directory */
+    baseDir: string;
+    /** Files the project publishes */
+    sources: string[];
+    /** Includes followed from the sources */
+    includeGraph: IncludeGraph;
+    /** Configuration files whose change means starting over */
+    configFiles: string[];
+    /** Existence check (default: fs.existsSync) */
+    exists?: (file: string) => boolean;
+}
+
+/**
+ * Work needed after some files changed
+ */
+export interface RebuildPlan {
+    /** Republish the whole project (config, TOC or file set changed) */
+    full: boolean;
+    /** Sources to republish */
+    files: string[];
+    /** Files under _static to copy to the output */
+    staticFiles: string[];
+}
+
+/**
+ * Decide what to republish for a batch of changed paths. An edited source
+ * republishes itself and the sources that include it; a change to the
+ * configuration or _toc.yml, or a source appearing or disappearing, means
+ * a full rebuild since navigation and the sitemap depend on the file set.
+ */
+export function planRebuild(changed: string[], context: RebuildContext): RebuildPlan {
+    const exists = context.exists ?? fs.existsSync;
+    const baseDir = path.resolve(context.baseDir);
+    const staticDir = path.join(baseDir, '_static');
+    const sources = new Set(context.sources.map(file => path.resolve(file)));
+    const configFiles = new Set([
+        ...context.configFiles.map(file => path.resolve(file)),
+        path.join(baseDir, TOC_FILENAME),
+    ]);
+
+    const files = new Set<string>();
+    const staticFiles = new Set<string>();
+
+    for (const changedPath of changed) {
+        const file = path.resolve(changedPath);
+
+        if (configFiles.has(file)) {
+            return { full: true, files: [], staticFiles: [] };
+        }
+
+        if (file.startsWith(staticDir + path.sep)) {
+            staticFiles.add(file);
+            continue;
+        }
+
+        const dependents = collectDependents(context.includeGraph, file).filter(dep => sources.has(dep));
+
+        if (sources.has(file)) {
+            if (!exists(file)) {
+                return { full: true, files: [], staticFiles: [] };
+            }
+            files.add(file);
+        } else if (dependents.length === 0 && SOURCE_EXTENSIONS.includes(path.extname(file).toLowerCase())
+            && file.startsWith(baseDir + path.sep) && exists(file)) {
+            // A new file may be picked up by discovery or a TOC entry
+            return { full: true, files: [], staticFiles: [] };
+        }
+
+        for (const dependent of dependents) {
+            files.add(dependent);
+        }
+    }
+
+    return { full: false, files: [...files], staticFiles: [...staticFiles] };
+}
+
+// =============================================================================
+// Preview Server
+// =============================================================================
+
+/**
+ * Preview server options
+ */
+export interface PublishPreviewOptions {
+    /** Workspace root holding the publish configuration */
+    workspaceRoot: string;
+    /** Project to serve (default: the default project, else the first) */
+    projectName?: string;
+    /** Port to listen on (default: 8000, 0 for any free port) */
+    port?: number;
+    /** Host to listen on (default: 127.0.0.1) */
+    host?: string;
+    /** Watch the source directory with fs.watch (default: true) */
+    watch?: boolean;
+    /** Delay before a batch of changes is rebuilt, in ms (default: 100) */
+    debounce?: number;
+    /** Log callback for build and server messages */
+    log?: (message: string) => void;
+}
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.pdf': 'application/pdf',
+    '.txt': 'text/plain; charset=utf-8',
+    '.xml': 'application/xml; charset=utf-8',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+};
+
+/**
+ * Local HTTP server for a publishing project with watch mode and live reload
+ */
+export class PublishPreviewServer {
+    private readonly workspaceRoot: string;
+    private readonly debounce: number;
+    private readonly log: (message: string) => void;
+
+    private config!: PublishConfig;
+    private project!: PublishProject;
+    private baseDir = '';
+    private outputDir = '';
+    private sources: string[] = [];
+    private includeGraph: IncludeGraph = new Map();
+    private generatedFiles = new Set<string>();
+
+    private server: http.Server | null = null;
+    private readonly clients = new Set<http.ServerResponse>();
+    private watchers: fs.FSWatcher[] = [];
+
+    private readonly pending = new Set<string>();
+    private flushTimer: NodeJS.Timeout | null = null;
+    private flushPromise: Promise<void> | null = null;
+    private building: Promise<void> = Promise.resolve();
+    private address = '';
+
+    constructor(private readonly options: PublishPreviewOptions) {
+        this.workspaceRoot = path.resolve(options.workspaceRoot);
+        this.debounce = options.debounce ?? 100;
+        this.log = options.log ?? (() => undefined);
+    }
+
+    /** URL of the running server */
+    get url(): string {
+        return this.address;
+    }
+
+    /** Source directory being watched */
+    get sourceDirectory(): string {
+        return this.baseDir;
+    }
+
+    /** Directory being served */
+    get outputDirectory(): string {
+        return this.outputDir;
+    }
+
+    /**
+     * Publish the project, then start serving (and watching) it
+     * @returns the server URL
+     */
+    async start(): Promise<string> {
+        await this.fullBuild();
+
+        const server = http.createServer((req, res) => this.handleRequest(req, res));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.options.port ?? 8000, this.options.host ?? '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+
+        const address = server.address();
+        const port = typeof address === 'object' && address ? address.port : this.options.port;
+        const host = this.options.host ?? '127.0.0.1';
+        this.address = `http://${host.includes(':') ? `[${host}]` : host}:${port}/`;
+
+        if (this.options.watch !== false) {
+            this.startWatching();
+        }
+
+        this.log(`Serving ${this.outputDir} at ${this.address}`);
+        return this.address;
+    }
+
+    /**
+     * Queue changed paths for a rebuild. Changes arriving within the debounce
+     * delay are rebuilt together; the promise settles after that rebuild.
+     */
+    handleChanges(paths: string[]): Promise<void> {
+        for (const file of paths) {
+            this.pending.add(path.resolve(file));
+        }
+
+        if (!this.flushPromise) {
+            this.flushPromise = new Promise<void>(resolve => {
+                this.flushTimer = setTimeout(resolve, this.debounce);
+            }).then(() => {
+                this.flushTimer = null;
+                this.flushPromise = null;
+                const batch = [...this.pending];
+                this.pending.clear();
+                this.building = this.building.then(() => this.rebuild(batch));
+                return this.building;
+            });
+        }
+
+        return this.flushPromise;
+    }
+
+    /**
+     * Stop watching, disconnect browsers and close the server
+     */
+    async stop(): Promise<void> {
+        for (const watcher of this.watchers) {
+            watcher.close();
+        }
+        this.watchers = [];
+
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+            this.flushPromise = null;
+        }
+
+        for (const client of this.clients) {
+            client.end();
+        }
+        this.clients.clear();
+
+        const server = this.server;
+        this.server = null;
+        if (server) {
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // Building
+    // -------------------------------------------------------------------------
+
+    private async loadProject(): Promise<void> {
+        const config = await loadConfig(this.workspaceRoot);
+        if (!config) {
+            throw new Error('No publishing configuration found (.org-publish.json or _config.yml)');
+        }
+
+        const name = this.options.projectName
+            ?? (config.defaultProject && isPublishProject(config.projects[config.defaultProject])
+                ? config.defaultProject
+                : Object.keys(config.projects).find(key => isPublishProject(config.projects[key])));
+        const projectConfig = name ? config.projects[name] : undefined;
+
+        if (!name || !projectConfig) {
+            throw new Error(name ? `Project '${name}' not found` : 'No publishable project configured');
+        }
+        if (!isPublishProject(projectConfig)) {
+            throw new Error(`'${name}' is a component project, not a publishable project`);
+        }
+
+        this.config = config;
+        this.project = mergeWithDefaults({ ...projectConfig, name });
+        this.baseDir = path.resolve(this.workspaceRoot, this.project.baseDirectory);
+        this.outputDir = path.resolve(this.workspaceRoot, this.project.publishingDirectory);
+    }
+
+    private usesTheme(): boolean {
+        return !!this.config.theme && this.config.theme.name !== 'default';
+    }
+
+    private publish(options: PublishOptions): Promise<PublishProjectResult> {
+        return this.usesTheme()
+            ? publishProjectWithTheme(this.project, this.workspaceRoot, options, this.config.theme!)
+            : publishProject(this.project, this.workspaceRoot, options);
+    }
+
+    private async fullBuild(): Promise<void> {
+        await this.loadProject();
+        // Incremental, like Publish Project: the manifest hashes the
+        // configuration, templates and theme, so a start or config reload
+        // republishes every page those affect and skips the rest
+        const result = await this.publish({});
+        this.reportResult(result);
+
+        this.sources = (await listProjectSources(this.project, this.workspaceRoot)).map(file => path.resolve(file));
+        this.includeGraph = buildIncludeGraph(this.sources);
+
+        // The sitemap/index page is written into the source directory on each full build
+        this.generatedFiles.clear();
+        if (!this.usesTheme() && this.project.autoSitemap && this.project.publishingFunction !== 'copy') {
+            const toc = await loadToc(this.project, this.workspaceRoot);
+            const defaultName = toc ? 'index.org' : 'sitemap.org';
+            this.generatedFiles.add(path.join(this.baseDir, this.project.sitemapFilename || defaultName));
+        }
+    }
+
+    private async rebuild(changed: string[]): Promise<void> {
+        const relevant = changed.filter(file => !this.isIgnored(file));
+        if (relevant.length === 0) return;
+
+        try {
+            const plan = planRebuild(relevant, {
+                baseDir: this.baseDir,
+                sources: this.sources,
+                includeGraph: this.includeGraph,
+                configFiles: [
+                    path.join(this.workspaceRoot, CONFIG_FILENAME),
+                    path.join(this.workspaceRoot, CONFIG_YAML_FILENAME),
+                ],
+            });
+
+            if (plan.full) {
+                this.log('Configuration or file set changed; republishing the project');
+                await this.fullBuild();
+            } else {
+                if (plan.files.length === 0 && plan.staticFiles.length === 0) return;
+
+                if (plan.files.length > 0) {
+                    this.log(`Republishing ${plan.files.map(file => path.relative(this.baseDir, file)).join(', ')}`);
+                    this.reportResult(await this.publish({ only: plan.files }));
+                    // Includes may have been added or removed
+                    this.includeGraph = buildIncludeGraph(this.sources);
+                }
+
+                for (const file of plan.staticFiles) {
+                    await this.copyStatic(file);
+                }
+            }
+
+            this.broadcastReload();
+        } catch (error) {
+            this.log(`Rebuild failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async copyStatic(file: string): Promise<void> {
+        const target = path.join(this.outputDir, path.relative(this.baseDir, file));
+        try {
+            await fs.promises.mkdir(path.dirname(target), { recursive: true });
+            await fs.promises.copyFile(file, target);
+        } catch {
+            // Deleted (or a directory event): drop the published copy too
+            await fs.promises.rm(target, { force: true });
+        }
+    }
+
+    private reportResult(result: PublishProjectResult): void {
+        this.log(`Published ${result.builtCount} file(s) in ${result.duration}ms`
+            + (result.skippedCount > 0 ? `, ${result.skippedCount} unchanged` : '')
+            + (result.removedFiles.length > 0 ? `, ${result.removedFiles.length} removed` : '')
+            + (result.generatedFiles.length > 0 ? `, ${result.generatedFiles.length} blog pages and feeds` : '')
+            + (result.errorCount > 0 ? `, ${result.errorCount} failed` : ''));
+        for (const file of result.files) {
+            if (!file.success) {
+                this.log(`  ${path.relative(this.baseDir, file.sourcePath)}: ${file.error}`);
+            }
+        }
+    }
+
+    private isIgnored(file: string): boolean {
+        if (file === this.outputDir || file.startsWith(this.outputDir + path.sep)) return true;
+        if (this.generatedFiles.has(file)) return true;
+
+        const name = path.basename(file);
+        // Editor lock, backup and swap files
+        if (name.startsWith('.#') || name.endsWith('~') || /\.sw[px]$/.test(name)) return true;
+
+        const relative = path.relative(this.workspaceRoot, file);
+        return relative.split(path.sep).some(part => part.startsWith('.') && part !== CONFIG_FILENAME && part !== '..');
+    }
+
+    // -------------------------------------------------------------------------
+    // Watching
+    // -------------------------------------------------------------------------
+
+    private startWatching(): void {
+        const onEvent = (dir: string) => (_event: string, filename: string | Buffer | null) => {
+            if (filename) {
+                void this.handleChanges([path.join(dir, filename.toString())]);
+            }
+        };
+
+        try {
+            this.watchers.push(fs.watch(this.baseDir, { recursive: true }, onEvent(this.baseDir)));
+        } catch {
+            // Recursive watching needs Node 20 on Linux; watch each directory instead
+            for (const dir of this.listDirectories(this.baseDir)) {
+                this.watchers.push(fs.watch(dir, onEvent(dir)));
+            }
+        }
+
+        // Configuration files live in the workspace root
+        if (this.workspaceRoot !== this.baseDir) {
+            const configNames = new Set([CONFIG_FILENAME, CONFIG_YAML_FILENAME]);
+            this.watchers.push(fs.watch(this.workspaceRoot, (_event, filename) => {
+                if (filename && configNames.has(filename.toString())) {
+                    void this.handleChanges([path.join(this.workspaceRoot, filename.toString())]);
+                }
+            }));
+        }
+    }
+
+    private listDirectories(dir: string): string[] {
+        const dirs = [dir];
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory() && !entry.name.startsWith('.') && fullPath !== this.outputDir) {
+                dirs.push(...this.listDirectories(fullPath));
+            }
+        }
+        return dirs;
+    }
+
+    // -------------------------------------------------------------------------
+    // Serving
+    // -------------------------------------------------------------------------
+
+    private broadcastReload(): void {
+        for (const client of this.clients) {
+            client.write('event: reload\ndata: {}\n\n');
+        }
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        let urlPath: string;
+        try {
+            urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+        } catch {
+            res.writeHead(400).end('Bad request');
+            return;
+        }
+
+        if (urlPath === LIVE_RELOAD_PATH) {
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+            });
+            res.write(': connected\n\n');
+            this.clients.add(res);
+            req.on('close', () => this.clients.delete(res));
+            return;
+        }
+
+        const filePath = this.resolveRequestPath(urlPath);
+        if (!filePath) {
+            res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`Not found: ${urlPath}`);
+            return;
+        }
+
+        const ext = path.extname(filePath).toLowerCase();
+        fs.readFile(filePath, (error, data) => {
+            if (error) {
+                res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`Not found: ${urlPath}`);
+                return;
+            }
+            const body = ext === '.html' ? injectLiveReload(data.toString('utf-8')) : data;
+            res.writeHead(200, {
+                'Content-Type': MIME_TYPES[ext] || 'application/octet-stream',
+                'Cache-Control': 'no-store',
+            });
+            res.end(body);
+        });
+    }
+
+    /**
+     * Map a URL path to a file in the output directory, or null if it is
+     * missing or outside it
+     */
+    private resolveRequestPath(urlPath: string): string | null {
+        let filePath = path.resolve(this.outputDir, '.' + urlPath);
+        if (filePath !== this.outputDir && !filePath.startsWith(this.outputDir + path.sep)) {
+            return null;
+        }
+
+        if (isDirectory(filePath)) {
+            const candidates = filePath === this.outputDir ? ['index.html', 'sitemap.html'] : ['index.html'];
+            const index = candidates.map(name => path.join(filePath, name)).find(file => fs.existsSync(file));
+            if (!index) return null;
+            filePath = index;
+        } else if (!fs.existsSync(filePath) && fs.existsSync(filePath + '.html')) {
+            filePath += '.html';
+        }
+
+        return fs.existsSync(filePath) ? filePath : null;
+    }
+}
+
+function isDirectory(filePath: string): boolean {
+    try {
+        return fs.statSync(filePath).isDirectory();
+    } catch {
+        return false;
+    }
+}
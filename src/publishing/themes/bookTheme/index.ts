@@ -16,6 +16,7 @@ import { generateSearchIndex as generateSearchIndexFile } from './searchIndex';
  */
 export class BookTheme implements Theme {
     readonly name = 'book';
+    readonly version = '1';
 
     /**
      * Render a page with the book theme
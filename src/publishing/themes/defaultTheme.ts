@@ -11,6 +11,7 @@ import { escapeHtml } from '../../utils/escapeUtils';
  */
 export class DefaultTheme implements Theme {
     readonly name = 'default';
+    readonly version = '2';
 
     /**
      * Render a page with the default theme
@@ -133,6 +134,13 @@ blockquote { border-left: 4px solid #ced4da; margin: 1rem 0; padding-left: 1rem;
 .page-navigation { display: flex; justify-content: space-between; margin-top: 2rem; padding-top: 1rem; border-top: 1px solid #dee2e6; }
 .nav-prev, .nav-next { color: #0d6efd; text-decoration: none; }
 .nav-prev:hover, .nav-next:hover { text-decoration: underline; }
+.post-summary { margin-bottom: 1.5rem; }
+.post-title { margin-bottom: 0.25rem; font-size: 1.3em; }
+.post-title a { color: inherit; text-decoration: none; }
+.post-meta { color: #868e96; font-size: 0.9em; margin: 0; }
+.post-tag { background: #e9ecef; color: #495057; padding: 0.1em 0.5em; border-radius: 3px; margin-left: 0.3em; text-decoration: none; }
+.post-pagination { display: flex; justify-content: space-between; margin-top: 2rem; padding-top: 1rem; border-top: 1px solid #dee2e6; }
+.post-feeds { margin-top: 1rem; font-size: 0.9em; color: #868e96; }
 `;
     }
 }
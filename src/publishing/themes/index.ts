@@ -80,3 +80,4 @@ registerTheme('book', BookTheme);
 
 export { DefaultTheme } from './defaultTheme';
 export { BookTheme } from './bookTheme';
+export { renderPostListing } from './postListing';
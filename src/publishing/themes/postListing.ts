@@ -0,0 +1,81 @@
+/**
+ * Blog Post Listings
+ * Renders blog index and tag archive bodies; themes wrap them in a page
+ * like any other content
+ */
+
+import type { PostListing, PostSummary } from './themeTypes';
+import { escapeHtml } from '../../utils/escapeUtils';
+
+const FEED_LABELS: Record<'rss' | 'atom', string> = {
+    rss: 'RSS',
+    atom: 'Atom',
+};
+
+const FEED_TYPES: Record<'rss' | 'atom', string> = {
+    rss: 'application/rss+xml',
+    atom: 'application/atom+xml',
+};
+
+/**
+ * Render the body of a blog index page or tag archive
+ */
+export function renderPostListing(listing: PostListing): string {
+    const parts: string[] = ['<div class="post-listing">'];
+
+    if (listing.indexHref) {
+        parts.push(`<p class="post-listing-index"><a href="${escapeHtml(listing.indexHref)}">← All posts</a></p>`);
+    }
+
+    for (const post of listing.posts) {
+        parts.push(renderPostSummary(post));
+    }
+    if (listing.posts.length === 0) {
+        parts.push('<p class="post-listing-empty">No posts yet.</p>');
+    }
+
+    if (listing.pageCount > 1) {
+        parts.push('<nav class="post-pagination">');
+        parts.push(listing.newerHref
+            ? `  <a href="${escapeHtml(listing.newerHref)}" class="pagination-newer">← Newer posts</a>`
+            : '  <span class="pagination-newer"></span>');
+        parts.push(`  <span class="pagination-status">Page ${listing.page} of ${listing.pageCount}</span>`);
+        parts.push(listing.olderHref
+            ? `  <a href="${escapeHtml(listing.olderHref)}" class="pagination-older">Older posts →</a>`
+            : '  <span class="pagination-older"></span>');
+        parts.push('</nav>');
+    }
+
+    if (listing.feeds.length > 0) {
+        const links = listing.feeds.map(feed =>
+            `<a href="${escapeHtml(feed.href)}" type="${FEED_TYPES[feed.format]}">${FEED_LABELS[feed.format]}</a>`
+        );
+        parts.push(`<p class="post-feeds">Subscribe: ${links.join(' · ')}</p>`);
+    }
+
+    parts.push('</div>');
+    return parts.join('\n');
+}
+
+/**
+ * Render one post entry
+ */
+function renderPostSummary(post: PostSummary): string {
+    const day = post.date.toISOString().split('T')[0];
+    const tags = post.tags.map(tag => tag.href
+        ? `<a href="${escapeHtml(tag.href)}" class="post-tag">${escapeHtml(tag.name)}</a>`
+        : `<span class="post-tag">${escapeHtml(tag.name)}</span>`
+    );
+
+    const lines = [
+        '<article class="post-summary">',
+        `<h2 class="post-title"><a href="${escapeHtml(post.href)}">${escapeHtml(post.title)}</a></h2>`,
+        `<p class="post-meta"><time datetime="${day}">${day}</time>${tags.length > 0 ? ' ' + tags.join(' ') : ''}</p>`,
+    ];
+    if (post.description) {
+        lines.push(`<p class="post-description">${escapeHtml(post.description)}</p>`);
+    }
+    lines.push('</article>');
+
+    return lines.join('\n');
+}
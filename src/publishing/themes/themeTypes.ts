@@ -160,6 +160,52 @@ export interface PageInfo {
     headings: Array<{ id: string; text: string }>;
 }
 
+/**
+ * A post in a blog index or tag archive
+ */
+export interface PostSummary {
+    /** Post title (from #+TITLE) */
+    title: string;
+
+    /** Link to the post, relative to the listing page */
+    href: string;
+
+    /** Publication date (from #+DATE) */
+    date: Date;
+
+    /** Summary (from #+DESCRIPTION) */
+    description?: string;
+
+    /** Tags (from #+FILETAGS), linked to their archive pages when generated */
+    tags: Array<{ name: string; href?: string }>;
+}
+
+/**
+ * Body of a blog index page or tag archive, rendered inside a theme page
+ */
+export interface PostListing {
+    /** Posts on this page, newest first */
+    posts: PostSummary[];
+
+    /** Page number (1-based) */
+    page: number;
+
+    /** Number of pages in the listing */
+    pageCount: number;
+
+    /** Link to the page of newer posts */
+    newerHref?: string;
+
+    /** Link to the page of older posts */
+    olderHref?: string;
+
+    /** Link back to the blog index (tag archives) */
+    indexHref?: string;
+
+    /** Feed links, relative to the listing page */
+    feeds: Array<{ format: 'rss' | 'atom'; href: string }>;
+}
+
 /**
  * Context for the entire project during rendering
  */
@@ -197,6 +243,12 @@ export interface Theme {
     /** Theme identifier */
     readonly name: string;
 
+    /**
+     * Output version, recorded in the publish manifest. Bump it when the
+     * theme's HTML changes so incremental publishing rebuilds every page.
+     */
+    readonly version?: string;
+
     /**
      * Render a page with the theme
      * @param content HTML content (body only)
@@ -605,7 +605,7 @@ class LoggingService {
                     '## Database',
                     `- Size: ${formatDbSize(stats.database_size)}`,
                     `- Schema Version: ${schemaInfo.currentVersion}/${schemaInfo.latestVersion}`,
-                    `- Files Indexed: ${stats.files} (org: ${stats.by_type.org}, md: ${stats.by_type.md})`,
+                    `- Files Indexed: ${stats.files} (${Object.entries(stats.by_type).map(([type, count]) => `${type}: ${count}`).join(', ')})`,
                     `- Headings: ${stats.headings}`,
                     `- Source Blocks: ${stats.blocks}`,
                     `- Vector Search: ${stats.vector_search_supported ? 'available' : 'not available'}${stats.vector_search_error ? ` (${stats.vector_search_error})` : ''}`,